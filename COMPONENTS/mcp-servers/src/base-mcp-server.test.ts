@@ -0,0 +1,262 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { promises as fs } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { z } from 'zod'
+import { BaseMCPServer } from './base-mcp-server.js'
+import { ToolError } from './errors.js'
+import { TestClient } from './testing.js'
+
+class NotesServer extends BaseMCPServer {
+  notes: string[] = []
+
+  constructor() {
+    super('notes-mcp', '1.0.0')
+    this.addConfigureTool({
+      settings: { prefix: { type: 'string', description: 'Prepended to every note' } }
+    })
+
+    this.addTool({
+      name: 'add_note',
+      description: 'Add a note',
+      inputSchema: z.object({ text: z.string().min(1), projectPath: z.string().optional() }),
+      handler: async ({ text }, context) => {
+        this.requireProject(context)
+        const note = `${context.settings.prefix ?? ''}${text}`
+        this.notes.push(note)
+        return { note, count: this.notes.length }
+      }
+    })
+
+    this.addTool({
+      name: 'get_note',
+      description: 'Get a note by index',
+      inputSchema: {
+        type: 'object',
+        properties: { index: { type: 'integer', minimum: 0 } },
+        required: ['index']
+      },
+      handler: async args => {
+        const note = this.notes[args.index as number]
+        if (note === undefined)
+          throw new ToolError('not_found', `No note at index ${args.index}`, {
+            count: this.notes.length
+          })
+        return { content: [{ type: 'text', text: note }] }
+      }
+    })
+
+    this.addTool({
+      name: 'crash',
+      description: 'Always fails',
+      inputSchema: { type: 'object', properties: {} },
+      handler: async () => {
+        throw new Error('Disk full')
+      }
+    })
+
+    this.addResource({
+      uri: 'notes://all',
+      name: 'Notes',
+      description: 'All notes',
+      mimeType: 'text/plain',
+      handler: async () => this.notes.join('\n')
+    })
+
+    this.addResourceTemplate({
+      uriTemplate: 'notes://note/{index}',
+      name: 'Note',
+      description: 'One note by index',
+      mimeType: 'text/plain',
+      list: async () =>
+        this.notes.map((note, i) => ({ uri: `notes://note/${i}`, name: `Note ${i}` })),
+      handler: async ({ index }) => {
+        const note = this.notes[Number(index)]
+        if (note === undefined) throw new Error(`No note at index ${index}`)
+        return note
+      }
+    })
+
+    this.addPrompt({
+      name: 'summarize',
+      description: 'Summarize the notes',
+      arguments: [{ name: 'tone', description: 'Tone of the summary', required: true }],
+      handler: async ({ tone }) => ({
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Summarize in a ${tone} tone:\n${this.notes.join('\n')}`
+            }
+          }
+        ]
+      })
+    })
+  }
+}
+
+describe('BaseMCPServer', () => {
+  let dir: string
+  let client: TestClient
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'mcp-base-'))
+    client = await TestClient.connect(new NotesServer())
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('should list tools with JSON schemas, including Zod ones', async () => {
+    const tools = await client.listTools()
+    expect(tools.map(tool => tool.name)).toEqual(['configure', 'add_note', 'get_note', 'crash'])
+    expect(tools[0].inputSchema).toMatchObject({
+      required: ['projectPath'],
+      additionalProperties: false
+    })
+    expect(tools[1].inputSchema).toEqual({
+      type: 'object',
+      properties: { text: { type: 'string', minLength: 1 }, projectPath: { type: 'string' } },
+      required: ['text']
+    })
+  })
+
+  it('should return validation failures as structured errors', async () => {
+    const result = await client.callTool('get_note', { index: -1 })
+    expect(result.isError).toBe(true)
+    expect(result.data).toEqual({
+      error: {
+        code: 'invalid_arguments',
+        message: 'Invalid arguments: index: Must be at least 0',
+        details: [{ path: 'index', message: 'Must be at least 0' }]
+      }
+    })
+  })
+
+  it('should keep error codes and details, and code other errors as tool_error', async () => {
+    expect((await client.callTool('get_note', { index: 3 })).data).toEqual({
+      error: { code: 'not_found', message: 'No note at index 3', details: { count: 0 } }
+    })
+    expect((await client.callTool('crash')).data).toEqual({
+      error: { code: 'tool_error', message: 'Disk full' }
+    })
+    await expect(client.callTool('missing')).rejects.toThrow('Unknown tool: missing')
+  })
+
+  it('should ask for a project until one is configured', async () => {
+    const result = await client.callTool('add_note', { text: 'hello' })
+    expect(result.data).toMatchObject({ error: { code: 'not_configured' } })
+
+    const configured = await client.callTool('configure', { projectPath: dir, prefix: '- ' })
+    expect(configured.data).toMatchObject({
+      projectPath: dir,
+      settings: { prefix: '- ' },
+      file: join(dir, '.ai-dev/mcp/notes-mcp.json')
+    })
+
+    expect((await client.callTool('add_note', { text: 'hello' })).data).toEqual({
+      note: '- hello',
+      count: 1
+    })
+    const note = await client.callTool('get_note', { index: 0 })
+    expect(note.text).toBe('- hello')
+  })
+
+  it('should persist settings per project across server restarts', async () => {
+    const other = await fs.mkdtemp(join(tmpdir(), 'mcp-base-other-'))
+    try {
+      await client.callTool('configure', { projectPath: dir, prefix: '* ' })
+      await client.callTool('configure', { projectPath: other })
+
+      const restarted = await TestClient.connect(new NotesServer())
+      // Earlier settings are kept when configure is called again without them
+      expect((await restarted.callTool('configure', { projectPath: dir })).data).toMatchObject({
+        settings: { prefix: '* ' }
+      })
+      expect(
+        (await restarted.callTool('add_note', { text: 'a', projectPath: other })).data
+      ).toMatchObject({ note: 'a' })
+      expect((await restarted.callTool('add_note', { text: 'b' })).data).toMatchObject({
+        note: '* b'
+      })
+      await restarted.close()
+    } finally {
+      await fs.rm(other, { recursive: true, force: true })
+    }
+  })
+
+  it('should reject unknown settings and missing project directories', async () => {
+    expect(
+      (await client.callTool('configure', { projectPath: dir, color: 'red' })).data
+    ).toMatchObject({
+      error: {
+        code: 'invalid_arguments',
+        details: [{ path: 'color', message: 'Unrecognized key' }]
+      }
+    })
+    expect(
+      (await client.callTool('configure', { projectPath: join(dir, 'missing') })).data
+    ).toMatchObject({
+      error: { message: `Project directory not found: ${join(dir, 'missing')}` }
+    })
+  })
+
+  it('should serve resources, including the configuration', async () => {
+    expect((await client.listResources()).map(resource => resource.uri)).toEqual([
+      'notes-mcp://configuration',
+      'notes://all'
+    ])
+    expect(JSON.parse(await client.readResource('notes-mcp://configuration'))).toEqual({
+      configured: false
+    })
+
+    await client.callTool('configure', { projectPath: dir })
+    await client.callTool('add_note', { text: 'one' })
+    expect(JSON.parse(await client.readResource('notes-mcp://configuration'))).toMatchObject({
+      projectPath: dir,
+      settings: {}
+    })
+    expect(await client.readResource('notes://all')).toBe('one')
+    await expect(client.readResource('notes://missing')).rejects.toThrow('Unknown resource')
+  })
+
+  it('should list and read resources from templates', async () => {
+    expect(await client.listResourceTemplates()).toEqual([
+      {
+        uriTemplate: 'notes://note/{index}',
+        name: 'Note',
+        description: 'One note by index',
+        mimeType: 'text/plain'
+      }
+    ])
+    await client.callTool('configure', { projectPath: dir })
+    await client.callTool('add_note', { text: 'first' })
+    expect((await client.listResources()).slice(2)).toEqual([
+      {
+        uri: 'notes://note/0',
+        name: 'Note 0',
+        description: 'One note by index',
+        mimeType: 'text/plain'
+      }
+    ])
+    expect(await client.readResource('notes://note/0')).toBe('first')
+    await expect(client.readResource('notes://note/5')).rejects.toThrow('No note at index 5')
+    await expect(client.readResource('notes://note/0/extra')).rejects.toThrow('Unknown resource')
+  })
+
+  it('should render prompts and check their required arguments', async () => {
+    expect(await client.listPrompts()).toEqual([
+      {
+        name: 'summarize',
+        description: 'Summarize the notes',
+        arguments: [{ name: 'tone', description: 'Tone of the summary', required: true }]
+      }
+    ])
+    const prompt = await client.getPrompt('summarize', { tone: 'dry' })
+    expect(prompt.messages[0].content).toEqual({ type: 'text', text: 'Summarize in a dry tone:\n' })
+    await expect(client.getPrompt('summarize')).rejects.toThrow('Missing required argument: tone')
+  })
+})
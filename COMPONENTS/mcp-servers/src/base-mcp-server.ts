@@ -0,0 +1,435 @@
+/**
+ * Base MCP Server
+ *
+ * Shared runtime for MCP (Model Context Protocol) servers. Extend this class
+ * and register tools, resources, and prompts; the base class validates tool
+ * arguments against their schemas, turns failures into structured error
+ * results, and keeps per-project settings for the `configure` tool.
+ *
+ * @example
+ * ```typescript
+ * import { BaseMCPServer, z } from '@ai-dev-standards/mcp-server-base'
+ *
+ * class MyMCPServer extends BaseMCPServer {
+ *   constructor() {
+ *     super('my-mcp-server', '1.0.0')
+ *     this.addConfigureTool({ settings: { style: { type: 'string', enum: ['css', 'tailwind'] } } })
+ *     this.addTool({
+ *       name: 'my_tool',
+ *       description: 'Does something useful',
+ *       inputSchema: z.object({ input: z.string().describe('Text to process') }),
+ *       handler: async ({ input }, { settings }) => ({ result: `Processed ${input} as ${settings.style}` })
+ *     })
+ *   }
+ * }
+ *
+ * new MyMCPServer().run()
+ * ```
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js'
+import { ConfigStore, ProjectConfig } from './config-store.js'
+import { createErrorResponse, ToolError } from './errors.js'
+import {
+  ArgsSchema,
+  JsonSchema,
+  toJsonSchema,
+  ToolInputSchema,
+  validateArgs
+} from './validation.js'
+
+export interface ToolContext {
+  /** The projectPath argument, or else the project last passed to `configure` */
+  projectPath?: string
+  /** Settings saved by `configure` for projectPath; empty if it was never configured */
+  settings: Record<string, unknown>
+}
+
+/** A complete tool result, for handlers that return text or several content items */
+export type ToolResult = CallToolResult
+
+export interface MCPTool<TArgs = Record<string, unknown>> {
+  name: string
+  description: string
+  /** Zod schema or JSON schema of the arguments object */
+  inputSchema: ArgsSchema<TArgs>
+  /** Receives validated arguments; anything but a ToolResult is returned as JSON */
+  handler: (args: TArgs, context: ToolContext) => Promise<unknown>
+}
+
+export interface MCPResource {
+  uri: string
+  name: string
+  description: string
+  mimeType: string
+  handler: () => Promise<string>
+}
+
+/**
+ * Resources whose URIs carry parameters, e.g. `i18n://catalogs/{locale}`
+ */
+export interface MCPResourceTemplate {
+  /** URI with `{name}` placeholders, each matching one path segment */
+  uriTemplate: string
+  name: string
+  description: string
+  mimeType: string
+  /** Concrete resources to include in `resources/list` */
+  list?: () => Promise<Array<{ uri: string; name: string; description?: string }>>
+  handler: (params: Record<string, string>, uri: string) => Promise<string>
+}
+
+export interface MCPPrompt {
+  name: string
+  description: string
+  arguments?: Array<{
+    name: string
+    description: string
+    required?: boolean
+  }>
+  handler: (args: Record<string, string>) => Promise<{
+    messages: Array<{
+      role: 'user' | 'assistant'
+      content: { type: 'text'; text: string }
+    }>
+  }>
+}
+
+export interface ConfigureOptions {
+  description?: string
+  /** Settings `configure` accepts besides projectPath, as JSON schema properties */
+  settings?: Record<string, JsonSchema>
+}
+
+function isToolResult(value: unknown): value is ToolResult {
+  return typeof value === 'object' && value !== null && Array.isArray((value as ToolResult).content)
+}
+
+/**
+ * Base class for MCP servers
+ */
+export abstract class BaseMCPServer {
+  protected server: Server
+  protected tools: Map<string, MCPTool<never>> = new Map()
+  protected resources: Map<string, MCPResource> = new Map()
+  protected resourceTemplates: MCPResourceTemplate[] = []
+  protected prompts: Map<string, MCPPrompt> = new Map()
+  protected readonly config: ConfigStore
+  /** Project of the last `configure` call */
+  protected activeProject?: string
+
+  constructor(
+    protected serverName: string,
+    protected serverVersion: string
+  ) {
+    this.server = new Server(
+      {
+        name: serverName,
+        version: serverVersion
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {}
+        }
+      }
+    )
+    this.config = new ConfigStore(serverName)
+
+    this.setupHandlers()
+  }
+
+  /**
+   * Set up MCP protocol handlers
+   */
+  private setupHandlers(): void {
+    // Tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: Array.from(this.tools.values()).map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: { type: 'object', properties: {}, ...toJsonSchema(tool.inputSchema) }
+      }))
+    }))
+
+    this.server.setRequestHandler(CallToolRequestSchema, async request => {
+      const tool = this.tools.get(request.params.name) as MCPTool<unknown> | undefined
+      if (!tool) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${request.params.name}`)
+      }
+
+      try {
+        const args = validateArgs(request.params.arguments ?? {}, tool.inputSchema)
+        const result = await tool.handler(args, await this.context(args))
+        if (isToolResult(result)) return result
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2)
+            }
+          ]
+        }
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    })
+
+    // Resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = Array.from(this.resources.values()).map(resource => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType
+      }))
+      for (const template of this.resourceTemplates) {
+        // A template that can't list right now (say, before configure) lists nothing
+        const listed = (await template.list?.().catch(() => [])) ?? []
+        resources.push(
+          ...listed.map(resource => ({
+            description: template.description,
+            ...resource,
+            mimeType: template.mimeType
+          }))
+        )
+      }
+      return { resources }
+    })
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resourceTemplates.map(template => ({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType
+      }))
+    }))
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      const { uri } = request.params
+      const resource = this.resources.get(uri)
+      const match = resource ? undefined : this.matchTemplate(uri)
+      if (!resource && !match) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`)
+      }
+
+      try {
+        const content = resource
+          ? await resource.handler()
+          : await match!.template.handler(match!.params, uri)
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: resource?.mimeType ?? match!.template.mimeType,
+              text: content
+            }
+          ]
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        throw new McpError(ErrorCode.InternalError, `Failed to read resource: ${errorMessage}`)
+      }
+    })
+
+    // Prompts
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: Array.from(this.prompts.values()).map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments
+      }))
+    }))
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async request => {
+      const prompt = this.prompts.get(request.params.name)
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`)
+      }
+
+      const args = request.params.arguments ?? {}
+      const missing = (prompt.arguments ?? []).filter(arg => arg.required && !args[arg.name])
+      if (missing.length > 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Missing required argument: ${missing.map(arg => arg.name).join(', ')}`
+        )
+      }
+
+      try {
+        return await prompt.handler(args)
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        throw new McpError(ErrorCode.InternalError, `Failed to get prompt: ${errorMessage}`)
+      }
+    })
+  }
+
+  /**
+   * Project and settings a tool call runs against
+   */
+  private async context(args: unknown): Promise<ToolContext> {
+    const argPath = (args as { projectPath?: unknown } | null)?.projectPath
+    const projectPath = typeof argPath === 'string' ? argPath : this.activeProject
+    if (!projectPath) return { settings: {} }
+    return { projectPath, settings: (await this.config.load(projectPath))?.settings ?? {} }
+  }
+
+  /**
+   * The context's project, or a `not_configured` error asking for one
+   */
+  protected requireProject(context: ToolContext): string {
+    if (!context.projectPath) {
+      throw new ToolError(
+        'not_configured',
+        `No project selected: pass projectPath or call configure first`
+      )
+    }
+    return context.projectPath
+  }
+
+  /**
+   * Add a tool to the server
+   */
+  protected addTool<TArgs = Record<string, unknown>>(tool: MCPTool<TArgs>): void {
+    this.tools.set(tool.name, tool as MCPTool<never>)
+  }
+
+  /**
+   * Add a resource to the server
+   */
+  protected addResource(resource: MCPResource): void {
+    this.resources.set(resource.uri, resource)
+  }
+
+  /**
+   * Add a resource template; its URIs are read through the handler with the
+   * placeholder values
+   */
+  protected addResourceTemplate(template: MCPResourceTemplate): void {
+    this.resourceTemplates.push(template)
+  }
+
+  private matchTemplate(
+    uri: string
+  ): { template: MCPResourceTemplate; params: Record<string, string> } | undefined {
+    for (const template of this.resourceTemplates) {
+      const names: string[] = []
+      const pattern = template.uriTemplate
+        .split(/(\{[^}]+\})/)
+        .map(part => {
+          if (!/^\{[^}]+\}$/.test(part)) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+          names.push(part.slice(1, -1))
+          return '([^/]+)'
+        })
+        .join('')
+      const values = uri.match(new RegExp(`^${pattern}$`))
+      if (values) {
+        const params = Object.fromEntries(
+          names.map((name, i) => [name, decodeURIComponent(values[i + 1])])
+        )
+        return { template, params }
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Add a prompt to the server
+   */
+  protected addPrompt(prompt: MCPPrompt): void {
+    this.prompts.set(prompt.name, prompt)
+  }
+
+  /**
+   * Add the `configure` tool, which saves settings for a project and makes it
+   * the default for later calls, and a resource showing the current settings
+   */
+  protected addConfigureTool(options: ConfigureOptions = {}): void {
+    const settings = options.settings ?? {}
+    const inputSchema: ToolInputSchema = {
+      type: 'object',
+      properties: {
+        projectPath: { type: 'string', description: 'Project root directory' },
+        ...settings
+      },
+      required: ['projectPath'],
+      additionalProperties: false
+    }
+
+    this.addTool({
+      name: 'configure',
+      description:
+        options.description ??
+        `Configure ${this.serverName} for a project; settings are saved in .ai-dev/mcp/${this.serverName}.json`,
+      inputSchema,
+      handler: async args => {
+        const { projectPath, ...values } = args as { projectPath: string }
+        const config = await this.config.save(projectPath, values)
+        this.activeProject = config.projectPath
+        return { ...config, file: this.config.file(projectPath) }
+      }
+    })
+
+    this.addResource({
+      uri: `${this.serverName}://configuration`,
+      name: 'Configuration',
+      description: `Settings of the project ${this.serverName} is configured for`,
+      mimeType: 'application/json',
+      handler: async () => {
+        const config: ProjectConfig | { configured: false } = this.activeProject
+          ? ((await this.config.load(this.activeProject)) ?? { configured: false })
+          : { configured: false }
+        return JSON.stringify(config, null, 2)
+      }
+    })
+  }
+
+  /**
+   * Serve over any transport (stdio, or in-memory in tests)
+   */
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport)
+  }
+
+  /**
+   * Start the MCP server
+   */
+  async start(): Promise<void> {
+    await this.connect(new StdioServerTransport())
+    console.error(`${this.serverName} v${this.serverVersion} running on stdio`)
+  }
+
+  /**
+   * Start on stdio, exiting if the server cannot start
+   */
+  run(): void {
+    this.start().catch(error => {
+      console.error('Server error:', error)
+      process.exit(1)
+    })
+  }
+
+  /**
+   * Stop the MCP server
+   */
+  async stop(): Promise<void> {
+    await this.server.close()
+  }
+}
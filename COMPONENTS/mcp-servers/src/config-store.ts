@@ -0,0 +1,67 @@
+/**
+ * Per-project settings saved by the `configure` tool
+ *
+ * Each project gets one file per server, `<projectPath>/.ai-dev/mcp/<server>.json`,
+ * next to the project's other `.ai-dev/` files, so settings survive server
+ * restarts and can be committed with the project.
+ */
+
+import { promises as fs } from 'fs'
+import { dirname, join, resolve } from 'path'
+
+export const CONFIG_DIR = join('.ai-dev', 'mcp')
+
+export interface ProjectConfig<TSettings = Record<string, unknown>> {
+  projectPath: string
+  settings: TSettings
+  updatedAt: string
+}
+
+export class ConfigStore<TSettings extends object = Record<string, unknown>> {
+  private writes: Promise<unknown> = Promise.resolve()
+
+  constructor(readonly serverName: string) {}
+
+  /** Settings file of a project */
+  file(projectPath: string): string {
+    return join(resolve(projectPath), CONFIG_DIR, `${this.serverName}.json`)
+  }
+
+  /** Saved configuration, or undefined if the project was never configured */
+  async load(projectPath: string): Promise<ProjectConfig<TSettings> | undefined> {
+    const file = this.file(projectPath)
+    const content = await fs.readFile(file, 'utf-8').catch(() => null)
+    if (content === null) return undefined
+    try {
+      return JSON.parse(content) as ProjectConfig<TSettings>
+    } catch {
+      throw new Error(`Configuration is not valid JSON: ${file}`)
+    }
+  }
+
+  /** Merge settings into the saved ones; undefined values remove a setting */
+  save(projectPath: string, settings: Partial<TSettings>): Promise<ProjectConfig<TSettings>> {
+    const write = this.writes.then(async () => {
+      const stat = await fs.stat(projectPath).catch(() => null)
+      if (!stat?.isDirectory()) throw new Error(`Project directory not found: ${projectPath}`)
+
+      const existing = await this.load(projectPath)
+      const merged: Record<string, unknown> = { ...existing?.settings, ...settings }
+      for (const key of Object.keys(merged)) if (merged[key] === undefined) delete merged[key]
+      const config: ProjectConfig<TSettings> = {
+        projectPath: resolve(projectPath),
+        settings: merged as TSettings,
+        updatedAt: new Date().toISOString()
+      }
+
+      const file = this.file(projectPath)
+      await fs.mkdir(dirname(file), { recursive: true })
+      const temp = `${file}.${process.pid}.tmp`
+      await fs.writeFile(temp, JSON.stringify(config, null, 2) + '\n')
+      await fs.rename(temp, file)
+      return config
+    })
+    this.writes = write.catch(() => undefined)
+    return write
+  }
+}
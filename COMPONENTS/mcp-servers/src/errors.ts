@@ -0,0 +1,73 @@
+/**
+ * Structured tool errors
+ *
+ * Tool failures are returned to the client as a result with `isError: true`
+ * and a JSON body the model can act on:
+ *
+ * ```json
+ * { "error": { "code": "invalid_arguments", "message": "...", "details": [...] } }
+ * ```
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+
+/** Well-known codes; servers may use their own */
+export type ToolErrorCode =
+  | 'invalid_arguments'
+  | 'not_configured'
+  | 'not_found'
+  | 'tool_error'
+  | (string & Record<never, never>)
+
+export interface ValidationIssue {
+  /** Dotted path to the argument, e.g. "charts[0].type"; empty for the arguments object */
+  path: string
+  message: string
+}
+
+/**
+ * Error with a code and details that survive into the tool result
+ */
+export class ToolError extends Error {
+  constructor(
+    readonly code: ToolErrorCode,
+    message: string,
+    readonly details?: unknown
+  ) {
+    super(message)
+    this.name = 'ToolError'
+  }
+}
+
+/**
+ * Arguments that do not match a tool's schema
+ */
+export class ValidationError extends ToolError {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(
+      'invalid_arguments',
+      `Invalid arguments: ${issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ')}`,
+      issues
+    )
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * Tool result for an error; unknown errors get the code "tool_error"
+ */
+export function createErrorResponse(error: unknown): CallToolResult {
+  const body =
+    error instanceof ToolError
+      ? {
+          code: error.code,
+          message: error.message,
+          ...(error.details !== undefined ? { details: error.details } : {})
+        }
+      : { code: 'tool_error', message: error instanceof Error ? error.message : String(error) }
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify({ error: body }, null, 2) }],
+    isError: true
+  }
+}
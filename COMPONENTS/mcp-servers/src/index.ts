@@ -0,0 +1,35 @@
+/**
+ * @ai-dev-standards/mcp-server-base
+ *
+ * Shared runtime the MCP servers are built on.
+ */
+
+export { z } from 'zod'
+export {
+  BaseMCPServer,
+  ConfigureOptions,
+  MCPPrompt,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPTool,
+  ToolContext,
+  ToolResult
+} from './base-mcp-server.js'
+export { CONFIG_DIR, ConfigStore, ProjectConfig } from './config-store.js'
+export {
+  createErrorResponse,
+  ToolError,
+  ToolErrorCode,
+  ValidationError,
+  ValidationIssue
+} from './errors.js'
+export { TestClient, ToolCallResult } from './testing.js'
+export {
+  ArgsSchema,
+  isZodSchema,
+  JsonSchema,
+  JsonType,
+  toJsonSchema,
+  ToolInputSchema,
+  validateArgs
+} from './validation.js'
@@ -0,0 +1,89 @@
+/**
+ * In-process test client
+ *
+ * Drives a server through a real MCP client over an in-memory transport, so
+ * tests exercise the same request handling, validation and error results as
+ * a client over stdio.
+ *
+ * @example
+ * ```typescript
+ * const client = await TestClient.connect(new MyMCPServer())
+ * const result = await client.callTool('my_tool', { input: 'hello' })
+ * expect(result.data).toEqual({ result: 'Processed hello' })
+ * await client.close()
+ * ```
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import type { BaseMCPServer } from './base-mcp-server.js'
+
+export interface ToolCallResult<T = unknown> {
+  isError: boolean
+  /** Text of all text content items */
+  text: string
+  /** The text parsed as JSON; undefined if it is not JSON */
+  data: T
+  content: Array<{ type: string; text?: string }>
+}
+
+export class TestClient {
+  private constructor(private readonly client: Client) {}
+
+  static async connect(server: BaseMCPServer): Promise<TestClient> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} })
+    await client.connect(clientTransport)
+    return new TestClient(client)
+  }
+
+  async listTools() {
+    return (await this.client.listTools()).tools
+  }
+
+  async callTool<T = unknown>(
+    name: string,
+    args: Record<string, unknown> = {}
+  ): Promise<ToolCallResult<T>> {
+    const result = await this.client.callTool({ name, arguments: args })
+    const content = (result.content ?? []) as ToolCallResult['content']
+    const text = content
+      .filter(item => item.type === 'text')
+      .map(item => item.text)
+      .join('\n')
+    let data: unknown
+    try {
+      data = JSON.parse(text)
+    } catch {
+      data = undefined
+    }
+    return { isError: result.isError === true, text, data: data as T, content }
+  }
+
+  async listResources() {
+    return (await this.client.listResources()).resources
+  }
+
+  async listResourceTemplates() {
+    return (await this.client.listResourceTemplates()).resourceTemplates
+  }
+
+  /** Text of a resource */
+  async readResource(uri: string): Promise<string> {
+    const { contents } = await this.client.readResource({ uri })
+    return contents.map(item => ('text' in item ? item.text : '')).join('\n')
+  }
+
+  async listPrompts() {
+    return (await this.client.listPrompts()).prompts
+  }
+
+  async getPrompt(name: string, args: Record<string, string> = {}) {
+    return this.client.getPrompt({ name, arguments: args })
+  }
+
+  async close(): Promise<void> {
+    await this.client.close()
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { ValidationError } from './errors.js'
+import { toJsonSchema, ToolInputSchema, validateArgs } from './validation.js'
+
+const CHART: ToolInputSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['bar', 'line', 'pie'] },
+    width: { type: 'integer', minimum: 100, default: 600 },
+    series: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string', minLength: 1 },
+          color: { type: 'string', pattern: '^#[0-9a-f]{6}$' }
+        },
+        required: ['field']
+      }
+    }
+  },
+  required: ['type', 'series'],
+  additionalProperties: false
+}
+
+function issues(fn: () => unknown) {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError)
+    return (error as ValidationError).issues
+  }
+  throw new Error('Expected a ValidationError')
+}
+
+describe('JSON schema arguments', () => {
+  it('should fill in defaults without changing the arguments', () => {
+    const args = { type: 'bar', series: [{ field: 'sales' }] }
+    expect(validateArgs(args, CHART)).toEqual({
+      type: 'bar',
+      width: 600,
+      series: [{ field: 'sales' }]
+    })
+    expect(args).not.toHaveProperty('width')
+  })
+
+  it('should report every problem with its path', () => {
+    expect(
+      issues(() =>
+        validateArgs({ type: 'donut', width: 50.5, series: [{ color: 'red' }], extra: true }, CHART)
+      )
+    ).toEqual([
+      { path: 'type', message: 'Expected one of "bar", "line", "pie"' },
+      { path: 'width', message: 'Expected integer, received number' },
+      { path: 'series[0].field', message: 'Required' },
+      { path: 'series[0].color', message: 'Must match ^#[0-9a-f]{6}$' },
+      { path: 'extra', message: 'Unrecognized key' }
+    ])
+  })
+
+  it('should name the missing arguments in the error message', () => {
+    expect(() => validateArgs({}, CHART)).toThrow(
+      'Invalid arguments: type: Required; series: Required'
+    )
+    expect(() => validateArgs({ a: 1 }, ['a', 'b'])).toThrow('Invalid arguments: b: Required')
+  })
+
+  it('should accept any of several shapes', () => {
+    const schema: ToolInputSchema = {
+      type: 'object',
+      properties: { size: { anyOf: [{ type: 'number' }, { type: 'string', enum: ['auto'] }] } }
+    }
+    expect(validateArgs({ size: 'auto' }, schema)).toEqual({ size: 'auto' })
+    expect(issues(() => validateArgs({ size: 'big' }, schema))).toEqual([
+      { path: 'size', message: 'Does not match any of the allowed schemas' }
+    ])
+  })
+})
+
+describe('Zod arguments', () => {
+  const schema = z
+    .object({
+      name: z.string().min(1).describe('Token name'),
+      format: z.enum(['css', 'scss']).default('css'),
+      tags: z.array(z.string()).optional(),
+      opacity: z.number().int().max(100).nullable()
+    })
+    .strict()
+
+  it('should parse arguments and report issues with paths', () => {
+    expect(validateArgs({ name: 'primary', opacity: null }, schema)).toEqual({
+      name: 'primary',
+      format: 'css',
+      opacity: null
+    })
+    expect(issues(() => validateArgs({ name: '', tags: ['a', 1], opacity: 5 }, schema))).toEqual([
+      { path: 'name', message: 'String must contain at least 1 character(s)' },
+      { path: 'tags[1]', message: 'Expected string, received number' }
+    ])
+  })
+
+  it('should convert to the JSON schema clients see', () => {
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, description: 'Token name' },
+        format: { type: 'string', enum: ['css', 'scss'], default: 'css' },
+        tags: { type: 'array', items: { type: 'string' } },
+        opacity: { anyOf: [{ type: 'integer', maximum: 100 }, { type: 'null' }] }
+      },
+      required: ['name', 'opacity'],
+      additionalProperties: false
+    })
+  })
+
+  it('should validate the converted schema like the Zod schema', () => {
+    const json = toJsonSchema(schema)
+    expect(validateArgs({ name: 'primary', opacity: 3 }, json)).toEqual({
+      name: 'primary',
+      format: 'css',
+      opacity: 3
+    })
+    expect(() => validateArgs({ name: 'primary', opacity: 300 }, json)).toThrow(ValidationError)
+  })
+})
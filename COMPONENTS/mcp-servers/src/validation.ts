@@ -0,0 +1,337 @@
+/**
+ * Tool argument validation
+ *
+ * Tools describe their arguments with either a Zod schema or a JSON schema.
+ * Zod schemas are converted to JSON schema for `tools/list`; JSON schemas
+ * are checked here with the subset of keywords tool inputs use (type,
+ * properties, required, items, enum, const, bounds, pattern, anyOf, allOf,
+ * additionalProperties) and their defaults are filled in.
+ */
+
+import type { ZodType, ZodTypeAny } from 'zod'
+import { ValidationError, ValidationIssue } from './errors.js'
+
+export type JsonType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null'
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[]
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  enum?: unknown[]
+  const?: unknown
+  default?: unknown
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  minItems?: number
+  maxItems?: number
+  pattern?: string
+  format?: string
+}
+
+/** JSON schema of a tool's arguments object */
+export interface ToolInputSchema extends JsonSchema {
+  type: 'object'
+  properties: Record<string, JsonSchema>
+  required?: string[]
+}
+
+export type ArgsSchema<T = Record<string, unknown>> = ZodType<T> | JsonSchema
+
+export function isZodSchema(schema: unknown): schema is ZodTypeAny {
+  return (
+    typeof schema === 'object' &&
+    schema !== null &&
+    '_def' in schema &&
+    typeof (schema as ZodTypeAny).safeParse === 'function'
+  )
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function hasType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value)
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'object':
+      return isObject(value)
+    case 'array':
+      return Array.isArray(value)
+    case 'null':
+      return value === null
+    default:
+      return typeof value === type
+  }
+}
+
+/**
+ * Check a value against a JSON schema, collecting issues; returns the value
+ * with defaults of missing properties filled in
+ */
+function check(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  issues: ValidationIssue[]
+): unknown {
+  const issue = (message: string) => issues.push({ path, message })
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => hasType(value, type))) {
+      issue(`Expected ${types.join(' | ')}, received ${typeName(value)}`)
+      return value
+    }
+  }
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    issue(`Expected one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`)
+  }
+  if ('const' in schema && schema.const !== value) issue(`Expected ${JSON.stringify(schema.const)}`)
+
+  if (schema.anyOf && !schema.anyOf.some(option => validates(value, option))) {
+    issue('Does not match any of the allowed schemas')
+  }
+  let result = value
+  for (const part of schema.allOf ?? []) result = check(result, part, path, issues)
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issue(`Must contain at least ${schema.minLength} character(s)`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issue(`Must contain at most ${schema.maxLength} character(s)`)
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value))
+      issue(`Must match ${schema.pattern}`)
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum)
+      issue(`Must be at least ${schema.minimum}`)
+    if (schema.maximum !== undefined && value > schema.maximum)
+      issue(`Must be at most ${schema.maximum}`)
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issue(`Must contain at least ${schema.minItems} item(s)`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issue(`Must contain at most ${schema.maxItems} item(s)`)
+    }
+    const items = schema.items
+    if (items)
+      result = value.map((item, index) => check(item, items, childPath(path, index), issues))
+  }
+
+  if (
+    isObject(value) &&
+    (schema.properties || schema.required || schema.additionalProperties !== undefined)
+  ) {
+    const object: Record<string, unknown> = { ...(result as Record<string, unknown>) }
+    const properties = schema.properties ?? {}
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined && properties[name]?.default === undefined) {
+        issues.push({ path: childPath(path, name), message: 'Required' })
+      }
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      if (object[name] === undefined) {
+        if (property.default !== undefined) object[name] = structuredClone(property.default)
+        continue
+      }
+      object[name] = check(object[name], property, childPath(path, name), issues)
+    }
+    const extra = schema.additionalProperties
+    for (const name of Object.keys(object)) {
+      if (name in properties) continue
+      if (extra === false) issues.push({ path: childPath(path, name), message: 'Unrecognized key' })
+      else if (typeof extra === 'object')
+        object[name] = check(object[name], extra, childPath(path, name), issues)
+    }
+    result = object
+  }
+
+  return result
+}
+
+function validates(value: unknown, schema: JsonSchema): boolean {
+  const issues: ValidationIssue[] = []
+  check(value, schema, '', issues)
+  return issues.length === 0
+}
+
+/**
+ * Validate tool arguments and return them parsed (Zod) or with defaults
+ * filled in (JSON schema); a list of names only checks they are present.
+ * Throws a ValidationError listing every problem.
+ */
+export function validateArgs<T = Record<string, unknown>>(
+  args: unknown,
+  schema: ArgsSchema<T> | string[]
+): T {
+  const value = args ?? {}
+
+  if (Array.isArray(schema)) {
+    const object = isObject(value) ? value : {}
+    const missing = schema.filter(field => object[field] === undefined || object[field] === null)
+    if (missing.length > 0)
+      throw new ValidationError(missing.map(field => ({ path: field, message: 'Required' })))
+    return value as T
+  }
+
+  if (isZodSchema(schema)) {
+    const parsed = schema.safeParse(value)
+    if (parsed.success) return parsed.data as T
+    throw new ValidationError(
+      parsed.error.issues.map(issue => ({
+        path: issue.path.reduce<string>((path, key) => childPath(path, key), ''),
+        message: issue.message
+      }))
+    )
+  }
+
+  const issues: ValidationIssue[] = []
+  const result = check(value, schema, '', issues)
+  if (issues.length > 0) throw new ValidationError(issues)
+  return result as T
+}
+
+/** The parts of Zod's internal definitions the converter reads */
+interface ZodDef {
+  typeName: string
+  description?: string
+  shape?: () => Record<string, ZodTypeAny>
+  innerType?: ZodTypeAny
+  schema?: ZodTypeAny
+  type?: ZodTypeAny
+  valueType?: ZodTypeAny
+  left?: ZodTypeAny
+  right?: ZodTypeAny
+  options?: ZodTypeAny[]
+  values?: readonly unknown[] | Record<string, string | number>
+  value?: unknown
+  defaultValue?: () => unknown
+  unknownKeys?: string
+  checks?: Array<{ kind: string; value?: number; regex?: RegExp }>
+  minLength?: { value: number } | null
+  maxLength?: { value: number } | null
+}
+
+function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def as ZodDef
+  const json = convert(def)
+  return def.description ? { ...json, description: def.description } : json
+}
+
+function convert(def: ZodDef): JsonSchema {
+  switch (def.typeName) {
+    case 'ZodString': {
+      const json: JsonSchema = { type: 'string' }
+      for (const rule of def.checks ?? []) {
+        if (rule.kind === 'min') json.minLength = rule.value
+        if (rule.kind === 'max') json.maxLength = rule.value
+        if (rule.kind === 'regex' && rule.regex) json.pattern = rule.regex.source
+        if (rule.kind === 'email' || rule.kind === 'url' || rule.kind === 'uuid') {
+          json.format = rule.kind === 'url' ? 'uri' : rule.kind
+        }
+      }
+      return json
+    }
+    case 'ZodNumber': {
+      const json: JsonSchema = { type: 'number' }
+      for (const rule of def.checks ?? []) {
+        if (rule.kind === 'int') json.type = 'integer'
+        if (rule.kind === 'min') json.minimum = rule.value
+        if (rule.kind === 'max') json.maximum = rule.value
+      }
+      return json
+    }
+    case 'ZodBoolean':
+      return { type: 'boolean' }
+    case 'ZodNull':
+      return { type: 'null' }
+    case 'ZodLiteral':
+      return { const: def.value }
+    case 'ZodEnum':
+      return { type: 'string', enum: [...((def.values as readonly unknown[]) ?? [])] }
+    case 'ZodNativeEnum': {
+      const values = def.values as Record<string, string | number>
+      // Numeric enums map names to numbers and numbers back to names
+      return {
+        enum: Object.keys(values)
+          .filter(key => typeof values[values[key]] !== 'number')
+          .map(key => values[key])
+      }
+    }
+    case 'ZodArray': {
+      const json: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type!) }
+      if (def.minLength) json.minItems = def.minLength.value
+      if (def.maxLength) json.maxItems = def.maxLength.value
+      return json
+    }
+    case 'ZodObject': {
+      const shape = def.shape!()
+      const properties: Record<string, JsonSchema> = {}
+      const required: string[] = []
+      for (const [name, value] of Object.entries(shape)) {
+        properties[name] = zodToJsonSchema(value)
+        if (!value.isOptional()) required.push(name)
+      }
+      return {
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {}),
+        ...(def.unknownKeys === 'strict' ? { additionalProperties: false } : {})
+      }
+    }
+    case 'ZodRecord':
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType!) }
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion':
+      return { anyOf: (def.options ?? []).map(zodToJsonSchema) }
+    case 'ZodIntersection':
+      return { allOf: [zodToJsonSchema(def.left!), zodToJsonSchema(def.right!)] }
+    case 'ZodOptional':
+      return zodToJsonSchema(def.innerType!)
+    case 'ZodNullable': {
+      const inner = zodToJsonSchema(def.innerType!)
+      return { anyOf: [inner, { type: 'null' }] }
+    }
+    case 'ZodDefault':
+      return { ...zodToJsonSchema(def.innerType!), default: def.defaultValue!() }
+    case 'ZodEffects':
+      return zodToJsonSchema(def.schema!)
+    default:
+      // any, unknown and types JSON schema cannot express accept anything
+      return {}
+  }
+}
+
+/**
+ * JSON schema to advertise for an argument schema
+ */
+export function toJsonSchema(schema: ArgsSchema<unknown>): JsonSchema {
+  return isZodSchema(schema) ? zodToJsonSchema(schema) : schema
+}
@@ -17,6 +17,10 @@
  *   Disabled
  * </Button>
  * ```
+ *
+ * Colors come from the design tokens in ./tokens (primary, secondary,
+ * destructive, accent, input, ring). Build them with design-token-manager-mcp
+ * and add the generated Tailwind theme to `theme.extend`.
  */
 
 import * as React from 'react'
@@ -29,17 +33,17 @@ const buttonVariants = cva(
     variants: {
       variant: {
         primary:
-          'bg-blue-600 text-white hover:bg-blue-700 focus-visible:ring-blue-600',
+          'bg-primary text-primary-foreground hover:bg-primary-hover focus-visible:ring-primary',
         secondary:
-          'bg-gray-600 text-white hover:bg-gray-700 focus-visible:ring-gray-600',
+          'bg-secondary text-secondary-foreground hover:bg-secondary-hover focus-visible:ring-secondary',
         outline:
-          'border border-gray-300 bg-transparent hover:bg-gray-100 focus-visible:ring-gray-400',
+          'border border-input bg-transparent hover:bg-accent focus-visible:ring-ring',
         ghost:
-          'bg-transparent hover:bg-gray-100 focus-visible:ring-gray-400',
+          'bg-transparent hover:bg-accent focus-visible:ring-ring',
         destructive:
-          'bg-red-600 text-white hover:bg-red-700 focus-visible:ring-red-600',
+          'bg-destructive text-destructive-foreground hover:bg-destructive-hover focus-visible:ring-destructive',
         link:
-          'bg-transparent underline-offset-4 hover:underline text-blue-600',
+          'bg-transparent underline-offset-4 hover:underline text-primary',
       },
       size: {
         sm: 'h-8 px-3 text-xs',
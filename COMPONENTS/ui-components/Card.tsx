@@ -18,6 +18,9 @@
  *   </CardFooter>
  * </Card>
  * ```
+ *
+ * Colors, radius and shadows come from the design tokens in ./tokens
+ * (surface, border, muted), so a theme file restyles every card.
  */
 
 import * as React from 'react'
@@ -36,10 +39,10 @@ export const Card = React.forwardRef<HTMLDivElement, CardProps>(
       <div
         ref={ref}
         className={cn(
-          'rounded-lg bg-white text-gray-900',
-          variant === 'bordered' && 'border border-gray-200',
+          'rounded-lg bg-surface text-surface-foreground',
+          variant === 'bordered' && 'border border-border',
           variant === 'elevated' && 'shadow-lg',
-          variant === 'default' && 'border border-gray-200 shadow-sm',
+          variant === 'default' && 'border border-border shadow-sm',
           className
         )}
         {...props}
@@ -89,7 +92,7 @@ export const CardDescription = React.forwardRef<
   return (
     <p
       ref={ref}
-      className={cn('text-sm text-gray-500', className)}
+      className={cn('text-sm text-muted-foreground', className)}
       {...props}
     />
   )
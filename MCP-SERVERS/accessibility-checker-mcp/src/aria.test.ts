@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { checkAria } from './aria.js';
+import { parseHtml, parseJsx } from './markup.js';
+
+const UI_COMPONENTS = fileURLToPath(new URL('../../../COMPONENTS/ui-components/', import.meta.url));
+
+const html = (markup: string) => checkAria(parseHtml(markup));
+const jsx = (code: string) => checkAria(parseJsx(code, 'Widget.tsx'));
+const rules = (findings: ReturnType<typeof checkAria>) => findings.map(f => f.rule);
+
+describe('JSX Parsing', () => {
+  it('should keep attribute expressions with the literals they can produce', () => {
+    const { roots } = parseJsx(`
+      export function Panel({ title, open }) {
+        return (
+          <section aria-labelledby={title ? 'panel-title' : undefined} tabIndex={-1} className="p-4">
+            {open && <h2 id="panel-title">{title}</h2>}
+            {items.map(item => <button key={item.id} disabled>Save</button>)}
+          </section>
+        )
+      }
+    `, 'Panel.tsx');
+
+    const [section] = roots;
+    expect(section.tag).toBe('section');
+    expect(section.location).toEqual({ file: 'Panel.tsx', line: 4, column: 11, component: 'Panel' });
+    expect(section.attributes['aria-labelledby']).toEqual({
+      kind: 'dynamic',
+      expression: "title ? 'panel-title' : undefined",
+      literals: ['panel-title'],
+      optional: true
+    });
+    expect(section.attributes.tabindex).toEqual({ kind: 'static', value: '-1' });
+    expect(section.attributes.class).toEqual({ kind: 'static', value: 'p-4' });
+    expect(section.children.map(c => c.tag)).toEqual(['h2', 'button']);
+    expect(section.children[0].dynamicContent).toBe(true);
+    expect(section.children[1]).toMatchObject({ text: 'Save', attributes: { disabled: { kind: 'static', value: 'true' } } });
+  });
+});
+
+describe('ARIA Validation', () => {
+  it('should report unknown attributes, camelCase props and invalid values with 4.1.2', () => {
+    const findings = jsx(`const X = () => <div role="checkbox" aria-checked="yes" aria-lable="Agree" ariaHidden="true" tabIndex={0}>Agree</div>`);
+
+    expect(findings.map(f => [f.rule, f.message])).toEqual([
+      ['aria-valid-attr-value', 'aria-checked="yes" is not a valid nmtoken value (expected false, mixed, true, undefined)'],
+      ['aria-valid-attr', 'aria-lable is not a valid ARIA attribute'],
+      ['aria-valid-attr', 'ariaHidden is not an ARIA attribute; React passes aria-* props in kebab case (aria-hidden)']
+    ]);
+    expect(findings[0].criteria).toEqual([
+      { id: '4.1.2', name: 'Name, Role, Value', level: 'A', url: 'https://www.w3.org/WAI/WCAG21/Understanding/name-role-value.html' }
+    ]);
+  });
+
+  it('should check roles, required and allowed attributes', () => {
+    expect(html('<div role="buton">x</div>')[0].message).toBe('role="buton" is not a valid ARIA role');
+    expect(html('<div role="widget">x</div>')[0].message).toBe('role="widget" is an abstract role and must not be used in content');
+    expect(html('<div role="slider" tabindex="0" aria-label="Volume"></div>')[0]).toMatchObject({
+      rule: 'aria-required-attr',
+      severity: 'critical',
+      message: 'role="slider" requires aria-valuenow'
+    });
+    expect(html('<div role="link" tabindex="0" aria-checked="true">Home</div>')[0].message).toBe('aria-checked is not supported by role="link"');
+    expect(html('<span role="presentation" aria-label="x"></span>')[0].rule).toBe('aria-prohibited-attr');
+  });
+
+  it('should accept attributes a native element provides', () => {
+    expect(html('<input type="checkbox" role="switch" id="a"><label for="a">Wi-Fi</label>')).toEqual([]);
+    expect(html('<hr role="separator">')).toEqual([]);
+  });
+
+  it('should require a parent role in HTML but not at the root of a JSX tree', () => {
+    expect(html('<div><div role="menuitem" tabindex="-1">Copy</div></div>')[0]).toMatchObject({
+      rule: 'aria-required-parent',
+      criteria: [expect.objectContaining({ id: '1.3.1' })]
+    });
+    expect(html('<ul role="menu"><li role="presentation"><a role="menuitem" href="#">Copy</a></li></ul>')).toEqual([]);
+    expect(html('<ul role="list"><li role="tab">One</li></ul>')[0].message).toBe('role="tab" must be contained by tablist, not list');
+    expect(jsx('const Item = () => <div role="menuitem" tabIndex={-1}>Copy</div>')).toEqual([]);
+  });
+
+  it('should report references to ids missing from the file', () => {
+    const findings = html('<button aria-describedby="help tip">Save</button><p id="help">Saves now</p>');
+    expect(findings[0].message).toBe('aria-describedby references #tip, which is not in the document');
+    expect(findings[0].criteria.map(c => c.id)).toEqual(['1.3.1', '4.1.2']);
+
+    // A computed id could be any of them
+    expect(jsx('const X = ({ id }) => <><button aria-describedby="tip">Save</button><p id={id} /></>')).toEqual([]);
+  });
+
+  it('should require accessible names and cite the matching criterion', () => {
+    const findings = html(`
+      <img src="logo.png">
+      <img src="spacer.gif" alt="">
+      <button><svg></svg></button>
+      <button aria-label="Close"><svg></svg></button>
+      <a href="/docs"></a>
+      <input type="text">
+      <label>Email <input type="email"></label>
+      <input type="search" placeholder="Search">
+      <input type="submit">
+    `);
+
+    expect(findings.map(f => [f.rule, f.criteria.map(c => c.id).join(','), f.location?.line])).toEqual([
+      ['image-alt', '1.1.1', 2],
+      ['button-name', '4.1.2', 4],
+      ['link-name', '2.4.4,4.1.2', 6],
+      ['label', '4.1.2,3.3.2', 7]
+    ]);
+  });
+
+  it('should warn when a JSX name is only set conditionally', () => {
+    const findings = jsx(`
+      function Dialog({ title }) {
+        return <div role="dialog" aria-labelledby={title ? 'dialog-title' : undefined}>{title && <h2 id="dialog-title">{title}</h2>}</div>
+      }
+    `);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      rule: 'aria-dialog-name',
+      severity: 'moderate',
+      message: "Dialog has no accessible name when aria-labelledby ({title ? 'dialog-title' : undefined}) is unset",
+      location: { file: 'Widget.tsx', line: 3, component: 'Dialog' }
+    });
+  });
+
+  it('should trust names that content, components or spread props may provide', () => {
+    expect(jsx('const A = ({ label }) => <button>{label}</button>')).toEqual([]);
+    expect(jsx('const B = () => <button><Icon /></button>')).toEqual([]);
+    expect(jsx('const C = (props) => <input {...props} />')).toEqual([]);
+    expect(rules(jsx('const D = () => <button><svg aria-hidden="true" /></button>'))).toEqual(['button-name']);
+  });
+});
+
+describe('UI Components', () => {
+  const check = (name: string) => {
+    const file = `${UI_COMPONENTS}${name}.tsx`;
+    return checkAria(parseJsx(readFileSync(file, 'utf-8'), file)).map(f => ({
+      rule: f.rule,
+      line: f.location?.line,
+      component: f.location?.component,
+      criteria: f.criteria.map(c => c.id)
+    }));
+  };
+
+  it('should flag the Modal dialog that is unnamed without a title', () => {
+    expect(check('Modal')).toEqual([{ rule: 'aria-dialog-name', line: 196, component: 'Modal', criteria: ['4.1.2'] }]);
+  });
+
+  it('should pass the Dropdown menu markup', () => {
+    expect(check('Dropdown')).toEqual([]);
+  });
+
+  it('should flag the unlabelled Table checkboxes and page size select', () => {
+    expect(check('Table')).toEqual([
+      { rule: 'label', line: 229, component: 'Table', criteria: ['4.1.2', '3.3.2'] },
+      { rule: 'label', line: 314, component: 'Table', criteria: ['4.1.2', '3.3.2'] },
+      { rule: 'label', line: 440, component: 'TablePagination', criteria: ['4.1.2', '3.3.2'] }
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Static ARIA validation
+ *
+ * Checks attribute names and values, roles, required and allowed
+ * attributes, required context, ID references and accessible names over
+ * parsed HTML or JSX. Expressions are checked against the literals they
+ * can produce; values known only at runtime are not guessed.
+ */
+
+import { finding } from './findings.js';
+import { isElement, possibleValues, walk } from './markup.js';
+import {
+  accessibleName,
+  ARIA_ATTRIBUTES,
+  ARIA_ROLES,
+  explicitRoles,
+  isFocusable,
+  nameContext,
+  roleOf
+} from './semantics.js';
+import { A11yDocument, A11yNode, Finding } from './types.js';
+
+const ID_REFERENCES = ['aria-labelledby', 'aria-describedby', 'aria-controls', 'aria-owns', 'aria-activedescendant', 'aria-errormessage', 'aria-details', 'for'];
+
+// Roles whose required attributes a native element already provides
+const NATIVE_ATTRIBUTES: Array<{ tag: string; roles: string[]; attribute: string }> = [
+  { tag: 'input', roles: ['checkbox', 'radio', 'switch', 'menuitemcheckbox', 'menuitemradio'], attribute: 'aria-checked' },
+  { tag: 'input', roles: ['slider', 'spinbutton'], attribute: 'aria-valuenow' },
+  { tag: 'h1', roles: ['heading'], attribute: 'aria-level' },
+  { tag: 'h2', roles: ['heading'], attribute: 'aria-level' },
+  { tag: 'h3', roles: ['heading'], attribute: 'aria-level' },
+  { tag: 'h4', roles: ['heading'], attribute: 'aria-level' },
+  { tag: 'h5', roles: ['heading'], attribute: 'aria-level' },
+  { tag: 'h6', roles: ['heading'], attribute: 'aria-level' }
+];
+
+const GENERIC_TAGS = new Set(['div', 'span']);
+
+interface DocumentIds {
+  ids: Set<string>;
+  /** Some element has a computed id={...} */
+  dynamic: boolean;
+}
+
+function collectIds(document: A11yDocument): DocumentIds {
+  const result: DocumentIds = { ids: new Set(), dynamic: false };
+  walk(document.roots, node => {
+    const id = node.attributes.id;
+    if (!id) return;
+    possibleValues(id).forEach(value => result.ids.add(value));
+    if (id.kind === 'dynamic') result.dynamic = true;
+  });
+  return result;
+}
+
+function validValue(attribute: string, value: string): boolean {
+  const definition = ARIA_ATTRIBUTES[attribute];
+  if (!definition) return true;
+  const normalized = definition.caseInsensitive ? value.toLowerCase() : value;
+  switch (definition.type) {
+    case 'boolean':
+      return normalized === 'true' || normalized === 'false';
+    case 'nmtoken':
+      return (definition.values ?? []).includes(normalized);
+    case 'nmtokens':
+      return normalized.trim().split(/\s+/).every(token => (definition.values ?? []).includes(token));
+    case 'int':
+      return /^-?\d+$/.test(value.trim());
+    case 'decimal':
+      return /^-?(\d+\.?\d*|\.\d+)$/.test(value.trim());
+    case 'idref':
+      return definition.allowEmpty ? !/\s/.test(value.trim()) : /^\S+$/.test(value.trim());
+    case 'idrefs':
+      return definition.allowEmpty || value.trim().length > 0;
+    default:
+      return true;
+  }
+}
+
+function checkAttributes(node: A11yNode, findings: Finding[]): void {
+  for (const [name, value] of Object.entries(node.attributes)) {
+    if (/^aria[A-Z]/.test(name)) {
+      const suggestion = `aria-${name.slice(4).toLowerCase()}`;
+      findings.push(finding('aria-valid-attr', 'serious', `${name} is not an ARIA attribute; React passes aria-* props in kebab case (${suggestion})`, ['4.1.2'], node));
+      continue;
+    }
+    if (!name.startsWith('aria-')) continue;
+    if (!ARIA_ATTRIBUTES[name]) {
+      findings.push(finding('aria-valid-attr', 'critical', `${name} is not a valid ARIA attribute`, ['4.1.2'], node));
+      continue;
+    }
+    const invalid = possibleValues(value).filter(v => !validValue(name, v));
+    if (invalid.length > 0) {
+      const allowed = ARIA_ATTRIBUTES[name].values;
+      findings.push(
+        finding(
+          'aria-valid-attr-value',
+          'critical',
+          `${name}="${invalid[0]}" is not a valid ${ARIA_ATTRIBUTES[name].type} value${allowed ? ` (expected ${allowed.join(', ')})` : ''}`,
+          ['4.1.2'],
+          node
+        )
+      );
+    }
+  }
+}
+
+function checkRoles(node: A11yNode, ancestors: A11yNode[], kind: A11yDocument['kind'], findings: Finding[]): void {
+  for (const role of explicitRoles(node)) {
+    const definition = ARIA_ROLES[role];
+    if (!definition) {
+      findings.push(finding('aria-roles', 'critical', `role="${role}" is not a valid ARIA role`, ['4.1.2'], node));
+    } else if (definition.type === 'abstract') {
+      findings.push(finding('aria-roles', 'serious', `role="${role}" is an abstract role and must not be used in content`, ['4.1.2'], node));
+    }
+  }
+
+  const role = node.attributes.role?.kind === 'static' ? explicitRoles(node)[0] : undefined;
+  const definition = role ? ARIA_ROLES[role] : undefined;
+  if (!role || !definition || definition.type === 'abstract') return;
+
+  // Required attributes, unless the element provides them natively or props are spread
+  if (!node.spread) {
+    for (const required of definition.requiredAttrs ?? []) {
+      if (node.attributes[required]) continue;
+      if (NATIVE_ATTRIBUTES.some(n => n.tag === node.tag && n.roles.includes(role) && n.attribute === required)) continue;
+      // A non-focusable separator is static and needs no value
+      if (role === 'separator' && !isFocusable(node)) continue;
+      // aria-controls is required only while a combobox is expanded
+      if (role === 'combobox' && required === 'aria-controls' && !possibleValues(node.attributes['aria-expanded']).includes('true')) continue;
+      findings.push(finding('aria-required-attr', 'critical', `role="${role}" requires ${required}`, ['4.1.2'], node));
+    }
+  }
+
+  // Allowed and prohibited attributes
+  const allowed = new Set([...(definition.allowedAttrs ?? []), ...(definition.requiredAttrs ?? [])]);
+  for (const name of Object.keys(node.attributes)) {
+    const attribute = ARIA_ATTRIBUTES[name];
+    if (!attribute) continue;
+    if (definition.prohibitedAttrs?.includes(name)) {
+      findings.push(finding('aria-prohibited-attr', 'serious', `${name} is prohibited on role="${role}"`, ['4.1.2'], node));
+    } else if (!attribute.global && !allowed.has(name)) {
+      findings.push(finding('aria-allowed-attr', 'serious', `${name} is not supported by role="${role}"`, ['4.1.2'], node));
+    }
+  }
+
+  // Required context: the nearest ancestor with a role must be one of them
+  if (definition.requiredContext) {
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      const ancestor = ancestors[i];
+      // Inside a component or fragment the rendered parent is unknown
+      if (!isElement(ancestor)) return;
+      const ancestorRole = roleOf(ancestor);
+      if (!ancestorRole || ancestorRole === 'none' || ancestorRole === 'presentation' || ancestorRole === 'generic') continue;
+      if (!definition.requiredContext.includes(ancestorRole)) {
+        findings.push(
+          finding('aria-required-parent', 'critical', `role="${role}" must be contained by ${definition.requiredContext.join(' or ')}, not ${ancestorRole}`, ['1.3.1'], node)
+        );
+      }
+      return;
+    }
+    // A JSX root is rendered wherever the component is used
+    if (kind === 'html') {
+      findings.push(finding('aria-required-parent', 'critical', `role="${role}" must be contained by ${definition.requiredContext.join(' or ')}`, ['1.3.1'], node));
+    }
+  }
+}
+
+function checkGenericLabel(node: A11yNode, findings: Finding[]): void {
+  if (node.attributes.role || !GENERIC_TAGS.has(node.tag)) return;
+  for (const name of ['aria-label', 'aria-labelledby']) {
+    if (node.attributes[name]) {
+      findings.push(finding('aria-prohibited-attr', 'serious', `${name} is not supported on a <${node.tag}> without a role; screen readers ignore it`, ['4.1.2'], node));
+    }
+  }
+}
+
+function checkReferences(node: A11yNode, ids: DocumentIds, kind: A11yDocument['kind'], findings: Finding[]): void {
+  // References are only checked when every id in the file is known
+  if (ids.dynamic) return;
+  for (const name of ID_REFERENCES) {
+    const missing = possibleValues(node.attributes[name])
+      .flatMap(value => value.trim().split(/\s+/))
+      .filter(id => id && !ids.ids.has(id));
+    if (missing.length > 0) {
+      findings.push(
+        finding('aria-valid-idref', 'serious', `${name} references ${missing.map(id => `#${id}`).join(', ')}, which is not in the ${kind === 'jsx' ? 'file' : 'document'}`, ['1.3.1', '4.1.2'], node)
+      );
+    }
+  }
+}
+
+function checkName(node: A11yNode, ancestors: A11yNode[], context: ReturnType<typeof nameContext>, findings: Finding[]): void {
+  const role = roleOf(node);
+  if (role === 'presentation' || role === 'none') return;
+  const type = (possibleValues(node.attributes.type)[0] ?? 'text').toLowerCase();
+  const formControl = ['input', 'select', 'textarea'].includes(node.tag) && type !== 'hidden';
+  const required = formControl || (role !== undefined && ARIA_ROLES[role]?.accessibleNameRequired);
+  if (!required) return;
+
+  const name = accessibleName(node, ancestors, context);
+  if (name.state === 'named') return;
+
+  let rule = 'aria-name';
+  let criteria = ['4.1.2'];
+  let subject = `role="${role}"`;
+  let severity: Finding['severity'] = 'serious';
+  if (node.tag === 'img') {
+    [rule, criteria, subject, severity] = ['image-alt', ['1.1.1'], 'Image', 'critical'];
+  } else if (formControl && node.tag !== 'button') {
+    [rule, criteria, subject, severity] = ['label', ['4.1.2', '3.3.2'], `<${node.tag}${node.tag === 'input' ? ` type="${type}"` : ''}>`, 'critical'];
+  } else if (role === 'button') {
+    [rule, criteria, subject, severity] = ['button-name', ['4.1.2'], 'Button', 'critical'];
+  } else if (role === 'link') {
+    [rule, criteria, subject] = ['link-name', ['2.4.4', '4.1.2'], 'Link'];
+  } else if (role === 'dialog' || role === 'alertdialog') {
+    [rule, subject] = ['aria-dialog-name', 'Dialog'];
+  }
+
+  if (name.state === 'conditional') {
+    const value = node.attributes[name.source ?? ''];
+    const expression = value?.kind === 'dynamic' ? ` ({${value.expression}})` : '';
+    findings.push(finding(rule, 'moderate', `${subject} has no accessible name when ${name.source}${expression} is unset`, criteria, node));
+    return;
+  }
+  const hint =
+    rule === 'image-alt'
+      ? 'add alt text, or alt="" if it is decorative'
+      : rule === 'label'
+        ? 'add a <label>, aria-label or aria-labelledby'
+        : 'add text content, aria-label or aria-labelledby';
+  findings.push(finding(rule, severity, `${subject} has no accessible name; ${hint}`, criteria, node));
+}
+
+export function checkAria(document: A11yDocument): Finding[] {
+  const findings: Finding[] = [];
+  const ids = collectIds(document);
+  const context = nameContext(document);
+
+  walk(document.roots, (node, ancestors) => {
+    if (!isElement(node)) return;
+    checkAttributes(node, findings);
+    checkRoles(node, ancestors, document.kind, findings);
+    checkGenericLabel(node, findings);
+    checkReferences(node, ids, document.kind, findings);
+    checkName(node, ancestors, context, findings);
+  });
+
+  return findings;
+}
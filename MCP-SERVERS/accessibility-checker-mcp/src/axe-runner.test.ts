@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { axeTags, runAxe } from './axe-runner.js';
+import { loadSources } from './sources.js';
+import { criteriaFromTags, criterion } from './wcag.js';
+
+const PAGE = `<!doctype html>
+<html lang="en">
+<head><title>Checkout</title></head>
+<body>
+  <main>
+    <h1>Checkout</h1>
+    <img src="card.png">
+    <button></button>
+    <a href="/terms">Terms</a>
+  </main>
+</body>
+</html>`;
+
+describe('WCAG Criteria', () => {
+  it('should map axe tags to WCAG 2.1 success criteria', () => {
+    expect(criteriaFromTags(['cat.aria', 'wcag2a', 'wcag412', 'wcag1410', 'wcag258']).map(c => c.id)).toEqual(['4.1.2', '1.4.10']);
+    expect(criterion('1.4.10')).toEqual({
+      id: '1.4.10',
+      name: 'Reflow',
+      level: 'AA',
+      url: 'https://www.w3.org/WAI/WCAG21/Understanding/reflow.html'
+    });
+    expect(() => criterion('9.9.9')).toThrow('Unknown WCAG success criterion: 9.9.9');
+  });
+
+  it('should select rule tags by level', () => {
+    expect(axeTags('A')).toEqual(['wcag2a', 'wcag21a']);
+    expect(axeTags('AAA', true)).toContain('wcag2aaa');
+    expect(axeTags('AAA', true)).toContain('best-practice');
+  });
+});
+
+describe('axe-core', () => {
+  it('should report violations with criteria and selectors', async () => {
+    const report = await runAxe(PAGE, { level: 'AA' });
+
+    expect(report.findings.map(f => [f.rule, f.severity, f.criteria.map(c => c.id)])).toEqual([
+      ['button-name', 'critical', ['4.1.2']],
+      ['image-alt', 'critical', ['1.1.1']]
+    ]);
+    expect(report.findings[1]).toMatchObject({
+      message: 'Images must have alternative text: Element does not have an alt attribute',
+      element: '<img src="card.png">',
+      selector: 'img'
+    });
+    expect(report.passed).toContain('html-has-lang');
+  }, 30000);
+
+  it('should flag a missing title and language on bare fragments', async () => {
+    const report = await runAxe('<p>Hello</p>', { level: 'A' });
+    expect(report.findings.map(f => f.rule).sort()).toEqual(['document-title', 'html-has-lang']);
+  }, 30000);
+});
+
+describe('Sources', () => {
+  let dir: string;
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'a11y-'));
+    await fs.mkdir(join(dir, 'components'));
+    await fs.mkdir(join(dir, 'node_modules'));
+    await fs.writeFile(join(dir, 'index.html'), PAGE);
+    await fs.writeFile(join(dir, 'components', 'Card.tsx'), 'export const Card = () => <div />');
+    await fs.writeFile(join(dir, 'components', 'Card.test.tsx'), '');
+    await fs.writeFile(join(dir, 'node_modules', 'lib.jsx'), '');
+    await fs.writeFile(join(dir, 'notes.md'), '');
+
+    server = createServer((request, response) => {
+      if (request.url === '/') {
+        response.writeHead(200, { 'Content-Type': 'text/html' }).end(PAGE);
+      } else {
+        response.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(done => server.close(done));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should collect HTML and components from a directory', async () => {
+    const sources = await loadSources({ path: dir });
+    expect(sources.map(s => [s.name.slice(dir.length + 1), s.kind])).toEqual([
+      [join('components', 'Card.tsx'), 'jsx'],
+      ['index.html', 'html']
+    ]);
+  });
+
+  it('should combine inline markup, files and URLs', async () => {
+    const sources = await loadSources({ html: '<p>x</p>', code: 'const A = () => <a />', url: pathToFileURL(join(dir, 'index.html')).href });
+    expect(sources.map(s => [s.name, s.kind])).toEqual([
+      ['inline', 'html'],
+      ['component.tsx', 'jsx'],
+      [join(dir, 'index.html'), 'html']
+    ]);
+  });
+
+  it('should fetch local URLs', async () => {
+    const [page] = await loadSources({ url: `${base}/` });
+    expect(page).toMatchObject({ kind: 'html', url: `${base}/` });
+    expect(page.content).toContain('<title>Checkout</title>');
+
+    await expect(loadSources({ url: `${base}/missing` })).rejects.toThrow(`Could not fetch ${base}/missing: HTTP 404`);
+  });
+
+  it('should explain missing inputs', async () => {
+    await expect(loadSources({})).rejects.toThrow('Provide html, code, path or url');
+    await expect(loadSources({ path: join(dir, 'nope') })).rejects.toThrow('Path not found');
+    await expect(loadSources({ path: join(dir, 'notes.md') })).rejects.toThrow('Unsupported file type');
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * axe-core in jsdom
+ *
+ * Runs the axe rules for a WCAG level against static HTML. Scripts in the
+ * page are not executed and stylesheets are not loaded, so rules that need
+ * layout (color-contrast among them) come back as needing review.
+ */
+
+import axe from 'axe-core';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { criteriaFromTags } from './wcag.js';
+import { Finding, Severity, WcagLevel } from './types.js';
+
+export interface AxeOptions {
+  level: WcagLevel;
+  /** Also run axe's best-practice rules, which cite no criterion */
+  bestPractices?: boolean;
+  /** Document URL, for resolving relative links */
+  url?: string;
+}
+
+export interface AxeReview {
+  rule: string;
+  help: string;
+  nodes: number;
+}
+
+export interface AxeReport {
+  findings: Finding[];
+  /** Rules that ran and found nothing */
+  passed: string[];
+  /** Rules axe could not decide without a browser or a person */
+  needs_review: AxeReview[];
+}
+
+const LEVEL_TAGS: Record<WcagLevel, string[]> = {
+  A: ['wcag2a', 'wcag21a'],
+  AA: ['wcag2a', 'wcag21a', 'wcag2aa', 'wcag21aa'],
+  AAA: ['wcag2a', 'wcag21a', 'wcag2aa', 'wcag21aa', 'wcag2aaa']
+};
+
+export function axeTags(level: WcagLevel, bestPractices: boolean = false): string[] {
+  return bestPractices ? [...LEVEL_TAGS[level], 'best-practice'] : LEVEL_TAGS[level];
+}
+
+/**
+ * The first reason axe gives, without the "Fix any of the following" header
+ */
+function reason(summary: string | undefined): string | undefined {
+  return summary
+    ?.split('\n')
+    .map(line => line.trim())
+    .find(line => line && !/^Fix (any|all) of the following:?$/.test(line));
+}
+
+export async function runAxe(html: string, options: AxeOptions): Promise<AxeReport> {
+  // jsdom reports unimplemented APIs (canvas) through the console; drop them
+  const dom = new JSDOM(html, { runScripts: 'outside-only', url: options.url, virtualConsole: new VirtualConsole() });
+  try {
+    dom.window.eval(axe.source);
+    const runner = (dom.window as unknown as { axe: typeof axe }).axe;
+    const results = await runner.run(dom.window.document, {
+      runOnly: { type: 'tag', values: axeTags(options.level, options.bestPractices) },
+      resultTypes: ['violations', 'incomplete']
+    });
+
+    const findings = results.violations.flatMap(violation =>
+      violation.nodes.map((node): Finding => {
+        const because = reason(node.failureSummary);
+        return {
+          rule: violation.id,
+          severity: (node.impact ?? violation.impact ?? 'moderate') as Severity,
+          message: because ? `${violation.help}: ${because}` : violation.help,
+          criteria: criteriaFromTags(violation.tags),
+          element: node.html.length > 120 ? `${node.html.slice(0, 119)}…` : node.html,
+          selector: node.target.join(' ')
+        };
+      })
+    );
+
+    return {
+      findings,
+      passed: results.passes.map(rule => rule.id),
+      needs_review: results.incomplete.map(rule => ({ rule: rule.id, help: rule.help, nodes: rule.nodes.length }))
+    };
+  } finally {
+    dom.window.close();
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { checkContrast, contrastRatio, isLargeText, parseColor, relativeLuminance } from './contrast.js';
+
+describe('Color Parsing', () => {
+  it('should parse hex, rgb(), hsl() and named colors', () => {
+    expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseColor('#11223380')).toMatchObject({ r: 17, g: 34, b: 51 });
+    expect(parseColor('#11223380').a).toBeCloseTo(0.5, 2);
+    expect(parseColor('rgb(10 20 30 / 50%)')).toEqual({ r: 10, g: 20, b: 30, a: 0.5 });
+    expect(parseColor('rgba(255, 0, 0, 0.25)')).toEqual({ r: 255, g: 0, b: 0, a: 0.25 });
+    expect(parseColor('hsl(120, 100%, 25%)')).toEqual({ r: 0, g: 127.5, b: 0, a: 1 });
+    expect(parseColor('RebeccaPurple')).toEqual({ r: 102, g: 51, b: 153, a: 1 });
+    expect(() => parseColor('not-a-color')).toThrow('Unrecognized color: not-a-color');
+  });
+});
+
+describe('Contrast Ratio', () => {
+  it('should follow the WCAG relative luminance formula', () => {
+    expect(relativeLuminance(parseColor('#000'))).toBe(0);
+    expect(relativeLuminance(parseColor('#fff'))).toBe(1);
+    expect(contrastRatio(parseColor('#000'), parseColor('#fff'))).toBe(21);
+    expect(contrastRatio(parseColor('#fff'), parseColor('#000'))).toBe(21);
+    expect(contrastRatio(parseColor('#767676'), parseColor('#fff'))).toBeCloseTo(4.54, 2);
+  });
+
+  it('should composite translucent colors before measuring', () => {
+    // 50% black over white is #808080
+    expect(contrastRatio(parseColor('rgba(0,0,0,0.5)'), parseColor('#fff'))).toBeCloseTo(contrastRatio(parseColor('#808080'), parseColor('#fff')), 1);
+  });
+
+  it('should treat 24px, or 18.66px bold, as large text', () => {
+    expect(isLargeText(24)).toBe(true);
+    expect(isLargeText(19)).toBe(false);
+    expect(isLargeText(19, 700)).toBe(true);
+    expect(isLargeText(18, 700)).toBe(false);
+    expect(isLargeText()).toBe(false);
+  });
+});
+
+describe('Contrast Check', () => {
+  it('should grade against 1.4.3 and 1.4.6', () => {
+    expect(checkContrast('#000000', '#FFFFFF')).toMatchObject({ ratio: 21, passes: 'AAA' });
+
+    const aa = checkContrast('#767676', 'white');
+    expect(aa).toMatchObject({ ratio: 4.54, passes: 'AA', large_text: false });
+    expect(aa.requirements.text_aa).toMatchObject({ minimum: 4.5, passes: true });
+    expect(aa.requirements.text_aa.criterion).toMatchObject({ id: '1.4.3', name: 'Contrast (Minimum)', level: 'AA' });
+    expect(aa.requirements.text_aaa).toMatchObject({ minimum: 7, passes: false });
+    expect(aa.requirements.text_aaa.criterion.url).toBe('https://www.w3.org/WAI/WCAG21/Understanding/contrast-enhanced.html');
+    expect(aa.recommendation).toBeUndefined();
+  });
+
+  it('should not round a failing ratio up to a pass', () => {
+    // 4.48:1 displays as 4.48 and fails 4.5
+    const result = checkContrast('#777', '#fff');
+    expect(result.ratio).toBe(4.48);
+    expect(result.passes).toBe('fail');
+
+    // 2.996:1 rounds to 3 but fails large text AA
+    const large = checkContrast('#959595', '#fff', { fontSize: 24 });
+    expect(large.ratio).toBe(3);
+    expect(large.requirements.text_aa).toMatchObject({ minimum: 3, passes: false });
+  });
+
+  it('should use the lower thresholds for large text', () => {
+    expect(checkContrast('#949494', '#fff', { fontSize: 18.66, fontWeight: 700 })).toMatchObject({ passes: 'AA', large_text: true });
+    expect(checkContrast('#949494', '#fff', { fontSize: 18.66 }).passes).toBe('fail');
+  });
+
+  it('should recommend the nearest foreground that passes', () => {
+    const result = checkContrast('#777777', '#888888');
+    expect(result).toMatchObject({ ratio: 1.26, passes: 'fail' });
+    expect(checkContrast(result.recommendation!, '#888888').requirements.text_aa.passes).toBe(true);
+
+    // Just below 4.5: the nearest passing grey is one step darker
+    expect(checkContrast('#777', '#fff').recommendation).toBe('#767676');
+
+    const aaa = checkContrast('#767676', '#fff', { level: 'AAA' });
+    expect(checkContrast(aaa.recommendation!, '#fff').passes).toBe('AAA');
+  });
+});
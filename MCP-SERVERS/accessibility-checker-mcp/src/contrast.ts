@@ -0,0 +1,248 @@
+/**
+ * WCAG 2.1 contrast ratio
+ *
+ * Relative luminance and contrast ratio as defined by WCAG 2.1, with
+ * thresholds for 1.4.3 Contrast (Minimum), 1.4.6 Contrast (Enhanced) and
+ * 1.4.11 Non-text Contrast.
+ */
+
+import axe from 'axe-core';
+import { criterion } from './wcag.js';
+import { Criterion, WcagLevel } from './types.js';
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface ContrastOptions {
+  /** Font size in CSS pixels */
+  fontSize?: number;
+  /** CSS font-weight; 700 and above is bold */
+  fontWeight?: number;
+  /** Level the recommendation should reach */
+  level?: WcagLevel;
+}
+
+export interface ContrastRequirement {
+  criterion: Criterion;
+  minimum: number;
+  passes: boolean;
+}
+
+export interface ContrastResult {
+  foreground: string;
+  background: string;
+  /** Rounded to two decimals; pass/fail uses the exact ratio */
+  ratio: number;
+  large_text: boolean;
+  passes: 'AAA' | 'AA' | 'fail';
+  requirements: {
+    text_aa: ContrastRequirement;
+    text_aaa: ContrastRequirement;
+    non_text: ContrastRequirement;
+  };
+  /** Closest foreground that reaches the requested level */
+  recommendation?: string;
+}
+
+// 18pt, or 14pt bold, in CSS pixels
+const LARGE_TEXT_PX = 24;
+const LARGE_BOLD_TEXT_PX = 18.66;
+const BOLD_WEIGHT = 700;
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+
+const NAMED_COLORS = axe.utils.getStandards().cssColors;
+
+function channel(value: string, max: number): number {
+  const number = parseFloat(value);
+  if (Number.isNaN(number)) {
+    throw new Error(`Invalid color channel: ${value}`);
+  }
+  return value.trim().endsWith('%') ? (number / 100) * max : number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = ((h % 360) + 360) % 360 / 360;
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const convert = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return [convert(hue + 1 / 3) * 255, convert(hue) * 255, convert(hue - 1 / 3) * 255];
+}
+
+function rgbToHsl({ r, g, b }: RGBA): [number, number, number] {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === rn ? (gn - bn) / d + (gn < bn ? 6 : 0) : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4;
+  return [h * 60, s, l];
+}
+
+/**
+ * Parse a CSS color: hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba(),
+ * hsl()/hsla(), transparent or a named color
+ */
+export function parseColor(input: string): RGBA {
+  const value = input.trim().toLowerCase();
+
+  if (value === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  if (NAMED_COLORS[value]) {
+    const [r, g, b] = NAMED_COLORS[value];
+    return { r, g, b, a: 1 };
+  }
+
+  const hex = value.match(/^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    const bytes = digits.match(/../g)!.map(pair => parseInt(pair, 16));
+    return { r: bytes[0], g: bytes[1], b: bytes[2], a: bytes.length === 4 ? bytes[3] / 255 : 1 };
+  }
+
+  const fn = value.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (fn) {
+    const parts = fn[2].split(/\s*[,/]\s*|\s+/).filter(Boolean);
+    if (parts.length < 3 || parts.length > 4) {
+      throw new Error(`Unrecognized color: ${input}`);
+    }
+    const a = parts.length === 4 ? clamp(channel(parts[3], 1), 0, 1) : 1;
+    if (fn[1].startsWith('rgb')) {
+      const [r, g, b] = parts.slice(0, 3).map(p => clamp(channel(p, 255), 0, 255));
+      return { r, g, b, a };
+    }
+    const [r, g, b] = hslToRgb(parseFloat(parts[0]), clamp(channel(parts[1], 1), 0, 1), clamp(channel(parts[2], 1), 0, 1));
+    return { r, g, b, a };
+  }
+
+  throw new Error(`Unrecognized color: ${input}`);
+}
+
+export function toHex({ r, g, b, a }: RGBA): string {
+  const bytes = a < 1 ? [r, g, b, a * 255] : [r, g, b];
+  return '#' + bytes.map(v => Math.round(v).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Alpha-composite a color over an opaque backdrop
+ */
+export function composite(color: RGBA, backdrop: RGBA): RGBA {
+  return {
+    r: color.r * color.a + backdrop.r * (1 - color.a),
+    g: color.g * color.a + backdrop.g * (1 - color.a),
+    b: color.b * color.a + backdrop.b * (1 - color.a),
+    a: 1
+  };
+}
+
+export function relativeLuminance({ r, g, b }: RGBA): number {
+  const [rl, gl, bl] = [r, g, b].map(v => {
+    const c = v / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * rl + 0.7152 * gl + 0.0722 * bl;
+}
+
+/**
+ * Contrast ratio (L1 + 0.05) / (L2 + 0.05). A translucent background is
+ * composited over white, a translucent foreground over the background.
+ */
+export function contrastRatio(foreground: RGBA, background: RGBA): number {
+  const bg = composite(background, WHITE);
+  const fg = composite(foreground, bg);
+  const [light, dark] = [relativeLuminance(fg), relativeLuminance(bg)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+export function isLargeText(fontSize?: number, fontWeight?: number): boolean {
+  if (fontSize === undefined) return false;
+  const bold = (fontWeight ?? 400) >= BOLD_WEIGHT;
+  return fontSize >= LARGE_TEXT_PX || (bold && fontSize >= LARGE_BOLD_TEXT_PX);
+}
+
+export function minimumRatio(level: WcagLevel, largeText: boolean): number {
+  if (level === 'AAA') return largeText ? 4.5 : 7;
+  return largeText ? 3 : 4.5;
+}
+
+/**
+ * Lightest change to the foreground's HSL lightness that reaches the
+ * target ratio, searching both darker and lighter
+ */
+export function suggestForeground(foreground: RGBA, background: RGBA, target: number): string | undefined {
+  const [h, s, l] = rgbToHsl(foreground);
+  const at = (lightness: number): RGBA => {
+    const [r, g, b] = hslToRgb(h, s, lightness);
+    return parseColor(toHex({ r, g, b, a: 1 }));
+  };
+
+  const candidates: Array<{ delta: number; color: RGBA }> = [];
+  for (const extreme of [0, 1]) {
+    if (contrastRatio(at(extreme), background) < target) continue;
+    // Binary search between the current lightness (failing) and the extreme (passing)
+    let failing = l;
+    let passing = extreme;
+    for (let i = 0; i < 24; i++) {
+      const mid = (failing + passing) / 2;
+      if (contrastRatio(at(mid), background) >= target) passing = mid;
+      else failing = mid;
+    }
+    candidates.push({ delta: Math.abs(passing - l), color: at(passing) });
+  }
+
+  candidates.sort((a, b) => a.delta - b.delta);
+  return candidates.length > 0 ? toHex(candidates[0].color) : undefined;
+}
+
+export function checkContrast(foreground: string, background: string, options: ContrastOptions = {}): ContrastResult {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+  const ratio = contrastRatio(fg, bg);
+  const largeText = isLargeText(options.fontSize, options.fontWeight);
+
+  const requirement = (id: string, minimum: number): ContrastRequirement => ({
+    criterion: criterion(id),
+    minimum,
+    passes: ratio >= minimum
+  });
+  const requirements = {
+    text_aa: requirement('1.4.3', minimumRatio('AA', largeText)),
+    text_aaa: requirement('1.4.6', minimumRatio('AAA', largeText)),
+    non_text: requirement('1.4.11', 3)
+  };
+
+  const passes = requirements.text_aaa.passes ? 'AAA' : requirements.text_aa.passes ? 'AA' : 'fail';
+  const result: ContrastResult = {
+    foreground: toHex(fg),
+    background: toHex(bg),
+    ratio: Math.round(ratio * 100) / 100,
+    large_text: largeText,
+    passes,
+    requirements
+  };
+
+  const target = minimumRatio(options.level === 'AAA' ? 'AAA' : 'AA', largeText);
+  if (ratio < target) {
+    const backdrop = composite(bg, WHITE);
+    result.recommendation = suggestForeground(composite(fg, backdrop), backdrop, target);
+  }
+  return result;
+}
@@ -0,0 +1,60 @@
+/**
+ * Finding construction and summaries
+ */
+
+import { openingTag } from './markup.js';
+import { criteria, LEVELS, withinLevel } from './wcag.js';
+import { A11yNode, Finding, Severity, WcagLevel } from './types.js';
+
+const SEVERITIES: Severity[] = ['critical', 'serious', 'moderate', 'minor'];
+
+export interface FindingSummary {
+  total: number;
+  by_severity: Record<Severity, number>;
+  /** Findings per success criterion, e.g. { "4.1.2 Name, Role, Value": 3 } */
+  by_criterion: Record<string, number>;
+}
+
+export function finding(rule: string, severity: Severity, message: string, criterionIds: string[], node: A11yNode): Finding {
+  return {
+    rule,
+    severity,
+    message,
+    criteria: criteria(...criterionIds),
+    element: openingTag(node),
+    location: node.location
+  };
+}
+
+/**
+ * Findings that fail a criterion at or below the target level
+ */
+export function filterByLevel(findings: Finding[], level: WcagLevel): Finding[] {
+  return findings.filter(f => f.criteria.length === 0 || f.criteria.some(c => withinLevel(c.level, level)));
+}
+
+export function sortFindings(findings: Finding[]): Finding[] {
+  return [...findings].sort(
+    (a, b) =>
+      SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) ||
+      (a.location?.file ?? '').localeCompare(b.location?.file ?? '') ||
+      (a.location?.line ?? 0) - (b.location?.line ?? 0)
+  );
+}
+
+export function summarize(findings: Finding[]): FindingSummary {
+  const bySeverity = Object.fromEntries(SEVERITIES.map(s => [s, 0])) as Record<Severity, number>;
+  const byCriterion: Record<string, number> = {};
+  for (const f of findings) {
+    bySeverity[f.severity]++;
+    for (const c of f.criteria) {
+      const key = `${c.id} ${c.name}`;
+      byCriterion[key] = (byCriterion[key] ?? 0) + 1;
+    }
+  }
+  return { total: findings.length, by_severity: bySeverity, by_criterion: byCriterion };
+}
+
+export function isLevel(value: unknown): value is WcagLevel {
+  return LEVELS.includes(value as WcagLevel);
+}
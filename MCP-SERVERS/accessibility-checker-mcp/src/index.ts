@@ -1,8 +1,34 @@
 #!/usr/bin/env node
 
+/**
+ * Accessibility Checker MCP Server
+ *
+ * WCAG 2.1 checks without a browser: axe-core in jsdom for HTML pages,
+ * static analysis of JSX/TSX components for ARIA and keyboard access, and
+ * the WCAG contrast formula. Every finding cites the success criteria it
+ * fails.
+ */
+
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { checkAria } from './aria.js';
+import { runAxe } from './axe-runner.js';
+import { checkContrast } from './contrast.js';
+import { filterByLevel, isLevel, sortFindings, summarize } from './findings.js';
+import { checkKeyboard } from './keyboard.js';
+import { loadSources, parseSource, Source, SourceArgs } from './sources.js';
+import { Finding, WcagLevel } from './types.js';
+
+const SOURCE_SCHEMA = {
+  html: { type: 'string', description: 'HTML document or fragment' },
+  code: { type: 'string', description: 'JSX/TSX component source' },
+  fileName: { type: 'string', description: 'File name reported for inline code (default: component.tsx)' },
+  path: { type: 'string', description: 'File, or directory searched for .html, .htm, .jsx and .tsx files' },
+  url: { type: 'string', description: 'Page to fetch as static HTML (http://localhost:3000, file://…)' }
+};
+
+const LEVEL_SCHEMA = { type: 'string', enum: ['A', 'AA', 'AAA'], default: 'AA' };
 
 const server = new Server(
   { name: 'accessibility-checker-mcp', version: '1.0.0' },
@@ -13,55 +39,103 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
     {
       name: 'check_wcag_compliance',
-      description: 'Check WCAG compliance for HTML content or URLs',
+      description: 'Run axe-core WCAG rules against HTML strings, files or local URLs; JSX/TSX files get the static ARIA and keyboard checks',
       inputSchema: {
         type: 'object',
         properties: {
           content: { type: 'string', description: 'HTML content to check' },
-          url: { type: 'string', description: 'URL to check' },
-          level: { type: 'string', enum: ['A', 'AA', 'AAA'], default: 'AA' }
+          url: SOURCE_SCHEMA.url,
+          path: SOURCE_SCHEMA.path,
+          level: LEVEL_SCHEMA,
+          includeBestPractices: { type: 'boolean', description: 'Also run axe best-practice rules, which cite no criterion', default: false }
         },
         required: []
       }
     },
     {
       name: 'check_color_contrast',
-      description: 'Check color contrast ratio between foreground and background',
+      description: 'WCAG 2.1 contrast ratio between foreground and background, against 1.4.3, 1.4.6 and 1.4.11',
       inputSchema: {
         type: 'object',
         properties: {
-          foreground: { type: 'string', description: 'Foreground color (hex)' },
-          background: { type: 'string', description: 'Background color (hex)' },
-          fontSize: { type: 'number', description: 'Font size in pixels' }
+          foreground: { type: 'string', description: 'Foreground color (hex, rgb(), hsl() or a CSS color name)' },
+          background: { type: 'string', description: 'Background color (hex, rgb(), hsl() or a CSS color name)' },
+          fontSize: { type: 'number', description: 'Font size in pixels; 24px, or 18.66px bold, is large text' },
+          fontWeight: { type: 'number', description: 'Font weight; 700 and above is bold', default: 400 },
+          level: { ...LEVEL_SCHEMA, description: 'Level the recommended color should reach' }
         },
         required: ['foreground', 'background']
       }
     },
     {
       name: 'check_keyboard_navigation',
-      description: 'Check if elements are keyboard navigable',
+      description: 'Simulate the Tab order of HTML or JSX/TSX components and report elements keyboards cannot reach or operate',
       inputSchema: {
         type: 'object',
-        properties: {
-          html: { type: 'string', description: 'HTML to check' }
-        },
-        required: ['html']
+        properties: SOURCE_SCHEMA,
+        required: []
       }
     },
     {
       name: 'check_aria_attributes',
-      description: 'Validate ARIA attributes in HTML',
+      description: 'Validate roles, ARIA attributes and accessible names in HTML or JSX/TSX components',
       inputSchema: {
         type: 'object',
-        properties: {
-          html: { type: 'string', description: 'HTML to validate' }
-        },
-        required: ['html']
+        properties: SOURCE_SCHEMA,
+        required: []
       }
     }
   ]
 }));
 
+function sourceArgs(args: Record<string, unknown> | undefined): SourceArgs {
+  return {
+    html: args?.html as string | undefined,
+    code: args?.code as string | undefined,
+    fileName: args?.fileName as string | undefined,
+    path: args?.path as string | undefined,
+    url: args?.url as string | undefined
+  };
+}
+
+function level(value: unknown): WcagLevel {
+  if (value === undefined) return 'AA';
+  if (!isLevel(value)) {
+    throw new Error(`Invalid level: ${value} (expected A, AA or AAA)`);
+  }
+  return value;
+}
+
+function report(results: Array<{ source: string; findings: Finding[] }>, extra: Record<string, unknown> = {}) {
+  const all = results.flatMap(r => r.findings);
+  return {
+    ...extra,
+    summary: { sources: results.length, ...summarize(all) },
+    results: results.map(r => ({ ...r, findings: sortFindings(r.findings) }))
+  };
+}
+
+function staticFindings(source: Source): Finding[] {
+  const document = parseSource(source);
+  return [...checkAria(document), ...checkKeyboard(document).findings];
+}
+
+async function checkWcag(args: Record<string, unknown> | undefined) {
+  const target = level(args?.level);
+  const sources = await loadSources({ html: args?.content as string | undefined, path: args?.path as string | undefined, url: args?.url as string | undefined });
+
+  const results = [];
+  for (const source of sources) {
+    if (source.kind === 'html') {
+      const axe = await runAxe(source.content, { level: target, bestPractices: Boolean(args?.includeBestPractices), url: source.url });
+      results.push({ source: source.name, engine: 'axe-core', findings: axe.findings, passed: axe.passed.length, needs_review: axe.needs_review });
+    } else {
+      results.push({ source: source.name, engine: 'static', findings: filterByLevel(staticFindings(source), target) });
+    }
+  }
+  return report(results, { level: target });
+}
+
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     const { name, arguments: args } = request.params;
@@ -69,35 +143,38 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     switch (name) {
       case 'check_wcag_compliance':
         return {
-          content: [{
-            type: 'text',
-            text: 'WCAG compliance checking configured. Use axe-core for automated testing.'
-          }]
+          content: [{ type: 'text', text: JSON.stringify(await checkWcag(args), null, 2) }]
         };
 
-      case 'check_color_contrast':
+      case 'check_color_contrast': {
+        const result = checkContrast(String(args?.foreground), String(args?.background), {
+          fontSize: args?.fontSize as number | undefined,
+          fontWeight: args?.fontWeight as number | undefined,
+          level: level(args?.level)
+        });
         return {
-          content: [{
-            type: 'text',
-            text: `Color contrast check for ${args?.foreground} on ${args?.background}`
-          }]
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
         };
+      }
 
-      case 'check_keyboard_navigation':
+      case 'check_keyboard_navigation': {
+        const sources = await loadSources(sourceArgs(args));
+        const results = sources.map(source => {
+          const { sequences, findings } = checkKeyboard(parseSource(source));
+          return { source: source.name, tab_order: sequences, findings };
+        });
         return {
-          content: [{
-            type: 'text',
-            text: 'Keyboard navigation check configured'
-          }]
+          content: [{ type: 'text', text: JSON.stringify(report(results), null, 2) }]
         };
+      }
 
-      case 'check_aria_attributes':
+      case 'check_aria_attributes': {
+        const sources = await loadSources(sourceArgs(args));
+        const results = sources.map(source => ({ source: source.name, findings: checkAria(parseSource(source)) }));
         return {
-          content: [{
-            type: 'text',
-            text: 'ARIA attribute validation configured'
-          }]
+          content: [{ type: 'text', text: JSON.stringify(report(results), null, 2) }]
         };
+      }
 
       default:
         throw new Error(`Unknown tool: ${name}`);
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { checkKeyboard } from './keyboard.js';
+import { parseHtml, parseJsx } from './markup.js';
+
+const UI_COMPONENTS = fileURLToPath(new URL('../../../COMPONENTS/ui-components/', import.meta.url));
+
+const html = (markup: string) => checkKeyboard(parseHtml(markup));
+const jsx = (code: string) => checkKeyboard(parseJsx(code, 'Widget.tsx'));
+
+describe('Tab Order', () => {
+  it('should visit positive tabindex first, then document order', () => {
+    const { sequences, findings } = html(`
+      <a href="/">Home</a>
+      <button tabindex="2">Second</button>
+      <input type="hidden" name="csrf">
+      <button disabled>Off</button>
+      <div tabindex="-1">Script only</div>
+      <div hidden><button>Hidden</button></div>
+      <span tabindex="0" role="button" onkeydown="go()" onclick="go()">Go</span>
+      <button tabindex="1">First</button>
+    `);
+
+    expect(sequences).toHaveLength(1);
+    expect(sequences[0].stops.map(s => [s.order, s.label, s.tabindex])).toEqual([
+      [1, 'First', '1'],
+      [2, 'Second', '2'],
+      [3, 'Home', undefined],
+      [4, 'Go', '0']
+    ]);
+    expect(findings.map(f => [f.rule, f.criteria[0].id, f.location?.line])).toEqual([
+      ['tabindex-positive', '2.4.3', 3],
+      ['tabindex-positive', '2.4.3', 9]
+    ]);
+  });
+
+  it('should give each JSX tree its own sequence and mark conditional stops', () => {
+    const { sequences } = jsx(`
+      export const Toolbar = ({ busy }) => (
+        <div>
+          <button>Bold</button>
+          <span tabIndex={busy ? -1 : 0}>Status</span>
+        </div>
+      )
+      export const Footer = () => <a href="/help">Help</a>
+    `);
+
+    expect(sequences.map(s => [s.component, s.stops.map(t => `${t.label}${t.conditional ? '?' : ''}`)])).toEqual([
+      ['Toolbar', ['Bold', 'Status?']],
+      ['Footer', ['Help']]
+    ]);
+  });
+});
+
+describe('Keyboard Findings', () => {
+  it('should report click handlers that keyboards cannot reach or operate (2.1.1)', () => {
+    const { findings } = jsx(`
+      const Card = ({ onOpen }) => (
+        <div>
+          <div onClick={onOpen}>Open</div>
+          <div role="button" tabIndex={0} onClick={onOpen}>Open</div>
+          <div role="button" tabIndex={0} onClick={onOpen} onKeyDown={onOpen}>Open</div>
+          <td onClick={(e) => e.stopPropagation()}><input type="checkbox" aria-label="Select" /></td>
+          <button onClick={onOpen}>Open</button>
+        </div>
+      )
+    `);
+
+    expect(findings.map(f => [f.rule, f.criteria[0].id, f.location?.line])).toEqual([
+      ['keyboard-focusable', '2.1.1', 4],
+      ['keyboard-operable', '2.1.1', 5]
+    ]);
+    expect(findings[0].message).toBe('<div> with a click handler cannot receive keyboard focus; use a <button> or add tabIndex={0}');
+  });
+
+  it('should report focusable content inside aria-hidden', () => {
+    const { findings } = html('<div aria-hidden="true"><a href="/">Home</a><span tabindex="-1">x</span></div>');
+    expect(findings[0]).toMatchObject({ rule: 'aria-hidden-focus', criteria: [expect.objectContaining({ id: '4.1.2' })] });
+    expect(findings[0].message).toContain('1 focusable element(s)');
+  });
+
+  it('should expect one tab stop per composite widget', () => {
+    const roving = html(`
+      <div role="tablist"><button role="tab" tabindex="0">A</button><button role="tab" tabindex="-1">B</button></div>
+    `);
+    expect(roving.findings).toEqual([]);
+
+    const every = html(`
+      <div role="tablist"><button role="tab">A</button><button role="tab">B</button><button role="tab">C</button></div>
+    `);
+    expect(every.findings.map(f => f.message)).toEqual([
+      'role="tablist" has 3 tab stops; keep one item at tabindex="0" and move between items with arrow keys'
+    ]);
+
+    // An item component alone: a comparison in tabIndex reads as roving
+    expect(jsx('const Tab = ({ i, active }) => <div role="tab" tabIndex={i === active ? 0 : -1}>A</div>').findings).toEqual([]);
+  });
+});
+
+describe('UI Components', () => {
+  const check = (name: string) => {
+    const file = `${UI_COMPONENTS}${name}.tsx`;
+    return checkKeyboard(parseJsx(readFileSync(file, 'utf-8'), file));
+  };
+
+  it('should flag the Modal overlay that only closes on click', () => {
+    const { findings, sequences } = check('Modal');
+    expect(findings.map(f => [f.rule, f.location?.line])).toEqual([['keyboard-focusable', 204]]);
+    expect(sequences.find(s => s.component === 'Modal')?.stops.map(s => s.label)).toEqual(['Close modal']);
+  });
+
+  it('should flag Dropdown items that are each a tab stop', () => {
+    const { findings } = check('Dropdown');
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ rule: 'composite-tab-stops', location: { line: 262, component: 'DropdownItem' } });
+    expect(findings[0].message).toContain('tabIndex {disabled ? -1 : 0}');
+  });
+
+  it('should flag sortable headers and clickable rows in Table', () => {
+    const { findings, sequences } = check('Table');
+    expect(findings.map(f => [f.rule, f.location?.line, f.criteria[0].id])).toEqual([
+      ['keyboard-focusable', 240, '2.1.1'],
+      ['keyboard-focusable', 297, '2.1.1']
+    ]);
+    expect(sequences.find(s => s.component === 'TablePagination')?.stops.map(s => s.label)).toEqual([
+      'per page',
+      'Previous',
+      '{…}',
+      '{…}',
+      'Next'
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Keyboard navigation
+ *
+ * Simulates the Tab sequence (positive tabindex first, then document
+ * order; disabled and hidden elements skipped) and reports elements that
+ * a keyboard cannot reach or operate.
+ */
+
+import { finding } from './findings.js';
+import { isElement, possibleValues, staticValue } from './markup.js';
+import { ARIA_ROLES, focusability, isAriaHidden, isHidden, isNativelyFocusable, positiveTabIndex, roleOf } from './semantics.js';
+import { A11yDocument, A11yNode, Finding, SourceLocation } from './types.js';
+
+export interface TabStop {
+  order: number;
+  element: string;
+  /** Visible text or aria-label */
+  label: string;
+  tabindex?: string;
+  /** In the sequence only for some values of a JSX expression */
+  conditional: boolean;
+  location: SourceLocation;
+}
+
+export interface TabSequence {
+  /** JSX: the component returning the tree */
+  component?: string;
+  stops: TabStop[];
+}
+
+export interface KeyboardReport {
+  sequences: TabSequence[];
+  findings: Finding[];
+}
+
+const KEY_HANDLERS = ['onkeydown', 'onkeyup', 'onkeypress'];
+
+// Items of composite widgets, reached with arrow keys inside the widget
+const COMPOSITE_ITEMS = new Set(['menuitem', 'menuitemcheckbox', 'menuitemradio', 'option', 'tab', 'treeitem', 'radio']);
+
+// onClick={e => e.stopPropagation()} only shields a parent handler
+const STOP_PROPAGATION = /^\(?\s*\w*\s*(:\s*[\w.<>]+)?\s*\)?\s*=>\s*\{?\s*\w+\.stopPropagation\(\);?\s*\}?$/;
+
+function label(node: A11yNode): string {
+  const ariaLabel = staticValue(node, 'aria-label');
+  if (ariaLabel) return ariaLabel;
+  const parts: string[] = [];
+  const collect = (n: A11yNode) => {
+    if (isAriaHidden(n)) return;
+    if (n.text) parts.push(n.text);
+    else if (n.dynamicContent) parts.push('{…}');
+    n.children.forEach(collect);
+  };
+  collect(node);
+  const text = parts.join(' ').trim();
+  return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
+
+function tabindexText(node: A11yNode): string | undefined {
+  const value = node.attributes.tabindex;
+  if (!value) return undefined;
+  return value.kind === 'static' ? value.value : `{${value.expression}}`;
+}
+
+/**
+ * Tab sequence through the trees: positive tabindex in ascending order,
+ * then tabindex="0" and natively focusable elements in document order
+ */
+export function tabSequence(roots: A11yNode[]): TabStop[] {
+  const candidates: Array<{ node: A11yNode; conditional: boolean; position: number }> = [];
+  const visit = (node: A11yNode) => {
+    if (isHidden(node)) return;
+    const focus = focusability(node);
+    if (focus === 'tab' || focus === 'conditional') {
+      candidates.push({ node, conditional: focus === 'conditional', position: positiveTabIndex(node) ?? 0 });
+    }
+    node.children.forEach(visit);
+  };
+  roots.forEach(visit);
+
+  const positive = candidates.filter(c => c.position > 0).sort((a, b) => a.position - b.position);
+  const ordered = [...positive, ...candidates.filter(c => c.position === 0)];
+  return ordered.map(({ node, conditional }, i) => ({
+    order: i + 1,
+    element: `<${node.tag}${roleOf(node) && node.attributes.role ? ` role="${roleOf(node)}"` : ''}>`,
+    label: label(node),
+    tabindex: tabindexText(node),
+    conditional,
+    location: node.location
+  }));
+}
+
+function checkClickHandlers(node: A11yNode, findings: Finding[]): void {
+  const handler = node.attributes.onclick;
+  const role = roleOf(node);
+  const interactiveRole = node.attributes.role !== undefined && role !== undefined && ARIA_ROLES[role]?.type === 'widget';
+  if (isNativelyFocusable(node) || node.tag === 'label') return;
+  if (!handler && !interactiveRole) return;
+  if (handler?.kind === 'dynamic' && STOP_PROPAGATION.test(handler.expression)) return;
+
+  const what = interactiveRole ? `role="${role}"` : `<${node.tag}> with a click handler`;
+  if (focusability(node) === 'none') {
+    findings.push(finding('keyboard-focusable', 'serious', `${what} cannot receive keyboard focus; use a <button> or add tabIndex={0}`, ['2.1.1'], node));
+  } else if (handler && !KEY_HANDLERS.some(name => node.attributes[name])) {
+    findings.push(finding('keyboard-operable', 'serious', `${what} is focusable but has no key handler, so Enter and Space do nothing`, ['2.1.1'], node));
+  }
+}
+
+/**
+ * Composite widgets (menu, listbox, tablist, …) should be a single tab
+ * stop with arrow keys moving between items (roving tabindex)
+ */
+function checkComposite(node: A11yNode, ancestors: A11yNode[], findings: Finding[]): void {
+  const role = roleOf(node);
+  if (!role) return;
+
+  if (ARIA_ROLES[role]?.type === 'composite') {
+    const stops = tabSequence(node.children).filter(stop => !stop.conditional);
+    if (stops.length > 1) {
+      findings.push(
+        finding('composite-tab-stops', 'minor', `role="${role}" has ${stops.length} tab stops; keep one item at tabindex="0" and move between items with arrow keys`, ['2.4.3'], node)
+      );
+    }
+    return;
+  }
+
+  // Items rendered by their own component: the container is not visible,
+  // so look at how the item sets its tabindex
+  if (!COMPOSITE_ITEMS.has(role) || ancestors.some(a => ARIA_ROLES[roleOf(a) ?? '']?.type === 'composite')) return;
+  const tabindex = node.attributes.tabindex;
+  const alwaysStop = tabindex?.kind === 'static' && tabindex.value === '0';
+  // tabIndex={index === active ? 0 : -1} is a roving tabindex; {disabled ? -1 : 0} is not
+  const notRoving = tabindex?.kind === 'dynamic' && possibleValues(tabindex).includes('0') && !/[!=]==?|[<>]/.test(tabindex.expression);
+  if (alwaysStop || notRoving) {
+    findings.push(
+      finding('composite-tab-stops', 'minor', `Every enabled ${role} is a tab stop (tabIndex ${tabindexText(node)}); use a roving tabindex so Tab leaves the widget`, ['2.4.3'], node)
+    );
+  }
+}
+
+function checkHiddenFocus(node: A11yNode, findings: Finding[]): void {
+  if (!isAriaHidden(node)) return;
+  const focusable = tabSequence([node]).filter(stop => !stop.conditional);
+  if (focusable.length > 0) {
+    findings.push(
+      finding('aria-hidden-focus', 'serious', `aria-hidden="true" content contains ${focusable.length} focusable element(s) that screen readers cannot announce`, ['4.1.2'], node)
+    );
+  }
+}
+
+export function checkKeyboard(document: A11yDocument): KeyboardReport {
+  const findings: Finding[] = [];
+
+  const visit = (node: A11yNode, ancestors: A11yNode[]) => {
+    if (isHidden(node)) return;
+    if (isElement(node)) {
+      const tabindex = positiveTabIndex(node);
+      if (tabindex !== undefined) {
+        findings.push(finding('tabindex-positive', 'serious', `tabindex="${tabindex}" moves the element ahead of the document order`, ['2.4.3'], node));
+      }
+      checkClickHandlers(node, findings);
+      checkComposite(node, ancestors, findings);
+      checkHiddenFocus(node, findings);
+    }
+    node.children.forEach(child => visit(child, [...ancestors, node]));
+  };
+  document.roots.forEach(root => visit(root, []));
+
+  const sequences: TabSequence[] =
+    document.kind === 'html'
+      ? [{ stops: tabSequence(document.roots) }]
+      : document.roots
+        .map(root => ({ component: root.location.component, stops: tabSequence([root]) }))
+        .filter(sequence => sequence.stops.length > 0);
+
+  return { sequences, findings };
+}
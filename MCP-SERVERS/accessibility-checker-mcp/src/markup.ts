@@ -0,0 +1,274 @@
+/**
+ * Markup parsing
+ *
+ * HTML (via jsdom) and JSX/TSX (via the TypeScript compiler API) are read
+ * into the same element tree so the ARIA and keyboard checks run over
+ * either. JSX attribute expressions are kept as written, with the literal
+ * values they can produce, since their runtime value is unknown.
+ */
+
+import { JSDOM } from 'jsdom';
+import ts from 'typescript';
+import { A11yDocument, A11yNode, AttrValue } from './types.js';
+
+// React prop names that differ from the HTML attribute
+const JSX_ATTRIBUTE_NAMES: Record<string, string> = {
+  className: 'class',
+  htmlFor: 'for'
+};
+
+const FRAGMENT = '#fragment';
+
+/**
+ * Parse an HTML document or fragment; the roots are the body's children
+ */
+export function parseHtml(html: string, file?: string): A11yDocument {
+  const dom = new JSDOM(html, { includeNodeLocations: true });
+  const { document, Node: NodeType } = dom.window;
+
+  const convert = (element: Element): A11yNode => {
+    const attributes: Record<string, AttrValue> = {};
+    for (const { name, value } of Array.from(element.attributes)) {
+      attributes[name] = { kind: 'static', value };
+    }
+
+    const location = dom.nodeLocation(element);
+    const text = Array.from(element.childNodes)
+      .filter(child => child.nodeType === NodeType.TEXT_NODE)
+      .map(child => child.textContent ?? '')
+      .join(' ');
+
+    // <template> content lives in a separate fragment and never renders
+    const children = element.tagName === 'TEMPLATE' ? [] : Array.from(element.children).map(convert);
+
+    return {
+      tag: element.tagName.toLowerCase(),
+      attributes,
+      children,
+      text: normalizeText(text),
+      dynamicContent: false,
+      spread: false,
+      location: { file, line: location?.startLine ?? 1, column: location?.startCol ?? 1 }
+    };
+  };
+
+  return { kind: 'html', file, roots: Array.from(document.body.children).map(convert) };
+}
+
+/**
+ * Parse JSX/TSX source; each JSX tree that is not nested in another
+ * becomes a root, tagged with the component that returns it
+ */
+export function parseJsx(code: string, file: string = 'component.tsx'): A11yDocument {
+  const kind = /\.(tsx|ts)$/.test(file) ? ts.ScriptKind.TSX : ts.ScriptKind.JSX;
+  const source = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, kind);
+  const converted = new Set<ts.Node>();
+  const roots: A11yNode[] = [];
+
+  const locate = (node: ts.Node) => {
+    const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+    return { file, line: line + 1, column: character + 1, component: componentName(node) };
+  };
+
+  const convert = (node: ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment): A11yNode => {
+    converted.add(node);
+    const opening = ts.isJsxElement(node) ? node.openingElement : ts.isJsxSelfClosingElement(node) ? node : undefined;
+    const result: A11yNode = {
+      tag: opening ? opening.tagName.getText(source) : FRAGMENT,
+      attributes: {},
+      children: [],
+      text: '',
+      dynamicContent: false,
+      spread: false,
+      location: locate(node)
+    };
+
+    for (const property of opening?.attributes.properties ?? []) {
+      if (ts.isJsxSpreadAttribute(property)) {
+        result.spread = true;
+        continue;
+      }
+      const raw = property.name.getText(source);
+      result.attributes[jsxAttributeName(raw)] = jsxAttributeValue(property.initializer, source);
+    }
+
+    const text: string[] = [];
+    const children = ts.isJsxSelfClosingElement(node) ? [] : node.children;
+    for (const child of children) {
+      if (ts.isJsxText(child)) {
+        text.push(child.text);
+      } else if (ts.isJsxExpression(child)) {
+        if (!child.expression) continue;
+        const nested = findJsx(child.expression);
+        if (nested.length === 0) {
+          result.dynamicContent = true;
+        }
+        result.children.push(...nested.map(convert));
+      } else {
+        result.children.push(convert(child));
+      }
+    }
+    result.text = normalizeText(text.join(' '));
+    return result;
+  };
+
+  const visit = (node: ts.Node) => {
+    if ((ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) && !converted.has(node)) {
+      roots.push(convert(node));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return { kind: 'jsx', file, roots };
+}
+
+/**
+ * JSX elements in an expression, not descending into the elements found
+ * (map callbacks, conditionals and logical expressions are searched)
+ */
+function findJsx(expression: ts.Node): Array<ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment> {
+  const found: Array<ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment> = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+      found.push(node);
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(expression);
+  return found;
+}
+
+function jsxAttributeName(name: string): string {
+  if (JSX_ATTRIBUTE_NAMES[name]) return JSX_ATTRIBUTE_NAMES[name];
+  // aria-* and data-* are written as in HTML; camelCase ariaLabel is kept
+  // as written so it can be reported
+  if (name.includes('-') || /^aria[A-Z]/.test(name)) return name;
+  return name.toLowerCase();
+}
+
+function jsxAttributeValue(initializer: ts.JsxAttributeValue | undefined, source: ts.SourceFile): AttrValue {
+  // <input disabled />
+  if (!initializer) return { kind: 'static', value: 'true' };
+  if (ts.isStringLiteral(initializer)) return { kind: 'static', value: initializer.text };
+  if (!ts.isJsxExpression(initializer) || !initializer.expression) {
+    return { kind: 'dynamic', expression: initializer.getText(source), literals: [], optional: true };
+  }
+
+  const expression = initializer.expression;
+  const literal = literalValue(expression);
+  if (literal !== undefined) return { kind: 'static', value: literal };
+
+  const literals: string[] = [];
+  let optional = false;
+  const collect = (node: ts.Expression) => {
+    const inner = ts.isParenthesizedExpression(node) ? node.expression : node;
+    const value = literalValue(inner);
+    if (value !== undefined) {
+      literals.push(value);
+    } else if (isNullish(inner)) {
+      optional = true;
+    } else if (ts.isConditionalExpression(inner)) {
+      collect(inner.whenTrue);
+      collect(inner.whenFalse);
+    } else if (ts.isBinaryExpression(inner) && inner.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken) {
+      // cond && 'value' renders nothing when cond is falsy
+      optional = true;
+      collect(inner.right);
+    } else if (
+      ts.isBinaryExpression(inner) &&
+      (inner.operatorToken.kind === ts.SyntaxKind.BarBarToken || inner.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken)
+    ) {
+      collect(inner.right);
+    }
+  };
+  collect(expression);
+
+  return { kind: 'dynamic', expression: expression.getText(source), literals: [...new Set(literals)], optional };
+}
+
+function literalValue(node: ts.Expression): string | undefined {
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node) || ts.isNumericLiteral(node)) return node.text;
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return `-${node.operand.text}`;
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return 'true';
+  return undefined;
+}
+
+function isNullish(node: ts.Expression): boolean {
+  return (
+    node.kind === ts.SyntaxKind.NullKeyword ||
+    node.kind === ts.SyntaxKind.FalseKeyword ||
+    (ts.isIdentifier(node) && node.text === 'undefined')
+  );
+}
+
+/**
+ * Name of the function component or class the node is written in
+ */
+function componentName(node: ts.Node): string | undefined {
+  let nearest: string | undefined;
+  for (let current = node.parent; current; current = current.parent) {
+    let name: string | undefined;
+    if ((ts.isFunctionDeclaration(current) || ts.isClassDeclaration(current)) && current.name) name = current.name.text;
+    if (ts.isVariableDeclaration(current) && ts.isIdentifier(current.name)) name = current.name.text;
+    // Components are capitalized; const rows = data.map(...) is not one
+    if (name && /^[A-Z]/.test(name)) return name;
+    nearest = nearest ?? name;
+  }
+  return nearest;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Visit every node depth-first with its ancestors, nearest last
+ */
+export function walk(roots: A11yNode[], visit: (node: A11yNode, ancestors: A11yNode[]) => void): void {
+  const step = (node: A11yNode, ancestors: A11yNode[]) => {
+    visit(node, ancestors);
+    const path = [...ancestors, node];
+    node.children.forEach(child => step(child, path));
+  };
+  roots.forEach(root => step(root, []));
+}
+
+/**
+ * DOM elements, as opposed to React components and fragments
+ */
+export function isElement(node: A11yNode): boolean {
+  return /^[a-z][a-z0-9-]*$/.test(node.tag);
+}
+
+export function attribute(node: A11yNode, name: string): AttrValue | undefined {
+  return node.attributes[name];
+}
+
+export function staticValue(node: A11yNode, name: string): string | undefined {
+  const value = node.attributes[name];
+  return value?.kind === 'static' ? value.value : undefined;
+}
+
+/**
+ * Every value the attribute can take; an expression contributes the
+ * literals it was seen to produce
+ */
+export function possibleValues(value: AttrValue | undefined): string[] {
+  if (!value) return [];
+  return value.kind === 'static' ? [value.value] : value.literals;
+}
+
+/**
+ * Opening tag as written, e.g. <div role="menu" tabIndex={…}>
+ */
+export function openingTag(node: A11yNode, maxLength: number = 120): string {
+  const attributes = Object.entries(node.attributes).map(([name, value]) =>
+    value.kind === 'static' ? `${name}="${value.value}"` : `${name}={${value.expression.replace(/\s+/g, ' ')}}`
+  );
+  const tag = `<${[node.tag === FRAGMENT ? '' : node.tag, ...attributes, ...(node.spread ? ['{...}'] : [])].join(' ')}>`;
+  return tag.length > maxLength ? `${tag.slice(0, maxLength - 2)}…>` : tag;
+}
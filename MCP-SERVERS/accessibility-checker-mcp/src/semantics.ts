@@ -0,0 +1,278 @@
+/**
+ * Element semantics: roles, focusability and accessible names
+ *
+ * Role and attribute definitions come from axe-core's ARIA standards
+ * tables so the static checks agree with check_wcag_compliance.
+ */
+
+import axe from 'axe-core';
+import { isElement, possibleValues, staticValue, walk } from './markup.js';
+import { A11yDocument, A11yNode, AttrValue } from './types.js';
+
+// axe-core's typings omit some fields its standards tables carry
+export interface AriaAttribute {
+  type: 'boolean' | 'nmtoken' | 'nmtokens' | 'int' | 'decimal' | 'string' | 'idref' | 'idrefs';
+  values?: string[];
+  global?: boolean;
+  allowEmpty?: boolean;
+  caseInsensitive?: boolean;
+}
+
+export interface AriaRole {
+  type: string;
+  requiredAttrs?: string[];
+  allowedAttrs?: string[];
+  prohibitedAttrs?: string[];
+  requiredContext?: string[];
+  requiredOwned?: string[];
+  accessibleNameRequired?: boolean;
+  nameFromContent?: boolean;
+}
+
+const STANDARDS = axe.utils.getStandards();
+
+export const ARIA_ATTRIBUTES = STANDARDS.ariaAttrs as Record<string, AriaAttribute>;
+export const ARIA_ROLES = STANDARDS.ariaRoles as Record<string, AriaRole>;
+
+const INPUT_ROLES: Record<string, string | undefined> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  email: 'textbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox'
+};
+
+const TAG_ROLES: Record<string, string> = {
+  button: 'button',
+  dialog: 'dialog',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  li: 'listitem',
+  nav: 'navigation',
+  ol: 'list',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: 'cell',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  th: 'columnheader',
+  thead: 'rowgroup',
+  tr: 'row',
+  ul: 'list'
+};
+
+const FORM_CONTROLS = new Set(['input', 'select', 'textarea']);
+
+/**
+ * Roles the element can have: the first token of each value role can take
+ */
+export function explicitRoles(node: A11yNode): string[] {
+  return possibleValues(node.attributes.role)
+    .map(value => value.trim().split(/\s+/)[0]?.toLowerCase())
+    .filter((role): role is string => Boolean(role));
+}
+
+export function implicitRole(node: A11yNode): string | undefined {
+  if (!isElement(node)) return undefined;
+  if ((node.tag === 'a' || node.tag === 'area') && node.attributes.href) return 'link';
+  if (node.tag === 'input') return INPUT_ROLES[(staticValue(node, 'type') ?? 'text').toLowerCase()];
+  if (node.tag === 'select') {
+    const size = Number(staticValue(node, 'size') ?? 0);
+    return node.attributes.multiple || size > 1 ? 'listbox' : 'combobox';
+  }
+  if (node.tag === 'img') return staticValue(node, 'alt') === '' ? 'presentation' : 'img';
+  return TAG_ROLES[node.tag];
+}
+
+/**
+ * Explicit role when it is a literal, otherwise the implicit role
+ */
+export function roleOf(node: A11yNode): string | undefined {
+  const explicit = node.attributes.role?.kind === 'static' ? explicitRoles(node)[0] : undefined;
+  return explicit ?? (node.attributes.role ? undefined : implicitRole(node));
+}
+
+export function isNativelyFocusable(node: A11yNode): boolean {
+  switch (node.tag) {
+    case 'a':
+    case 'area':
+      return Boolean(node.attributes.href);
+    case 'button':
+    case 'select':
+    case 'textarea':
+    case 'summary':
+    case 'iframe':
+      return true;
+    case 'input':
+      return staticValue(node, 'type')?.toLowerCase() !== 'hidden';
+    case 'audio':
+    case 'video':
+      return Boolean(node.attributes.controls);
+    default: {
+      const editable = staticValue(node, 'contenteditable');
+      return editable !== undefined && editable !== 'false';
+    }
+  }
+}
+
+export function isDisabled(node: A11yNode): boolean {
+  return FORM_CONTROLS.has(node.tag) || node.tag === 'button'
+    ? node.attributes.disabled?.kind === 'static' && node.attributes.disabled.value !== 'false'
+    : false;
+}
+
+/**
+ * Whether the element is removed from rendering (hidden, display: none,
+ * visibility: hidden, inert)
+ */
+export function isHidden(node: A11yNode): boolean {
+  if (node.attributes.hidden?.kind === 'static' || node.attributes.inert?.kind === 'static') return true;
+  const style = staticValue(node, 'style') ?? '';
+  return /display\s*:\s*none|visibility\s*:\s*hidden/i.test(style);
+}
+
+export function isAriaHidden(node: A11yNode): boolean {
+  return staticValue(node, 'aria-hidden') === 'true';
+}
+
+/**
+ * tab: always in the tab sequence; conditional: depends on an expression;
+ * programmatic: focusable by script only (tabindex="-1"); none
+ */
+export type Focusability = 'tab' | 'conditional' | 'programmatic' | 'none';
+
+export function focusability(node: A11yNode): Focusability {
+  if (!isElement(node) || isDisabled(node)) return 'none';
+  const native = isNativelyFocusable(node);
+  const tabindex = node.attributes.tabindex;
+
+  if (tabindex?.kind === 'static') {
+    const value = parseInt(tabindex.value, 10);
+    if (Number.isNaN(value)) return native ? 'tab' : 'none';
+    return value >= 0 ? 'tab' : 'programmatic';
+  }
+  if (tabindex?.kind === 'dynamic') {
+    const values = tabindex.literals.map(v => parseInt(v, 10)).filter(v => !Number.isNaN(v));
+    const stops = values.filter(v => v >= 0).length;
+    if (stops > 0 && stops < values.length) return 'conditional';
+    if (stops > 0) return tabindex.optional && !native ? 'conditional' : 'tab';
+    if (values.length > 0) return tabindex.optional && native ? 'conditional' : 'programmatic';
+    return native ? 'tab' : 'conditional';
+  }
+  return native ? 'tab' : 'none';
+}
+
+export function isFocusable(node: A11yNode): boolean {
+  return focusability(node) !== 'none';
+}
+
+/**
+ * Positive tabindex values the element can take
+ */
+export function positiveTabIndex(node: A11yNode): number | undefined {
+  const values = possibleValues(node.attributes.tabindex).map(v => parseInt(v, 10));
+  return values.find(v => v > 0);
+}
+
+export interface NameContext {
+  /** Static ids referenced by <label for> */
+  labelled: Set<string>;
+  /** Some <label> has a computed for={...} */
+  dynamicLabels: boolean;
+}
+
+export function nameContext(document: A11yDocument): NameContext {
+  const context: NameContext = { labelled: new Set(), dynamicLabels: false };
+  walk(document.roots, node => {
+    if (node.tag !== 'label' || !node.attributes.for) return;
+    const target = node.attributes.for;
+    if (target.kind === 'static') context.labelled.add(target.value);
+    else context.dynamicLabels = true;
+  });
+  return context;
+}
+
+export type NameState = 'named' | 'conditional' | 'missing';
+
+export interface AccessibleName {
+  state: NameState;
+  /** What provides (or may provide) the name */
+  source?: string;
+}
+
+function fromAttribute(value: AttrValue | undefined): NameState {
+  if (!value) return 'missing';
+  if (value.kind === 'static') return value.value.trim() ? 'named' : 'missing';
+  return value.optional ? 'conditional' : 'named';
+}
+
+/**
+ * Whether the element's content can name it: text, expressions that may
+ * render text, components, or named images inside
+ */
+export function hasContentName(node: A11yNode): boolean {
+  if (isAriaHidden(node)) return false;
+  if (node.text || node.dynamicContent) return true;
+  if (node.tag === 'img') return Boolean(staticValue(node, 'alt')?.trim()) || node.attributes.alt?.kind === 'dynamic';
+  if (node.tag === 'svg' && (node.attributes['aria-label'] || node.children.some(child => child.tag === 'title'))) return true;
+  if (node.attributes['aria-label'] && fromAttribute(node.attributes['aria-label']) !== 'missing') return true;
+  // A component may render text we cannot see
+  if (!isElement(node) && node.tag !== '#fragment') return true;
+  return node.children.some(hasContentName);
+}
+
+/**
+ * Simplified accessible name computation: aria-labelledby, aria-label,
+ * native labelling (label, alt, value) and, for roles named from content,
+ * the element's content
+ */
+export function accessibleName(node: A11yNode, ancestors: A11yNode[], context: NameContext): AccessibleName {
+  if (node.spread) return { state: 'named', source: 'spread props' };
+
+  const candidates: Array<[string, NameState]> = [
+    ['aria-labelledby', fromAttribute(node.attributes['aria-labelledby'])],
+    ['aria-label', fromAttribute(node.attributes['aria-label'])],
+    ['title', fromAttribute(node.attributes.title)]
+  ];
+
+  const type = (staticValue(node, 'type') ?? 'text').toLowerCase();
+  if (node.tag === 'img' || (node.tag === 'input' && type === 'image')) {
+    candidates.push(['alt', node.attributes.alt ? 'named' : 'missing']);
+  }
+  if (node.tag === 'input' && ['submit', 'reset'].includes(type)) {
+    candidates.push(['default label', 'named']);
+  }
+  if (node.tag === 'input' && type === 'button') {
+    candidates.push(['value', fromAttribute(node.attributes.value)]);
+  }
+  if (FORM_CONTROLS.has(node.tag)) {
+    const id = node.attributes.id;
+    const labelledById = id?.kind === 'static' ? context.labelled.has(id.value) : Boolean(id) && context.dynamicLabels;
+    candidates.push(['label', labelledById || ancestors.some(a => a.tag === 'label') ? 'named' : 'missing']);
+    if (node.tag !== 'select') candidates.push(['placeholder', fromAttribute(node.attributes.placeholder)]);
+  }
+
+  const role = roleOf(node);
+  const fromContent = node.tag === 'button' || node.tag === 'a' || (role !== undefined && ARIA_ROLES[role]?.nameFromContent);
+  if (fromContent) {
+    candidates.push(['content', hasContentName({ ...node, attributes: {} }) ? 'named' : 'missing']);
+  }
+
+  const named = candidates.find(([, state]) => state === 'named');
+  if (named) return { state: 'named', source: named[0] };
+  const conditional = candidates.find(([, state]) => state === 'conditional');
+  if (conditional) return { state: 'conditional', source: conditional[0] };
+  return { state: 'missing' };
+}
@@ -0,0 +1,131 @@
+/**
+ * Markup sources
+ *
+ * Tools accept inline HTML or JSX, a file, a directory of components or a
+ * URL. Directories are searched for .html, .htm, .jsx and .tsx files;
+ * URLs are fetched as static HTML.
+ */
+
+import { promises as fs } from 'fs';
+import { extname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { parseHtml, parseJsx } from './markup.js';
+import { A11yDocument } from './types.js';
+
+export type SourceKind = 'html' | 'jsx';
+
+export interface Source {
+  /** File path, URL, or "inline" */
+  name: string;
+  kind: SourceKind;
+  content: string;
+  /** Document URL for pages fetched over HTTP */
+  url?: string;
+}
+
+export interface SourceArgs {
+  html?: string;
+  code?: string;
+  path?: string;
+  url?: string;
+  /** File name for inline code; its extension picks JSX or TSX parsing */
+  fileName?: string;
+}
+
+const EXTENSIONS: Record<string, SourceKind> = {
+  '.html': 'html',
+  '.htm': 'html',
+  '.jsx': 'jsx',
+  '.tsx': 'jsx'
+};
+
+// Accepted when a file is named explicitly, not when scanning directories
+const SCRIPT_EXTENSIONS = new Set(['.js', '.ts', '.mjs']);
+
+const SKIP_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next']);
+
+const FETCH_TIMEOUT_MS = 15000;
+
+export function sourceKind(file: string): SourceKind | undefined {
+  const extension = extname(file).toLowerCase();
+  return EXTENSIONS[extension] ?? (SCRIPT_EXTENSIONS.has(extension) ? 'jsx' : undefined);
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const full = join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIP_DIRECTORIES.has(entry.name)) files.push(...(await listFiles(full)));
+    } else if (EXTENSIONS[extname(entry.name).toLowerCase()] && !/\.(test|spec|stories)\.[jt]sx$/.test(entry.name)) {
+      files.push(full);
+    }
+  }
+  return files.sort();
+}
+
+export async function readSources(path: string): Promise<Source[]> {
+  const target = resolve(path);
+  const stats = await fs.stat(target).catch(() => {
+    throw new Error(`Path not found: ${path}`);
+  });
+
+  const files = stats.isDirectory() ? await listFiles(target) : [target];
+  if (files.length === 0) {
+    throw new Error(`No HTML, JSX or TSX files found in ${path}`);
+  }
+
+  return Promise.all(
+    files.map(async file => {
+      const kind = sourceKind(file);
+      if (!kind) {
+        throw new Error(`Unsupported file type: ${file} (expected .html, .htm, .jsx or .tsx)`);
+      }
+      return { name: file, kind, content: await fs.readFile(file, 'utf-8') };
+    })
+  );
+}
+
+/**
+ * Fetch a page as static HTML; file:// URLs are read from disk
+ */
+export async function fetchSource(url: string): Promise<Source> {
+  if (url.startsWith('file:')) {
+    const [source] = await readSources(fileURLToPath(url));
+    return source;
+  }
+
+  const target = /^https?:\/\//.test(url) ? url : `http://${url}`;
+  const response = await fetch(target, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }).catch(error => {
+    throw new Error(`Could not fetch ${target}: ${error instanceof Error ? error.message : String(error)}`);
+  });
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${target}: HTTP ${response.status}`);
+  }
+  return { name: target, kind: 'html', content: await response.text(), url: response.url || target };
+}
+
+export async function loadSources(args: SourceArgs): Promise<Source[]> {
+  const sources: Source[] = [];
+  if (args.html !== undefined) {
+    sources.push({ name: 'inline', kind: 'html', content: args.html });
+  }
+  if (args.code !== undefined) {
+    const fileName = args.fileName ?? 'component.tsx';
+    sources.push({ name: fileName, kind: 'jsx', content: args.code });
+  }
+  if (args.path) {
+    sources.push(...(await readSources(args.path)));
+  }
+  if (args.url) {
+    sources.push(await fetchSource(args.url));
+  }
+  if (sources.length === 0) {
+    throw new Error('Provide html, code, path or url');
+  }
+  return sources;
+}
+
+export function parseSource(source: Source): A11yDocument {
+  return source.kind === 'html' ? parseHtml(source.content, source.name) : parseJsx(source.content, source.name);
+}
@@ -0,0 +1,71 @@
+/**
+ * Shared types for findings and parsed markup
+ */
+
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+export type Severity = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export interface Criterion {
+  id: string;
+  name: string;
+  level: WcagLevel;
+  url: string;
+}
+
+export interface SourceLocation {
+  file?: string;
+  line: number;
+  column: number;
+  /** Enclosing React component, for JSX */
+  component?: string;
+}
+
+export interface Finding {
+  rule: string;
+  severity: Severity;
+  message: string;
+  /** WCAG success criteria the finding fails */
+  criteria: Criterion[];
+  /** Opening tag of the element, e.g. <div role="menu"> */
+  element: string;
+  /** CSS selector, for findings from a rendered document */
+  selector?: string;
+  location?: SourceLocation;
+}
+
+/**
+ * Attribute value as written: literal text, or a JSX expression whose
+ * runtime value is unknown
+ */
+export type AttrValue =
+  | { kind: 'static'; value: string }
+  | {
+    kind: 'dynamic';
+    expression: string;
+    /** String and number literals the expression can produce */
+    literals: string[];
+    /** The expression can produce undefined, null or false */
+    optional: boolean;
+  };
+
+export interface A11yNode {
+  /** Lower-case tag for DOM elements; components keep their name */
+  tag: string;
+  attributes: Record<string, AttrValue>;
+  children: A11yNode[];
+  /** Literal text directly inside the element */
+  text: string;
+  /** Children include an expression ({value}) that may render text */
+  dynamicContent: boolean;
+  /** JSX spread props ({...props}) may add any attribute */
+  spread: boolean;
+  location: SourceLocation;
+}
+
+export interface A11yDocument {
+  kind: 'html' | 'jsx';
+  file?: string;
+  /** HTML: the body; JSX: one root per returned JSX tree */
+  roots: A11yNode[];
+}
@@ -0,0 +1,55 @@
+/**
+ * One agent step as a completion request
+ *
+ * Prompts are built like COMPONENTS/agents/simple-task-agent.ts builds
+ * them: the agent's role as the system prompt, then the task followed by
+ * its context as JSON.
+ */
+
+import { CompletionRequest } from './providers/index.js';
+import { StepDefinition, WorkflowDefinition } from './types.js';
+import { placeholders, renderPrompt } from './workflow.js';
+
+export const DEFAULT_ROLE = 'You are a helpful AI assistant that completes tasks accurately and efficiently.';
+
+export function buildPrompt(task: string, context?: Record<string, unknown>): string {
+  let prompt = task;
+
+  if (context && Object.keys(context).length > 0) {
+    prompt += '\n\nContext:\n';
+    prompt += JSON.stringify(context, null, 2);
+  }
+
+  return prompt;
+}
+
+/**
+ * The request for a step: its rendered prompt, with the outputs of
+ * dependencies the prompt doesn't already quote as context
+ */
+export function stepRequest(
+  workflow: WorkflowDefinition,
+  step: StepDefinition,
+  input: Record<string, unknown>,
+  outputs: Record<string, string>
+): CompletionRequest {
+  const agent = workflow.agents[step.agent];
+  const quoted = new Set(
+    placeholders(step.prompt).placeholders.flatMap(placeholder => (placeholder.kind === 'step' ? [placeholder.step] : []))
+  );
+  const context: Record<string, string> = {};
+  for (const dependency of step.dependsOn ?? []) {
+    if (!quoted.has(dependency) && outputs[dependency] !== undefined) context[dependency] = outputs[dependency];
+  }
+
+  return {
+    model: agent.model,
+    system: agent.role || DEFAULT_ROLE,
+    messages: [{ role: 'user', content: buildPrompt(renderPrompt(step.prompt, input, outputs), context) }],
+    temperature: agent.temperature,
+    maxTokens: agent.maxTokens,
+    workflow: workflow.id,
+    step: step.id,
+    agent: step.agent
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AgentOrchestrator } from './orchestrator.js';
+import { ScriptedLLM, ScriptedResponse } from './providers/index.js';
+import { RunRecord, WorkflowDefinition } from './types.js';
+
+const REVIEW: WorkflowDefinition = {
+  id: 'code-review',
+  agents: {
+    analyst: { role: 'You find bugs.' },
+    security: { role: 'You find vulnerabilities.' },
+    lead: { role: 'You summarize reviews.' }
+  },
+  steps: [
+    { id: 'bugs', agent: 'analyst', prompt: 'Review {{input.file}} for bugs' },
+    { id: 'vulns', agent: 'security', prompt: 'Review {{input.file}} for vulnerabilities' },
+    {
+      id: 'summary',
+      agent: 'lead',
+      prompt: 'Summarize:\n{{steps.bugs.output}}\n{{steps.vulns.output}}',
+      dependsOn: ['bugs', 'vulns']
+    }
+  ]
+};
+
+const statuses = (run: RunRecord) => Object.fromEntries(Object.entries(run.steps).map(([id, state]) => [id, state.status]));
+
+describe('AgentOrchestrator', () => {
+  let dir: string;
+  let orchestrators: AgentOrchestrator[];
+
+  const create = async (script: ScriptedResponse[], options: { maxAttempts?: number; timeoutMs?: number } = {}) => {
+    const llm = new ScriptedLLM(script);
+    const orchestrator = new AgentOrchestrator({ stateDir: dir, provider: llm, retryDelayMs: 5, ...options });
+    orchestrators.push(orchestrator);
+    await orchestrator.defineWorkflow(REVIEW);
+    return { llm, orchestrator };
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'orchestrator-'));
+    orchestrators = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(orchestrators.map(orchestrator => orchestrator.close()));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should run independent steps in parallel and pass outputs to dependent steps', async () => {
+    const { llm, orchestrator } = await create([
+      { step: 'bugs', response: 'Off-by-one on line 3', delayMs: 20 },
+      { step: 'vulns', response: 'No issues', delayMs: 20 },
+      { step: 'summary', response: 'Reviewed: {{prompt}}' }
+    ]);
+
+    const started = await orchestrator.start('code-review', { file: 'app.ts' });
+    const run = await orchestrator.wait(started.id, 5000);
+
+    expect(run.status).toBe('completed');
+    expect(run.steps.summary.output).toBe('Reviewed: Summarize:\nOff-by-one on line 3\nNo issues');
+    expect(llm.requests.map(request => request.step)).toEqual(['bugs', 'vulns', 'summary']);
+    expect(llm.requests[0]).toMatchObject({ system: 'You find bugs.', messages: [{ role: 'user', content: 'Review app.ts for bugs' }] });
+    // Both reviews were in flight before either finished
+    expect(Date.parse(run.steps.vulns.startedAt!)).toBeLessThan(Date.parse(run.steps.bugs.finishedAt!));
+
+    const saved = JSON.parse(await fs.readFile(join(dir, 'runs', `${run.id}.json`), 'utf-8')) as RunRecord;
+    expect(saved).toMatchObject({ status: 'completed', workflow: REVIEW, input: { file: 'app.ts' } });
+  });
+
+  it('should retry failed attempts, block dependent steps, and continue after retry_step', async () => {
+    const { orchestrator } = await create(
+      [
+        { step: 'bugs', error: 'Rate limited', times: 3 },
+        { step: 'bugs', response: 'Looks fine' },
+        { step: 'vulns', response: 'No issues' },
+        { step: 'summary', response: 'All good' }
+      ],
+      { maxAttempts: 2 }
+    );
+
+    const { id } = await orchestrator.start('code-review', { file: 'app.ts' });
+    let run = await orchestrator.wait(id, 5000);
+    expect(run).toMatchObject({ status: 'failed', error: 'Step bugs failed: Rate limited' });
+    expect(statuses(run)).toEqual({ bugs: 'failed', vulns: 'completed', summary: 'blocked' });
+    expect(run.steps.bugs.attempts).toBe(2);
+
+    await expect(orchestrator.retryStep(id, 'summary')).rejects.toThrow('retry the step it waits on (bugs)');
+
+    // One more scripted failure, then the retry succeeds on its second attempt
+    await orchestrator.retryStep(id, 'bugs');
+    run = await orchestrator.wait(id, 5000);
+    expect(run.status).toBe('completed');
+    expect(run.steps.bugs).toMatchObject({ status: 'completed', attempts: 2, output: 'Looks fine' });
+    expect(run.steps.summary.output).toBe('All good');
+  });
+
+  it('should skip a failed step and give its output to the steps after it', async () => {
+    const { llm, orchestrator } = await create(
+      [
+        { step: 'vulns', error: 'Scanner unavailable' },
+        { step: 'bugs', response: 'Looks fine' },
+        { step: 'summary', response: '{{prompt}}' }
+      ],
+      { maxAttempts: 1 }
+    );
+
+    const { id } = await orchestrator.start('code-review', { file: 'app.ts' });
+    expect((await orchestrator.wait(id, 5000)).status).toBe('failed');
+
+    await orchestrator.skipStep(id, 'vulns', 'Not reviewed');
+    const run = await orchestrator.wait(id, 5000);
+    expect(statuses(run)).toEqual({ bugs: 'completed', vulns: 'skipped', summary: 'completed' });
+    expect(run.status).toBe('completed');
+    expect(llm.requests[llm.requests.length - 1].messages[0].content).toBe('Summarize:\nLooks fine\nNot reviewed');
+  });
+
+  it('should cancel a run, aborting the steps in flight', async () => {
+    const { orchestrator } = await create([{ response: 'done', delayMs: 10000 }]);
+
+    const { id } = await orchestrator.start('code-review', { file: 'app.ts' });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const canceled = await orchestrator.cancel(id);
+    expect(canceled.status).toBe('canceled');
+    expect(statuses(canceled)).toEqual({ bugs: 'canceled', vulns: 'canceled', summary: 'canceled' });
+
+    const run = await orchestrator.wait(id, 5000);
+    expect(run.status).toBe('canceled');
+    await expect(orchestrator.cancel(id)).rejects.toThrow(`Run ${id} is already canceled`);
+  });
+
+  it('should fail an attempt that runs past its time limit', async () => {
+    const { orchestrator } = await create(
+      [
+        { step: 'bugs', response: 'late', delayMs: 10000 },
+        { response: 'ok' }
+      ],
+      { maxAttempts: 1, timeoutMs: 50 }
+    );
+
+    const run = await orchestrator.wait((await orchestrator.start('code-review', { file: 'app.ts' })).id, 5000);
+    expect(run.steps.bugs).toMatchObject({ status: 'failed', error: 'Step bugs timed out after 50ms' });
+  });
+
+  it('should resume an interrupted run from its saved state', async () => {
+    const { orchestrator } = await create([
+      { step: 'bugs', response: 'Looks fine' },
+      { step: 'vulns', response: 'No issues', delayMs: 10000 }
+    ]);
+    const { id } = await orchestrator.start('code-review', { file: 'app.ts' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    // The process stops while vulns is executing
+    await orchestrator.close();
+    const saved = JSON.parse(await fs.readFile(join(dir, 'runs', `${id}.json`), 'utf-8')) as RunRecord;
+    expect(saved.status).toBe('running');
+    expect(statuses(saved)).toEqual({ bugs: 'completed', vulns: 'running', summary: 'pending' });
+
+    const { llm, orchestrator: restarted } = await create([
+      { step: 'vulns', response: 'No issues' },
+      { step: 'summary', response: 'All good' }
+    ]);
+    const [interrupted] = await restarted.listRuns();
+    expect(restarted.isInterrupted(interrupted)).toBe(true);
+
+    expect((await restarted.resume()).map(run => run.id)).toEqual([id]);
+    const run = await restarted.wait(id, 5000);
+    expect(run.status).toBe('completed');
+    expect(run.steps.vulns.attempts).toBe(1);
+    // Completed steps are not asked again
+    expect(llm.requests.map(request => request.step)).toEqual(['vulns', 'summary']);
+  });
+});
@@ -0,0 +1,509 @@
+/**
+ * Runs workflows and keeps their state on disk
+ *
+ * Steps are scheduled like COMPONENTS/workflows/task-queue.ts schedules
+ * tasks: a step starts once its dependencies are done, up to `concurrency`
+ * at a time, and a failed attempt is retried with exponential backoff until
+ * `maxAttempts`. Skipped steps count as done for the steps after them.
+ */
+
+import { randomBytes } from 'crypto';
+import { resolve } from 'path';
+import { ToolError } from '@ai-dev-standards/mcp-server-base';
+import { stepRequest } from './agent.js';
+import { abortReason, CompletionResult, delay, LLMProvider } from './providers/index.js';
+import { OrchestratorStore } from './store.js';
+import { RunRecord, RunStatus, StepDefinition, StepState, StepStatus, TERMINAL_RUN_STATUSES, WorkflowDefinition } from './types.js';
+import { executionOrder, inputNames, validateWorkflow } from './workflow.js';
+
+export interface OrchestratorOptions {
+  /** Holds workflows/ and runs/ */
+  stateDir: string;
+  /** Answers the agents; steps fail until one is set */
+  provider?: LLMProvider;
+  /** Steps of one run executing at once (default: 5) */
+  concurrency?: number;
+  /** Attempts per step (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each one after (default: 1000) */
+  retryDelayMs?: number;
+  /** Time limit per attempt (default: 120000) */
+  timeoutMs?: number;
+}
+
+export type ExecutionSettings = Required<Omit<OrchestratorOptions, 'stateDir' | 'provider'>> & { provider?: LLMProvider };
+
+export interface RunFilter {
+  workflowId?: string;
+  status?: RunStatus;
+  limit?: number;
+}
+
+interface Execution {
+  run: RunRecord;
+  /** Steps executing now */
+  running: Map<string, Promise<void>>;
+  /** Aborted when a step is skipped or the run canceled */
+  controllers: Map<string, AbortController>;
+  /** Re-check which steps can start */
+  wake: () => void;
+  /** Set by close(): leave the run as it is on disk */
+  stopped: boolean;
+  done: Promise<RunRecord>;
+}
+
+const DONE: StepStatus[] = ['completed', 'skipped'];
+const RETRYABLE: StepStatus[] = ['failed', 'canceled', 'skipped'];
+const SKIPPABLE: StepStatus[] = ['pending', 'running', 'failed', 'canceled', 'blocked'];
+
+function newId(): string {
+  return `run-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function reset(state: StepState): void {
+  state.status = 'pending';
+  state.attempts = 0;
+  delete state.output;
+  delete state.error;
+  delete state.startedAt;
+  delete state.finishedAt;
+}
+
+export class AgentOrchestrator {
+  readonly store: OrchestratorStore;
+  private settings: ExecutionSettings;
+  private readonly active = new Map<string, Execution>();
+  private control: Promise<unknown> = Promise.resolve();
+
+  constructor(options: OrchestratorOptions) {
+    this.store = new OrchestratorStore(resolve(options.stateDir));
+    this.settings = {
+      provider: options.provider,
+      concurrency: options.concurrency ?? 5,
+      maxAttempts: options.maxAttempts ?? 3,
+      retryDelayMs: options.retryDelayMs ?? 1000,
+      timeoutMs: options.timeoutMs ?? 120000
+    };
+  }
+
+  /** Change the provider or limits; steps already executing keep theirs until their next attempt */
+  configure(settings: Partial<ExecutionSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  /**
+   * Validate and save a workflow, replacing one with the same id; runs
+   * already started keep the definition they started with
+   */
+  async defineWorkflow(workflow: WorkflowDefinition): Promise<{ workflow: WorkflowDefinition; order: string[][]; inputs: string[] }> {
+    const problems = validateWorkflow(workflow);
+    if (problems.length > 0) {
+      throw new ToolError('invalid_workflow', `Workflow ${workflow.id} is invalid:\n- ${problems.join('\n- ')}`, problems);
+    }
+    await this.store.saveWorkflow(workflow);
+    return { workflow, order: executionOrder(workflow), inputs: inputNames(workflow) };
+  }
+
+  async getWorkflow(id: string): Promise<WorkflowDefinition> {
+    const workflow = await this.store.getWorkflow(id);
+    if (!workflow) throw new ToolError('not_found', `Unknown workflow: ${id}`);
+    return workflow;
+  }
+
+  listWorkflows(): Promise<WorkflowDefinition[]> {
+    return this.store.listWorkflows();
+  }
+
+  /**
+   * Start a run in the background; follow it with getRun() or wait()
+   */
+  start(workflowId: string, input: Record<string, unknown> = {}): Promise<RunRecord> {
+    return this.exclusive(async () => {
+      const workflow = await this.getWorkflow(workflowId);
+      const missing = inputNames(workflow).filter(name => input[name] === undefined);
+      if (missing.length > 0) {
+        throw new ToolError('invalid_arguments', `Missing input for workflow ${workflowId}: ${missing.join(', ')}`, { missing });
+      }
+
+      const now = new Date().toISOString();
+      const run: RunRecord = {
+        id: newId(),
+        workflowId,
+        workflow,
+        input,
+        status: 'running',
+        steps: Object.fromEntries(workflow.steps.map(step => [step.id, { status: 'pending', attempts: 0 }])),
+        pid: process.pid,
+        createdAt: now,
+        updatedAt: now
+      };
+      await this.persist(run);
+      this.launch(run);
+      return structuredClone(run);
+    });
+  }
+
+  async getRun(id: string): Promise<RunRecord> {
+    const execution = this.active.get(id);
+    return structuredClone(execution?.run ?? (await this.stored(id)));
+  }
+
+  /** The run once it finishes, or as it is after ms */
+  async wait(id: string, ms: number): Promise<RunRecord> {
+    const execution = this.active.get(id);
+    if (execution && ms > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([execution.done, new Promise(done => (timer = setTimeout(done, ms)))]);
+      clearTimeout(timer);
+    }
+    return this.getRun(id);
+  }
+
+  /** Runs newest first */
+  async listRuns(filter: RunFilter = {}): Promise<RunRecord[]> {
+    const runs = (await this.store.listRuns())
+      .map(run => structuredClone(this.active.get(run.id)?.run ?? run))
+      .filter(run => (!filter.workflowId || run.workflowId === filter.workflowId) && (!filter.status || run.status === filter.status))
+      .reverse();
+    return filter.limit ? runs.slice(0, filter.limit) : runs;
+  }
+
+  /**
+   * Whether a run was left running by an orchestrator that stopped: it isn't
+   * executing here, and the process that started it is gone
+   */
+  isInterrupted(run: RunRecord): boolean {
+    if (run.status !== 'running' || this.active.has(run.id)) return false;
+    return !run.pid || run.pid === process.pid || !isAlive(run.pid);
+  }
+
+  /**
+   * Run a failed, canceled or skipped step again, continuing the run and
+   * the steps that were waiting on it
+   */
+  retryStep(id: string, stepId: string): Promise<RunRecord> {
+    return this.exclusive(async () => {
+      const execution = this.active.get(id);
+      const run = execution?.run ?? (await this.stored(id));
+      const state = this.step(run, stepId);
+      if (!RETRYABLE.includes(state.status)) {
+        const hint = state.status === 'blocked' ? `; retry the step it waits on (${this.blockers(run, stepId).join(', ')})` : '';
+        throw new ToolError('invalid_state', `Step ${stepId} is ${state.status}; only ${RETRYABLE.join(', ')} steps can be retried${hint}`);
+      }
+      this.assertOwned(run, execution);
+
+      reset(state);
+      this.reopen(run);
+      await this.resumeExecution(run, execution);
+      return structuredClone(run);
+    });
+  }
+
+  /**
+   * Mark a step skipped, optionally with an output for the steps that use
+   * it, and continue the run without it
+   */
+  skipStep(id: string, stepId: string, output?: string): Promise<RunRecord> {
+    return this.exclusive(async () => {
+      const execution = this.active.get(id);
+      const run = execution?.run ?? (await this.stored(id));
+      const state = this.step(run, stepId);
+      if (!SKIPPABLE.includes(state.status)) {
+        throw new ToolError('invalid_state', `Step ${stepId} is ${state.status}; only ${SKIPPABLE.join(', ')} steps can be skipped`);
+      }
+      this.assertOwned(run, execution);
+
+      state.status = 'skipped';
+      if (output !== undefined) state.output = output;
+      else delete state.output;
+      delete state.error;
+      state.finishedAt = new Date().toISOString();
+      execution?.controllers.get(stepId)?.abort(new Error(`Step ${stepId} was skipped`));
+      this.reopen(run);
+      await this.resumeExecution(run, execution);
+      return structuredClone(run);
+    });
+  }
+
+  /** Stop a run: executing steps are aborted and nothing else starts */
+  cancel(id: string): Promise<RunRecord> {
+    return this.exclusive(async () => {
+      const execution = this.active.get(id);
+      const run = execution?.run ?? (await this.stored(id));
+      if (TERMINAL_RUN_STATUSES.includes(run.status)) {
+        throw new ToolError('invalid_state', `Run ${id} is already ${run.status}`);
+      }
+      this.assertOwned(run, execution);
+
+      const now = new Date().toISOString();
+      for (const state of Object.values(run.steps)) {
+        if (state.status === 'running' || state.status === 'pending' || state.status === 'blocked') {
+          state.status = 'canceled';
+          state.finishedAt = now;
+        }
+      }
+      run.status = 'canceled';
+      for (const controller of execution?.controllers.values() ?? []) controller.abort(new Error(`Run ${id} was canceled`));
+      execution?.wake();
+      await this.persist(run);
+      return structuredClone(run);
+    });
+  }
+
+  /**
+   * Continue interrupted runs (all of them without an id): steps that were
+   * executing when the orchestrator stopped start over
+   */
+  resume(id?: string): Promise<RunRecord[]> {
+    return this.exclusive(async () => {
+      let runs: RunRecord[];
+      if (id) {
+        const run = this.active.get(id)?.run ?? (await this.stored(id));
+        if (run.status !== 'running') {
+          throw new ToolError('invalid_state', `Run ${id} is ${run.status}; retry or skip its steps to continue it`);
+        }
+        if (this.active.has(id)) throw new ToolError('invalid_state', `Run ${id} is already executing`);
+        this.assertOwned(run, undefined);
+        runs = [run];
+      } else {
+        runs = (await this.store.listRuns()).filter(run => this.isInterrupted(run));
+      }
+
+      for (const run of runs) await this.resumeExecution(run, undefined);
+      return runs.map(run => structuredClone(run));
+    });
+  }
+
+  /**
+   * Stop executing without changing the runs on disk, as if the process
+   * had exited; resume() continues them
+   */
+  async close(): Promise<void> {
+    const executions = [...this.active.values()];
+    this.active.clear();
+    for (const execution of executions) {
+      execution.stopped = true;
+      for (const controller of execution.controllers.values()) controller.abort(new Error('Orchestrator stopped'));
+      execution.wake();
+    }
+    await Promise.all(executions.map(execution => execution.done));
+  }
+
+  /** Operations that change runs happen one at a time, so two calls can't both start a run */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.control.then(operation);
+    this.control = result.catch(() => undefined);
+    return result;
+  }
+
+  private async stored(id: string): Promise<RunRecord> {
+    const run = await this.store.getRun(id);
+    if (!run) throw new ToolError('not_found', `Unknown run: ${id}`);
+    return run;
+  }
+
+  private step(run: RunRecord, stepId: string): StepState {
+    const state = run.steps[stepId];
+    if (!state) throw new ToolError('not_found', `Run ${run.id} has no step ${stepId}`);
+    return state;
+  }
+
+  /** Failed, canceled or blocked dependencies a step waits on */
+  private blockers(run: RunRecord, stepId: string): string[] {
+    const step = run.workflow.steps.find(candidate => candidate.id === stepId);
+    return (step?.dependsOn ?? []).filter(dependency => !DONE.includes(run.steps[dependency].status));
+  }
+
+  /** A running run that isn't executing here belongs to another live process */
+  private assertOwned(run: RunRecord, execution: Execution | undefined): void {
+    if (run.status === 'running' && !execution && !this.isInterrupted(run)) {
+      throw new ToolError('invalid_state', `Run ${run.id} is executing in process ${run.pid}`);
+    }
+  }
+
+  /** Let waiting steps run again after a retry or skip */
+  private reopen(run: RunRecord): void {
+    for (const state of Object.values(run.steps)) {
+      if (state.status === 'blocked' || state.status === 'canceled') reset(state);
+    }
+    run.status = 'running';
+    delete run.error;
+  }
+
+  /**
+   * Wake the execution of a run, or start one; steps an interrupted run
+   * was executing start over
+   */
+  private async resumeExecution(run: RunRecord, execution: Execution | undefined): Promise<void> {
+    if (execution) {
+      execution.wake();
+      await this.persist(run);
+      return;
+    }
+    for (const state of Object.values(run.steps)) {
+      if (state.status !== 'running') continue;
+      state.status = 'pending';
+      state.attempts = Math.max(0, state.attempts - 1);
+    }
+    run.pid = process.pid;
+    await this.persist(run);
+    this.launch(run);
+  }
+
+  private launch(run: RunRecord): void {
+    const execution: Execution = {
+      run,
+      running: new Map(),
+      controllers: new Map(),
+      wake: () => undefined,
+      stopped: false,
+      done: Promise.resolve(run)
+    };
+    this.active.set(run.id, execution);
+    execution.done = this.execute(execution).catch(async error => {
+      // The state directory became unwritable, or a bug: don't leave the run looking alive
+      if (this.active.get(run.id) === execution) this.active.delete(run.id);
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      await this.persist(run).catch(() => undefined);
+      return run;
+    });
+  }
+
+  private async execute(execution: Execution): Promise<RunRecord> {
+    const { run } = execution;
+    for (;;) {
+      if (execution.stopped) return run;
+      if (run.status !== 'running') break;
+
+      for (const step of run.workflow.steps) {
+        if (execution.running.size >= this.settings.concurrency) break;
+        if (!this.ready(run, step)) continue;
+        // A retried step can start again before its skipped attempt has unwound
+        const running: Promise<void> = this.runStep(execution, step).finally(() => {
+          if (execution.running.get(step.id) === running) execution.running.delete(step.id);
+        });
+        execution.running.set(step.id, running);
+      }
+      if (execution.running.size === 0) break;
+
+      const woken = new Promise<void>(done => (execution.wake = done));
+      await Promise.race([woken, ...execution.running.values()]);
+    }
+
+    // Finish before the next await, so a retry or skip either sees this
+    // execution still active or the run already finished
+    this.active.delete(run.id);
+    this.finish(run);
+    await this.persist(run);
+    return run;
+  }
+
+  private ready(run: RunRecord, step: StepDefinition): boolean {
+    return (
+      run.steps[step.id].status === 'pending' &&
+      (step.dependsOn ?? []).every(dependency => DONE.includes(run.steps[dependency].status))
+    );
+  }
+
+  private async runStep(execution: Execution, step: StepDefinition): Promise<void> {
+    const { run } = execution;
+    const state = run.steps[step.id];
+    const controller = new AbortController();
+    execution.controllers.set(step.id, controller);
+    state.status = 'running';
+    state.startedAt = new Date().toISOString();
+    delete state.finishedAt;
+
+    try {
+      for (;;) {
+        state.attempts++;
+        await this.persist(run);
+        try {
+          const result = await this.attempt(run, step, controller.signal);
+          // Skipped, canceled or stopped while the agent was answering
+          if (controller.signal.aborted) return;
+          state.status = 'completed';
+          state.output = result.content;
+          state.tokensUsed = (state.tokensUsed ?? 0) + result.tokensUsed;
+          delete state.error;
+          state.finishedAt = new Date().toISOString();
+          await this.persist(run);
+          return;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          state.error = error instanceof Error ? error.message : String(error);
+          if (state.attempts >= (step.maxAttempts ?? this.settings.maxAttempts)) {
+            state.status = 'failed';
+            state.finishedAt = new Date().toISOString();
+            await this.persist(run);
+            return;
+          }
+          await this.persist(run);
+          await delay(this.settings.retryDelayMs * Math.pow(2, state.attempts - 1), controller.signal).catch(() => undefined);
+          if (controller.signal.aborted) return;
+        }
+      }
+    } finally {
+      if (execution.controllers.get(step.id) === controller) execution.controllers.delete(step.id);
+    }
+  }
+
+  /** One call to the agent, aborted on timeout or when the step is aborted */
+  private async attempt(run: RunRecord, step: StepDefinition, signal: AbortSignal): Promise<CompletionResult> {
+    const outputs: Record<string, string> = {};
+    for (const [id, state] of Object.entries(run.steps)) {
+      if (state.output !== undefined) outputs[id] = state.output;
+    }
+    const request = stepRequest(run.workflow, step, run.input, outputs);
+    const { provider } = this.settings;
+    if (!provider) throw new Error('No LLM provider configured');
+
+    const timeoutMs = step.timeoutMs ?? this.settings.timeoutMs;
+    const attempt = new AbortController();
+    const onAbort = () => attempt.abort(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    const timer = setTimeout(() => attempt.abort(new Error(`Step ${step.id} timed out after ${timeoutMs}ms`)), timeoutMs);
+    const aborted = new Promise<never>((_, reject) =>
+      attempt.signal.addEventListener('abort', () => reject(abortReason(attempt.signal)), { once: true })
+    );
+    aborted.catch(() => undefined);
+
+    try {
+      // Providers that ignore the signal still stop being waited for
+      return await Promise.race([provider.complete({ ...request, signal: attempt.signal }), aborted]);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private finish(run: RunRecord): void {
+    if (run.status === 'canceled') return;
+    const states = Object.values(run.steps);
+    if (states.every(state => DONE.includes(state.status))) {
+      run.status = 'completed';
+      delete run.error;
+      return;
+    }
+
+    for (const state of states) if (state.status === 'pending') state.status = 'blocked';
+    run.status = 'failed';
+    const failed = run.workflow.steps.find(step => run.steps[step.id].status === 'failed');
+    run.error = failed ? `Step ${failed.id} failed: ${run.steps[failed.id].error}` : 'No step can run';
+  }
+
+  private persist(run: RunRecord): Promise<void> {
+    run.updatedAt = new Date().toISOString();
+    return this.store.saveRun(run);
+  }
+}
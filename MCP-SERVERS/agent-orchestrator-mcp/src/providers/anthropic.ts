@@ -0,0 +1,51 @@
+/**
+ * Anthropic Messages API
+ */
+
+import { CompletionRequest, CompletionResult, LLMProvider } from './interface.js';
+
+interface MessagesResponse {
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly defaultModel?: string,
+    private readonly baseUrl: string = 'https://api.anthropic.com'
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model ?? this.defaultModel;
+    if (!model) throw new Error(`No model set for agent ${request.agent}`);
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model,
+        system: request.system,
+        messages: request.messages,
+        max_tokens: request.maxTokens ?? 2000,
+        ...(request.temperature !== undefined && { temperature: request.temperature })
+      }),
+      signal: request.signal
+    });
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as MessagesResponse;
+    return {
+      content: body.content.map(block => block.text ?? '').join(''),
+      tokensUsed: (body.usage?.input_tokens ?? 0) + (body.usage?.output_tokens ?? 0)
+    };
+  }
+}
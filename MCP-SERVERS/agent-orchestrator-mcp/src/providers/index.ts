@@ -0,0 +1,50 @@
+/**
+ * LLM provider selection
+ */
+
+import { AnthropicProvider } from './anthropic.js';
+import { LLMProvider } from './interface.js';
+import { OpenAIProvider } from './openai.js';
+import { ScriptedLLM, ScriptedResponse } from './scripted.js';
+
+export { AnthropicProvider } from './anthropic.js';
+export { abortReason, ChatMessage, CompletionRequest, CompletionResult, delay, LLMProvider } from './interface.js';
+export { OpenAIProvider } from './openai.js';
+export { ScriptedLLM, ScriptedResponse } from './scripted.js';
+
+export type ProviderName = 'anthropic' | 'openai' | 'scripted';
+
+export const PROVIDERS: ProviderName[] = ['anthropic', 'openai', 'scripted'];
+
+export interface ProviderOptions {
+  provider: ProviderName;
+  /** Model for agents that don't set one */
+  model?: string;
+  /** anthropic and openai: API base URL */
+  baseUrl?: string;
+  /** scripted: the responses */
+  script?: ScriptedResponse[];
+}
+
+/**
+ * Provider for the options; Anthropic and OpenAI read ANTHROPIC_API_KEY and
+ * OPENAI_API_KEY
+ */
+export function createProvider(options: ProviderOptions): LLMProvider {
+  switch (options.provider) {
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) throw new Error('ANTHROPIC_API_KEY is not set');
+      return new AnthropicProvider(apiKey, options.model, options.baseUrl);
+    }
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new Error('OPENAI_API_KEY is not set');
+      return new OpenAIProvider(apiKey, options.model, options.baseUrl);
+    }
+    case 'scripted':
+      return new ScriptedLLM(options.script ?? []);
+    default:
+      throw new Error(`Unknown provider: ${String(options.provider)} (expected ${PROVIDERS.join(', ')})`);
+  }
+}
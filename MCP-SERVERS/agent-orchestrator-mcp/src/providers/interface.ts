@@ -0,0 +1,56 @@
+/**
+ * Common interface for LLM providers
+ */
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  model?: string;
+  /** The agent's role prompt */
+  system: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Aborted when the step times out, is skipped or the run is canceled */
+  signal?: AbortSignal;
+  /** Where the request comes from, for providers that answer by step */
+  workflow: string;
+  step: string;
+  agent: string;
+}
+
+export interface CompletionResult {
+  content: string;
+  tokensUsed: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * Wait ms, rejecting early with the signal's reason when it aborts
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Aborted');
+}
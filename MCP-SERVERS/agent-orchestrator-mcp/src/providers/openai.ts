@@ -0,0 +1,46 @@
+/**
+ * OpenAI-compatible chat completions endpoint (OpenAI, Azure OpenAI, Ollama, LM Studio...)
+ */
+
+import { CompletionRequest, CompletionResult, LLMProvider } from './interface.js';
+
+interface ChatCompletionResponse {
+  choices: Array<{ message: { content: string | null } }>;
+  usage?: { total_tokens: number };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly defaultModel?: string,
+    private readonly baseUrl: string = 'https://api.openai.com/v1'
+  ) {}
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const model = request.model ?? this.defaultModel;
+    if (!model) throw new Error(`No model set for agent ${request.agent}`);
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'system', content: request.system }, ...request.messages],
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens })
+      }),
+      signal: request.signal
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as ChatCompletionResponse;
+    return { content: body.choices[0]?.message.content ?? '', tokensUsed: body.usage?.total_tokens ?? 0 };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Scripted LLM for running workflows offline
+ *
+ * Answers each request with the first rule that matches its step, agent
+ * and prompt. A rule with `times` answers that many requests and is then
+ * used up, so a script can fail a step twice before it succeeds.
+ */
+
+import { CompletionRequest, CompletionResult, delay, LLMProvider } from './interface.js';
+
+export interface ScriptedResponse {
+  /** Only answer this step */
+  step?: string;
+  /** Only answer steps of this agent */
+  agent?: string;
+  /** Regular expression the prompt must match */
+  match?: string;
+  /** Reply text; {{prompt}} is replaced by the prompt */
+  response?: string;
+  /** Fail the request with this message instead of replying */
+  error?: string;
+  /** Wait before answering */
+  delayMs?: number;
+  /** Answer this many requests, then stop matching (default: unlimited) */
+  times?: number;
+}
+
+/** Rough token count: four characters per token */
+function tokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class ScriptedLLM implements LLMProvider {
+  readonly name = 'scripted';
+  /** Every request received, in order */
+  readonly requests: CompletionRequest[] = [];
+  private readonly used: number[];
+
+  constructor(private readonly script: ScriptedResponse[]) {
+    this.used = script.map(() => 0);
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    this.requests.push(request);
+    const prompt = request.messages.map(message => message.content).join('\n\n');
+    const index = this.script.findIndex(
+      (rule, i) =>
+        (rule.times === undefined || this.used[i] < rule.times) &&
+        (rule.step === undefined || rule.step === request.step) &&
+        (rule.agent === undefined || rule.agent === request.agent) &&
+        (rule.match === undefined || new RegExp(rule.match).test(prompt))
+    );
+    if (index === -1) {
+      throw new Error(`No scripted response for step ${request.step} (agent ${request.agent})`);
+    }
+
+    const rule = this.script[index];
+    this.used[index]++;
+    if (rule.delayMs) await delay(rule.delayMs, request.signal);
+    if (rule.error !== undefined) throw new Error(rule.error);
+
+    const content = (rule.response ?? '').split('{{prompt}}').join(prompt);
+    return { content, tokensUsed: tokens(request.system) + tokens(prompt) + tokens(content) };
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestClient } from '@ai-dev-standards/mcp-server-base';
+import { AgentOrchestratorServer } from './server.js';
+
+const WORKFLOW = {
+  id: 'release-notes',
+  agents: {
+    historian: { role: 'You read git history.' },
+    writer: { role: 'You write release notes.' }
+  },
+  steps: [
+    { id: 'changes', agent: 'historian', prompt: 'List the changes since {{input.tag}}' },
+    { id: 'notes', agent: 'writer', prompt: 'Write release notes from:\n{{steps.changes.output}}', dependsOn: ['changes'] }
+  ]
+};
+
+interface RunView {
+  id: string;
+  status: string;
+  error?: string;
+  tokensUsed: number;
+  steps: Array<{ id: string; status: string; attempts: number; output?: string; error?: string }>;
+}
+
+describe('AgentOrchestratorServer', () => {
+  let dir: string;
+  let server: AgentOrchestratorServer;
+  let client: TestClient;
+
+  const configure = async (settings: Record<string, unknown>) => {
+    await client.callTool('configure', { projectPath: dir, provider: 'scripted', retryDelayMs: 5, ...settings });
+    await new Promise(resolve => setTimeout(resolve, 50));
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'agent-orchestrator-'));
+    server = new AgentOrchestratorServer();
+    client = await TestClient.connect(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should define a workflow and run it to completion', async () => {
+    await configure({
+      script: [
+        { step: 'changes', response: '- Add dark mode' },
+        { agent: 'writer', response: '## v2.0\n{{prompt}}' }
+      ]
+    });
+
+    const defined = await client.callTool<{ order: string[][]; inputs: string[] }>('define_workflow', { workflow: WORKFLOW });
+    expect(defined.data).toMatchObject({ order: [['changes'], ['notes']], inputs: ['tag'] });
+
+    const run = await client.callTool<RunView>('run_workflow', { workflowId: 'release-notes', input: { tag: 'v1.0' }, wait: 5 });
+    expect(run.data.status).toBe('completed');
+    expect(run.data.steps.map(step => [step.id, step.status, step.output])).toEqual([
+      ['changes', 'completed', '- Add dark mode'],
+      ['notes', 'completed', '## v2.0\nWrite release notes from:\n- Add dark mode']
+    ]);
+    expect(run.data.tokensUsed).toBeGreaterThan(0);
+
+    const listed = await client.callTool<{ runs: Array<{ id: string; steps: Record<string, number> }> }>('list_runs');
+    expect(listed.data.runs).toEqual([expect.objectContaining({ id: run.data.id, status: 'completed', steps: { completed: 2 } })]);
+    expect(await fs.readdir(join(dir, '.ai-dev/orchestrator/runs'))).toEqual([`${run.data.id}.json`]);
+  });
+
+  it('should reject invalid workflows and missing inputs', async () => {
+    await configure({ script: [] });
+    const invalid = await client.callTool('define_workflow', {
+      workflow: { ...WORKFLOW, steps: [{ ...WORKFLOW.steps[1], dependsOn: [] }] }
+    });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.text).toContain('invalid_workflow');
+    expect(invalid.text).toContain('Step notes uses the output of unknown step changes');
+
+    await client.callTool('define_workflow', { workflow: WORKFLOW });
+    const missing = await client.callTool('run_workflow', { workflowId: 'release-notes' });
+    expect(missing.isError).toBe(true);
+    expect(missing.text).toContain('Missing input for workflow release-notes: tag');
+  });
+
+  it('should retry and skip failed steps, and cancel runs', async () => {
+    await configure({
+      maxAttempts: 1,
+      script: [
+        { step: 'changes', error: 'git not found', times: 1 },
+        { step: 'changes', response: '- Fix login' },
+        { step: 'notes', error: 'Model overloaded' }
+      ]
+    });
+    await client.callTool('define_workflow', { workflow: WORKFLOW });
+
+    const failed = await client.callTool<RunView>('run_workflow', { workflowId: 'release-notes', input: { tag: 'v1.0' }, wait: 5 });
+    expect(failed.data).toMatchObject({ status: 'failed', error: 'Step changes failed: git not found' });
+    expect(failed.data.steps.map(step => step.status)).toEqual(['failed', 'blocked']);
+
+    const retried = await client.callTool<RunView>('retry_step', { runId: failed.data.id, stepId: 'changes', wait: 5 });
+    expect(retried.data.steps.map(step => [step.status, step.error])).toEqual([
+      ['completed', undefined],
+      ['failed', 'Model overloaded']
+    ]);
+
+    const skipped = await client.callTool<RunView>('skip_step', { runId: failed.data.id, stepId: 'notes', wait: 5 });
+    expect(skipped.data.status).toBe('completed');
+
+    const canceled = await client.callTool('cancel_run', { runId: failed.data.id });
+    expect(canceled.isError).toBe(true);
+    expect(canceled.text).toContain(`Run ${failed.data.id} is already completed`);
+  });
+
+  it('should read the script from a file and resume interrupted runs', async () => {
+    await fs.writeFile(
+      join(dir, 'script.json'),
+      JSON.stringify([
+        { step: 'changes', response: '- Add search' },
+        { step: 'notes', response: 'Notes' }
+      ])
+    );
+    await configure({ scriptFile: 'script.json' });
+    await client.callTool('define_workflow', { workflow: WORKFLOW });
+
+    // A run saved by an orchestrator process that has since exited
+    const now = new Date().toISOString();
+    await fs.mkdir(join(dir, '.ai-dev/orchestrator/runs'), { recursive: true });
+    await fs.writeFile(
+      join(dir, '.ai-dev/orchestrator/runs/run-crashed.json'),
+      JSON.stringify({
+        id: 'run-crashed',
+        workflowId: 'release-notes',
+        workflow: WORKFLOW,
+        input: { tag: 'v1.0' },
+        status: 'running',
+        steps: { changes: { status: 'running', attempts: 1, startedAt: now }, notes: { status: 'pending', attempts: 0 } },
+        pid: 2 ** 22 + 1,
+        createdAt: now,
+        updatedAt: now
+      })
+    );
+
+    const listed = await client.callTool<{ runs: Array<{ interrupted?: boolean }> }>('list_runs');
+    expect(listed.data.runs).toEqual([expect.objectContaining({ id: 'run-crashed', interrupted: true })]);
+
+    const resumed = await client.callTool('resume_run', {});
+    expect(resumed.data).toEqual({ resumed: ['run-crashed'] });
+    const run = await client.callTool<RunView>('get_run', { runId: 'run-crashed', wait: 5 });
+    expect(run.data.status).toBe('completed');
+    expect(run.data.steps.map(step => [step.attempts, step.output])).toEqual([
+      [1, '- Add search'],
+      [1, 'Notes']
+    ]);
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Agent Orchestrator MCP server
+ */
+
+import { promises as fs } from 'fs';
+import { resolve } from 'path';
+import { BaseMCPServer, JsonSchema, ToolContext, ToolError, z } from '@ai-dev-standards/mcp-server-base';
+import { AgentOrchestrator } from './orchestrator.js';
+import { createProvider, ProviderName, PROVIDERS, ScriptedResponse } from './providers/index.js';
+import { RunRecord, StepStatus } from './types.js';
+
+export const DEFAULT_STATE_DIR = '.ai-dev/orchestrator';
+
+interface Settings {
+  provider: ProviderName;
+  model?: string;
+  baseUrl?: string;
+  script?: ScriptedResponse[];
+  scriptFile?: string;
+  stateDir: string;
+  concurrency: number;
+  maxAttempts: number;
+  retryDelayMs: number;
+  timeoutMs: number;
+}
+
+const scriptedResponse: JsonSchema = {
+  type: 'object',
+  properties: {
+    step: { type: 'string' },
+    agent: { type: 'string' },
+    match: { type: 'string', description: 'Regular expression the prompt must match' },
+    response: { type: 'string', description: 'Reply; {{prompt}} is replaced by the prompt' },
+    error: { type: 'string', description: 'Fail the call with this message' },
+    delayMs: { type: 'number' },
+    times: { type: 'number', description: 'Answer this many calls, then stop matching' }
+  }
+};
+
+const workflowSchema = z.object({
+  id: z.string().min(1).describe('Letters, digits, ".", "_" or "-"'),
+  description: z.string().optional(),
+  agents: z
+    .record(
+      z.object({
+        role: z.string().min(1).describe("System prompt describing the agent's role"),
+        model: z.string().optional().describe('Model for this agent (default: the configured model)'),
+        temperature: z.number().min(0).max(2).optional(),
+        maxTokens: z.number().int().positive().optional()
+      })
+    )
+    .describe('Agents by id'),
+  steps: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        agent: z.string().describe('Id of the agent that performs the step'),
+        prompt: z.string().min(1).describe('Task for the agent; may use {{input.<name>}} and {{steps.<id>.output}}'),
+        dependsOn: z.array(z.string()).optional().describe('Steps that must complete or be skipped first'),
+        maxAttempts: z.number().int().min(1).optional(),
+        timeoutMs: z.number().int().positive().optional()
+      })
+    )
+    .min(1)
+});
+
+const runId = z.string().describe('Run id from run_workflow or list_runs');
+const wait = z.number().min(0).max(600).default(0).describe('Seconds to wait for the run to finish before returning');
+
+export class AgentOrchestratorServer extends BaseMCPServer {
+  /** One orchestrator per state directory, so runs keep executing between calls */
+  private readonly orchestrators = new Map<string, { orchestrator: AgentOrchestrator; provider?: string }>();
+
+  constructor() {
+    super('agent-orchestrator-mcp', '1.0.0');
+
+    this.addConfigureTool({
+      settings: {
+        provider: {
+          type: 'string',
+          enum: PROVIDERS,
+          description:
+            'LLM behind the agents: anthropic (ANTHROPIC_API_KEY), openai or a compatible endpoint (OPENAI_API_KEY), or scripted for offline runs (default: anthropic)'
+        },
+        model: { type: 'string', description: "Model for agents that don't set one" },
+        baseUrl: { type: 'string', description: 'API base URL for anthropic or openai' },
+        script: {
+          type: 'array',
+          items: scriptedResponse,
+          description: 'scripted: responses, the first matching rule answers each call'
+        },
+        scriptFile: { type: 'string', description: 'scripted: JSON file with the responses, relative to the project' },
+        stateDir: {
+          type: 'string',
+          description: `Where workflows and runs are saved, relative to the project (default: ${DEFAULT_STATE_DIR})`
+        },
+        concurrency: { type: 'number', minimum: 1, description: 'Steps of a run executing at once (default: 5)' },
+        maxAttempts: { type: 'number', minimum: 1, description: 'Attempts per step before it fails (default: 3)' },
+        retryDelayMs: {
+          type: 'number',
+          minimum: 0,
+          description: 'Delay before the first retry of an attempt, doubled after each (default: 1000)'
+        },
+        timeoutMs: { type: 'number', minimum: 1, description: 'Time limit per attempt (default: 120000)' }
+      }
+    });
+
+    this.addTool({
+      name: 'define_workflow',
+      description:
+        'Save a workflow: agents with role prompts, and steps assigned to them that form a dependency graph. Returns the order steps run in and the inputs the prompts use',
+      inputSchema: z.object({ projectPath: z.string().optional(), workflow: workflowSchema }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context);
+        return orchestrator.defineWorkflow(args.workflow);
+      }
+    });
+
+    this.addTool({
+      name: 'list_workflows',
+      description: 'Saved workflows with their agents and steps',
+      inputSchema: z.object({ projectPath: z.string().optional() }),
+      handler: async (_args, context) => {
+        const orchestrator = await this.orchestrator(context);
+        return {
+          workflows: (await orchestrator.listWorkflows()).map(workflow => ({
+            id: workflow.id,
+            ...(workflow.description && { description: workflow.description }),
+            agents: Object.keys(workflow.agents),
+            steps: workflow.steps.map(step => ({ id: step.id, agent: step.agent, dependsOn: step.dependsOn ?? [] }))
+          }))
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'run_workflow',
+      description: 'Start a run of a workflow with its inputs. Steps execute in the background; follow the run with get_run',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        workflowId: z.string(),
+        input: z.record(z.unknown()).optional().describe('Values for the {{input.<name>}} placeholders'),
+        wait
+      }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context, true);
+        const run = await orchestrator.start(args.workflowId, args.input ?? {});
+        return this.view(orchestrator, await orchestrator.wait(run.id, (args.wait ?? 0) * 1000));
+      }
+    });
+
+    this.addTool({
+      name: 'get_run',
+      description: "A run's status and each step's status, attempts, output and error",
+      inputSchema: z.object({ projectPath: z.string().optional(), runId, wait }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context);
+        return this.view(orchestrator, await orchestrator.wait(args.runId, (args.wait ?? 0) * 1000));
+      }
+    });
+
+    this.addTool({
+      name: 'list_runs',
+      description: 'Runs newest first, with step counts by status; interrupted runs can be continued with resume_run',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        workflowId: z.string().optional(),
+        status: z.enum(['running', 'completed', 'failed', 'canceled']).optional(),
+        limit: z.number().int().positive().default(20)
+      }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context);
+        const runs = await orchestrator.listRuns({ workflowId: args.workflowId, status: args.status, limit: args.limit ?? 20 });
+        return {
+          runs: runs.map(run => {
+            const steps: Partial<Record<StepStatus, number>> = {};
+            for (const state of Object.values(run.steps)) steps[state.status] = (steps[state.status] ?? 0) + 1;
+            return {
+              id: run.id,
+              workflowId: run.workflowId,
+              status: run.status,
+              ...(orchestrator.isInterrupted(run) && { interrupted: true }),
+              steps,
+              createdAt: run.createdAt,
+              updatedAt: run.updatedAt
+            };
+          })
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'retry_step',
+      description:
+        'Run a failed, canceled or skipped step again with fresh attempts. Steps waiting on it run afterwards, continuing a failed or canceled run',
+      inputSchema: z.object({ projectPath: z.string().optional(), runId, stepId: z.string(), wait }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context, true);
+        await orchestrator.retryStep(args.runId, args.stepId);
+        return this.view(orchestrator, await orchestrator.wait(args.runId, (args.wait ?? 0) * 1000));
+      }
+    });
+
+    this.addTool({
+      name: 'skip_step',
+      description:
+        'Skip a step that has not completed, aborting it if it is executing. Steps waiting on it run next and see `output` as its output',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        runId,
+        stepId: z.string(),
+        output: z.string().optional().describe('Output to use in place of the step\'s (default: none)'),
+        wait
+      }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context, true);
+        await orchestrator.skipStep(args.runId, args.stepId, args.output);
+        return this.view(orchestrator, await orchestrator.wait(args.runId, (args.wait ?? 0) * 1000));
+      }
+    });
+
+    this.addTool({
+      name: 'cancel_run',
+      description: 'Cancel a run: executing steps are aborted and no other step starts',
+      inputSchema: z.object({ projectPath: z.string().optional(), runId }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context);
+        return this.view(orchestrator, await orchestrator.cancel(args.runId));
+      }
+    });
+
+    this.addTool({
+      name: 'resume_run',
+      description:
+        'Continue runs left running by an orchestrator that stopped or crashed (all of them without runId); steps that were executing start over',
+      inputSchema: z.object({ projectPath: z.string().optional(), runId: runId.optional() }),
+      handler: async (args, context) => {
+        const orchestrator = await this.orchestrator(context, true);
+        const runs = await orchestrator.resume(args.runId);
+        return { resumed: runs.map(run => run.id) };
+      }
+    });
+  }
+
+  /** Runs stop executing; their state on disk lets resume_run continue them */
+  async stop(): Promise<void> {
+    await Promise.all([...this.orchestrators.values()].map(({ orchestrator }) => orchestrator.close()));
+    await super.stop();
+  }
+
+  private root(context: ToolContext): string {
+    return resolve(this.requireProject(context));
+  }
+
+  private async settings(context: ToolContext, root: string): Promise<Settings> {
+    const settings = context.settings as Partial<Settings>;
+    const provider = settings.provider ?? 'anthropic';
+    if (!PROVIDERS.includes(provider)) {
+      throw new ToolError('invalid_settings', `Unknown provider: ${provider} (expected ${PROVIDERS.join(', ')})`);
+    }
+
+    let script = settings.script;
+    if (provider === 'scripted' && settings.scriptFile) {
+      const file = resolve(root, settings.scriptFile);
+      const content = await fs.readFile(file, 'utf-8').catch(() => null);
+      if (content === null) throw new ToolError('not_found', `Script file not found: ${settings.scriptFile}`);
+      try {
+        script = JSON.parse(content) as ScriptedResponse[];
+      } catch {
+        throw new ToolError('invalid_settings', `Script file is not valid JSON: ${settings.scriptFile}`);
+      }
+      if (!Array.isArray(script)) throw new ToolError('invalid_settings', `Script file must hold an array of responses: ${settings.scriptFile}`);
+    }
+
+    return {
+      provider,
+      model: settings.model,
+      baseUrl: settings.baseUrl,
+      script,
+      stateDir: settings.stateDir ?? DEFAULT_STATE_DIR,
+      concurrency: settings.concurrency ?? 5,
+      maxAttempts: settings.maxAttempts ?? 3,
+      retryDelayMs: settings.retryDelayMs ?? 1000,
+      timeoutMs: settings.timeoutMs ?? 120000
+    };
+  }
+
+  /**
+   * The project's orchestrator with the current settings; tools that execute
+   * steps also need a working provider. A provider is kept while its settings
+   * don't change, so a scripted one remembers which responses were used.
+   */
+  private async orchestrator(context: ToolContext, execute = false): Promise<AgentOrchestrator> {
+    const root = this.root(context);
+    const settings = await this.settings(context, root);
+    const stateDir = resolve(root, settings.stateDir);
+
+    let entry = this.orchestrators.get(stateDir);
+    if (!entry) {
+      entry = { orchestrator: new AgentOrchestrator({ stateDir }) };
+      this.orchestrators.set(stateDir, entry);
+    }
+    const { concurrency, maxAttempts, retryDelayMs, timeoutMs } = settings;
+    entry.orchestrator.configure({ concurrency, maxAttempts, retryDelayMs, timeoutMs });
+
+    const key = JSON.stringify([settings.provider, settings.model, settings.baseUrl, settings.script]);
+    if (execute && entry.provider !== key) {
+      try {
+        const provider = createProvider({
+          provider: settings.provider,
+          model: settings.model,
+          baseUrl: settings.baseUrl,
+          script: settings.script
+        });
+        entry.orchestrator.configure({ provider });
+      } catch (error) {
+        throw new ToolError('not_configured', (error as Error).message);
+      }
+      entry.provider = key;
+    }
+    return entry.orchestrator;
+  }
+
+  private view(orchestrator: AgentOrchestrator, run: RunRecord) {
+    return {
+      id: run.id,
+      workflowId: run.workflowId,
+      status: run.status,
+      ...(orchestrator.isInterrupted(run) && { interrupted: true }),
+      ...(run.error && { error: run.error }),
+      input: run.input,
+      tokensUsed: Object.values(run.steps).reduce((total, state) => total + (state.tokensUsed ?? 0), 0),
+      steps: run.workflow.steps.map(step => ({
+        id: step.id,
+        agent: step.agent,
+        ...(step.dependsOn?.length && { dependsOn: step.dependsOn }),
+        ...run.steps[step.id]
+      })),
+      createdAt: run.createdAt,
+      updatedAt: run.updatedAt
+    };
+  }
+}
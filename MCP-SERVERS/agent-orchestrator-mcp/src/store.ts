@@ -0,0 +1,88 @@
+/**
+ * Workflows and runs as JSON files
+ *
+ * Each workflow is `workflows/<id>.json` and each run `runs/<id>.json` under
+ * the state directory. A run is written on every step change, so an
+ * orchestrator that dies mid-run can pick it up where it stopped.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { RunRecord, WorkflowDefinition } from './types.js';
+
+export class OrchestratorStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly dir: string) {}
+
+  workflowFile(id: string): string {
+    return join(this.dir, 'workflows', `${id}.json`);
+  }
+
+  runFile(id: string): string {
+    return join(this.dir, 'runs', `${id}.json`);
+  }
+
+  async getWorkflow(id: string): Promise<WorkflowDefinition | undefined> {
+    return this.read<WorkflowDefinition>(this.workflowFile(id));
+  }
+
+  /** Workflows by id */
+  async listWorkflows(): Promise<WorkflowDefinition[]> {
+    return this.readAll<WorkflowDefinition>(join(this.dir, 'workflows'));
+  }
+
+  saveWorkflow(workflow: WorkflowDefinition): Promise<void> {
+    return this.write(this.workflowFile(workflow.id), workflow);
+  }
+
+  async getRun(id: string): Promise<RunRecord | undefined> {
+    return this.read<RunRecord>(this.runFile(id));
+  }
+
+  /** Runs, oldest first */
+  async listRuns(): Promise<RunRecord[]> {
+    const runs = await this.readAll<RunRecord>(join(this.dir, 'runs'));
+    return runs.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id));
+  }
+
+  /** Write a snapshot of the run as it is now; later changes to it are not included */
+  saveRun(run: RunRecord): Promise<void> {
+    return this.write(this.runFile(run.id), run);
+  }
+
+  /** Reads wait for queued writes, so they see every earlier save */
+  private async read<T>(file: string): Promise<T | undefined> {
+    await this.writes;
+    const content = await fs.readFile(file, 'utf-8').catch(() => null);
+    if (content === null) return undefined;
+    try {
+      return JSON.parse(content) as T;
+    } catch {
+      throw new Error(`Orchestrator state is not valid JSON: ${file}`);
+    }
+  }
+
+  private async readAll<T>(dir: string): Promise<T[]> {
+    await this.writes;
+    const names = await fs.readdir(dir).catch(() => [] as string[]);
+    const items: T[] = [];
+    for (const name of names.filter(name => name.endsWith('.json')).sort()) {
+      const item = await this.read<T>(join(dir, name));
+      if (item) items.push(item);
+    }
+    return items;
+  }
+
+  private write(file: string, value: unknown): Promise<void> {
+    const content = JSON.stringify(value, null, 2) + '\n';
+    const write = this.writes.then(async () => {
+      await fs.mkdir(dirname(file), { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, content);
+      await fs.rename(temp, file);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Shared types for agent-orchestrator-mcp
+ */
+
+/** An agent role that steps are assigned to */
+export interface AgentDefinition {
+  /** System prompt describing the agent's role */
+  role: string;
+  /** Model for this agent (default: the configured model) */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface StepDefinition {
+  id: string;
+  /** Key of the agent in the workflow's agents */
+  agent: string;
+  /** Task for the agent; may use {{input.<name>}} and {{steps.<id>.output}} */
+  prompt: string;
+  /** Steps that must complete (or be skipped) first */
+  dependsOn?: string[];
+  /** Attempts before the step fails (default: the configured maxAttempts) */
+  maxAttempts?: number;
+  /** Time limit per attempt (default: the configured timeoutMs) */
+  timeoutMs?: number;
+}
+
+/** A multi-agent workflow: agent steps forming a directed acyclic graph */
+export interface WorkflowDefinition {
+  id: string;
+  description?: string;
+  agents: Record<string, AgentDefinition>;
+  steps: StepDefinition[];
+}
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'canceled';
+
+/**
+ * Lifecycle of a step: `blocked` steps wait on a dependency that failed or
+ * was canceled, and run again once it is retried or skipped
+ */
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'canceled' | 'blocked';
+
+export const TERMINAL_RUN_STATUSES: RunStatus[] = ['completed', 'failed', 'canceled'];
+
+export interface StepState {
+  status: StepStatus;
+  /** Attempts made since the step last started or was retried */
+  attempts: number;
+  output?: string;
+  error?: string;
+  tokensUsed?: number;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface RunRecord {
+  id: string;
+  workflowId: string;
+  /** The workflow as it was when the run started; redefining it doesn't change the run */
+  workflow: WorkflowDefinition;
+  input: Record<string, unknown>;
+  status: RunStatus;
+  steps: Record<string, StepState>;
+  /** Process executing the run, used to tell interrupted runs from live ones */
+  pid?: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
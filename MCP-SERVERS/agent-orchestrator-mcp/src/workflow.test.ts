@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { buildPrompt, stepRequest } from './agent.js';
+import { WorkflowDefinition } from './types.js';
+import { executionOrder, inputNames, renderPrompt, validateWorkflow } from './workflow.js';
+
+const BLOG: WorkflowDefinition = {
+  id: 'blog-post',
+  agents: {
+    researcher: { role: 'You research topics thoroughly.' },
+    writer: { role: 'You write clear blog posts.', model: 'writer-model', temperature: 0.7 }
+  },
+  steps: [
+    { id: 'research', agent: 'researcher', prompt: 'Research {{input.topic}}' },
+    { id: 'outline', agent: 'writer', prompt: 'Outline a post for {{input.audience}}', dependsOn: ['research'] },
+    { id: 'facts', agent: 'researcher', prompt: 'List statistics about {{input.topic}}', dependsOn: ['research'] },
+    { id: 'draft', agent: 'writer', prompt: 'Write the post from:\n{{steps.outline.output}}', dependsOn: ['outline', 'facts'] }
+  ]
+};
+
+describe('validateWorkflow', () => {
+  it('should accept a valid workflow and order its steps in parallel waves', () => {
+    expect(validateWorkflow(BLOG)).toEqual([]);
+    expect(executionOrder(BLOG)).toEqual([['research'], ['outline', 'facts'], ['draft']]);
+    expect(inputNames(BLOG)).toEqual(['topic', 'audience']);
+  });
+
+  it('should report unknown agents and steps, cycles and outputs used too early', () => {
+    const problems = validateWorkflow({
+      id: 'broken',
+      agents: { a: { role: 'A' } },
+      steps: [
+        { id: 'one', agent: 'a', prompt: 'Use {{steps.two.output}} and {{input}}' },
+        { id: 'two', agent: 'b', prompt: 'x', dependsOn: ['ghost'] },
+        { id: 'loop-a', agent: 'a', prompt: 'x', dependsOn: ['loop-b'] },
+        { id: 'loop-b', agent: 'a', prompt: 'x', dependsOn: ['loop-a'] }
+      ]
+    });
+    expect(problems).toEqual([
+      'Step two uses unknown agent b',
+      'Step two depends on unknown step ghost',
+      'Steps form a cycle: loop-a → loop-b → loop-a'
+    ]);
+
+    expect(
+      validateWorkflow({
+        id: 'early',
+        agents: { a: { role: 'A' } },
+        steps: [
+          { id: 'one', agent: 'a', prompt: 'Use {{steps.two.output}} and {{input}}' },
+          { id: 'two', agent: 'a', prompt: 'x' }
+        ]
+      })
+    ).toEqual([
+      'Step one: Unknown placeholder {{input}} (expected {{input.<name>}} or {{steps.<id>.output}})',
+      "Step one uses the output of two but doesn't depend on it"
+    ]);
+  });
+});
+
+describe('stepRequest', () => {
+  it('should render the prompt and add unquoted dependency outputs as context', () => {
+    const request = stepRequest(
+      BLOG,
+      BLOG.steps[3],
+      { topic: 'Rust' },
+      { research: 'notes', outline: '1. Intro', facts: '42% of devs' }
+    );
+    expect(request).toMatchObject({
+      model: 'writer-model',
+      system: 'You write clear blog posts.',
+      temperature: 0.7,
+      workflow: 'blog-post',
+      step: 'draft',
+      agent: 'writer'
+    });
+    expect(request.messages).toEqual([
+      { role: 'user', content: buildPrompt('Write the post from:\n1. Intro', { facts: '42% of devs' }) }
+    ]);
+  });
+
+  it('should write non-string inputs as JSON and refuse missing ones', () => {
+    expect(renderPrompt('Tags: {{ input.tags }}', { tags: ['a', 'b'] }, {})).toBe('Tags: ["a","b"]');
+    expect(() => renderPrompt('{{input.topic}}', {}, {})).toThrow('Missing input: topic');
+  });
+});
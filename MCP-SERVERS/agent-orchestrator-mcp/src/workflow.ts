@@ -0,0 +1,178 @@
+/**
+ * Workflow validation, ordering and prompt templates
+ */
+
+import { WorkflowDefinition } from './types.js';
+
+const ID = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+const PLACEHOLDER = /\{\{\s*([^}]*?)\s*\}\}/g;
+
+export type Placeholder = { raw: string; kind: 'input'; name: string } | { raw: string; kind: 'step'; step: string };
+
+/**
+ * {{input.<name>}} and {{steps.<id>.output}} references in a prompt;
+ * anything else between braces is returned as an error
+ */
+export function placeholders(template: string): { placeholders: Placeholder[]; errors: string[] } {
+  const found: Placeholder[] = [];
+  const errors: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const expression = match[1];
+    const input = /^input\.([A-Za-z_$][\w$-]*)$/.exec(expression);
+    const step = /^steps\.([A-Za-z0-9][A-Za-z0-9_.-]*)\.output$/.exec(expression);
+    if (input) found.push({ raw: match[0], kind: 'input', name: input[1] });
+    else if (step) found.push({ raw: match[0], kind: 'step', step: step[1] });
+    else errors.push(`Unknown placeholder ${match[0]} (expected {{input.<name>}} or {{steps.<id>.output}})`);
+  }
+  return { placeholders: found, errors };
+}
+
+/**
+ * Problems that keep a workflow from running: unknown agents or
+ * dependencies, cycles, and prompts that use the output of a step that
+ * doesn't run before them
+ */
+export function validateWorkflow(workflow: WorkflowDefinition): string[] {
+  const problems: string[] = [];
+  if (!ID.test(workflow.id ?? '')) problems.push(`Workflow id must be letters, digits, ".", "_" or "-": ${workflow.id}`);
+  if (workflow.steps.length === 0) problems.push('A workflow needs at least one step');
+
+  const ids = new Set<string>();
+  for (const step of workflow.steps) {
+    if (!ID.test(step.id)) problems.push(`Step id must be letters, digits, ".", "_" or "-": ${step.id}`);
+    if (ids.has(step.id)) problems.push(`Duplicate step id: ${step.id}`);
+    ids.add(step.id);
+  }
+
+  for (const step of workflow.steps) {
+    if (!Object.prototype.hasOwnProperty.call(workflow.agents, step.agent)) {
+      problems.push(`Step ${step.id} uses unknown agent ${step.agent}`);
+    }
+    for (const dependency of step.dependsOn ?? []) {
+      if (dependency === step.id) problems.push(`Step ${step.id} depends on itself`);
+      else if (!ids.has(dependency)) problems.push(`Step ${step.id} depends on unknown step ${dependency}`);
+    }
+  }
+
+  const cycle = findCycle(workflow);
+  if (cycle) {
+    problems.push(`Steps form a cycle: ${cycle.join(' → ')}`);
+    return problems;
+  }
+
+  for (const step of workflow.steps) {
+    const { placeholders: found, errors } = placeholders(step.prompt);
+    problems.push(...errors.map(error => `Step ${step.id}: ${error}`));
+    const before = ancestors(workflow, step.id);
+    for (const placeholder of found) {
+      if (placeholder.kind !== 'step') continue;
+      if (!ids.has(placeholder.step)) problems.push(`Step ${step.id} uses the output of unknown step ${placeholder.step}`);
+      else if (!before.has(placeholder.step)) {
+        problems.push(`Step ${step.id} uses the output of ${placeholder.step} but doesn't depend on it`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Steps grouped into waves: each wave only depends on earlier ones, so the
+ * steps of a wave can run in parallel
+ */
+export function executionOrder(workflow: WorkflowDefinition): string[][] {
+  const waves: string[][] = [];
+  const placed = new Set<string>();
+  while (placed.size < workflow.steps.length) {
+    const wave = workflow.steps
+      .filter(step => !placed.has(step.id) && (step.dependsOn ?? []).every(dependency => placed.has(dependency)))
+      .map(step => step.id);
+    if (wave.length === 0) throw new Error(`Workflow ${workflow.id} has a cycle`);
+    wave.forEach(id => placed.add(id));
+    waves.push(wave);
+  }
+  return waves;
+}
+
+/** Input names the workflow's prompts use */
+export function inputNames(workflow: WorkflowDefinition): string[] {
+  const names = new Set<string>();
+  for (const step of workflow.steps) {
+    for (const placeholder of placeholders(step.prompt).placeholders) {
+      if (placeholder.kind === 'input') names.add(placeholder.name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Fill in a prompt; non-string inputs are written as JSON
+ */
+export function renderPrompt(template: string, input: Record<string, unknown>, outputs: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (raw, expression: string) => {
+    const placeholder = placeholders(raw).placeholders[0];
+    if (!placeholder) throw new Error(`Unknown placeholder ${raw}`);
+    if (placeholder.kind === 'step') return outputs[placeholder.step] ?? '';
+    const value = input[placeholder.name];
+    if (value === undefined) throw new Error(`Missing input: ${expression.slice('input.'.length)}`);
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  });
+}
+
+/** Every step a step transitively depends on */
+export function ancestors(workflow: WorkflowDefinition, id: string): Set<string> {
+  const byId = new Map(workflow.steps.map(step => [step.id, step]));
+  const found = new Set<string>();
+  const visit = (current: string) => {
+    for (const dependency of byId.get(current)?.dependsOn ?? []) {
+      if (found.has(dependency)) continue;
+      found.add(dependency);
+      visit(dependency);
+    }
+  };
+  visit(id);
+  return found;
+}
+
+/** Every step that transitively depends on a step */
+export function descendants(workflow: WorkflowDefinition, id: string): Set<string> {
+  const found = new Set<string>();
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const step of workflow.steps) {
+      if (found.has(step.id)) continue;
+      if ((step.dependsOn ?? []).some(dependency => dependency === id || found.has(dependency))) {
+        found.add(step.id);
+        grew = true;
+      }
+    }
+  }
+  return found;
+}
+
+function findCycle(workflow: WorkflowDefinition): string[] | undefined {
+  const byId = new Map(workflow.steps.map(step => [step.id, step]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | undefined => {
+    if (state.get(id) === 'done') return undefined;
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id];
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const dependency of byId.get(id)?.dependsOn ?? []) {
+      if (!byId.has(dependency) || dependency === id) continue;
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, 'done');
+    return undefined;
+  };
+
+  for (const step of workflow.steps) {
+    const cycle = visit(step.id);
+    if (cycle) return cycle.reverse();
+  }
+  return undefined;
+}
@@ -1,44 +1,12 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { BaseMCPServer } from '@ai-dev-standards/mcp-server-base';
 
-const server = new Server(
-  { name: 'asset-optimizer-mcp', version: '1.0.0' },
-  { capabilities: { tools: {} } }
-);
-
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [
-    {
-      name: 'configure',
-      description: 'Configure asset-optimizer-mcp settings',
-      inputSchema: { type: 'object', properties: { projectPath: { type: 'string' } }, required: ['projectPath'] }
-    }
-  ]
-}));
-
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    return {
-      content: [{ type: 'text', text: 'asset-optimizer-mcp: Not yet fully implemented' }]
-    };
-  } catch (error) {
-    return {
-      content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
-      isError: true
-    };
+class AssetOptimizerServer extends BaseMCPServer {
+  constructor() {
+    super('asset-optimizer-mcp', '1.0.0');
+    this.addConfigureTool();
   }
-});
-
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('asset-optimizer-mcp running on stdio');
 }
 
-main().catch((error) => {
-  console.error('Server error:', error);
-  process.exit(1);
-});
+new AssetOptimizerServer().run();
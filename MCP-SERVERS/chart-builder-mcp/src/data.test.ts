@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { inferColumns, normalizeRows, parseCsv } from './data.js';
+
+describe('parseCsv', () => {
+  it('should parse quoted fields, convert values and detect the delimiter', () => {
+    const rows = parseCsv('\uFEFFname;note;score;active\r\n"Smith; Jo";"said ""hi""\nthen left";4.5;true\r\nLee;;-2;false\r\n');
+    expect(rows).toEqual([
+      { name: 'Smith; Jo', note: 'said "hi"\nthen left', score: 4.5, active: true },
+      { name: 'Lee', note: null, score: -2, active: false }
+    ]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseCsv('a,b\n"open,1')).toThrow('unterminated quoted field');
+  });
+});
+
+describe('inferColumns', () => {
+  it('should type numbers, dates, years and text', () => {
+    const rows = normalizeRows([
+      { month: '2024-01', year: 2024, region: 'EU', revenue: 1200, tags: ['a'] },
+      { month: '2024-02', year: 2024, region: 'US', revenue: 800 },
+      { month: '2024-03', year: 2025, region: 'EU', revenue: null }
+    ]);
+    const columns = inferColumns(rows);
+    expect(columns.map(column => [column.name, column.type])).toEqual([
+      ['month', 'temporal'],
+      ['year', 'temporal'],
+      ['region', 'nominal'],
+      ['revenue', 'quantitative'],
+      ['tags', 'nominal']
+    ]);
+    expect(columns[3]).toMatchObject({ distinct: 2, missing: 1, min: 800, max: 1200 });
+    expect(rows[0].tags).toBe('["a"]');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tabular data: CSV parsing and column types
+ *
+ * Column types follow Vega-Lite's: quantitative for numbers, temporal for
+ * dates, nominal for everything else.
+ */
+
+export type Value = string | number | boolean | null;
+export type Row = Record<string, Value>;
+export type FieldType = 'quantitative' | 'temporal' | 'nominal';
+
+export interface Column {
+  name: string;
+  type: FieldType;
+  /** Distinct non-empty values */
+  distinct: number;
+  /** Empty cells */
+  missing: number;
+  min?: number;
+  max?: number;
+  /** Up to three distinct values */
+  examples: Value[];
+}
+
+const ISO_DATE = /^\d{4}-\d{2}(-\d{2})?([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+/**
+ * Parse CSV with a header row. Quoted fields may hold delimiters, quotes
+ * ("") and line breaks; the delimiter is detected from the header (comma,
+ * semicolon or tab). Numbers and true/false are converted, empty cells
+ * become null.
+ */
+export function parseCsv(text: string): Row[] {
+  const content = text.replace(/^\uFEFF/, '');
+  const header = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') quoted = true;
+    else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else field += char;
+  }
+  if (quoted) throw new Error('CSV has an unterminated quoted field');
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const rows = records.filter(cells => cells.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) return [];
+  const names = rows[0].map((name, index) => name.trim() || `column${index + 1}`);
+  return rows.slice(1).map(cells => Object.fromEntries(names.map((name, index) => [name, convert(cells[index])])));
+}
+
+function convert(cell: string | undefined): Value {
+  const value = (cell ?? '').trim();
+  if (value === '') return null;
+  if (NUMBER.test(value)) return Number(value);
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+}
+
+/**
+ * Rows from an array of objects; nested values are kept as JSON text
+ */
+export function normalizeRows(data: unknown): Row[] {
+  if (!Array.isArray(data)) throw new Error('Data must be an array of objects');
+  return data.map((item, index) => {
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+      throw new Error(`Row ${index + 1} is not an object`);
+    }
+    return Object.fromEntries(
+      Object.entries(item).map(([key, value]) => [
+        key,
+        value === undefined || value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+          ? (value ?? null)
+          : JSON.stringify(value)
+      ])
+    );
+  });
+}
+
+export function isTemporal(value: Value): boolean {
+  return typeof value === 'string' && ISO_DATE.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/** Year columns hold plain integers, so they are recognized by name */
+function isYearColumn(name: string, values: Value[]): boolean {
+  return /year/i.test(name) && values.every(value => typeof value === 'number' && Number.isInteger(value) && value >= 1000 && value <= 3000);
+}
+
+/**
+ * Column names in first-seen order with their types
+ */
+export function inferColumns(rows: Row[]): Column[] {
+  const names: string[] = [];
+  for (const row of rows) for (const name of Object.keys(row)) if (!names.includes(name)) names.push(name);
+
+  return names.map(name => {
+    const values = rows.map(row => row[name] ?? null);
+    const present = values.filter((value): value is string | number | boolean => value !== null);
+    const distinct = [...new Set(present)];
+
+    let type: FieldType = 'nominal';
+    if (present.length > 0 && isYearColumn(name, present)) type = 'temporal';
+    else if (present.length > 0 && present.every(value => typeof value === 'number')) type = 'quantitative';
+    else if (present.length > 0 && present.every(isTemporal)) type = 'temporal';
+
+    const column: Column = { name, type, distinct: distinct.length, missing: values.length - present.length, examples: distinct.slice(0, 3) };
+    if (type === 'quantitative') {
+      const numbers = present as number[];
+      column.min = numbers.reduce((min, value) => Math.min(min, value));
+      column.max = numbers.reduce((max, value) => Math.max(max, value));
+    }
+    return column;
+  });
+}
+
+/** Milliseconds since the epoch for a temporal value (years as 1 January) */
+export function toTime(value: Value): number {
+  if (typeof value === 'number') return Date.UTC(value, 0, 1);
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
@@ -0,0 +1,17 @@
+/**
+ * PNG rasterization with resvg, a native SVG renderer: no browser needed
+ */
+
+import { Resvg } from '@resvg/resvg-js';
+
+/**
+ * Rasterize an SVG; scale 2 gives sharp images on high-density screens.
+ * Text uses the fonts installed on the system.
+ */
+export function svgToPng(svg: string, scale = 1): Buffer {
+  const resvg = new Resvg(svg, {
+    fitTo: scale === 1 ? { mode: 'original' } : { mode: 'zoom', value: scale },
+    font: { loadSystemFonts: true, defaultFontFamily: 'DejaVu Sans' }
+  });
+  return resvg.render().asPng();
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { inferColumns, normalizeRows } from './data.js';
+import { toChartJs, toRecharts } from './snippets.js';
+import { resolveChart } from './spec.js';
+import { formatNumber, niceTicks, renderSvg } from './svg.js';
+import { prepare } from './transform.js';
+import { PALETTE } from './theme.js';
+import { toVegaLite } from './vega-lite.js';
+
+const ROWS = normalizeRows([
+  { quarter: 'Q1', product: 'Basic', revenue: 1200 },
+  { quarter: 'Q1', product: 'Pro <beta>', revenue: 3400 },
+  { quarter: 'Q2', product: 'Basic', revenue: 1500 },
+  { quarter: 'Q2', product: 'Pro <beta>', revenue: 4100 }
+]);
+const COLUMNS = inferColumns(ROWS);
+
+describe('renderSvg', () => {
+  it('should draw grouped bars with a legend and accessible text', () => {
+    const chart = resolveChart({ type: 'bar', x: 'quarter', y: 'revenue', color: 'product', title: 'Revenue & growth' }, COLUMNS);
+    const svg = renderSvg(chart, prepare(chart, ROWS));
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="640" height="400"/);
+    expect(svg).toContain('<title id="chart-title">Revenue &amp; growth</title>');
+    expect(svg).toContain('<desc id="chart-desc">Bar chart of revenue by quarter and product</desc>');
+    expect(svg.match(/<rect [^>]*><title>/g)).toHaveLength(4);
+    expect(svg).toContain('Pro &lt;beta&gt;');
+    expect(svg).toContain('<title>Q2, Pro &lt;beta&gt;: 4.1k</title>');
+  });
+
+  it('should draw pie slices, heatmap cells and scatter points in the dark theme', () => {
+    const pie = resolveChart({ type: 'pie', x: 'product', y: 'revenue' }, COLUMNS);
+    const pieSvg = renderSvg(pie, prepare(pie, ROWS), { theme: 'dark' });
+    expect(pieSvg).toContain('fill="#1f2933"');
+    expect(pieSvg.match(/<path d="M/g)).toHaveLength(2);
+    expect(pieSvg).toContain('Basic (26%)');
+
+    const heatmap = resolveChart({ type: 'heatmap', x: 'quarter', y: 'product' }, COLUMNS);
+    expect(renderSvg(heatmap, prepare(heatmap, ROWS)).match(/<rect [^>]*fill-opacity/g)).toHaveLength(4);
+
+    const points = normalizeRows([
+      { x: 1, y: 2 },
+      { x: 3, y: 5 }
+    ]);
+    const scatter = resolveChart({ type: 'scatter' }, inferColumns(points));
+    expect(renderSvg(scatter, prepare(scatter, points)).match(/<circle /g)).toHaveLength(2);
+  });
+
+  it('should format axis numbers compactly on round ticks', () => {
+    expect(niceTicks(0, 4100)).toEqual([0, 1000, 2000, 3000, 4000, 5000]);
+    expect(niceTicks(-3, 7)).toEqual([-4, -2, 0, 2, 4, 6, 8]);
+    expect([1234567, 4100, 12.345, 0.12345, -2500].map(formatNumber)).toEqual(['1.2M', '4.1k', '12.35', '0.123', '-2.5k']);
+  });
+});
+
+describe('toVegaLite', () => {
+  it('should fold several measures into series', () => {
+    const rows = normalizeRows([{ month: '2024-01', visits: 10, signups: 2 }]);
+    const chart = resolveChart({ type: 'line', y: ['visits', 'signups'] }, inferColumns(rows));
+    expect(toVegaLite(chart, rows, PALETTE)).toMatchObject({
+      $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+      data: { values: rows },
+      transform: [{ fold: ['visits', 'signups'], as: ['series', 'value'] }],
+      mark: { type: 'line', point: true },
+      encoding: {
+        x: { field: 'month', type: 'temporal' },
+        y: { field: 'value', aggregate: 'sum' },
+        color: { field: 'series', type: 'nominal' }
+      },
+      config: { range: { category: PALETTE } }
+    });
+  });
+});
+
+describe('snippets', () => {
+  it('should inline the aggregated data in React components', () => {
+    const chart = resolveChart({ type: 'bar', x: 'quarter', y: 'revenue', stacked: true }, COLUMNS);
+    const data = prepare(chart, ROWS);
+
+    const recharts = toRecharts(chart, data, PALETTE);
+    expect(recharts).toContain("import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';");
+    expect(recharts).toContain('export function RevenueByQuarterChart() {');
+    expect(recharts).toContain('"revenue": 4600');
+    expect(recharts).toContain('<Bar dataKey="revenue" fill="#4e79a7" stackId="stack" />');
+
+    const chartjs = toChartJs(chart, data, PALETTE);
+    expect(chartjs).toContain("import { Bar } from 'react-chartjs-2';");
+    expect(chartjs).toContain('labels: ["Q1","Q2"]');
+    expect(chartjs).toContain('return <Bar data={data} options={options} />;');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestClient } from '@ai-dev-standards/mcp-server-base';
+import { ChartBuilderServer } from './server.js';
+
+const CSV = ['month,signups,churn', '2024-01,120,4', '2024-02,150,6', '2024-03,90,'].join('\n');
+
+describe('ChartBuilderServer', () => {
+  let dir: string;
+  let server: ChartBuilderServer;
+  let client: TestClient;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'chart-builder-'));
+    server = new ChartBuilderServer();
+    client = await TestClient.connect(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should analyze columns and recommend charts', async () => {
+    const result = await client.callTool<{ rows: number; columns: Array<{ name: string; type: string }>; recommendations: Array<{ type: string }> }>(
+      'analyze_data',
+      { csv: CSV }
+    );
+    expect(result.data.rows).toBe(3);
+    expect(result.data.columns.map(column => column.type)).toEqual(['temporal', 'quantitative', 'quantitative']);
+    expect(result.data.recommendations[0]).toMatchObject({ type: 'line', x: 'month', y: ['signups', 'churn'] });
+  });
+
+  it('should create every output for a recommended chart', async () => {
+    const result = await client.callTool<{
+      chart: { type: string; x: { name: string } };
+      recommendations: unknown[];
+      vegaLite: { mark: { type: string } };
+      recharts: string;
+      chartjs: string;
+      svg: string;
+    }>('create_chart', { csv: CSV, chart: { title: 'Signups' } });
+
+    expect(result.isError).toBe(false);
+    expect(result.data.chart).toMatchObject({ type: 'line', x: { name: 'month' } });
+    expect(result.data.recommendations.length).toBeGreaterThan(0);
+    expect(result.data.vegaLite.mark.type).toBe('line');
+    expect(result.data.recharts).toContain('export function SignupsChart()');
+    expect(result.data.chartjs).toContain("import { Line } from 'react-chartjs-2';");
+    expect(result.data.svg).toContain('<title id="chart-title">Signups</title>');
+  });
+
+  it('should render PNG images from a project file using the configured theme', async () => {
+    await fs.writeFile(join(dir, 'plans.json'), JSON.stringify([{ plan: 'Free', users: 70 }, { plan: 'Team', users: 30 }]));
+    await client.callTool('configure', { projectPath: dir, theme: 'dark', width: 320, height: 240 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const image = await client.callTool('render_chart', { file: 'plans.json', chart: { type: 'pie' }, format: 'png' });
+    expect(image.content).toEqual([{ type: 'image', data: expect.stringMatching(/^iVBORw0KGgo/), mimeType: 'image/png' }]);
+
+    const written = await client.callTool<{ outputFile: string; format: string; width: number; bytes: number }>('render_chart', {
+      file: 'plans.json',
+      chart: { type: 'pie' },
+      outputFile: 'charts/plans.png'
+    });
+    expect(written.data).toMatchObject({ outputFile: join('charts', 'plans.png'), format: 'png', width: 320 });
+    const png = await fs.readFile(join(dir, 'charts/plans.png'));
+    expect(png.subarray(1, 4).toString()).toBe('PNG');
+    expect(png.readUInt32BE(16)).toBe(320);
+  });
+
+  it('should explain invalid data and charts', async () => {
+    for (const color of ['red', '#4e79a7" onload="alert(1)']) {
+      const configured = await client.callTool('configure', { projectPath: dir, colors: ['#4e79a7', color] });
+      expect(configured.isError).toBe(true);
+      expect(configured.text).toContain('Must match');
+    }
+
+    const both = await client.callTool('create_chart', { csv: CSV, data: [] });
+    expect(both.isError).toBe(true);
+    expect(both.text).toContain('exactly one of data, csv or file');
+
+    const invalid = await client.callTool('create_chart', { csv: CSV, chart: { type: 'pie', y: 'month' } });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.text).toContain('invalid_chart');
+    expect(invalid.text).toContain('pie measures must be numeric; month is temporal');
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Chart Builder MCP server
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, extname, relative, resolve } from 'path';
+import { BaseMCPServer, ToolContext, ToolError, z } from '@ai-dev-standards/mcp-server-base';
+import { Column, inferColumns, normalizeRows, parseCsv, Row } from './data.js';
+import { svgToPng } from './png.js';
+import { toChartJs, toRecharts } from './snippets.js';
+import { AGGREGATES, Chart, CHART_TYPES, ChartSpec, recommendCharts, resolveChart } from './spec.js';
+import { DEFAULT_FONT, renderSvg } from './svg.js';
+import { PALETTE, ThemeName } from './theme.js';
+import { prepare } from './transform.js';
+import { toVegaLite } from './vega-lite.js';
+
+interface Settings {
+  theme: ThemeName;
+  colors: string[];
+  width?: number;
+  height?: number;
+  fontFamily: string;
+}
+
+const OUTPUTS = ['vega-lite', 'recharts', 'chartjs', 'svg'] as const;
+type Output = (typeof OUTPUTS)[number];
+
+const source = {
+  projectPath: z.string().optional(),
+  data: z.array(z.record(z.unknown())).optional().describe('Rows as objects'),
+  csv: z.string().optional().describe('CSV text with a header row'),
+  file: z.string().optional().describe('CSV or JSON file with the rows, relative to the project')
+};
+
+const chartSpec = z
+  .object({
+    type: z.enum(CHART_TYPES as [string, ...string[]]).optional().describe('Chart type (default: the best fit for the columns)'),
+    x: z.string().optional().describe('Category or x-axis column'),
+    y: z
+      .union([z.string(), z.array(z.string())])
+      .optional()
+      .describe('Measure columns (bar, line, pie), or the y-axis column (scatter, heatmap)'),
+    color: z.string().optional().describe('Column that splits one measure into series (bar, line, scatter)'),
+    value: z.string().optional().describe('heatmap: measure shown as cell color (default: row count)'),
+    aggregate: z
+      .enum(AGGREGATES as [string, ...string[]])
+      .optional()
+      .describe('How rows with the same category combine (default: sum, or count without a measure)'),
+    stacked: z.boolean().optional().describe('bar: stack series instead of grouping them'),
+    title: z.string().optional(),
+    width: z.number().int().min(100).max(4000).optional(),
+    height: z.number().int().min(100).max(4000).optional()
+  })
+  .default({});
+
+export class ChartBuilderServer extends BaseMCPServer {
+  constructor() {
+    super('chart-builder-mcp', '1.0.0');
+
+    this.addConfigureTool({
+      settings: {
+        theme: { type: 'string', enum: ['light', 'dark'], description: 'Colors of the rendered SVG and PNG (default: light)' },
+        colors: {
+          type: 'array',
+          items: { type: 'string', pattern: '^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$' },
+          description: 'Series colors as hex codes such as #4e79a7 or #f80 (default: Tableau 10)'
+        },
+        width: { type: 'number', minimum: 100, description: 'Default chart width in pixels (default: 640)' },
+        height: { type: 'number', minimum: 100, description: 'Default chart height in pixels (default: 400)' },
+        fontFamily: { type: 'string', description: `Font of the rendered SVG (default: ${DEFAULT_FONT})` }
+      }
+    });
+
+    this.addTool({
+      name: 'analyze_data',
+      description: 'Column types (quantitative, temporal, nominal) and statistics for tabular data, with the chart types that suit it, best first',
+      inputSchema: z.object(source),
+      handler: async (args, context) => {
+        const rows = await this.rows(args, context);
+        const columns = inferColumns(rows);
+        return { rows: rows.length, columns, recommendations: recommendCharts(columns) };
+      }
+    });
+
+    this.addTool({
+      name: 'create_chart',
+      description:
+        'Build a chart from tabular data: a Vega-Lite spec, Recharts and Chart.js React components, and an SVG rendered locally. Fields the spec leaves out are chosen from the column types',
+      inputSchema: z.object({
+        ...source,
+        chart: chartSpec,
+        outputs: z.array(z.enum(OUTPUTS)).optional().describe('What to return (default: all)'),
+        outputFile: z.string().optional().describe('Also write the SVG to this file, relative to the project')
+      }),
+      handler: async (args, context) => {
+        const settings = this.settings(context);
+        const rows = await this.rows(args, context);
+        const columns = inferColumns(rows);
+        const chart = this.chart(args.chart as ChartSpec, columns, settings);
+        const data = prepare(chart, rows);
+        const outputs = new Set<Output>(args.outputs ?? OUTPUTS);
+        const svg = renderSvg(chart, data, settings);
+
+        const result: Record<string, unknown> = { chart };
+        if (!args.chart?.type) result.recommendations = recommendCharts(columns);
+        if (outputs.has('vega-lite')) result.vegaLite = toVegaLite(chart, rows, settings.colors);
+        if (outputs.has('recharts')) result.recharts = toRecharts(chart, data, settings.colors);
+        if (outputs.has('chartjs')) result.chartjs = toChartJs(chart, data, settings.colors);
+        if (outputs.has('svg')) result.svg = svg;
+        if (args.outputFile) result.outputFile = await this.write(context, args.outputFile, svg);
+        return result;
+      }
+    });
+
+    this.addTool({
+      name: 'render_chart',
+      description:
+        'Render a chart to SVG or PNG without a browser. PNG is returned as an image unless outputFile is given; SVG as text',
+      inputSchema: z.object({
+        ...source,
+        chart: chartSpec,
+        format: z.enum(['svg', 'png']).optional().describe('Default: from the outputFile extension, else svg'),
+        scale: z.number().min(0.5).max(4).default(1).describe('png: pixel density, 2 for high-density screens'),
+        outputFile: z.string().optional().describe('Write the image to this file, relative to the project')
+      }),
+      handler: async (args, context) => {
+        const settings = this.settings(context);
+        const rows = await this.rows(args, context);
+        const chart = this.chart(args.chart as ChartSpec, inferColumns(rows), settings);
+        const svg = renderSvg(chart, prepare(chart, rows), settings);
+        const format = args.format ?? (args.outputFile && extname(args.outputFile).toLowerCase() === '.png' ? 'png' : 'svg');
+
+        const image = format === 'png' ? svgToPng(svg, args.scale ?? 1) : Buffer.from(svg);
+        if (args.outputFile) {
+          const outputFile = await this.write(context, args.outputFile, image);
+          return { outputFile, format, type: chart.type, width: chart.width, height: chart.height, bytes: image.length };
+        }
+        if (format === 'png') {
+          return { content: [{ type: 'image', data: image.toString('base64'), mimeType: 'image/png' }] };
+        }
+        return { content: [{ type: 'text', text: svg }] };
+      }
+    });
+  }
+
+  private settings(context: ToolContext): Settings {
+    const settings = context.settings as Partial<Settings>;
+    return {
+      theme: settings.theme === 'dark' ? 'dark' : 'light',
+      colors: settings.colors && settings.colors.length > 0 ? settings.colors : PALETTE,
+      width: settings.width,
+      height: settings.height,
+      fontFamily: settings.fontFamily ?? DEFAULT_FONT
+    };
+  }
+
+  /** Rows from exactly one of data, csv or file */
+  private async rows(args: { data?: Array<Record<string, unknown>>; csv?: string; file?: string }, context: ToolContext): Promise<Row[]> {
+    const given = [args.data, args.csv, args.file].filter(value => value !== undefined).length;
+    if (given !== 1) throw new ToolError('invalid_data', 'Pass the rows as exactly one of data, csv or file');
+
+    let rows: Row[];
+    try {
+      if (args.data) rows = normalizeRows(args.data);
+      else if (args.csv !== undefined) rows = parseCsv(args.csv);
+      else {
+        const path = resolve(this.requireProject(context), args.file!);
+        const content = await fs.readFile(path, 'utf-8').catch(() => null);
+        if (content === null) throw new ToolError('not_found', `Data file not found: ${args.file}`);
+        rows = extname(path).toLowerCase() === '.json' ? normalizeRows(JSON.parse(content)) : parseCsv(content);
+      }
+    } catch (error) {
+      if (error instanceof ToolError) throw error;
+      throw new ToolError('invalid_data', (error as Error).message);
+    }
+    if (rows.length === 0) throw new ToolError('invalid_data', 'The data has no rows');
+    return rows;
+  }
+
+  private chart(spec: ChartSpec, columns: Column[], settings: Settings): Chart {
+    try {
+      return resolveChart({ ...spec, width: spec.width ?? settings.width, height: spec.height ?? settings.height }, columns);
+    } catch (error) {
+      throw new ToolError('invalid_chart', (error as Error).message, { columns: columns.map(column => `${column.name} (${column.type})`) });
+    }
+  }
+
+  private async write(context: ToolContext, file: string, content: string | Buffer): Promise<string> {
+    const root = resolve(this.requireProject(context));
+    const path = resolve(root, file);
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(path, content);
+    return relative(root, path);
+  }
+}
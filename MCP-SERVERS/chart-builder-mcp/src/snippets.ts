@@ -0,0 +1,290 @@
+/**
+ * React components for Recharts and Chart.js (react-chartjs-2)
+ *
+ * The aggregated data is inlined, so a snippet renders the same chart as the
+ * SVG without further processing.
+ */
+
+import { Chart, measureLabel } from './spec.js';
+import { rgb } from './theme.js';
+import { ChartData, GridData, toRecords } from './transform.js';
+
+const indent = (text: string, spaces: number) => text.replace(/\n/g, `\n${' '.repeat(spaces)}`);
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+const attribute = (value: string) => JSON.stringify(value);
+
+/** Component name from the title, or from the fields: "RevenueByRegionChart" */
+export function componentName(chart: Chart): string {
+  const words = chart.title ?? `${chart.y.map(field => field.name).join(' and ') || 'count'} by ${chart.x.name}`;
+  const pascal = words
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  const name = /^[A-Za-z]/.test(pascal) ? pascal : `Chart${pascal}`;
+  return name.endsWith('Chart') ? name : `${name}Chart`;
+}
+
+function heatmapColor(grid: GridData, color: string): string {
+  const [r, g, b] = rgb(color);
+  return [
+    `const MIN = ${grid.min};`,
+    `const MAX = ${grid.max};`,
+    `const shade = (value: number | null) =>`,
+    `  value === null ? 'transparent' : \`rgba(${r}, ${g}, ${b}, \${(0.15 + (0.85 * (value - MIN)) / (MAX - MIN || 1)).toFixed(2)})\`;`
+  ].join('\n');
+}
+
+export function toRecharts(chart: Chart, data: ChartData, colors: string[]): string {
+  const name = componentName(chart);
+  const color = (index: number) => colors[index % colors.length];
+  const height = chart.height;
+
+  if (data.kind === 'points') {
+    const time = chart.x.type === 'temporal';
+    const series = data.series
+      .map((item, index) => `<Scatter name=${attribute(item.name)} data={data[${index}]} fill=${attribute(color(index))} />`)
+      .join('\n');
+    return `import { CartesianGrid, Legend, ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts';
+
+const data = ${json(data.series.map(item => item.points))};
+
+export function ${name}() {
+  return (
+    <ResponsiveContainer width="100%" height={${height}}>
+      <ScatterChart>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis type="number" dataKey="x" name=${attribute(chart.x.name)} domain={['auto', 'auto']}${
+          time ? ' tickFormatter={(value: number) => new Date(value).toLocaleDateString()}' : ''
+        } />
+        <YAxis type="number" dataKey="y" name=${attribute(chart.y[0].name)} domain={['auto', 'auto']} />
+        <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+        ${data.series.length > 1 ? '<Legend />\n        ' : ''}${indent(series, 8)}
+      </ScatterChart>
+    </ResponsiveContainer>
+  );
+}
+`;
+  }
+
+  if (data.kind === 'grid') {
+    const records = data.rows.flatMap((row, i) => data.columns.map((column, j) => ({ x: column, y: row, value: data.values[i][j] })));
+    const cellWidth = Math.max(4, Math.floor((chart.width - 100) / data.columns.length) - 2);
+    const cellHeight = Math.max(4, Math.floor((chart.height - 60) / data.rows.length) - 2);
+    return `import { ResponsiveContainer, Scatter, ScatterChart, Tooltip, XAxis, YAxis } from 'recharts';
+
+// Recharts has no heatmap; a scatter chart over two category axes draws one rect per cell
+const data = ${json(records)};
+
+${heatmapColor(data, colors[0])}
+
+const Cell = ({ cx, cy, payload }: { cx: number; cy: number; payload: { value: number | null } }) => (
+  <rect x={cx - ${cellWidth / 2}} y={cy - ${cellHeight / 2}} width={${cellWidth}} height={${cellHeight}} fill={shade(payload.value)} />
+);
+
+export function ${name}() {
+  return (
+    <ResponsiveContainer width="100%" height={${height}}>
+      <ScatterChart>
+        <XAxis type="category" dataKey="x" name=${attribute(chart.x.name)} allowDuplicatedCategory={false} />
+        <YAxis type="category" dataKey="y" name=${attribute(chart.y[0].name)} allowDuplicatedCategory={false} />
+        <Tooltip />
+        <Scatter name=${attribute(chart.value ? measureLabel(chart, chart.value) : 'count')} data={data} shape={Cell} />
+      </ScatterChart>
+    </ResponsiveContainer>
+  );
+}
+`;
+  }
+
+  const records = toRecords(chart, data);
+  const x = chart.x.name;
+  if (chart.type === 'pie') {
+    const value = data.series[0]?.name ?? 'count';
+    return `import { Cell, Legend, Pie, PieChart, ResponsiveContainer, Tooltip } from 'recharts';
+
+const data = ${json(records)};
+
+const COLORS = ${JSON.stringify(colors)};
+
+export function ${name}() {
+  return (
+    <ResponsiveContainer width="100%" height={${height}}>
+      <PieChart>
+        <Pie data={data} dataKey=${attribute(value)} nameKey=${attribute(x)} outerRadius="80%" label>
+          {data.map((entry, index) => (
+            <Cell key={entry[${attribute(x)}]} fill={COLORS[index % COLORS.length]} />
+          ))}
+        </Pie>
+        <Tooltip />
+        <Legend />
+      </PieChart>
+    </ResponsiveContainer>
+  );
+}
+`;
+  }
+
+  const container = chart.type === 'line' ? 'LineChart' : 'BarChart';
+  const Mark = chart.type === 'line' ? 'Line' : 'Bar';
+  const marks = data.series
+    .map((series, index) =>
+      chart.type === 'line'
+        ? `<Line type="monotone" dataKey=${attribute(series.name)} stroke=${attribute(color(index))} strokeWidth={2} />`
+        : `<Bar dataKey=${attribute(series.name)} fill=${attribute(color(index))}${chart.stacked ? ' stackId="stack"' : ''} />`
+    )
+    .join('\n');
+  return `import { ${Mark}, ${container}, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+const data = ${json(records)};
+
+export function ${name}() {
+  return (
+    <ResponsiveContainer width="100%" height={${height}}>
+      <${container} data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey=${attribute(x)} />
+        <YAxis />
+        <Tooltip />
+        ${data.series.length > 1 ? '<Legend />\n        ' : ''}${indent(marks, 8)}
+      </${container}>
+    </ResponsiveContainer>
+  );
+}
+`;
+}
+
+export function toChartJs(chart: Chart, data: ChartData, colors: string[]): string {
+  const name = componentName(chart);
+  const color = (index: number) => colors[index % colors.length];
+  const title = chart.title ? `title: { display: true, text: ${attribute(chart.title)} }, ` : '';
+
+  if (data.kind === 'points') {
+    const time = chart.x.type === 'temporal';
+    const datasets = data.series.map((series, index) => ({ label: series.name, data: series.points, backgroundColor: color(index) }));
+    return `import { Chart as ChartJS, Legend, LinearScale, PointElement, Title, Tooltip } from 'chart.js';
+import { Scatter } from 'react-chartjs-2';
+
+ChartJS.register(LinearScale, PointElement, Title, Tooltip, Legend);
+
+const data = {
+  datasets: ${indent(json(datasets), 2)}
+};
+
+const options = {
+  responsive: true,
+  plugins: { ${title}legend: { display: ${datasets.length > 1} } },
+  scales: {
+    x: { title: { display: true, text: ${attribute(chart.x.name)} }${
+      time ? ', ticks: { callback: (value: string | number) => new Date(Number(value)).toLocaleDateString() }' : ''
+    } },
+    y: { title: { display: true, text: ${attribute(chart.y[0].name)} } }
+  }
+};
+
+export function ${name}() {
+  return <Scatter data={data} options={options} />;
+}
+`;
+  }
+
+  if (data.kind === 'grid') {
+    const cells = data.rows.flatMap((row, i) =>
+      data.columns.flatMap((column, j) => (data.values[i][j] === null ? [] : [{ x: column, y: row, v: data.values[i][j] }]))
+    );
+    return `import { CategoryScale, Chart as ChartJS, Title, Tooltip } from 'chart.js';
+import { MatrixController, MatrixElement } from 'chartjs-chart-matrix';
+import { Chart } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, MatrixController, MatrixElement, Title, Tooltip);
+
+${heatmapColor(data, colors[0])}
+
+const data = {
+  datasets: [
+    {
+      label: ${attribute(chart.value ? measureLabel(chart, chart.value) : 'count')},
+      data: ${indent(json(cells), 6)},
+      backgroundColor: (context: { raw: { v: number } }) => shade(context.raw.v),
+      width: ({ chart }: { chart: ChartJS }) => (chart.chartArea?.width ?? 0) / ${data.columns.length} - 2,
+      height: ({ chart }: { chart: ChartJS }) => (chart.chartArea?.height ?? 0) / ${data.rows.length} - 2
+    }
+  ]
+};
+
+const options = {
+  responsive: true,
+  plugins: { ${title}legend: { display: false } },
+  scales: {
+    x: { type: 'category' as const, labels: ${JSON.stringify(data.columns)}, offset: true, grid: { display: false } },
+    y: { type: 'category' as const, labels: ${JSON.stringify(data.rows)}, offset: true, grid: { display: false } }
+  }
+};
+
+export function ${name}() {
+  return <Chart type="matrix" data={data} options={options} />;
+}
+`;
+  }
+
+  if (chart.type === 'pie') {
+    const values = data.series[0]?.values ?? [];
+    return `import { ArcElement, Chart as ChartJS, Legend, Title, Tooltip } from 'chart.js';
+import { Pie } from 'react-chartjs-2';
+
+ChartJS.register(ArcElement, Title, Tooltip, Legend);
+
+const data = {
+  labels: ${JSON.stringify(data.categories)},
+  datasets: [
+    {
+      label: ${attribute(data.series[0]?.name ?? 'count')},
+      data: ${JSON.stringify(values)},
+      backgroundColor: ${JSON.stringify(data.categories.map((_, index) => color(index)))}
+    }
+  ]
+};
+
+const options = {
+  responsive: true,
+  plugins: { ${title}legend: { position: 'right' as const } }
+};
+
+export function ${name}() {
+  return <Pie data={data} options={options} />;
+}
+`;
+  }
+
+  const line = chart.type === 'line';
+  const datasets = data.series.map((series, index) => ({
+    label: series.name,
+    data: series.values,
+    ...(line ? { borderColor: color(index), backgroundColor: color(index), tension: 0.3 } : { backgroundColor: color(index) })
+  }));
+  const elements = line ? 'LineElement, PointElement' : 'BarElement';
+  const stacked = chart.stacked ? ', stacked: true' : '';
+  return `import { ${elements}, CategoryScale, Chart as ChartJS, Legend, LinearScale, Title, Tooltip } from 'chart.js';
+import { ${line ? 'Line' : 'Bar'} } from 'react-chartjs-2';
+
+ChartJS.register(${elements}, CategoryScale, LinearScale, Title, Tooltip, Legend);
+
+const data = {
+  labels: ${JSON.stringify(data.categories)},
+  datasets: ${indent(json(datasets), 2)}
+};
+
+const options = {
+  responsive: true,
+  plugins: { ${title}legend: { display: ${datasets.length > 1} } },
+  scales: {
+    x: { title: { display: true, text: ${attribute(chart.x.name)} }${stacked} },
+    y: { beginAtZero: true${stacked} }
+  }
+};
+
+export function ${name}() {
+  return <${line ? 'Line' : 'Bar'} data={data} options={options} />;
+}
+`;
+}
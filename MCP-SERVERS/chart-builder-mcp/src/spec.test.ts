@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { inferColumns, normalizeRows } from './data.js';
+import { recommendCharts, resolveChart } from './spec.js';
+import { prepare } from './transform.js';
+
+const SALES = normalizeRows([
+  { date: '2024-01-01', region: 'EU', channel: 'web', units: 10, revenue: 100 },
+  { date: '2024-01-01', region: 'US', channel: 'store', units: 4, revenue: 60 },
+  { date: '2024-02-01', region: 'EU', channel: 'store', units: 6, revenue: 90 },
+  { date: '2024-02-01', region: 'EU', channel: 'web', units: 2, revenue: 30 }
+]);
+
+describe('recommendCharts', () => {
+  it('should rank chart types by how well they suit the columns', () => {
+    const recommendations = recommendCharts(inferColumns(SALES));
+    expect(recommendations.map(recommendation => recommendation.type)).toEqual(['line', 'bar', 'scatter', 'heatmap', 'pie']);
+    expect(recommendations[0]).toMatchObject({ x: 'date', y: ['units', 'revenue'] });
+  });
+
+  it('should count rows when there are no measures', () => {
+    const columns = inferColumns(normalizeRows([{ status: 'open' }, { status: 'closed' }]));
+    expect(recommendCharts(columns)).toEqual([expect.objectContaining({ type: 'bar', x: 'status', y: [] })]);
+  });
+});
+
+describe('resolveChart', () => {
+  const columns = inferColumns(SALES);
+
+  it('should fill in fields from the column types', () => {
+    expect(resolveChart({ type: 'bar' }, columns)).toMatchObject({
+      x: { name: 'region', type: 'nominal' },
+      y: [{ name: 'units', type: 'quantitative' }],
+      aggregate: 'sum',
+      width: 640,
+      height: 400
+    });
+    expect(resolveChart({ x: 'units', y: 'revenue' }, columns).type).toBe('scatter');
+  });
+
+  it('should reject unknown columns and unsuitable types', () => {
+    expect(() => resolveChart({ type: 'bar', y: 'missing' }, columns)).toThrow('Unknown y column: missing');
+    expect(() => resolveChart({ type: 'bar', y: 'region' }, columns)).toThrow('bar measures must be numeric; region is nominal');
+    expect(() => resolveChart({ type: 'pie', color: 'channel' }, columns)).toThrow('color is not used by pie charts');
+  });
+});
+
+describe('prepare', () => {
+  const columns = inferColumns(SALES);
+
+  it('should aggregate measures per category and series', () => {
+    const chart = resolveChart({ type: 'bar', x: 'region', y: 'revenue', color: 'channel' }, columns);
+    expect(prepare(chart, SALES)).toEqual({
+      kind: 'categorical',
+      categories: ['EU', 'US'],
+      series: [
+        { name: 'web', values: [130, null] },
+        { name: 'store', values: [90, 60] }
+      ]
+    });
+  });
+
+  it('should build heatmap cells with their range', () => {
+    const chart = resolveChart({ type: 'heatmap', x: 'date', y: 'region', value: 'units', aggregate: 'mean' }, columns);
+    expect(prepare(chart, SALES)).toEqual({
+      kind: 'grid',
+      columns: ['2024-01-01', '2024-02-01'],
+      rows: ['EU', 'US'],
+      values: [
+        [10, 4],
+        [4, null]
+      ],
+      min: 4,
+      max: 10
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Chart specs: which columns a chart shows, filled in from column types
+ */
+
+import { Column, FieldType } from './data.js';
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'pie' | 'heatmap';
+export type Aggregate = 'sum' | 'mean' | 'median' | 'min' | 'max' | 'count';
+
+export const CHART_TYPES: ChartType[] = ['bar', 'line', 'scatter', 'pie', 'heatmap'];
+export const AGGREGATES: Aggregate[] = ['sum', 'mean', 'median', 'min', 'max', 'count'];
+
+/** What the caller asks for; missing fields are chosen from the column types */
+export interface ChartSpec {
+  type?: ChartType;
+  /** Category or x-axis column */
+  x?: string;
+  /** Measures (bar, line, pie), or the y-axis column (scatter, heatmap) */
+  y?: string | string[];
+  /** Column that splits a single measure into series (bar, line, scatter) */
+  color?: string;
+  /** heatmap: measure shown as cell color (default: row count) */
+  value?: string;
+  /** How rows with the same category combine (default: sum, or count without a measure) */
+  aggregate?: Aggregate;
+  /** bar: stack series instead of grouping them */
+  stacked?: boolean;
+  title?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface Field {
+  name: string;
+  type: FieldType;
+}
+
+/** A spec with every field resolved and checked against the data */
+export interface Chart {
+  type: ChartType;
+  x: Field;
+  /** Measures; empty when rows are counted. scatter and heatmap: the one y-axis column */
+  y: Field[];
+  color?: Field;
+  /** heatmap: measure column; absent when rows are counted */
+  value?: Field;
+  aggregate: Aggregate;
+  stacked: boolean;
+  title?: string;
+  width: number;
+  height: number;
+}
+
+export interface Recommendation {
+  type: ChartType;
+  x: string;
+  y?: string[];
+  color?: string;
+  value?: string;
+  /** 0 to 1; higher fits the data better */
+  score: number;
+  reason: string;
+}
+
+export const DEFAULT_SIZE = { width: 640, height: 400 };
+
+/** Categories beyond this make bars and heatmap cells unreadable */
+const MAX_CATEGORIES = 50;
+const MAX_PIE_SLICES = 6;
+
+function isIdentifier(column: Column): boolean {
+  return /^(id|.*[_-]id|.*[a-z]Id)$/.test(column.name);
+}
+
+/**
+ * Chart types that suit the columns, best first
+ */
+export function recommendCharts(columns: Column[]): Recommendation[] {
+  const measures = columns.filter(column => column.type === 'quantitative' && !isIdentifier(column));
+  const times = columns.filter(column => column.type === 'temporal');
+  const categories = columns.filter(column => column.type === 'nominal' && column.distinct >= 2 && column.distinct <= MAX_CATEGORIES);
+  const names = (list: Column[], count: number) => list.slice(0, count).map(column => column.name);
+  const recommendations: Recommendation[] = [];
+
+  if (times.length > 0 && measures.length > 0) {
+    const y = names(measures, 3);
+    recommendations.push({ type: 'line', x: times[0].name, y, score: 0.9, reason: `${y.join(', ')} over time (${times[0].name})` });
+  }
+  if (categories.length > 0 && measures.length > 0) {
+    const [category, measure] = [categories[0], measures[0]];
+    const y = names(measures, 3);
+    recommendations.push({ type: 'bar', x: category.name, y, score: 0.8, reason: `Compare ${y.join(', ')} across ${category.name}` });
+    if (category.distinct <= MAX_PIE_SLICES && (measure.min ?? 0) >= 0) {
+      recommendations.push({
+        type: 'pie',
+        x: category.name,
+        y: [measure.name],
+        score: 0.6,
+        reason: `Share of ${measure.name} by ${category.name} (${category.distinct} slices)`
+      });
+    }
+  }
+  if (measures.length >= 2) {
+    const series = categories.find(column => column.distinct <= 10);
+    recommendations.push({
+      type: 'scatter',
+      x: measures[0].name,
+      y: [measures[1].name],
+      ...(series && { color: series.name }),
+      score: 0.7,
+      reason: `Relationship between ${measures[0].name} and ${measures[1].name}`
+    });
+  }
+  const axes = [...categories, ...times];
+  if (axes.length >= 2) {
+    const measure = measures[0];
+    recommendations.push({
+      type: 'heatmap',
+      x: axes[0].name,
+      y: [axes[1].name],
+      ...(measure && { value: measure.name }),
+      score: measure ? 0.65 : 0.5,
+      reason: measure
+        ? `${measure.name} for each ${axes[0].name} and ${axes[1].name}`
+        : `Rows for each ${axes[0].name} and ${axes[1].name}`
+    });
+  }
+  if (categories.length > 0 && measures.length === 0) {
+    recommendations.push({ type: 'bar', x: categories[0].name, y: [], score: 0.5, reason: `Rows per ${categories[0].name}` });
+  }
+
+  return recommendations.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Resolve a spec against the columns: pick the chart type and any missing
+ * fields, and check that the fields exist and have suitable types
+ */
+export function resolveChart(spec: ChartSpec, columns: Column[]): Chart {
+  if (columns.length === 0) throw new Error('The data has no columns');
+  const byName = new Map(columns.map(column => [column.name, column]));
+  const field = (name: string, role: string): Field => {
+    const column = byName.get(name);
+    if (!column) throw new Error(`Unknown ${role} column: ${name} (columns: ${columns.map(c => c.name).join(', ')})`);
+    return { name, type: column.type };
+  };
+  const requested = spec.y === undefined ? [] : Array.isArray(spec.y) ? spec.y : [spec.y];
+  const type = spec.type ?? inferType(spec, requested, byName, columns);
+  const first = (types: FieldType[], exclude: string[]) =>
+    columns.find(column => types.includes(column.type) && !exclude.includes(column.name) && !isIdentifier(column));
+
+  let x: Field;
+  let y: Field[];
+  let value: Field | undefined;
+  if (type === 'scatter') {
+    x = field(spec.x ?? first(['quantitative'], [])?.name ?? columns[0].name, 'x');
+    const yName = requested[0] ?? first(['quantitative'], [x.name])?.name;
+    if (!yName) throw new Error('A scatter plot needs two numeric columns');
+    y = [field(yName, 'y')];
+    if (x.type === 'nominal') throw new Error(`scatter needs a numeric or date x column; ${x.name} is ${x.type}`);
+    if (y[0].type !== 'quantitative') throw new Error(`scatter needs a numeric y column; ${y[0].name} is ${y[0].type}`);
+  } else if (type === 'heatmap') {
+    x = field(spec.x ?? first(['nominal', 'temporal'], [])?.name ?? columns[0].name, 'x');
+    const yName = requested[0] ?? first(['nominal', 'temporal'], [x.name])?.name;
+    if (!yName) throw new Error('A heatmap needs two category or date columns');
+    y = [field(yName, 'y')];
+    const valueName = spec.value ?? (spec.aggregate === 'count' ? undefined : first(['quantitative'], [x.name, yName])?.name);
+    value = valueName ? field(valueName, 'value') : undefined;
+    if (value && value.type !== 'quantitative') throw new Error(`heatmap value must be numeric; ${value.name} is ${value.type}`);
+  } else {
+    const preferred: FieldType[] = type === 'line' ? ['temporal', 'nominal', 'quantitative'] : ['nominal', 'temporal', 'quantitative'];
+    const xName = spec.x ?? preferred.map(kind => first([kind], requested)?.name).find(Boolean) ?? columns[0].name;
+    x = field(xName, 'x');
+    const yNames = requested.length > 0 ? requested : spec.aggregate === 'count' ? [] : [first(['quantitative'], [x.name])?.name].filter(Boolean);
+    y = (yNames as string[]).map(name => field(name, 'y'));
+    for (const measure of y) {
+      if (measure.type !== 'quantitative') throw new Error(`${type} measures must be numeric; ${measure.name} is ${measure.type}`);
+    }
+    if (type === 'pie' && y.length > 1) throw new Error('A pie chart shows one measure');
+  }
+
+  const color = spec.color ? field(spec.color, 'color') : undefined;
+  if (color && (type === 'pie' || type === 'heatmap')) throw new Error(`color is not used by ${type} charts`);
+  if (color && y.length > 1) throw new Error('color splits one measure into series; with several y columns each column is a series');
+
+  return {
+    type,
+    x,
+    y,
+    ...(color && { color }),
+    ...(value && { value }),
+    aggregate: spec.aggregate ?? ((type === 'heatmap' ? value : y.length > 0) ? 'sum' : 'count'),
+    stacked: spec.stacked ?? false,
+    ...(spec.title && { title: spec.title }),
+    width: spec.width ?? DEFAULT_SIZE.width,
+    height: spec.height ?? DEFAULT_SIZE.height
+  };
+}
+
+/** Type for a spec without one: from the given columns, else the best recommendation */
+function inferType(spec: ChartSpec, y: string[], byName: Map<string, Column>, columns: Column[]): ChartType {
+  if (spec.value) return 'heatmap';
+  const x = spec.x ? byName.get(spec.x) : undefined;
+  const first = y[0] ? byName.get(y[0]) : undefined;
+  if (x && first) {
+    if (first.type !== 'quantitative') return 'heatmap';
+    if (x.type === 'temporal') return 'line';
+    if (x.type === 'quantitative') return 'scatter';
+    return 'bar';
+  }
+  if (x) return x.type === 'temporal' ? 'line' : 'bar';
+  return recommendCharts(columns)[0]?.type ?? 'bar';
+}
+
+/** Label of a chart's measure, e.g. "sum of revenue" or "count" */
+export function measureLabel(chart: Chart, field?: Field): string {
+  if (!field) return 'count';
+  return chart.aggregate === 'sum' ? field.name : `${chart.aggregate} of ${field.name}`;
+}
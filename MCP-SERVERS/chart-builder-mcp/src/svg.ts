@@ -0,0 +1,411 @@
+/**
+ * Server-side SVG rendering
+ *
+ * Plain string building: no DOM, browser or fonts are needed. Text widths are
+ * estimated from the character count, which is close enough for laying out
+ * axis labels and legends.
+ */
+
+import { Chart, measureLabel } from './spec.js';
+import { cellOpacity, PALETTE, Theme, ThemeName, THEMES } from './theme.js';
+import { CategoricalData, ChartData, GridData, PointData } from './transform.js';
+
+export interface RenderOptions {
+  theme?: ThemeName;
+  colors?: string[];
+  fontFamily?: string;
+}
+
+export const DEFAULT_FONT = 'DejaVu Sans, Helvetica, Arial, sans-serif';
+
+const FONT_SIZE = 12;
+const PADDING = 16;
+const MAX_LABEL = 18;
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface Frame {
+  out: string[];
+  theme: Theme;
+  colors: string[];
+  area: Rect;
+}
+
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+export function textWidth(text: string, size = FONT_SIZE): number {
+  return text.length * size * 0.6;
+}
+
+function truncate(text: string, length = MAX_LABEL): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** 1234567 → "1.2M", 0.12345 → "0.123" */
+export function formatNumber(value: number): string {
+  const abs = Math.abs(value);
+  const units: Array<[number, string]> = [
+    [1e12, 'T'],
+    [1e9, 'B'],
+    [1e6, 'M'],
+    [1e3, 'k']
+  ];
+  for (const [size, suffix] of units) {
+    if (abs >= size) return `${Number((value / size).toFixed(1))}${suffix}`;
+  }
+  return String(Number(value.toFixed(abs >= 100 ? 0 : abs >= 1 ? 2 : 3)));
+}
+
+/** Evenly spaced round numbers covering min to max */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    const pad = min === 0 ? 1 : Math.abs(min) * 0.1;
+    [min, max] = [min - (min === 0 ? 0 : pad), max + pad];
+  }
+  const raw = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= raw)!;
+  const ticks: number[] = [];
+  for (let value = Math.floor(min / step) * step; value <= Math.ceil(max / step) * step + step / 2; value += step) {
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  fill: string,
+  attributes: { size?: number; anchor?: 'start' | 'middle' | 'end'; weight?: string; rotate?: number; baseline?: string } = {}
+): string {
+  const parts = [`x="${round(x)}"`, `y="${round(y)}"`, `fill="${fill}"`];
+  if (attributes.size && attributes.size !== FONT_SIZE) parts.push(`font-size="${attributes.size}"`);
+  if (attributes.anchor && attributes.anchor !== 'start') parts.push(`text-anchor="${attributes.anchor}"`);
+  if (attributes.weight) parts.push(`font-weight="${attributes.weight}"`);
+  if (attributes.baseline) parts.push(`dominant-baseline="${attributes.baseline}"`);
+  if (attributes.rotate) parts.push(`transform="rotate(${attributes.rotate} ${round(x)} ${round(y)})"`);
+  return `<text ${parts.join(' ')}>${escapeXml(content)}</text>`;
+}
+
+/** A sentence describing the chart, for screen readers */
+export function describeChart(chart: Chart): string {
+  const kind = { bar: 'Bar chart', line: 'Line chart', scatter: 'Scatter plot', pie: 'Pie chart', heatmap: 'Heatmap' }[chart.type];
+  if (chart.type === 'scatter') return `${kind} of ${chart.y[0].name} against ${chart.x.name}${chart.color ? ` by ${chart.color.name}` : ''}`;
+  if (chart.type === 'heatmap') return `${kind} of ${measureLabel(chart, chart.value)} by ${chart.x.name} and ${chart.y[0].name}`;
+  const measures = chart.y.length > 0 ? chart.y.map(field => measureLabel(chart, field)).join(', ') : 'count';
+  return `${kind} of ${measures} by ${chart.x.name}${chart.color ? ` and ${chart.color.name}` : ''}`;
+}
+
+export function renderSvg(chart: Chart, data: ChartData, options: RenderOptions = {}): string {
+  const theme = THEMES[options.theme ?? 'light'];
+  const colors = options.colors && options.colors.length > 0 ? options.colors : PALETTE;
+  const { width, height } = chart;
+  const frame: Frame = { out: [], theme, colors, area: { left: PADDING, top: PADDING, right: width - PADDING, bottom: height - PADDING } };
+
+  if (chart.title) {
+    frame.out.push(text(width / 2, PADDING + 14, truncate(chart.title, Math.floor(width / 9.6)), theme.text, { size: 16, weight: 'bold', anchor: 'middle' }));
+    frame.area.top += 28;
+  }
+
+  const empty =
+    (data.kind === 'categorical' && (data.categories.length === 0 || data.series.every(series => series.values.every(value => value === null)))) ||
+    (data.kind === 'points' && data.series.every(series => series.points.length === 0)) ||
+    (data.kind === 'grid' && data.values.flat().every(value => value === null));
+  if (empty) {
+    const { left, top, right, bottom } = frame.area;
+    frame.out.push(text((left + right) / 2, (top + bottom) / 2, 'No data', theme.muted, { anchor: 'middle', baseline: 'middle' }));
+  } else if (data.kind === 'grid') {
+    drawHeatmap(frame, chart, data);
+  } else if (data.kind === 'points') {
+    if (data.series.length > 1) legend(frame, data.series.map(series => series.name));
+    drawScatter(frame, chart, data);
+  } else if (chart.type === 'pie') {
+    drawPie(frame, data);
+  } else {
+    if (data.series.length > 1) legend(frame, data.series.map(series => series.name));
+    drawCategorical(frame, chart, data);
+  }
+
+  const title = chart.title ?? describeChart(chart);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-labelledby="chart-title chart-desc" font-family="${escapeXml(options.fontFamily ?? DEFAULT_FONT)}" font-size="${FONT_SIZE}">`,
+    `<title id="chart-title">${escapeXml(title)}</title>`,
+    `<desc id="chart-desc">${escapeXml(describeChart(chart))}</desc>`,
+    `<rect width="${width}" height="${height}" fill="${theme.background}"/>`,
+    ...frame.out,
+    '</svg>'
+  ].join('\n');
+}
+
+/** Swatches in rows under the title; shrinks the plot area */
+function legend(frame: Frame, names: string[]): void {
+  const { area, out, theme, colors } = frame;
+  let x = area.left;
+  let y = area.top;
+  for (const [index, name] of names.entries()) {
+    const label = truncate(name, 28);
+    const itemWidth = 16 + textWidth(label) + 16;
+    if (x > area.left && x + itemWidth > area.right) {
+      x = area.left;
+      y += 18;
+    }
+    out.push(`<rect x="${round(x)}" y="${round(y + 2)}" width="10" height="10" rx="2" fill="${colors[index % colors.length]}"/>`);
+    out.push(text(x + 16, y + 11, label, theme.text));
+    x += itemWidth;
+  }
+  area.top = y + 28;
+}
+
+interface Axes {
+  plot: Rect;
+  y: (value: number) => number;
+}
+
+/**
+ * Y axis with gridlines and the x axis title; leaves the x tick labels to the
+ * caller, which knows where they go
+ */
+function axes(frame: Frame, yTicks: number[], yTitle: string, xTitle: string, xLabelHeight: number): Axes {
+  const { area, out, theme } = frame;
+  const labels = yTicks.map(formatNumber);
+  const labelWidth = labels.reduce((widest, label) => Math.max(widest, textWidth(label)), 0);
+  const plot: Rect = { left: area.left + 20 + labelWidth + 8, top: area.top, right: area.right, bottom: area.bottom - xLabelHeight - 20 };
+  const [low, high] = [yTicks[0], yTicks[yTicks.length - 1]];
+  const y = (value: number) => plot.bottom - ((value - low) / (high - low)) * (plot.bottom - plot.top);
+
+  for (const [index, tick] of yTicks.entries()) {
+    const position = round(y(tick));
+    out.push(`<line x1="${round(plot.left)}" x2="${round(plot.right)}" y1="${position}" y2="${position}" stroke="${tick === 0 ? theme.axis : theme.grid}"/>`);
+    out.push(text(plot.left - 8, position + 4, labels[index], theme.muted, { anchor: 'end' }));
+  }
+  out.push(text(area.left + 10, (plot.top + plot.bottom) / 2, truncate(yTitle, 40), theme.muted, { anchor: 'middle', rotate: -90 }));
+  out.push(text((plot.left + plot.right) / 2, area.bottom - 4, truncate(xTitle, 60), theme.muted, { anchor: 'middle' }));
+  out.push(`<line x1="${round(plot.left)}" x2="${round(plot.right)}" y1="${round(plot.bottom)}" y2="${round(plot.bottom)}" stroke="${theme.axis}"/>`);
+  return { plot, y };
+}
+
+/** Height the category labels need, rotating them when they don't fit their band */
+function bandLabels(labels: string[], plotWidth: number, maxHeight: number): { labels: string[]; rotate: boolean; every: number; height: number } {
+  const shown = labels.map(label => truncate(label));
+  const band = plotWidth / Math.max(labels.length, 1);
+  const widest = shown.reduce((max, label) => Math.max(max, textWidth(label)), 0);
+  const rotate = widest > band - 4;
+  const every = rotate ? Math.max(1, Math.ceil(16 / band)) : 1;
+  return { labels: shown, rotate, every, height: rotate ? Math.min(widest * 0.71 + 12, maxHeight) : 18 };
+}
+
+function drawBandLabels(frame: Frame, axis: ReturnType<typeof bandLabels>, plot: Rect, center: (index: number) => number): void {
+  for (const [index, label] of axis.labels.entries()) {
+    if (index % axis.every !== 0) continue;
+    const x = center(index);
+    frame.out.push(
+      axis.rotate
+        ? text(x, plot.bottom + 12, label, frame.theme.muted, { anchor: 'end', rotate: -45 })
+        : text(x, plot.bottom + 16, label, frame.theme.muted, { anchor: 'middle' })
+    );
+  }
+}
+
+function drawCategorical(frame: Frame, chart: Chart, data: CategoricalData): void {
+  const { out, colors, area } = frame;
+  const stacked = chart.type === 'bar' && chart.stacked && data.series.length > 1;
+  const totals = data.categories.map((_, index) => {
+    const values = data.series.map(series => series.values[index] ?? 0);
+    return stacked
+      ? [values.filter(value => value < 0).reduce((sum, value) => sum + value, 0), values.filter(value => value > 0).reduce((sum, value) => sum + value, 0)]
+      : values;
+  });
+  // Bars start at zero, and so does the axis of a line chart, as in Vega-Lite
+  const values = totals.flat();
+  const ticks = niceTicks(values.reduce((min, value) => Math.min(min, value), 0), values.reduce((max, value) => Math.max(max, value), 0));
+
+  // Estimate the plot width before the axis exists to size the labels
+  const labelAxis = bandLabels(data.categories, area.right - area.left - 60, (area.bottom - area.top) * 0.35);
+  const yTitle = chart.y.length === 1 || chart.y.length === 0 ? measureLabel(chart, chart.y[0]) : chart.aggregate === 'sum' ? 'value' : chart.aggregate;
+  const { plot, y } = axes(frame, ticks, yTitle, chart.x.name, labelAxis.height);
+  const band = (plot.right - plot.left) / data.categories.length;
+  const center = (index: number) => plot.left + band * (index + 0.5);
+  drawBandLabels(frame, labelAxis, plot, center);
+
+  if (chart.type === 'line') {
+    for (const [seriesIndex, series] of data.series.entries()) {
+      const color = colors[seriesIndex % colors.length];
+      let path = '';
+      let drawing = false;
+      for (const [index, value] of series.values.entries()) {
+        // Missing values break the line instead of dropping to zero
+        if (value === null) {
+          drawing = false;
+          continue;
+        }
+        path += `${drawing ? 'L' : 'M'}${round(center(index))},${round(y(value))}`;
+        drawing = true;
+      }
+      out.push(`<path d="${path}" fill="none" stroke="${color}" stroke-width="2" stroke-linejoin="round" stroke-linecap="round"/>`);
+      for (const [index, value] of series.values.entries()) {
+        if (value !== null && data.categories.length <= 60) {
+          out.push(`<circle cx="${round(center(index))}" cy="${round(y(value))}" r="3" fill="${color}"><title>${escapeXml(`${data.categories[index]}, ${series.name}: ${formatNumber(value)}`)}</title></circle>`);
+        }
+      }
+    }
+    return;
+  }
+
+  const inner = band * 0.8;
+  const baseline = y(0);
+  const offsets = data.categories.map(() => ({ positive: 0, negative: 0 }));
+  for (const [seriesIndex, series] of data.series.entries()) {
+    const color = colors[seriesIndex % colors.length];
+    for (const [index, value] of series.values.entries()) {
+      if (value === null) continue;
+      let x = center(index) - inner / 2;
+      let barWidth = inner;
+      let from = 0;
+      if (stacked) {
+        const offset = offsets[index];
+        from = value < 0 ? offset.negative : offset.positive;
+        if (value < 0) offset.negative += value;
+        else offset.positive += value;
+      } else {
+        barWidth = inner / data.series.length;
+        x += barWidth * seriesIndex;
+      }
+      const [start, end] = [stacked ? y(from) : baseline, y(from + value)];
+      const label = `${data.categories[index]}${data.series.length > 1 ? `, ${series.name}` : ''}: ${formatNumber(value)}`;
+      out.push(
+        `<rect x="${round(x)}" y="${round(Math.min(start, end))}" width="${round(Math.max(barWidth - 1, 1))}" height="${round(Math.abs(end - start))}" fill="${color}"><title>${escapeXml(label)}</title></rect>`
+      );
+    }
+  }
+}
+
+function drawScatter(frame: Frame, chart: Chart, data: PointData): void {
+  const { out, colors, theme } = frame;
+  const points = data.series.flatMap(series => series.points);
+  const extent = (values: number[]) => [values.reduce((min, value) => Math.min(min, value)), values.reduce((max, value) => Math.max(max, value))];
+  const [yMin, yMax] = extent(points.map(point => point.y));
+  const [xMin, xMax] = extent(points.map(point => point.x));
+  const time = chart.x.type === 'temporal';
+  const xTicks = time ? timeTicks(xMin, xMax) : niceTicks(xMin, xMax);
+  const { plot, y } = axes(frame, niceTicks(yMin, yMax), chart.y[0].name, chart.x.name, 18);
+  const [low, high] = time ? [Math.min(xMin, xTicks[0]), Math.max(xMax, xTicks[xTicks.length - 1])] : [xTicks[0], xTicks[xTicks.length - 1]];
+  const x = (value: number) => plot.left + ((value - low) / (high - low || 1)) * (plot.right - plot.left);
+
+  for (const tick of xTicks) {
+    const position = round(x(tick));
+    out.push(`<line x1="${position}" x2="${position}" y1="${round(plot.top)}" y2="${round(plot.bottom)}" stroke="${theme.grid}"/>`);
+    out.push(text(position, plot.bottom + 16, time ? new Date(tick).toISOString().slice(0, 10) : formatNumber(tick), theme.muted, { anchor: 'middle' }));
+  }
+  for (const [seriesIndex, series] of data.series.entries()) {
+    const color = colors[seriesIndex % colors.length];
+    for (const point of series.points) {
+      const label = `${time ? new Date(point.x).toISOString().slice(0, 10) : formatNumber(point.x)}, ${formatNumber(point.y)}`;
+      out.push(`<circle cx="${round(x(point.x))}" cy="${round(y(point.y))}" r="4" fill="${color}" fill-opacity="0.8"><title>${escapeXml(label)}</title></circle>`);
+    }
+  }
+}
+
+/** Up to five evenly spaced dates, at whole days */
+function timeTicks(min: number, max: number): number[] {
+  const day = 86_400_000;
+  if (max - min < day) return [min];
+  const step = Math.max(day, Math.round((max - min) / 4 / day) * day);
+  const ticks: number[] = [];
+  for (let value = min; value <= max; value += step) ticks.push(value);
+  return ticks;
+}
+
+function drawPie(frame: Frame, data: CategoricalData): void {
+  const { out, colors, area, theme } = frame;
+  const values = (data.series[0]?.values ?? []).map(value => (value !== null && value > 0 ? value : 0));
+  const total = values.reduce((sum, value) => sum + value, 0);
+  legend(
+    frame,
+    data.categories.map((category, index) => `${truncate(category)} (${total > 0 ? Math.round((values[index] / total) * 100) : 0}%)`)
+  );
+  const cx = (area.left + area.right) / 2;
+  const cy = (area.top + area.bottom) / 2;
+  const radius = Math.max(10, Math.min(area.right - area.left, area.bottom - area.top) / 2 - 4);
+
+  let angle = -Math.PI / 2;
+  for (const [index, value] of values.entries()) {
+    if (value === 0) continue;
+    const color = colors[index % colors.length];
+    const share = value / total;
+    const label = `${data.categories[index]}: ${formatNumber(value)} (${Math.round(share * 100)}%)`;
+    const next = angle + share * 2 * Math.PI;
+    if (share >= 0.9999) {
+      out.push(`<circle cx="${round(cx)}" cy="${round(cy)}" r="${round(radius)}" fill="${color}"><title>${escapeXml(label)}</title></circle>`);
+    } else {
+      const point = (theta: number) => `${round(cx + radius * Math.cos(theta))},${round(cy + radius * Math.sin(theta))}`;
+      out.push(
+        `<path d="M${round(cx)},${round(cy)} L${point(angle)} A${round(radius)},${round(radius)} 0 ${share > 0.5 ? 1 : 0} 1 ${point(next)} Z" fill="${color}" stroke="${theme.background}" stroke-width="1"><title>${escapeXml(label)}</title></path>`
+      );
+    }
+    if (share >= 0.05) {
+      const middle = (angle + next) / 2;
+      out.push(text(cx + radius * 0.65 * Math.cos(middle), cy + radius * 0.65 * Math.sin(middle) + 4, `${Math.round(share * 100)}%`, '#ffffff', { anchor: 'middle', weight: 'bold' }));
+    }
+    angle = next;
+  }
+}
+
+function drawHeatmap(frame: Frame, chart: Chart, data: GridData): void {
+  const { out, colors, area, theme } = frame;
+  const color = colors[0];
+
+  // Gradient legend from the smallest to the largest value
+  const title = measureLabel(chart, chart.value);
+  out.push(
+    `<defs><linearGradient id="heatmap-scale"><stop offset="0" stop-color="${color}" stop-opacity="${cellOpacity(data.min, data.min, data.max)}"/><stop offset="1" stop-color="${color}" stop-opacity="1"/></linearGradient></defs>`
+  );
+  out.push(text(area.left, area.top + 10, truncate(title, 30), theme.muted));
+  const scaleLeft = area.left + textWidth(truncate(title, 30)) + 8;
+  out.push(text(scaleLeft, area.top + 10, formatNumber(data.min), theme.muted));
+  const barLeft = scaleLeft + textWidth(formatNumber(data.min)) + 6;
+  out.push(`<rect x="${round(barLeft)}" y="${round(area.top + 1)}" width="120" height="10" fill="url(#heatmap-scale)"/>`);
+  out.push(text(barLeft + 126, area.top + 10, formatNumber(data.max), theme.muted));
+  area.top += 28;
+
+  const rowLabels = data.rows.map(label => truncate(label));
+  const labelWidth = rowLabels.reduce((widest, label) => Math.max(widest, textWidth(label)), 0);
+  const columnAxis = bandLabels(data.columns, area.right - area.left - labelWidth - 28, (area.bottom - area.top) * 0.35);
+  const plot: Rect = { left: area.left + 20 + labelWidth + 8, top: area.top, right: area.right, bottom: area.bottom - columnAxis.height - 20 };
+  const cellWidth = (plot.right - plot.left) / data.columns.length;
+  const cellHeight = (plot.bottom - plot.top) / data.rows.length;
+  const rowEvery = Math.max(1, Math.ceil(14 / cellHeight));
+
+  for (const [row, label] of rowLabels.entries()) {
+    if (row % rowEvery === 0) out.push(text(plot.left - 8, plot.top + cellHeight * (row + 0.5) + 4, label, theme.muted, { anchor: 'end' }));
+  }
+  drawBandLabels(frame, columnAxis, plot, index => plot.left + cellWidth * (index + 0.5));
+  out.push(text(area.left + 10, (plot.top + plot.bottom) / 2, truncate(chart.y[0].name, 40), theme.muted, { anchor: 'middle', rotate: -90 }));
+  out.push(text((plot.left + plot.right) / 2, area.bottom - 4, truncate(chart.x.name, 60), theme.muted, { anchor: 'middle' }));
+
+  const showValues = cellWidth >= 36 && cellHeight >= 18;
+  for (const [row, values] of data.values.entries()) {
+    for (const [column, value] of values.entries()) {
+      if (value === null) continue;
+      const x = plot.left + cellWidth * column;
+      const y = plot.top + cellHeight * row;
+      const opacity = cellOpacity(value, data.min, data.max);
+      const label = `${data.columns[column]}, ${data.rows[row]}: ${formatNumber(value)}`;
+      out.push(
+        `<rect x="${round(x + 1)}" y="${round(y + 1)}" width="${round(Math.max(cellWidth - 2, 1))}" height="${round(Math.max(cellHeight - 2, 1))}" fill="${color}" fill-opacity="${round(opacity)}"><title>${escapeXml(label)}</title></rect>`
+      );
+      if (showValues && textWidth(formatNumber(value)) < cellWidth - 4) {
+        out.push(text(x + cellWidth / 2, y + cellHeight / 2 + 4, formatNumber(value), opacity > 0.6 ? '#ffffff' : theme.text, { anchor: 'middle' }));
+      }
+    }
+  }
+}
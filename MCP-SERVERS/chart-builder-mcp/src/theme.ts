@@ -0,0 +1,32 @@
+/**
+ * Colors shared by the SVG renderer and the generated code
+ */
+
+/** Tableau 10: distinguishable series colors that also print in grayscale */
+export const PALETTE = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'];
+
+export type ThemeName = 'light' | 'dark';
+
+export interface Theme {
+  background: string;
+  text: string;
+  muted: string;
+  grid: string;
+  axis: string;
+}
+
+export const THEMES: Record<ThemeName, Theme> = {
+  light: { background: '#ffffff', text: '#1f2933', muted: '#616e7c', grid: '#e4e7eb', axis: '#9aa5b1' },
+  dark: { background: '#1f2933', text: '#f5f7fa', muted: '#cbd2d9', grid: '#3e4c59', axis: '#7b8794' }
+};
+
+/** Heatmap cells go from 15% to full opacity of the first color */
+export function cellOpacity(value: number, min: number, max: number): number {
+  return 0.15 + (0.85 * (value - min)) / (max - min || 1);
+}
+
+export function rgb(hex: string): [number, number, number] {
+  const digits = hex.replace('#', '');
+  const full = digits.length === 3 ? [...digits].map(digit => digit + digit).join('') : digits.padEnd(6, '0');
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16) || 0) as [number, number, number];
+}
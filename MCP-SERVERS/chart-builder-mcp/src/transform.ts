@@ -0,0 +1,181 @@
+/**
+ * Aggregate rows into what a chart draws
+ */
+
+import { Row, toTime, Value } from './data.js';
+import { Aggregate, Chart, Field, measureLabel } from './spec.js';
+
+export interface Series {
+  name: string;
+  values: Array<number | null>;
+}
+
+/** bar, line and pie: one value per category and series */
+export interface CategoricalData {
+  kind: 'categorical';
+  categories: string[];
+  series: Series[];
+}
+
+/** scatter: raw points per series; temporal x values are epoch milliseconds */
+export interface PointData {
+  kind: 'points';
+  series: Array<{ name: string; points: Array<{ x: number; y: number }> }>;
+}
+
+/** heatmap: values[row][column], null where no rows fall */
+export interface GridData {
+  kind: 'grid';
+  columns: string[];
+  rows: string[];
+  values: Array<Array<number | null>>;
+  min: number;
+  max: number;
+}
+
+export type ChartData = CategoricalData | PointData | GridData;
+
+export function aggregate(values: number[], operation: Aggregate): number | null {
+  if (operation === 'count') return values.length;
+  if (values.length === 0) return null;
+  switch (operation) {
+    case 'sum':
+      return values.reduce((total, value) => total + value, 0);
+    case 'mean':
+      return values.reduce((total, value) => total + value, 0) / values.length;
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b);
+      const middle = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    }
+    case 'min':
+      return values.reduce((min, value) => Math.min(min, value));
+    case 'max':
+      return values.reduce((max, value) => Math.max(max, value));
+  }
+}
+
+/**
+ * Distinct values of a field as labels: dates and numbers in order, other
+ * values in the order they first appear
+ */
+export function categories(rows: Row[], field: Field): string[] {
+  const seen = new Map<string, Value>();
+  for (const row of rows) {
+    const value = row[field.name] ?? null;
+    if (value !== null && !seen.has(String(value))) seen.set(String(value), value);
+  }
+  const entries = [...seen.entries()];
+  if (field.type === 'temporal') entries.sort((a, b) => toTime(a[1]) - toTime(b[1]));
+  if (field.type === 'quantitative') entries.sort((a, b) => Number(a[1]) - Number(b[1]));
+  return entries.map(([label]) => label);
+}
+
+export function prepare(chart: Chart, rows: Row[]): ChartData {
+  if (chart.type === 'scatter') return points(chart, rows);
+  if (chart.type === 'heatmap') return grid(chart, rows);
+
+  const labels = categories(rows, chart.x);
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const groups = new Map<string, number[][]>();
+  const add = (series: string, category: number, value: number | null) => {
+    if (!groups.has(series)) groups.set(series, labels.map(() => []));
+    // Counting without a measure counts rows
+    if (value !== null) groups.get(series)![category].push(value);
+  };
+
+  for (const row of rows) {
+    const category = index.get(String(row[chart.x.name] ?? ''));
+    if (category === undefined) continue;
+    if (chart.y.length === 0) {
+      add(chart.color ? String(row[chart.color.name] ?? '') : 'count', category, 1);
+      continue;
+    }
+    for (const measure of chart.y) {
+      const raw = row[measure.name];
+      const value = typeof raw === 'number' ? raw : null;
+      const name = chart.color ? String(row[chart.color.name] ?? '') : chart.y.length > 1 ? measure.name : measureLabel(chart, measure);
+      add(name, category, value);
+    }
+  }
+
+  return {
+    kind: 'categorical',
+    categories: labels,
+    series: [...groups.entries()].map(([name, values]) => ({
+      name,
+      values: values.map(group => (chart.y.length === 0 ? group.length : group.length > 0 || chart.aggregate === 'count' ? aggregate(group, chart.aggregate) : null))
+    }))
+  };
+}
+
+function points(chart: Chart, rows: Row[]): PointData {
+  const series = new Map<string, Array<{ x: number; y: number }>>();
+  for (const row of rows) {
+    const rawX = row[chart.x.name] ?? null;
+    const x = chart.x.type === 'temporal' ? toTime(rawX) : typeof rawX === 'number' ? rawX : NaN;
+    const y = row[chart.y[0].name];
+    if (Number.isNaN(x) || typeof y !== 'number') continue;
+    const name = chart.color ? String(row[chart.color.name] ?? '') : chart.y[0].name;
+    if (!series.has(name)) series.set(name, []);
+    series.get(name)!.push({ x, y });
+  }
+  return { kind: 'points', series: [...series.entries()].map(([name, list]) => ({ name, points: list })) };
+}
+
+function grid(chart: Chart, rows: Row[]): GridData {
+  const columns = categories(rows, chart.x);
+  const rowLabels = categories(rows, chart.y[0]);
+  const cells = rowLabels.map(() => columns.map(() => [] as number[]));
+  const columnIndex = new Map(columns.map((label, i) => [label, i]));
+  const rowIndex = new Map(rowLabels.map((label, i) => [label, i]));
+
+  for (const row of rows) {
+    const column = columnIndex.get(String(row[chart.x.name] ?? ''));
+    const line = rowIndex.get(String(row[chart.y[0].name] ?? ''));
+    if (column === undefined || line === undefined) continue;
+    if (!chart.value) cells[line][column].push(1);
+    else if (typeof row[chart.value.name] === 'number') cells[line][column].push(row[chart.value.name] as number);
+  }
+
+  const values = cells.map(line => line.map(group => (group.length === 0 ? null : aggregate(group, chart.value ? chart.aggregate : 'count'))));
+  const present = values.flat().filter((value): value is number => value !== null);
+  return {
+    kind: 'grid',
+    columns,
+    rows: rowLabels,
+    values,
+    min: present.length > 0 ? present.reduce((min, value) => Math.min(min, value)) : 0,
+    max: present.length > 0 ? present.reduce((max, value) => Math.max(max, value)) : 0
+  };
+}
+
+/**
+ * Chart data as rows with one key per series, the shape Recharts and
+ * tables expect
+ */
+export function toRecords(chart: Chart, data: ChartData): Row[] {
+  switch (data.kind) {
+    case 'categorical':
+      return data.categories.map((category, i) => ({
+        [chart.x.name]: category,
+        ...Object.fromEntries(data.series.map(series => [series.name, series.values[i]]))
+      }));
+    case 'points':
+      return data.series.flatMap(series =>
+        series.points.map(point => ({
+          [chart.x.name]: chart.x.type === 'temporal' ? new Date(point.x).toISOString() : point.x,
+          [chart.y[0].name]: point.y,
+          ...(chart.color && { [chart.color.name]: series.name })
+        }))
+      );
+    case 'grid':
+      return data.rows.flatMap((row, i) =>
+        data.columns.map((column, j) => ({
+          [chart.x.name]: column,
+          [chart.y[0].name]: row,
+          [chart.value ? measureLabel(chart, chart.value) : 'count']: data.values[i][j]
+        }))
+      );
+  }
+}
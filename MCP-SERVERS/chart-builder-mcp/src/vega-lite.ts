@@ -0,0 +1,101 @@
+/**
+ * Vega-Lite v5 specs
+ *
+ * The spec embeds the raw rows and lets Vega-Lite aggregate them, so it
+ * stays editable in the Vega editor.
+ */
+
+import { Row } from './data.js';
+import { Chart, Field, measureLabel } from './spec.js';
+
+export const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+
+type Encoding = Record<string, unknown>;
+
+function channel(field: Field, extra: Encoding = {}): Encoding {
+  return { field: field.name, type: field.type, ...extra };
+}
+
+/** Year columns hold numbers, which Vega-Lite would read as timestamps */
+function isYears(rows: Row[], field: Field): boolean {
+  return field.type === 'temporal' && rows.some(row => typeof row[field.name] === 'number');
+}
+
+function measure(chart: Chart, field: Field | undefined, extra: Encoding = {}): Encoding {
+  if (!field) return { aggregate: 'count', type: 'quantitative', title: 'count', ...extra };
+  return { field: field.name, type: 'quantitative', aggregate: chart.aggregate, title: measureLabel(chart, field), ...extra };
+}
+
+export function toVegaLite(chart: Chart, rows: Row[], colors: string[]): Record<string, unknown> {
+  const base: Record<string, unknown> = {
+    $schema: VEGA_LITE_SCHEMA,
+    ...(chart.title && { title: chart.title }),
+    width: chart.width,
+    height: chart.height,
+    data: { values: rows }
+  };
+  const config = { range: { category: colors } };
+
+  // Several measures become one series each by folding them into key/value rows
+  const folded = chart.y.length > 1;
+  const transform = folded ? [{ fold: chart.y.map(field => field.name), as: ['series', 'value'] }] : undefined;
+  const y = folded
+    ? { field: 'value', type: 'quantitative', aggregate: chart.aggregate, title: chart.aggregate === 'sum' ? 'value' : chart.aggregate }
+    : measure(chart, chart.y[0]);
+  const series = folded ? { field: 'series', type: 'nominal', title: null } : chart.color ? channel(chart.color) : undefined;
+  const ordinal = (chart.x.type === 'quantitative' && chart.type !== 'scatter') || isYears(rows, chart.x);
+  const x = ordinal ? channel(chart.x, { type: 'ordinal' }) : channel(chart.x);
+  if (chart.x.type === 'nominal') x.sort = null;
+
+  switch (chart.type) {
+    case 'bar':
+      return {
+        ...base,
+        ...(transform && { transform }),
+        mark: { type: 'bar', tooltip: true },
+        encoding: {
+          x: chart.x.type === 'temporal' ? channel(chart.x, { type: 'ordinal' }) : x,
+          y: chart.stacked ? y : { ...y, stack: null },
+          ...(series && { color: series, ...(!chart.stacked && { xOffset: series }) })
+        },
+        config
+      };
+    case 'line':
+      return {
+        ...base,
+        ...(transform && { transform }),
+        mark: { type: 'line', point: true, tooltip: true },
+        encoding: { x, y, ...(series && { color: series }) },
+        config
+      };
+    case 'scatter':
+      return {
+        ...base,
+        mark: { type: 'circle', opacity: 0.8, tooltip: true },
+        encoding: {
+          x: channel(chart.x, { ...(isYears(rows, chart.x) && { type: 'quantitative' }), scale: { zero: false } }),
+          y: channel(chart.y[0], { scale: { zero: false } }),
+          ...(chart.color && { color: channel(chart.color) })
+        },
+        config
+      };
+    case 'pie':
+      return {
+        ...base,
+        mark: { type: 'arc', tooltip: true },
+        encoding: { theta: { ...y, stack: true }, color: { ...x, type: 'nominal' } },
+        config
+      };
+    case 'heatmap':
+      return {
+        ...base,
+        mark: { type: 'rect', tooltip: true },
+        encoding: {
+          x: channel(chart.x, { type: 'ordinal' }),
+          y: channel(chart.y[0], { type: 'ordinal' }),
+          color: measure(chart, chart.value, { scale: { scheme: 'blues' } })
+        },
+        config: { ...config, axis: { grid: false } }
+      };
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeFunctions } from './complexity.js';
+import { parseSource } from './files.js';
+
+function metrics(code: string, path = 'src/example.ts') {
+  return analyzeFunctions(parseSource(path, code));
+}
+
+describe('analyzeFunctions', () => {
+  it('should score the SonarSource cognitive complexity example', () => {
+    // sumOfPrimes from the cognitive complexity white paper: 7
+    const [fn] = metrics(`
+      function sumOfPrimes(max: number): number {
+        let total = 0;
+        OUT: for (let i = 1; i <= max; ++i) {
+          for (let j = 2; j < i; ++j) {
+            if (i % j == 0) {
+              continue OUT;
+            }
+          }
+          total += i;
+        }
+        return total;
+      }
+    `);
+    expect(fn).toMatchObject({ name: 'sumOfPrimes', cyclomatic: 4, cognitive: 7, nesting: 3, parameters: 1, lines: 12 });
+  });
+
+  it('should charge else if and else without nesting, and logical operator runs once each', () => {
+    const [fn] = metrics(`
+      function classify(a: number, b: boolean, c: boolean, d: boolean) {
+        if (a > 10 && b && c) {
+          return 'big';
+        } else if (a > 5 || (b && d)) {
+          return 'medium';
+        } else {
+          return a ?? 0 ? 'small' : 'none';
+        }
+      }
+    `);
+    // if 1 + && 1 + else if 1 + || and && 2 + else 1 + ?? 1 + ternary at nesting 1: 2
+    expect(fn.cognitive).toBe(9);
+    // 1 + if + else if + && + && + || + && + ?? + ?:
+    expect(fn.cyclomatic).toBe(9);
+    expect(fn.nesting).toBe(1);
+  });
+
+  it('should count switch cases, catch and recursion', () => {
+    const [fn] = metrics(`
+      class Walker {
+        walk(node: { kind: string; children: unknown[] }): number {
+          try {
+            switch (node.kind) {
+              case 'a':
+                return 1;
+              case 'b':
+                return this.walk(node.children[0] as never);
+              default:
+                return 0;
+            }
+          } catch (error) {
+            return -1;
+          }
+        }
+      }
+    `);
+    expect(fn).toMatchObject({ name: 'Walker.walk', cyclomatic: 4, cognitive: 3, nesting: 2 });
+  });
+
+  it('should measure nested functions on their own and name anonymous ones', () => {
+    const functions = metrics(`
+      export const handler = async (items: number[]) => {
+        if (items.length === 0) return [];
+        return items.map(item => (item > 0 ? item : -item));
+      };
+      export default function () {}
+    `);
+    expect(functions.map(fn => [fn.name, fn.cyclomatic, fn.cognitive])).toEqual([
+      ['handler', 2, 1],
+      ['items.map() callback', 2, 1],
+      ['default', 1, 0]
+    ]);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Per-function complexity metrics from the TypeScript AST
+ *
+ * - Cyclomatic complexity counts decision points the way ESLint's
+ *   `complexity` rule does: 1 + if, ?:, loops, case, catch, &&, ||, ??
+ *   and their assignment forms.
+ * - Cognitive complexity follows the SonarSource definition: control flow
+ *   breaks cost 1 plus their nesting level, else/else if cost 1, each run
+ *   of like logical operators costs 1, as do recursion and labelled jumps.
+ * - Nesting is the deepest stack of if/loop/switch/try blocks, as in
+ *   ESLint's `max-depth`; an else if continues its if.
+ *
+ * Nested functions are measured on their own and don't add to the
+ * function around them.
+ */
+
+import ts from 'typescript';
+import { SourceFile } from './files.js';
+
+export interface FunctionMetrics {
+  name: string;
+  file: string;
+  line: number;
+  column: number;
+  endLine: number;
+  /** Lines from the signature to the closing brace */
+  lines: number;
+  parameters: number;
+  cyclomatic: number;
+  cognitive: number;
+  nesting: number;
+}
+
+const LOGICAL_OPERATORS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken
+]);
+
+const LOGICAL_ASSIGNMENTS = new Set([
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken
+]);
+
+function isLogical(node: ts.Node): node is ts.BinaryExpression {
+  return ts.isBinaryExpression(node) && LOGICAL_OPERATORS.has(node.operatorToken.kind);
+}
+
+function skipParentheses(node: ts.Node): ts.Node {
+  while (ts.isParenthesizedExpression(node)) node = node.expression;
+  return node;
+}
+
+function isLoop(node: ts.Node): boolean {
+  return (
+    ts.isForStatement(node) ||
+    ts.isForInStatement(node) ||
+    ts.isForOfStatement(node) ||
+    ts.isWhileStatement(node) ||
+    ts.isDoStatement(node)
+  );
+}
+
+function isElseIf(node: ts.Node): boolean {
+  return ts.isIfStatement(node) && ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+}
+
+/** Operators of a logical expression in source order, looking through parentheses */
+function logicalOperators(node: ts.Node, into: ts.SyntaxKind[] = []): ts.SyntaxKind[] {
+  node = skipParentheses(node);
+  if (isLogical(node)) {
+    logicalOperators(node.left, into);
+    into.push(node.operatorToken.kind);
+    logicalOperators(node.right, into);
+  }
+  return into;
+}
+
+type FunctionNode = ts.SignatureDeclaration & { body?: ts.ConciseBody };
+
+function isMeasuredFunction(node: ts.Node): node is FunctionNode {
+  return (
+    (ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isConstructorDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)) &&
+    node.body !== undefined
+  );
+}
+
+/**
+ * Readable name: the declaration's own, the variable or property it is
+ * assigned to, or the call it is passed to
+ */
+export function functionName(node: FunctionNode, source: ts.SourceFile): string {
+  const owner = node.parent && ts.isClassLike(node.parent) ? (node.parent.name?.text ?? '(class)') : undefined;
+  const qualify = (name: string) => (owner ? `${owner}.${name}` : name);
+
+  if (ts.isConstructorDeclaration(node)) return qualify('constructor');
+  if (node.name) {
+    const name = node.name.getText(source);
+    if (ts.isGetAccessorDeclaration(node)) return qualify(`get ${name}`);
+    if (ts.isSetAccessorDeclaration(node)) return qualify(`set ${name}`);
+    return qualify(name);
+  }
+
+  if (ts.isFunctionDeclaration(node)) return 'default'; // export default function () {}
+
+  const parent = skipParentheses(node).parent;
+  if (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+    const name = parent.name.getText(source);
+    return ts.isPropertyDeclaration(parent) && ts.isClassLike(parent.parent)
+      ? `${parent.parent.name?.text ?? '(class)'}.${name}`
+      : name;
+  }
+  if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+    return parent.left.getText(source);
+  }
+  if (ts.isExportAssignment(parent)) return 'default';
+  if (ts.isCallExpression(parent)) {
+    const callee = parent.expression.getText(source);
+    return `${callee.length > 40 ? `${callee.slice(0, 37)}...` : callee}() callback`;
+  }
+  return '(anonymous)';
+}
+
+function measure(node: FunctionNode, source: ts.SourceFile, file: string): FunctionMetrics {
+  const name = functionName(node, source);
+  // Bare name for spotting recursion: "Parser.parse" recurses through this.parse or parse
+  const selfName = ts.isConstructorDeclaration(node) ? undefined : name.split('.').pop();
+  let cyclomatic = 1;
+  let cognitive = 0;
+  let maxDepth = 0;
+
+  const visit = (child: ts.Node, nesting: number, depth: number): void => {
+    if (isMeasuredFunction(child)) return; // measured separately
+
+    let childNesting = nesting;
+    let childDepth = depth;
+
+    if (ts.isIfStatement(child)) {
+      cyclomatic++;
+      // An else if costs 1 without nesting; it is visited at its if's level, so its body nests like the if's
+      cognitive += isElseIf(child) ? 1 : 1 + nesting;
+      // A final else is a hybrid increment too
+      if (child.elseStatement && !ts.isIfStatement(child.elseStatement)) cognitive++;
+      maxDepth = Math.max(maxDepth, depth + 1);
+
+      visit(child.expression, nesting, depth);
+      visit(child.thenStatement, nesting + 1, depth + 1);
+      if (child.elseStatement) {
+        const elseIf = ts.isIfStatement(child.elseStatement);
+        visit(child.elseStatement, elseIf ? nesting : nesting + 1, elseIf ? depth : depth + 1);
+      }
+      return;
+    }
+
+    if (isLoop(child)) {
+      cyclomatic++;
+      cognitive += 1 + nesting;
+      childNesting++;
+      childDepth++;
+    } else if (ts.isSwitchStatement(child)) {
+      cognitive += 1 + nesting;
+      childNesting++;
+      childDepth++;
+    } else if (ts.isCaseClause(child)) {
+      cyclomatic++;
+    } else if (ts.isTryStatement(child)) {
+      childDepth++;
+    } else if (ts.isCatchClause(child)) {
+      cyclomatic++;
+      cognitive += 1 + nesting;
+      childNesting++;
+    } else if (ts.isConditionalExpression(child)) {
+      cyclomatic++;
+      cognitive += 1 + nesting;
+      childNesting++;
+    } else if (ts.isBinaryExpression(child)) {
+      if (LOGICAL_OPERATORS.has(child.operatorToken.kind)) {
+        cyclomatic++;
+        let outer = child.parent;
+        while (ts.isParenthesizedExpression(outer)) outer = outer.parent;
+        if (!isLogical(outer)) {
+          const operators = logicalOperators(child);
+          cognitive += operators.filter((operator, i) => i === 0 || operator !== operators[i - 1]).length;
+        }
+      } else if (LOGICAL_ASSIGNMENTS.has(child.operatorToken.kind)) {
+        cyclomatic++;
+      }
+    } else if ((ts.isBreakStatement(child) || ts.isContinueStatement(child)) && child.label) {
+      cognitive++;
+    } else if (ts.isCallExpression(child) && selfName) {
+      const callee = child.expression;
+      const called = ts.isIdentifier(callee)
+        ? callee.text
+        : ts.isPropertyAccessExpression(callee) && callee.expression.kind === ts.SyntaxKind.ThisKeyword
+          ? callee.name.text
+          : undefined;
+      if (called === selfName) cognitive++;
+    }
+
+    maxDepth = Math.max(maxDepth, childDepth);
+    ts.forEachChild(child, grandchild => visit(grandchild, childNesting, childDepth));
+  };
+
+  if (node.body && ts.isBlock(node.body)) ts.forEachChild(node.body, child => visit(child, 0, 0));
+  else if (node.body) visit(node.body, 0, 0);
+
+  const start = source.getLineAndCharacterOfPosition(node.getStart(source));
+  const end = source.getLineAndCharacterOfPosition(node.getEnd());
+  return {
+    name,
+    file,
+    line: start.line + 1,
+    column: start.character + 1,
+    endLine: end.line + 1,
+    lines: end.line - start.line + 1,
+    parameters: node.parameters.length,
+    cyclomatic,
+    cognitive,
+    nesting: maxDepth
+  };
+}
+
+/**
+ * Metrics for every function, method and arrow function with a body
+ */
+export function analyzeFunctions(file: SourceFile): FunctionMetrics[] {
+  const functions: FunctionMetrics[] = [];
+  const visit = (node: ts.Node) => {
+    if (isMeasuredFunction(node)) functions.push(measure(node, file.source, file.path));
+    ts.forEachChild(node, visit);
+  };
+  visit(file.source);
+  return functions;
+}
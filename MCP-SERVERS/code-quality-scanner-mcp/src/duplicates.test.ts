@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicates } from './duplicates.js';
+import { parseSource } from './files.js';
+
+const BLOCK = `
+  const response = await fetch(url, { method: 'POST', body: JSON.stringify(payload) });
+  if (!response.ok) {
+    throw new Error(\`Request failed with \${response.status}\`);
+  }
+  const data = await response.json();
+  return { data, status: response.status };
+`;
+
+describe('findDuplicates', () => {
+  it('should find a block repeated across files, ignoring comments and formatting', () => {
+    const a = parseSource('src/a.ts', `import { x } from './x';\nexport async function a(url: string, payload: unknown) {${BLOCK}}\n`);
+    const b = parseSource(
+      'src/b.ts',
+      `// other file\n\n\nexport async function b(url: string, payload: unknown) {\n  // same code\n${BLOCK.replace(/\n {2}/g, '\n    ')}}\n`
+    );
+    const result = findDuplicates([a, b], { minTokens: 30, minLines: 5 });
+    expect(result.duplicates).toHaveLength(1);
+    expect(result.duplicates[0]).toMatchObject({
+      original: { file: 'src/a.ts', startLine: 2 },
+      duplicate: { file: 'src/b.ts', startLine: 4 },
+      lines: 10
+    });
+    expect(result.duplicatedLines).toBe(16);
+    expect(result.percentage).toBe(100);
+  });
+
+  it('should find repeats within a file without reporting every window', () => {
+    const code = `function one() {${BLOCK}}\nfunction two() {${BLOCK}}\nfunction three() {${BLOCK}}\n`;
+    const result = findDuplicates([parseSource('src/repeat.ts', code)], { minTokens: 30, minLines: 5 });
+    // two and three each repeat one, not each other
+    expect(result.duplicates.map(d => [d.original.startLine, d.duplicate.startLine])).toEqual([
+      [1, 9],
+      [1, 17]
+    ]);
+  });
+
+  it('should ignore blocks under the size limits', () => {
+    const a = parseSource('src/a.ts', `const total = items.reduce((sum, item) => sum + item.price, 0);`);
+    const b = parseSource('src/b.ts', `const total = items.reduce((sum, item) => sum + item.price, 0);`);
+    expect(findDuplicates([a, b]).duplicates).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Duplicate code detection over AST tokens
+ *
+ * Files are reduced to their tokens (comments and whitespace dropped,
+ * imports and exports lists skipped), every window of `minTokens` tokens is
+ * hashed, and matching windows are extended to the longest common run. Each
+ * block is reported against the first place it appears.
+ */
+
+import ts from 'typescript';
+import { SourceFile } from './files.js';
+
+export interface DuplicateOptions {
+  minTokens: number;
+  minLines: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateOptions = { minTokens: 50, minLines: 5 };
+
+export interface CodeRange {
+  file: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface Duplicate {
+  tokens: number;
+  lines: number;
+  /** The block's first appearance */
+  original: CodeRange;
+  duplicate: CodeRange;
+}
+
+export interface DuplicationResult {
+  duplicates: Duplicate[];
+  duplicatedLines: number;
+  /** Lines with code, i.e. not blank or comment-only */
+  codeLines: number;
+  percentage: number;
+}
+
+interface Token {
+  id: number;
+  line: number;
+  endLine: number;
+}
+
+const HASH_BASE = 1_000_003;
+const HASH_MOD = 2_147_483_647;
+
+/**
+ * Leaf tokens of a file with their lines; `ids` interns token text across files
+ */
+export function tokenize(file: SourceFile, ids: Map<string, number>): Token[] {
+  const { source } = file;
+  const tokens: Token[] = [];
+  const visit = (node: ts.Node) => {
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) return;
+    if (ts.isImportDeclaration(node) || (ts.isExportDeclaration(node) && node.moduleSpecifier)) return;
+    const children = node.getChildren(source);
+    if (children.length === 0) {
+      if (node.kind === ts.SyntaxKind.EndOfFileToken) return;
+      const text = node.getText(source);
+      if (!ids.has(text)) ids.set(text, ids.size + 1);
+      tokens.push({
+        id: ids.get(text)!,
+        line: source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1,
+        endLine: source.getLineAndCharacterOfPosition(node.getEnd()).line + 1
+      });
+      return;
+    }
+    children.forEach(visit);
+  };
+  visit(source);
+  return tokens;
+}
+
+function codeLines(tokens: Token[]): Set<number> {
+  const lines = new Set<number>();
+  for (const token of tokens) {
+    for (let line = token.line; line <= token.endLine; line++) lines.add(line);
+  }
+  return lines;
+}
+
+/**
+ * Find blocks of at least `minTokens` tokens spanning `minLines` lines that
+ * appear more than once, within or across files
+ */
+export function findDuplicates(files: SourceFile[], options: DuplicateOptions = DEFAULT_DUPLICATE_OPTIONS): DuplicationResult {
+  const ids = new Map<string, number>();
+  const tokenized = files.map(file => ({ path: file.path, tokens: tokenize(file, ids) }));
+  const windows = new Map<number, Array<{ file: number; index: number }>>();
+  const duplicates: Duplicate[] = [];
+  const duplicated = tokenized.map(() => new Set<number>());
+  const width = options.minTokens;
+
+  // HASH_BASE^(width-1), to drop the leading token from the rolling hash
+  let leading = 1;
+  for (let i = 1; i < width; i++) leading = (leading * HASH_BASE) % HASH_MOD;
+
+  tokenized.forEach(({ tokens }, fileIndex) => {
+    if (tokens.length < width) return;
+    // Run already reported for each partner alignment, to skip its inner windows
+    const covered = new Map<string, number>();
+    let hash = 0;
+    for (let i = 0; i < tokens.length; i++) {
+      if (i >= width) hash = (hash - ((tokens[i - width].id * leading) % HASH_MOD) + HASH_MOD) % HASH_MOD;
+      hash = (hash * HASH_BASE + tokens[i].id) % HASH_MOD;
+      if (i < width - 1) continue;
+      const start = i - width + 1;
+
+      const candidates = windows.get(hash) ?? [];
+      for (const candidate of candidates) {
+        const other = tokenized[candidate.file].tokens;
+        const alignment = `${candidate.file}:${candidate.index - start}`;
+        if ((covered.get(alignment) ?? -1) > start) break;
+        if (candidate.file === fileIndex && candidate.index + width > start) continue; // overlaps itself
+        let same = true;
+        for (let k = 0; k < width && same; k++) same = other[candidate.index + k].id === tokens[start + k].id;
+        if (!same) continue;
+
+        let length = width;
+        while (
+          start + length < tokens.length &&
+          candidate.index + length < other.length &&
+          !(candidate.file === fileIndex && candidate.index + length >= start) &&
+          other[candidate.index + length].id === tokens[start + length].id
+        ) {
+          length++;
+        }
+        covered.set(alignment, start + length);
+
+        const original = { file: tokenized[candidate.file].path, startLine: other[candidate.index].line, endLine: other[candidate.index + length - 1].endLine };
+        const copy = { file: tokenized[fileIndex].path, startLine: tokens[start].line, endLine: tokens[start + length - 1].endLine };
+        const lines = copy.endLine - copy.startLine + 1;
+        if (lines >= options.minLines) {
+          duplicates.push({ tokens: length, lines, original, duplicate: copy });
+          for (let line = original.startLine; line <= original.endLine; line++) duplicated[candidate.file].add(line);
+          for (let line = copy.startLine; line <= copy.endLine; line++) duplicated[fileIndex].add(line);
+        }
+        break; // only against the first appearance
+      }
+
+      if (!windows.has(hash)) windows.set(hash, []);
+      windows.get(hash)!.push({ file: fileIndex, index: start });
+    }
+  });
+
+  const lines = tokenized.map(({ tokens }) => codeLines(tokens));
+  const total = lines.reduce((sum, set) => sum + set.size, 0);
+  const duplicatedLines = duplicated.reduce(
+    (sum, set, i) => sum + [...set].filter(line => lines[i].has(line)).length,
+    0
+  );
+  return {
+    duplicates: duplicates.sort((a, b) => b.tokens - a.tokens),
+    duplicatedLines,
+    codeLines: total,
+    percentage: total > 0 ? Math.round((duplicatedLines / total) * 1000) / 10 : 0
+  };
+}
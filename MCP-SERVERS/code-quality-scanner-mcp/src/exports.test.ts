@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { compilerOptions, findDeadExports, packageEntryPoints } from './exports.js';
+import { loadSources } from './files.js';
+
+describe('findDeadExports', () => {
+  let dir: string;
+
+  const write = async (files: Record<string, string>) => {
+    for (const [path, content] of Object.entries(files)) {
+      await fs.mkdir(dirname(join(dir, path)), { recursive: true });
+      await fs.writeFile(join(dir, path), content);
+    }
+  };
+  const dead = async (entryPoints: string[] = ['src/index.ts']) => {
+    const files = await loadSources(dir, ['src'], ['node_modules']);
+    const result = findDeadExports(dir, files, { compilerOptions: compilerOptions(dir), entryPoints });
+    return result.deadExports.map(item => `${item.file}:${item.name}`);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'quality-exports-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report exports nothing imports, following .js specifiers and re-exports', async () => {
+    await write({
+      'src/index.ts': "export { format } from './format.js';\nexport * from './types.js';\n",
+      'src/format.ts': "import { pad } from './util.js';\nexport function format() { return pad(); }\nexport const unusedHelper = 1;\n",
+      'src/util.ts': 'export const pad = () => "";\nexport function trim() {}\n',
+      'src/types.ts': 'export interface Options {}\nexport type Mode = "a";\n',
+      'src/lazy.ts': 'export default function lazy() {}\n',
+      'src/app.ts': "export async function load() { return import('./lazy'); }\n",
+      'src/app.test.ts': "import { load } from './app';\nexport const fixture = 1;\n"
+    });
+    expect(await dead()).toEqual(['src/format.ts:unusedHelper', 'src/util.ts:trim']);
+  });
+
+  it('should resolve tsconfig path aliases', async () => {
+    await write({
+      'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'] } } }),
+      'src/index.ts': "import { used } from '@/lib/values';\nexport const main = used;\n",
+      'src/lib/values.ts': 'export const used = 1;\nexport const unused = 2;\n'
+    });
+    expect(await dead()).toEqual(['src/lib/values.ts:unused']);
+  });
+
+  it('should report exports of files that are not entry points', async () => {
+    await write({ 'src/index.ts': 'export const api = 1;\n' });
+    expect(await dead([])).toEqual(['src/index.ts:api']);
+  });
+});
+
+describe('packageEntryPoints', () => {
+  it('should map built outputs back to source files', () => {
+    expect(
+      packageEntryPoints(
+        { main: 'dist/index.js', bin: { cli: './dist/cli.js' }, exports: { './utils': { import: './lib/utils.mjs' } } },
+        ['src/index.ts', 'src/cli.ts', 'src/utils.ts', 'src/other.ts']
+      )
+    ).toEqual(['src/index.ts', 'src/cli.ts', 'src/utils.ts']);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Dead export detection
+ *
+ * Collects every file's exports and every import, re-export, `import()` and
+ * `require()` between project files, resolved the way TypeScript resolves
+ * modules (so tsconfig paths and `.js` specifiers for `.ts` files work). An
+ * export no other file imports is dead, unless its file is an entry point.
+ * Test files count as importers but their own exports are not reported.
+ */
+
+import { dirname, join, relative, resolve } from 'path';
+import ts from 'typescript';
+import { SourceFile, globToRegExp } from './files.js';
+
+export interface DeadExport {
+  file: string;
+  name: string;
+  line: number;
+  column: number;
+  kind: string;
+}
+
+export interface DeadExportResult {
+  entryPoints: string[];
+  exports: number;
+  deadExports: DeadExport[];
+  /** Import specifiers that point into the project but don't resolve, e.g. missing files */
+  unresolved: Array<{ file: string; specifier: string }>;
+}
+
+interface ExportInfo {
+  name: string;
+  line: number;
+  column: number;
+  kind: string;
+}
+
+interface ModuleInfo {
+  exports: ExportInfo[];
+  /** Names re-exported from another module: local name → [module, imported name] */
+  reexports: Map<string, [string, string]>;
+  /** Modules whose exports this one passes through with export * */
+  starExports: string[];
+}
+
+const ALL = '*';
+
+function exportKind(node: ts.Node): string {
+  if (ts.isFunctionDeclaration(node)) return 'function';
+  if (ts.isClassDeclaration(node)) return 'class';
+  if (ts.isInterfaceDeclaration(node)) return 'interface';
+  if (ts.isTypeAliasDeclaration(node)) return 'type';
+  if (ts.isEnumDeclaration(node)) return 'enum';
+  if (ts.isModuleDeclaration(node)) return 'namespace';
+  return 'variable';
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some(modifier => modifier.kind === kind);
+}
+
+function bindingNames(name: ts.BindingName): ts.Identifier[] {
+  if (ts.isIdentifier(name)) return [name];
+  return name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+}
+
+/**
+ * Compiler options from the project's tsconfig, or defaults that resolve
+ * JS and TS files the way Node does
+ */
+export function compilerOptions(root: string, tsconfig = 'tsconfig.json'): ts.CompilerOptions {
+  const path = resolve(root, tsconfig);
+  const config = ts.readConfigFile(path, ts.sys.readFile);
+  if (config.error) return { allowJs: true, moduleResolution: ts.ModuleResolutionKind.Node10 };
+  const parsed = ts.parseJsonConfigFileContent(config.config, ts.sys, dirname(path));
+  return { allowJs: true, ...parsed.options };
+}
+
+/**
+ * Entry points from package.json main/module/types/bin/exports; built
+ * outputs such as dist/index.js map back to the matching source file
+ */
+export function packageEntryPoints(packageJson: Record<string, unknown> | undefined, files: string[]): string[] {
+  if (!packageJson) return [];
+  const targets: string[] = [];
+  const collect = (value: unknown) => {
+    if (typeof value === 'string') targets.push(value);
+    else if (value && typeof value === 'object') Object.values(value).forEach(collect);
+  };
+  ['main', 'module', 'types', 'bin', 'exports'].forEach(field => collect(packageJson[field]));
+
+  const known = new Set(files);
+  const entries = new Set<string>();
+  for (const target of targets) {
+    const path = target.replace(/^\.\//, '');
+    const stem = path.replace(/\.(d\.ts|[cm]?[jt]sx?)$/, '');
+    const inSource = stem.replace(/^(dist|build|lib|out)\//, 'src/');
+    for (const candidate of [path, ...['.ts', '.tsx', '.js', '.jsx', '.mts', '.mjs'].flatMap(ext => [`${stem}${ext}`, `${inSource}${ext}`])]) {
+      if (known.has(candidate)) {
+        entries.add(candidate);
+        break;
+      }
+    }
+  }
+  return [...entries];
+}
+
+/**
+ * Exports no other project file uses
+ */
+export function findDeadExports(
+  root: string,
+  files: SourceFile[],
+  options: { compilerOptions: ts.CompilerOptions; entryPoints: string[] }
+): DeadExportResult {
+  const byPath = new Map(files.map(file => [file.path, file]));
+  const modules = new Map<string, ModuleInfo>();
+  // Names used from each module; '*' means all of them
+  const used = new Map<string, Set<string>>();
+  const unresolved: DeadExportResult['unresolved'] = [];
+  const cache = ts.createModuleResolutionCache(root, name => name, options.compilerOptions);
+
+  const resolveModule = (specifier: string, from: string): string | undefined => {
+    const { resolvedModule } = ts.resolveModuleName(specifier, join(root, from), options.compilerOptions, ts.sys, cache);
+    if (resolvedModule) {
+      const path = relative(root, resolvedModule.resolvedFileName).split('\\').join('/');
+      return byPath.has(path) ? path : undefined;
+    }
+    if (specifier.startsWith('.')) unresolved.push({ file: from, specifier });
+    return undefined;
+  };
+  const use = (module: string | undefined, name: string) => {
+    if (!module) return;
+    if (!used.has(module)) used.set(module, new Set());
+    used.get(module)!.add(name);
+  };
+
+  for (const file of files) {
+    const { source } = file;
+    const info: ModuleInfo = { exports: [], reexports: new Map(), starExports: [] };
+    const position = (node: ts.Node) => {
+      const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+      return { line: line + 1, column: character + 1 };
+    };
+    const addExport = (name: string, node: ts.Node, kind: string) => info.exports.push({ name, kind, ...position(node) });
+
+    for (const statement of source.statements) {
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        const module = resolveModule(statement.moduleSpecifier.text, file.path);
+        const clause = statement.importClause;
+        if (!clause) continue;
+        if (clause.name) use(module, 'default');
+        const bindings = clause.namedBindings;
+        if (bindings && ts.isNamespaceImport(bindings)) use(module, ALL);
+        if (bindings && ts.isNamedImports(bindings)) {
+          for (const element of bindings.elements) use(module, (element.propertyName ?? element.name).text);
+        }
+      } else if (ts.isImportEqualsDeclaration(statement) && ts.isExternalModuleReference(statement.moduleReference)) {
+        const expression = statement.moduleReference.expression;
+        if (ts.isStringLiteral(expression)) use(resolveModule(expression.text, file.path), ALL);
+      } else if (ts.isExportDeclaration(statement)) {
+        const module =
+          statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+            ? resolveModule(statement.moduleSpecifier.text, file.path)
+            : undefined;
+        const clause = statement.exportClause;
+        if (!clause) {
+          if (module) info.starExports.push(module);
+        } else if (ts.isNamespaceExport(clause)) {
+          addExport(clause.name.text, clause, 'namespace');
+          if (module) info.reexports.set(clause.name.text, [module, ALL]);
+        } else {
+          for (const element of clause.elements) {
+            addExport(element.name.text, element, statement.moduleSpecifier ? 're-export' : 'export');
+            if (module) info.reexports.set(element.name.text, [module, (element.propertyName ?? element.name).text]);
+          }
+        }
+      } else if (ts.isExportAssignment(statement)) {
+        addExport('default', statement, 'default');
+      } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+        if (ts.isVariableStatement(statement)) {
+          for (const declaration of statement.declarationList.declarations) {
+            for (const name of bindingNames(declaration.name)) addExport(name.text, name, 'variable');
+          }
+        } else {
+          const named = statement as ts.DeclarationStatement;
+          addExport(isDefault ? 'default' : (named.name?.getText(source) ?? 'default'), named.name ?? statement, exportKind(statement));
+        }
+      }
+    }
+
+    // import('./x') and require('./x') anywhere in the file
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteral(node.arguments[0])) {
+        const isImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+        if (isImport || isRequire) use(resolveModule(node.arguments[0].text, file.path), ALL);
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(source);
+    modules.set(file.path, info);
+  }
+
+  const entryMatchers = options.entryPoints.map(globToRegExp);
+  const entryPoints = files.map(file => file.path).filter(path => entryMatchers.some(matcher => matcher.test(path)));
+  for (const entry of entryPoints) use(entry, ALL);
+
+  // Follow used names through re-exports until nothing changes
+  const isUsedName = (module: string, name: string) => {
+    const names = used.get(module);
+    return names !== undefined && (names.has(ALL) || names.has(name));
+  };
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const mark = (module: string, name: string) => {
+      if (!isUsedName(module, name)) {
+        use(module, name);
+        changed = true;
+      }
+    };
+    for (const [path, info] of modules) {
+      for (const [name, [module, imported]] of info.reexports) {
+        if (isUsedName(path, name)) mark(module, imported);
+      }
+      const names = used.get(path);
+      if (!names) continue;
+      const local = new Set(info.exports.map(item => item.name));
+      for (const module of info.starExports) {
+        for (const name of names) {
+          if (name === ALL) {
+            for (const item of modules.get(module)?.exports ?? []) if (item.name !== 'default') mark(module, item.name);
+            for (const star of modules.get(module)?.starExports ?? []) mark(star, ALL);
+          } else if (!local.has(name)) {
+            mark(module, name);
+          }
+        }
+      }
+    }
+  }
+
+  const deadExports: DeadExport[] = [];
+  let total = 0;
+  for (const file of files) {
+    if (file.isTest) continue;
+    for (const item of modules.get(file.path)!.exports) {
+      total++;
+      if (!isUsedName(file.path, item.name)) deadExports.push({ file: file.path, ...item });
+    }
+  }
+  return { entryPoints, exports: total, deadExports, unresolved };
+}
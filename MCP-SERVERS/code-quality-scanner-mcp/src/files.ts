@@ -0,0 +1,97 @@
+/**
+ * Source file discovery and parsing
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative } from 'path';
+import ts from 'typescript';
+
+export const DEFAULT_INCLUDE = ['src'];
+export const DEFAULT_EXCLUDE = ['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '*.d.ts'];
+
+const SOURCE_EXTENSIONS = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+const TEST_FILE = /(\.|\/|^)(test|spec)\.[cm]?[jt]sx?$|(^|\/)__tests__\//;
+
+export interface SourceFile {
+  /** Project-relative path with forward slashes */
+  path: string;
+  source: ts.SourceFile;
+  isTest: boolean;
+}
+
+/**
+ * Convert a simple glob (`*`, `**`, `?`) into a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * An exclude entry matches a path segment by name, a path prefix, or a glob
+ * (globs without a slash match the file name)
+ */
+export function isExcluded(path: string, exclude: string[]): boolean {
+  const segments = path.split('/');
+  return exclude.some(entry => {
+    const pattern = entry.replace(/\/+$/, '');
+    if (/[*?]/.test(pattern)) {
+      return globToRegExp(pattern).test(pattern.includes('/') ? path : segments[segments.length - 1]);
+    }
+    return segments.includes(pattern) || path === pattern || path.startsWith(`${pattern}/`);
+  });
+}
+
+export function isTestFile(path: string): boolean {
+  return TEST_FILE.test(path);
+}
+
+function scriptKind(path: string): ts.ScriptKind {
+  if (/\.[cm]?tsx$/.test(path)) return ts.ScriptKind.TSX;
+  if (/\.[cm]?ts$/.test(path)) return ts.ScriptKind.TS;
+  return ts.ScriptKind.JSX;
+}
+
+export function parseSource(path: string, code: string): SourceFile {
+  return {
+    path,
+    source: ts.createSourceFile(path, code, ts.ScriptTarget.Latest, true, scriptKind(path)),
+    isTest: isTestFile(path)
+  };
+}
+
+/**
+ * Parse the TS/JS files under the include paths, in path order
+ */
+export async function loadSources(root: string, include: string[], exclude: string[]): Promise<SourceFile[]> {
+  const files = new Map<string, SourceFile>();
+
+  const walk = async (path: string): Promise<void> => {
+    const rel = relative(root, path).split('\\').join('/');
+    if (rel && isExcluded(rel, exclude)) return;
+    const stat = await fs.stat(path).catch(() => undefined);
+    if (!stat) return;
+    if (stat.isDirectory()) {
+      for (const entry of (await fs.readdir(path)).sort()) await walk(join(path, entry));
+    } else if (SOURCE_EXTENSIONS.test(path) && !files.has(rel)) {
+      files.set(rel, parseSource(rel, await fs.readFile(path, 'utf-8')));
+    }
+  };
+
+  for (const path of include) await walk(join(root, path));
+  return [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
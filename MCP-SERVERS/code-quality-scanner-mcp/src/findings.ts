@@ -0,0 +1,187 @@
+/**
+ * Threshold checks turning metrics into findings
+ */
+
+import { FunctionMetrics } from './complexity.js';
+import { DuplicationResult } from './duplicates.js';
+import { DeadExportResult } from './exports.js';
+
+export type Level = 'error' | 'warning' | 'note';
+
+export interface Thresholds {
+  cyclomatic: number;
+  cognitive: number;
+  nesting: number;
+  /** Lines per function */
+  functionLength: number;
+  parameters: number;
+  /** Duplicated lines as a share of code lines, in percent */
+  duplication: number;
+}
+
+export const DEFAULT_THRESHOLDS: Thresholds = {
+  cyclomatic: 10,
+  cognitive: 15,
+  nesting: 4,
+  functionLength: 60,
+  parameters: 5,
+  duplication: 5
+};
+
+export interface Rule {
+  id: string;
+  name: string;
+  description: string;
+  level: Level;
+  help: string;
+}
+
+export const RULES: Record<string, Rule> = {
+  'cyclomatic-complexity': {
+    id: 'cyclomatic-complexity',
+    name: 'CyclomaticComplexity',
+    description: 'Function has too many independent paths',
+    level: 'error',
+    help: 'Split the function, or replace condition chains with lookups or early returns'
+  },
+  'cognitive-complexity': {
+    id: 'cognitive-complexity',
+    name: 'CognitiveComplexity',
+    description: 'Function is hard to follow',
+    level: 'error',
+    help: 'Flatten nested conditions with guard clauses and extract nested logic into named functions'
+  },
+  'max-nesting': {
+    id: 'max-nesting',
+    name: 'MaxNesting',
+    description: 'Blocks are nested too deeply',
+    level: 'error',
+    help: 'Return early or extract the inner blocks into functions'
+  },
+  'function-length': {
+    id: 'function-length',
+    name: 'FunctionLength',
+    description: 'Function is too long',
+    level: 'error',
+    help: 'Extract cohesive steps into their own functions'
+  },
+  'max-parameters': {
+    id: 'max-parameters',
+    name: 'MaxParameters',
+    description: 'Function takes too many parameters',
+    level: 'error',
+    help: 'Group related parameters into an options object'
+  },
+  'duplicate-code': {
+    id: 'duplicate-code',
+    name: 'DuplicateCode',
+    description: 'Block of code is duplicated',
+    level: 'warning',
+    help: 'Extract the shared code into a function or module'
+  },
+  'duplication-ratio': {
+    id: 'duplication-ratio',
+    name: 'DuplicationRatio',
+    description: 'Too much of the code is duplicated',
+    level: 'error',
+    help: 'Remove the largest duplicate blocks first'
+  },
+  'dead-export': {
+    id: 'dead-export',
+    name: 'DeadExport',
+    description: 'Export is never imported',
+    level: 'warning',
+    help: 'Remove the export, or the code if nothing uses it locally either'
+  }
+};
+
+export interface Finding {
+  ruleId: string;
+  level: Level;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  /** Measured value and the threshold it exceeds */
+  value?: number;
+  threshold?: number;
+  /** Second location, for duplicates */
+  related?: { file: string; startLine: number; endLine: number };
+}
+
+const FUNCTION_CHECKS: Array<{ rule: string; metric: keyof FunctionMetrics; threshold: keyof Thresholds; label: string }> = [
+  { rule: 'cyclomatic-complexity', metric: 'cyclomatic', threshold: 'cyclomatic', label: 'cyclomatic complexity' },
+  { rule: 'cognitive-complexity', metric: 'cognitive', threshold: 'cognitive', label: 'cognitive complexity' },
+  { rule: 'max-nesting', metric: 'nesting', threshold: 'nesting', label: 'nesting depth' },
+  { rule: 'function-length', metric: 'lines', threshold: 'functionLength', label: 'length' },
+  { rule: 'max-parameters', metric: 'parameters', threshold: 'parameters', label: 'parameter count' }
+];
+
+/**
+ * Findings for every metric over its threshold, each duplicate block and
+ * each dead export
+ */
+export function evaluate(
+  results: { functions: FunctionMetrics[]; duplication?: DuplicationResult; deadExports?: DeadExportResult },
+  thresholds: Thresholds
+): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const fn of results.functions) {
+    for (const check of FUNCTION_CHECKS) {
+      const value = fn[check.metric] as number;
+      const limit = thresholds[check.threshold];
+      if (value <= limit) continue;
+      findings.push({
+        ruleId: check.rule,
+        level: RULES[check.rule].level,
+        message: `${fn.name} has a ${check.label} of ${value}${check.metric === 'lines' ? ' lines' : ''} (limit ${limit})`,
+        file: fn.file,
+        line: fn.line,
+        column: fn.column,
+        endLine: fn.endLine,
+        value,
+        threshold: limit
+      });
+    }
+  }
+
+  if (results.duplication) {
+    for (const duplicate of results.duplication.duplicates) {
+      const { original } = duplicate;
+      findings.push({
+        ruleId: 'duplicate-code',
+        level: RULES['duplicate-code'].level,
+        message: `${duplicate.lines} lines (${duplicate.tokens} tokens) duplicate ${original.file}:${original.startLine}-${original.endLine}`,
+        file: duplicate.duplicate.file,
+        line: duplicate.duplicate.startLine,
+        endLine: duplicate.duplicate.endLine,
+        value: duplicate.tokens,
+        related: original
+      });
+    }
+    if (results.duplication.percentage > thresholds.duplication) {
+      findings.push({
+        ruleId: 'duplication-ratio',
+        level: RULES['duplication-ratio'].level,
+        message: `${results.duplication.percentage}% of code lines are duplicated (limit ${thresholds.duplication}%)`,
+        value: results.duplication.percentage,
+        threshold: thresholds.duplication
+      });
+    }
+  }
+
+  for (const dead of results.deadExports?.deadExports ?? []) {
+    findings.push({
+      ruleId: 'dead-export',
+      level: RULES['dead-export'].level,
+      message: `${dead.kind === 'default' ? 'Default export' : `Export ${dead.name}`} is not imported by any other file`,
+      file: dead.file,
+      line: dead.line,
+      column: dead.column
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,124 @@
+/**
+ * Quality report assembly and markdown rendering
+ */
+
+import { FunctionMetrics } from './complexity.js';
+import { DuplicationResult } from './duplicates.js';
+import { DeadExportResult } from './exports.js';
+import { Finding, Level, Thresholds, evaluate } from './findings.js';
+
+export type ReportFormat = 'json' | 'markdown' | 'sarif';
+export type FailOn = Level | 'none';
+
+const LEVEL_ORDER: Level[] = ['error', 'warning', 'note'];
+
+export interface QualityReport {
+  passed: boolean;
+  failOn: FailOn;
+  summary: {
+    files: number;
+    functions: number;
+    averageCyclomatic: number;
+    averageCognitive: number;
+    duplication: number;
+    deadExports: number;
+    findings: Record<Level, number>;
+  };
+  thresholds: Thresholds;
+  /** The most complex functions, by cognitive complexity */
+  hotspots: FunctionMetrics[];
+  findings: Finding[];
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : 0;
+}
+
+/**
+ * Check the results against the thresholds; the report fails when there is
+ * a finding at or above the `failOn` level
+ */
+export function buildReport(
+  results: { files: number; functions: FunctionMetrics[]; duplication: DuplicationResult; deadExports: DeadExportResult },
+  thresholds: Thresholds,
+  failOn: FailOn
+): QualityReport {
+  const findings = evaluate(results, thresholds).sort(
+    (a, b) =>
+      LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level) ||
+      (a.file ?? '').localeCompare(b.file ?? '') ||
+      (a.line ?? 0) - (b.line ?? 0)
+  );
+  const counts: Record<Level, number> = { error: 0, warning: 0, note: 0 };
+  findings.forEach(finding => counts[finding.level]++);
+  const failing = failOn === 'none' ? [] : LEVEL_ORDER.slice(0, LEVEL_ORDER.indexOf(failOn) + 1);
+
+  return {
+    passed: !failing.some(level => counts[level] > 0),
+    failOn,
+    summary: {
+      files: results.files,
+      functions: results.functions.length,
+      averageCyclomatic: average(results.functions.map(fn => fn.cyclomatic)),
+      averageCognitive: average(results.functions.map(fn => fn.cognitive)),
+      duplication: results.duplication.percentage,
+      deadExports: results.deadExports.deadExports.length,
+      findings: counts
+    },
+    thresholds,
+    hotspots: [...results.functions]
+      .sort((a, b) => b.cognitive - a.cognitive || b.cyclomatic - a.cyclomatic)
+      .slice(0, 10),
+    findings
+  };
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+export function renderMarkdown(report: QualityReport): string {
+  const { summary, thresholds } = report;
+  const lines = [
+    '# Code Quality Report',
+    '',
+    `**Result:** ${report.passed ? 'passed' : 'failed'} (fails on ${report.failOn === 'none' ? 'nothing' : `${report.failOn}s`})`,
+    '',
+    '| Metric | Value | Threshold |',
+    '|--------|-------|-----------|',
+    `| Files | ${summary.files} | |`,
+    `| Functions | ${summary.functions} | |`,
+    `| Average cyclomatic complexity | ${summary.averageCyclomatic} | ${thresholds.cyclomatic} per function |`,
+    `| Average cognitive complexity | ${summary.averageCognitive} | ${thresholds.cognitive} per function |`,
+    `| Duplicated lines | ${summary.duplication}% | ${thresholds.duplication}% |`,
+    `| Dead exports | ${summary.deadExports} | |`,
+    `| Findings | ${summary.findings.error} errors, ${summary.findings.warning} warnings | |`,
+    '',
+    '## Hotspots',
+    ''
+  ];
+
+  if (report.hotspots.length === 0) {
+    lines.push('No functions.', '');
+  } else {
+    lines.push('| Function | Location | Cognitive | Cyclomatic | Nesting | Lines |', '|---|---|---|---|---|---|');
+    for (const fn of report.hotspots) {
+      lines.push(`| ${cell(fn.name)} | ${fn.file}:${fn.line} | ${fn.cognitive} | ${fn.cyclomatic} | ${fn.nesting} | ${fn.lines} |`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Findings', '');
+  if (report.findings.length === 0) {
+    lines.push('No findings.', '');
+  } else {
+    lines.push('| Level | Rule | Location | Message |', '|---|---|---|---|');
+    for (const finding of report.findings) {
+      const location = finding.file ? `${finding.file}${finding.line ? `:${finding.line}` : ''}` : '';
+      lines.push(`| ${finding.level} | ${finding.ruleId} | ${location} | ${cell(finding.message)} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,103 @@
+/**
+ * SARIF 2.1.0 export
+ *
+ * Converts quality findings into a SARIF log for GitHub code scanning and
+ * other SARIF viewers.
+ */
+
+import { Finding, RULES } from './findings.js';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  help: { text: string };
+  defaultConfiguration: { level: string };
+  properties: { tags: string[] };
+}
+
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string };
+    region: { startLine: number; startColumn?: number; endLine?: number };
+  };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: string;
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: Array<SarifLocation & { id: number }>;
+  properties?: { value?: number; threshold?: number };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; version: string; rules: SarifRule[] } };
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Build a SARIF log; findings without a file (project-wide ratios) are
+ * attached to the project root
+ */
+export function toSarif(findings: Finding[]): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  const results = findings.map(finding => {
+    if (!ruleIndex.has(finding.ruleId)) {
+      const rule = RULES[finding.ruleId];
+      ruleIndex.set(finding.ruleId, rules.length);
+      rules.push({
+        id: rule.id,
+        name: rule.name,
+        shortDescription: { text: rule.description },
+        help: { text: rule.help },
+        defaultConfiguration: { level: rule.level },
+        properties: { tags: ['maintainability'] }
+      });
+    }
+
+    const result: SarifResult = {
+      ruleId: finding.ruleId,
+      ruleIndex: ruleIndex.get(finding.ruleId)!,
+      level: finding.level,
+      message: { text: finding.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: finding.file ?? '.' },
+            region: { startLine: finding.line ?? 1, startColumn: finding.column, endLine: finding.endLine }
+          }
+        }
+      ]
+    };
+    if (finding.related) {
+      result.relatedLocations = [
+        {
+          id: 1,
+          physicalLocation: {
+            artifactLocation: { uri: finding.related.file },
+            region: { startLine: finding.related.startLine, endLine: finding.related.endLine }
+          }
+        }
+      ];
+    }
+    if (finding.value !== undefined) result.properties = { value: finding.value, threshold: finding.threshold };
+    return result;
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{ tool: { driver: { name: 'code-quality-scanner-mcp', version: '1.0.0', rules } }, results }]
+  };
+}
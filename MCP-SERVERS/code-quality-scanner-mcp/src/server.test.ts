@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { TestClient } from '@ai-dev-standards/mcp-server-base';
+import { CodeQualityScannerServer } from './server.js';
+import { QualityReport } from './report.js';
+import { SarifLog } from './sarif.js';
+
+const NESTED = `
+export function route(request: { method: string; path: string; user?: { admin: boolean } }) {
+  if (request.method === 'GET') {
+    for (const part of request.path.split('/')) {
+      if (part.startsWith(':')) {
+        while (part.length > 10) {
+          if (request.user && request.user.admin) {
+            return part;
+          }
+        }
+      }
+    }
+  } else if (request.method === 'POST') {
+    return request.user ? 'create' : 'login';
+  }
+  return null;
+}
+`;
+
+describe('CodeQualityScannerServer', () => {
+  let dir: string;
+  let client: TestClient;
+
+  const write = async (path: string, content: string) => {
+    await fs.mkdir(dirname(join(dir, path)), { recursive: true });
+    await fs.writeFile(join(dir, path), content);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'code-quality-'));
+    await write('package.json', JSON.stringify({ name: 'fixture', main: 'dist/index.js' }));
+    await write('src/index.ts', "export { route } from './router.js';\n");
+    await write('src/router.ts', `${NESTED}\nexport const VERSION = 2;\n`);
+    client = await TestClient.connect(new CodeQualityScannerServer());
+    await client.callTool('configure', { projectPath: dir, thresholds: { cognitive: 10 } });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should rank functions by complexity', async () => {
+    const result = await client.callTool<{ functions: number; overThreshold: Record<string, number>; top: unknown[] }>(
+      'analyze_complexity'
+    );
+    expect(result.data).toMatchObject({
+      functions: 1,
+      overThreshold: { cyclomatic: 0, cognitive: 1, nesting: 1, functionLength: 0, parameters: 0 },
+      top: [{ name: 'route', file: 'src/router.ts', line: 2, cognitive: 19, cyclomatic: 9, nesting: 5 }]
+    });
+  });
+
+  it('should fail the scan on threshold errors and list dead exports', async () => {
+    const { data: report } = await client.callTool<QualityReport>('scan_quality');
+    expect(report.passed).toBe(false);
+    expect(report.findings.map(finding => [finding.ruleId, finding.level, finding.message])).toEqual([
+      ['cognitive-complexity', 'error', 'route has a cognitive complexity of 19 (limit 10)'],
+      ['max-nesting', 'error', 'route has a nesting depth of 5 (limit 4)'],
+      ['dead-export', 'warning', 'Export VERSION is not imported by any other file']
+    ]);
+
+    await client.callTool('configure', {
+      projectPath: dir,
+      thresholds: { cognitive: 20, nesting: 5 },
+      entryPoints: ['src/router.ts']
+    });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect((await client.callTool<QualityReport>('scan_quality')).data).toMatchObject({ passed: true, findings: [] });
+  });
+
+  it('should render markdown and SARIF reports', async () => {
+    const markdown = await client.callTool('scan_quality', { format: 'markdown' });
+    expect(markdown.text).toContain('# Code Quality Report');
+    expect(markdown.text).toContain('| route | src/router.ts:2 | 19 | 9 | 5 | 16 |');
+
+    await client.callTool('scan_quality', { format: 'sarif', outputFile: 'reports/quality.sarif' });
+    const sarif = JSON.parse(await fs.readFile(join(dir, 'reports/quality.sarif'), 'utf-8')) as SarifLog;
+    expect(sarif.runs[0].tool.driver.rules.map(rule => rule.id)).toEqual([
+      'cognitive-complexity',
+      'max-nesting',
+      'dead-export'
+    ]);
+    expect(sarif.runs[0].results[0]).toMatchObject({
+      ruleId: 'cognitive-complexity',
+      level: 'error',
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/router.ts' }, region: { startLine: 2, endLine: 17 } } }],
+      properties: { value: 19, threshold: 10 }
+    });
+  });
+
+  it('should report duplicated blocks', async () => {
+    const body = NESTED.replace('export function route', 'function ');
+    await write('src/copy.ts', `export function copy${body.slice(body.indexOf('('))}`);
+    const result = await client.callTool<{ duplicates: Array<{ original: { file: string }; duplicate: { file: string } }> }>(
+      'find_duplicates'
+    );
+    expect(result.data.duplicates).toHaveLength(1);
+    expect(result.data.duplicates[0]).toMatchObject({ original: { file: 'src/copy.ts' }, duplicate: { file: 'src/router.ts' } });
+  });
+
+  it('should report a missing source directory', async () => {
+    const result = await client.callTool('analyze_complexity', { paths: ['lib'] });
+    expect(result.isError).toBe(true);
+    expect(result.text).toContain('No TypeScript or JavaScript files found in lib');
+  });
+});
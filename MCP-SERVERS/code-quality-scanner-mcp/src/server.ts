@@ -0,0 +1,255 @@
+/**
+ * Code Quality Scanner MCP server
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, relative, resolve } from 'path';
+import { BaseMCPServer, ToolContext, ToolError, z } from '@ai-dev-standards/mcp-server-base';
+import { analyzeFunctions, FunctionMetrics } from './complexity.js';
+import { DEFAULT_DUPLICATE_OPTIONS, DuplicateOptions, findDuplicates } from './duplicates.js';
+import { compilerOptions, findDeadExports, packageEntryPoints } from './exports.js';
+import { DEFAULT_EXCLUDE, DEFAULT_INCLUDE, SourceFile, loadSources } from './files.js';
+import { DEFAULT_THRESHOLDS, Thresholds } from './findings.js';
+import { buildReport, FailOn, renderMarkdown, ReportFormat } from './report.js';
+import { toSarif } from './sarif.js';
+
+export const DEFAULT_ENTRY_POINTS = ['src/index.*', 'index.*', '*.config.*'];
+
+interface Settings {
+  include: string[];
+  exclude: string[];
+  thresholds: Thresholds;
+  duplicates: DuplicateOptions;
+  entryPoints?: string[];
+  tsconfig: string;
+  failOn: FailOn;
+}
+
+const SORT_KEYS = ['cognitive', 'cyclomatic', 'nesting', 'lines', 'parameters'] as const;
+
+const paths = z
+  .array(z.string())
+  .min(1)
+  .optional()
+  .describe('Files or directories to analyze instead of the configured include paths');
+
+export class CodeQualityScannerServer extends BaseMCPServer {
+  constructor() {
+    super('code-quality-scanner-mcp', '1.0.0');
+
+    this.addConfigureTool({
+      settings: {
+        include: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 1,
+          description: `Files or directories to scan, relative to the project (default: ${DEFAULT_INCLUDE.join(', ')})`
+        },
+        exclude: {
+          type: 'array',
+          items: { type: 'string' },
+          description: `Directory names, path prefixes or globs to skip (default: ${DEFAULT_EXCLUDE.join(', ')})`
+        },
+        thresholds: {
+          type: 'object',
+          properties: {
+            cyclomatic: { type: 'number', minimum: 1 },
+            cognitive: { type: 'number', minimum: 0 },
+            nesting: { type: 'number', minimum: 0 },
+            functionLength: { type: 'number', minimum: 1 },
+            parameters: { type: 'number', minimum: 0 },
+            duplication: { type: 'number', minimum: 0, maximum: 100 }
+          },
+          additionalProperties: false,
+          description: `Limits per function, and the duplicated share of code in percent (defaults: ${JSON.stringify(DEFAULT_THRESHOLDS)})`
+        },
+        minTokens: {
+          type: 'number',
+          minimum: 10,
+          description: `Smallest duplicate block in tokens (default: ${DEFAULT_DUPLICATE_OPTIONS.minTokens})`
+        },
+        minLines: {
+          type: 'number',
+          minimum: 1,
+          description: `Smallest duplicate block in lines (default: ${DEFAULT_DUPLICATE_OPTIONS.minLines})`
+        },
+        entryPoints: {
+          type: 'array',
+          items: { type: 'string' },
+          description: `Globs of files whose exports are public, besides package.json main/exports/bin (default: ${DEFAULT_ENTRY_POINTS.join(', ')})`
+        },
+        tsconfig: {
+          type: 'string',
+          description: 'tsconfig used to resolve imports, e.g. path aliases (default: tsconfig.json)'
+        },
+        failOn: {
+          type: 'string',
+          enum: ['error', 'warning', 'note', 'none'],
+          description: 'Lowest finding level that fails scan_quality (default: error)'
+        }
+      }
+    });
+
+    this.addTool({
+      name: 'analyze_complexity',
+      description:
+        'Measure cyclomatic and cognitive complexity, nesting depth, length and parameters of every function, using the TypeScript AST',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        paths,
+        sortBy: z.enum(SORT_KEYS).default('cognitive'),
+        limit: z.number().int().min(1).default(20).describe('Number of functions to return')
+      }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const files = (await this.load(root, settings, args.paths)).filter(file => !file.isTest);
+        const functions = files.flatMap(analyzeFunctions);
+        const sortBy = args.sortBy ?? 'cognitive';
+        const over = (metric: keyof FunctionMetrics, limit: number) =>
+          functions.filter(fn => (fn[metric] as number) > limit).length;
+        return {
+          files: files.length,
+          functions: functions.length,
+          overThreshold: {
+            cyclomatic: over('cyclomatic', settings.thresholds.cyclomatic),
+            cognitive: over('cognitive', settings.thresholds.cognitive),
+            nesting: over('nesting', settings.thresholds.nesting),
+            functionLength: over('lines', settings.thresholds.functionLength),
+            parameters: over('parameters', settings.thresholds.parameters)
+          },
+          functionsBy: sortBy,
+          top: [...functions].sort((a, b) => b[sortBy] - a[sortBy]).slice(0, args.limit ?? 20)
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'find_duplicates',
+      description: 'Find blocks of code repeated within or across files, by comparing AST token sequences',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        paths,
+        minTokens: z.number().int().min(10).optional(),
+        minLines: z.number().int().min(1).optional()
+      }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const files = (await this.load(root, settings, args.paths)).filter(file => !file.isTest);
+        return findDuplicates(files, {
+          minTokens: args.minTokens ?? settings.duplicates.minTokens,
+          minLines: args.minLines ?? settings.duplicates.minLines
+        });
+      }
+    });
+
+    this.addTool({
+      name: 'find_dead_exports',
+      description:
+        'Find exports that no other file in the project imports, following re-exports, dynamic imports and tsconfig path aliases',
+      inputSchema: z.object({ projectPath: z.string().optional() }),
+      handler: async (_args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        return this.deadExports(root, settings, await this.load(root, settings));
+      }
+    });
+
+    this.addTool({
+      name: 'scan_quality',
+      description:
+        'Run every check against the configured thresholds and report the findings as JSON, markdown or SARIF; `passed` is false when a finding reaches the failOn level',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        format: z.enum(['json', 'markdown', 'sarif']).default('json'),
+        outputFile: z.string().optional().describe('Write the report to this file, relative to the project')
+      }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const files = await this.load(root, settings);
+        const measured = files.filter(file => !file.isTest);
+        const report = buildReport(
+          {
+            files: measured.length,
+            functions: measured.flatMap(analyzeFunctions),
+            duplication: findDuplicates(measured, settings.duplicates),
+            deadExports: await this.deadExports(root, settings, files)
+          },
+          settings.thresholds,
+          settings.failOn
+        );
+
+        const format: ReportFormat = args.format ?? 'json';
+        const rendered =
+          format === 'markdown'
+            ? renderMarkdown(report)
+            : JSON.stringify(format === 'sarif' ? toSarif(report.findings) : report, null, 2);
+        if (args.outputFile) {
+          const path = resolve(root, args.outputFile);
+          await fs.mkdir(dirname(path), { recursive: true });
+          await fs.writeFile(path, `${rendered}\n`);
+          return { passed: report.passed, summary: report.summary, outputFile: relative(root, path) };
+        }
+        if (format === 'json') return report;
+        return { content: [{ type: 'text', text: rendered }] };
+      }
+    });
+  }
+
+  private root(context: ToolContext): string {
+    return resolve(this.requireProject(context));
+  }
+
+  private settings(context: ToolContext): Settings {
+    const settings = context.settings as Partial<{
+      include: string[];
+      exclude: string[];
+      thresholds: Partial<Thresholds>;
+      minTokens: number;
+      minLines: number;
+      entryPoints: string[];
+      tsconfig: string;
+      failOn: FailOn;
+    }>;
+    return {
+      include: settings.include ?? DEFAULT_INCLUDE,
+      exclude: settings.exclude ?? DEFAULT_EXCLUDE,
+      thresholds: { ...DEFAULT_THRESHOLDS, ...settings.thresholds },
+      duplicates: {
+        minTokens: settings.minTokens ?? DEFAULT_DUPLICATE_OPTIONS.minTokens,
+        minLines: settings.minLines ?? DEFAULT_DUPLICATE_OPTIONS.minLines
+      },
+      entryPoints: settings.entryPoints,
+      tsconfig: settings.tsconfig ?? 'tsconfig.json',
+      failOn: settings.failOn ?? 'error'
+    };
+  }
+
+  private async load(root: string, settings: Settings, include?: string[]): Promise<SourceFile[]> {
+    const files = await loadSources(root, include ?? settings.include, settings.exclude);
+    if (files.length === 0) {
+      throw new ToolError(
+        'no_sources',
+        `No TypeScript or JavaScript files found in ${(include ?? settings.include).join(', ')}`
+      );
+    }
+    return files;
+  }
+
+  private async deadExports(root: string, settings: Settings, files: SourceFile[]) {
+    const packageJson = await fs
+      .readFile(resolve(root, 'package.json'), 'utf-8')
+      .then(text => JSON.parse(text) as Record<string, unknown>)
+      .catch(() => undefined);
+    const entryPoints = [
+      ...packageEntryPoints(
+        packageJson,
+        files.map(file => file.path)
+      ),
+      ...(settings.entryPoints ?? DEFAULT_ENTRY_POINTS)
+    ];
+    return findDeadExports(root, files, { compilerOptions: compilerOptions(root, settings.tsconfig), entryPoints });
+  }
+}
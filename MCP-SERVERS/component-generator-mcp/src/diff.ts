@@ -0,0 +1,78 @@
+/**
+ * Unified diffs for dry runs
+ */
+
+const CONTEXT_LINES = 3;
+
+type Edit = { op: ' ' | '-' | '+'; line: string };
+
+function lines(text: string): string[] {
+  if (text === '') return [];
+  const split = text.split('\n');
+  if (split[split.length - 1] === '') split.pop();
+  return split;
+}
+
+/**
+ * Line edits from the longest common subsequence
+ */
+function edits(before: string[], after: string[]): Edit[] {
+  const n = before.length;
+  const m = after.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && before[i] === after[j]) {
+      result.push({ op: ' ', line: before[i++] });
+      j++;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push({ op: '-', line: before[i++] });
+    } else {
+      result.push({ op: '+', line: after[j++] });
+    }
+  }
+  return result;
+}
+
+/**
+ * Unified diff of two texts; empty when they are equal. A missing file
+ * is diffed against /dev/null.
+ */
+export function unifiedDiff(path: string, before: string | null, after: string): string {
+  if (before === after) return '';
+  const changes = edits(lines(before ?? ''), lines(after));
+
+  // Group changes less than two context windows apart into one hunk
+  const changed = changes.map((c, i) => (c.op === ' ' ? -1 : i)).filter(i => i >= 0);
+  const groups: Array<[number, number]> = [];
+  for (const i of changed) {
+    const last = groups[groups.length - 1];
+    if (last && i - last[1] <= CONTEXT_LINES * 2) last[1] = i;
+    else groups.push([i, i]);
+  }
+
+  const hunks = groups.map(([first, last]) => {
+    const start = Math.max(0, first - CONTEXT_LINES);
+    const end = Math.min(changes.length, last + CONTEXT_LINES + 1);
+    const slice = changes.slice(start, end);
+    const oldStart = changes.slice(0, start).filter(c => c.op !== '+').length;
+    const newStart = changes.slice(0, start).filter(c => c.op !== '-').length;
+    const oldCount = slice.filter(c => c.op !== '+').length;
+    const newCount = slice.filter(c => c.op !== '-').length;
+    return [
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`,
+      ...slice.map(c => `${c.op}${c.line}`)
+    ].join('\n');
+  });
+
+  const header = [`--- ${before === null ? '/dev/null' : `a/${path}`}`, `+++ b/${path}`];
+  return [...header, ...hunks].join('\n') + '\n';
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import ts from 'typescript';
+import { generate } from './generate.js';
+import { componentScaffold, contextScaffold, hookScaffold, pageScaffold } from './scaffolds.js';
+import { listTemplates } from './templates.js';
+
+const BUTTON = {
+  name: 'Button',
+  element: 'button',
+  props: {
+    variant: ['primary', 'secondary', 'outline'],
+    size: { values: ['sm', 'md', 'lg'], default: 'md' },
+    label: 'string',
+    disabled: 'boolean',
+    onClick: 'function'
+  }
+};
+
+function syntaxErrors(fileName: string, source: string): string[] {
+  const output = ts.transpileModule(source, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve, target: ts.ScriptTarget.ES2022 }
+  });
+  return (output.diagnostics ?? []).map(d => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('Generators', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'component-generator-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function read(path: string): Promise<string> {
+    return fs.readFile(join(root, path), 'utf-8');
+  }
+
+  it('should write a component with schema, variants, test, story and index', async () => {
+    const result = await generate(componentScaffold(BUTTON), { projectRoot: root, outputDir: 'components' });
+
+    expect(result.files.map(f => [f.path, f.action])).toEqual([
+      [join('components', 'Button', 'Button.stories.tsx'), 'create'],
+      [join('components', 'Button', 'Button.test.tsx'), 'create'],
+      [join('components', 'Button', 'Button.tsx'), 'create'],
+      [join('components', 'Button', 'index.ts'), 'create']
+    ]);
+    expect(result.warnings).toEqual([]);
+
+    const component = await read('components/Button/Button.tsx');
+    expect(component).toContain("import { cn } from '@/lib/utils/cn'");
+    expect(component).toContain("variant: z.enum(['primary', 'secondary', 'outline']).default('primary'),");
+    expect(component).toContain("size: z.enum(['sm', 'md', 'lg']).default('md'),");
+    expect(component).toContain('export type ButtonProps = z.input<typeof buttonPropsSchema> & {');
+    expect(component).toContain("primary:\n          'bg-blue-600 text-white hover:bg-blue-700 focus-visible:ring-blue-600',");
+    expect(component).toContain("defaultVariants: {\n      variant: 'primary',\n      size: 'md',\n    },");
+    expect(component).toContain('      disabled={props.disabled}\n      onClick={props.onClick}\n');
+    expect(component).toContain(' * <Button variant="secondary" label="Example label">');
+
+    const test = await read('components/Button/Button.test.tsx');
+    expect(test).toContain("import { describe, it, expect, vi } from 'vitest'");
+    expect(test).toContain("const requiredProps = {\n  label: 'Example label',\n}");
+    expect(test).toContain('it("defaults size to \'md\'", () => {');
+    expect(test).toContain("it('calls onClick when clicked', () => {");
+    expect(test).toContain("it('is disabled when disabled prop is true', () => {");
+
+    const story = await read('components/Button/Button.stories.tsx');
+    expect(story).toContain("options: ['primary', 'secondary', 'outline'],");
+    expect(story).toContain("onClick: { action: 'onClick' },");
+    expect(story).toContain("export const Outline: Story = {\n  args: {\n    variant: 'outline',\n  },\n}");
+
+    expect(await read('components/Button/index.ts')).toBe(
+      "export { Button, buttonPropsSchema, buttonVariants } from './Button'\nexport type { ButtonProps } from './Button'\n"
+    );
+
+    for (const file of result.files) {
+      expect(syntaxErrors(file.path, await read(file.path)), file.path).toEqual([]);
+    }
+  });
+
+  it('should leave out tests and stories on request and skip variants without options', async () => {
+    const result = await generate(
+      componentScaffold({ name: 'Panel', props: { title: 'string', disabled: 'boolean' }, includeTests: false, includeStories: false }),
+      { projectRoot: root, outputDir: 'components' }
+    );
+
+    expect(result.files.map(f => f.path)).toEqual([join('components', 'Panel', 'Panel.tsx'), join('components', 'Panel', 'index.ts')]);
+    const component = await read('components/Panel/Panel.tsx');
+    expect(component).not.toContain('cva');
+    expect(component).toContain('aria-disabled={props.disabled}');
+    expect(component).toContain("className={cn('rounded-lg', className)}");
+  });
+
+  it('should write hooks, contexts and pages that parse', async () => {
+    const files = [
+      ...(await generate(hookScaffold({ name: 'useSearch', params: { query: 'string', limit: { type: 'number', default: 10 } } }), { projectRoot: root, outputDir: 'hooks' })).files,
+      ...(await generate(contextScaffold({ name: 'ThemeContext', state: { mode: ['light', 'dark'], accent: 'string' } }), { projectRoot: root, outputDir: 'contexts' })).files,
+      ...(await generate(pageScaffold({ path: '/blog/[slug]', layout: 'dashboard' }), { projectRoot: root, outputDir: 'app' })).files,
+      ...(await generate(pageScaffold({ path: '/(auth)/login', layout: 'auth', title: 'Sign in <now>' }), { projectRoot: root, outputDir: 'app' })).files
+    ];
+
+    expect(files.map(f => f.path)).toEqual([
+      join('hooks', 'useSearch.test.ts'),
+      join('hooks', 'useSearch.ts'),
+      join('contexts', 'ThemeContext.test.tsx'),
+      join('contexts', 'ThemeContext.tsx'),
+      join('app', 'blog', '[slug]', 'page.tsx'),
+      join('app', '(auth)', 'login', 'page.tsx')
+    ]);
+    for (const file of files) {
+      expect(syntaxErrors(file.path, await read(file.path)), file.path).toEqual([]);
+    }
+
+    const hook = await read('hooks/useSearch.ts');
+    expect(hook).toMatch(/^\/\*\*[\s\S]*\*\/\n\n'use client'\n/);
+    expect(hook).toContain('export type UseSearchOptions = z.input<typeof useSearchOptionsSchema>');
+
+    const context = await read('contexts/ThemeContext.tsx');
+    expect(context).toContain('const ThemeContext = createContext<ThemeContextValue | undefined>(undefined)');
+    expect(context).toContain("throw new Error('useTheme must be used within ThemeProvider')");
+    expect(context).toContain('  initialState: z.input<typeof themeStateSchema>\n');
+
+    const page = await read('app/blog/[slug]/page.tsx');
+    expect(page).toContain('export default async function BlogSlugPage({');
+    expect(page).toContain('const { slug } = await params');
+    expect(page).toContain("title: 'Blog',");
+    expect(await read('app/(auth)/login/page.tsx')).toContain('\n          Sign in &lt;now&gt;\n');
+  });
+
+  it('should refuse to overwrite changed files unless asked', async () => {
+    const scaffold = componentScaffold(BUTTON);
+    await generate(scaffold, { projectRoot: root, outputDir: 'components' });
+    await fs.writeFile(join(root, 'components/Button/Button.tsx'), '// edited\n');
+
+    await expect(generate(scaffold, { projectRoot: root, outputDir: 'components' })).rejects.toThrow(
+      `Refusing to overwrite existing files: ${join('components', 'Button', 'Button.tsx')} (pass overwrite: true`
+    );
+    expect(await read('components/Button/Button.tsx')).toBe('// edited\n');
+
+    const result = await generate(scaffold, { projectRoot: root, outputDir: 'components', overwrite: true });
+    expect(result.files.map(f => f.action)).toEqual(['unchanged', 'unchanged', 'overwrite', 'unchanged']);
+    expect(await read('components/Button/Button.tsx')).toContain('export function Button(');
+  });
+
+  it('should return diffs without writing on a dry run', async () => {
+    const scaffold = hookScaffold({ name: 'useSearch', includeTests: false });
+    const created = await generate(scaffold, { projectRoot: root, outputDir: 'hooks', dryRun: true });
+
+    expect(created.dryRun).toBe(true);
+    expect(created.files[0].action).toBe('create');
+    expect(created.files[0].diff).toMatch(/^--- \/dev\/null\n\+\+\+ b\/hooks\/useSearch\.ts\n@@ -0,0 \+1,\d+ @@\n\+\/\*\*/);
+    await expect(fs.access(join(root, 'hooks'))).rejects.toThrow();
+
+    await generate(scaffold, { projectRoot: root, outputDir: 'hooks' });
+    const original = await read('hooks/useSearch.ts');
+    await fs.writeFile(join(root, 'hooks/useSearch.ts'), original.replace('const [loading, setLoading] = useState(false)', 'const [loading, setLoading] = useState(true)'));
+
+    const changed = await generate(scaffold, { projectRoot: root, outputDir: 'hooks', dryRun: true });
+    expect(changed.files[0].action).toBe('overwrite');
+    expect(changed.files[0].diff).toContain('-  const [loading, setLoading] = useState(true)\n+  const [loading, setLoading] = useState(false)\n');
+    expect(changed.warnings).toEqual(['1 existing file(s) differ; writing them needs overwrite: true']);
+  });
+
+  it('should use project template overrides', async () => {
+    await fs.mkdir(join(root, '.component-templates', 'component'), { recursive: true });
+    await fs.writeFile(join(root, '.component-templates', 'component', 'index.ts.hbs'), "export * from './{{name}}'\n");
+    await fs.writeFile(join(root, '.component-templates', 'component', '__name__.module.css.hbs'), '.{{camelName}} {color:red}\n');
+
+    const result = await generate(componentScaffold({ name: 'Card', includeStories: false }), { projectRoot: root, outputDir: 'src/components' });
+
+    expect(result.files.map(f => [f.path.split(/[\\/]/).pop(), f.template === 'built-in'])).toEqual([
+      ['Card.test.tsx', true],
+      ['Card.tsx', true],
+      ['index.ts', false],
+      ['Card.module.css', false]
+    ]);
+    expect(await read('src/components/Card/index.ts')).toBe("export * from './Card'\n");
+    expect(await read('src/components/Card/Card.module.css')).toBe('.card {\n  color: red;\n}\n');
+
+    const listed = await listTemplates({ projectRoot: root }, 'component');
+    expect(listed.overrides).toEqual([join(root, '.component-templates')]);
+    expect(listed.templates.component.map(t => t.file)).toContain('__name__.module.css');
+  });
+
+  it('should prefer an explicit templates directory and report bad ones', async () => {
+    await fs.mkdir(join(root, 'custom', 'page'), { recursive: true });
+    await fs.writeFile(join(root, 'custom', 'page', 'page.tsx.hbs'), 'export default function {{componentName}}() { return null }\n');
+
+    await generate(pageScaffold({ path: '/about' }), { projectRoot: root, outputDir: 'app', templatesDir: 'custom' });
+    expect(await read('app/about/page.tsx')).toBe('export default function AboutPage() {\n  return null\n}\n');
+
+    await expect(generate(pageScaffold({ path: '/about' }), { projectRoot: root, outputDir: 'app', templatesDir: 'missing' })).rejects.toThrow(
+      `Templates directory not found: ${join(root, 'missing')}`
+    );
+    expect(() => pageScaffold({ path: '/about', layout: 'sidebar' })).toThrow('Unknown layout: sidebar (expected default, dashboard, auth)');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Render a scaffold's templates and write the files
+ *
+ * Nothing is written when any target already exists with different
+ * content, unless overwrite is set. A dry run returns unified diffs instead
+ * of writing.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import * as prettier from 'prettier';
+import { unifiedDiff } from './diff.js';
+import { Scaffold } from './scaffolds.js';
+import { loadTemplates, outputName, render } from './templates.js';
+
+// Matches COMPONENTS when the project has no Prettier config
+const DEFAULT_PRETTIER: prettier.Options = {
+  semi: false,
+  singleQuote: true,
+  trailingComma: 'es5'
+};
+
+export type FileAction = 'create' | 'overwrite' | 'unchanged';
+
+export interface GenerateOptions {
+  outputDir: string;
+  /** Base for relative paths and project template overrides; defaults to cwd */
+  projectRoot?: string;
+  templatesDir?: string;
+  dryRun?: boolean;
+  overwrite?: boolean;
+}
+
+export interface GeneratedFile {
+  /** Relative to the project root */
+  path: string;
+  action: FileAction;
+  template: string;
+  diff?: string;
+}
+
+export interface GenerationResult {
+  kind: string;
+  name: string;
+  dryRun: boolean;
+  files: GeneratedFile[];
+  warnings: string[];
+}
+
+async function readExisting(path: string): Promise<string | null> {
+  try {
+    return await fs.readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Format with the project's Prettier config; unformatted output and a
+ * warning when Prettier cannot parse the file
+ */
+export async function format(path: string, content: string): Promise<{ content: string; warning?: string }> {
+  const info = await prettier.getFileInfo(path);
+  if (!info.inferredParser) return { content };
+  try {
+    const config = await prettier.resolveConfig(path);
+    return { content: await prettier.format(content, { ...(config ?? DEFAULT_PRETTIER), filepath: path }) };
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return { content, warning: `Could not format ${path}: ${message}` };
+  }
+}
+
+export async function generate(scaffold: Scaffold, options: GenerateOptions): Promise<GenerationResult> {
+  const projectRoot = resolve(options.projectRoot ?? process.cwd());
+  const directory = resolve(projectRoot, options.outputDir, scaffold.directory);
+  const templates = await loadTemplates(scaffold.kind, { projectRoot, templatesDir: options.templatesDir });
+  const warnings: string[] = [];
+
+  const planned = [];
+  for (const template of templates) {
+    const name = outputName(template, scaffold.fileName);
+    if (!scaffold.include(name)) continue;
+
+    const path = join(directory, name);
+    const formatted = await format(path, render(template, scaffold.data));
+    if (formatted.warning) warnings.push(formatted.warning);
+
+    const existing = await readExisting(path);
+    const action: FileAction = existing === null ? 'create' : existing === formatted.content ? 'unchanged' : 'overwrite';
+    planned.push({ path, existing, content: formatted.content, action, template: template.builtin ? 'built-in' : template.source });
+  }
+
+  const conflicts = planned.filter(file => file.action === 'overwrite');
+  if (conflicts.length > 0 && !options.overwrite && !options.dryRun) {
+    throw new Error(
+      `Refusing to overwrite existing files: ${conflicts.map(file => relative(projectRoot, file.path)).join(', ')} (pass overwrite: true to replace them, or dryRun: true to see the changes)`
+    );
+  }
+
+  if (options.dryRun && conflicts.length > 0 && !options.overwrite) {
+    warnings.push(`${conflicts.length} existing file(s) differ; writing them needs overwrite: true`);
+  }
+
+  if (!options.dryRun) {
+    for (const file of planned.filter(f => f.action !== 'unchanged')) {
+      await fs.mkdir(dirname(file.path), { recursive: true });
+      await fs.writeFile(file.path, file.content);
+    }
+  }
+
+  return {
+    kind: scaffold.kind,
+    name: scaffold.name,
+    dryRun: Boolean(options.dryRun),
+    files: planned.map(file => {
+      const path = relative(projectRoot, file.path);
+      return {
+        path,
+        action: file.action,
+        template: file.template,
+        ...(options.dryRun && file.action !== 'unchanged' ? { diff: unifiedDiff(path, file.existing, file.content) } : {})
+      };
+    }),
+    warnings
+  };
+}
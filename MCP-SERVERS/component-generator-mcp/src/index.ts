@@ -3,115 +3,167 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { resolve } from 'path';
+import { generate, GenerateOptions } from './generate.js';
+import {
+  componentScaffold,
+  ComponentArgs,
+  contextScaffold,
+  ContextArgs,
+  hookScaffold,
+  HookArgs,
+  pageScaffold,
+  PageArgs
+} from './scaffolds.js';
+import { listTemplates, TEMPLATE_KINDS } from './templates.js';
 
 const server = new Server(
   { name: 'component-generator-mcp', version: '1.0.0' },
   { capabilities: { tools: {} } }
 );
 
+const WRITE_OPTIONS = {
+  dryRun: { type: 'boolean', default: false, description: 'Return unified diffs instead of writing files' },
+  overwrite: { type: 'boolean', default: false, description: 'Replace existing files that differ' },
+  templatesDir: { type: 'string', description: 'Directory of template overrides, laid out like templates/<kind>/' },
+  projectRoot: { type: 'string', description: 'Project directory; outputDir and .component-templates are resolved against it (default: cwd)' }
+};
+
+const PROPS_DESCRIPTION =
+  'Name to type: "string", "number", "boolean", "function", "node", "date", "string[]", a list of options, or { type, values, optional, default, description }. A trailing ? marks it optional.';
+
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
     {
       name: 'generate_component',
-      description: 'Generate a React/Next.js component with TypeScript, tests, and stories',
+      description: 'Generate a React/Next.js component with a Zod props schema, Tailwind variants, a vitest test and a Storybook story',
       inputSchema: {
         type: 'object',
         properties: {
           name: { type: 'string', description: 'Component name (PascalCase)' },
           props: {
             type: 'object',
-            description: 'Component props with types',
+            description: `Component props. ${PROPS_DESCRIPTION} Options become cva variants.`,
             additionalProperties: true
           },
+          description: { type: 'string', description: 'One-line summary for the doc comment' },
+          element: { type: 'string', default: 'div', description: 'Root HTML element' },
           includeTests: { type: 'boolean', default: true },
           includeStories: { type: 'boolean', default: true },
-          outputDir: { type: 'string', default: './components' }
+          outputDir: { type: 'string', default: './components' },
+          ...WRITE_OPTIONS
         },
         required: ['name']
       }
     },
     {
       name: 'generate_hook',
-      description: 'Generate a custom React hook with TypeScript',
+      description: 'Generate a custom React hook with Zod-validated options and a vitest test',
       inputSchema: {
         type: 'object',
         properties: {
           name: { type: 'string', description: 'Hook name (camelCase with use prefix)' },
-          params: { type: 'object', description: 'Hook parameters' },
-          outputDir: { type: 'string', default: './hooks' }
+          params: { type: 'object', description: `Hook options. ${PROPS_DESCRIPTION}` },
+          description: { type: 'string', description: 'One-line summary for the doc comment' },
+          includeTests: { type: 'boolean', default: true },
+          outputDir: { type: 'string', default: './hooks' },
+          ...WRITE_OPTIONS
         },
         required: ['name']
       }
     },
     {
       name: 'generate_context',
-      description: 'Generate a React context provider with TypeScript',
+      description: 'Generate a React context provider with a Zod state schema, a guarded hook and a vitest test',
       inputSchema: {
         type: 'object',
         properties: {
           name: { type: 'string', description: 'Context name (PascalCase)' },
-          state: { type: 'object', description: 'Context state shape' },
-          outputDir: { type: 'string', default: './contexts' }
+          state: { type: 'object', description: `Context state shape. ${PROPS_DESCRIPTION}` },
+          description: { type: 'string', description: 'One-line summary for the doc comment' },
+          includeTests: { type: 'boolean', default: true },
+          outputDir: { type: 'string', default: './contexts' },
+          ...WRITE_OPTIONS
         },
         required: ['name']
       }
     },
     {
       name: 'generate_page',
-      description: 'Generate a Next.js page component',
+      description: 'Generate a Next.js App Router page',
       inputSchema: {
         type: 'object',
         properties: {
-          path: { type: 'string', description: 'Page route path' },
-          layout: { type: 'string', enum: ['default', 'dashboard', 'auth'] },
-          outputDir: { type: 'string', default: './app' }
+          path: { type: 'string', description: 'Page route path, e.g. /blog/[slug] or /(auth)/login' },
+          layout: { type: 'string', enum: ['default', 'dashboard', 'auth'], default: 'default' },
+          title: { type: 'string', description: 'Page title (default: from the last route segment)' },
+          outputDir: { type: 'string', default: './app' },
+          ...WRITE_OPTIONS
         },
         required: ['path']
       }
+    },
+    {
+      name: 'list_templates',
+      description: 'List the templates each generator uses, showing which come from overrides',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: TEMPLATE_KINDS },
+          templatesDir: WRITE_OPTIONS.templatesDir,
+          projectRoot: WRITE_OPTIONS.projectRoot
+        }
+      }
     }
   ]
 }));
 
+function writeOptions(args: Record<string, unknown>, outputDir: string): GenerateOptions {
+  return {
+    outputDir: (args.outputDir as string | undefined) ?? outputDir,
+    projectRoot: args.projectRoot as string | undefined,
+    templatesDir: args.templatesDir as string | undefined,
+    dryRun: args.dryRun === true,
+    overwrite: args.overwrite === true
+  };
+}
+
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
-    const { name, arguments: args } = request.params;
+    const { name, arguments: args = {} } = request.params;
+    let result: unknown;
 
     switch (name) {
       case 'generate_component':
-        return {
-          content: [{
-            type: 'text',
-            text: `Component generation configured for: ${args?.name}\nOutputDir: ${args?.outputDir || './components'}`
-          }]
-        };
+        result = await generate(componentScaffold(args as unknown as ComponentArgs), writeOptions(args, './components'));
+        break;
 
       case 'generate_hook':
-        return {
-          content: [{
-            type: 'text',
-            text: `Hook generation configured for: ${args?.name}`
-          }]
-        };
+        result = await generate(hookScaffold(args as unknown as HookArgs), writeOptions(args, './hooks'));
+        break;
 
       case 'generate_context':
-        return {
-          content: [{
-            type: 'text',
-            text: `Context generation configured for: ${args?.name}`
-          }]
-        };
+        result = await generate(contextScaffold(args as unknown as ContextArgs), writeOptions(args, './contexts'));
+        break;
 
       case 'generate_page':
-        return {
-          content: [{
-            type: 'text',
-            text: `Page generation configured for path: ${args?.path}`
-          }]
-        };
+        result = await generate(pageScaffold(args as unknown as PageArgs), writeOptions(args, './app'));
+        break;
+
+      case 'list_templates':
+        result = await listTemplates(
+          { projectRoot: resolve((args.projectRoot as string | undefined) ?? process.cwd()), templatesDir: args.templatesDir as string | undefined },
+          args.kind as string | undefined
+        );
+        break;
 
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
+
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+    };
   } catch (error) {
     return {
       content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
@@ -0,0 +1,92 @@
+/**
+ * Names and routes
+ */
+
+function words(input: string): string[] {
+  return input
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+export function pascalCase(input: string): string {
+  return words(input)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+export function camelCase(input: string): string {
+  const pascal = pascalCase(input);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+export function kebabCase(input: string): string {
+  return words(input)
+    .map(word => word.toLowerCase())
+    .join('-');
+}
+
+/**
+ * "Button" — PascalCase identifier
+ */
+export function componentName(input: unknown): string {
+  if (typeof input !== 'string' || !/^[A-Z][A-Za-z0-9]*$/.test(input)) {
+    throw new Error(`Invalid component name: ${String(input)} (expected PascalCase, e.g. ${pascalCase(String(input ?? '')) || 'UserCard'})`);
+  }
+  return input;
+}
+
+/**
+ * "useLocalStorage" — camelCase with the use prefix
+ */
+export function hookName(input: unknown): string {
+  if (typeof input !== 'string' || !/^use[A-Z][A-Za-z0-9]*$/.test(input)) {
+    const suggestion = `use${pascalCase(String(input ?? '').replace(/^use/, ''))}`;
+    throw new Error(`Invalid hook name: ${String(input)} (expected camelCase with the use prefix, e.g. ${suggestion})`);
+  }
+  return input;
+}
+
+export interface RouteSegment {
+  /** As written: "settings", "[id]", "(auth)" */
+  segment: string;
+  /** Dynamic segment parameter: id for [id], slug for [...slug] */
+  param?: string;
+  catchAll?: boolean;
+}
+
+export interface Route {
+  /** Normalized route, e.g. /blog/[slug] */
+  path: string;
+  segments: RouteSegment[];
+  /** Name for the page component: BlogSlugPage, HomePage */
+  componentName: string;
+  params: RouteSegment[];
+}
+
+/**
+ * Parse a Next.js App Router path: static segments, [param], [...param],
+ * [[...param]] and (group) segments
+ */
+export function parseRoute(input: unknown): Route {
+  if (typeof input !== 'string') {
+    throw new Error('Page path is required, e.g. /dashboard/settings');
+  }
+  const segments = input.split('/').filter(Boolean).map((segment): RouteSegment => {
+    const dynamic = segment.match(/^\[{1,2}(\.\.\.)?([A-Za-z_][A-Za-z0-9_]*)\]{1,2}$/);
+    if (dynamic) return { segment, param: dynamic[2], catchAll: Boolean(dynamic[1]) };
+    if (/^\([a-z0-9-]+\)$/.test(segment) || /^[a-z0-9][a-z0-9-_.]*$/.test(segment)) return { segment };
+    throw new Error(`Invalid route segment: ${segment} (use lower-case, [param], [...param] or (group))`);
+  });
+
+  // Route groups do not name the page
+  const named = segments.filter(s => !s.segment.startsWith('('));
+  const base = named.map(s => pascalCase(s.param ?? s.segment)).join('');
+  return {
+    path: `/${segments.map(s => s.segment).join('/')}`,
+    segments,
+    componentName: `${base || 'Home'}Page`,
+    params: segments.filter(s => s.param)
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { unifiedDiff } from './diff.js';
+import { componentName, hookName, kebabCase, parseRoute } from './naming.js';
+import { parseProp, parseProps } from './props.js';
+
+describe('Props', () => {
+  it('should turn option lists into enums defaulting to the first option', () => {
+    expect(parseProp('variant', ['primary', 'secondary'])).toMatchObject({
+      kind: 'enum',
+      zod: "z.enum(['primary', 'secondary']).default('primary')",
+      optional: true,
+      defaultValue: "'primary'",
+      options: ['primary', 'secondary'],
+      sample: "'secondary'"
+    });
+  });
+
+  it('should make flags, handlers and nodes optional unless stated', () => {
+    const [title, subtitle, disabled, onClick, tags] = parseProps({
+      title: 'string',
+      subtitle: 'string?',
+      disabled: 'boolean',
+      onClick: { type: 'function', optional: false },
+      'tags?': 'string[]'
+    });
+
+    expect(title).toMatchObject({ zod: 'z.string()', optional: false });
+    expect(subtitle).toMatchObject({ zod: 'z.string().optional()', optional: true });
+    expect(disabled).toMatchObject({ zod: 'z.boolean().optional()', optional: true });
+    expect(onClick).toMatchObject({ zod: 'z.function()', optional: false, testSample: 'vi.fn()' });
+    expect(tags).toMatchObject({ name: 'tags', kind: 'array', zod: 'z.array(z.string()).optional()', tsType: 'string[]' });
+  });
+
+  it('should apply defaults and descriptions', () => {
+    expect(parseProp('count', { type: 'number', default: 10, description: "Items per 'page'" }).zod).toBe(
+      "z.number().describe('Items per \\'page\\'').default(10)"
+    );
+  });
+
+  it('should reject unsupported types and names', () => {
+    expect(() => parseProp('when', 'datetime')).toThrow('Unsupported type for when: datetime');
+    expect(() => parseProp('my-prop', 'string')).toThrow('Invalid prop name: my-prop');
+    expect(() => parseProp('size', [])).toThrow('Options for size must be a non-empty list of strings');
+    expect(() => parseProps(['title'])).toThrow('props must be an object');
+  });
+});
+
+describe('Names', () => {
+  it('should validate component and hook names with a suggestion', () => {
+    expect(componentName('UserCard')).toBe('UserCard');
+    expect(() => componentName('user-card')).toThrow('Invalid component name: user-card (expected PascalCase, e.g. UserCard)');
+    expect(hookName('useLocalStorage')).toBe('useLocalStorage');
+    expect(() => hookName('local-storage')).toThrow('e.g. useLocalStorage');
+    expect(kebabCase('HTMLEditor')).toBe('html-editor');
+  });
+
+  it('should parse App Router paths', () => {
+    const route = parseRoute('/(marketing)/blog/[slug]/[[...rest]]');
+    expect(route.path).toBe('/(marketing)/blog/[slug]/[[...rest]]');
+    expect(route.componentName).toBe('BlogSlugRestPage');
+    expect(route.params).toEqual([
+      { segment: '[slug]', param: 'slug', catchAll: false },
+      { segment: '[[...rest]]', param: 'rest', catchAll: true }
+    ]);
+    expect(parseRoute('/').componentName).toBe('HomePage');
+    expect(() => parseRoute('/Settings')).toThrow('Invalid route segment: Settings');
+  });
+});
+
+describe('Diffs', () => {
+  it('should diff new files against /dev/null', () => {
+    expect(unifiedDiff('a.ts', null, 'one\ntwo\n')).toBe('--- /dev/null\n+++ b/a.ts\n@@ -0,0 +1,2 @@\n+one\n+two\n');
+    expect(unifiedDiff('a.ts', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('should keep three lines of context and split distant changes into hunks', () => {
+    const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[17] = 'changed 18';
+
+    const diff = unifiedDiff('a.ts', before.join('\n') + '\n', after.join('\n') + '\n');
+    expect(diff.split('\n').filter(line => line.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+    expect(diff).toContain('-line 2\n+changed 2\n');
+  });
+});
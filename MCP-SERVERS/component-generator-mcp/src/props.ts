@@ -0,0 +1,149 @@
+/**
+ * Prop and state specifications
+ *
+ * Tools describe props compactly and each becomes a Zod schema entry,
+ * the way COMPONENTS/forms/useForm validates form values:
+ *
+ *   { variant: ['primary', 'secondary'], title: 'string', subtitle: 'string?',
+ *     count: { type: 'number', default: 0, description: 'Items shown' } }
+ *
+ * Lists of options become z.enum() and, on components, Tailwind variants.
+ */
+
+export type PropKind = 'string' | 'number' | 'boolean' | 'function' | 'node' | 'date' | 'enum' | 'array';
+
+export type PropSpec =
+  | string
+  | string[]
+  | {
+    type?: string;
+    values?: string[];
+    optional?: boolean;
+    default?: unknown;
+    description?: string;
+  };
+
+export interface PropDefinition {
+  name: string;
+  kind: PropKind;
+  /** Zod expression, e.g. z.enum(['sm', 'md']).default('md') */
+  zod: string;
+  /** TypeScript type of the parsed value */
+  tsType: string;
+  /** The caller may leave it out (optional or defaulted) */
+  optional: boolean;
+  /** Code literal of the default */
+  defaultValue?: string;
+  options?: string[];
+  description?: string;
+  /** Example value for stories */
+  sample: string;
+  /** Example value for tests (functions are vi.fn()) */
+  testSample: string;
+}
+
+const SCALARS: Record<string, { kind: PropKind; zod: string; tsType: string }> = {
+  string: { kind: 'string', zod: 'z.string()', tsType: 'string' },
+  number: { kind: 'number', zod: 'z.number()', tsType: 'number' },
+  boolean: { kind: 'boolean', zod: 'z.boolean()', tsType: 'boolean' },
+  function: { kind: 'function', zod: 'z.function()', tsType: '(...args: unknown[]) => unknown' },
+  node: { kind: 'node', zod: 'z.custom<React.ReactNode>()', tsType: 'React.ReactNode' },
+  reactnode: { kind: 'node', zod: 'z.custom<React.ReactNode>()', tsType: 'React.ReactNode' },
+  date: { kind: 'date', zod: 'z.date()', tsType: 'Date' }
+};
+
+// Optional unless stated: a missing flag or handler is the common case
+const OPTIONAL_BY_DEFAULT = new Set<PropKind>(['boolean', 'function', 'node']);
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function resolveType(type: string, name: string): { kind: PropKind; zod: string; tsType: string } {
+  const array = type.match(/^(.+)\[\]$/);
+  if (array) {
+    const item = resolveType(array[1], name);
+    return { kind: 'array', zod: `z.array(${item.zod})`, tsType: `${item.tsType.includes(' ') ? `(${item.tsType})` : item.tsType}[]` };
+  }
+  const scalar = SCALARS[type.toLowerCase()];
+  if (!scalar) {
+    throw new Error(
+      `Unsupported type for ${name}: ${type} (expected string, number, boolean, function, node, date, an array like string[], or a list of options)`
+    );
+  }
+  return scalar;
+}
+
+function sampleFor(kind: PropKind, name: string, options?: string[]): { sample: string; testSample: string } {
+  switch (kind) {
+    case 'enum': {
+      const value = literal(options![options!.length > 1 ? 1 : 0]);
+      return { sample: value, testSample: value };
+    }
+    case 'string':
+      return { sample: literal(`Example ${name}`), testSample: literal(`Example ${name}`) };
+    case 'number':
+      return { sample: '42', testSample: '42' };
+    case 'boolean':
+      return { sample: 'true', testSample: 'true' };
+    case 'function':
+      return { sample: '() => {}', testSample: 'vi.fn()' };
+    case 'node':
+      return { sample: literal(name === 'children' ? 'Content' : name), testSample: literal(name === 'children' ? 'Content' : name) };
+    case 'date':
+      return { sample: "new Date('2024-01-01')", testSample: "new Date('2024-01-01')" };
+    default:
+      return { sample: '[]', testSample: '[]' };
+  }
+}
+
+export function parseProp(key: string, spec: PropSpec): PropDefinition {
+  const name = key.replace(/\?$/, '');
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+    throw new Error(`Invalid prop name: ${key}`);
+  }
+  const detail = typeof spec === 'object' && !Array.isArray(spec) ? spec : {};
+  const options = Array.isArray(spec) ? spec : detail.values;
+
+  let resolved: { kind: PropKind; zod: string; tsType: string };
+  if (options) {
+    if (options.length === 0 || !options.every(o => typeof o === 'string')) {
+      throw new Error(`Options for ${name} must be a non-empty list of strings`);
+    }
+    resolved = { kind: 'enum', zod: `z.enum([${options.map(literal).join(', ')}])`, tsType: options.map(literal).join(' | ') };
+  } else {
+    const type = typeof spec === 'string' ? spec : detail.type;
+    if (!type) throw new Error(`Prop ${name} needs a type`);
+    resolved = resolveType(type.replace(/\?$/, ''), name);
+  }
+
+  // Enums default to their first option, like defaultVariants on Button
+  const explicitDefault = detail.default !== undefined ? literal(detail.default) : undefined;
+  const defaultValue = explicitDefault ?? (resolved.kind === 'enum' && detail.optional === undefined ? literal(options![0]) : undefined);
+  const markedOptional = key.endsWith('?') || (typeof spec === 'string' && spec.endsWith('?'));
+  const optional = markedOptional || detail.optional === true || defaultValue !== undefined || (detail.optional === undefined && OPTIONAL_BY_DEFAULT.has(resolved.kind));
+
+  let zod = resolved.zod;
+  if (detail.description) zod += `.describe(${literal(detail.description)})`;
+  if (defaultValue !== undefined) zod += `.default(${defaultValue})`;
+  else if (optional) zod += '.optional()';
+
+  return {
+    name,
+    ...resolved,
+    zod,
+    optional,
+    defaultValue,
+    options,
+    description: detail.description,
+    ...sampleFor(resolved.kind, name, options)
+  };
+}
+
+export function parseProps(spec: unknown): PropDefinition[] {
+  if (spec === undefined || spec === null) return [];
+  if (typeof spec !== 'object' || Array.isArray(spec)) {
+    throw new Error('props must be an object of name to type, e.g. { "title": "string", "size": ["sm", "md"] }');
+  }
+  return Object.entries(spec as Record<string, PropSpec>).map(([key, value]) => parseProp(key, value));
+}
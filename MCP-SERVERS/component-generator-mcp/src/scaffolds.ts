@@ -0,0 +1,280 @@
+/**
+ * Template data for each kind of scaffold
+ *
+ * Conventions follow COMPONENTS: Zod schemas as in forms/useForm, cva
+ * variant maps and cn() as in ui-components/Button, guarded context hooks
+ * as in feedback/Toast.
+ */
+
+import { camelCase, componentName, hookName, kebabCase, parseRoute, pascalCase } from './naming.js';
+import { parseProps, PropDefinition } from './props.js';
+import { TemplateKind } from './templates.js';
+
+export interface Scaffold {
+  kind: TemplateKind;
+  name: string;
+  /** Replaces __name__ in template file names */
+  fileName: string;
+  /** Directory the files go in, relative to outputDir */
+  directory: string;
+  data: object;
+  /** Whether a template file (by output name) is generated */
+  include: (file: string) => boolean;
+}
+
+// Class names from COMPONENTS/ui-components/Button for the variant keys it defines
+const KNOWN_VARIANT_CLASSES: Record<string, Record<string, string>> = {
+  variant: {
+    primary: 'bg-blue-600 text-white hover:bg-blue-700 focus-visible:ring-blue-600',
+    secondary: 'bg-gray-600 text-white hover:bg-gray-700 focus-visible:ring-gray-600',
+    outline: 'border border-gray-300 bg-transparent hover:bg-gray-100 focus-visible:ring-gray-400',
+    ghost: 'bg-transparent hover:bg-gray-100 focus-visible:ring-gray-400',
+    destructive: 'bg-red-600 text-white hover:bg-red-700 focus-visible:ring-red-600',
+    link: 'bg-transparent underline-offset-4 hover:underline text-blue-600'
+  },
+  size: {
+    sm: 'h-8 px-3 text-xs',
+    md: 'h-10 px-4',
+    lg: 'h-12 px-6 text-base',
+    xl: 'h-14 px-8 text-lg',
+    icon: 'h-10 w-10'
+  }
+};
+
+const BASE_CLASSES: Record<string, string> = {
+  button:
+    'inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 disabled:pointer-events-none disabled:opacity-50',
+  div: 'rounded-lg'
+};
+
+// Elements that take a native disabled attribute
+const DISABLEABLE = new Set(['button', 'fieldset', 'input', 'optgroup', 'option', 'select', 'textarea']);
+
+const LAYOUTS = ['default', 'dashboard', 'auth'];
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+}
+
+function stringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function jsxText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+}
+
+function testFile(file: string): boolean {
+  return /\.test\.[jt]sx?$/.test(file);
+}
+
+function storyFile(file: string): boolean {
+  return /\.stories\.[jt]sx?$/.test(file);
+}
+
+function optionalString(value: unknown, label: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new Error(`${label} must be a string`);
+  return value;
+}
+
+/**
+ * Required props with sample values, for tests and stories
+ */
+function samples(props: PropDefinition[], key: 'sample' | 'testSample'): Array<{ name: string; value: string }> {
+  return props.filter(p => !p.optional && p.name !== 'children').map(p => ({ name: p.name, value: p[key] }));
+}
+
+function usesMocks(props: PropDefinition[]): boolean {
+  return samples(props, 'testSample').some(p => p.value === 'vi.fn()');
+}
+
+export interface ComponentArgs {
+  name: unknown;
+  props?: unknown;
+  description?: unknown;
+  element?: unknown;
+  includeTests?: boolean;
+  includeStories?: boolean;
+}
+
+export function componentScaffold(args: ComponentArgs): Scaffold {
+  const name = componentName(args.name);
+  const element = optionalString(args.element, 'element') ?? 'div';
+  if (!/^[a-z][a-z0-9]*$/.test(element)) {
+    throw new Error(`Invalid element: ${element} (expected an HTML tag name such as div or button)`);
+  }
+
+  const props = parseProps(args.props);
+  if (!props.some(p => p.name === 'children')) props.push(...parseProps({ children: 'node' }));
+
+  const variants = props.filter(p => p.kind === 'enum').map(p => ({
+    name: p.name,
+    default: p.defaultValue,
+    sample: p.sample,
+    options: p.options!.map(option => ({
+      key: propertyKey(option),
+      value: stringLiteral(option),
+      story: pascalCase(option),
+      classes: KNOWN_VARIANT_CLASSES[p.name]?.[option] ?? ''
+    }))
+  }));
+
+  // Passed through to the element: event handlers and a native disabled flag
+  const attributes = props
+    .filter(p => (p.kind === 'function' && /^on[A-Z]/.test(p.name)) || (p.name === 'disabled' && p.kind === 'boolean' && DISABLEABLE.has(element)))
+    .map(p => p.name);
+  if (props.some(p => p.name === 'disabled' && p.kind === 'boolean') && !DISABLEABLE.has(element)) {
+    attributes.push('aria-disabled');
+  }
+
+  const camel = camelCase(name);
+  const required = samples(props, 'sample');
+  // One story per option of the first variant, where the option makes a valid export name
+  const stories = (variants[0]?.options ?? []).filter(
+    (o, i, all) => /^[A-Z][A-Za-z0-9]*$/.test(o.story) && o.story !== 'Default' && all.findIndex(other => other.story === o.story) === i
+  );
+  const includeTests = args.includeTests !== false;
+  const includeStories = args.includeStories !== false;
+
+  return {
+    kind: 'component',
+    name,
+    fileName: name,
+    directory: name,
+    data: {
+      name,
+      camelName: camel,
+      kebabName: kebabCase(name),
+      description: optionalString(args.description, 'description') ?? `${name} component.`,
+      element,
+      schemaName: `${camel}PropsSchema`,
+      variantsName: `${camel}Variants`,
+      baseClasses: BASE_CLASSES[element] ?? '',
+      props,
+      variants,
+      attributes: attributes.map(attribute => ({
+        name: attribute,
+        value: attribute === 'aria-disabled' ? 'props.disabled' : `props.${attribute}`
+      })),
+      example: [
+        ...variants.filter(v => v.sample !== v.default).slice(0, 2).map(v => `${v.name}=${v.sample.replace(/^'(.*)'$/, '"$1"')}`),
+        ...required.filter(p => p.value.startsWith("'")).map(p => `${p.name}=${p.value.replace(/^'(.*)'$/, '"$1"')}`)
+      ].join(' '),
+      required,
+      testRequired: samples(props, 'testSample'),
+      usesMocks: attributes.includes('onClick') || usesMocks(props),
+      clickHandler: attributes.includes('onClick'),
+      disabled: attributes.includes('disabled'),
+      functions: props.filter(p => p.kind === 'function').map(p => p.name),
+      stories,
+      storyVariant: variants[0]?.name
+    },
+    include: file => (includeTests || !testFile(file)) && (includeStories || !storyFile(file))
+  };
+}
+
+export interface HookArgs {
+  name: unknown;
+  params?: unknown;
+  description?: unknown;
+  includeTests?: boolean;
+}
+
+export function hookScaffold(args: HookArgs): Scaffold {
+  const name = hookName(args.name);
+  const params = parseProps(args.params);
+  const pascal = pascalCase(name);
+  const includeTests = args.includeTests !== false;
+
+  return {
+    kind: 'hook',
+    name,
+    fileName: name,
+    directory: '',
+    data: {
+      name,
+      pascalName: pascal,
+      description: optionalString(args.description, 'description') ?? `${pascal.replace(/^Use/, '')} hook.`,
+      schemaName: `${name}OptionsSchema`,
+      params,
+      requiredParams: params.some(p => !p.optional),
+      testRequired: samples(params, 'testSample'),
+      usesMocks: usesMocks(params)
+    },
+    include: file => includeTests || !testFile(file)
+  };
+}
+
+export interface ContextArgs {
+  name: unknown;
+  state?: unknown;
+  description?: unknown;
+  includeTests?: boolean;
+}
+
+export function contextScaffold(args: ContextArgs): Scaffold {
+  const name = componentName(typeof args.name === 'string' ? args.name.replace(/(.)Context$/, '$1') : args.name);
+  const state = parseProps(args.state);
+  const includeTests = args.includeTests !== false;
+  const defaulted = state.find(s => s.defaultValue !== undefined);
+  const updatable = state.find(s => s.kind !== 'function' && s.kind !== 'node');
+
+  return {
+    kind: 'context',
+    name,
+    fileName: `${name}Context`,
+    directory: '',
+    data: {
+      name,
+      camelName: camelCase(name),
+      description: optionalString(args.description, 'description') ?? `${name} state shared across the component tree.`,
+      schemaName: `${camelCase(name)}StateSchema`,
+      state,
+      requiredState: state.some(s => !s.optional),
+      testRequired: samples(state, 'testSample'),
+      usesMocks: usesMocks(state),
+      defaulted,
+      updatable: updatable && { name: updatable.name, value: updatable.testSample }
+    },
+    include: file => includeTests || !testFile(file)
+  };
+}
+
+export interface PageArgs {
+  path: unknown;
+  layout?: unknown;
+  title?: unknown;
+}
+
+export function pageScaffold(args: PageArgs): Scaffold {
+  const route = parseRoute(args.path);
+  const layout = optionalString(args.layout, 'layout') ?? 'default';
+  if (!LAYOUTS.includes(layout)) {
+    throw new Error(`Unknown layout: ${layout} (expected ${LAYOUTS.join(', ')})`);
+  }
+
+  const named = route.segments.filter(s => !s.segment.startsWith('(') && !s.param);
+  const title = optionalString(args.title, 'title');
+  const fallbackTitle = named.length > 0 ? named[named.length - 1].segment.split(/[-_.]/).map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ') : 'Home';
+
+  return {
+    kind: 'page',
+    name: route.path,
+    fileName: route.componentName,
+    directory: route.segments.map(s => s.segment).join('/'),
+    data: {
+      route: route.path,
+      componentName: route.componentName,
+      title: stringLiteral(title ?? fallbackTitle),
+      heading: jsxText(title ?? fallbackTitle),
+      layout,
+      params: route.params.map(p => ({
+        name: p.param,
+        type: p.catchAll ? 'string[]' : 'string',
+        optional: p.segment.startsWith('[[')
+      }))
+    },
+    include: () => true
+  };
+}
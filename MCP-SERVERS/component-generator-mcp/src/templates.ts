@@ -0,0 +1,127 @@
+/**
+ * Template loading and rendering
+ *
+ * Built-in templates live in templates/<kind>/ next to the package. A
+ * project overrides them with a directory of the same layout; a file with
+ * the same name replaces the built-in and new files are added:
+ *
+ *   .component-templates/
+ *   └── component/
+ *       ├── __name__.tsx.hbs        (replaces the built-in component)
+ *       └── __name__.module.css.hbs (added)
+ *
+ * Override directories, later ones winning: <projectRoot>/.component-templates,
+ * $COMPONENT_TEMPLATES_DIR, then the templatesDir tool argument.
+ */
+
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import Handlebars from 'handlebars';
+
+export type TemplateKind = 'component' | 'hook' | 'context' | 'page';
+
+export const TEMPLATE_KINDS: TemplateKind[] = ['component', 'hook', 'context', 'page'];
+
+export const BUILTIN_TEMPLATES_DIR = fileURLToPath(new URL('../templates', import.meta.url));
+
+export const PROJECT_TEMPLATES_DIR = '.component-templates';
+
+const EXTENSION = '.hbs';
+
+export interface TemplateFile {
+  /** File name with placeholders, e.g. __name__.test.tsx */
+  name: string;
+  /** Template file it was read from */
+  source: string;
+  builtin: boolean;
+  template: string;
+}
+
+export interface TemplateOptions {
+  projectRoot: string;
+  templatesDir?: string;
+}
+
+const handlebars = Handlebars.create();
+handlebars.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await fs.stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Override directories that exist, lowest precedence first
+ */
+export async function overrideDirs(options: TemplateOptions): Promise<string[]> {
+  const dirs: string[] = [];
+  const project = join(options.projectRoot, PROJECT_TEMPLATES_DIR);
+  if (await isDirectory(project)) dirs.push(project);
+
+  const env = process.env.COMPONENT_TEMPLATES_DIR;
+  if (env && await isDirectory(resolve(options.projectRoot, env))) dirs.push(resolve(options.projectRoot, env));
+
+  if (options.templatesDir) {
+    const explicit = resolve(options.projectRoot, options.templatesDir);
+    if (!await isDirectory(explicit)) throw new Error(`Templates directory not found: ${explicit}`);
+    dirs.push(explicit);
+  }
+  return dirs;
+}
+
+async function readDir(dir: string, builtin: boolean): Promise<TemplateFile[]> {
+  if (!await isDirectory(dir)) return [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = entries.filter(e => e.isFile() && e.name.endsWith(EXTENSION)).map(e => e.name).sort();
+  return Promise.all(files.map(async file => ({
+    name: file.slice(0, -EXTENSION.length),
+    source: join(dir, file),
+    builtin,
+    template: await fs.readFile(join(dir, file), 'utf-8')
+  })));
+}
+
+/**
+ * Templates for a kind after applying overrides
+ */
+export async function loadTemplates(kind: TemplateKind, options: TemplateOptions): Promise<TemplateFile[]> {
+  const files = new Map<string, TemplateFile>();
+  for (const file of await readDir(join(BUILTIN_TEMPLATES_DIR, kind), true)) files.set(file.name, file);
+  for (const dir of await overrideDirs(options)) {
+    for (const file of await readDir(join(dir, kind), false)) files.set(file.name, file);
+  }
+  return [...files.values()];
+}
+
+/**
+ * Templates per kind with where each comes from
+ */
+export async function listTemplates(options: TemplateOptions, kind?: string) {
+  if (kind !== undefined && !TEMPLATE_KINDS.includes(kind as TemplateKind)) {
+    throw new Error(`Unknown template kind: ${kind} (expected ${TEMPLATE_KINDS.join(', ')})`);
+  }
+  const templates: Record<string, Array<{ file: string; source: string }>> = {};
+  for (const k of kind ? [kind as TemplateKind] : TEMPLATE_KINDS) {
+    templates[k] = (await loadTemplates(k, options)).map(t => ({ file: t.name, source: t.builtin ? 'built-in' : t.source }));
+  }
+  return { builtin: BUILTIN_TEMPLATES_DIR, overrides: await overrideDirs(options), templates };
+}
+
+/**
+ * Output file name: "__name__.test.tsx" → "Button.test.tsx"
+ */
+export function outputName(file: TemplateFile, name: string): string {
+  return file.name.replace(/__name__/g, name);
+}
+
+export function render(file: TemplateFile, data: object): string {
+  try {
+    return handlebars.compile(file.template, { noEscape: true })(data);
+  } catch (error) {
+    throw new Error(`Template ${file.source} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  BUILTIN_DETECTORS,
+  createFileReader,
+  createRegistry,
+  DetectorContext,
+  DetectorRegistry,
+  PatternDetector,
+  ruleDetector,
+} from './detectors/index.js';
+import { matchesGlob } from './file-kinds.js';
+import { RepositoryMetrics, ScanDepth } from './types.js';
+
+const metrics = (overrides: Partial<RepositoryMetrics> = {}): RepositoryMetrics => ({
+  total_files: 100,
+  code_files: 30,
+  doc_files: 36,
+  test_files: 3,
+  doc_to_code_ratio: 1.2,
+  avg_doc_length: 543,
+  technical_debt_markers: 75,
+  last_commit_age_days: null,
+  ...overrides,
+});
+
+const stub = (id: string, focus: PatternDetector['focus'], minDepth: ScanDepth): PatternDetector => ({
+  id,
+  focus,
+  minDepth,
+  async detect() {
+    return [{ type: id, severity: 'low', signal: id, interpretation: '', confidence: 1, evidence: [] }];
+  },
+});
+
+describe('Globs', () => {
+  it('should match file names anywhere and paths from the root', () => {
+    expect(matchesGlob('src/auth/limiter.ts', '*.ts')).toBe(true);
+    expect(matchesGlob('src/auth/limiter.tsx', '*.ts')).toBe(false);
+    expect(matchesGlob('src/auth/limiter.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('src/limiter.ts', 'src/**/*.ts')).toBe(true);
+    expect(matchesGlob('lib/limiter.ts', 'src/**')).toBe(false);
+    expect(matchesGlob('src/a/b.ts', 'src/*.ts')).toBe(false);
+    expect(matchesGlob('docs/v1.md', './docs/v?.md')).toBe(true);
+  });
+});
+
+describe('Detector Registry', () => {
+  const registry = new DetectorRegistry([
+    stub('docs', 'documentation', 'quick'),
+    stub('todos', 'suppression', 'medium'),
+    stub('stale', 'drift', 'deep'),
+  ]);
+  const context = (depth: ScanDepth) => ({ depth } as DetectorContext);
+
+  it('should run detectors the scan depth allows and tag their patterns', async () => {
+    expect((await registry.detect(context('quick'))).map(p => p.type)).toEqual(['docs']);
+    expect((await registry.detect(context('deep'))).map(p => p.type)).toEqual(['docs', 'todos', 'stale']);
+
+    const [pattern] = await registry.detect(context('medium'), 'suppression');
+    expect(pattern).toMatchObject({ type: 'todos', detector: 'todos', focus: 'suppression' });
+  });
+
+  it('should filter earlier patterns by detector focus', async () => {
+    const patterns = await registry.detect(context('deep'));
+
+    expect(registry.filter(patterns, 'drift').map(p => p.type)).toEqual(['stale']);
+    expect(registry.filter(patterns, 'all')).toHaveLength(3);
+    expect(() => registry.filter(patterns, 'vibes' as any)).toThrow('Unknown focus: vibes');
+  });
+
+  it('should reject duplicate and malformed detectors', () => {
+    expect(() => registry.register(stub('docs', 'documentation', 'quick'))).toThrow('Detector already registered: docs');
+    expect(() => registry.register({ ...stub('x', 'drift', 'deep'), focus: 'mood' as any })).toThrow('focus must be one of');
+    expect(() => registry.register({ ...stub('x', 'drift', 'deep'), minDepth: 'extreme' as any })).toThrow('minDepth must be one of');
+  });
+
+  it('should name the detector that failed', async () => {
+    const failing = new DetectorRegistry([{ ...stub('broken', 'drift', 'quick'), detect: async () => { throw new Error('boom'); } }]);
+
+    await expect(failing.detect(context('quick'))).rejects.toThrow('Detector broken failed: boom');
+  });
+});
+
+describe('Detectors on a repository', () => {
+  let root: string;
+
+  const write = async (file: string, content: string) => {
+    await fs.mkdir(join(root, file, '..'), { recursive: true });
+    await fs.writeFile(join(root, file), content);
+  };
+
+  const context = (files: string[], depth: ScanDepth, overrides: Partial<DetectorContext> = {}): DetectorContext => ({
+    root,
+    depth,
+    files,
+    metrics: metrics(),
+    history: null,
+    tasks: null,
+    read: createFileReader(root),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'dark-matter-detectors-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should cite the files behind built-in patterns', async () => {
+    await write('src/api.ts', '// TODO a\n// FIXME b\n// HACK c\n');
+    await write('src/util.ts', '// TODO\n');
+    await write('src/util.test.ts', 'test');
+    await write('plans/vision.md', 'a\nb\nc\n');
+    const files = ['src/api.ts', 'src/util.ts', 'src/util.test.ts', 'plans/vision.md'];
+    const registry = new DetectorRegistry(BUILTIN_DETECTORS);
+
+    const patterns = await registry.detect(context(files, 'medium'));
+    const byType = Object.fromEntries(patterns.map(p => [p.type, p]));
+
+    expect(Object.keys(byType)).toEqual(['Documentation Inflation', 'Execution Deficit', 'Suppression Pattern', 'Test Deficiency']);
+    expect(byType['Execution Deficit'].files).toEqual(['plans/vision.md']);
+    expect(byType['Suppression Pattern'].files).toEqual(['src/api.ts', 'src/util.ts']);
+    expect(byType['Suppression Pattern'].evidence).toContain('src/api.ts: 3 markers');
+    expect(byType['Test Deficiency'].files).toEqual(['src/api.ts']);
+  });
+
+  it('should report unverified claims at deep depth only', async () => {
+    const tasks: any = {
+      files: ['TODO.md'],
+      done: 3,
+      unverified: 2,
+      basis: 'git',
+      items: [
+        { file: 'TODO.md', line: 1, text: 'Billing', status: 'unverified' },
+        { file: 'TODO.md', line: 2, text: 'Dark mode', status: 'unverified' },
+      ],
+    };
+    const registry = new DetectorRegistry(BUILTIN_DETECTORS);
+
+    expect(registry.filter(await registry.detect(context([], 'medium', { tasks })), 'drift')).toEqual([]);
+    const [claims] = registry.filter(await registry.detect(context([], 'deep', { tasks })), 'drift');
+    expect(claims).toMatchObject({
+      type: 'Unverified Claims',
+      severity: 'high',
+      evidence: ['TODO.md:1 Billing', 'TODO.md:2 Dark mode'],
+      files: ['TODO.md'],
+    });
+  });
+
+  it('should count rule matches in files matching the globs', async () => {
+    await write('src/a.ts', '/* eslint-disable */\n// eslint-disable-next-line\n');
+    await write('src/b.ts', '// eslint-disable-next-line\n');
+    await write('lib/c.ts', '// eslint-disable-next-line\n');
+    const detector = ruleDetector({
+      id: 'lint-suppression',
+      type: 'Lint Suppression',
+      focus: 'suppression',
+      files: ['src/**/*.ts'],
+      match: 'eslint-disable',
+      threshold: 3,
+    });
+
+    const [pattern] = await detector.detect(context(['src/a.ts', 'src/b.ts', 'lib/c.ts'], 'medium'));
+    expect(detector.minDepth).toBe('medium');
+    expect(pattern).toMatchObject({
+      signal: '3 matches of /eslint-disable/ in 2 files',
+      evidence: ['src/a.ts: 2 matches', 'src/b.ts: 1 matches'],
+      files: ['src/a.ts', 'src/b.ts'],
+    });
+    expect(await detector.detect(context(['src/b.ts'], 'medium'))).toEqual([]);
+  });
+
+  it('should load project detectors from the config file', async () => {
+    await write('tools/flags.mjs', `export default {
+  id: 'feature-flags',
+  focus: 'drift',
+  minDepth: 'quick',
+  async detect(context) {
+    return [{ type: 'Flag Sprawl', severity: 'low', signal: context.files.length + ' files', interpretation: '', confidence: 0.5, evidence: [], files: [] }];
+  },
+};
+`);
+    await write('dark-matter.config.json', JSON.stringify({
+      disable: ['test-deficiency'],
+      detectors: [
+        { module: './tools/flags.mjs' },
+        { id: 'backups', type: 'Backup Files', focus: 'suppression', files: ['*.bak'] },
+      ],
+    }));
+
+    const { registry, custom } = await createRegistry(root);
+    expect(custom).toEqual(['feature-flags', 'backups']);
+    expect(registry.get('test-deficiency')).toBeUndefined();
+
+    const patterns = await registry.detect(context(['old.bak', 'src/x.ts'], 'quick', { metrics: metrics({ doc_to_code_ratio: 0.1, doc_files: 0 }) }));
+    expect(patterns.map(p => [p.detector, p.signal])).toEqual([
+      ['feature-flags', '2 files'],
+      ['backups', '1 files matching *.bak'],
+    ]);
+  });
+
+  it('should explain config problems', async () => {
+    expect((await createRegistry(root)).custom).toEqual([]);
+    await expect(createRegistry(root, 'missing.json')).rejects.toThrow('Cannot read detector config');
+
+    await write('dark-matter.config.json', '{ nope');
+    await expect(createRegistry(root)).rejects.toThrow('Invalid JSON in detector config');
+
+    await write('dark-matter.config.json', JSON.stringify({ detectors: [{ module: './bad.mjs' }] }));
+    await write('bad.mjs', 'export default { id: "bad", focus: "drift", minDepth: "quick" };');
+    await expect(createRegistry(root)).rejects.toThrow('Invalid detector in ./bad.mjs bad: detect() is required');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Built-in pattern detectors
+ *
+ * Quick detectors read scan metrics only; medium detectors read files to
+ * name the ones a pattern shows up in; deep detectors compare git history
+ * and task claims with the tree.
+ */
+
+import { basename, dirname } from 'path';
+import { churnDirectory } from '../git-history.js';
+import { countDebtMarkers, isCodeFile, isDocFile, isTestFile } from '../file-kinds.js';
+import { DetectorContext, PatternDetector } from './interface.js';
+
+// Files listed per pattern
+const MAX_FILES = 10;
+
+async function lineCounts(context: DetectorContext, files: string[]): Promise<Array<{ file: string; lines: number }>> {
+  const counts = await Promise.all(files.map(async file => ({ file, lines: ((await context.read(file)) || '').split('\n').length })));
+  return counts.sort((a, b) => b.lines - a.lines || a.file.localeCompare(b.file));
+}
+
+export const documentationInflation: PatternDetector = {
+  id: 'documentation-inflation',
+  focus: 'documentation',
+  minDepth: 'quick',
+  description: 'Many long documentation files',
+  async detect(context) {
+    const { metrics } = context;
+    if (!(metrics.doc_files > 20 && metrics.avg_doc_length > 400)) return [];
+
+    const longest = (await lineCounts(context, context.files.filter(isDocFile))).slice(0, MAX_FILES);
+    return [{
+      type: 'Documentation Inflation',
+      severity: metrics.doc_files > 30 ? 'high' : 'medium',
+      signal: `${metrics.doc_files} documentation files averaging ${metrics.avg_doc_length} lines`,
+      interpretation: 'Planning activity may significantly outpace execution. High documentation volume suggests over-planning or avoidance through writing.',
+      confidence: 0.85,
+      evidence: [
+        `${metrics.doc_files} total .md files`,
+        `Average ${metrics.avg_doc_length} lines per doc`,
+        `Doc-to-code ratio: ${metrics.doc_to_code_ratio.toFixed(2)}`,
+        ...longest.map(d => `${d.file}: ${d.lines} lines`),
+      ],
+      files: longest.map(d => d.file),
+    }];
+  },
+};
+
+export const executionDeficit: PatternDetector = {
+  id: 'execution-deficit',
+  focus: 'execution',
+  minDepth: 'quick',
+  description: 'More documentation than code',
+  async detect(context) {
+    const { metrics } = context;
+    if (!(metrics.doc_to_code_ratio > 0.5)) return [];
+
+    // Documentation in directories with no code at all
+    const codeDirs = new Set(context.files.filter(isCodeFile).map(f => dirname(f)));
+    const planningOnly = context.files.filter(f => isDocFile(f) && dirname(f) !== '.' && !codeDirs.has(dirname(f)));
+
+    return [{
+      type: 'Execution Deficit',
+      severity: metrics.doc_to_code_ratio > 1.0 ? 'critical' : 'high',
+      signal: `Doc-to-code ratio of ${metrics.doc_to_code_ratio.toFixed(2)}:1`,
+      interpretation: 'More documentation than implementation suggests hope-driven development. System may be aspirational rather than actionable.',
+      confidence: 0.90,
+      evidence: [
+        `${metrics.doc_files} documentation files`,
+        `${metrics.code_files} code files`,
+        `Ratio: ${metrics.doc_to_code_ratio.toFixed(2)}:1`,
+        `${planningOnly.length} documentation files in directories without code`,
+      ],
+      files: planningOnly.slice(0, MAX_FILES),
+    }];
+  },
+};
+
+export const suppressionPattern: PatternDetector = {
+  id: 'suppression-pattern',
+  focus: 'suppression',
+  minDepth: 'medium',
+  description: 'Many TODO/FIXME/HACK markers',
+  async detect(context) {
+    const { metrics } = context;
+    if (!(metrics.technical_debt_markers > 50)) return [];
+
+    const counts = await Promise.all(
+      context.files.filter(isCodeFile).map(async file => ({ file, markers: countDebtMarkers((await context.read(file)) || '') }))
+    );
+    const worst = counts
+      .filter(c => c.markers > 0)
+      .sort((a, b) => b.markers - a.markers || a.file.localeCompare(b.file))
+      .slice(0, MAX_FILES);
+
+    return [{
+      type: 'Suppression Pattern',
+      severity: metrics.technical_debt_markers > 100 ? 'high' : 'medium',
+      signal: `${metrics.technical_debt_markers} TODO/FIXME/HACK markers`,
+      interpretation: 'High technical debt markers suggest time pressure, fatigue, or incomplete implementations. May indicate rushing or scope creep.',
+      confidence: 0.75,
+      evidence: [
+        `${metrics.technical_debt_markers} total markers`,
+        `Average ${(metrics.technical_debt_markers / Math.max(metrics.code_files, 1)).toFixed(1)} per code file`,
+        ...worst.map(w => `${w.file}: ${w.markers} markers`),
+      ],
+      files: worst.map(w => w.file),
+    }];
+  },
+};
+
+// "limiter.test.ts" covers "limiter.ts"
+function testedName(file: string): string {
+  return basename(file).replace(/\.(test|spec)(?=\.\w+$)/i, '').replace(/\.\w+$/, '').toLowerCase();
+}
+
+export const testDeficiency: PatternDetector = {
+  id: 'test-deficiency',
+  focus: 'execution',
+  minDepth: 'medium',
+  description: 'Few test files for the code',
+  async detect(context) {
+    const { metrics } = context;
+    const testCoverage = metrics.code_files > 0 ? metrics.test_files / metrics.code_files : 0;
+    if (!(testCoverage < 0.3 && metrics.code_files > 10)) return [];
+
+    const tested = new Set(context.files.filter(isTestFile).map(testedName));
+    const untested = (await lineCounts(context, context.files.filter(f => isCodeFile(f) && !isTestFile(f) && !tested.has(testedName(f)))))
+      .slice(0, MAX_FILES);
+
+    return [{
+      type: 'Test Deficiency',
+      severity: testCoverage < 0.1 ? 'high' : 'medium',
+      signal: `Test coverage ratio of ${testCoverage.toFixed(2)}:1`,
+      interpretation: 'Low test coverage may indicate rushed implementation or avoidance of validation feedback.',
+      confidence: 0.70,
+      evidence: [
+        `${metrics.test_files} test files`,
+        `${metrics.code_files} code files`,
+        `Coverage ratio: ${testCoverage.toFixed(2)}`,
+        ...untested.map(u => `${u.file}: ${u.lines} lines, no matching test`),
+      ],
+      files: untested.map(u => u.file),
+    }];
+  },
+};
+
+export const documentationDrift: PatternDetector = {
+  id: 'documentation-drift',
+  focus: 'drift',
+  minDepth: 'deep',
+  description: 'Code changed while the documentation next to it did not',
+  async detect(context) {
+    if (!context.history) return [];
+
+    const touched = new Set(context.history.files_touched);
+    const changedCodeDirs = new Set(
+      context.history.files_touched.filter(f => isCodeFile(f) && !isTestFile(f)).map(churnDirectory)
+    );
+    const stale = context.files.filter(f => isDocFile(f) && changedCodeDirs.has(churnDirectory(f)) && !touched.has(f));
+    const staleDirs = new Set(stale.map(churnDirectory));
+    if (staleDirs.size < 3) return [];
+
+    return [{
+      type: 'Documentation Drift',
+      severity: staleDirs.size > 5 ? 'high' : 'medium',
+      signal: `Code changed in ${staleDirs.size} directories whose documentation was not updated in ${context.history.window_days} days`,
+      interpretation: 'Documentation describes a system that has since moved on. Readers and agents following it will act on outdated intent.',
+      confidence: 0.65,
+      evidence: [...staleDirs].sort().map(dir => `${dir}: code changed, docs unchanged`),
+      files: stale.slice(0, MAX_FILES),
+    }];
+  },
+};
+
+export const unverifiedClaims: PatternDetector = {
+  id: 'unverified-claims',
+  focus: 'drift',
+  minDepth: 'deep',
+  description: 'Tasks ticked as done without matching code changes',
+  async detect(context) {
+    const { tasks } = context;
+    if (!tasks || tasks.unverified < 2) return [];
+
+    const unverified = tasks.items.filter(i => i.status === 'unverified');
+    return [{
+      type: 'Unverified Claims',
+      severity: tasks.unverified / Math.max(tasks.done, 1) > 0.5 ? 'high' : 'medium',
+      signal: `${tasks.unverified} of ${tasks.done} items marked done have no matching code changes`,
+      interpretation: 'Task lists report progress the code does not show. Status may be performative rather than actual.',
+      confidence: tasks.basis === 'git' ? 0.7 : 0.5,
+      evidence: unverified.slice(0, MAX_FILES).map(i => `${i.file}:${i.line} ${i.text}`),
+      files: tasks.files,
+    }];
+  },
+};
+
+export const BUILTIN_DETECTORS: PatternDetector[] = [
+  documentationInflation,
+  executionDeficit,
+  suppressionPattern,
+  testDeficiency,
+  documentationDrift,
+  unverifiedClaims,
+];
@@ -0,0 +1,143 @@
+/**
+ * Project detectors from dark-matter.config.json
+ *
+ *   {
+ *     "disable": ["test-deficiency"],
+ *     "detectors": [
+ *       { "module": "./tools/dark-matter/flags.mjs" },
+ *       {
+ *         "id": "lint-suppression",
+ *         "type": "Lint Suppression",
+ *         "focus": "suppression",
+ *         "files": ["src/**\/*.ts"],
+ *         "match": "eslint-disable",
+ *         "threshold": 10
+ *       }
+ *     ]
+ *   }
+ *
+ * Modules export a PatternDetector (or an array of them) as default.
+ * Rules count regex matches in files matching the globs, or the files
+ * themselves when `match` is omitted, and report a pattern at the
+ * threshold.
+ */
+
+import { promises as fs } from 'fs';
+import { isAbsolute, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { matchesGlob } from '../file-kinds.js';
+import { Pattern, PatternFocus, ScanDepth } from '../types.js';
+import { PatternDetector } from './interface.js';
+import { DetectorRegistry, validateDetector } from './registry.js';
+
+export const DETECTOR_CONFIG_FILE = 'dark-matter.config.json';
+
+export interface DetectorRule {
+  id: string;
+  type: string;
+  focus: PatternFocus;
+  min_depth?: ScanDepth;
+  files: string[];
+  /** Regular expression counted in each file */
+  match?: string;
+  /** Count at which the pattern is reported (default 1) */
+  threshold?: number;
+  severity?: Pattern['severity'];
+  interpretation?: string;
+  confidence?: number;
+}
+
+export interface DetectorConfig {
+  disable?: string[];
+  detectors?: Array<DetectorRule | { module: string }>;
+}
+
+const MAX_FILES = 10;
+
+export function ruleDetector(rule: DetectorRule): PatternDetector {
+  if (!rule.type || !Array.isArray(rule.files) || rule.files.length === 0) {
+    throw new Error(`Invalid detector rule ${rule.id}: type and files are required`);
+  }
+  const threshold = rule.threshold ?? 1;
+
+  return {
+    id: rule.id,
+    focus: rule.focus,
+    minDepth: rule.min_depth || (rule.match ? 'medium' : 'quick'),
+    description: `${rule.type} (from ${DETECTOR_CONFIG_FILE})`,
+    async detect(context) {
+      const candidates = context.files.filter(f => rule.files.some(glob => matchesGlob(f, glob)));
+      const counts = rule.match
+        ? await Promise.all(candidates.map(async file => ({
+          file,
+          count: ((await context.read(file)) || '').match(new RegExp(rule.match!, 'g'))?.length || 0,
+        })))
+        : candidates.map(file => ({ file, count: 1 }));
+      const hits = counts.filter(c => c.count > 0).sort((a, b) => b.count - a.count || a.file.localeCompare(b.file));
+      const total = hits.reduce((sum, h) => sum + h.count, 0);
+      if (total < threshold) return [];
+
+      return [{
+        type: rule.type,
+        severity: rule.severity || 'medium',
+        signal: rule.match
+          ? `${total} matches of /${rule.match}/ in ${hits.length} files`
+          : `${total} files matching ${rule.files.join(', ')}`,
+        interpretation: rule.interpretation || `Project rule ${rule.id} reached its threshold of ${threshold}.`,
+        confidence: rule.confidence ?? 0.6,
+        evidence: hits.slice(0, MAX_FILES).map(h => (rule.match ? `${h.file}: ${h.count} matches` : h.file)),
+        files: hits.slice(0, MAX_FILES).map(h => h.file),
+      }];
+    },
+  };
+}
+
+async function importDetectors(modulePath: string, root: string): Promise<PatternDetector[]> {
+  const file = isAbsolute(modulePath) ? modulePath : resolve(root, modulePath);
+  const loaded = await import(pathToFileURL(file).href);
+  const exported = loaded.default ?? loaded.detectors;
+  const detectors = Array.isArray(exported) ? exported : [exported];
+  detectors.forEach(d => validateDetector(d, `detector in ${modulePath}`));
+  return detectors;
+}
+
+/**
+ * Read the config file; null when the repository has none and no path
+ * was given
+ */
+export async function readDetectorConfig(root: string, configPath?: string): Promise<DetectorConfig | null> {
+  const file = configPath ? resolve(root, configPath) : join(root, DETECTOR_CONFIG_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if (!configPath && (error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`Cannot read detector config ${file}: ${(error as Error).message}`);
+  }
+
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in detector config ${file}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Apply a config to a registry: disabled detectors are removed, project
+ * detectors registered. Returns the ids added.
+ */
+export async function applyDetectorConfig(registry: DetectorRegistry, config: DetectorConfig, root: string): Promise<string[]> {
+  for (const id of config.disable || []) {
+    registry.unregister(id);
+  }
+
+  const added: string[] = [];
+  for (const entry of config.detectors || []) {
+    const detectors = 'module' in entry ? await importDetectors(entry.module, root) : [ruleDetector(entry)];
+    for (const detector of detectors) {
+      registry.register(detector);
+      added.push(detector.id);
+    }
+  }
+  return added;
+}
@@ -0,0 +1,22 @@
+/**
+ * Pattern detector registry with built-in and project detectors
+ */
+
+import { BUILTIN_DETECTORS } from './builtin.js';
+import { applyDetectorConfig, readDetectorConfig } from './config.js';
+import { DetectorRegistry } from './registry.js';
+
+export { BUILTIN_DETECTORS } from './builtin.js';
+export { applyDetectorConfig, DETECTOR_CONFIG_FILE, DetectorConfig, DetectorRule, readDetectorConfig, ruleDetector } from './config.js';
+export { createFileReader, DetectorContext, depthAtLeast, PATTERN_FOCUSES, PatternDetector, SCAN_DEPTHS } from './interface.js';
+export { DetectorRegistry, DetectorSelection } from './registry.js';
+
+/**
+ * Built-in detectors plus those from the repository's config file
+ */
+export async function createRegistry(root: string, configPath?: string): Promise<{ registry: DetectorRegistry; custom: string[] }> {
+  const registry = new DetectorRegistry(BUILTIN_DETECTORS);
+  const config = await readDetectorConfig(root, configPath);
+  const custom = config ? await applyDetectorConfig(registry, config, root) : [];
+  return { registry, custom };
+}
@@ -0,0 +1,59 @@
+/**
+ * Common interface for pattern detectors
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { HistorySummary } from '../git-history.js';
+import { TaskSummary } from '../tasks.js';
+import { Pattern, PatternFocus, RepositoryMetrics, ScanDepth } from '../types.js';
+
+export const PATTERN_FOCUSES: PatternFocus[] = ['documentation', 'execution', 'drift', 'suppression'];
+
+export const SCAN_DEPTHS: ScanDepth[] = ['quick', 'medium', 'deep'];
+
+export interface DetectorContext {
+  root: string;
+  depth: ScanDepth;
+  /** Scanned files relative to the root, with forward slashes */
+  files: string[];
+  metrics: RepositoryMetrics;
+  history: HistorySummary | null;
+  tasks: TaskSummary | null;
+  /** File contents relative to the root, read once per scan; null if unreadable */
+  read(file: string): Promise<string | null>;
+}
+
+export interface PatternDetector {
+  id: string;
+  focus: PatternFocus;
+  /**
+   * Shallowest scan depth the detector runs at: quick detectors use metrics
+   * only, medium ones read files, deep ones use git history and task claims
+   */
+  minDepth: ScanDepth;
+  description?: string;
+
+  /**
+   * Patterns found in the repository; `detector` and `focus` are filled in
+   * by the registry
+   */
+  detect(context: DetectorContext): Promise<Pattern[]>;
+}
+
+export function depthAtLeast(depth: ScanDepth, minimum: ScanDepth): boolean {
+  return SCAN_DEPTHS.indexOf(depth) >= SCAN_DEPTHS.indexOf(minimum);
+}
+
+/**
+ * Cached reader for DetectorContext.read
+ */
+export function createFileReader(root: string): (file: string) => Promise<string | null> {
+  const cache = new Map<string, Promise<string | null>>();
+  return (file: string) => {
+    if (!cache.has(file)) {
+      cache.set(file, fs.readFile(join(root, file), 'utf-8').catch(() => null));
+    }
+    return cache.get(file)!;
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Detector registry
+ *
+ * Holds the detectors for one scan and picks the ones matching a focus
+ * and scan depth. Every pattern is tagged with the detector and focus it
+ * came from, so focus filters route back through here.
+ */
+
+import { Pattern, PatternFocus, ScanDepth } from '../types.js';
+import { DetectorContext, depthAtLeast, PATTERN_FOCUSES, PatternDetector, SCAN_DEPTHS } from './interface.js';
+
+export interface DetectorSelection {
+  focus?: PatternFocus | 'all';
+  depth?: ScanDepth;
+}
+
+export class DetectorRegistry {
+  private detectors = new Map<string, PatternDetector>();
+
+  constructor(detectors: PatternDetector[] = []) {
+    detectors.forEach(detector => this.register(detector));
+  }
+
+  register(detector: PatternDetector): void {
+    validateDetector(detector);
+    if (this.detectors.has(detector.id)) {
+      throw new Error(`Detector already registered: ${detector.id}`);
+    }
+    this.detectors.set(detector.id, detector);
+  }
+
+  unregister(id: string): boolean {
+    return this.detectors.delete(id);
+  }
+
+  get(id: string): PatternDetector | undefined {
+    return this.detectors.get(id);
+  }
+
+  list(): PatternDetector[] {
+    return [...this.detectors.values()];
+  }
+
+  select(selection: DetectorSelection = {}): PatternDetector[] {
+    const focus = selection.focus || 'all';
+    if (focus !== 'all' && !PATTERN_FOCUSES.includes(focus)) {
+      throw new Error(`Unknown focus: ${focus} (expected all, ${PATTERN_FOCUSES.join(', ')})`);
+    }
+    return this.list().filter(d =>
+      (focus === 'all' || d.focus === focus) && (!selection.depth || depthAtLeast(selection.depth, d.minDepth))
+    );
+  }
+
+  async detect(context: DetectorContext, focus: PatternFocus | 'all' = 'all'): Promise<Pattern[]> {
+    const patterns: Pattern[] = [];
+    for (const detector of this.select({ focus, depth: context.depth })) {
+      let found: Pattern[];
+      try {
+        found = await detector.detect(context);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Detector ${detector.id} failed: ${message}`);
+      }
+      patterns.push(...found.map(p => ({ ...p, detector: detector.id, focus: detector.focus })));
+    }
+    return patterns;
+  }
+
+  /**
+   * Patterns from an earlier detect() whose detector matches the focus
+   */
+  filter(patterns: Pattern[], focus: PatternFocus | 'all' = 'all'): Pattern[] {
+    const ids = new Set(this.select({ focus }).map(d => d.id));
+    return patterns.filter(p => p.detector !== undefined && ids.has(p.detector));
+  }
+}
+
+export function validateDetector(detector: any, source = 'detector'): asserts detector is PatternDetector {
+  if (!detector || typeof detector !== 'object') {
+    throw new Error(`Invalid ${source}: expected an object`);
+  }
+  if (typeof detector.id !== 'string' || !detector.id) {
+    throw new Error(`Invalid ${source}: id is required`);
+  }
+  if (!PATTERN_FOCUSES.includes(detector.focus)) {
+    throw new Error(`Invalid ${source} ${detector.id}: focus must be one of ${PATTERN_FOCUSES.join(', ')}`);
+  }
+  if (!SCAN_DEPTHS.includes(detector.minDepth)) {
+    throw new Error(`Invalid ${source} ${detector.id}: minDepth must be one of ${SCAN_DEPTHS.join(', ')}`);
+  }
+  if (typeof detector.detect !== 'function') {
+    throw new Error(`Invalid ${source} ${detector.id}: detect() is required`);
+  }
+}
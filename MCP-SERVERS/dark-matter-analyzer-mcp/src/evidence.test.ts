@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { churnDirectory, documentationCoverage, parseGitLog, readGitLog, readLastCommitAge, summarizeHistory } from './git-history.js';
+import { calculateRCI, formatEvidenceMarkdown } from './rci.js';
+import { auditTasks, extractKeywords, isTaskFile, parseTaskFile } from './tasks.js';
+import { RepositoryMetrics } from './types.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2025-03-01T12:00:00Z');
+
+const metrics = (overrides: Partial<RepositoryMetrics> = {}): RepositoryMetrics => ({
+  total_files: 100,
+  code_files: 30,
+  doc_files: 36,
+  test_files: 3,
+  doc_to_code_ratio: 1.2,
+  avg_doc_length: 543,
+  technical_debt_markers: 27,
+  last_commit_age_days: null,
+  ...overrides,
+});
+
+describe('Git History', () => {
+  it('should parse numstat output with renames and binary files', () => {
+    const log = [
+      '\x1eabc\x1f1740830400\x1fAda\x1fAdd limiter',
+      '',
+      '12\t3\tsrc/auth/limiter.ts',
+      '-\t-\tassets/logo.png',
+      '4\t0\tsrc/{old => auth}/session.ts',
+      '\x1edef\x1f1740744000\x1fBob\x1fDocs',
+      '',
+      '20\t0\tdocs/plan.md',
+    ].join('\n');
+
+    expect(parseGitLog(log)).toEqual([
+      {
+        hash: 'abc',
+        timestamp: 1740830400000,
+        author: 'Ada',
+        subject: 'Add limiter',
+        files: [
+          { path: 'src/auth/limiter.ts', added: 12, deleted: 3 },
+          { path: 'assets/logo.png', added: 0, deleted: 0 },
+          { path: 'src/auth/session.ts', added: 4, deleted: 0 },
+        ],
+      },
+      { hash: 'def', timestamp: 1740744000000, author: 'Bob', subject: 'Docs', files: [{ path: 'docs/plan.md', added: 20, deleted: 0 }] },
+    ]);
+  });
+
+  it('should summarize cadence, churn and test pairing', () => {
+    const commit = (daysAgo: number, files: Array<[string, number]>) => ({
+      hash: `c${daysAgo}`,
+      timestamp: NOW - daysAgo * DAY,
+      author: daysAgo > 20 ? 'Bob' : 'Ada',
+      subject: '',
+      files: files.map(([path, added]) => ({ path, added, deleted: 0 })),
+    });
+    const summary = summarizeHistory([
+      commit(1, [['src/auth/limiter.ts', 40], ['src/auth/limiter.test.ts', 20]]),
+      commit(3, [['src/auth/session.ts', 10]]),
+      commit(30, [['docs/plan.md', 30]]),
+    ], 28, NOW);
+
+    expect(summary).toMatchObject({
+      commits: 3,
+      authors: 2,
+      last_commit_age_days: 1,
+      active_weeks: 2,
+      total_weeks: 4,
+      code_commits: 2,
+      code_commits_with_tests: 1,
+      code_churn: 70,
+      doc_churn: 30,
+    });
+    expect(summary.churn_by_directory[0]).toEqual({ directory: 'src/auth', commits: 2, files: 3, churn: 70 });
+    expect(churnDirectory('README.md')).toBe('.');
+    expect(churnDirectory('packages/api/src/deep/file.ts')).toBe('packages/api');
+  });
+
+  it('should split changed directories by documentation', () => {
+    const history = summarizeHistory([
+      { hash: 'a', timestamp: NOW, author: 'Ada', subject: '', files: [
+        { path: 'src/auth/limiter.ts', added: 1, deleted: 0 },
+        { path: 'src/billing/invoice.ts', added: 1, deleted: 0 },
+        { path: 'index.ts', added: 1, deleted: 0 },
+      ] },
+    ], 90, NOW);
+
+    expect(documentationCoverage(history, ['src/README.md', 'src/auth/limiter.ts'])).toEqual({
+      documented: ['src/auth', 'src/billing'],
+      undocumented: [],
+    });
+    expect(documentationCoverage(history, ['src/auth/NOTES.md'])).toEqual({
+      documented: ['src/auth'],
+      undocumented: ['src/billing'],
+    });
+  });
+
+  describe('in a real repository', () => {
+    let repo: string;
+    const git = (args: string[], date?: string) =>
+      execFileSync('git', args, {
+        cwd: repo,
+        env: date ? { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date } : process.env,
+        stdio: 'pipe',
+      });
+
+    beforeAll(async () => {
+      repo = await fs.mkdtemp(join(tmpdir(), 'dark-matter-git-'));
+      git(['init', '-q']);
+      git(['config', 'user.email', 'dev@example.com']);
+      git(['config', 'user.name', 'Dev']);
+      await fs.mkdir(join(repo, 'src'));
+      await fs.writeFile(join(repo, 'src', 'limiter.ts'), 'export const limit = 1;\n');
+      git(['add', '.']);
+      git(['commit', '-q', '-m', 'Add limiter'], new Date(Date.now() - 2 * DAY).toISOString());
+      await fs.writeFile(join(repo, 'src', 'limiter.test.ts'), 'test\ntest\n');
+      git(['add', '.']);
+      git(['commit', '-q', '-m', 'Test limiter'], new Date(Date.now() - DAY).toISOString());
+    });
+
+    afterAll(async () => {
+      await fs.rm(repo, { recursive: true, force: true });
+    });
+
+    it('should read commits relative to the scanned directory', async () => {
+      const commits = await readGitLog(join(repo, 'src'), 30);
+
+      expect(commits!.map(c => c.subject)).toEqual(['Test limiter', 'Add limiter']);
+      expect(commits![0].files).toEqual([{ path: 'limiter.test.ts', added: 2, deleted: 0 }]);
+      expect(await readLastCommitAge(repo)).toBe(1);
+    });
+
+    it('should return null outside a git repository', async () => {
+      const plain = await fs.mkdtemp(join(tmpdir(), 'dark-matter-plain-'));
+      try {
+        expect(await readGitLog(plain, 30)).toBeNull();
+        expect(await readLastCommitAge(plain)).toBeNull();
+      } finally {
+        await fs.rm(plain, { recursive: true, force: true });
+      }
+    });
+  });
+});
+
+describe('Task Claims', () => {
+  const todo = [
+    '# Roadmap',
+    '- [x] Add `rateLimiter` to auth',
+    '- [x] Billing invoices export',
+    '* [X] Dark mode toggle',
+    '- [ ] Session refresh',
+    'Not a task [x]',
+  ].join('\n');
+
+  it('should find task files and parse checkboxes', () => {
+    expect(['TODO.md', 'docs/ROADMAP.md', 'tasks.md', 'BACKLOG-2025.md'].every(isTaskFile)).toBe(true);
+    expect(isTaskFile('README.md')).toBe(false);
+
+    expect(parseTaskFile(todo, 'ROADMAP.md')).toEqual([
+      { file: 'ROADMAP.md', line: 2, text: 'Add `rateLimiter` to auth', done: true },
+      { file: 'ROADMAP.md', line: 3, text: 'Billing invoices export', done: true },
+      { file: 'ROADMAP.md', line: 4, text: 'Dark mode toggle', done: true },
+      { file: 'ROADMAP.md', line: 5, text: 'Session refresh', done: false },
+    ]);
+  });
+
+  it('should extract code-like keywords', () => {
+    expect(extractKeywords('Add `rateLimiter` to src/auth/ and user_profile pages, finished properly')).toEqual([
+      'ratelimiter',
+      'src/auth',
+      'user_profile',
+      'pages',
+    ]);
+  });
+
+  it('should verify done items against changed code and tests', () => {
+    const changed = ['src/auth/rate-limiter.ts', 'src/auth/rate-limiter.test.ts', 'src/billing/invoices.ts', 'docs/invoices.md'];
+    const summary = auditTasks(parseTaskFile(todo, 'ROADMAP.md'), changed, []);
+
+    expect(summary).toMatchObject({ total: 4, done: 3, open: 1, verified: 1, code_only: 1, unverified: 1, basis: 'git' });
+    expect(summary.items.map(i => i.status)).toEqual(['verified', 'code_only', 'unverified', 'open']);
+    expect(summary.items[0]).toMatchObject({ code: ['src/auth/rate-limiter.ts'], tests: ['src/auth/rate-limiter.test.ts'] });
+  });
+
+  it('should fall back to the file tree without git history', () => {
+    const summary = auditTasks(parseTaskFile(todo, 'TODO.md'), null, ['src/billing/invoices.ts']);
+
+    expect(summary.basis).toBe('tree');
+    expect(summary.items[1].status).toBe('code_only');
+  });
+});
+
+describe('RCI Evidence', () => {
+  it('should reproduce metric-only scores and cite their inputs', () => {
+    const rci = calculateRCI(metrics());
+
+    expect(rci).toMatchObject({ intent_alignment: 50, task_reality_sync: 60, technical_health: 85 });
+    expect(rci.evidence).toContainEqual({
+      component: 'intent_alignment',
+      signal: 'Doc-to-code ratio of 1.20:1',
+      impact: -20,
+      sources: ['36 documentation files', '30 code files'],
+    });
+    expect(calculateRCI(metrics({ doc_to_code_ratio: 0.2 })).intent_alignment).toBe(90);
+  });
+
+  it('should score git history and task claims', () => {
+    const history = summarizeHistory(
+      [0, 8, 15, 22].map(daysAgo => ({
+        hash: `c${daysAgo}`,
+        timestamp: NOW - daysAgo * DAY,
+        author: 'Ada',
+        subject: '',
+        files: [{ path: 'src/auth/limiter.ts', added: 10, deleted: 0 }, { path: 'src/auth/limiter.test.ts', added: 5, deleted: 0 }],
+      })),
+      28,
+      NOW
+    );
+    const tasks = auditTasks(
+      parseTaskFile('- [x] `limiter`\n- [x] Billing invoices\n- [x] Dark mode', 'TODO.md'),
+      history.files_touched,
+      []
+    );
+    const rci = calculateRCI(metrics({ last_commit_age_days: 0 }), {
+      history,
+      documentation: documentationCoverage(history, ['src/auth/limiter.ts']),
+      tasks,
+    });
+    const impact = (signal: string) => rci.evidence!.find(e => e.signal.startsWith(signal))?.impact;
+
+    expect(impact('0 of 1 directories with code changes are documented')).toBe(-5);
+    expect(impact('0% of changed lines')).toBe(5);
+    expect(impact('1 of 3 items marked done')).toBe(-15);
+    expect(impact('4 of 4 commits changing code also changed tests')).toBe(5);
+    expect(impact('Last commit 0 days ago')).toBe(5);
+    expect(impact('Commits in 4 of 4 weeks')).toBe(5);
+    expect(rci).toMatchObject({ intent_alignment: 50, task_reality_sync: 50, technical_health: 95 });
+
+    const cited = rci.evidence!.find(e => e.signal.startsWith('1 of 3 items'))!.sources;
+    expect(cited).toEqual(['unverified: TODO.md:2 Billing invoices', 'unverified: TODO.md:3 Dark mode']);
+  });
+
+  it('should note missing git history and render evidence as markdown', () => {
+    const rci = calculateRCI(metrics(), { history: null });
+
+    expect(rci.evidence).toContainEqual({
+      component: 'technical_health',
+      signal: 'No git history available; cadence and churn not measured',
+      impact: 0,
+      sources: [],
+    });
+    expect(formatEvidenceMarkdown(rci.evidence!, 'intent_alignment')).toBe(
+      '- **-20** Doc-to-code ratio of 1.20:1\n  - `36 documentation files`\n  - `30 code files`'
+    );
+    expect(formatEvidenceMarkdown([], 'technical_health')).toBe('- No evidence recorded');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * File classification shared by metrics, git history and task checks
+ */
+
+export function isCodeFile(path: string): boolean {
+  return /\.(ts|js|tsx|jsx|py|java|go|rs|cpp|c)$/i.test(path);
+}
+
+export function isDocFile(path: string): boolean {
+  return /\.md$/i.test(path);
+}
+
+export function isTestFile(path: string): boolean {
+  return /\.(test|spec)\.(ts|js|tsx|jsx)$/i.test(path);
+}
+
+/**
+ * Match a repository-relative path against a glob: `*` stays within a
+ * directory, `**` crosses directories, and patterns without a slash
+ * (`*.ts`) match the file name anywhere in the tree
+ */
+export function matchesGlob(path: string, glob: string): boolean {
+  const source = glob
+    .replace(/^\.\//, '')
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => {
+      if (part === '**/' || part === '**') return '(?:.*/)?' + (part === '**' ? '.*' : '');
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  const target = glob.includes('/') ? path : path.split('/').pop()!;
+  return new RegExp(`^${source}$`).test(target);
+}
+
+export function countDebtMarkers(content: string): number {
+  return (content.match(/TODO|FIXME|HACK|XXX/g) || []).length;
+}
@@ -0,0 +1,198 @@
+/**
+ * Local git history
+ *
+ * Reads `git log --numstat` for the scanned directory and summarises
+ * commit cadence, churn per directory and which changed directories are
+ * documented. Returns null when the directory is not in a git repository
+ * or git is not installed, so every git signal is optional.
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { dirname } from 'path';
+import { isCodeFile, isDocFile, isTestFile } from './file-kinds.js';
+
+const execFileAsync = promisify(execFile);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CommitFile {
+  path: string;
+  added: number;
+  deleted: number;
+}
+
+export interface Commit {
+  hash: string;
+  timestamp: number;
+  author: string;
+  subject: string;
+  files: CommitFile[];
+}
+
+export interface DirectoryChurn {
+  directory: string;
+  commits: number;
+  files: number;
+  churn: number;
+}
+
+export interface HistorySummary {
+  window_days: number;
+  commits: number;
+  authors: number;
+  last_commit_at: string | null;
+  last_commit_age_days: number | null;
+  active_weeks: number;
+  total_weeks: number;
+  /** Directories by lines added + deleted, busiest first */
+  churn_by_directory: DirectoryChurn[];
+  /** Every file changed in the window, relative to the scanned directory */
+  files_touched: string[];
+  code_commits: number;
+  /** Commits that changed code and tests together */
+  code_commits_with_tests: number;
+  code_churn: number;
+  doc_churn: number;
+}
+
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+
+/**
+ * Commits of the last `sinceDays` days touching the scanned directory,
+ * newest first; null if git history is unavailable
+ */
+export async function readGitLog(repoPath: string, sinceDays: number): Promise<Commit[] | null> {
+  try {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['log', `--since=${sinceDays}.days`, '--no-merges', '--relative', '--numstat', `--format=${RECORD}%H${FIELD}%at${FIELD}%an${FIELD}%s`, '--', '.'],
+      { cwd: repoPath, maxBuffer: 64 * 1024 * 1024 }
+    );
+    return parseGitLog(stdout);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Age in days of the newest commit touching the directory, regardless of
+ * the history window
+ */
+export async function readLastCommitAge(repoPath: string, now: number = Date.now()): Promise<number | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['log', '-1', '--format=%at', '--', '.'], { cwd: repoPath });
+    const seconds = parseInt(stdout.trim(), 10);
+    return Number.isNaN(seconds) ? null : Math.floor((now - seconds * 1000) / DAY_MS);
+  } catch (error) {
+    return null;
+  }
+}
+
+// "src/{old => new}/file.ts" and "old.ts => new.ts" become the new path
+function renamedPath(path: string): string {
+  return path.replace(/\{[^}]* => ([^}]*)\}/g, '$1').replace(/^.* => /, '').replace(/\/\//g, '/');
+}
+
+export function parseGitLog(output: string): Commit[] {
+  return output
+    .split(RECORD)
+    .filter(record => record.trim())
+    .map(record => {
+      const [header, ...lines] = record.split('\n');
+      const [hash, timestamp, author, subject] = header.split(FIELD);
+      const files = lines
+        .map(line => line.split('\t'))
+        .filter(parts => parts.length === 3)
+        .map(([added, deleted, path]) => ({
+          path: renamedPath(path),
+          // Binary files show "-" instead of line counts
+          added: parseInt(added, 10) || 0,
+          deleted: parseInt(deleted, 10) || 0,
+        }));
+      return { hash, timestamp: parseInt(timestamp, 10) * 1000, author, subject, files };
+    });
+}
+
+/**
+ * Directory a file's churn is attributed to: its first two levels
+ */
+export function churnDirectory(path: string): string {
+  const dir = dirname(path);
+  return dir === '.' ? '.' : dir.split('/').slice(0, 2).join('/');
+}
+
+export function summarizeHistory(commits: Commit[], windowDays: number, now: number = Date.now()): HistorySummary {
+  const directories = new Map<string, { commits: Set<string>; files: Set<string>; churn: number }>();
+  const touched = new Set<string>();
+  const activeWeeks = new Set<number>();
+  let codeCommits = 0;
+  let codeCommitsWithTests = 0;
+  let codeChurn = 0;
+  let docChurn = 0;
+
+  for (const commit of commits) {
+    activeWeeks.add(Math.floor((now - commit.timestamp) / (7 * DAY_MS)));
+
+    const changesCode = commit.files.some(f => isCodeFile(f.path) && !isTestFile(f.path));
+    if (changesCode) {
+      codeCommits++;
+      if (commit.files.some(f => isTestFile(f.path))) codeCommitsWithTests++;
+    }
+
+    for (const file of commit.files) {
+      const lines = file.added + file.deleted;
+      touched.add(file.path);
+      if (isCodeFile(file.path)) codeChurn += lines;
+      if (isDocFile(file.path)) docChurn += lines;
+
+      const key = churnDirectory(file.path);
+      const entry = directories.get(key) || { commits: new Set<string>(), files: new Set<string>(), churn: 0 };
+      entry.commits.add(commit.hash);
+      entry.files.add(file.path);
+      entry.churn += lines;
+      directories.set(key, entry);
+    }
+  }
+
+  const newest = commits.reduce<number | null>((max, c) => (max === null || c.timestamp > max ? c.timestamp : max), null);
+
+  return {
+    window_days: windowDays,
+    commits: commits.length,
+    authors: new Set(commits.map(c => c.author)).size,
+    last_commit_at: newest === null ? null : new Date(newest).toISOString(),
+    last_commit_age_days: newest === null ? null : Math.floor((now - newest) / DAY_MS),
+    active_weeks: activeWeeks.size,
+    total_weeks: Math.ceil(windowDays / 7),
+    churn_by_directory: [...directories.entries()]
+      .map(([directory, d]) => ({ directory, commits: d.commits.size, files: d.files.size, churn: d.churn }))
+      .sort((a, b) => b.churn - a.churn || a.directory.localeCompare(b.directory)),
+    files_touched: [...touched].sort(),
+    code_commits: codeCommits,
+    code_commits_with_tests: codeCommitsWithTests,
+    code_churn: codeChurn,
+    doc_churn: docChurn,
+  };
+}
+
+/**
+ * Split directories with code changes into those with a markdown file of
+ * their own (or in a parent below the root) and those without
+ */
+export function documentationCoverage(history: HistorySummary, repoFiles: string[]): { documented: string[]; undocumented: string[] } {
+  const docDirs = new Set(repoFiles.filter(isDocFile).map(f => dirname(f)).filter(dir => dir !== '.'));
+  const codeDirs = new Set(
+    history.files_touched.filter(f => isCodeFile(f) && !isTestFile(f)).map(f => dirname(f)).filter(dir => dir !== '.')
+  );
+
+  const documented: string[] = [];
+  const undocumented: string[] = [];
+  for (const dir of [...codeDirs].sort()) {
+    const segments = dir.split('/');
+    const ancestors = segments.map((_, i) => segments.slice(0, i + 1).join('/'));
+    (ancestors.some(a => docDirs.has(a)) ? documented : undocumented).push(dir);
+  }
+  return { documented, undocumented };
+}
@@ -9,6 +9,14 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { promises as fs } from 'fs';
 import { join, relative } from 'path';
+import { createFileReader, createRegistry, DETECTOR_CONFIG_FILE, DetectorContext, DetectorRegistry } from './detectors/index.js';
+import { countDebtMarkers, isCodeFile, isDocFile, isTestFile, matchesGlob } from './file-kinds.js';
+import { documentationCoverage, HistorySummary, readGitLog, readLastCommitAge, summarizeHistory } from './git-history.js';
+import { calculateRCI, formatEvidenceMarkdown, RCIContext } from './rci.js';
+import { listSnapshots, resolveSnapshot, saveSnapshot, ScanSnapshot, SNAPSHOT_DIR } from './snapshots.js';
+import { bar, buildTrend, compareSnapshots, formatComparisonMarkdown, formatTrendMarkdown } from './trends.js';
+import { auditTasks, isTaskFile, parseTaskFile, TaskItem, TaskSummary } from './tasks.js';
+import { Pattern, RCIScore, RepositoryMetrics, ScanConfig, ScanDepth } from './types.js';
 
 /**
  * Dark Matter Analyzer MCP Server
@@ -18,50 +26,27 @@ import { join, relative } from 'path';
  * - calculate_rci: Calculate Repository Coherence Index
  * - detect_patterns: Identify organizational patterns
  * - generate_report: Create comprehensive Dark Matter report
+ * - compare_scans: Show how RCI and patterns changed between scans
+ *
+ * Every scan is saved as a snapshot under .dark-matter/ in the scanned
+ * repository, so reports can show direction over time. RCI components are
+ * scored from cited evidence: scan metrics, local git history and the
+ * checkboxes in TODO/roadmap files. Patterns come from a registry of
+ * detectors; projects add their own in dark-matter.config.json.
  *
  * Reveals what is unseen, unsaid, and unmeasured in repositories.
  */
 
-interface ScanConfig {
-  path: string;
-  depth?: 'quick' | 'medium' | 'deep';
-  include_patterns?: string[];
-  exclude_patterns?: string[];
-}
-
-interface Pattern {
-  type: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  signal: string;
-  interpretation: string;
-  confidence: number;
-  evidence: string[];
-}
-
-interface RCIScore {
-  overall: number;
-  intent_alignment: number;
-  task_reality_sync: number;
-  technical_health: number;
-  status: 'COHERENT' | 'MONITOR' | 'MISALIGNED' | 'INCOHERENT';
-}
-
-interface RepositoryMetrics {
-  total_files: number;
-  code_files: number;
-  doc_files: number;
-  test_files: number;
-  doc_to_code_ratio: number;
-  avg_doc_length: number;
-  technical_debt_markers: number;
-  last_commit_age_days: number | null;
-}
-
 class DarkMatterAnalyzerServer {
   private server: Server;
   private currentPath: string | null = null;
   private metrics: RepositoryMetrics | null = null;
   private patterns: Pattern[] = [];
+  private depth: ScanDepth = 'medium';
+  private registry: DetectorRegistry | null = null;
+  private history: HistorySummary | null = null;
+  private tasks: TaskSummary | null = null;
+  private rciContext: RCIContext = {};
 
   constructor() {
     this.server = new Server(
@@ -101,6 +86,8 @@ class DarkMatterAnalyzerServer {
             return await this.handleAnalyzeDocumentation(args as any);
           case 'check_coherence':
             return await this.handleCheckCoherence(args as any);
+          case 'compare_scans':
+            return await this.handleCompareScans(args as any);
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -129,26 +116,40 @@ class DarkMatterAnalyzerServer {
             depth: {
               type: 'string',
               enum: ['quick', 'medium', 'deep'],
-              description: 'Analysis depth: quick (basic metrics), medium (patterns), deep (full analysis)',
+              description: 'Analysis depth: quick (metric detectors), medium (detectors that read files), deep (git history and task claims)',
               default: 'medium',
             },
             include_patterns: {
               type: 'array',
               items: { type: 'string' },
-              description: 'File patterns to include (e.g., ["*.ts", "*.md"])',
+              description: 'Globs of files to scan (e.g., ["*.ts", "*.md", "src/**"]); all files if omitted',
             },
             exclude_patterns: {
               type: 'array',
               items: { type: 'string' },
               description: 'Patterns to exclude (e.g., ["node_modules", "dist"])',
             },
+            save_snapshot: {
+              type: 'boolean',
+              description: `Save metrics, patterns and RCI as a snapshot under ${SNAPSHOT_DIR}/ in the repository`,
+              default: true,
+            },
+            history_days: {
+              type: 'number',
+              description: 'Days of git history read for commit cadence, churn and task verification',
+              default: 90,
+            },
+            detectors_config: {
+              type: 'string',
+              description: `Detector config file, relative to the repository (default: ${DETECTOR_CONFIG_FILE} if present)`,
+            },
           },
           required: ['path'],
         },
       },
       {
         name: 'calculate_rci',
-        description: 'Calculate Repository Coherence Index (RCI) score',
+        description: 'Calculate Repository Coherence Index (RCI) score with the evidence behind each component',
         inputSchema: {
           type: 'object',
           properties: {
@@ -161,7 +162,7 @@ class DarkMatterAnalyzerServer {
       },
       {
         name: 'detect_patterns',
-        description: 'Detect organizational patterns and weak signals',
+        description: 'Detect organizational patterns and weak signals, filtered by detector focus',
         inputSchema: {
           type: 'object',
           properties: {
@@ -230,31 +231,136 @@ class DarkMatterAnalyzerServer {
           required: ['readme_path', 'repository_path'],
         },
       },
+      {
+        name: 'compare_scans',
+        description: 'Compare scan snapshots: how RCI components and patterns changed between two scans, and the trend over recent scans',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to repository root (uses last scanned if omitted)',
+            },
+            from: {
+              type: 'string',
+              description: 'Snapshot id, id prefix (e.g. a date like 2025-01-31), "first", "previous" or "latest"',
+              default: 'previous',
+            },
+            to: {
+              type: 'string',
+              description: 'Snapshot to compare against, same forms as from',
+              default: 'latest',
+            },
+            limit: {
+              type: 'number',
+              description: 'Number of most recent snapshots in the trend',
+              default: 10,
+            },
+            format: {
+              type: 'string',
+              enum: ['markdown', 'json'],
+              description: 'Output format',
+              default: 'markdown',
+            },
+          },
+        },
+      },
     ];
   }
 
-  private async handleScanRepository(config: ScanConfig) {
+  private async handleScanRepository(config: ScanConfig & { save_snapshot?: boolean; history_days?: number; detectors_config?: string }) {
     this.currentPath = config.path;
     const depth = config.depth || 'medium';
-    const excludePatterns = config.exclude_patterns || ['node_modules', 'dist', '.git', 'build'];
+    this.depth = depth;
+    const historyDays = config.history_days || 90;
+    // Earlier snapshots are never part of the scanned repository
+    const excludePatterns = [...(config.exclude_patterns || ['node_modules', 'dist', '.git', 'build']), SNAPSHOT_DIR];
 
     // Gather repository metrics
-    this.metrics = await this.gatherMetrics(config.path, excludePatterns);
+    const repoFiles = (await this.walkDirectory(config.path, excludePatterns))
+      .map(f => relative(config.path, f).split('\\').join('/'))
+      .filter(f => !config.include_patterns?.length || config.include_patterns.some(glob => matchesGlob(f, glob)));
+    const read = createFileReader(config.path);
+    this.metrics = await this.gatherMetrics(repoFiles, read);
+
+    // Git history and task claims, cited as RCI evidence
+    const commits = await readGitLog(config.path, historyDays);
+    this.history = commits ? summarizeHistory(commits, historyDays) : null;
+    this.metrics.last_commit_age_days = this.history
+      ? await readLastCommitAge(config.path)
+      : null;
+    this.tasks = await this.auditTaskFiles(config.path, repoFiles);
+    this.rciContext = {
+      history: this.history,
+      documentation: this.history ? documentationCoverage(this.history, repoFiles) : undefined,
+      tasks: this.tasks,
+    };
 
-    // Detect patterns based on depth
-    if (depth === 'medium' || depth === 'deep') {
-      this.patterns = await this.scanPatterns(config.path, depth);
-    }
+    // Detectors run when the scan is at least as deep as they need
+    const { registry, custom } = await createRegistry(config.path, config.detectors_config);
+    this.registry = registry;
+    const context: DetectorContext = {
+      root: config.path,
+      depth,
+      files: repoFiles,
+      metrics: this.metrics,
+      history: this.history,
+      tasks: this.tasks,
+      read,
+    };
+    this.patterns = await registry.detect(context);
 
-    const result = {
+    const timestamp = new Date().toISOString();
+    const rci = calculateRCI(this.metrics, this.rciContext);
+    const result: any = {
       path: config.path,
       depth,
       metrics: this.metrics,
       patterns_found: this.patterns.length,
       critical_patterns: this.patterns.filter(p => p.severity === 'critical').length,
-      timestamp: new Date().toISOString(),
+      detectors: {
+        ran: registry.select({ depth }).map(d => d.id),
+        custom,
+      },
+      history: this.history
+        ? {
+          window_days: this.history.window_days,
+          commits: this.history.commits,
+          authors: this.history.authors,
+          active_weeks: this.history.active_weeks,
+          busiest_directories: this.history.churn_by_directory.slice(0, 5),
+        }
+        : null,
+      tasks: this.tasks
+        ? { files: this.tasks.files, done: this.tasks.done, open: this.tasks.open, verified: this.tasks.verified, unverified: this.tasks.unverified }
+        : null,
+      rci,
+      timestamp,
     };
 
+    if (config.save_snapshot !== false) {
+      const previous = (await listSnapshots(config.path)).pop();
+      const { snapshot, file } = await saveSnapshot(config.path, {
+        timestamp,
+        repository: config.path,
+        depth,
+        metrics: this.metrics,
+        patterns: this.patterns,
+        rci,
+      });
+      result.snapshot = { id: snapshot.id, file };
+
+      if (previous) {
+        const comparison = compareSnapshots(previous, snapshot);
+        result.since_previous = {
+          snapshot: previous.id,
+          rci: comparison.rci.overall,
+          patterns_added: comparison.patterns.added.map(p => p.type),
+          patterns_resolved: comparison.patterns.resolved.map(p => p.type),
+        };
+      }
+    }
+
     return {
       content: [{
         type: 'text',
@@ -263,32 +369,22 @@ class DarkMatterAnalyzerServer {
     };
   }
 
-  private async gatherMetrics(repoPath: string, excludePatterns: string[]): Promise<RepositoryMetrics> {
-    const files = await this.walkDirectory(repoPath, excludePatterns);
-
-    const codeFiles = files.filter(f => /\.(ts|js|tsx|jsx|py|java|go|rs|cpp|c)$/i.test(f));
-    const docFiles = files.filter(f => /\.md$/i.test(f));
-    const testFiles = files.filter(f => /\.(test|spec)\.(ts|js|tsx|jsx)$/i.test(f));
+  private async gatherMetrics(files: string[], read: (file: string) => Promise<string | null>): Promise<RepositoryMetrics> {
+    const codeFiles = files.filter(isCodeFile);
+    const docFiles = files.filter(isDocFile);
+    const testFiles = files.filter(isTestFile);
 
     let totalDocLines = 0;
     for (const docFile of docFiles) {
-      try {
-        const content = await fs.readFile(docFile, 'utf-8');
-        totalDocLines += content.split('\n').length;
-      } catch (error) {
-        // Skip files we can't read
-      }
+      const content = await read(docFile);
+      // Skip files we can't read
+      if (content !== null) totalDocLines += content.split('\n').length;
     }
 
     // Count technical debt markers
     let debtMarkers = 0;
     for (const codeFile of codeFiles) {
-      try {
-        const content = await fs.readFile(codeFile, 'utf-8');
-        debtMarkers += (content.match(/TODO|FIXME|HACK|XXX/g) || []).length;
-      } catch (error) {
-        // Skip files we can't read
-      }
+      debtMarkers += countDebtMarkers((await read(codeFile)) || '');
     }
 
     return {
@@ -299,10 +395,26 @@ class DarkMatterAnalyzerServer {
       doc_to_code_ratio: codeFiles.length > 0 ? docFiles.length / codeFiles.length : 0,
       avg_doc_length: docFiles.length > 0 ? Math.round(totalDocLines / docFiles.length) : 0,
       technical_debt_markers: debtMarkers,
-      last_commit_age_days: null, // Would need git integration
+      last_commit_age_days: null, // Filled in from git history
     };
   }
 
+  private async auditTaskFiles(repoPath: string, repoFiles: string[]): Promise<TaskSummary | null> {
+    const items: TaskItem[] = [];
+    for (const file of repoFiles.filter(isTaskFile)) {
+      try {
+        items.push(...parseTaskFile(await fs.readFile(join(repoPath, file), 'utf-8'), file));
+      } catch (error) {
+        // Skip files we can't read
+      }
+    }
+
+    if (items.length === 0) {
+      return null;
+    }
+    return auditTasks(items, this.history ? this.history.files_touched : null, repoFiles);
+  }
+
   private async walkDirectory(dir: string, excludePatterns: string[]): Promise<string[]> {
     const files: string[] = [];
 
@@ -330,108 +442,12 @@ class DarkMatterAnalyzerServer {
     return files;
   }
 
-  private async scanPatterns(repoPath: string, depth: string): Promise<Pattern[]> {
-    const patterns: Pattern[] = [];
-
-    if (!this.metrics) {
-      return patterns;
-    }
-
-    // Pattern 1: Documentation Inflation
-    if (this.metrics.doc_files > 20 && this.metrics.avg_doc_length > 400) {
-      patterns.push({
-        type: 'Documentation Inflation',
-        severity: this.metrics.doc_files > 30 ? 'high' : 'medium',
-        signal: `${this.metrics.doc_files} documentation files averaging ${this.metrics.avg_doc_length} lines`,
-        interpretation: 'Planning activity may significantly outpace execution. High documentation volume suggests over-planning or avoidance through writing.',
-        confidence: 0.85,
-        evidence: [
-          `${this.metrics.doc_files} total .md files`,
-          `Average ${this.metrics.avg_doc_length} lines per doc`,
-          `Doc-to-code ratio: ${this.metrics.doc_to_code_ratio.toFixed(2)}`,
-        ],
-      });
-    }
-
-    // Pattern 2: Execution Deficit (high doc-to-code ratio)
-    if (this.metrics.doc_to_code_ratio > 0.5) {
-      patterns.push({
-        type: 'Execution Deficit',
-        severity: this.metrics.doc_to_code_ratio > 1.0 ? 'critical' : 'high',
-        signal: `Doc-to-code ratio of ${this.metrics.doc_to_code_ratio.toFixed(2)}:1`,
-        interpretation: 'More documentation than implementation suggests hope-driven development. System may be aspirational rather than actionable.',
-        confidence: 0.90,
-        evidence: [
-          `${this.metrics.doc_files} documentation files`,
-          `${this.metrics.code_files} code files`,
-          `Ratio: ${this.metrics.doc_to_code_ratio.toFixed(2)}:1`,
-        ],
-      });
-    }
-
-    // Pattern 3: Suppression Pattern (technical debt)
-    if (this.metrics.technical_debt_markers > 50) {
-      patterns.push({
-        type: 'Suppression Pattern',
-        severity: this.metrics.technical_debt_markers > 100 ? 'high' : 'medium',
-        signal: `${this.metrics.technical_debt_markers} TODO/FIXME/HACK markers`,
-        interpretation: 'High technical debt markers suggest time pressure, fatigue, or incomplete implementations. May indicate rushing or scope creep.',
-        confidence: 0.75,
-        evidence: [
-          `${this.metrics.technical_debt_markers} total markers`,
-          `Average ${(this.metrics.technical_debt_markers / Math.max(this.metrics.code_files, 1)).toFixed(1)} per code file`,
-        ],
-      });
-    }
-
-    // Pattern 4: Test Coverage Health
-    const testCoverage = this.metrics.code_files > 0
-      ? this.metrics.test_files / this.metrics.code_files
-      : 0;
-
-    if (testCoverage < 0.3 && this.metrics.code_files > 10) {
-      patterns.push({
-        type: 'Test Deficiency',
-        severity: testCoverage < 0.1 ? 'high' : 'medium',
-        signal: `Test coverage ratio of ${testCoverage.toFixed(2)}:1`,
-        interpretation: 'Low test coverage may indicate rushed implementation or avoidance of validation feedback.',
-        confidence: 0.70,
-        evidence: [
-          `${this.metrics.test_files} test files`,
-          `${this.metrics.code_files} code files`,
-          `Coverage ratio: ${testCoverage.toFixed(2)}`,
-        ],
-      });
-    }
-
-    return patterns;
-  }
-
   private async handleCalculateRCI(args: any) {
     if (!this.metrics || !this.currentPath) {
       throw new Error('Must run scan_repository first');
     }
 
-    // Calculate component scores
-    const intentAlignment = await this.calculateIntentAlignment();
-    const taskRealitySync = await this.calculateTaskRealitySync();
-    const technicalHealth = await this.calculateTechnicalHealth();
-
-    const overall = Math.round((intentAlignment + taskRealitySync + technicalHealth) / 3);
-
-    let status: RCIScore['status'];
-    if (overall >= 85) status = 'COHERENT';
-    else if (overall >= 70) status = 'MONITOR';
-    else if (overall >= 50) status = 'MISALIGNED';
-    else status = 'INCOHERENT';
-
-    const rci: RCIScore = {
-      overall,
-      intent_alignment: intentAlignment,
-      task_reality_sync: taskRealitySync,
-      technical_health: technicalHealth,
-      status,
-    };
+    const rci: RCIScore = calculateRCI(this.metrics, this.rciContext);
 
     return {
       content: [{
@@ -441,77 +457,22 @@ class DarkMatterAnalyzerServer {
     };
   }
 
-  private async calculateIntentAlignment(): Promise<number> {
-    // Simplified scoring based on doc-to-code ratio
-    // Lower ratio = better alignment (execution matches intent)
-    if (!this.metrics) return 50;
-
-    if (this.metrics.doc_to_code_ratio < 0.3) return 90;
-    if (this.metrics.doc_to_code_ratio < 0.5) return 80;
-    if (this.metrics.doc_to_code_ratio < 0.8) return 70;
-    if (this.metrics.doc_to_code_ratio < 1.2) return 60;
-    return 50;
-  }
-
-  private async calculateTaskRealitySync(): Promise<number> {
-    // Based on technical debt markers and test coverage
-    if (!this.metrics) return 50;
-
-    const debtPerFile = this.metrics.technical_debt_markers / Math.max(this.metrics.code_files, 1);
-    const testCoverage = this.metrics.test_files / Math.max(this.metrics.code_files, 1);
-
-    let score = 75; // Base score
-
-    // Penalize high debt
-    if (debtPerFile > 5) score -= 30;
-    else if (debtPerFile > 2) score -= 20;
-    else if (debtPerFile > 1) score -= 10;
-
-    // Reward good test coverage
-    if (testCoverage > 0.7) score += 10;
-    else if (testCoverage > 0.5) score += 5;
-    else if (testCoverage < 0.2) score -= 15;
-
-    return Math.max(0, Math.min(100, score));
-  }
-
-  private async calculateTechnicalHealth(): Promise<number> {
-    // Based on file organization and structure
-    if (!this.metrics) return 50;
-
-    let score = 70; // Base score
-
-    // Reward having tests
-    if (this.metrics.test_files > 0) score += 10;
-
-    // Penalize excessive documentation
-    if (this.metrics.doc_files > 40) score -= 10;
-    else if (this.metrics.doc_files > 30) score -= 5;
-
-    // Reward balanced codebase
-    if (this.metrics.code_files > 20 && this.metrics.code_files < 500) score += 10;
-
-    return Math.max(0, Math.min(100, score));
-  }
-
   private async handleDetectPatterns(args: any) {
-    if (this.patterns.length === 0) {
+    if (!this.registry) {
       throw new Error('No patterns detected. Run scan_repository first.');
     }
 
     const focus = args.focus || 'all';
-    let filteredPatterns = this.patterns;
-
-    if (focus !== 'all') {
-      filteredPatterns = this.patterns.filter(p =>
-        p.type.toLowerCase().includes(focus.toLowerCase())
-      );
-    }
+    const detectors = this.registry.select({ focus, depth: this.depth });
+    const filteredPatterns = this.registry.filter(this.patterns, focus);
 
     return {
       content: [{
         type: 'text',
         text: JSON.stringify({
+          focus,
+          depth: this.depth,
+          detectors: detectors.map(d => ({ id: d.id, focus: d.focus, min_depth: d.minDepth, description: d.description })),
           total_patterns: filteredPatterns.length,
           patterns: filteredPatterns,
         }, null, 2),
@@ -527,11 +488,12 @@ class DarkMatterAnalyzerServer {
     const format = args.format || 'markdown';
     const rciResult = await this.handleCalculateRCI({});
     const rci = JSON.parse(rciResult.content[0].text);
+    const snapshots = await listSnapshots(this.currentPath);
 
     let report = '';
 
     if (format === 'markdown') {
-      report = this.generateMarkdownReport(rci);
+      report = this.generateMarkdownReport(rci, snapshots);
     } else if (format === 'json') {
       report = JSON.stringify({
         repository: this.currentPath,
@@ -539,9 +501,15 @@ class DarkMatterAnalyzerServer {
         metrics: this.metrics,
         patterns: this.patterns,
         rci,
+        history: this.history,
+        tasks: this.tasks,
+        trend: snapshots.length > 0 ? buildTrend(snapshots.slice(-10)) : null,
+        since_previous: snapshots.length > 1
+          ? compareSnapshots(snapshots[snapshots.length - 2], snapshots[snapshots.length - 1])
+          : null,
       }, null, 2);
     } else {
-      report = this.generateTextReport(rci);
+      report = this.generateTextReport(rci, snapshots);
     }
 
     // Save if output path provided
@@ -563,7 +531,7 @@ class DarkMatterAnalyzerServer {
     };
   }
 
-  private generateMarkdownReport(rci: RCIScore): string {
+  private generateMarkdownReport(rci: RCIScore, snapshots: ScanSnapshot[]): string {
     const timestamp = new Date().toISOString().split('T')[0];
 
     return `# 🌌 Dark Matter Mode Analysis
@@ -611,7 +579,9 @@ ${this.patterns.map(p => `
 
 **Evidence:**
 ${p.evidence.map(e => `- ${e}`).join('\n')}
-`).join('\n---\n')}
+${p.files?.length ? `
+**Files:** ${p.files.map(f => `\`${f}\``).join(', ')}
+` : ''}`).join('\n---\n')}
 
 ---
 
@@ -624,6 +594,32 @@ ${p.evidence.map(e => `- ${e}`).join('\n')}
 | **Technical Health** | ${rci.technical_health}/100 | Build, tests, dependencies maintained |
 | **Overall RCI** | **${rci.overall}/100** | **${rci.status}** |
 
+### Evidence
+
+Each component starts from a base score; every signal below adds or takes points.
+
+#### Intent Alignment (${rci.intent_alignment}/100)
+
+${formatEvidenceMarkdown(rci.evidence || [], 'intent_alignment')}
+
+#### Task Reality Sync (${rci.task_reality_sync}/100)
+
+${formatEvidenceMarkdown(rci.evidence || [], 'task_reality_sync')}
+
+#### Technical Health (${rci.technical_health}/100)
+
+${formatEvidenceMarkdown(rci.evidence || [], 'technical_health')}
+${this.tasks ? `
+### Claimed Done vs. Changed
+
+${this.generateTaskSection(this.tasks)}
+` : ''}
+---
+
+## Trend — Direction Over Time
+
+${this.generateTrendSection(snapshots)}
+
 ---
 
 ## Layer 4: Action — Recommendations
@@ -642,7 +638,35 @@ ${this.generateClosingReflection(rci)}
 `;
   }
 
-  private generateTextReport(rci: RCIScore): string {
+  private generateTaskSection(tasks: TaskSummary): string {
+    const basis = tasks.basis === 'git'
+      ? `files changed in the last ${this.history!.window_days} days`
+      : 'files in the tree (no git history)';
+    const done = tasks.items.filter(i => i.done);
+    return `${tasks.done} of ${tasks.total} items in ${tasks.files.map(f => `\`${f}\``).join(', ')} are marked done, checked against ${basis}.
+
+| Item | Status | Code | Tests |
+|------|--------|------|-------|
+${done.map(i => `| ${i.file}:${i.line} ${i.text.replace(/\|/g, '\\|')} | ${i.status} | ${i.code.join(', ') || '—'} | ${i.tests.join(', ') || '—'} |`).join('\n')}`;
+  }
+
+  private generateTrendSection(snapshots: ScanSnapshot[]): string {
+    if (snapshots.length < 2) {
+      return `Only ${snapshots.length} recorded scan. Trends appear once \`scan_repository\` has run again; snapshots are kept in \`${SNAPSHOT_DIR}/\`.`;
+    }
+
+    const recent = snapshots.slice(-10);
+    const comparison = compareSnapshots(snapshots[snapshots.length - 2], snapshots[snapshots.length - 1]);
+    return `### Last ${recent.length} Scans
+
+${formatTrendMarkdown(buildTrend(recent))}
+
+### Since Previous Scan
+
+${formatComparisonMarkdown(comparison)}`;
+  }
+
+  private generateTextReport(rci: RCIScore, snapshots: ScanSnapshot[]): string {
     return `DARK MATTER MODE ANALYSIS
 ========================
 
@@ -666,7 +690,17 @@ RCI BREAKDOWN
 Intent Alignment: ${rci.intent_alignment}/100
 Task Reality Sync: ${rci.task_reality_sync}/100
 Technical Health: ${rci.technical_health}/100
-`;
+
+EVIDENCE
+--------
+${(rci.evidence || []).map(e => `[${e.component}] ${e.impact > 0 ? '+' : ''}${e.impact} ${e.signal}${e.sources.length ? ` (${e.sources.join('; ')})` : ''}`).join('\n')}
+${snapshots.length > 1 ? `
+TREND (last ${Math.min(snapshots.length, 10)} scans)
+-----
+${buildTrend(snapshots.slice(-10)).points.map(p =>
+  `${p.timestamp.slice(0, 16).replace('T', ' ')}  ${bar(p.overall, 20)} ${p.overall} ${p.status}`
+).join('\n')}
+` : ''}`;
   }
 
   private getStatusInterpretation(status: string): string {
@@ -787,6 +821,51 @@ Technical Health: ${rci.technical_health}/100
     };
   }
 
+  private async handleCompareScans(args: any) {
+    const repoPath = args.path || this.currentPath;
+    if (!repoPath) {
+      throw new Error('Must run scan_repository first or pass path');
+    }
+
+    const snapshots = await listSnapshots(repoPath);
+    if (snapshots.length < 2) {
+      throw new Error(`Need at least 2 snapshots to compare, found ${snapshots.length} in ${join(repoPath, SNAPSHOT_DIR)}`);
+    }
+
+    const from = resolveSnapshot(snapshots, args.from || 'previous');
+    const to = resolveSnapshot(snapshots, args.to || 'latest');
+    const comparison = compareSnapshots(from, to);
+    const trend = buildTrend(snapshots.slice(-(args.limit || 10)));
+
+    if ((args.format || 'markdown') === 'json') {
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ repository: repoPath, snapshots: snapshots.length, comparison, trend }, null, 2),
+        }],
+      };
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: `# Dark Matter Scan Comparison
+
+**Repository:** ${repoPath}
+**Snapshots recorded:** ${snapshots.length}
+
+## Change
+
+${formatComparisonMarkdown(comparison)}
+
+## Trend (last ${trend.points.length} scans)
+
+${formatTrendMarkdown(trend)}
+`,
+      }],
+    };
+  }
+
   async run() {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
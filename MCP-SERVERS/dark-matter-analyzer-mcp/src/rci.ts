@@ -0,0 +1,250 @@
+/**
+ * Repository Coherence Index
+ *
+ * Each component starts from a base score and every signal adds or takes
+ * points, recorded as evidence with the files, directories or task lines
+ * it was read from. Scan metrics are always available; git history and
+ * task checkboxes add signals when present. The overall score is the mean
+ * of the three components.
+ */
+
+import { HistorySummary } from './git-history.js';
+import { TaskSummary } from './tasks.js';
+import { RCIComponentName, RCIEvidence, RCIScore, RepositoryMetrics } from './types.js';
+
+export interface RCIContext {
+  /** null when the repository has no git history; undefined when not read */
+  history?: HistorySummary | null;
+  /** Directories changed in the history window, split by whether they hold docs */
+  documentation?: { documented: string[]; undocumented: string[] };
+  tasks?: TaskSummary | null;
+}
+
+const BASE: Record<RCIComponentName, number> = {
+  intent_alignment: 70,
+  task_reality_sync: 75,
+  technical_health: 70,
+};
+
+// Sources listed per signal; the rest are counted
+const MAX_SOURCES = 5;
+
+function cite(items: string[]): string[] {
+  return items.length > MAX_SOURCES
+    ? [...items.slice(0, MAX_SOURCES), `... and ${items.length - MAX_SOURCES} more`]
+    : items;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+export function intentAlignmentEvidence(metrics: RepositoryMetrics, context: RCIContext = {}): RCIEvidence[] {
+  const evidence: RCIEvidence[] = [];
+  const add = (signal: string, impact: number, sources: string[]) =>
+    evidence.push({ component: 'intent_alignment', signal, impact, sources });
+
+  // Lower ratio = better alignment (execution matches intent)
+  const ratio = metrics.doc_to_code_ratio;
+  add(
+    `Doc-to-code ratio of ${ratio.toFixed(2)}:1`,
+    ratio < 0.3 ? 20 : ratio < 0.5 ? 10 : ratio < 0.8 ? 0 : ratio < 1.2 ? -10 : -20,
+    [`${metrics.doc_files} documentation files`, `${metrics.code_files} code files`]
+  );
+
+  const { history, documentation } = context;
+  if (documentation) {
+    const changed = documentation.documented.length + documentation.undocumented.length;
+    if (changed > 0) {
+      const share = documentation.documented.length / changed;
+      add(
+        `${documentation.documented.length} of ${changed} directories with code changes are documented (${percent(share)})`,
+        share >= 0.7 ? 5 : share < 0.3 ? -5 : 0,
+        cite(documentation.undocumented.map(dir => `undocumented: ${dir}`))
+      );
+    }
+  }
+
+  if (history) {
+    const churn = history.doc_churn + history.code_churn;
+    if (churn > 0) {
+      const docShare = history.doc_churn / churn;
+      add(
+        `${percent(docShare)} of changed lines in the last ${history.window_days} days were documentation`,
+        docShare > 0.6 ? -10 : docShare < 0.3 ? 5 : 0,
+        [`${history.doc_churn} documentation lines`, `${history.code_churn} code lines`, `${history.commits} commits`]
+      );
+    }
+  }
+
+  return evidence;
+}
+
+export function taskRealitySyncEvidence(metrics: RepositoryMetrics, context: RCIContext = {}): RCIEvidence[] {
+  const evidence: RCIEvidence[] = [];
+  const add = (signal: string, impact: number, sources: string[]) =>
+    evidence.push({ component: 'task_reality_sync', signal, impact, sources });
+
+  const debtPerFile = metrics.technical_debt_markers / Math.max(metrics.code_files, 1);
+  add(
+    `${debtPerFile.toFixed(1)} TODO/FIXME/HACK markers per code file`,
+    debtPerFile > 5 ? -30 : debtPerFile > 2 ? -20 : debtPerFile > 1 ? -10 : 0,
+    [`${metrics.technical_debt_markers} markers`, `${metrics.code_files} code files`]
+  );
+
+  const testCoverage = metrics.test_files / Math.max(metrics.code_files, 1);
+  add(
+    `Test-to-code file ratio of ${testCoverage.toFixed(2)}`,
+    testCoverage > 0.7 ? 10 : testCoverage > 0.5 ? 5 : testCoverage < 0.2 ? -15 : 0,
+    [`${metrics.test_files} test files`, `${metrics.code_files} code files`]
+  );
+
+  const { tasks, history } = context;
+  if (tasks && tasks.done > 0) {
+    // Code without tests counts as half a delivery
+    const share = (tasks.verified + tasks.code_only / 2) / tasks.done;
+    const basis = tasks.basis === 'git' ? 'changed' : 'existing';
+    const unverified = tasks.items.filter(i => i.status === 'unverified');
+    add(
+      `${tasks.verified} of ${tasks.done} items marked done have ${basis} code and tests, ${tasks.code_only} code only, ${tasks.unverified} nothing`,
+      share >= 0.7 ? 10 : share >= 0.4 ? 0 : -15,
+      cite(unverified.length > 0
+        ? unverified.map(i => `unverified: ${i.file}:${i.line} ${i.text}`)
+        : tasks.items.filter(i => i.done).map(i => `${i.status}: ${i.file}:${i.line} ${i.text}`))
+    );
+  }
+
+  if (history && history.code_commits >= 3) {
+    const share = history.code_commits_with_tests / history.code_commits;
+    add(
+      `${history.code_commits_with_tests} of ${history.code_commits} commits changing code also changed tests (${percent(share)})`,
+      share >= 0.5 ? 5 : share < 0.2 ? -5 : 0,
+      [`last ${history.window_days} days`]
+    );
+  }
+
+  return evidence;
+}
+
+export function technicalHealthEvidence(metrics: RepositoryMetrics, context: RCIContext = {}): RCIEvidence[] {
+  const evidence: RCIEvidence[] = [];
+  const add = (signal: string, impact: number, sources: string[]) =>
+    evidence.push({ component: 'technical_health', signal, impact, sources });
+
+  add(
+    metrics.test_files > 0 ? `${metrics.test_files} test files present` : 'No test files',
+    metrics.test_files > 0 ? 10 : 0,
+    [`${metrics.test_files} test files`]
+  );
+
+  // Excessive documentation
+  add(
+    `${metrics.doc_files} documentation files`,
+    metrics.doc_files > 40 ? -10 : metrics.doc_files > 30 ? -5 : 0,
+    [`${metrics.doc_files} .md files`]
+  );
+
+  // Balanced codebase
+  add(
+    `${metrics.code_files} code files`,
+    metrics.code_files > 20 && metrics.code_files < 500 ? 10 : 0,
+    [`${metrics.code_files} code files`]
+  );
+
+  const { history } = context;
+  if (history === null) {
+    add('No git history available; cadence and churn not measured', 0, []);
+    return evidence;
+  }
+
+  const age = metrics.last_commit_age_days ?? history?.last_commit_age_days ?? null;
+  if (age !== null) {
+    add(
+      `Last commit ${age} days ago`,
+      age <= 14 ? 5 : age > 90 ? -10 : age > 30 ? -5 : 0,
+      history?.last_commit_at ? [history.last_commit_at] : []
+    );
+  }
+
+  if (history && history.commits > 0) {
+    const cadence = history.active_weeks / Math.max(history.total_weeks, 1);
+    add(
+      `Commits in ${history.active_weeks} of ${history.total_weeks} weeks (${history.commits} commits, ${history.authors} authors)`,
+      cadence >= 0.5 ? 5 : cadence < 0.2 ? -5 : 0,
+      [`last ${history.window_days} days`]
+    );
+
+    const [top] = history.churn_by_directory;
+    const total = history.churn_by_directory.reduce((sum, d) => sum + d.churn, 0);
+    if (top && total > 0 && history.churn_by_directory.length > 1) {
+      const share = top.churn / total;
+      add(
+        `${percent(share)} of churn concentrated in ${top.directory}`,
+        share > 0.6 ? -5 : 0,
+        cite(history.churn_by_directory.map(d => `${d.directory}: ${d.churn} lines in ${d.commits} commits`))
+      );
+    }
+  }
+
+  return evidence;
+}
+
+function score(component: RCIComponentName, evidence: RCIEvidence[]): number {
+  const total = evidence.reduce((sum, e) => sum + e.impact, BASE[component]);
+  return Math.max(0, Math.min(100, total));
+}
+
+export function calculateIntentAlignment(metrics: RepositoryMetrics, context: RCIContext = {}): number {
+  return score('intent_alignment', intentAlignmentEvidence(metrics, context));
+}
+
+export function calculateTaskRealitySync(metrics: RepositoryMetrics, context: RCIContext = {}): number {
+  return score('task_reality_sync', taskRealitySyncEvidence(metrics, context));
+}
+
+export function calculateTechnicalHealth(metrics: RepositoryMetrics, context: RCIContext = {}): number {
+  return score('technical_health', technicalHealthEvidence(metrics, context));
+}
+
+export function rciStatus(overall: number): RCIScore['status'] {
+  if (overall >= 85) return 'COHERENT';
+  if (overall >= 70) return 'MONITOR';
+  if (overall >= 50) return 'MISALIGNED';
+  return 'INCOHERENT';
+}
+
+export function calculateRCI(metrics: RepositoryMetrics, context: RCIContext = {}): RCIScore {
+  const intent = intentAlignmentEvidence(metrics, context);
+  const task = taskRealitySyncEvidence(metrics, context);
+  const technical = technicalHealthEvidence(metrics, context);
+
+  const intentAlignment = score('intent_alignment', intent);
+  const taskRealitySync = score('task_reality_sync', task);
+  const technicalHealth = score('technical_health', technical);
+
+  const overall = Math.round((intentAlignment + taskRealitySync + technicalHealth) / 3);
+
+  return {
+    overall,
+    intent_alignment: intentAlignment,
+    task_reality_sync: taskRealitySync,
+    technical_health: technicalHealth,
+    status: rciStatus(overall),
+    evidence: [...intent, ...task, ...technical],
+  };
+}
+
+/**
+ * Markdown list of the evidence behind one component
+ */
+export function formatEvidenceMarkdown(evidence: RCIEvidence[], component: RCIComponentName): string {
+  const items = evidence.filter(e => e.component === component);
+  if (items.length === 0) return '- No evidence recorded';
+  return items
+    .map(e => {
+      const impact = e.impact > 0 ? `+${e.impact}` : String(e.impact);
+      const sources = e.sources.map(s => `  - \`${s}\``).join('\n');
+      return `- **${impact}** ${e.signal}${sources ? `\n${sources}` : ''}`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,100 @@
+/**
+ * Scan snapshots
+ *
+ * Every scan_repository run is saved as one JSON file under
+ * <repository>/.dark-matter/snapshots/, named after its timestamp so the
+ * directory lists in chronological order.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { Pattern, RCIScore, RepositoryMetrics } from './types.js';
+
+export const SNAPSHOT_DIR = '.dark-matter';
+
+export interface ScanSnapshot {
+  id: string;
+  timestamp: string;
+  repository: string;
+  depth: 'quick' | 'medium' | 'deep';
+  metrics: RepositoryMetrics;
+  patterns: Pattern[];
+  rci: RCIScore;
+}
+
+export function snapshotDirectory(repoPath: string): string {
+  return join(repoPath, SNAPSHOT_DIR, 'snapshots');
+}
+
+/**
+ * File-name-safe id from an ISO timestamp: 2025-01-31T09-30-00-000Z
+ */
+export function snapshotId(timestamp: string): string {
+  return timestamp.replace(/[:.]/g, '-');
+}
+
+export async function saveSnapshot(repoPath: string, snapshot: Omit<ScanSnapshot, 'id'>): Promise<{ snapshot: ScanSnapshot; file: string }> {
+  const dir = snapshotDirectory(repoPath);
+  await fs.mkdir(dir, { recursive: true });
+
+  // Two scans in the same millisecond get a numeric suffix
+  const base = snapshotId(snapshot.timestamp);
+  for (let attempt = 0; ; attempt++) {
+    const id = attempt === 0 ? base : `${base}-${attempt}`;
+    const file = join(dir, `${id}.json`);
+    const saved: ScanSnapshot = { id, ...snapshot };
+    try {
+      await fs.writeFile(file, JSON.stringify(saved, null, 2), { encoding: 'utf-8', flag: 'wx' });
+      return { snapshot: saved, file };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+}
+
+/**
+ * All snapshots of a repository, oldest first
+ */
+export async function listSnapshots(repoPath: string): Promise<ScanSnapshot[]> {
+  const dir = snapshotDirectory(repoPath);
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter(file => file.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const snapshots: ScanSnapshot[] = [];
+  for (const file of files) {
+    try {
+      snapshots.push(JSON.parse(await fs.readFile(join(dir, file), 'utf-8')));
+    } catch (error) {
+      // Skip snapshots we can't read
+    }
+  }
+
+  return snapshots.sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id));
+}
+
+/**
+ * Find a snapshot by id, id prefix (such as a date) or one of
+ * "latest", "previous" and "first"
+ */
+export function resolveSnapshot(snapshots: ScanSnapshot[], ref: string): ScanSnapshot {
+  if (snapshots.length === 0) {
+    throw new Error('No snapshots found. Run scan_repository first.');
+  }
+
+  let found: ScanSnapshot | undefined;
+  if (ref === 'latest') found = snapshots[snapshots.length - 1];
+  else if (ref === 'previous') found = snapshots[snapshots.length - 2];
+  else if (ref === 'first') found = snapshots[0];
+  else found = snapshots.find(s => s.id === ref) || snapshots.find(s => s.id.startsWith(snapshotId(ref)));
+
+  if (!found) {
+    const available = snapshots.slice(-5).map(s => s.id).join(', ');
+    throw new Error(`Snapshot not found: ${ref} (${snapshots.length} snapshot${snapshots.length === 1 ? '' : 's'}; most recent: ${available})`);
+  }
+  return found;
+}
@@ -0,0 +1,140 @@
+/**
+ * Task checkboxes in TODO and roadmap files
+ *
+ * Items ticked as done (`- [x] ...`) are claims. Each claim is checked
+ * against the code and tests that actually changed: an item naming
+ * `src/auth` or "rate limiter" is verified when a changed code file and a
+ * changed test file match those words.
+ */
+
+import { basename } from 'path';
+import { isCodeFile, isDocFile, isTestFile } from './file-kinds.js';
+
+// TODO.md, ROADMAP.md, docs/tasks.md, BACKLOG.md, MILESTONES.md, ...
+const TASK_FILE = /(^|\/)(todo|roadmap|tasks?|backlog|milestones?)[^/]*\.md$/i;
+
+const CHECKBOX = /^\s*[-*+]\s+\[([ xX])\]\s+(.+)$/;
+
+const STOPWORDS = new Set([
+  'about', 'after', 'again', 'added', 'adding', 'before', 'being', 'below', 'could', 'every', 'first', 'from',
+  'other', 'should', 'their', 'there', 'these', 'thing', 'things', 'those', 'under', 'until', 'which', 'while',
+  'would', 'where', 'support', 'initial', 'basic', 'proper', 'properly', 'better', 'make', 'using', 'update',
+  'updated', 'implement', 'implemented', 'create', 'created', 'finish', 'finished', 'complete', 'completed',
+]);
+
+export type TaskStatus = 'open' | 'verified' | 'code_only' | 'unverified';
+
+export interface TaskItem {
+  file: string;
+  line: number;
+  text: string;
+  done: boolean;
+}
+
+export interface TaskAudit extends TaskItem {
+  status: TaskStatus;
+  keywords: string[];
+  /** Changed (or existing) files the item matched */
+  code: string[];
+  tests: string[];
+}
+
+export interface TaskSummary {
+  files: string[];
+  total: number;
+  done: number;
+  open: number;
+  verified: number;
+  code_only: number;
+  unverified: number;
+  /** Whether claims were matched against git changes or only the file tree */
+  basis: 'git' | 'tree';
+  items: TaskAudit[];
+}
+
+export function isTaskFile(path: string): boolean {
+  return TASK_FILE.test(path.replace(/\\/g, '/'));
+}
+
+export function parseTaskFile(content: string, file: string): TaskItem[] {
+  const items: TaskItem[] = [];
+  content.split('\n').forEach((line, index) => {
+    const match = line.match(CHECKBOX);
+    if (match) {
+      items.push({ file, line: index + 1, text: match[2].trim(), done: match[1] !== ' ' });
+    }
+  });
+  return items;
+}
+
+/**
+ * Words in a task that could name code: `backticked` terms, paths,
+ * identifiers and longer plain words
+ */
+export function extractKeywords(text: string): string[] {
+  const keywords = new Set<string>();
+  const add = (word: string) => {
+    const normalized = word.toLowerCase().replace(/^[./]+|[./]+$/g, '');
+    if (normalized.length >= 3 && !STOPWORDS.has(normalized)) keywords.add(normalized);
+  };
+
+  for (const [, code] of text.matchAll(/`([^`]+)`/g)) add(code);
+  const plain = text.replace(/`[^`]+`/g, ' ');
+
+  for (const token of plain.split(/[\s,;:()[\]"']+/)) {
+    if (token.includes('/') || /\.\w+$/.test(token)) {
+      add(token);
+    } else if (/[a-z][A-Z]|_/.test(token)) {
+      // camelCase or snake_case identifier
+      add(token.replace(/[^\w]/g, ''));
+    } else if (/^[A-Za-z][a-z-]{4,}$/.test(token)) {
+      add(token.replace(/-$/, ''));
+    }
+  }
+  return [...keywords];
+}
+
+// "rateLimiter", "rate_limiter" and "rate-limiter.ts" all read "ratelimiter"
+function squash(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9/]/g, '');
+}
+
+function matches(keyword: string, file: string): boolean {
+  const lowerFile = file.toLowerCase();
+  if (keyword.includes('/')) return lowerFile.includes(keyword);
+  if (basename(lowerFile) === keyword) return true;
+  return squash(lowerFile).includes(squash(keyword));
+}
+
+/**
+ * Check done items against changed files. Without git history
+ * (`changedFiles` null) only the existence of matching files in the tree
+ * can be checked.
+ */
+export function auditTasks(items: TaskItem[], changedFiles: string[] | null, repoFiles: string[]): TaskSummary {
+  const candidates = (changedFiles ?? repoFiles).filter(f => isCodeFile(f) && !isDocFile(f));
+
+  const audited = items.map((item): TaskAudit => {
+    const keywords = extractKeywords(item.text);
+    const matched = item.done ? candidates.filter(f => keywords.some(k => matches(k, f))) : [];
+    const tests = matched.filter(isTestFile);
+    const code = matched.filter(f => !isTestFile(f));
+    const status: TaskStatus = !item.done
+      ? 'open'
+      : code.length > 0 && tests.length > 0 ? 'verified' : code.length > 0 ? 'code_only' : 'unverified';
+    return { ...item, status, keywords, code: code.slice(0, 5), tests: tests.slice(0, 5) };
+  });
+
+  const done = audited.filter(i => i.done);
+  return {
+    files: [...new Set(items.map(i => i.file))],
+    total: items.length,
+    done: done.length,
+    open: items.length - done.length,
+    verified: done.filter(i => i.status === 'verified').length,
+    code_only: done.filter(i => i.status === 'code_only').length,
+    unverified: done.filter(i => i.status === 'unverified').length,
+    basis: changedFiles ? 'git' : 'tree',
+    items: audited,
+  };
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { calculateRCI } from './rci.js';
+import { listSnapshots, resolveSnapshot, saveSnapshot, ScanSnapshot, snapshotDirectory } from './snapshots.js';
+import { bar, buildTrend, compareSnapshots, formatComparisonMarkdown, formatTrendMarkdown, sparkline } from './trends.js';
+import { Pattern, RepositoryMetrics } from './types.js';
+
+const metrics = (overrides: Partial<RepositoryMetrics> = {}): RepositoryMetrics => ({
+  total_files: 100,
+  code_files: 30,
+  doc_files: 36,
+  test_files: 3,
+  doc_to_code_ratio: 1.2,
+  avg_doc_length: 543,
+  technical_debt_markers: 27,
+  last_commit_age_days: null,
+  ...overrides,
+});
+
+const pattern = (type: string, severity: Pattern['severity'], signal = type): Pattern => ({
+  type,
+  severity,
+  signal,
+  interpretation: '',
+  confidence: 0.8,
+  evidence: [],
+});
+
+const snapshot = (timestamp: string, m: RepositoryMetrics, patterns: Pattern[]): Omit<ScanSnapshot, 'id'> => ({
+  timestamp,
+  repository: '/repo',
+  depth: 'medium',
+  metrics: m,
+  patterns,
+  rci: calculateRCI(m),
+});
+
+describe('RCI Calculation', () => {
+  it('should score the typical misaligned repository', () => {
+    expect(calculateRCI(metrics())).toMatchObject({
+      overall: 65,
+      intent_alignment: 50,
+      task_reality_sync: 60,
+      technical_health: 85,
+      status: 'MISALIGNED',
+    });
+  });
+});
+
+describe('Scan Snapshots', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await fs.mkdtemp(join(tmpdir(), 'dark-matter-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  it('should save snapshots under .dark-matter and list them oldest first', async () => {
+    await saveSnapshot(repo, snapshot('2025-02-07T09:00:00.000Z', metrics(), []));
+    const { snapshot: first, file } = await saveSnapshot(repo, snapshot('2025-01-31T09:00:00.000Z', metrics(), []));
+
+    expect(file).toBe(join(repo, '.dark-matter', 'snapshots', '2025-01-31T09-00-00-000Z.json'));
+    expect((await listSnapshots(repo)).map(s => s.id)).toEqual([first.id, '2025-02-07T09-00-00-000Z']);
+  });
+
+  it('should keep scans taken in the same millisecond apart', async () => {
+    await saveSnapshot(repo, snapshot('2025-01-31T09:00:00.000Z', metrics(), []));
+    const { snapshot: second } = await saveSnapshot(repo, snapshot('2025-01-31T09:00:00.000Z', metrics(), []));
+
+    expect(second.id).toBe('2025-01-31T09-00-00-000Z-1');
+    expect(await fs.readdir(snapshotDirectory(repo))).toHaveLength(2);
+  });
+
+  it('should return no snapshots for a repository never scanned', async () => {
+    expect(await listSnapshots(repo)).toEqual([]);
+  });
+
+  it('should resolve snapshots by keyword, id and date prefix', async () => {
+    for (const day of ['01', '08', '15']) {
+      await saveSnapshot(repo, snapshot(`2025-01-${day}T09:00:00.000Z`, metrics(), []));
+    }
+    const snapshots = await listSnapshots(repo);
+
+    expect(resolveSnapshot(snapshots, 'latest').timestamp).toBe('2025-01-15T09:00:00.000Z');
+    expect(resolveSnapshot(snapshots, 'previous').timestamp).toBe('2025-01-08T09:00:00.000Z');
+    expect(resolveSnapshot(snapshots, 'first').timestamp).toBe('2025-01-01T09:00:00.000Z');
+    expect(resolveSnapshot(snapshots, '2025-01-08').id).toBe('2025-01-08T09-00-00-000Z');
+    expect(() => resolveSnapshot(snapshots, '2024-12-25')).toThrow('Snapshot not found: 2024-12-25 (3 snapshots');
+    expect(() => resolveSnapshot([], 'latest')).toThrow('No snapshots found');
+  });
+});
+
+describe('Scan Comparison', () => {
+  const before: ScanSnapshot = {
+    id: 'a',
+    ...snapshot('2025-01-01T09:00:00.000Z', metrics(), [
+      pattern('Documentation Inflation', 'high'),
+      pattern('Execution Deficit', 'critical', 'Doc-to-code ratio of 1.20:1'),
+      pattern('Test Deficiency', 'high'),
+    ]),
+  };
+  const after: ScanSnapshot = {
+    id: 'b',
+    ...snapshot('2025-01-08T09:00:00.000Z', metrics({ code_files: 60, doc_to_code_ratio: 0.6, test_files: 20 }), [
+      pattern('Documentation Inflation', 'high'),
+      pattern('Execution Deficit', 'high', 'Doc-to-code ratio of 0.60:1'),
+      pattern('Suppression Pattern', 'medium'),
+    ]),
+  };
+
+  it('should report RCI component changes with direction', () => {
+    const comparison = compareSnapshots(before, after);
+
+    expect(comparison.rci.overall).toEqual({ from: 65, to: 77, delta: 12, direction: 'improving' });
+    expect(comparison.rci.intent_alignment).toEqual({ from: 50, to: 70, delta: 20, direction: 'improving' });
+    expect(comparison.rci.technical_health).toEqual({ from: 85, to: 85, delta: 0, direction: 'stable' });
+    expect(comparison.status).toEqual({ from: 'MISALIGNED', to: 'MONITOR' });
+    expect(comparison.metrics.code_files).toEqual({ from: 30, to: 60, delta: 30 });
+    expect(comparison.metrics.last_commit_age_days).toBeUndefined();
+  });
+
+  it('should classify added, resolved, changed and unchanged patterns', () => {
+    const { patterns } = compareSnapshots(before, after);
+
+    expect(patterns.added.map(p => p.type)).toEqual(['Suppression Pattern']);
+    expect(patterns.resolved.map(p => p.type)).toEqual(['Test Deficiency']);
+    expect(patterns.changed).toEqual([
+      { type: 'Execution Deficit', from: 'critical', to: 'high', direction: 'better', signal: 'Doc-to-code ratio of 0.60:1' },
+    ]);
+    expect(patterns.unchanged).toEqual(['Documentation Inflation']);
+  });
+
+  it('should render the comparison as markdown', () => {
+    const markdown = formatComparisonMarkdown(compareSnapshots(before, after));
+
+    expect(markdown).toContain('**Status:** MISALIGNED → MONITOR');
+    expect(markdown).toContain('| Overall RCI | 65 | 77 | +12 | ↑ improving |');
+    expect(markdown).toContain('- 🆕 **Suppression Pattern** (medium)');
+    expect(markdown).toContain('- ✅ **Test Deficiency** resolved (was high)');
+    expect(markdown).toContain('- ⬇️ **Execution Deficit**: critical → high');
+  });
+});
+
+describe('Trends', () => {
+  const series = [60, 65, 73, 72].map((overall, i): ScanSnapshot => {
+    const s = snapshot(`2025-01-0${i + 1}T09:00:00.000Z`, metrics(), []);
+    return { ...s, id: String(i), rci: { ...s.rci, overall } };
+  });
+
+  it('should summarize direction, range and points', () => {
+    const trend = buildTrend(series);
+
+    expect(trend.points.map(p => p.overall)).toEqual([60, 65, 73, 72]);
+    expect(trend.components.overall).toEqual({ from: 60, to: 72, delta: 12, direction: 'improving', min: 60, max: 73 });
+    expect(trend.components.intent_alignment.direction).toBe('stable');
+  });
+
+  it('should draw bars and sparklines on a 0-100 scale', () => {
+    expect(bar(73)).toBe('███████░░░');
+    expect(bar(120, 4)).toBe('████');
+    expect(sparkline([0, 50, 99, 100])).toBe('▁▅██');
+  });
+
+  it('should render a markdown trend table', () => {
+    const table = formatTrendMarkdown(buildTrend(series));
+
+    expect(table).toContain('| 2025-01-03 09:00 | 73 | `███████░░░` | 50 | 60 | 85 | 0 | MISALIGNED |');
+    expect(table).toContain('| Overall RCI | `▅▆▆▆` | 60 → 72 (+12) | 60-73 | ↑ improving |');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Comparisons and trends across scan snapshots
+ *
+ * Rendered as markdown tables with ASCII bars and sparklines so the
+ * direction of each RCI component is readable in a plain report.
+ */
+
+import { ScanSnapshot } from './snapshots.js';
+import { Pattern, RCIScore, RepositoryMetrics } from './types.js';
+
+export const RCI_COMPONENTS = ['overall', 'intent_alignment', 'task_reality_sync', 'technical_health'] as const;
+export type RCIComponent = typeof RCI_COMPONENTS[number];
+
+const COMPONENT_LABELS: Record<RCIComponent, string> = {
+  overall: 'Overall RCI',
+  intent_alignment: 'Intent Alignment',
+  task_reality_sync: 'Task Reality Sync',
+  technical_health: 'Technical Health',
+};
+
+const SEVERITY_ORDER: Pattern['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+// Score changes smaller than this are noise
+const STABLE_DELTA = 2;
+
+export type Direction = 'improving' | 'declining' | 'stable';
+
+export interface Change {
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface ScanComparison {
+  from: { id: string; timestamp: string };
+  to: { id: string; timestamp: string };
+  rci: Record<RCIComponent, Change & { direction: Direction }>;
+  status: { from: RCIScore['status']; to: RCIScore['status'] };
+  metrics: Partial<Record<keyof RepositoryMetrics, Change>>;
+  patterns: {
+    added: Pattern[];
+    resolved: Pattern[];
+    changed: Array<{ type: string; from: Pattern['severity']; to: Pattern['severity']; direction: 'worse' | 'better' | 'same'; signal: string }>;
+    unchanged: string[];
+  };
+}
+
+export interface TrendPoint {
+  id: string;
+  timestamp: string;
+  overall: number;
+  intent_alignment: number;
+  task_reality_sync: number;
+  technical_health: number;
+  status: RCIScore['status'];
+  patterns: number;
+}
+
+export interface Trend {
+  points: TrendPoint[];
+  /** First to last snapshot, per component */
+  components: Record<RCIComponent, Change & { direction: Direction; min: number; max: number }>;
+}
+
+function change(from: number, to: number): Change {
+  return { from, to, delta: Math.round((to - from) * 100) / 100 };
+}
+
+export function direction(delta: number): Direction {
+  if (delta >= STABLE_DELTA) return 'improving';
+  if (delta <= -STABLE_DELTA) return 'declining';
+  return 'stable';
+}
+
+export function compareSnapshots(from: ScanSnapshot, to: ScanSnapshot): ScanComparison {
+  const rci = Object.fromEntries(
+    RCI_COMPONENTS.map(component => {
+      const c = change(from.rci[component], to.rci[component]);
+      return [component, { ...c, direction: direction(c.delta) }];
+    })
+  ) as ScanComparison['rci'];
+
+  const metrics: ScanComparison['metrics'] = {};
+  for (const key of Object.keys(to.metrics) as Array<keyof RepositoryMetrics>) {
+    const before = from.metrics[key];
+    const after = to.metrics[key];
+    if (typeof before === 'number' && typeof after === 'number') {
+      metrics[key] = change(before, after);
+    }
+  }
+
+  const before = new Map(from.patterns.map(p => [p.type, p]));
+  const after = new Map(to.patterns.map(p => [p.type, p]));
+  const patterns: ScanComparison['patterns'] = {
+    added: to.patterns.filter(p => !before.has(p.type)),
+    resolved: from.patterns.filter(p => !after.has(p.type)),
+    changed: [],
+    unchanged: [],
+  };
+  for (const [type, current] of after) {
+    const previous = before.get(type);
+    if (!previous) continue;
+    if (previous.severity === current.severity && previous.signal === current.signal) {
+      patterns.unchanged.push(type);
+      continue;
+    }
+    const rank = SEVERITY_ORDER.indexOf(current.severity) - SEVERITY_ORDER.indexOf(previous.severity);
+    patterns.changed.push({
+      type,
+      from: previous.severity,
+      to: current.severity,
+      direction: rank > 0 ? 'worse' : rank < 0 ? 'better' : 'same',
+      signal: current.signal,
+    });
+  }
+
+  return {
+    from: { id: from.id, timestamp: from.timestamp },
+    to: { id: to.id, timestamp: to.timestamp },
+    rci,
+    status: { from: from.rci.status, to: to.rci.status },
+    metrics,
+    patterns,
+  };
+}
+
+export function buildTrend(snapshots: ScanSnapshot[]): Trend {
+  if (snapshots.length === 0) {
+    throw new Error('No snapshots found. Run scan_repository first.');
+  }
+
+  const points = snapshots.map(s => ({
+    id: s.id,
+    timestamp: s.timestamp,
+    overall: s.rci.overall,
+    intent_alignment: s.rci.intent_alignment,
+    task_reality_sync: s.rci.task_reality_sync,
+    technical_health: s.rci.technical_health,
+    status: s.rci.status,
+    patterns: s.patterns.length,
+  }));
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const components = Object.fromEntries(
+    RCI_COMPONENTS.map(component => {
+      const values = points.map(p => p[component]);
+      const c = change(first[component], last[component]);
+      return [component, { ...c, direction: direction(c.delta), min: Math.min(...values), max: Math.max(...values) }];
+    })
+  ) as Trend['components'];
+
+  return { points, components };
+}
+
+/**
+ * ▁▂▃▄▅▆▇█ line for values on a 0-100 scale
+ */
+export function sparkline(values: number[]): string {
+  const ticks = '▁▂▃▄▅▆▇█';
+  return values.map(v => ticks[Math.min(ticks.length - 1, Math.max(0, Math.floor((v / 100) * ticks.length)))]).join('');
+}
+
+/**
+ * Fixed-width bar for a 0-100 score: ██████░░░░
+ */
+export function bar(value: number, width: number = 10): string {
+  const filled = Math.round((Math.max(0, Math.min(100, value)) / 100) * width);
+  return '█'.repeat(filled) + '░'.repeat(width - filled);
+}
+
+function arrow(dir: Direction): string {
+  return dir === 'improving' ? '↑' : dir === 'declining' ? '↓' : '→';
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
+function shortDate(timestamp: string): string {
+  return timestamp.slice(0, 16).replace('T', ' ');
+}
+
+export function formatComparisonMarkdown(comparison: ScanComparison): string {
+  const lines = [
+    `**From:** ${shortDate(comparison.from.timestamp)} (\`${comparison.from.id}\`)`,
+    `**To:** ${shortDate(comparison.to.timestamp)} (\`${comparison.to.id}\`)`,
+    `**Status:** ${comparison.status.from} → ${comparison.status.to}`,
+    '',
+    '| Component | Before | After | Change | |',
+    '|-----------|--------|-------|--------|---|',
+    ...RCI_COMPONENTS.map(component => {
+      const c = comparison.rci[component];
+      return `| ${COMPONENT_LABELS[component]} | ${c.from} | ${c.to} | ${signed(c.delta)} | ${arrow(c.direction)} ${c.direction} |`;
+    }),
+    '',
+    '| Metric | Before | After | Change |',
+    '|--------|--------|-------|--------|',
+    ...Object.entries(comparison.metrics).map(([key, c]) => `| ${key} | ${c!.from} | ${c!.to} | ${signed(c!.delta)} |`),
+    '',
+  ];
+
+  const { added, resolved, changed, unchanged } = comparison.patterns;
+  lines.push('**Patterns:**', '');
+  if (added.length + resolved.length + changed.length + unchanged.length === 0) {
+    lines.push('- None detected in either scan');
+  }
+  added.forEach(p => lines.push(`- 🆕 **${p.type}** (${p.severity}): ${p.signal}`));
+  resolved.forEach(p => lines.push(`- ✅ **${p.type}** resolved (was ${p.severity})`));
+  changed.forEach(p => lines.push(`- ${p.direction === 'worse' ? '⬆️' : p.direction === 'better' ? '⬇️' : '↔️'} **${p.type}**: ${p.from} → ${p.to} (${p.signal})`));
+  unchanged.forEach(type => lines.push(`- ➖ **${type}** unchanged`));
+
+  return lines.join('\n');
+}
+
+export function formatTrendMarkdown(trend: Trend): string {
+  const lines = [
+    '| Date | RCI | | Intent | Task | Tech | Patterns | Status |',
+    '|------|-----|---|--------|------|------|----------|--------|',
+    ...trend.points.map(p =>
+      `| ${shortDate(p.timestamp)} | ${p.overall} | \`${bar(p.overall)}\` | ${p.intent_alignment} | ${p.task_reality_sync} | ${p.technical_health} | ${p.patterns} | ${p.status} |`
+    ),
+    '',
+    '| Component | Trend | First → Last | Range | Direction |',
+    '|-----------|-------|--------------|-------|-----------|',
+    ...RCI_COMPONENTS.map(component => {
+      const c = trend.components[component];
+      const values = trend.points.map(p => p[component]);
+      return `| ${COMPONENT_LABELS[component]} | \`${sparkline(values)}\` | ${c.from} → ${c.to} (${signed(c.delta)}) | ${c.min}-${c.max} | ${arrow(c.direction)} ${c.direction} |`;
+    }),
+  ];
+  return lines.join('\n');
+}
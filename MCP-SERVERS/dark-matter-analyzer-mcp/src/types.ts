@@ -0,0 +1,60 @@
+/**
+ * Shared types for scans, patterns and RCI scores
+ */
+
+export type ScanDepth = 'quick' | 'medium' | 'deep';
+
+export type PatternFocus = 'documentation' | 'execution' | 'drift' | 'suppression';
+
+export interface ScanConfig {
+  path: string;
+  depth?: ScanDepth;
+  include_patterns?: string[];
+  exclude_patterns?: string[];
+}
+
+export interface Pattern {
+  type: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  signal: string;
+  interpretation: string;
+  confidence: number;
+  evidence: string[];
+  /** Files the pattern was observed in, relative to the repository root */
+  files?: string[];
+  /** Id of the detector that reported the pattern */
+  detector?: string;
+  focus?: PatternFocus;
+}
+
+export interface RCIScore {
+  overall: number;
+  intent_alignment: number;
+  task_reality_sync: number;
+  technical_health: number;
+  status: 'COHERENT' | 'MONITOR' | 'MISALIGNED' | 'INCOHERENT';
+  /** Signals behind each component score; absent in snapshots saved before evidence was recorded */
+  evidence?: RCIEvidence[];
+}
+
+export type RCIComponentName = 'intent_alignment' | 'task_reality_sync' | 'technical_health';
+
+export interface RCIEvidence {
+  component: RCIComponentName;
+  signal: string;
+  /** Points added to or taken from the component's base score */
+  impact: number;
+  /** Files, directories, commits or task lines the signal was read from */
+  sources: string[];
+}
+
+export interface RepositoryMetrics {
+  total_files: number;
+  code_files: number;
+  doc_files: number;
+  test_files: number;
+  doc_to_code_ratio: number;
+  avg_doc_length: number;
+  technical_debt_markers: number;
+  last_commit_age_days: number | null;
+}
@@ -1,19 +1,243 @@
 #!/usr/bin/env node
 /**
- * database-migration-mcp - Placeholder implementation
- * TODO: Implement full functionality
+ * database-migration-mcp
+ *
+ * SQL migrations for SQLite and Postgres in the format of
+ * UTILS/scripts/db-migrate.ts, plus schema snapshots and diffs.
  */
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { connect, parseDatabaseUrl } from './drivers.js';
+import { createMigrationFile } from './migration-files.js';
+import { Migrator, MigratorOptions } from './migrator.js';
+import { diffSchemas } from './schema-diff.js';
+import { introspect, loadSnapshot, SnapshotSource } from './schema.js';
+import { Dialect } from './types.js';
 
 const server = new Server({ name: 'database-migration-mcp', version: '1.0.0' }, { capabilities: { tools: {} } });
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
-server.setRequestHandler(CallToolRequestSchema, async (request) => ({
-  content: [{ type: 'text', text: 'Not yet implemented' }]
+const CONNECTION = {
+  database: {
+    type: 'string',
+    description: 'postgres://... connection string or SQLite file (sqlite:./app.db, ./app.db). Default: DATABASE_URL'
+  },
+  migrationsDir: { type: 'string', description: 'Directory of <timestamp>_<name>.sql files', default: './migrations' },
+  tableName: { type: 'string', description: 'Table recording applied migrations', default: 'schema_migrations' }
+};
+
+const SNAPSHOT = {
+  description: 'Schema snapshot object, a .json snapshot file, a .sql file of CREATE statements, or a database URL',
+  oneOf: [{ type: 'object' }, { type: 'string' }]
+};
+
+const DIALECTS: Dialect[] = ['sqlite', 'postgres'];
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: 'create_migration',
+      description: 'Create a migration file with UP and DOWN sections',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Migration name, e.g. add_users_table' },
+          up: { type: 'string', description: 'SQL to apply (default: a commented template)' },
+          down: { type: 'string', description: 'SQL to revert' },
+          dialect: { type: 'string', enum: DIALECTS, description: 'Template examples when no database is configured (default: postgres)' },
+          ...CONNECTION
+        },
+        required: ['name']
+      }
+    },
+    {
+      name: 'apply_migrations',
+      description: 'Apply pending migrations in order, each in its own transaction',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          to: { type: 'string', description: 'Stop after this migration id' },
+          dryRun: { type: 'boolean', default: false, description: 'Return the SQL without running it' },
+          ...CONNECTION
+        }
+      }
+    },
+    {
+      name: 'rollback_migration',
+      description: 'Revert the last applied migration, the last N, or all after an id',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          steps: { type: 'number', description: 'Number of migrations to revert (default: 1)' },
+          to: { type: 'string', description: 'Revert every migration after this id' },
+          dryRun: { type: 'boolean', default: false, description: 'Return the SQL without running it' },
+          ...CONNECTION
+        }
+      }
+    },
+    {
+      name: 'migration_status',
+      description: 'List migrations as applied, pending, or missing (applied but the file is gone)',
+      inputSchema: { type: 'object', properties: { ...CONNECTION } }
+    },
+    {
+      name: 'plan_migrations',
+      description: 'Show the migrations apply or rollback would run and the exact SQL, without touching the database',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          direction: { type: 'string', enum: ['up', 'down'], default: 'up' },
+          to: { type: 'string' },
+          steps: { type: 'number', description: 'For down: number of migrations to revert' },
+          ...CONNECTION
+        }
+      }
+    },
+    {
+      name: 'schema_diff',
+      description: 'Compare two schema snapshots and produce UP and DOWN SQL; pass name to write it as a migration',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: { ...SNAPSHOT, description: `Current schema (default: empty). ${SNAPSHOT.description}` },
+          to: { ...SNAPSHOT, description: `Target schema. ${SNAPSHOT.description}` },
+          dialect: { type: 'string', enum: DIALECTS, description: 'SQL dialect (default: from a database URL among from/to, then DATABASE_URL)' },
+          name: { type: 'string', description: 'Write the result as a migration with this name' },
+          migrationsDir: CONNECTION.migrationsDir,
+          tableName: CONNECTION.tableName
+        },
+        required: ['to']
+      }
+    },
+    {
+      name: 'snapshot_schema',
+      description: 'Read a database schema as a snapshot for schema_diff',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          database: CONNECTION.database,
+          tableName: CONNECTION.tableName,
+          output: { type: 'string', description: 'Also write the snapshot to this .json file' }
+        }
+      }
+    }
+  ]
 }));
 
+function migrator(args: Record<string, unknown>): Migrator {
+  return new Migrator(args as MigratorOptions);
+}
+
+function optionalNumber(value: unknown, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number') throw new Error(`${name} must be a number`);
+  return value;
+}
+
+function diffDialect(args: Record<string, unknown>): Dialect {
+  if (args.dialect !== undefined) {
+    if (!DIALECTS.includes(args.dialect as Dialect)) throw new Error(`Unknown dialect: ${String(args.dialect)} (expected sqlite or postgres)`);
+    return args.dialect as Dialect;
+  }
+  for (const source of [args.to, args.from]) {
+    if (typeof source === 'string' && !/\.(json|sql)$/i.test(source)) return parseDatabaseUrl(source).dialect;
+  }
+  if (process.env.DATABASE_URL) return parseDatabaseUrl(process.env.DATABASE_URL).dialect;
+  throw new Error('Pass dialect (sqlite or postgres): neither snapshot is a database and DATABASE_URL is not set');
+}
+
+async function schemaDiff(args: Record<string, unknown>) {
+  if (args.to === undefined) throw new Error('to is required');
+  const dialect = diffDialect(args);
+  const exclude = [(args.tableName as string | undefined) ?? 'schema_migrations'];
+  const from = args.from === undefined ? { tables: {} } : await loadSnapshot(args.from as SnapshotSource, 'from snapshot', exclude);
+  const to = await loadSnapshot(args.to as SnapshotSource, 'to snapshot', exclude);
+  const diff = diffSchemas(from, to, dialect);
+
+  if (typeof args.name === 'string' && diff.changes.length > 0) {
+    const migration = await createMigrationFile(resolve((args.migrationsDir as string | undefined) ?? './migrations'), args.name, dialect, diff);
+    return { dialect, ...diff, migration: migration.file };
+  }
+  return { dialect, ...diff };
+}
+
+async function snapshotSchema(args: Record<string, unknown>) {
+  const target = parseDatabaseUrl((args.database as string | undefined) || process.env.DATABASE_URL || '');
+  const driver = await connect(target);
+  try {
+    const snapshot = await introspect(driver, [(args.tableName as string | undefined) ?? 'schema_migrations']);
+    if (typeof args.output === 'string') {
+      await fs.mkdir(dirname(resolve(args.output)), { recursive: true });
+      await fs.writeFile(resolve(args.output), JSON.stringify(snapshot, null, 2) + '\n');
+    }
+    return snapshot;
+  } finally {
+    await driver.close();
+  }
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  try {
+    const { name, arguments: args = {} } = request.params;
+    let result: unknown;
+
+    switch (name) {
+      case 'create_migration': {
+        if (typeof args.name !== 'string') throw new Error('name is required');
+        const sql = { up: args.up as string | undefined, down: args.down as string | undefined };
+        const configured = (args.database as string | undefined) || process.env.DATABASE_URL;
+        const migration = configured
+          ? await migrator(args).create(args.name, sql)
+          : await createMigrationFile(resolve((args.migrationsDir as string | undefined) ?? './migrations'), args.name, (args.dialect as Dialect | undefined) ?? 'postgres', sql);
+        result = migration;
+        break;
+      }
+
+      case 'apply_migrations':
+        result = await migrator(args).up({ to: args.to as string | undefined, dryRun: args.dryRun === true });
+        break;
+
+      case 'rollback_migration':
+        result = await migrator(args).down({
+          to: args.to as string | undefined,
+          steps: optionalNumber(args.steps, 'steps'),
+          dryRun: args.dryRun === true
+        });
+        break;
+
+      case 'migration_status':
+        result = await migrator(args).status();
+        break;
+
+      case 'plan_migrations': {
+        const options = { to: args.to as string | undefined, steps: optionalNumber(args.steps, 'steps'), dryRun: true };
+        result = args.direction === 'down' ? await migrator(args).down(options) : await migrator(args).up(options);
+        break;
+      }
+
+      case 'schema_diff':
+        result = await schemaDiff(args);
+        break;
+
+      case 'snapshot_schema':
+        result = await snapshotSchema(args);
+        break;
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true
+    };
+  }
+});
+
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
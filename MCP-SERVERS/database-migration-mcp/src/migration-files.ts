@@ -0,0 +1,124 @@
+/**
+ * Migration files
+ *
+ * Same layout as UTILS/scripts/db-migrate.ts: <timestamp>_<name>.sql with
+ * the SQL to apply above a "-- DOWN Migration" line and the SQL to revert
+ * below it.
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { Dialect, Migration } from './types.js';
+
+const FILE_PATTERN = /^(\d+)_(.+)\.sql$/;
+const DOWN_MARKER = /^-- DOWN Migration.*$/m;
+
+/**
+ * Whether SQL has any statement besides comments and whitespace
+ */
+export function hasStatements(sql: string): boolean {
+  return sql.replace(/--.*$/gm, '').replace(/\/\*[\s\S]*?\*\//g, '').trim() !== '';
+}
+
+export function parseMigration(file: string, content: string): Migration {
+  const match = file.match(FILE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid migration file name: ${file} (expected <timestamp>_<name>.sql)`);
+  }
+  const [, id, name] = match;
+  const marker = content.match(DOWN_MARKER);
+  const upSection = marker ? content.slice(0, marker.index) : content;
+  const downSection = marker ? content.slice(marker.index! + marker[0].length) : '';
+
+  return {
+    id,
+    name,
+    timestamp: parseInt(id, 10),
+    up: upSection.replace(/^-- UP Migration.*\n/m, '').trim(),
+    down: downSection.trim(),
+    file
+  };
+}
+
+export async function readMigrations(dir: string): Promise<Migration[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(dir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const migrations = await Promise.all(
+    files
+      .filter(file => FILE_PATTERN.test(file))
+      .map(async file => parseMigration(file, await fs.readFile(join(dir, file), 'utf-8')))
+  );
+  migrations.sort((a, b) => a.timestamp - b.timestamp || a.id.localeCompare(b.id));
+
+  const seen = new Map<string, string>();
+  for (const migration of migrations) {
+    const other = seen.get(migration.id);
+    if (other) throw new Error(`Duplicate migration id ${migration.id}: ${other} and ${migration.file}`);
+    seen.set(migration.id, migration.file);
+  }
+  return migrations;
+}
+
+const EXAMPLES: Record<Dialect, { up: string; down: string }> = {
+  postgres: {
+    up: `-- Example: CREATE TABLE users (
+--   id SERIAL PRIMARY KEY,
+--   email VARCHAR(255) NOT NULL UNIQUE,
+--   created_at TIMESTAMP DEFAULT NOW()
+-- );`,
+    down: '-- Example: DROP TABLE IF EXISTS users;'
+  },
+  sqlite: {
+    up: `-- Example: CREATE TABLE users (
+--   id INTEGER PRIMARY KEY AUTOINCREMENT,
+--   email TEXT NOT NULL UNIQUE,
+--   created_at TEXT DEFAULT CURRENT_TIMESTAMP
+-- );`,
+    down: '-- Example: DROP TABLE IF EXISTS users;'
+  }
+};
+
+export function migrationTemplate(name: string, dialect: Dialect, sql: { up?: string; down?: string } = {}, created = new Date()): string {
+  const up = sql.up?.trim() || `-- Add your SQL statements here\n\n${EXAMPLES[dialect].up}`;
+  const down = sql.down?.trim() || `-- Add rollback SQL statements here\n\n${EXAMPLES[dialect].down}`;
+  return `-- Migration: ${name}
+-- Created: ${created.toISOString()}
+
+-- UP Migration
+${up}
+
+-- DOWN Migration (Rollback)
+${down}
+`;
+}
+
+/**
+ * Write a new migration file. Ids are millisecond timestamps, bumped past
+ * the newest existing id so files stay ordered.
+ */
+export async function createMigrationFile(
+  dir: string,
+  name: string,
+  dialect: Dialect,
+  sql: { up?: string; down?: string } = {},
+  now = new Date()
+): Promise<Migration> {
+  if (!/^[A-Za-z0-9][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid migration name: ${name} (use letters, digits and underscores, e.g. add_users_table)`);
+  }
+  const existing = await readMigrations(dir);
+  const latest = existing.length > 0 ? existing[existing.length - 1].timestamp : 0;
+  const id = String(Math.max(now.getTime(), latest + 1));
+  const file = `${id}_${name}.sql`;
+  const content = migrationTemplate(name, dialect, sql, now);
+
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(join(dir, file), content, { flag: 'wx' });
+  return parseMigration(file, content);
+}
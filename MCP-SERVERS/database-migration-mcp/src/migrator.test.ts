@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { existsSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { connect, parseDatabaseUrl } from './drivers.js';
+import { migrationTemplate, parseMigration } from './migration-files.js';
+import { Migrator } from './migrator.js';
+
+const USERS = {
+  up: 'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT NOT NULL UNIQUE);',
+  down: 'DROP TABLE users;'
+};
+const POSTS = {
+  up: 'CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id));\nCREATE INDEX posts_user_id ON posts (user_id);',
+  down: 'DROP TABLE posts;'
+};
+
+describe('Migration files', () => {
+  it('should read files in the UTILS/scripts/db-migrate.ts format', () => {
+    const content = `-- Migration: add_users_table
+-- Created: 2024-01-01T00:00:00.000Z
+
+-- UP Migration
+CREATE TABLE users (id SERIAL PRIMARY KEY);
+
+-- DOWN Migration (Rollback)
+DROP TABLE IF EXISTS users;
+`;
+    expect(parseMigration('1704067200000_add_users_table.sql', content)).toEqual({
+      id: '1704067200000',
+      name: 'add_users_table',
+      timestamp: 1704067200000,
+      up: '-- Migration: add_users_table\n-- Created: 2024-01-01T00:00:00.000Z\n\nCREATE TABLE users (id SERIAL PRIMARY KEY);',
+      down: 'DROP TABLE IF EXISTS users;',
+      file: '1704067200000_add_users_table.sql'
+    });
+  });
+
+  it('should write a dialect-specific template', () => {
+    const template = migrationTemplate('add_users', 'sqlite', {}, new Date('2024-01-01T00:00:00Z'));
+    expect(template).toContain('-- Created: 2024-01-01T00:00:00.000Z\n\n-- UP Migration\n-- Add your SQL statements here');
+    expect(template).toContain('INTEGER PRIMARY KEY AUTOINCREMENT');
+    expect(template).toContain('-- DOWN Migration (Rollback)\n-- Add rollback SQL statements here');
+  });
+
+  it('should parse database URLs', () => {
+    expect(parseDatabaseUrl('postgresql://localhost/app')).toEqual({ dialect: 'postgres', location: 'postgresql://localhost/app' });
+    expect(parseDatabaseUrl('sqlite::memory:')).toEqual({ dialect: 'sqlite', location: ':memory:' });
+    expect(parseDatabaseUrl('file:///tmp/app.db')).toEqual({ dialect: 'sqlite', location: '/tmp/app.db' });
+    expect(parseDatabaseUrl('sqlite:./app.db').location).toBe(join(process.cwd(), 'app.db'));
+    expect(() => parseDatabaseUrl('mysql://localhost/app')).toThrow('Unsupported database URL');
+    expect(() => parseDatabaseUrl('')).toThrow('No database given');
+  });
+});
+
+describe('Migrator (SQLite)', () => {
+  let dir: string;
+  let database: string;
+  let migrator: Migrator;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'db-migrate-'));
+    database = join(dir, 'app.db');
+    migrator = new Migrator({ database: `sqlite:${database}`, migrationsDir: join(dir, 'migrations') });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function tables(): Promise<string[]> {
+    const driver = await connect({ dialect: 'sqlite', location: database });
+    try {
+      const rows = await driver.query<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name");
+      return rows.map(r => r.name);
+    } finally {
+      await driver.close();
+    }
+  }
+
+  it('should create ordered migration files', async () => {
+    const users = await migrator.create('add_users', USERS);
+    const posts = await migrator.create('add_posts', POSTS);
+
+    expect(Number(posts.id)).toBeGreaterThan(Number(users.id));
+    expect(users).toMatchObject({ name: 'add_users', up: expect.stringContaining(USERS.up), down: USERS.down });
+    await expect(migrator.create('add users')).rejects.toThrow('Invalid migration name: add users');
+  });
+
+  it('should plan and dry-run without creating the database', async () => {
+    const users = await migrator.create('add_users', USERS);
+    await migrator.create('add_posts', POSTS);
+
+    const run = await migrator.up({ dryRun: true });
+    expect(run.steps.map(s => s.name)).toEqual(['add_users', 'add_posts']);
+    expect(run.sql).toContain(`CREATE TABLE IF NOT EXISTS schema_migrations (`);
+    expect(run.sql).toContain(`-- Migrating: ${users.id}_add_users\nBEGIN;\n`);
+    expect(run.sql).toContain(`${USERS.up}\nINSERT INTO schema_migrations (id, name) VALUES ('${users.id}', 'add_users');\nCOMMIT;`);
+
+    expect((await migrator.plan('up', { to: users.id })).map(s => s.name)).toEqual(['add_users']);
+    await expect(migrator.plan('up', { to: '123' })).rejects.toThrow('Unknown migration: 123');
+    expect(existsSync(database)).toBe(false);
+  });
+
+  it('should apply, report status and roll back', async () => {
+    const users = await migrator.create('add_users', USERS);
+    const posts = await migrator.create('add_posts', POSTS);
+
+    const applied = await migrator.up({ to: users.id });
+    expect(applied.steps.map(s => s.name)).toEqual(['add_users']);
+    expect(await tables()).toEqual(['schema_migrations', 'users']);
+
+    let status = await migrator.status();
+    expect(status).toMatchObject({ applied: 1, pending: 1, missing: 0 });
+    expect(status.migrations.map(m => [m.name, m.status])).toEqual([['add_users', 'applied'], ['add_posts', 'pending']]);
+    expect(status.migrations[0].executedAt).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/);
+
+    await migrator.up();
+    expect(await tables()).toEqual(['posts', 'schema_migrations', 'users']);
+    expect((await migrator.up()).steps).toEqual([]);
+
+    const plan = await migrator.down({ steps: 2, dryRun: true });
+    expect(plan.steps.map(s => s.name)).toEqual(['add_posts', 'add_users']);
+    expect(plan.sql).toContain(`DROP TABLE posts;\nDELETE FROM schema_migrations WHERE id = '${posts.id}';`);
+    expect(await tables()).toEqual(['posts', 'schema_migrations', 'users']);
+
+    const rolledBack = await migrator.down();
+    expect(rolledBack.steps.map(s => s.name)).toEqual(['add_posts']);
+    expect(await tables()).toEqual(['schema_migrations', 'users']);
+
+    await migrator.up();
+    await migrator.down({ to: users.id });
+    status = await migrator.status();
+    expect(status.migrations.map(m => m.status)).toEqual(['applied', 'pending']);
+  });
+
+  it('should roll back a failing migration and stop', async () => {
+    await migrator.create('add_users', USERS);
+    const broken = await migrator.create('broken', {
+      up: 'CREATE TABLE audit (id INTEGER);\nINSERT INTO missing_table VALUES (1);',
+      down: 'DROP TABLE audit;'
+    });
+    await migrator.create('add_posts', POSTS);
+
+    await expect(migrator.up()).rejects.toThrow(`Migration ${broken.id}_broken failed: SQLITE_ERROR: no such table: missing_table. It was rolled back and later steps did not run.`);
+    expect(await tables()).toEqual(['schema_migrations', 'users']);
+    expect((await migrator.status()).migrations.map(m => m.status)).toEqual(['applied', 'pending', 'pending']);
+  });
+
+  it('should refuse to roll back without DOWN statements or a file', async () => {
+    const users = await migrator.create('add_users', { up: USERS.up });
+    await migrator.up();
+    await expect(migrator.down()).rejects.toThrow(`Cannot roll back ${users.file}: it has no DOWN statements`);
+
+    await fs.rm(join(dir, 'migrations', users.file));
+    const status = await migrator.status();
+    expect(status.migrations).toEqual([expect.objectContaining({ id: users.id, status: 'missing' })]);
+    await expect(migrator.down()).rejects.toThrow(`Cannot roll back ${users.id}_add_users: its migration file is missing`);
+  });
+});
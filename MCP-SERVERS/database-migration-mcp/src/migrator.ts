@@ -0,0 +1,221 @@
+/**
+ * Migration runner
+ *
+ * Follows DatabaseMigration in UTILS/scripts/db-migrate.ts: applied
+ * migrations are recorded in a schema_migrations table (id, name,
+ * executed_at); up runs pending migrations, optionally up to an id; down
+ * reverts the last one, the last N (steps) or everything after an id (to).
+ *
+ * Each migration runs in a transaction together with its bookkeeping row,
+ * so a failing migration leaves neither partial changes nor a record.
+ */
+
+import { resolve } from 'path';
+import { connect, databaseExists, DatabaseTarget, Driver, parseDatabaseUrl } from './drivers.js';
+import { createMigrationFile, hasStatements, readMigrations } from './migration-files.js';
+import { AppliedMigration, Dialect, Migration, MigrationStatus, MigrationStep } from './types.js';
+
+export interface MigratorOptions {
+  /** Connection string; defaults to DATABASE_URL */
+  database?: string;
+  migrationsDir?: string;
+  tableName?: string;
+}
+
+export interface MigrationRun {
+  direction: 'up' | 'down';
+  dryRun: boolean;
+  steps: MigrationStep[];
+  /** The full script a dry run would execute */
+  sql?: string;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export class Migrator {
+  readonly target: DatabaseTarget;
+  readonly migrationsDir: string;
+  readonly tableName: string;
+
+  constructor(options: MigratorOptions = {}) {
+    this.target = parseDatabaseUrl(options.database || process.env.DATABASE_URL || '');
+    this.migrationsDir = resolve(options.migrationsDir || './migrations');
+    this.tableName = options.tableName || 'schema_migrations';
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(this.tableName)) {
+      throw new Error(`Invalid migrations table name: ${this.tableName}`);
+    }
+  }
+
+  get dialect(): Dialect {
+    return this.target.dialect;
+  }
+
+  /**
+   * Generate a new migration file
+   */
+  async create(name: string, sql: { up?: string; down?: string } = {}): Promise<Migration> {
+    return createMigrationFile(this.migrationsDir, name, this.dialect, sql);
+  }
+
+  async status(): Promise<{ applied: number; pending: number; missing: number; migrations: MigrationStatus[] }> {
+    const all = await readMigrations(this.migrationsDir);
+    const applied = await this.readOnly(driver => this.appliedMigrations(driver));
+    const appliedById = new Map(applied.map(m => [m.id, m]));
+    const files = new Set(all.map(m => m.id));
+
+    const migrations: MigrationStatus[] = [
+      ...all.map((m): MigrationStatus => {
+        const record = appliedById.get(m.id);
+        return record
+          ? { id: m.id, name: m.name, status: 'applied', executedAt: record.executedAt, file: m.file }
+          : { id: m.id, name: m.name, status: 'pending', file: m.file };
+      }),
+      ...applied.filter(m => !files.has(m.id)).map((m): MigrationStatus => ({ id: m.id, name: m.name, status: 'missing', executedAt: m.executedAt }))
+    ].sort((a, b) => Number(a.id) - Number(b.id));
+
+    return {
+      applied: migrations.filter(m => m.status === 'applied').length,
+      pending: migrations.filter(m => m.status === 'pending').length,
+      missing: migrations.filter(m => m.status === 'missing').length,
+      migrations
+    };
+  }
+
+  /**
+   * The steps up or down would run, with their SQL, without touching the
+   * database
+   */
+  async plan(direction: 'up' | 'down', options: { to?: string; steps?: number } = {}): Promise<MigrationStep[]> {
+    const all = await readMigrations(this.migrationsDir);
+    const applied = await this.readOnly(driver => this.appliedMigrations(driver));
+    if (options.to !== undefined && !all.some(m => m.id === options.to) && !applied.some(m => m.id === options.to)) {
+      throw new Error(`Unknown migration: ${options.to}`);
+    }
+    return direction === 'up' ? this.planUp(all, applied, options.to) : this.planDown(all, applied, options);
+  }
+
+  async up(options: { to?: string; dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const steps = await this.plan('up', options);
+    if (options.dryRun) return this.dryRun('up', steps);
+
+    await this.withDriver(async driver => {
+      await driver.exec(this.migrationsTableSql());
+      for (const step of steps) {
+        await this.run(driver, step, () =>
+          driver.query(`INSERT INTO ${this.tableName} (id, name) VALUES (?, ?)`, [step.id, step.name])
+        );
+      }
+    });
+    return { direction: 'up', dryRun: false, steps };
+  }
+
+  async down(options: { to?: string; steps?: number; dryRun?: boolean } = {}): Promise<MigrationRun> {
+    const steps = await this.plan('down', options);
+    if (options.dryRun) return this.dryRun('down', steps);
+
+    await this.withDriver(async driver => {
+      for (const step of steps) {
+        await this.run(driver, step, () => driver.query(`DELETE FROM ${this.tableName} WHERE id = ?`, [step.id]));
+      }
+    });
+    return { direction: 'down', dryRun: false, steps };
+  }
+
+  private planUp(all: Migration[], applied: AppliedMigration[], to?: string): MigrationStep[] {
+    const appliedIds = new Set(applied.map(m => m.id));
+    return all
+      .filter(m => !appliedIds.has(m.id) && (to === undefined || m.timestamp <= Number(to)))
+      .map(m => {
+        if (!hasStatements(m.up)) throw new Error(`Migration ${m.file} has no UP statements`);
+        return { id: m.id, name: m.name, direction: 'up', sql: m.up };
+      });
+  }
+
+  private planDown(all: Migration[], applied: AppliedMigration[], options: { to?: string; steps?: number }): MigrationStep[] {
+    if (options.steps !== undefined && (!Number.isInteger(options.steps) || options.steps < 1)) {
+      throw new Error(`steps must be a positive integer, got ${options.steps}`);
+    }
+    let selected: AppliedMigration[];
+    if (options.to !== undefined) {
+      selected = applied.filter(m => Number(m.id) > Number(options.to));
+    } else {
+      selected = applied.slice(-(options.steps ?? 1));
+    }
+
+    const files = new Map(all.map(m => [m.id, m]));
+    return selected.reverse().map(record => {
+      const migration = files.get(record.id);
+      if (!migration) throw new Error(`Cannot roll back ${record.id}_${record.name}: its migration file is missing`);
+      if (!hasStatements(migration.down)) throw new Error(`Cannot roll back ${migration.file}: it has no DOWN statements`);
+      return { id: migration.id, name: migration.name, direction: 'down', sql: migration.down };
+    });
+  }
+
+  private dryRun(direction: 'up' | 'down', steps: MigrationStep[]): MigrationRun {
+    const bookkeeping = (step: MigrationStep) =>
+      direction === 'up'
+        ? `INSERT INTO ${this.tableName} (id, name) VALUES (${quote(step.id)}, ${quote(step.name)});`
+        : `DELETE FROM ${this.tableName} WHERE id = ${quote(step.id)};`;
+    const script = [
+      ...(direction === 'up' && steps.length > 0 ? [`${this.migrationsTableSql()};`] : []),
+      ...steps.map(step => `-- ${direction === 'up' ? 'Migrating' : 'Rolling back'}: ${step.id}_${step.name}\nBEGIN;\n${step.sql}\n${bookkeeping(step)}\nCOMMIT;`)
+    ].join('\n\n');
+    return { direction, dryRun: true, steps, sql: script ? `${script}\n` : '' };
+  }
+
+  private async run(driver: Driver, step: MigrationStep, record: () => Promise<unknown>): Promise<void> {
+    try {
+      await driver.transaction(async () => {
+        await driver.exec(step.sql);
+        await record();
+      });
+    } catch (error) {
+      const verb = step.direction === 'up' ? 'Migration' : 'Rollback of';
+      throw new Error(`${verb} ${step.id}_${step.name} failed: ${error instanceof Error ? error.message : String(error)}. It was rolled back and later steps did not run.`);
+    }
+  }
+
+  private migrationsTableSql(): string {
+    return this.dialect === 'postgres'
+      ? `CREATE TABLE IF NOT EXISTS ${this.tableName} (\n  id TEXT PRIMARY KEY,\n  name TEXT NOT NULL,\n  executed_at TIMESTAMP DEFAULT NOW()\n)`
+      : `CREATE TABLE IF NOT EXISTS ${this.tableName} (\n  id TEXT PRIMARY KEY,\n  name TEXT NOT NULL,\n  executed_at TEXT DEFAULT CURRENT_TIMESTAMP\n)`;
+  }
+
+  private async appliedMigrations(driver: Driver): Promise<AppliedMigration[]> {
+    const exists = this.dialect === 'postgres'
+      ? await driver.query(`SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = ?`, [this.tableName])
+      : await driver.query(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`, [this.tableName]);
+    if (exists.length === 0) return [];
+
+    const rows = await driver.query<{ id: string; name: string; executed_at: string | Date }>(
+      `SELECT id, name, executed_at FROM ${this.tableName}`
+    );
+    return rows
+      .map(row => ({
+        id: row.id,
+        name: row.name,
+        executedAt: row.executed_at instanceof Date ? row.executed_at.toISOString() : String(row.executed_at)
+      }))
+      .sort((a, b) => Number(a.id) - Number(b.id));
+  }
+
+  private async withDriver<T>(fn: (driver: Driver) => Promise<T>): Promise<T> {
+    const driver = await connect(this.target);
+    try {
+      return await fn(driver);
+    } finally {
+      await driver.close();
+    }
+  }
+
+  /**
+   * Like withDriver, but a SQLite file that does not exist yet counts as
+   * an empty database instead of being created
+   */
+  private async readOnly<T>(fn: (driver: Driver) => Promise<T[]>): Promise<T[]> {
+    if (!databaseExists(this.target)) return [];
+    return this.withDriver(fn);
+  }
+}
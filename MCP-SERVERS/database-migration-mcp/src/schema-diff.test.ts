@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { connect } from './drivers.js';
+import { diffSchemas } from './schema-diff.js';
+import { introspect, loadSnapshot, validateSnapshot } from './schema.js';
+import { SchemaSnapshot } from './types.js';
+
+const V1: SchemaSnapshot = {
+  tables: {
+    users: {
+      columns: {
+        id: { type: 'INTEGER', primaryKey: true },
+        email: { type: 'TEXT', nullable: false, unique: true },
+        age: { type: 'INTEGER' }
+      }
+    },
+    sessions: {
+      columns: {
+        id: { type: 'TEXT', primaryKey: true },
+        user_id: { type: 'INTEGER', references: 'users(id)' }
+      }
+    }
+  }
+};
+
+const V2: SchemaSnapshot = {
+  tables: {
+    users: {
+      columns: {
+        id: { type: 'INTEGER', primaryKey: true },
+        email: { type: 'TEXT', nullable: false, unique: true },
+        name: { type: 'TEXT', default: "''" }
+      },
+      indexes: { users_name: { columns: ['name'] } }
+    },
+    posts: {
+      columns: {
+        id: { type: 'INTEGER', primaryKey: true },
+        user_id: { type: 'INTEGER', nullable: false, references: 'users(id)' },
+        status: { type: 'TEXT', nullable: false, default: "'draft'" }
+      },
+      indexes: { posts_user_status: { columns: ['user_id', 'status'] } }
+    }
+  }
+};
+
+async function apply(sql: string, database = ':memory:') {
+  const driver = await connect({ dialect: 'sqlite', location: database });
+  await driver.exec(sql);
+  return driver;
+}
+
+describe('Schema diff', () => {
+  it('should list changes and write SQLite SQL', () => {
+    const diff = diffSchemas(V1, V2, 'sqlite');
+
+    expect(diff.changes).toEqual([
+      { kind: 'create_table', table: 'posts' },
+      { kind: 'drop_table', table: 'sessions' },
+      { kind: 'add_column', table: 'users', column: 'name' },
+      { kind: 'drop_column', table: 'users', column: 'age' },
+      { kind: 'create_index', table: 'users', index: 'users_name' }
+    ]);
+    expect(diff.up.split('\n')).toEqual([
+      'CREATE TABLE posts (',
+      '  id INTEGER PRIMARY KEY,',
+      '  user_id INTEGER NOT NULL REFERENCES users(id),',
+      "  status TEXT NOT NULL DEFAULT 'draft'",
+      ');',
+      'CREATE INDEX posts_user_status ON posts (user_id, status);',
+      "ALTER TABLE users ADD COLUMN name TEXT DEFAULT '';",
+      'ALTER TABLE users DROP COLUMN age;',
+      'DROP TABLE sessions;',
+      'CREATE INDEX users_name ON users (name);'
+    ]);
+    expect(diff.warnings).toEqual(['Dropping column users.age deletes its data', 'Dropping table sessions deletes its data']);
+  });
+
+  it('should round-trip through a SQLite database', async () => {
+    const diff = diffSchemas(V1, V2, 'sqlite');
+    const { up: v1 } = diffSchemas({ tables: {} }, V1, 'sqlite');
+    const driver = await apply(v1);
+    try {
+      expect(await introspect(driver)).toEqual(V1);
+      await driver.exec(diff.up);
+      expect(await introspect(driver)).toEqual(V2);
+      await driver.exec(diff.down);
+      expect(await introspect(driver)).toEqual(V1);
+    } finally {
+      await driver.close();
+    }
+  });
+
+  it('should rebuild SQLite tables for column changes and keep rows', async () => {
+    const after = structuredClone(V1);
+    after.tables.users.columns.age = { type: 'INTEGER', nullable: false, default: '0' };
+    delete after.tables.users.columns.email.unique;
+
+    const diff = diffSchemas(V1, after, 'sqlite');
+    expect(diff.changes).toEqual([
+      { kind: 'alter_column', table: 'users', column: 'email', changes: ['drop unique'] },
+      { kind: 'alter_column', table: 'users', column: 'age', changes: ['not null', 'default 0'] }
+    ]);
+    expect(diff.up).toContain('INSERT INTO users__new (id, email, age) SELECT id, email, age FROM users;\nDROP TABLE users;\nALTER TABLE users__new RENAME TO users;');
+    expect(diff.warnings).toEqual(['SQLite rebuilds users to change email, age; turn foreign keys off while it runs if other tables reference it']);
+
+    const driver = await apply(diffSchemas({ tables: {} }, V1, 'sqlite').up);
+    try {
+      await driver.exec("INSERT INTO users (id, email, age) VALUES (1, 'a@example.com', 30)");
+      await driver.exec(diff.up);
+      expect(await introspect(driver)).toEqual(after);
+      expect(await driver.query('SELECT id, email, age FROM users')).toEqual([{ id: 1, email: 'a@example.com', age: 30 }]);
+    } finally {
+      await driver.close();
+    }
+  });
+
+  it('should write Postgres ALTER statements', () => {
+    const after = structuredClone(V1);
+    after.tables.users.columns.age = { type: 'BIGINT', nullable: false };
+    after.tables.users.columns.email = { type: 'VARCHAR(255)', nullable: false };
+    after.tables.sessions.columns.user_id = { type: 'INTEGER' };
+    after.tables.sessions.columns.expires_at = { type: 'TIMESTAMP', nullable: false };
+
+    const diff = diffSchemas(V1, after, 'postgres');
+    expect(diff.up.split('\n')).toEqual([
+      'ALTER TABLE users ALTER COLUMN email TYPE VARCHAR(255) USING email::VARCHAR(255);',
+      'ALTER TABLE users DROP CONSTRAINT users_email_key;',
+      'ALTER TABLE users ALTER COLUMN age TYPE BIGINT USING age::BIGINT;',
+      'ALTER TABLE users ALTER COLUMN age SET NOT NULL;',
+      'ALTER TABLE sessions DROP CONSTRAINT sessions_user_id_fkey;',
+      'ALTER TABLE sessions ADD COLUMN expires_at TIMESTAMP NOT NULL;'
+    ]);
+    expect(diff.down.split('\n')).toContain('ALTER TABLE sessions ADD CONSTRAINT sessions_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id);');
+    expect(diff.warnings).toContain('Adding NOT NULL column sessions.expires_at without a default fails if sessions has rows');
+  });
+
+  it('should create referenced tables first and drop them last', () => {
+    const diff = diffSchemas({ tables: {} }, { tables: { sessions: V1.tables.sessions, users: V1.tables.users } }, 'postgres');
+    expect(diff.up.indexOf('CREATE TABLE users')).toBeLessThan(diff.up.indexOf('CREATE TABLE sessions'));
+    expect(diff.down).toBe('DROP TABLE sessions;\nDROP TABLE users;');
+  });
+});
+
+describe('Snapshots', () => {
+  it('should load snapshots from JSON, SQL and SQLite files', async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), 'db-schema-'));
+    try {
+      await fs.writeFile(join(dir, 'v1.json'), JSON.stringify(V1));
+      await fs.writeFile(join(dir, 'v2.sql'), diffSchemas({ tables: {} }, V2, 'sqlite').up);
+      const driver = await apply(diffSchemas({ tables: {} }, V1, 'sqlite').up + '\nCREATE TABLE schema_migrations (id TEXT);', join(dir, 'app.db'));
+      await driver.close();
+
+      expect(await loadSnapshot(join(dir, 'v1.json'), 'from')).toEqual(V1);
+      expect(await loadSnapshot(join(dir, 'v2.sql'), 'to')).toEqual(V2);
+      expect(await loadSnapshot(`sqlite:${join(dir, 'app.db')}`, 'from', ['schema_migrations'])).toEqual(V1);
+      await expect(loadSnapshot(join(dir, 'missing.db'), 'from')).rejects.toThrow('Database not found');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should explain invalid snapshots', () => {
+    expect(() => validateSnapshot({ users: {} })).toThrow('Invalid snapshot: expected { "tables": { ... } }');
+    expect(() => validateSnapshot({ tables: { users: { columns: { id: {} } } } })).toThrow('column users.id needs a type');
+    expect(() => validateSnapshot({ tables: { t: { columns: { a: { type: 'INT', references: 'users.id' } } } } })).toThrow(
+      'references must look like "table(column)"'
+    );
+    expect(() => validateSnapshot({ tables: { t: { columns: { a: { type: 'INT' } }, indexes: { i: { columns: ['b'] } } } } })).toThrow(
+      'index i uses unknown column t.b'
+    );
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Schema diffs
+ *
+ * Compares two snapshots and writes the SQL to go from one to the other.
+ * The DOWN script is the diff in the other direction. Renames are not
+ * detected: a renamed column shows up as a drop and an add.
+ *
+ * SQLite can only add and drop plain columns in place; any other change
+ * to a table rebuilds it (create, copy rows, drop, rename), as described
+ * in https://www.sqlite.org/lang_altertable.html.
+ */
+
+import { ColumnSchema, Dialect, IndexSchema, SchemaSnapshot, TableSchema } from './types.js';
+
+export type SchemaChange =
+  | { kind: 'create_table'; table: string }
+  | { kind: 'drop_table'; table: string }
+  | { kind: 'add_column'; table: string; column: string }
+  | { kind: 'drop_column'; table: string; column: string }
+  | { kind: 'alter_column'; table: string; column: string; changes: string[] }
+  | { kind: 'create_index'; table: string; index: string }
+  | { kind: 'drop_index'; table: string; index: string };
+
+export interface SchemaDiff {
+  changes: SchemaChange[];
+  up: string;
+  down: string;
+  warnings: string[];
+}
+
+interface Normalized {
+  type: string;
+  nullable: boolean;
+  default?: string;
+  primaryKey: boolean;
+  unique: boolean;
+  references?: string;
+}
+
+function normalize(column: ColumnSchema): Normalized {
+  const primaryKey = column.primaryKey === true;
+  return {
+    type: column.type.trim().replace(/\s+/g, ' ').toUpperCase(),
+    nullable: primaryKey ? false : column.nullable !== false,
+    default: column.default?.trim(),
+    primaryKey,
+    unique: column.unique === true && !primaryKey,
+    references: column.references?.replace(/\s+/g, '')
+  };
+}
+
+/**
+ * Column attributes that differ, e.g. ["type TEXT → INTEGER", "not null"]
+ */
+function columnChanges(before: ColumnSchema, after: ColumnSchema): string[] {
+  const a = normalize(before);
+  const b = normalize(after);
+  const changes: string[] = [];
+  if (a.type !== b.type) changes.push(`type ${a.type} → ${b.type}`);
+  if (a.nullable !== b.nullable) changes.push(b.nullable ? 'nullable' : 'not null');
+  if (a.default !== b.default) changes.push(b.default === undefined ? 'drop default' : `default ${b.default}`);
+  if (a.primaryKey !== b.primaryKey) changes.push(b.primaryKey ? 'primary key' : 'drop primary key');
+  if (a.unique !== b.unique) changes.push(b.unique ? 'unique' : 'drop unique');
+  if (a.references !== b.references) changes.push(b.references ? `references ${b.references}` : 'drop foreign key');
+  return changes;
+}
+
+function sameIndex(a: IndexSchema, b: IndexSchema): boolean {
+  return a.columns.join(',') === b.columns.join(',') && Boolean(a.unique) === Boolean(b.unique);
+}
+
+export function compareSchemas(from: SchemaSnapshot, to: SchemaSnapshot): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  for (const table of Object.keys(to.tables)) {
+    if (!from.tables[table]) changes.push({ kind: 'create_table', table });
+  }
+  for (const table of Object.keys(from.tables)) {
+    if (!to.tables[table]) changes.push({ kind: 'drop_table', table });
+  }
+
+  for (const [table, after] of Object.entries(to.tables)) {
+    const before = from.tables[table];
+    if (!before) continue;
+    for (const [column, definition] of Object.entries(after.columns)) {
+      const previous = before.columns[column];
+      if (!previous) {
+        changes.push({ kind: 'add_column', table, column });
+      } else {
+        const differences = columnChanges(previous, definition);
+        if (differences.length > 0) changes.push({ kind: 'alter_column', table, column, changes: differences });
+      }
+    }
+    for (const column of Object.keys(before.columns)) {
+      if (!after.columns[column]) changes.push({ kind: 'drop_column', table, column });
+    }
+
+    const beforeIndexes = before.indexes ?? {};
+    const afterIndexes = after.indexes ?? {};
+    for (const [index, definition] of Object.entries(beforeIndexes)) {
+      if (!afterIndexes[index] || !sameIndex(definition, afterIndexes[index])) changes.push({ kind: 'drop_index', table, index });
+    }
+    for (const [index, definition] of Object.entries(afterIndexes)) {
+      if (!beforeIndexes[index] || !sameIndex(beforeIndexes[index], definition)) changes.push({ kind: 'create_index', table, index });
+    }
+  }
+  return changes;
+}
+
+function ident(name: string): string {
+  return /^[a-z_][a-z0-9_]*$/.test(name) ? name : `"${name.replace(/"/g, '""')}"`;
+}
+
+function references(target: string): string {
+  const [, table, column] = target.match(/^(\w+)\s*\(\s*(\w+)\s*\)$/)!;
+  return `${ident(table)}(${ident(column)})`;
+}
+
+function columnSql(name: string, column: ColumnSchema, inlinePrimaryKey: boolean): string {
+  const c = normalize(column);
+  const parts = [ident(name), column.type.trim()];
+  if (c.primaryKey && inlinePrimaryKey) parts.push('PRIMARY KEY');
+  if (!c.nullable && !c.primaryKey) parts.push('NOT NULL');
+  if (c.unique) parts.push('UNIQUE');
+  if (c.default !== undefined) parts.push(`DEFAULT ${c.default}`);
+  if (column.references) parts.push(`REFERENCES ${references(column.references)}`);
+  return parts.join(' ');
+}
+
+function primaryKey(table: TableSchema): string[] {
+  return Object.entries(table.columns).filter(([, c]) => c.primaryKey).map(([name]) => name);
+}
+
+function createTableSql(name: string, table: TableSchema, as = name): string {
+  const keys = primaryKey(table);
+  const lines = Object.entries(table.columns).map(([column, definition]) => columnSql(column, definition, keys.length === 1));
+  if (keys.length > 1) lines.push(`PRIMARY KEY (${keys.map(ident).join(', ')})`);
+  return `CREATE TABLE ${ident(as)} (\n  ${lines.join(',\n  ')}\n);`;
+}
+
+function createIndexSql(table: string, name: string, index: IndexSchema): string {
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${ident(name)} ON ${ident(table)} (${index.columns.map(ident).join(', ')});`;
+}
+
+/**
+ * Order tables so referenced tables come first
+ */
+function dependencyOrder(tables: string[], schema: SchemaSnapshot): string[] {
+  const ordered: string[] = [];
+  const visit = (table: string, path: string[]) => {
+    if (ordered.includes(table) || path.includes(table)) return;
+    for (const column of Object.values(schema.tables[table].columns)) {
+      const target = column.references?.match(/^(\w+)/)?.[1];
+      if (target && target !== table && tables.includes(target)) visit(target, [...path, table]);
+    }
+    ordered.push(table);
+  };
+  tables.forEach(table => visit(table, []));
+  return ordered;
+}
+
+interface Script {
+  statements: string[];
+  warnings: string[];
+}
+
+/**
+ * Whether SQLite can apply a table's column changes with ALTER TABLE
+ */
+function sqliteInPlace(changes: SchemaChange[], from: TableSchema, to: TableSchema): boolean {
+  return changes.every(change => {
+    if (change.kind === 'add_column') {
+      const c = normalize(to.columns[change.column]);
+      return !c.primaryKey && !c.unique && (c.nullable || c.default !== undefined);
+    }
+    if (change.kind === 'drop_column') {
+      const c = normalize(from.columns[change.column]);
+      return !c.primaryKey && !c.unique && !c.references;
+    }
+    return change.kind === 'create_index' || change.kind === 'drop_index';
+  });
+}
+
+function sqliteRebuild(table: string, from: TableSchema, to: TableSchema): string[] {
+  const temporary = `${table}__new`;
+  const shared = Object.keys(to.columns).filter(column => from.columns[column]).map(ident).join(', ');
+  return [
+    createTableSql(table, to, temporary),
+    `INSERT INTO ${ident(temporary)} (${shared}) SELECT ${shared} FROM ${ident(table)};`,
+    `DROP TABLE ${ident(table)};`,
+    `ALTER TABLE ${ident(temporary)} RENAME TO ${ident(table)};`,
+    ...Object.entries(to.indexes ?? {}).map(([name, index]) => createIndexSql(table, name, index))
+  ];
+}
+
+function postgresAlter(table: string, changes: SchemaChange[], from: TableSchema, to: TableSchema, warnings: string[]): string[] {
+  const t = ident(table);
+  const statements: string[] = [];
+  const keysBefore = primaryKey(from);
+  const keysAfter = primaryKey(to);
+  const keyChanged = keysBefore.join(',') !== keysAfter.join(',');
+
+  if (keyChanged && keysBefore.length > 0) statements.push(`ALTER TABLE ${t} DROP CONSTRAINT ${ident(`${table}_pkey`)};`);
+
+  for (const change of changes) {
+    if (change.kind === 'add_column') {
+      const column = to.columns[change.column];
+      statements.push(`ALTER TABLE ${t} ADD COLUMN ${columnSql(change.column, column, false)};`);
+      const c = normalize(column);
+      if (!c.nullable && c.default === undefined && !c.primaryKey) {
+        warnings.push(`Adding NOT NULL column ${table}.${change.column} without a default fails if ${table} has rows`);
+      }
+    } else if (change.kind === 'drop_column') {
+      statements.push(`ALTER TABLE ${t} DROP COLUMN ${ident(change.column)};`);
+    } else if (change.kind === 'alter_column') {
+      const c = ident(change.column);
+      const a = normalize(from.columns[change.column]);
+      const b = normalize(to.columns[change.column]);
+      if (a.type !== b.type) {
+        const type = to.columns[change.column].type.trim();
+        statements.push(`ALTER TABLE ${t} ALTER COLUMN ${c} TYPE ${type} USING ${c}::${type};`);
+        warnings.push(`Changing ${table}.${change.column} from ${a.type} to ${b.type} fails if existing values do not convert`);
+      }
+      if (a.nullable !== b.nullable && !b.primaryKey && !a.primaryKey) {
+        statements.push(`ALTER TABLE ${t} ALTER COLUMN ${c} ${b.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+      }
+      if (a.default !== b.default) {
+        statements.push(`ALTER TABLE ${t} ALTER COLUMN ${c} ${b.default === undefined ? 'DROP DEFAULT' : `SET DEFAULT ${b.default}`};`);
+      }
+      if (a.unique !== b.unique) {
+        const constraint = ident(`${table}_${change.column}_key`);
+        statements.push(b.unique ? `ALTER TABLE ${t} ADD CONSTRAINT ${constraint} UNIQUE (${c});` : `ALTER TABLE ${t} DROP CONSTRAINT ${constraint};`);
+      }
+      if (a.references !== b.references) {
+        const constraint = ident(`${table}_${change.column}_fkey`);
+        if (a.references) statements.push(`ALTER TABLE ${t} DROP CONSTRAINT ${constraint};`);
+        if (b.references) statements.push(`ALTER TABLE ${t} ADD CONSTRAINT ${constraint} FOREIGN KEY (${c}) REFERENCES ${references(b.references)};`);
+      }
+    }
+  }
+
+  if (keyChanged && keysAfter.length > 0) statements.push(`ALTER TABLE ${t} ADD PRIMARY KEY (${keysAfter.map(ident).join(', ')});`);
+  return statements;
+}
+
+function script(from: SchemaSnapshot, to: SchemaSnapshot, dialect: Dialect): Script {
+  const changes = compareSchemas(from, to);
+  const warnings: string[] = [];
+  const byTable = new Map<string, SchemaChange[]>();
+  for (const change of changes) {
+    if (change.kind === 'create_table' || change.kind === 'drop_table') continue;
+    byTable.set(change.table, [...(byTable.get(change.table) ?? []), change]);
+  }
+
+  const rebuilt = new Set<string>();
+  if (dialect === 'sqlite') {
+    for (const [table, tableChanges] of byTable) {
+      if (!sqliteInPlace(tableChanges, from.tables[table], to.tables[table])) rebuilt.add(table);
+    }
+  }
+
+  const dropIndexes: string[] = [];
+  const createIndexes: string[] = [];
+  const alters: string[] = [];
+  for (const [table, tableChanges] of byTable) {
+    const before = from.tables[table];
+    const after = to.tables[table];
+    for (const change of tableChanges) {
+      if (change.kind === 'drop_column') warnings.push(`Dropping column ${table}.${change.column} deletes its data`);
+    }
+
+    if (rebuilt.has(table)) {
+      alters.push(...sqliteRebuild(table, before, after));
+      warnings.push(`SQLite rebuilds ${table} to change ${tableChanges.filter(c => c.kind === 'alter_column' || c.kind === 'add_column' || c.kind === 'drop_column').map(c => (c as { column: string }).column).join(', ')}; turn foreign keys off while it runs if other tables reference it`);
+      continue;
+    }
+
+    for (const change of tableChanges) {
+      if (change.kind === 'drop_index') dropIndexes.push(`DROP INDEX ${ident(change.index)};`);
+      if (change.kind === 'create_index') createIndexes.push(createIndexSql(table, change.index, after.indexes![change.index]));
+    }
+    const columnChanges = tableChanges.filter(c => c.kind === 'add_column' || c.kind === 'drop_column' || c.kind === 'alter_column');
+    if (dialect === 'postgres') {
+      alters.push(...postgresAlter(table, columnChanges, before, after, warnings));
+    } else {
+      for (const change of columnChanges) {
+        alters.push(
+          change.kind === 'add_column'
+            ? `ALTER TABLE ${ident(table)} ADD COLUMN ${columnSql(change.column, after.columns[change.column], false)};`
+            : `ALTER TABLE ${ident(table)} DROP COLUMN ${ident((change as { column: string }).column)};`
+        );
+      }
+    }
+  }
+
+  const created = dependencyOrder(changes.filter(c => c.kind === 'create_table').map(c => c.table), to);
+  const dropped = dependencyOrder(changes.filter(c => c.kind === 'drop_table').map(c => c.table), from).reverse();
+  for (const table of dropped) warnings.push(`Dropping table ${table} deletes its data`);
+
+  return {
+    statements: [
+      ...dropIndexes,
+      ...created.flatMap(table => [
+        createTableSql(table, to.tables[table]),
+        ...Object.entries(to.tables[table].indexes ?? {}).map(([name, index]) => createIndexSql(table, name, index))
+      ]),
+      ...alters,
+      ...dropped.map(table => `DROP TABLE ${ident(table)};`),
+      ...createIndexes
+    ],
+    warnings
+  };
+}
+
+export function diffSchemas(from: SchemaSnapshot, to: SchemaSnapshot, dialect: Dialect): SchemaDiff {
+  const up = script(from, to, dialect);
+  const down = script(to, from, dialect);
+  return {
+    changes: compareSchemas(from, to),
+    up: up.statements.join('\n'),
+    down: down.statements.join('\n'),
+    warnings: up.warnings
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Schema snapshots
+ *
+ * A snapshot is JSON listing tables, their columns in order, and indexes:
+ *
+ *   { "tables": { "users": {
+ *       "columns": { "id": { "type": "INTEGER", "primaryKey": true },
+ *                    "email": { "type": "TEXT", "nullable": false, "unique": true } },
+ *       "indexes": { "users_created_at": { "columns": ["created_at"] } } } } }
+ *
+ * Snapshots can also be read from a live database or from a .sql file of
+ * CREATE statements, which is run against an in-memory SQLite database.
+ */
+
+import { promises as fs } from 'fs';
+import { extname, resolve } from 'path';
+import { connect, DatabaseTarget, Driver, parseDatabaseUrl } from './drivers.js';
+import { ColumnSchema, IndexSchema, SchemaSnapshot } from './types.js';
+
+export type SnapshotSource = SchemaSnapshot | string;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a snapshot's shape, naming the first problem
+ */
+export function validateSnapshot(value: unknown, label = 'snapshot'): SchemaSnapshot {
+  if (!isObject(value) || !isObject(value.tables)) {
+    throw new Error(`Invalid ${label}: expected { "tables": { ... } }`);
+  }
+  for (const [table, schema] of Object.entries(value.tables)) {
+    if (!isObject(schema) || !isObject(schema.columns) || Object.keys(schema.columns).length === 0) {
+      throw new Error(`Invalid ${label}: table ${table} needs at least one column`);
+    }
+    for (const [column, definition] of Object.entries(schema.columns)) {
+      if (!isObject(definition) || typeof definition.type !== 'string' || definition.type.trim() === '') {
+        throw new Error(`Invalid ${label}: column ${table}.${column} needs a type`);
+      }
+      if (definition.references !== undefined && !/^\w+\s*\(\s*\w+\s*\)$/.test(String(definition.references))) {
+        throw new Error(`Invalid ${label}: ${table}.${column} references must look like "table(column)"`);
+      }
+    }
+    for (const [index, definition] of Object.entries(isObject(schema.indexes) ? schema.indexes : {})) {
+      if (!isObject(definition) || !Array.isArray(definition.columns) || definition.columns.length === 0) {
+        throw new Error(`Invalid ${label}: index ${index} needs columns`);
+      }
+      const missing = (definition.columns as string[]).filter(c => !(c in (schema.columns as object)));
+      if (missing.length > 0) {
+        throw new Error(`Invalid ${label}: index ${index} uses unknown column ${table}.${missing[0]}`);
+      }
+    }
+  }
+  return value as unknown as SchemaSnapshot;
+}
+
+async function introspectSqlite(driver: Driver, exclude: string[]): Promise<SchemaSnapshot> {
+  const tables = await driver.query<{ name: string }>(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+  const snapshot: SchemaSnapshot = { tables: {} };
+
+  for (const { name } of tables.filter(t => !exclude.includes(t.name))) {
+    const info = await driver.query<{ name: string; type: string; notnull: number; dflt_value: string | null; pk: number }>(
+      `PRAGMA table_info(${JSON.stringify(name)})`
+    );
+    const foreignKeys = await driver.query<{ table: string; from: string; to: string }>(`PRAGMA foreign_key_list(${JSON.stringify(name)})`);
+    const indexList = await driver.query<{ name: string; unique: number; origin: string }>(`PRAGMA index_list(${JSON.stringify(name)})`);
+
+    const columns: Record<string, ColumnSchema> = {};
+    for (const column of info) {
+      const definition: ColumnSchema = { type: column.type };
+      if (column.pk > 0) definition.primaryKey = true;
+      else if (column.notnull) definition.nullable = false;
+      if (column.dflt_value !== null) definition.default = column.dflt_value;
+      const foreignKey = foreignKeys.find(fk => fk.from === column.name);
+      if (foreignKey) definition.references = `${foreignKey.table}(${foreignKey.to})`;
+      columns[column.name] = definition;
+    }
+
+    const indexes: Record<string, IndexSchema> = {};
+    for (const index of indexList) {
+      const indexColumns = (await driver.query<{ name: string }>(`PRAGMA index_info(${JSON.stringify(index.name)})`)).map(c => c.name);
+      if (index.origin === 'u' && indexColumns.length === 1) {
+        columns[indexColumns[0]].unique = true;
+      } else if (index.origin === 'c') {
+        indexes[index.name] = index.unique ? { columns: indexColumns, unique: true } : { columns: indexColumns };
+      }
+    }
+
+    snapshot.tables[name] = Object.keys(indexes).length > 0 ? { columns, indexes } : { columns };
+  }
+  return snapshot;
+}
+
+async function introspectPostgres(driver: Driver, exclude: string[]): Promise<SchemaSnapshot> {
+  const columns = await driver.query<{
+    table_name: string;
+    column_name: string;
+    data_type: string;
+    character_maximum_length: number | null;
+    is_nullable: string;
+    column_default: string | null;
+  }>(
+    `SELECT c.table_name, c.column_name, c.data_type, c.character_maximum_length, c.is_nullable, c.column_default
+     FROM information_schema.columns c
+     JOIN information_schema.tables t ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+     WHERE c.table_schema = current_schema() AND t.table_type = 'BASE TABLE'
+     ORDER BY c.table_name, c.ordinal_position`
+  );
+  const constraints = await driver.query<{
+    table_name: string;
+    constraint_name: string;
+    constraint_type: string;
+    column_name: string;
+    foreign_table: string | null;
+    foreign_column: string | null;
+  }>(
+    `SELECT tc.table_name, tc.constraint_name, tc.constraint_type, kcu.column_name,
+            ccu.table_name AS foreign_table, ccu.column_name AS foreign_column
+     FROM information_schema.table_constraints tc
+     JOIN information_schema.key_column_usage kcu
+       ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema
+     LEFT JOIN information_schema.constraint_column_usage ccu
+       ON tc.constraint_type = 'FOREIGN KEY' AND ccu.constraint_name = tc.constraint_name AND ccu.table_schema = tc.table_schema
+     WHERE tc.table_schema = current_schema() AND tc.constraint_type IN ('PRIMARY KEY', 'UNIQUE', 'FOREIGN KEY')`
+  );
+  const indexes = await driver.query<{ tablename: string; indexname: string; indexdef: string }>(
+    `SELECT i.tablename, i.indexname, i.indexdef FROM pg_indexes i
+     WHERE i.schemaname = current_schema()
+       AND NOT EXISTS (SELECT 1 FROM information_schema.table_constraints tc
+                       WHERE tc.table_schema = i.schemaname AND tc.constraint_name = i.indexname)
+     ORDER BY i.indexname`
+  );
+
+  const snapshot: SchemaSnapshot = { tables: {} };
+  for (const column of columns) {
+    if (exclude.includes(column.table_name)) continue;
+    const table = (snapshot.tables[column.table_name] ??= { columns: {} });
+    const type = column.character_maximum_length ? `${column.data_type}(${column.character_maximum_length})` : column.data_type;
+    const definition: ColumnSchema = { type };
+    if (column.is_nullable === 'NO') definition.nullable = false;
+    if (column.column_default !== null) definition.default = column.column_default;
+    table.columns[column.column_name] = definition;
+  }
+
+  const uniqueColumns = new Map<string, string[]>();
+  for (const constraint of constraints) {
+    const column = snapshot.tables[constraint.table_name]?.columns[constraint.column_name];
+    if (!column) continue;
+    if (constraint.constraint_type === 'PRIMARY KEY') {
+      column.primaryKey = true;
+      delete column.nullable;
+    } else if (constraint.constraint_type === 'FOREIGN KEY' && constraint.foreign_table) {
+      column.references = `${constraint.foreign_table}(${constraint.foreign_column})`;
+    } else if (constraint.constraint_type === 'UNIQUE') {
+      uniqueColumns.set(constraint.constraint_name, [...(uniqueColumns.get(constraint.constraint_name) ?? []), `${constraint.table_name}.${constraint.column_name}`]);
+    }
+  }
+  for (const [, [only, ...rest]] of uniqueColumns) {
+    if (rest.length > 0) continue;
+    const [table, column] = only.split('.');
+    snapshot.tables[table].columns[column].unique = true;
+  }
+
+  for (const index of indexes) {
+    const table = snapshot.tables[index.tablename];
+    const match = index.indexdef.match(/^CREATE (UNIQUE )?INDEX .* USING \w+ \((.+)\)$/);
+    if (!table || !match) continue;
+    const definition: IndexSchema = { columns: match[2].split(',').map(c => c.trim().replace(/^"|"$/g, '')) };
+    if (match[1]) definition.unique = true;
+    table.indexes = { ...table.indexes, [index.indexname]: definition };
+  }
+  return snapshot;
+}
+
+/**
+ * Read the schema of a live database, leaving out the given tables
+ */
+export async function introspect(driver: Driver, exclude: string[] = []): Promise<SchemaSnapshot> {
+  return driver.dialect === 'postgres' ? introspectPostgres(driver, exclude) : introspectSqlite(driver, exclude);
+}
+
+async function introspectTarget(target: DatabaseTarget, exclude: string[]): Promise<SchemaSnapshot> {
+  const driver = await connect(target);
+  try {
+    return await introspect(driver, exclude);
+  } finally {
+    await driver.close();
+  }
+}
+
+/**
+ * Load a snapshot from an object, a .json file, a .sql file of CREATE
+ * statements, or a database URL
+ */
+export async function loadSnapshot(source: SnapshotSource, label: string, exclude: string[] = []): Promise<SchemaSnapshot> {
+  if (typeof source !== 'string') return validateSnapshot(source, label);
+
+  const extension = extname(source).toLowerCase();
+  if (extension === '.json') {
+    const content = await fs.readFile(resolve(source), 'utf-8').catch(() => {
+      throw new Error(`Snapshot file not found: ${source}`);
+    });
+    try {
+      return validateSnapshot(JSON.parse(content), label);
+    } catch (error) {
+      if (error instanceof SyntaxError) throw new Error(`Invalid ${label}: ${source} is not valid JSON`);
+      throw error;
+    }
+  }
+
+  if (extension === '.sql') {
+    const sql = await fs.readFile(resolve(source), 'utf-8').catch(() => {
+      throw new Error(`Schema file not found: ${source}`);
+    });
+    const driver = await connect({ dialect: 'sqlite', location: ':memory:' });
+    try {
+      await driver.exec(sql);
+      return await introspect(driver, exclude);
+    } catch (error) {
+      throw new Error(`Could not load ${source} into SQLite: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await driver.close();
+    }
+  }
+
+  const target = parseDatabaseUrl(source);
+  if (target.dialect === 'sqlite' && target.location !== ':memory:') {
+    await fs.access(target.location).catch(() => {
+      throw new Error(`Database not found: ${source}`);
+    });
+  }
+  return introspectTarget(target, exclude);
+}
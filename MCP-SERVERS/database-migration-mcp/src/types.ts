@@ -0,0 +1,66 @@
+/**
+ * Shared types
+ */
+
+export type Dialect = 'sqlite' | 'postgres';
+
+/**
+ * A migration file: <id>_<name>.sql with UP and DOWN sections, the format
+ * UTILS/scripts/db-migrate.ts generates
+ */
+export interface Migration {
+  id: string;
+  name: string;
+  timestamp: number;
+  up: string;
+  down: string;
+  file: string;
+}
+
+export interface AppliedMigration {
+  id: string;
+  name: string;
+  executedAt: string;
+}
+
+export interface MigrationStatus {
+  id: string;
+  name: string;
+  /** missing: recorded as applied but the file is gone */
+  status: 'applied' | 'pending' | 'missing';
+  executedAt?: string;
+  file?: string;
+}
+
+export interface MigrationStep {
+  id: string;
+  name: string;
+  direction: 'up' | 'down';
+  sql: string;
+}
+
+export interface ColumnSchema {
+  type: string;
+  /** Defaults to true, except for primary keys */
+  nullable?: boolean;
+  /** SQL expression, e.g. "0", "'draft'" or "CURRENT_TIMESTAMP" */
+  default?: string;
+  primaryKey?: boolean;
+  unique?: boolean;
+  /** Foreign key target, e.g. "users(id)" */
+  references?: string;
+}
+
+export interface IndexSchema {
+  columns: string[];
+  unique?: boolean;
+}
+
+export interface TableSchema {
+  columns: Record<string, ColumnSchema>;
+  indexes?: Record<string, IndexSchema>;
+}
+
+export interface SchemaSnapshot {
+  tables: Record<string, TableSchema>;
+}
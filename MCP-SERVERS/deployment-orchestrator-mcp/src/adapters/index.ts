@@ -0,0 +1,24 @@
+/**
+ * Platform adapter selection
+ */
+
+import { Platform } from '../types.js';
+import { PlatformAdapter } from './interface.js';
+import { LocalAdapter } from './local.js';
+import { RailwayAdapter } from './railway.js';
+import { VercelAdapter } from './vercel.js';
+
+export { AdapterDeployment, PlatformAdapter } from './interface.js';
+export { CommandStep, describeStep, LocalAdapter } from './local.js';
+export { RailwayAdapter, RailwayAdapterOptions } from './railway.js';
+export { VercelAdapter, VercelAdapterOptions } from './vercel.js';
+
+export const PLATFORMS: Platform[] = ['local', 'vercel', 'railway'];
+
+/**
+ * One adapter per platform; Vercel and Railway read their tokens and API
+ * URLs from the environment when used
+ */
+export function defaultAdapters(logDir: string): PlatformAdapter[] {
+  return [new LocalAdapter(logDir), new VercelAdapter(), new RailwayAdapter()];
+}
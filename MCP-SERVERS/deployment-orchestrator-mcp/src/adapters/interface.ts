@@ -0,0 +1,34 @@
+/**
+ * Common interface for deployment platforms
+ */
+
+import { DeploymentRecord, DeploymentState, DeployRequest, Platform } from '../types.js';
+
+/** What a platform reports when a deployment starts or is polled */
+export interface AdapterDeployment {
+  providerId: string;
+  state: DeploymentState;
+  url?: string;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface PlatformAdapter {
+  readonly platform: Platform;
+
+  /** Environment variables the adapter still needs, checked before deploying */
+  readonly requiredEnv: string[];
+
+  /** Human-readable steps a deployment would take; throws if the request is incomplete */
+  plan(request: DeployRequest): string[];
+
+  /** Start a deployment; it usually finishes later and is followed with status() */
+  deploy(request: DeployRequest, id: string): Promise<AdapterDeployment>;
+
+  status(record: DeploymentRecord): Promise<AdapterDeployment>;
+
+  logs(record: DeploymentRecord): Promise<string[]>;
+
+  /** Make an earlier ready deployment live again */
+  rollback(target: DeploymentRecord, id: string, request: Pick<DeployRequest, 'cwd' | 'env'>): Promise<AdapterDeployment>;
+}
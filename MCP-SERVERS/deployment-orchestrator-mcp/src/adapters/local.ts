@@ -0,0 +1,190 @@
+/**
+ * Local deployments: a shell command or a Docker image on this machine
+ *
+ * Commands run in the background and write to <logDir>/<id>.log. A shell
+ * command sees DEPLOY_ID, DEPLOY_PROJECT and DEPLOY_ENVIRONMENT; the last
+ * http(s) URL it prints becomes the deployment URL. Docker deployments
+ * build <project>:<id> and replace the <project>-<environment> container.
+ *
+ * Rolling back re-runs the release steps of the earlier deployment: its
+ * command with DEPLOY_ID set to that deployment, or its image. Only the
+ * names of its env variables are recorded; the rollback must pass the values
+ * again.
+ */
+
+import { spawn } from 'child_process';
+import { once } from 'events';
+import { createWriteStream, promises as fs, WriteStream } from 'fs';
+import { join, resolve } from 'path';
+import { DeploymentRecord, DeploymentState, DeployRequest } from '../types.js';
+import { AdapterDeployment, PlatformAdapter } from './interface.js';
+
+export interface CommandStep {
+  command: string;
+  /** Run without a shell; a step without args is a shell command line */
+  args?: string[];
+  allowFailure?: boolean;
+}
+
+interface Run {
+  state: DeploymentState;
+  url?: string;
+  error?: string;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s'"<>]+/g;
+
+export function describeStep(step: CommandStep): string {
+  return step.args ? [step.command, ...step.args].join(' ') : step.command;
+}
+
+function dockerSteps(request: DeployRequest, id: string): { build: CommandStep[]; release: CommandStep[]; url?: string } {
+  const docker = request.docker ?? {};
+  if (!/^[a-z0-9][a-z0-9_.-]*$/.test(request.project)) {
+    throw new Error(`Docker image names must be lowercase letters, digits, ".", "_" or "-": ${request.project}`);
+  }
+
+  const image = `${docker.registry ? `${docker.registry.replace(/\/$/, '')}/` : ''}${request.project}:${id}`;
+  const container = `${request.project}-${request.environment}`;
+  const build: CommandStep[] = [
+    { command: 'docker', args: ['build', '-t', image, ...(docker.dockerfile ? ['-f', docker.dockerfile] : []), docker.context ?? '.'] }
+  ];
+  if (docker.registry) build.push({ command: 'docker', args: ['push', image] });
+
+  const run = ['run', '-d', '--name', container, '--restart', 'unless-stopped'];
+  if (docker.port) run.push('-p', `${docker.port}:${docker.containerPort ?? docker.port}`);
+  // -e NAME takes the value from the environment, so secrets stay out of argv
+  for (const name of Object.keys(request.env ?? {})) run.push('-e', name);
+
+  return {
+    build,
+    release: [
+      { command: 'docker', args: ['rm', '-f', container], allowFailure: true },
+      { command: 'docker', args: [...run, image] }
+    ],
+    url: docker.port ? `http://localhost:${docker.port}` : undefined
+  };
+}
+
+function localSteps(request: DeployRequest, id: string): { build: CommandStep[]; release: CommandStep[]; url?: string } {
+  if (request.command && request.docker) throw new Error('Pass either command or docker for a local deployment, not both');
+  if (request.docker) return dockerSteps(request, id);
+  if (!request.command) throw new Error('Local deployments need a command or docker options');
+  return { build: [], release: [{ command: request.command }] };
+}
+
+function runStep(step: CommandStep, cwd: string, env: NodeJS.ProcessEnv, log: WriteStream, onOutput: (text: string) => void): Promise<number> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(step.command, step.args ?? [], { cwd, env, shell: step.args === undefined });
+    const write = (chunk: Buffer) => {
+      log.write(chunk);
+      onOutput(chunk.toString());
+    };
+    child.stdout.on('data', write);
+    child.stderr.on('data', write);
+    child.on('error', reject);
+    child.on('close', code => resolvePromise(code ?? 1));
+  });
+}
+
+export class LocalAdapter implements PlatformAdapter {
+  readonly platform = 'local';
+  readonly requiredEnv: string[] = [];
+  private readonly runs = new Map<string, Run>();
+
+  constructor(private readonly logDir: string) {}
+
+  plan(request: DeployRequest): string[] {
+    const { build, release } = localSteps(request, '<id>');
+    return [...build, ...release].map(describeStep);
+  }
+
+  async deploy(request: DeployRequest, id: string): Promise<AdapterDeployment> {
+    const { build, release, url } = localSteps(request, id);
+    const cwd = resolve(request.cwd ?? process.cwd());
+    await this.start(id, [...build, ...release], cwd, {
+      ...request.env,
+      DEPLOY_ID: id,
+      DEPLOY_PROJECT: request.project,
+      DEPLOY_ENVIRONMENT: request.environment
+    });
+    return { providerId: id, state: 'building', url, details: { cwd, release, url, envNames: Object.keys(request.env ?? {}) } };
+  }
+
+  async status(record: DeploymentRecord): Promise<AdapterDeployment> {
+    const run = this.runs.get(record.providerId);
+    if (run) return { providerId: record.providerId, state: run.state, url: run.url ?? record.url, error: run.error };
+    if (record.state !== 'building') return { providerId: record.providerId, state: record.state, url: record.url, error: record.error };
+    return { providerId: record.providerId, state: 'error', error: 'Interrupted: the server stopped while this deployment was running' };
+  }
+
+  async logs(record: DeploymentRecord): Promise<string[]> {
+    const content = await fs.readFile(this.logFile(record.providerId), 'utf-8').catch(() => '');
+    return content.split('\n').filter(line => line !== '');
+  }
+
+  async rollback(target: DeploymentRecord, id: string, request: Pick<DeployRequest, 'cwd' | 'env'>): Promise<AdapterDeployment> {
+    const release = target.details.release as CommandStep[] | undefined;
+    if (!release) throw new Error(`Deployment ${target.id} has no release steps to re-run`);
+
+    const cwd = resolve(request.cwd ?? (target.details.cwd as string | undefined) ?? process.cwd());
+    const envNames = (target.details.envNames as string[] | undefined) ?? [];
+    const missing = envNames.filter(name => request.env?.[name] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Rolling back to ${target.id} needs the env values it was deployed with: ${missing.join(', ')}`);
+    }
+    await this.start(id, release, cwd, {
+      ...request.env,
+      DEPLOY_ID: target.id,
+      DEPLOY_PROJECT: target.project,
+      DEPLOY_ENVIRONMENT: target.environment
+    });
+    return { providerId: id, state: 'building', url: target.url, details: { cwd, release, url: target.url, envNames } };
+  }
+
+  private logFile(id: string): string {
+    return join(this.logDir, `${id}.log`);
+  }
+
+  private async start(id: string, steps: CommandStep[], cwd: string, env: Record<string, string>): Promise<void> {
+    await fs.mkdir(this.logDir, { recursive: true });
+    const log = createWriteStream(this.logFile(id));
+    // An unwritable log fails the deployment instead of crashing the server
+    let logError: Error | undefined;
+    log.on('error', error => {
+      logError = error;
+    });
+    try {
+      await once(log, 'open');
+    } catch (error) {
+      throw new Error(`Cannot write the deployment log ${this.logFile(id)}: ${(error as Error).message}`);
+    }
+    const run: Run = { state: 'building' };
+    this.runs.set(id, run);
+
+    const onOutput = (text: string) => {
+      const urls = text.match(URL_PATTERN);
+      if (urls) run.url = urls[urls.length - 1];
+    };
+
+    void (async () => {
+      let outcome: Pick<Run, 'state' | 'error'> = { state: 'ready' };
+      try {
+        for (const step of steps) {
+          log.write(`$ ${describeStep(step)}\n`);
+          const code = await runStep(step, cwd, { ...process.env, ...env }, log, onOutput);
+          if (code !== 0 && !step.allowFailure) {
+            throw new Error(`Step failed with exit code ${code}: ${describeStep(step)}`);
+          }
+        }
+      } catch (error) {
+        outcome = { state: 'error', error: error instanceof Error ? error.message : String(error) };
+        log.write(`${outcome.error}\n`);
+      }
+      // Only report the outcome once the log is flushed, so logs() is complete
+      if (!logError) await new Promise(done => log.end(done));
+      if (logError && outcome.state === 'ready') outcome = { state: 'error', error: `Cannot write the deployment log: ${logError.message}` };
+      Object.assign(run, outcome);
+    })();
+  }
+}
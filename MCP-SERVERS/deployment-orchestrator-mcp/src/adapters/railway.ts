@@ -0,0 +1,153 @@
+/**
+ * Railway deployments through the GraphQL API
+ *
+ * Uses the same queries as INTEGRATIONS/deployment-platforms/railway/client.ts.
+ * Variables in the request are upserted on the service before it deploys.
+ */
+
+import { DeploymentRecord, DeploymentState, DeployRequest, RailwayTarget } from '../types.js';
+import { AdapterDeployment, PlatformAdapter } from './interface.js';
+
+export interface RailwayAdapterOptions {
+  /** Default: RAILWAY_TOKEN */
+  token?: string;
+  /** Default: RAILWAY_API_URL or https://backboard.railway.app/graphql/v2 */
+  apiUrl?: string;
+}
+
+interface RailwayDeployment {
+  id: string;
+  status: string;
+  url?: string;
+}
+
+const STATES: Record<string, DeploymentState> = {
+  SUCCESS: 'ready',
+  FAILED: 'error',
+  CRASHED: 'error',
+  REMOVED: 'canceled'
+};
+
+export class RailwayAdapter implements PlatformAdapter {
+  readonly platform = 'railway';
+  readonly requiredEnv: string[];
+  private readonly token: string;
+  private readonly apiUrl: string;
+
+  constructor(options: RailwayAdapterOptions = {}) {
+    this.token = options.token || process.env.RAILWAY_TOKEN || '';
+    this.requiredEnv = options.token ? [] : ['RAILWAY_TOKEN'];
+    this.apiUrl = options.apiUrl || process.env.RAILWAY_API_URL || 'https://backboard.railway.app/graphql/v2';
+  }
+
+  plan(request: DeployRequest): string[] {
+    const target = this.target(request);
+    const steps = Object.keys(request.env ?? {}).map(name => `variableUpsert ${name} in environment ${target.environmentId}`);
+    steps.push(`serviceInstanceDeploy service ${target.serviceId} in environment ${target.environmentId}`);
+    steps.push('deployment(<id>) until SUCCESS, FAILED or CRASHED');
+    return steps;
+  }
+
+  async deploy(request: DeployRequest): Promise<AdapterDeployment> {
+    const target = this.target(request);
+    for (const [name, value] of Object.entries(request.env ?? {})) {
+      await this.graphql<unknown>(
+        `mutation($input: VariableUpsertInput!) {
+          variableUpsert(input: $input)
+        }`,
+        { input: { projectId: target.projectId, environmentId: target.environmentId, serviceId: target.serviceId, name, value } }
+      );
+    }
+
+    const data = await this.graphql<{ serviceInstanceDeploy: RailwayDeployment }>(
+      `mutation($input: ServiceInstanceDeployInput!) {
+        serviceInstanceDeploy(input: $input) {
+          id
+          status
+        }
+      }`,
+      { input: { serviceId: target.serviceId, environmentId: target.environmentId } }
+    );
+    return { ...this.toAdapterDeployment(data.serviceInstanceDeploy), details: { railway: target } };
+  }
+
+  async status(record: DeploymentRecord): Promise<AdapterDeployment> {
+    const data = await this.graphql<{ deployment: RailwayDeployment }>(
+      `query($deploymentId: String!) {
+        deployment(id: $deploymentId) {
+          id
+          status
+          url
+        }
+      }`,
+      { deploymentId: record.providerId }
+    );
+    return this.toAdapterDeployment(data.deployment);
+  }
+
+  async logs(record: DeploymentRecord): Promise<string[]> {
+    const data = await this.graphql<{ deploymentLogs: { logs: string[] } }>(
+      `query($deploymentId: String!) {
+        deploymentLogs(deploymentId: $deploymentId) {
+          logs
+        }
+      }`,
+      { deploymentId: record.providerId }
+    );
+    return data.deploymentLogs.logs;
+  }
+
+  async rollback(target: DeploymentRecord): Promise<AdapterDeployment> {
+    await this.graphql<unknown>(
+      `mutation($id: String!) {
+        deploymentRollback(id: $id)
+      }`,
+      { id: target.providerId }
+    );
+    return this.status(target);
+  }
+
+  private target(request: DeployRequest): RailwayTarget {
+    const target = request.railway ?? {
+      projectId: process.env.RAILWAY_PROJECT_ID ?? '',
+      serviceId: process.env.RAILWAY_SERVICE_ID ?? '',
+      environmentId: process.env.RAILWAY_ENVIRONMENT_ID ?? ''
+    };
+    if (!target.projectId || !target.serviceId || !target.environmentId) {
+      throw new Error(
+        'Railway deployments need railway: { projectId, serviceId, environmentId } or RAILWAY_PROJECT_ID, RAILWAY_SERVICE_ID and RAILWAY_ENVIRONMENT_ID'
+      );
+    }
+    return target;
+  }
+
+  private toAdapterDeployment(deployment: RailwayDeployment): AdapterDeployment {
+    const state = STATES[deployment.status] ?? 'building';
+    return {
+      providerId: deployment.id,
+      state,
+      url: deployment.url ? (/^https?:\/\//.test(deployment.url) ? deployment.url : `https://${deployment.url}`) : undefined,
+      error: state === 'error' ? `Railway deployment ${deployment.status.toLowerCase()}` : undefined
+    };
+  }
+
+  private async graphql<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    if (!this.token) throw new Error('Railway token is required: set RAILWAY_TOKEN');
+
+    const response = await fetch(this.apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+      body: JSON.stringify({ query, variables }),
+      signal: AbortSignal.timeout(30_000)
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { message?: string };
+      throw new Error(`Railway API error: ${error.message || `${response.status} ${response.statusText}`}`);
+    }
+
+    const result = (await response.json()) as { data: T; errors?: Array<{ message: string }> };
+    if (result.errors?.length) throw new Error(`Railway API error: ${result.errors[0].message}`);
+    return result.data;
+  }
+}
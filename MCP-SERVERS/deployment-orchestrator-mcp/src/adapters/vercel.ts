@@ -0,0 +1,128 @@
+/**
+ * Vercel deployments through the REST API
+ *
+ * Uses the same endpoints as INTEGRATIONS/deployment-platforms/vercel/client.ts.
+ * Rolling back promotes the earlier deployment, which Vercel only supports
+ * for production.
+ */
+
+import { DeploymentRecord, DeploymentState, DeployRequest } from '../types.js';
+import { AdapterDeployment, PlatformAdapter } from './interface.js';
+
+export interface VercelAdapterOptions {
+  /** Default: VERCEL_TOKEN */
+  token?: string;
+  /** Default: VERCEL_TEAM_ID */
+  teamId?: string;
+  /** Default: VERCEL_API_URL or https://api.vercel.com */
+  apiUrl?: string;
+}
+
+interface VercelDeployment {
+  id: string;
+  url?: string;
+  state?: string;
+  readyState?: string;
+  errorMessage?: string;
+}
+
+const STATES: Record<string, DeploymentState> = {
+  READY: 'ready',
+  ERROR: 'error',
+  CANCELED: 'canceled'
+};
+
+function httpsUrl(url: string | undefined): string | undefined {
+  if (!url) return undefined;
+  return /^https?:\/\//.test(url) ? url : `https://${url}`;
+}
+
+export class VercelAdapter implements PlatformAdapter {
+  readonly platform = 'vercel';
+  readonly requiredEnv: string[];
+  private readonly token: string;
+  private readonly teamId?: string;
+  private readonly apiUrl: string;
+
+  constructor(options: VercelAdapterOptions = {}) {
+    this.token = options.token || process.env.VERCEL_TOKEN || '';
+    this.requiredEnv = options.token ? [] : ['VERCEL_TOKEN'];
+    this.teamId = options.teamId || process.env.VERCEL_TEAM_ID;
+    this.apiUrl = options.apiUrl || process.env.VERCEL_API_URL || 'https://api.vercel.com';
+  }
+
+  plan(request: DeployRequest): string[] {
+    const source = this.gitSource(request);
+    const env = Object.keys(request.env ?? {});
+    return [
+      `POST /v13/deployments: ${request.project} from ${source.type}:${source.repo}@${source.ref ?? 'default branch'} as ${this.target(request)}` +
+        (env.length > 0 ? ` with ${env.join(', ')}` : ''),
+      'GET /v13/deployments/<id> until READY or ERROR'
+    ];
+  }
+
+  async deploy(request: DeployRequest): Promise<AdapterDeployment> {
+    const body: Record<string, unknown> = { name: request.project, target: this.target(request), gitSource: this.gitSource(request) };
+    if (request.env && Object.keys(request.env).length > 0) body.env = request.env;
+    return this.toAdapterDeployment(await this.request<VercelDeployment>('POST', '/v13/deployments', body));
+  }
+
+  async status(record: DeploymentRecord): Promise<AdapterDeployment> {
+    return this.toAdapterDeployment(await this.request<VercelDeployment>('GET', `/v13/deployments/${record.providerId}`));
+  }
+
+  async logs(record: DeploymentRecord): Promise<string[]> {
+    const events = await this.request<Array<{ text?: string }>>('GET', `/v2/deployments/${record.providerId}/events`);
+    return events.map(event => event.text).filter((text): text is string => Boolean(text));
+  }
+
+  async rollback(target: DeploymentRecord): Promise<AdapterDeployment> {
+    if (target.environment !== 'production') {
+      throw new Error('Vercel can only roll back production; redeploy the earlier commit to restore a preview');
+    }
+    await this.request<unknown>('POST', `/v10/projects/${encodeURIComponent(target.project)}/promote/${target.providerId}`);
+    return this.status(target);
+  }
+
+  private target(request: DeployRequest): 'production' | 'preview' {
+    return request.environment === 'production' ? 'production' : 'preview';
+  }
+
+  private gitSource(request: DeployRequest) {
+    if (!request.gitSource?.repo) {
+      throw new Error('Vercel deployments need gitSource: { type: "github", repo: "owner/name", ref: "main" }');
+    }
+    return request.gitSource;
+  }
+
+  private toAdapterDeployment(deployment: VercelDeployment): AdapterDeployment {
+    const state = STATES[deployment.readyState ?? deployment.state ?? ''] ?? 'building';
+    return {
+      providerId: deployment.id,
+      state,
+      url: httpsUrl(deployment.url),
+      error: state === 'error' ? deployment.errorMessage ?? 'Vercel reported a build error' : undefined
+    };
+  }
+
+  private async request<T>(method: string, endpoint: string, body?: unknown): Promise<T> {
+    if (!this.token) throw new Error('Vercel token is required: set VERCEL_TOKEN');
+
+    const url = new URL(endpoint, this.apiUrl);
+    if (this.teamId) url.searchParams.append('teamId', this.teamId);
+
+    const response = await fetch(url, {
+      method,
+      headers: { Authorization: `Bearer ${this.token}`, 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(30_000)
+    });
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as { error?: { message?: string }; message?: string };
+      throw new Error(`Vercel API error: ${error.error?.message || error.message || `${response.status} ${response.statusText}`}`);
+    }
+    const text = response.status === 204 ? '' : await response.text();
+    return (text ? JSON.parse(text) : null) as T;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Pre-deployment checks
+ *
+ * The checks of UTILS/scripts/deploy.ts (Deployment.runChecks): git status,
+ * a dependency lockfile, the test script and the platform's credentials.
+ * Every check runs and reports a result instead of stopping at the first
+ * failure; uncommitted changes are a warning, as in the script.
+ */
+
+import { execFile } from 'child_process';
+import { existsSync, promises as fs } from 'fs';
+import { join } from 'path';
+import { promisify } from 'util';
+import { CheckName, CheckResult } from './types.js';
+
+const run = promisify(execFile);
+
+export const CHECKS: CheckName[] = ['git', 'dependencies', 'tests', 'env'];
+
+const LOCKFILES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb'];
+
+export interface CheckOptions {
+  cwd: string;
+  /** Environment variables the platform needs */
+  requiredEnv: string[];
+  /** Variables passed with the deployment, which also satisfy requiredEnv */
+  env?: Record<string, string>;
+  skip?: CheckName[];
+  /** Default: 10 minutes */
+  testTimeoutMs?: number;
+}
+
+async function readPackageJson(cwd: string): Promise<{ scripts?: Record<string, string> } | null> {
+  const content = await fs.readFile(join(cwd, 'package.json'), 'utf-8').catch(() => null);
+  return content === null ? null : JSON.parse(content);
+}
+
+function tail(output: string, lines = 20): string {
+  return output.trim().split('\n').slice(-lines).join('\n');
+}
+
+async function checkGit(cwd: string): Promise<Omit<CheckResult, 'name'>> {
+  try {
+    const { stdout: status } = await run('git', ['status', '--porcelain'], { cwd });
+    const { stdout: branch } = await run('git', ['branch', '--show-current'], { cwd });
+    const changes = status.split('\n').filter(Boolean).length;
+    const where = branch.trim() ? `on branch ${branch.trim()}` : 'on a detached HEAD';
+    return changes > 0
+      ? { status: 'warn', message: `${changes} uncommitted change${changes === 1 ? '' : 's'} ${where}` }
+      : { status: 'pass', message: `Clean working tree ${where}` };
+  } catch {
+    return { status: 'warn', message: 'Not a git repository, or git is not installed' };
+  }
+}
+
+async function checkDependencies(cwd: string): Promise<Omit<CheckResult, 'name'>> {
+  if (!existsSync(join(cwd, 'package.json'))) return { status: 'skip', message: 'No package.json' };
+  const lockfile = LOCKFILES.find(file => existsSync(join(cwd, file)));
+  return lockfile
+    ? { status: 'pass', message: `Found ${lockfile}` }
+    : { status: 'fail', message: 'No lockfile found. Run npm install, yarn install, or pnpm install.' };
+}
+
+async function checkTests(cwd: string, timeout: number): Promise<Omit<CheckResult, 'name'>> {
+  const packageJson = await readPackageJson(cwd);
+  if (!packageJson) return { status: 'skip', message: 'No package.json' };
+  if (!packageJson.scripts?.test) return { status: 'skip', message: 'No test script' };
+
+  try {
+    // CI=true keeps watch-mode runners such as vitest and jest from waiting for changes
+    await run('npm', ['test'], { cwd, timeout, maxBuffer: 10 * 1024 * 1024, env: { ...process.env, CI: 'true' } });
+    return { status: 'pass', message: 'npm test passed' };
+  } catch (error) {
+    const { stdout = '', stderr = '', killed } = error as { stdout?: string; stderr?: string; killed?: boolean };
+    if (killed) return { status: 'fail', message: `npm test did not finish within ${Math.round(timeout / 1000)}s` };
+    return { status: 'fail', message: `npm test failed:\n${tail(`${stdout}\n${stderr}`)}` };
+  }
+}
+
+function checkEnv(requiredEnv: string[], env: Record<string, string>): Omit<CheckResult, 'name'> {
+  if (requiredEnv.length === 0) return { status: 'pass', message: 'No credentials needed' };
+  const missing = requiredEnv.filter(name => !process.env[name] && !env[name]);
+  return missing.length > 0
+    ? { status: 'fail', message: `Missing required environment variables: ${missing.join(', ')}` }
+    : { status: 'pass', message: `${requiredEnv.join(', ')} set` };
+}
+
+/**
+ * Run every check not in skip, in order
+ */
+export async function runChecks(options: CheckOptions): Promise<CheckResult[]> {
+  const skip = options.skip ?? [];
+  const results: CheckResult[] = [];
+
+  for (const name of CHECKS) {
+    if (skip.includes(name)) {
+      results.push({ name, status: 'skip', message: 'Skipped' });
+      continue;
+    }
+    switch (name) {
+      case 'git':
+        results.push({ name, ...(await checkGit(options.cwd)) });
+        break;
+      case 'dependencies':
+        results.push({ name, ...(await checkDependencies(options.cwd)) });
+        break;
+      case 'tests':
+        results.push({ name, ...(await checkTests(options.cwd, options.testTimeoutMs ?? 10 * 60_000)) });
+        break;
+      case 'env':
+        results.push({ name, ...checkEnv(options.requiredEnv, options.env ?? {}) });
+        break;
+    }
+  }
+  return results;
+}
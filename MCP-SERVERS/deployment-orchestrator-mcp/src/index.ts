@@ -1,19 +1,190 @@
 #!/usr/bin/env node
 /**
- * deployment-orchestrator-mcp - Placeholder implementation
- * TODO: Implement full functionality
+ * deployment-orchestrator-mcp
+ *
+ * Plan, start, poll, roll back and read logs of deployments through
+ * platform adapters (local docker/shell, Vercel, Railway), with the
+ * pre-deployment checks of UTILS/scripts/deploy.ts.
  */
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { PLATFORMS } from './adapters/index.js';
+import { CHECKS } from './checks.js';
+import { DeploymentOrchestrator, ENVIRONMENTS } from './orchestrator.js';
+import { CheckName, DeployRequest, Environment, Platform } from './types.js';
 
 const server = new Server({ name: 'deployment-orchestrator-mcp', version: '1.0.0' }, { capabilities: { tools: {} } });
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
-server.setRequestHandler(CallToolRequestSchema, async (request) => ({
-  content: [{ type: 'text', text: 'Not yet implemented' }]
+const orchestrator = new DeploymentOrchestrator({ stateDir: process.env.DEPLOYMENT_STATE_DIR || '.deployments' });
+
+const TARGET = {
+  project: { type: 'string', description: 'Project name (Vercel project, Docker image name, or label for a shell command)' },
+  environment: { type: 'string', enum: ENVIRONMENTS },
+  platform: { type: 'string', enum: PLATFORMS }
+};
+
+const REQUEST = {
+  ...TARGET,
+  cwd: { type: 'string', description: 'Project directory for checks and local commands (default: server cwd)' },
+  env: { type: 'object', additionalProperties: { type: 'string' }, description: 'Environment variables for the deployment; only their names are stored, so a local rollback needs the values again' },
+  command: { type: 'string', description: 'local: shell command that deploys (sees DEPLOY_ID, DEPLOY_PROJECT, DEPLOY_ENVIRONMENT)' },
+  docker: {
+    type: 'object',
+    description: 'local: build <project>:<id> and run it as <project>-<environment>',
+    properties: {
+      context: { type: 'string' },
+      dockerfile: { type: 'string' },
+      port: { type: 'number' },
+      containerPort: { type: 'number' },
+      registry: { type: 'string' }
+    }
+  },
+  gitSource: {
+    type: 'object',
+    description: 'vercel: repository to build',
+    properties: { type: { type: 'string', enum: ['github', 'gitlab', 'bitbucket'] }, repo: { type: 'string' }, ref: { type: 'string' } }
+  },
+  railway: {
+    type: 'object',
+    description: 'railway: service to deploy (default: RAILWAY_PROJECT_ID, RAILWAY_SERVICE_ID, RAILWAY_ENVIRONMENT_ID)',
+    properties: { projectId: { type: 'string' }, serviceId: { type: 'string' }, environmentId: { type: 'string' } }
+  },
+  skipChecks: { type: 'array', items: { type: 'string', enum: CHECKS }, description: 'Pre-deployment checks to skip' }
+};
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: 'plan_deployment',
+      description: 'Run pre-deployment checks (git, dependencies, tests, credentials) and list the steps a deployment would take',
+      inputSchema: { type: 'object', properties: REQUEST, required: ['platform', 'project', 'environment'] }
+    },
+    {
+      name: 'start_deployment',
+      description: 'Run the checks and start a deployment if none fail; poll it with deployment_status',
+      inputSchema: { type: 'object', properties: REQUEST, required: ['platform', 'project', 'environment'] }
+    },
+    {
+      name: 'deployment_status',
+      description: 'Refresh a deployment from its platform: building, ready, error or canceled',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          wait: { type: 'number', description: 'Keep polling up to this many seconds until the deployment finishes', default: 0 }
+        },
+        required: ['id']
+      }
+    },
+    {
+      name: 'deployment_logs',
+      description: 'Fetch the build and deploy logs of a deployment',
+      inputSchema: {
+        type: 'object',
+        properties: { id: { type: 'string' }, tail: { type: 'number', description: 'Only the last N lines' } },
+        required: ['id']
+      }
+    },
+    {
+      name: 'rollback_deployment',
+      description: 'Make the previous live deployment (or `to`) of a project and environment live again',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...TARGET,
+          to: { type: 'string', description: 'Deployment id to restore' },
+          cwd: REQUEST.cwd,
+          env: REQUEST.env
+        },
+        required: ['project', 'environment']
+      }
+    },
+    {
+      name: 'list_deployments',
+      description: 'List recorded deployments, newest first',
+      inputSchema: {
+        type: 'object',
+        properties: { ...TARGET, limit: { type: 'number', default: 20 } }
+      }
+    }
+  ]
 }));
 
+function deployRequest(args: Record<string, unknown>): DeployRequest {
+  for (const field of ['platform', 'project', 'environment']) {
+    if (typeof args[field] !== 'string') throw new Error(`${field} is required`);
+  }
+  return args as unknown as DeployRequest;
+}
+
+function skipChecks(value: unknown): CheckName[] | undefined {
+  if (value === undefined) return undefined;
+  const unknown = Array.isArray(value) ? value.filter(name => !CHECKS.includes(name)) : [value];
+  if (unknown.length > 0) throw new Error(`Unknown check: ${String(unknown[0])} (expected ${CHECKS.join(', ')})`);
+  return value as CheckName[];
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  try {
+    const { name, arguments: args = {} } = request.params;
+    let result: unknown;
+
+    switch (name) {
+      case 'plan_deployment':
+        result = await orchestrator.plan(deployRequest(args), { skipChecks: skipChecks(args.skipChecks) });
+        break;
+
+      case 'start_deployment':
+        result = await orchestrator.deploy(deployRequest(args), { skipChecks: skipChecks(args.skipChecks) });
+        break;
+
+      case 'deployment_status':
+        if (typeof args.id !== 'string') throw new Error('id is required');
+        result = await orchestrator.status(args.id, typeof args.wait === 'number' ? args.wait * 1000 : 0);
+        break;
+
+      case 'deployment_logs': {
+        if (typeof args.id !== 'string') throw new Error('id is required');
+        const lines = await orchestrator.logs(args.id);
+        result = { id: args.id, lines: typeof args.tail === 'number' ? lines.slice(-args.tail) : lines };
+        break;
+      }
+
+      case 'rollback_deployment':
+        if (typeof args.project !== 'string' || typeof args.environment !== 'string') throw new Error('project and environment are required');
+        result = await orchestrator.rollback({
+          project: args.project,
+          environment: args.environment as Environment,
+          platform: args.platform as Platform | undefined,
+          to: args.to as string | undefined,
+          cwd: args.cwd as string | undefined,
+          env: args.env as Record<string, string> | undefined
+        });
+        break;
+
+      case 'list_deployments':
+        result = await orchestrator.list({
+          project: args.project as string | undefined,
+          environment: args.environment as Environment | undefined,
+          platform: args.platform as Platform | undefined,
+          limit: typeof args.limit === 'number' ? args.limit : 20
+        });
+        break;
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true
+    };
+  }
+});
+
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
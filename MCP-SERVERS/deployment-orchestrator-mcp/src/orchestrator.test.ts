@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalAdapter } from './adapters/index.js';
+import { runChecks } from './checks.js';
+import { DeploymentOrchestrator } from './orchestrator.js';
+import { DeployRequest } from './types.js';
+
+// Records which deployment is "live" the way a real deploy script would
+const DEPLOY = 'echo "deploying $DEPLOY_ID" && echo "$DEPLOY_ID" > live.txt && echo "Live at http://localhost:4000/$DEPLOY_ENVIRONMENT"';
+
+describe('Pre-deployment checks', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'deploy-checks-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should report every check instead of stopping at the first failure', async () => {
+    await fs.writeFile(join(dir, 'package.json'), JSON.stringify({ scripts: { test: 'echo "1 test failed" && exit 1' } }));
+
+    const checks = await runChecks({ cwd: dir, requiredEnv: ['DEPLOY_CHECKS_TEST_TOKEN'] });
+    expect(checks.map(c => [c.name, c.status])).toEqual([
+      ['git', 'warn'],
+      ['dependencies', 'fail'],
+      ['tests', 'fail'],
+      ['env', 'fail']
+    ]);
+    expect(checks[1].message).toBe('No lockfile found. Run npm install, yarn install, or pnpm install.');
+    expect(checks[2].message).toContain('1 test failed');
+    expect(checks[3].message).toBe('Missing required environment variables: DEPLOY_CHECKS_TEST_TOKEN');
+  });
+
+  it('should pass with a lockfile, passing tests and credentials, and warn about uncommitted changes', async () => {
+    await fs.writeFile(join(dir, 'package.json'), JSON.stringify({ scripts: { test: 'node -e ""' } }));
+    await fs.writeFile(join(dir, 'package-lock.json'), '{}');
+    execFileSync('git', ['init', '-q'], { cwd: dir });
+
+    const checks = await runChecks({ cwd: dir, requiredEnv: ['DEPLOY_CHECKS_TEST_TOKEN'], env: { DEPLOY_CHECKS_TEST_TOKEN: 'x' } });
+    expect(checks).toEqual([
+      { name: 'git', status: 'warn', message: expect.stringMatching(/^2 uncommitted changes on branch \S+$/) },
+      { name: 'dependencies', status: 'pass', message: 'Found package-lock.json' },
+      { name: 'tests', status: 'pass', message: 'npm test passed' },
+      { name: 'env', status: 'pass', message: 'DEPLOY_CHECKS_TEST_TOKEN set' }
+    ]);
+
+    expect((await runChecks({ cwd: dir, requiredEnv: [], skip: ['tests'] }))[2]).toEqual({ name: 'tests', status: 'skip', message: 'Skipped' });
+  });
+});
+
+describe('Local deployments', () => {
+  let dir: string;
+  let orchestrator: DeploymentOrchestrator;
+  let request: DeployRequest;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'deploy-local-'));
+    orchestrator = new DeploymentOrchestrator({ stateDir: join(dir, '.deployments'), pollIntervalMs: 20 });
+    request = { platform: 'local', project: 'web', environment: 'staging', cwd: dir, command: DEPLOY };
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function deploy(overrides: Partial<DeployRequest> = {}) {
+    const { deployment } = await orchestrator.deploy({ ...request, ...overrides });
+    return orchestrator.status(deployment.id, 5000);
+  }
+
+  async function live(): Promise<string> {
+    return (await fs.readFile(join(dir, 'live.txt'), 'utf-8')).trim();
+  }
+
+  it('should run a shell command, poll it and keep its logs', async () => {
+    const plan = await orchestrator.plan(request);
+    expect(plan).toMatchObject({ ready: true, steps: [DEPLOY] });
+
+    const { deployment, checks } = await orchestrator.deploy(request);
+    expect(deployment).toMatchObject({ platform: 'local', project: 'web', environment: 'staging', state: 'building' });
+    expect(checks.map(c => c.status)).toEqual(['warn', 'skip', 'skip', 'pass']);
+
+    const done = await orchestrator.status(deployment.id, 5000);
+    expect(done).toMatchObject({ state: 'ready', url: 'http://localhost:4000/staging' });
+    expect(await live()).toBe(deployment.id);
+    expect(await orchestrator.logs(deployment.id)).toEqual([`$ ${DEPLOY}`, `deploying ${deployment.id}`, 'Live at http://localhost:4000/staging']);
+    expect((await orchestrator.list({ project: 'web' })).map(d => d.state)).toEqual(['ready']);
+  });
+
+  it('should report failing commands with their output', async () => {
+    const failed = await deploy({ command: 'echo "port 4000 in use" >&2; exit 3' });
+    expect(failed).toMatchObject({ state: 'error', error: 'Step failed with exit code 3: echo "port 4000 in use" >&2; exit 3' });
+    expect(await orchestrator.logs(failed.id)).toContain('port 4000 in use');
+  });
+
+  it('should refuse to deploy when a check fails', async () => {
+    await fs.writeFile(join(dir, 'package.json'), '{}');
+    await expect(orchestrator.deploy(request)).rejects.toThrow(
+      'Pre-deployment checks failed:\n- dependencies: No lockfile found. Run npm install, yarn install, or pnpm install.'
+    );
+    expect(await orchestrator.list()).toEqual([]);
+
+    const { deployment } = await orchestrator.deploy(request, { skipChecks: ['dependencies'] });
+    expect(deployment.state).toBe('building');
+    await orchestrator.status(deployment.id, 5000);
+  });
+
+  it('should roll back to the previous deployment, step by step', async () => {
+    const a = await deploy();
+    const b = await deploy();
+    const c = await deploy();
+    await deploy({ command: 'exit 1' });
+    expect(await live()).toBe(c.id);
+
+    const first = await orchestrator.rollback({ project: 'web', environment: 'staging' });
+    expect(first).toMatchObject({ rollbackOf: b.id, state: 'building', url: 'http://localhost:4000/staging' });
+    expect(await orchestrator.status(first.id, 5000)).toMatchObject({ state: 'ready' });
+    expect(await live()).toBe(b.id);
+
+    await orchestrator.status((await orchestrator.rollback({ project: 'web', environment: 'staging' })).id, 5000);
+    expect(await live()).toBe(a.id);
+    await expect(orchestrator.rollback({ project: 'web', environment: 'staging' })).rejects.toThrow(
+      'No earlier ready deployment of web (staging) to roll back to'
+    );
+
+    await expect(orchestrator.rollback({ project: 'web', environment: 'staging', to: a.id })).rejects.toThrow(`Deployment ${a.id} is already live`);
+    await orchestrator.status((await orchestrator.rollback({ project: 'web', environment: 'staging', to: c.id })).id, 5000);
+    expect(await live()).toBe(c.id);
+    await expect(orchestrator.rollback({ project: 'web', environment: 'production' })).rejects.toThrow('No live deployment of web (production) to roll back');
+  });
+
+  it('should require the env values of the deployment a rollback restores', async () => {
+    const greet = { command: 'echo "$GREETING" > greeting.txt' };
+    await deploy({ ...greet, env: { GREETING: 'hello' } });
+    await deploy({ ...greet, env: { GREETING: 'bye' } });
+    expect(await fs.readFile(join(dir, '.deployments', 'deployments.json'), 'utf-8')).not.toContain('hello');
+
+    await expect(orchestrator.rollback({ project: 'web', environment: 'staging' })).rejects.toThrow(
+      /^Rolling back to dep-\S+ needs the env values it was deployed with: GREETING$/
+    );
+    await orchestrator.status((await orchestrator.rollback({ project: 'web', environment: 'staging', env: { GREETING: 'hello' } })).id, 5000);
+    expect((await fs.readFile(join(dir, 'greeting.txt'), 'utf-8')).trim()).toBe('hello');
+  });
+
+  it('should fail a deployment whose log cannot be written', async () => {
+    const adapter = new LocalAdapter(join(dir, 'logs'));
+    await fs.mkdir(join(dir, 'logs', 'dep-1.log'), { recursive: true });
+
+    await expect(adapter.deploy(request, 'dep-1')).rejects.toThrow(`Cannot write the deployment log ${join(dir, 'logs', 'dep-1.log')}`);
+  });
+
+  it('should mark deployments interrupted by a restart as failed', async () => {
+    const { deployment } = await orchestrator.deploy({ ...request, command: 'sleep 1' });
+    const restarted = new DeploymentOrchestrator({ stateDir: join(dir, '.deployments') });
+
+    expect(await restarted.status(deployment.id)).toMatchObject({
+      state: 'error',
+      error: 'Interrupted: the server stopped while this deployment was running'
+    });
+    await expect(restarted.status('dep-missing')).rejects.toThrow('Unknown deployment: dep-missing');
+    await orchestrator.status(deployment.id, 5000);
+  });
+
+  it('should plan Docker builds and releases', () => {
+    const adapter = new LocalAdapter(join(dir, 'logs'));
+    const docker: DeployRequest = { ...request, command: undefined, docker: { port: 8080, containerPort: 3000, registry: 'ghcr.io/acme/' }, env: { API_KEY: 'secret' } };
+
+    expect(adapter.plan(docker)).toEqual([
+      'docker build -t ghcr.io/acme/web:<id> .',
+      'docker push ghcr.io/acme/web:<id>',
+      'docker rm -f web-staging',
+      'docker run -d --name web-staging --restart unless-stopped -p 8080:3000 -e API_KEY ghcr.io/acme/web:<id>'
+    ]);
+    expect(() => adapter.plan({ ...docker, project: 'Web' })).toThrow('Docker image names must be lowercase');
+    expect(() => adapter.plan({ ...docker, command: 'make deploy' })).toThrow('Pass either command or docker');
+    expect(() => adapter.plan({ ...request, command: undefined })).toThrow('Local deployments need a command or docker options');
+  });
+});
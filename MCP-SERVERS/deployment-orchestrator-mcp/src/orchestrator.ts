@@ -0,0 +1,251 @@
+/**
+ * Plans, starts, polls and rolls back deployments on any platform adapter
+ */
+
+import { randomBytes } from 'crypto';
+import { join, resolve } from 'path';
+import { AdapterDeployment, defaultAdapters, PlatformAdapter } from './adapters/index.js';
+import { runChecks } from './checks.js';
+import { DeploymentStore } from './store.js';
+import {
+  CheckName,
+  CheckResult,
+  DeploymentPlan,
+  DeploymentRecord,
+  DeployRequest,
+  Environment,
+  Platform,
+  TERMINAL_STATES
+} from './types.js';
+
+export const ENVIRONMENTS: Environment[] = ['development', 'staging', 'production'];
+
+export interface OrchestratorOptions {
+  /** Holds deployments.json and local deployment logs */
+  stateDir: string;
+  adapters?: PlatformAdapter[];
+  /** Delay between status polls while waiting (default: 2000) */
+  pollIntervalMs?: number;
+  /** Passed to the tests check */
+  testTimeoutMs?: number;
+}
+
+export interface StartOptions {
+  skipChecks?: CheckName[];
+}
+
+export interface RollbackRequest {
+  project: string;
+  environment: Environment;
+  platform?: Platform;
+  /** Deployment to restore (default: the one before the live deployment) */
+  to?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+export interface ListFilter {
+  project?: string;
+  environment?: Environment;
+  platform?: Platform;
+  limit?: number;
+}
+
+function newId(): string {
+  return `dep-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+}
+
+function describeFailures(checks: CheckResult[]): string {
+  return checks
+    .filter(check => check.status === 'fail')
+    .map(check => `- ${check.name}: ${check.message}`)
+    .join('\n');
+}
+
+export class DeploymentOrchestrator {
+  readonly store: DeploymentStore;
+  private readonly adapters = new Map<Platform, PlatformAdapter>();
+  private readonly pollIntervalMs: number;
+  private readonly testTimeoutMs?: number;
+
+  constructor(options: OrchestratorOptions) {
+    const stateDir = resolve(options.stateDir);
+    this.store = new DeploymentStore(join(stateDir, 'deployments.json'));
+    for (const adapter of options.adapters ?? defaultAdapters(join(stateDir, 'logs'))) {
+      this.adapters.set(adapter.platform, adapter);
+    }
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.testTimeoutMs = options.testTimeoutMs;
+  }
+
+  /**
+   * Run the pre-deployment checks and list the steps a deployment would take
+   */
+  async plan(request: DeployRequest, options: StartOptions = {}): Promise<DeploymentPlan> {
+    const adapter = this.validate(request);
+    const steps = adapter.plan(request);
+    const checks = await runChecks({
+      cwd: resolve(request.cwd ?? process.cwd()),
+      requiredEnv: adapter.requiredEnv,
+      env: request.env,
+      skip: options.skipChecks,
+      testTimeoutMs: this.testTimeoutMs
+    });
+    return {
+      platform: request.platform,
+      project: request.project,
+      environment: request.environment,
+      checks,
+      ready: !checks.some(check => check.status === 'fail'),
+      steps
+    };
+  }
+
+  /**
+   * Start a deployment if every check passes; poll it with status()
+   */
+  async deploy(request: DeployRequest, options: StartOptions = {}): Promise<{ deployment: DeploymentRecord; checks: CheckResult[] }> {
+    const plan = await this.plan(request, options);
+    if (!plan.ready) {
+      throw new Error(`Pre-deployment checks failed:\n${describeFailures(plan.checks)}`);
+    }
+
+    const id = newId();
+    const started = await this.adapter(request.platform).deploy(request, id);
+    const deployment = this.record(id, request.platform, request.project, request.environment, started);
+    await this.store.save(deployment);
+    return { deployment, checks: plan.checks };
+  }
+
+  /**
+   * Refresh a deployment from its platform, optionally waiting until it
+   * finishes or waitMs passes
+   */
+  async status(id: string, waitMs = 0): Promise<DeploymentRecord> {
+    let record = await this.get(id);
+    const deadline = Date.now() + waitMs;
+
+    while (!TERMINAL_STATES.includes(record.state)) {
+      record = await this.refresh(record);
+      if (TERMINAL_STATES.includes(record.state) || Date.now() + this.pollIntervalMs > deadline) break;
+      await new Promise(done => setTimeout(done, this.pollIntervalMs));
+    }
+    return record;
+  }
+
+  async logs(id: string): Promise<string[]> {
+    const record = await this.get(id);
+    return this.adapter(record.platform).logs(record);
+  }
+
+  /**
+   * Make an earlier deployment live again. Without `to`, restores the
+   * deployment that was live before the current one; repeated rollbacks
+   * keep stepping back.
+   */
+  async rollback(request: RollbackRequest): Promise<DeploymentRecord> {
+    const history = (await this.store.all()).filter(
+      record =>
+        record.project === request.project &&
+        record.environment === request.environment &&
+        (!request.platform || record.platform === request.platform)
+    );
+    for (const record of history) {
+      if (!TERMINAL_STATES.includes(record.state)) await this.refresh(record);
+    }
+
+    const refreshed = (await this.store.all()).filter(record => history.some(h => h.id === record.id));
+    const ready = refreshed.filter(record => record.state === 'ready');
+    const current = ready[ready.length - 1];
+    if (!current) {
+      throw new Error(`No live deployment of ${request.project} (${request.environment}) to roll back`);
+    }
+    const live = current.rollbackOf ?? current.id;
+
+    let target: DeploymentRecord | undefined;
+    if (request.to) {
+      target = refreshed.find(record => record.id === request.to);
+      if (!target) throw new Error(`Unknown deployment of ${request.project} (${request.environment}): ${request.to}`);
+      if (target.rollbackOf) target = refreshed.find(record => record.id === target!.rollbackOf);
+      if (!target || target.state !== 'ready') throw new Error(`Deployment ${request.to} never became ready and cannot be restored`);
+      if (target.id === live) throw new Error(`Deployment ${target.id} is already live`);
+    } else {
+      const releases = ready.filter(record => !record.rollbackOf && record.platform === current.platform);
+      target = releases[releases.findIndex(record => record.id === live) - 1];
+      if (!target) throw new Error(`No earlier ready deployment of ${request.project} (${request.environment}) to roll back to`);
+    }
+
+    const id = newId();
+    const restored = await this.adapter(target.platform).rollback(target, id, { cwd: request.cwd, env: request.env });
+    const deployment = { ...this.record(id, target.platform, target.project, target.environment, restored), rollbackOf: target.id };
+    await this.store.save(deployment);
+    return deployment;
+  }
+
+  /** Deployments newest first */
+  async list(filter: ListFilter = {}): Promise<DeploymentRecord[]> {
+    const records = (await this.store.all())
+      .filter(
+        record =>
+          (!filter.project || record.project === filter.project) &&
+          (!filter.environment || record.environment === filter.environment) &&
+          (!filter.platform || record.platform === filter.platform)
+      )
+      .reverse();
+    return filter.limit ? records.slice(0, filter.limit) : records;
+  }
+
+  private adapter(platform: Platform): PlatformAdapter {
+    const adapter = this.adapters.get(platform);
+    if (!adapter) throw new Error(`Unknown platform: ${platform} (expected ${[...this.adapters.keys()].join(', ')})`);
+    return adapter;
+  }
+
+  private validate(request: DeployRequest): PlatformAdapter {
+    if (!request.project) throw new Error('project is required');
+    if (!ENVIRONMENTS.includes(request.environment)) {
+      throw new Error(`Unknown environment: ${request.environment} (expected ${ENVIRONMENTS.join(', ')})`);
+    }
+    return this.adapter(request.platform);
+  }
+
+  private async get(id: string): Promise<DeploymentRecord> {
+    const record = await this.store.get(id);
+    if (!record) throw new Error(`Unknown deployment: ${id}`);
+    return record;
+  }
+
+  private async refresh(record: DeploymentRecord): Promise<DeploymentRecord> {
+    const polled = await this.adapter(record.platform).status(record);
+    const updated: DeploymentRecord = {
+      ...record,
+      state: polled.state,
+      url: polled.url ?? record.url,
+      error: polled.error,
+      updatedAt: new Date().toISOString()
+    };
+    if (!updated.error) delete updated.error;
+    await this.store.save(updated);
+    return updated;
+  }
+
+  private record(id: string, platform: Platform, project: string, environment: Environment, started: AdapterDeployment): DeploymentRecord {
+    const now = new Date().toISOString();
+    const record: DeploymentRecord = {
+      id,
+      platform,
+      project,
+      environment,
+      state: started.state,
+      providerId: started.providerId,
+      url: started.url,
+      error: started.error,
+      createdAt: now,
+      updatedAt: now,
+      details: started.details ?? {}
+    };
+    if (!record.url) delete record.url;
+    if (!record.error) delete record.error;
+    return record;
+  }
+}
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RailwayAdapter, VercelAdapter } from './adapters/index.js';
+import { DeploymentOrchestrator } from './orchestrator.js';
+import { DeploymentRecord } from './types.js';
+
+interface Call {
+  method: string;
+  path: string;
+  auth?: string;
+  body?: any;
+}
+
+/**
+ * Stand-in for the Vercel REST API and Railway GraphQL API: deployments
+ * report BUILDING on the first poll and finish on the second
+ */
+class FakePlatform {
+  calls: Call[] = [];
+  polls = new Map<string, number>();
+  finalState = new Map<string, string>();
+  private server!: Server;
+  private count = 0;
+
+  url = '';
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>(done => this.server.listen(0, '127.0.0.1', done));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(done => this.server.close(() => done()));
+  }
+
+  reset(): void {
+    this.calls = [];
+    this.polls.clear();
+    this.finalState.clear();
+    this.count = 0;
+  }
+
+  private poll(id: string, building: string, done: string): string {
+    const polls = (this.polls.get(id) ?? 0) + 1;
+    this.polls.set(id, polls);
+    return polls < 2 ? building : this.finalState.get(id) ?? done;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let raw = '';
+    for await (const chunk of req) raw += chunk;
+    const path = req.url ?? '';
+    const body = raw ? JSON.parse(raw) : undefined;
+    this.calls.push({ method: req.method ?? '', path, auth: req.headers.authorization, body });
+
+    const send = (status: number, payload?: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(payload === undefined ? '' : JSON.stringify(payload));
+    };
+
+    if (req.headers.authorization !== 'Bearer test-token') {
+      return path === '/graphql' ? send(401, { message: 'Not Authorized' }) : send(403, { error: { message: 'Not authorized' } });
+    }
+
+    if (path === '/graphql') {
+      const { query, variables } = body;
+      if (query.includes('variableUpsert')) return send(200, { data: { variableUpsert: true } });
+      if (query.includes('serviceInstanceDeploy')) return send(200, { data: { serviceInstanceDeploy: { id: `rw_${++this.count}`, status: 'BUILDING' } } });
+      if (query.includes('deploymentLogs')) return send(200, { data: { deploymentLogs: { logs: ['npm run build', 'Listening on 3000'] } } });
+      if (query.includes('deploymentRollback')) return send(200, { data: { deploymentRollback: true } });
+      if (query.includes('deployment(')) {
+        const id = variables.deploymentId;
+        if (id === 'rw_missing') return send(200, { errors: [{ message: 'Deployment not found' }] });
+        return send(200, { data: { deployment: { id, status: this.poll(id, 'DEPLOYING', 'SUCCESS'), url: `${id}.up.railway.app` } } });
+      }
+      return send(400, { message: 'Unknown query' });
+    }
+
+    const promote = path.match(/^\/v10\/projects\/([^/]+)\/promote\/([^/?]+)/);
+    if (req.method === 'POST' && promote) return send(201);
+    if (req.method === 'POST' && path.startsWith('/v13/deployments')) {
+      const id = `dpl_${++this.count}`;
+      return send(200, { id, url: `${body.name}-${this.count}.vercel.app`, readyState: 'QUEUED' });
+    }
+    const events = path.match(/^\/v2\/deployments\/([^/?]+)\/events/);
+    if (events) return send(200, [{ type: 'command', text: 'Cloning github.com/acme/web' }, { type: 'delimiter' }, { type: 'stdout', text: 'Build completed' }]);
+    const deployment = path.match(/^\/v13\/deployments\/([^/?]+)/);
+    if (deployment) {
+      const id = deployment[1];
+      const state = this.poll(id, 'BUILDING', 'READY');
+      return send(200, { id, url: `web-${id}.vercel.app`, readyState: state, ...(state === 'ERROR' ? { errorMessage: 'Command "npm run build" exited with 1' } : {}) });
+    }
+    send(404, { error: { message: `No route for ${req.method} ${path}` } });
+  }
+}
+
+const platform = new FakePlatform();
+
+beforeAll(() => platform.start());
+afterAll(() => platform.stop());
+
+describe('Vercel and Railway adapters', () => {
+  let dir: string;
+  let orchestrator: DeploymentOrchestrator;
+
+  beforeEach(async () => {
+    platform.reset();
+    dir = await fs.mkdtemp(join(tmpdir(), 'deploy-platforms-'));
+    orchestrator = new DeploymentOrchestrator({
+      stateDir: join(dir, '.deployments'),
+      pollIntervalMs: 10,
+      adapters: [
+        new VercelAdapter({ token: 'test-token', teamId: 'team_1', apiUrl: platform.url }),
+        new RailwayAdapter({ token: 'test-token', apiUrl: `${platform.url}/graphql` })
+      ]
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const vercel = {
+    platform: 'vercel' as const,
+    project: 'web',
+    environment: 'production' as const,
+    cwd: '',
+    gitSource: { type: 'github' as const, repo: 'acme/web', ref: 'main' }
+  };
+
+  it('should deploy to Vercel, poll until ready and fetch logs', async () => {
+    const request = { ...vercel, cwd: dir, env: { API_URL: 'https://api.acme.dev' } };
+    expect((await orchestrator.plan(request)).steps).toEqual([
+      'POST /v13/deployments: web from github:acme/web@main as production with API_URL',
+      'GET /v13/deployments/<id> until READY or ERROR'
+    ]);
+
+    const { deployment } = await orchestrator.deploy(request);
+    expect(deployment).toMatchObject({ platform: 'vercel', providerId: 'dpl_1', state: 'building', url: 'https://web-1.vercel.app' });
+    expect(platform.calls[0]).toEqual({
+      method: 'POST',
+      path: '/v13/deployments?teamId=team_1',
+      auth: 'Bearer test-token',
+      body: { name: 'web', target: 'production', gitSource: vercel.gitSource, env: { API_URL: 'https://api.acme.dev' } }
+    });
+
+    const ready = await orchestrator.status(deployment.id, 2000);
+    expect(ready).toMatchObject({ state: 'ready', url: 'https://web-dpl_1.vercel.app' });
+    expect(platform.polls.get('dpl_1')).toBe(2);
+    expect(await orchestrator.logs(deployment.id)).toEqual(['Cloning github.com/acme/web', 'Build completed']);
+  });
+
+  it('should report Vercel build errors and roll back by promoting the previous deployment', async () => {
+    const deploy = async (): Promise<DeploymentRecord> => {
+      const { deployment } = await orchestrator.deploy({ ...vercel, cwd: dir });
+      return orchestrator.status(deployment.id, 2000);
+    };
+    const first = await deploy();
+    await deploy();
+    platform.finalState.set('dpl_3', 'ERROR');
+    expect(await deploy()).toMatchObject({ state: 'error', error: 'Command "npm run build" exited with 1' });
+
+    const rollback = await orchestrator.rollback({ project: 'web', environment: 'production' });
+    expect(platform.calls.some(c => c.method === 'POST' && c.path === '/v10/projects/web/promote/dpl_1?teamId=team_1')).toBe(true);
+    expect(rollback).toMatchObject({ platform: 'vercel', providerId: 'dpl_1', rollbackOf: first.id, state: 'ready' });
+
+    const adapter = new VercelAdapter({ token: 'test-token', apiUrl: platform.url });
+    await expect(adapter.rollback({ ...first, environment: 'staging' })).rejects.toThrow('Vercel can only roll back production');
+  });
+
+  it('should explain missing Vercel settings and API errors', async () => {
+    await expect(orchestrator.plan({ ...vercel, cwd: dir, gitSource: undefined })).rejects.toThrow('Vercel deployments need gitSource');
+
+    const unauthorized = new DeploymentOrchestrator({
+      stateDir: join(dir, '.deployments'),
+      adapters: [new VercelAdapter({ token: 'wrong', apiUrl: platform.url })]
+    });
+    await expect(unauthorized.deploy({ ...vercel, cwd: dir })).rejects.toThrow('Vercel API error: Not authorized');
+
+    const previous = process.env.VERCEL_TOKEN;
+    delete process.env.VERCEL_TOKEN;
+    try {
+      const withoutToken = new DeploymentOrchestrator({ stateDir: join(dir, '.deployments'), adapters: [new VercelAdapter({ apiUrl: platform.url })] });
+      await expect(withoutToken.deploy({ ...vercel, cwd: dir })).rejects.toThrow('- env: Missing required environment variables: VERCEL_TOKEN');
+    } finally {
+      if (previous !== undefined) process.env.VERCEL_TOKEN = previous;
+    }
+  });
+
+  it('should deploy to Railway with variables, poll, fetch logs and roll back', async () => {
+    const railway = { projectId: 'proj_1', serviceId: 'svc_1', environmentId: 'env_1' };
+    const request = { platform: 'railway' as const, project: 'api', environment: 'staging' as const, cwd: dir, railway, env: { LOG_LEVEL: 'debug' } };
+
+    expect((await orchestrator.plan(request)).steps).toEqual([
+      'variableUpsert LOG_LEVEL in environment env_1',
+      'serviceInstanceDeploy service svc_1 in environment env_1',
+      'deployment(<id>) until SUCCESS, FAILED or CRASHED'
+    ]);
+
+    const { deployment } = await orchestrator.deploy(request);
+    expect(platform.calls.map(c => c.body.variables)).toEqual([
+      { input: { projectId: 'proj_1', environmentId: 'env_1', serviceId: 'svc_1', name: 'LOG_LEVEL', value: 'debug' } },
+      { input: { serviceId: 'svc_1', environmentId: 'env_1' } }
+    ]);
+    expect(await orchestrator.status(deployment.id, 2000)).toMatchObject({ state: 'ready', url: 'https://rw_1.up.railway.app' });
+    expect(await orchestrator.logs(deployment.id)).toEqual(['npm run build', 'Listening on 3000']);
+
+    const second = (await orchestrator.deploy(request)).deployment;
+    platform.finalState.set('rw_2', 'CRASHED');
+    expect(await orchestrator.status(second.id, 2000)).toMatchObject({ state: 'error', error: 'Railway deployment crashed' });
+
+    // rw_2 crashed, so rw_1 is still live and there is nothing earlier to restore
+    await expect(orchestrator.rollback({ project: 'api', environment: 'staging' })).rejects.toThrow('No earlier ready deployment');
+
+    const third = (await orchestrator.deploy(request)).deployment;
+    await orchestrator.status(third.id, 2000);
+    const rollback = await orchestrator.rollback({ project: 'api', environment: 'staging', platform: 'railway' });
+    expect(platform.calls.at(-2)?.body.variables).toEqual({ id: 'rw_1' });
+    expect(rollback).toMatchObject({ providerId: 'rw_1', rollbackOf: deployment.id, state: 'ready' });
+  });
+
+  it('should explain missing Railway settings and GraphQL errors', async () => {
+    await expect(orchestrator.plan({ platform: 'railway', project: 'api', environment: 'staging', cwd: dir })).rejects.toThrow(
+      'Railway deployments need railway: { projectId, serviceId, environmentId }'
+    );
+
+    const adapter = new RailwayAdapter({ token: 'test-token', apiUrl: `${platform.url}/graphql` });
+    const record = { providerId: 'rw_missing' } as DeploymentRecord;
+    await expect(adapter.status(record)).rejects.toThrow('Railway API error: Deployment not found');
+    await expect(new RailwayAdapter({ token: 'wrong', apiUrl: `${platform.url}/graphql` }).status(record)).rejects.toThrow(
+      'Railway API error: Not Authorized'
+    );
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Deployment history in a JSON file
+ *
+ * Records are kept in the order they were started, so the history survives
+ * server restarts and rollbacks can find the previous live deployment.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { DeploymentRecord } from './types.js';
+
+interface StoreFile {
+  deployments: DeploymentRecord[];
+}
+
+export class DeploymentStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly file: string) {}
+
+  /** All records, oldest first */
+  async all(): Promise<DeploymentRecord[]> {
+    const content = await fs.readFile(this.file, 'utf-8').catch(() => null);
+    if (content === null) return [];
+    try {
+      return (JSON.parse(content) as StoreFile).deployments ?? [];
+    } catch {
+      throw new Error(`Deployment history is not valid JSON: ${this.file}`);
+    }
+  }
+
+  async get(id: string): Promise<DeploymentRecord | undefined> {
+    return (await this.all()).find(record => record.id === id);
+  }
+
+  /** Insert a record or replace the one with the same id */
+  save(record: DeploymentRecord): Promise<void> {
+    const write = this.writes.then(async () => {
+      const deployments = await this.all();
+      const index = deployments.findIndex(existing => existing.id === record.id);
+      if (index === -1) deployments.push(record);
+      else deployments[index] = record;
+
+      await fs.mkdir(dirname(this.file), { recursive: true });
+      const temp = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify({ deployments }, null, 2) + '\n');
+      await fs.rename(temp, this.file);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Shared types for deployment-orchestrator-mcp
+ */
+
+export type Platform = 'local' | 'vercel' | 'railway';
+export type Environment = 'development' | 'staging' | 'production';
+
+/** Normalized lifecycle of a deployment on any platform */
+export type DeploymentState = 'building' | 'ready' | 'error' | 'canceled';
+
+export const TERMINAL_STATES: DeploymentState[] = ['ready', 'error', 'canceled'];
+
+export interface DockerOptions {
+  /** Build context, relative to cwd (default: .) */
+  context?: string;
+  dockerfile?: string;
+  /** Host port to publish; also used for the deployment URL */
+  port?: number;
+  /** Container port (default: same as port) */
+  containerPort?: number;
+  /** Push images to this registry, e.g. ghcr.io/acme */
+  registry?: string;
+}
+
+export interface GitSource {
+  type: 'github' | 'gitlab' | 'bitbucket';
+  repo: string;
+  ref?: string;
+}
+
+export interface RailwayTarget {
+  projectId: string;
+  serviceId: string;
+  environmentId: string;
+}
+
+export interface DeployRequest {
+  platform: Platform;
+  project: string;
+  environment: Environment;
+  /** Project directory for checks and local commands (default: process cwd) */
+  cwd?: string;
+  /** Environment variables passed to the deployment; never persisted */
+  env?: Record<string, string>;
+  /** local: shell command that deploys the project */
+  command?: string;
+  /** local: build and run a Docker image instead of a command */
+  docker?: DockerOptions;
+  /** vercel: repository to build */
+  gitSource?: GitSource;
+  /** railway: service to deploy (default: RAILWAY_PROJECT_ID, RAILWAY_SERVICE_ID, RAILWAY_ENVIRONMENT_ID) */
+  railway?: RailwayTarget;
+}
+
+export type CheckName = 'git' | 'dependencies' | 'tests' | 'env';
+
+export interface CheckResult {
+  name: CheckName;
+  status: 'pass' | 'warn' | 'fail' | 'skip';
+  message: string;
+}
+
+export interface DeploymentRecord {
+  id: string;
+  platform: Platform;
+  project: string;
+  environment: Environment;
+  state: DeploymentState;
+  /** The platform's own id for the deployment */
+  providerId: string;
+  url?: string;
+  error?: string;
+  /** Id of the earlier deployment this one restored */
+  rollbackOf?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Adapter data needed to poll or restore the deployment later */
+  details: Record<string, unknown>;
+}
+
+export interface DeploymentPlan {
+  platform: Platform;
+  project: string;
+  environment: Environment;
+  checks: CheckResult[];
+  /** Whether start_deployment would proceed (no failed checks) */
+  ready: boolean;
+  steps: string[];
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { diffTokens } from './diff.js';
+import { parseTokens } from './tokens.js';
+
+const parse = (data: unknown) => parseTokens([{ file: 'tokens.json', data }]);
+
+describe('diffTokens', () => {
+  it('should report removed, renamed and retyped tokens as breaking', () => {
+    const baseline = parse({
+      color: {
+        $type: 'color',
+        blue: { $value: '#2563eb' },
+        brand: { $value: '{color.blue}' },
+        danger: { $value: '#dc2626' }
+      },
+      size: { gutter: { $type: 'dimension', $value: '16px' } }
+    });
+    const current = parse({
+      color: {
+        $type: 'color',
+        blue: { $value: '#2563eb' },
+        primary: { $value: '{color.blue}' }
+      },
+      size: { gutter: { $type: 'number', $value: 16 } }
+    });
+
+    const diff = diffTokens(baseline, current);
+    expect(diff.breaking).toEqual([
+      { kind: 'renamed', token: 'color.brand', renamedTo: 'color.primary', message: 'Renamed to color.primary' },
+      { kind: 'removed', token: 'color.danger', message: 'Removed' },
+      {
+        kind: 'type-changed',
+        token: 'size.gutter',
+        from: 'dimension',
+        to: 'number',
+        message: 'Type changed from dimension to number'
+      }
+    ]);
+    expect(diff.changes).toEqual([]);
+    expect(diff.summary).toEqual({ baseline: 4, current: 3, added: 0, removed: 2, changed: 0, breaking: 3 });
+  });
+
+  it('should report additions, value and alias changes and deprecations as non-breaking', () => {
+    const baseline = parse({
+      color: {
+        $type: 'color',
+        blue: { $value: '#2563eb' },
+        navy: { $value: '#2563eb' },
+        link: { $value: '{color.blue}' },
+        text: { $value: '#111827' }
+      }
+    });
+    const current = parse({
+      color: {
+        $type: 'color',
+        blue: { $value: '#3b82f6', $deprecated: 'Use color.navy' },
+        navy: { $value: '#2563eb' },
+        link: { $value: '{color.navy}' },
+        text: { $value: '#111827' },
+        surface: { $value: '#ffffff' }
+      }
+    });
+
+    const diff = diffTokens(baseline, current);
+    expect(diff.breaking).toEqual([]);
+    expect(diff.changes).toEqual([
+      { kind: 'added', token: 'color.surface', after: '#ffffff', message: 'Added' },
+      {
+        kind: 'value-changed',
+        token: 'color.blue',
+        before: '#2563eb',
+        after: '#3b82f6',
+        message: 'Value changed from #2563eb to #3b82f6'
+      },
+      { kind: 'deprecated', token: 'color.blue', message: 'Deprecated: Use color.navy' },
+      {
+        kind: 'alias-changed',
+        token: 'color.link',
+        before: '{color.blue}',
+        after: '{color.navy}',
+        message: 'Now {color.navy} instead of {color.blue}, same value'
+      }
+    ]);
+    expect(diff.summary).toMatchObject({ added: 1, removed: 0, changed: 1, breaking: 0 });
+  });
+});
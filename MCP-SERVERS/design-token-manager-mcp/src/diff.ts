@@ -0,0 +1,135 @@
+/**
+ * Compare two token sets
+ *
+ * Removing a token or changing its type breaks code that references it;
+ * new tokens, value changes and deprecations do not.
+ */
+
+import { cssValue } from './values.js';
+import { DesignToken, TokenSet, TokenType } from './types.js';
+
+export type BreakingKind = 'removed' | 'renamed' | 'type-changed';
+export type ChangeKind = 'added' | 'value-changed' | 'alias-changed' | 'deprecated';
+
+export interface BreakingChange {
+  kind: BreakingKind;
+  token: string;
+  /** New name of a renamed token */
+  renamedTo?: string;
+  from?: TokenType;
+  to?: TokenType;
+  message: string;
+}
+
+export interface TokenChange {
+  kind: ChangeKind;
+  token: string;
+  before?: string;
+  after?: string;
+  message: string;
+}
+
+export interface TokenDiff {
+  breaking: BreakingChange[];
+  changes: TokenChange[];
+  summary: {
+    baseline: number;
+    current: number;
+    added: number;
+    removed: number;
+    changed: number;
+    breaking: number;
+  };
+}
+
+function display(token: DesignToken): string {
+  return cssValue(token.type, token.resolved);
+}
+
+function reference(token: DesignToken): string {
+  return token.aliasOf ? `{${token.aliasOf}}` : display(token);
+}
+
+export function diffTokens(baseline: TokenSet, current: TokenSet): TokenDiff {
+  const breaking: BreakingChange[] = [];
+  const changes: TokenChange[] = [];
+
+  const removed = [...baseline.tokens.values()].filter(token => !current.tokens.has(token.name));
+  const added = [...current.tokens.values()].filter(token => !baseline.tokens.has(token.name));
+
+  // A removed token whose type and value reappear under a new name was most
+  // likely renamed; it still breaks references to the old name
+  const unclaimed = new Set(added);
+  for (const token of removed) {
+    const match = [...unclaimed].find(
+      candidate => candidate.type === token.type && reference(candidate) === reference(token)
+    );
+    if (match) {
+      unclaimed.delete(match);
+      breaking.push({
+        kind: 'renamed',
+        token: token.name,
+        renamedTo: match.name,
+        message: `Renamed to ${match.name}`
+      });
+    } else {
+      breaking.push({ kind: 'removed', token: token.name, message: 'Removed' });
+    }
+  }
+  for (const token of unclaimed) {
+    changes.push({ kind: 'added', token: token.name, after: display(token), message: 'Added' });
+  }
+
+  for (const before of baseline.tokens.values()) {
+    const after = current.tokens.get(before.name);
+    if (!after) continue;
+    if (after.type !== before.type) {
+      breaking.push({
+        kind: 'type-changed',
+        token: before.name,
+        from: before.type,
+        to: after.type,
+        message: `Type changed from ${before.type} to ${after.type}`
+      });
+      continue;
+    }
+    if (display(after) !== display(before)) {
+      changes.push({
+        kind: 'value-changed',
+        token: before.name,
+        before: display(before),
+        after: display(after),
+        message: `Value changed from ${display(before)} to ${display(after)}`
+      });
+    } else if (reference(after) !== reference(before)) {
+      changes.push({
+        kind: 'alias-changed',
+        token: before.name,
+        before: reference(before),
+        after: reference(after),
+        message: `Now ${reference(after)} instead of ${reference(before)}, same value`
+      });
+    }
+    if (after.deprecated && !before.deprecated) {
+      changes.push({
+        kind: 'deprecated',
+        token: before.name,
+        message:
+          typeof after.deprecated === 'string' ? `Deprecated: ${after.deprecated}` : 'Deprecated'
+      });
+    }
+  }
+
+  return {
+    breaking,
+    changes,
+    summary: {
+      baseline: baseline.tokens.size,
+      current: current.tokens.size,
+      added: unclaimed.size,
+      removed: removed.length,
+      changed: changes.filter(change => change.kind === 'value-changed').length,
+      breaking: breaking.length
+    }
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Android value resources
+ */
+
+import { parseColor, parseDimension, parseDuration, parseFontWeight, toPixels } from '../values.js';
+import { DesignToken } from '../types.js';
+import { FormatInput, FormatOutput, GENERATED_NOTICE, TokenFormat } from './interface.js';
+
+/** color_primary_default from color.primary.default */
+export function resourceName(path: string[]): string {
+  return path
+    .join('_')
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9_]+/g, '_')
+    .toLowerCase();
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, "\\'");
+}
+
+/** Font sizes scale with the user's text size, so they are sp rather than dp */
+function isFontSize(path: string[]): boolean {
+  const words = path.map(segment => segment.replace(/[-_]/g, '').toLowerCase());
+  return words.some(
+    (word, i) => word === 'fontsize' || word === 'fontsizes' || (word === 'font' && words[i + 1] === 'size')
+  );
+}
+
+function hexByte(channel: number): string {
+  return Math.round(channel * 255)
+    .toString(16)
+    .padStart(2, '0')
+    .toUpperCase();
+}
+
+function resource(token: DesignToken, remBase: number): string | undefined {
+  const name = resourceName(token.path);
+  switch (token.type) {
+    case 'color': {
+      const color = parseColor(token.resolved)!;
+      return `<color name="${name}">#${hexByte(color.a)}${hexByte(color.r)}${hexByte(color.g)}${hexByte(color.b)}</color>`;
+    }
+    case 'dimension': {
+      const pixels = toPixels(parseDimension(token.resolved)!, remBase);
+      if (pixels === undefined) return undefined;
+      return `<dimen name="${name}">${pixels}${isFontSize(token.path) ? 'sp' : 'dp'}</dimen>`;
+    }
+    case 'fontFamily': {
+      const families = Array.isArray(token.resolved) ? token.resolved : [token.resolved];
+      return `<string name="${name}" translatable="false">${escapeXml(String(families[0]))}</string>`;
+    }
+    case 'fontWeight':
+      return `<integer name="${name}">${parseFontWeight(token.resolved)}</integer>`;
+    case 'duration':
+      return `<integer name="${name}">${Math.round(parseDuration(token.resolved)!)}</integer>`;
+    case 'number': {
+      const value = token.resolved as number;
+      return Number.isInteger(value)
+        ? `<integer name="${name}">${value}</integer>`
+        : `<item name="${name}" format="float" type="dimen">${value}</item>`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+export const androidFormat: TokenFormat = {
+  name: 'android',
+  description: 'Android resources: colors, dimens (dp, sp for font sizes), integers and strings',
+
+  build({ tokens, options }: FormatInput): FormatOutput {
+    const lines: string[] = [];
+    const skipped: string[] = [];
+    for (const token of tokens.tokens.values()) {
+      const xml = resource(token, options.remBase);
+      if (xml === undefined) {
+        skipped.push(token.name);
+        continue;
+      }
+      if (token.description) lines.push(`    <!-- ${token.description.replace(/--/g, '- -')} -->`);
+      lines.push(`    ${xml}`);
+    }
+
+    const content = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      `<!-- ${GENERATED_NOTICE} -->`,
+      '<resources>',
+      ...lines,
+      '</resources>',
+      ''
+    ].join('\n');
+    return { files: [{ path: 'android/values/design_tokens.xml', content }], skipped };
+  }
+};
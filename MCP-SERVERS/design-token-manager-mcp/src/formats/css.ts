@@ -0,0 +1,45 @@
+/**
+ * CSS custom properties, with a block per theme
+ */
+
+import { cssVariableName, tokenCssValue } from '../values.js';
+import { DesignToken } from '../types.js';
+import { FormatInput, FormatOutput, GENERATED_NOTICE, TokenFormat } from './interface.js';
+
+function declaration(token: DesignToken, prefix?: string): string {
+  return `${cssVariableName(token.path, prefix)}: ${tokenCssValue(token, { references: true, prefix })};`;
+}
+
+function block(selector: string, lines: string[]): string {
+  return `${selector} {\n${lines.map(line => `  ${line}`).join('\n')}\n}\n`;
+}
+
+export const cssFormat: TokenFormat = {
+  name: 'css',
+  description: 'CSS custom properties on :root, overridden per theme selector',
+
+  build({ tokens, themes, options }: FormatInput): FormatOutput {
+    const rootLines: string[] = [];
+    for (const token of tokens.tokens.values()) {
+      if (token.description) rootLines.push(`/* ${token.description.replace(/\*\//g, '* /')} */`);
+      rootLines.push(declaration(token, options.prefix));
+    }
+
+    const blocks = [block(':root', rootLines)];
+    for (const theme of themes) {
+      // Only what the theme changes; aliases follow their targets through var()
+      const lines = [...theme.tokens.tokens.values()]
+        .filter(token => {
+          const base = tokens.tokens.get(token.name);
+          return !base || declaration(base, options.prefix) !== declaration(token, options.prefix);
+        })
+        .map(token => declaration(token, options.prefix));
+      if (lines.length > 0) blocks.push(block(theme.selector, lines));
+    }
+
+    return {
+      files: [{ path: 'tokens.css', content: `/* ${GENERATED_NOTICE} */\n\n${blocks.join('\n')}` }],
+      skipped: []
+    };
+  }
+};
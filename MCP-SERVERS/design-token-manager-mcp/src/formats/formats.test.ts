@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { parseTokens } from '../tokens.js';
+import { FORMATS, FormatInput, FormatName, tailwindTheme } from './index.js';
+
+const BASE = {
+  color: {
+    $type: 'color',
+    blue: { 600: { $value: '#2563eb', $description: 'Brand blue' } },
+    white: { $value: '#ffffff' },
+    primary: {
+      default: { $value: '{color.blue.600}' },
+      foreground: { $value: '{color.white}' }
+    },
+    overlay: { $value: 'rgba(0, 0, 0, 0.5)' }
+  },
+  spacing: { $type: 'dimension', md: { $value: '1rem' }, inset: { sm: { $value: '4px' } } },
+  font: {
+    family: { sans: { $type: 'fontFamily', $value: ['Inter', 'system-ui', 'sans-serif'] } },
+    weight: { bold: { $type: 'fontWeight', $value: 'bold' } },
+    size: { body: { $type: 'dimension', $value: '14px' } }
+  },
+  radius: { default: { $type: 'dimension', $value: '0.25rem' } },
+  breakpoint: { lg: { $type: 'dimension', $value: '1024px' } },
+  shadow: {
+    sm: {
+      $type: 'shadow',
+      $value: { color: '#0000000d', offsetX: '0px', offsetY: '1px', blur: '2px', spread: '0px' }
+    }
+  },
+  duration: { fast: { $type: 'duration', $value: '150ms' } },
+  easing: { standard: { $type: 'cubicBezier', $value: [0.4, 0, 0.2, 1] } },
+  text: {
+    heading: {
+      $type: 'typography',
+      $value: { fontFamily: '{font.family.sans}', fontSize: '24px', fontWeight: 600, lineHeight: 1.25 }
+    }
+  },
+  layer: { modal: { $type: 'number', $value: 50 } }
+};
+
+const DARK = { color: { primary: { default: { $value: '#60a5fa' } } } };
+
+function input(overrides: Partial<FormatInput['options']> = {}): FormatInput {
+  const tokens = parseTokens([{ file: 'tokens.json', data: BASE }]);
+  expect(tokens.issues).toEqual([]);
+  return {
+    tokens,
+    themes: [
+      {
+        name: 'dark',
+        selector: '[data-theme="dark"]',
+        tokens: parseTokens([
+          { file: 'tokens.json', data: BASE },
+          { file: 'dark.json', data: DARK }
+        ])
+      }
+    ],
+    options: { remBase: 16, useVariables: true, ...overrides }
+  };
+}
+
+function build(format: FormatName, overrides?: Partial<FormatInput['options']>) {
+  return FORMATS[format].build(input(overrides));
+}
+
+describe('css', () => {
+  it('should declare every token on :root and only theme changes under the theme selector', () => {
+    const { files } = build('css', { prefix: 'ds' });
+    const css = files[0].content;
+    expect(files[0].path).toBe('tokens.css');
+    expect(css).toContain('  /* Brand blue */\n  --ds-color-blue-600: #2563eb;');
+    expect(css).toContain('--ds-color-primary-default: var(--ds-color-blue-600);');
+    expect(css).toContain('--ds-font-family-sans: Inter, system-ui, sans-serif;');
+    expect(css).toContain('--ds-shadow-sm: 0 1px 2px 0 #0000000d;');
+    expect(css).toContain('--ds-easing-standard: cubic-bezier(0.4, 0, 0.2, 1);');
+    expect(css).toContain('--ds-text-heading: 600 24px/1.25 Inter, system-ui, sans-serif;');
+    expect(css).toContain('[data-theme="dark"] {\n  --ds-color-primary-default: #60a5fa;\n}');
+  });
+});
+
+describe('tailwind', () => {
+  it('should place tokens by group and type, pointing at the CSS variables', () => {
+    const { theme, skipped } = tailwindTheme(input());
+    expect(theme.colors).toEqual({
+      blue: { 600: 'var(--color-blue-600)' },
+      white: 'var(--color-white)',
+      primary: { DEFAULT: 'var(--color-primary-default)', foreground: 'var(--color-primary-foreground)' },
+      overlay: 'var(--color-overlay)'
+    });
+    expect(theme.spacing).toEqual({ md: 'var(--spacing-md)', 'inset-sm': 'var(--spacing-inset-sm)' });
+    expect(theme.fontSize).toEqual({
+      body: 'var(--font-size-body)',
+      heading: ['24px', { lineHeight: '1.25', fontWeight: '600' }]
+    });
+    expect(theme.borderRadius).toEqual({ DEFAULT: 'var(--radius-default)' });
+    expect(theme.screens).toEqual({ lg: '1024px' });
+    expect(Object.keys(theme)).toEqual(
+      expect.arrayContaining(['fontFamily', 'fontWeight', 'boxShadow', 'transitionDuration', 'transitionTimingFunction'])
+    );
+    expect(skipped).toEqual(['layer.modal']);
+  });
+
+  it('should inline values when variables are off', () => {
+    const { files } = build('tailwind', { useVariables: false });
+    expect(files[0].path).toBe('tailwind.theme.cjs');
+    const theme = new Function('module', `${files[0].content}; return module.exports;`)({});
+    expect(theme.colors.primary.DEFAULT).toBe('#2563eb');
+    expect(theme.fontFamily.sans).toEqual(['Inter', 'system-ui', 'sans-serif']);
+    expect(theme.transitionDuration.fast).toBe('150ms');
+  });
+});
+
+describe('typescript', () => {
+  it('should export nested values, token names and CSS variables', () => {
+    const ts = build('typescript').files[0].content;
+    expect(ts).toContain("    blue: {\n      /** Brand blue */\n      '600': '#2563eb'\n    }");
+    expect(ts).toContain("      default: '#2563eb'");
+    expect(ts).toContain("  | 'color.primary.default'");
+    expect(ts).toContain("  'spacing.inset.sm': 'var(--spacing-inset-sm)'");
+  });
+});
+
+describe('ios', () => {
+  it('should emit SwiftUI constants in points and seconds', () => {
+    const { files, skipped } = build('ios');
+    const swift = files[0].content;
+    expect(files[0].path).toBe('ios/DesignTokens.swift');
+    expect(swift).toContain('    /// Brand blue\n    public static let colorBlue600 = Color(red: 0.145, green: 0.388, blue: 0.922, opacity: 1)');
+    expect(swift).toContain('    public static let colorOverlay = Color(red: 0, green: 0, blue: 0, opacity: 0.5)');
+    expect(swift).toContain('    public static let spacingMd: CGFloat = 16');
+    expect(swift).toContain('    public static let fontFamilySans = "Inter"');
+    expect(swift).toContain('    public static let fontWeightBold = Font.Weight.bold');
+    expect(swift).toContain('    public static let durationFast: TimeInterval = 0.15');
+    expect(skipped).toEqual(['shadow.sm', 'easing.standard', 'text.heading']);
+  });
+});
+
+describe('android', () => {
+  it('should emit ARGB colors, dp and sp dimens and integers', () => {
+    const { files, skipped } = build('android');
+    const xml = files[0].content;
+    expect(files[0].path).toBe('android/values/design_tokens.xml');
+    expect(xml).toContain('    <!-- Brand blue -->\n    <color name="color_blue_600">#FF2563EB</color>');
+    expect(xml).toContain('<color name="color_overlay">#80000000</color>');
+    expect(xml).toContain('<dimen name="spacing_inset_sm">4dp</dimen>');
+    expect(xml).toContain('<dimen name="font_size_body">14sp</dimen>');
+    expect(xml).toContain('<integer name="font_weight_bold">700</integer>');
+    expect(xml).toContain('<integer name="duration_fast">150</integer>');
+    expect(xml).toContain('<integer name="layer_modal">50</integer>');
+    expect(skipped).toEqual(['shadow.sm', 'easing.standard', 'text.heading']);
+  });
+});
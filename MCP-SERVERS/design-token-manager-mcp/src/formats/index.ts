@@ -0,0 +1,36 @@
+/**
+ * Output format selection
+ */
+
+import { androidFormat } from './android.js';
+import { cssFormat } from './css.js';
+import { FormatName, TokenFormat } from './interface.js';
+import { iosFormat } from './ios.js';
+import { tailwindFormat } from './tailwind.js';
+import { typescriptFormat } from './typescript.js';
+
+export {
+  FormatInput,
+  FormatName,
+  FormatOptions,
+  FormatOutput,
+  GENERATED_NOTICE,
+  OutputFile,
+  ThemeTokens,
+  TokenFormat
+} from './interface.js';
+export { androidFormat, resourceName } from './android.js';
+export { cssFormat } from './css.js';
+export { iosFormat, swiftName } from './ios.js';
+export { tailwindFormat, tailwindPlacement, tailwindTheme } from './tailwind.js';
+export { typescriptFormat } from './typescript.js';
+
+export const FORMATS: Record<FormatName, TokenFormat> = {
+  css: cssFormat,
+  tailwind: tailwindFormat,
+  typescript: typescriptFormat,
+  ios: iosFormat,
+  android: androidFormat
+};
+
+export const FORMAT_NAMES = Object.keys(FORMATS) as FormatName[];
@@ -0,0 +1,50 @@
+/**
+ * Common interface for token output formats
+ */
+
+import { TokenSet } from '../types.js';
+
+export type FormatName = 'css' | 'tailwind' | 'typescript' | 'ios' | 'android';
+
+export interface ThemeTokens {
+  name: string;
+  /** CSS selector that switches the theme on, e.g. [data-theme="dark"] */
+  selector: string;
+  /** Base tokens with the theme files layered on top */
+  tokens: TokenSet;
+}
+
+export interface FormatOptions {
+  /** Prefix for CSS variable names */
+  prefix?: string;
+  /** Pixels per rem when converting to native units */
+  remBase: number;
+  /** Reference CSS variables from generated code so themes apply at runtime */
+  useVariables: boolean;
+}
+
+export interface FormatInput {
+  tokens: TokenSet;
+  themes: ThemeTokens[];
+  options: FormatOptions;
+}
+
+export interface OutputFile {
+  /** Relative to the output directory */
+  path: string;
+  content: string;
+}
+
+export interface FormatOutput {
+  files: OutputFile[];
+  /** Tokens the format has no representation for */
+  skipped: string[];
+}
+
+export interface TokenFormat {
+  readonly name: FormatName;
+  readonly description: string;
+  build(input: FormatInput): FormatOutput;
+}
+
+export const GENERATED_NOTICE = 'Do not edit directly, generated by design-token-manager-mcp';
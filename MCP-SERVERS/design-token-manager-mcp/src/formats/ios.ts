@@ -0,0 +1,111 @@
+/**
+ * Swift constants for SwiftUI
+ */
+
+import { parseColor, parseDimension, parseDuration, parseFontWeight, toPixels } from '../values.js';
+import { DesignToken } from '../types.js';
+import { FormatInput, FormatOutput, GENERATED_NOTICE, TokenFormat } from './interface.js';
+
+const SWIFT_WEIGHTS = [
+  'ultraLight',
+  'thin',
+  'light',
+  'regular',
+  'medium',
+  'semibold',
+  'bold',
+  'heavy',
+  'black'
+];
+
+/** colorPrimaryDefault from color.primary.default */
+export function swiftName(path: string[]): string {
+  const words = path.flatMap(segment => segment.split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/)).filter(Boolean);
+  const name = words
+    .map((word, i) => (i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()))
+    .join('');
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function number(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function swiftString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+interface SwiftValue {
+  type?: string;
+  expression: string;
+}
+
+/** Undefined when Swift has no equivalent */
+function swiftValue(token: DesignToken, remBase: number): SwiftValue | undefined {
+  switch (token.type) {
+    case 'color': {
+      const color = parseColor(token.resolved)!;
+      return {
+        expression: `Color(red: ${number(color.r)}, green: ${number(color.g)}, blue: ${number(color.b)}, opacity: ${number(color.a)})`
+      };
+    }
+    case 'dimension': {
+      const points = toPixels(parseDimension(token.resolved)!, remBase);
+      return points === undefined ? undefined : { type: 'CGFloat', expression: number(points) };
+    }
+    case 'fontFamily': {
+      const families = Array.isArray(token.resolved) ? token.resolved : [token.resolved];
+      return { expression: swiftString(String(families[0])) };
+    }
+    case 'fontWeight': {
+      const weight = parseFontWeight(token.resolved)!;
+      const index = Math.min(SWIFT_WEIGHTS.length - 1, Math.max(0, Math.round(weight / 100) - 1));
+      return { expression: `Font.Weight.${SWIFT_WEIGHTS[index]}` };
+    }
+    case 'duration':
+      return { type: 'TimeInterval', expression: number(parseDuration(token.resolved)! / 1000) };
+    case 'number':
+      return { type: 'Double', expression: number(token.resolved as number) };
+    default:
+      return undefined;
+  }
+}
+
+export const iosFormat: TokenFormat = {
+  name: 'ios',
+  description: 'Swift constants (SwiftUI Color, CGFloat, Font.Weight, TimeInterval)',
+
+  build({ tokens, options }: FormatInput): FormatOutput {
+    const lines: string[] = [];
+    const skipped: string[] = [];
+    for (const token of tokens.tokens.values()) {
+      const value = swiftValue(token, options.remBase);
+      if (value === undefined) {
+        skipped.push(token.name);
+        continue;
+      }
+      if (token.description) lines.push(`    /// ${token.description}`);
+      if (token.deprecated) {
+        const message = typeof token.deprecated === 'string' ? `, message: ${swiftString(token.deprecated)}` : '';
+        lines.push(`    @available(*, deprecated${message})`);
+      }
+      const type = value.type ? `: ${value.type}` : '';
+      lines.push(`    public static let ${swiftName(token.path)}${type} = ${value.expression}`);
+    }
+
+    const content = [
+      '//',
+      '// DesignTokens.swift',
+      `// ${GENERATED_NOTICE}`,
+      '//',
+      '',
+      'import SwiftUI',
+      '',
+      'public enum DesignTokens {',
+      ...lines,
+      '}',
+      ''
+    ].join('\n');
+    return { files: [{ path: 'ios/DesignTokens.swift', content }], skipped };
+  }
+};
@@ -0,0 +1,195 @@
+/**
+ * Tailwind theme extension
+ *
+ * Tokens land in a theme key chosen by their group name ("radius.md" →
+ * borderRadius.md) or, failing that, by their type. A "default" segment
+ * becomes DEFAULT, so color.primary.default is the class bg-primary.
+ */
+
+import { cssValue, cssVariableName, kebabCase } from '../values.js';
+import { DesignToken, TokenType } from '../types.js';
+import { FormatInput, FormatOutput, GENERATED_NOTICE, TokenFormat } from './interface.js';
+
+type ThemeKey =
+  | 'colors'
+  | 'spacing'
+  | 'borderRadius'
+  | 'borderWidth'
+  | 'fontSize'
+  | 'letterSpacing'
+  | 'lineHeight'
+  | 'screens'
+  | 'fontFamily'
+  | 'fontWeight'
+  | 'boxShadow'
+  | 'transitionDuration'
+  | 'transitionTimingFunction'
+  | 'opacity'
+  | 'zIndex';
+
+const GROUPS: Record<string, ThemeKey> = {
+  color: 'colors',
+  colors: 'colors',
+  palette: 'colors',
+  spacing: 'spacing',
+  space: 'spacing',
+  size: 'spacing',
+  sizes: 'spacing',
+  sizing: 'spacing',
+  radius: 'borderRadius',
+  radii: 'borderRadius',
+  borderradius: 'borderRadius',
+  rounded: 'borderRadius',
+  borderwidth: 'borderWidth',
+  fontsize: 'fontSize',
+  fontsizes: 'fontSize',
+  text: 'fontSize',
+  typography: 'fontSize',
+  letterspacing: 'letterSpacing',
+  tracking: 'letterSpacing',
+  lineheight: 'lineHeight',
+  leading: 'lineHeight',
+  breakpoint: 'screens',
+  breakpoints: 'screens',
+  screens: 'screens',
+  font: 'fontFamily',
+  fonts: 'fontFamily',
+  fontfamily: 'fontFamily',
+  fontfamilies: 'fontFamily',
+  fontweight: 'fontWeight',
+  fontweights: 'fontWeight',
+  shadow: 'boxShadow',
+  shadows: 'boxShadow',
+  boxshadow: 'boxShadow',
+  elevation: 'boxShadow',
+  duration: 'transitionDuration',
+  durations: 'transitionDuration',
+  easing: 'transitionTimingFunction',
+  ease: 'transitionTimingFunction',
+  opacity: 'opacity',
+  zindex: 'zIndex',
+  z: 'zIndex'
+};
+
+const ACCEPTS: Record<ThemeKey, TokenType[]> = {
+  colors: ['color'],
+  spacing: ['dimension'],
+  borderRadius: ['dimension'],
+  borderWidth: ['dimension'],
+  fontSize: ['dimension', 'typography'],
+  letterSpacing: ['dimension'],
+  lineHeight: ['dimension', 'number'],
+  screens: ['dimension'],
+  fontFamily: ['fontFamily'],
+  fontWeight: ['fontWeight'],
+  boxShadow: ['shadow'],
+  transitionDuration: ['duration'],
+  transitionTimingFunction: ['cubicBezier'],
+  opacity: ['number'],
+  zIndex: ['number']
+};
+
+const BY_TYPE: Partial<Record<TokenType, ThemeKey>> = {
+  color: 'colors',
+  fontFamily: 'fontFamily',
+  fontWeight: 'fontWeight',
+  shadow: 'boxShadow',
+  duration: 'transitionDuration',
+  cubicBezier: 'transitionTimingFunction',
+  typography: 'fontSize'
+};
+
+/** Media queries can't read CSS variables */
+const LITERAL_KEYS: ThemeKey[] = ['screens'];
+
+function normalize(segments: string[]): string {
+  return segments.join('').replace(/[-_]/g, '').toLowerCase();
+}
+
+/** Theme key and the path below it */
+export function tailwindPlacement(token: DesignToken): { key: ThemeKey; path: string[] } | undefined {
+  let group: { key: ThemeKey; depth: number } | undefined;
+  for (const depth of [2, 1]) {
+    const key = token.path.length > depth ? GROUPS[normalize(token.path.slice(0, depth))] : undefined;
+    if (key) {
+      group = { key, depth };
+      break;
+    }
+  }
+  if (group && ACCEPTS[group.key].includes(token.type)) {
+    return { key: group.key, path: token.path.slice(group.depth) };
+  }
+  const key = BY_TYPE[token.type];
+  return key ? { key, path: token.path.slice(group?.depth ?? 0) } : undefined;
+}
+
+function themeSegment(segment: string): string {
+  return segment.toLowerCase() === 'default' ? 'DEFAULT' : kebabCase(segment);
+}
+
+function themeValue(token: DesignToken, key: ThemeKey, input: FormatInput): unknown {
+  if (token.type === 'typography') {
+    const typography = token.resolved as Record<string, unknown>;
+    const extras: Record<string, string> = {};
+    if (typography.lineHeight !== undefined) extras.lineHeight = String(typography.lineHeight);
+    if (typography.letterSpacing !== undefined) {
+      extras.letterSpacing = cssValue('dimension', typography.letterSpacing);
+    }
+    extras.fontWeight = cssValue('fontWeight', typography.fontWeight);
+    return [cssValue('dimension', typography.fontSize), extras];
+  }
+  if (input.options.useVariables && !LITERAL_KEYS.includes(key)) {
+    return `var(${cssVariableName(token.path, input.options.prefix)})`;
+  }
+  if (token.type === 'fontFamily') {
+    return Array.isArray(token.resolved) ? token.resolved : [token.resolved];
+  }
+  return cssValue(token.type, token.resolved);
+}
+
+/** Theme extension object, e.g. { colors: { primary: { DEFAULT: ... } } } */
+export function tailwindTheme(input: FormatInput): { theme: Record<string, Record<string, unknown>>; skipped: string[] } {
+  const theme: Record<string, Record<string, unknown>> = {};
+  const skipped: string[] = [];
+
+  for (const token of input.tokens.tokens.values()) {
+    const placement = tailwindPlacement(token);
+    if (!placement) {
+      skipped.push(token.name);
+      continue;
+    }
+    const section = (theme[placement.key] ??= {});
+    const value = themeValue(token, placement.key, input);
+    const segments = placement.path.map(themeSegment);
+    if (segments.length === 0) segments.push('DEFAULT');
+
+    if (placement.key === 'colors') {
+      // Colors nest, the rest are flat: spacing.inset.sm → "inset-sm"
+      let node = section;
+      for (const segment of segments.slice(0, -1)) {
+        node = (node[segment] ??= {}) as Record<string, unknown>;
+      }
+      node[segments[segments.length - 1]] = value;
+    } else {
+      section[segments.join('-').replace(/-DEFAULT$/, '')] = value;
+    }
+  }
+  return { theme, skipped };
+}
+
+export const tailwindFormat: TokenFormat = {
+  name: 'tailwind',
+  description: 'Tailwind theme extension (CommonJS) for theme.extend',
+
+  build(input: FormatInput): FormatOutput {
+    const { theme, skipped } = tailwindTheme(input);
+    const content = [
+      `/** ${GENERATED_NOTICE} */`,
+      '',
+      "/** @type {import('tailwindcss').Config['theme']} */",
+      `module.exports = ${JSON.stringify(theme, null, 2)};`,
+      ''
+    ].join('\n');
+    return { files: [{ path: 'tailwind.theme.cjs', content }], skipped };
+  }
+};
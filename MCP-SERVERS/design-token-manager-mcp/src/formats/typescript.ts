@@ -0,0 +1,75 @@
+/**
+ * TypeScript constants: nested resolved values, token names and CSS variables
+ */
+
+import { cssValue, cssVariableName } from '../values.js';
+import { FormatInput, FormatOutput, GENERATED_NOTICE, TokenFormat } from './interface.js';
+
+interface Node {
+  value?: string;
+  description?: string;
+  children: Map<string, Node>;
+}
+
+function quoteKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function render(node: Node, indent: string): string {
+  const entries: string[] = [];
+  for (const [key, child] of node.children) {
+    const comment = child.description
+      ? `${indent}/** ${child.description.replace(/\*\//g, '* /')} */\n`
+      : '';
+    entries.push(
+      comment +
+        (child.value !== undefined
+          ? `${indent}${quoteKey(key)}: ${quote(child.value)}`
+          : `${indent}${quoteKey(key)}: {\n${render(child, `${indent}  `)}\n${indent}}`)
+    );
+  }
+  return entries.join(',\n');
+}
+
+export const typescriptFormat: TokenFormat = {
+  name: 'typescript',
+  description: 'TypeScript constants with resolved values, a TokenName union and CSS variable references',
+
+  build({ tokens, options }: FormatInput): FormatOutput {
+    const root: Node = { children: new Map() };
+    const names: string[] = [];
+    for (const token of tokens.tokens.values()) {
+      let node = root;
+      for (const segment of token.path) {
+        if (!node.children.has(segment)) node.children.set(segment, { children: new Map() });
+        node = node.children.get(segment)!;
+      }
+      node.value = cssValue(token.type, token.resolved);
+      node.description = token.description;
+      names.push(token.name);
+    }
+
+    const variables = [...tokens.tokens.values()].map(
+      token => `  ${quote(token.name)}: ${quote(`var(${cssVariableName(token.path, options.prefix)})`)}`
+    );
+    const content = [
+      `/**\n * ${GENERATED_NOTICE}\n */`,
+      '',
+      `export const tokens = {\n${render(root, '  ')}\n} as const;`,
+      '',
+      names.length > 0
+        ? `export type TokenName =\n${names.map(name => `  | ${quote(name)}`).join('\n')};`
+        : 'export type TokenName = never;',
+      '',
+      '/** CSS variable for each token, for inline styles that should follow the theme */',
+      `export const cssVariables: Record<TokenName, string> = {\n${variables.join(',\n')}\n};`,
+      ''
+    ].join('\n');
+
+    return { files: [{ path: 'tokens.ts', content }], skipped: [] };
+  }
+};
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { TestClient } from '@ai-dev-standards/mcp-server-base';
+import { DesignTokenManagerServer } from './server.js';
+
+interface BuildResult {
+  files: Array<{ format: string; path: string; bytes: number; content?: string }>;
+  skipped: Record<string, string[]>;
+}
+
+const UI_COMPONENTS = join(dirname(fileURLToPath(import.meta.url)), '../../../COMPONENTS/ui-components');
+
+describe('DesignTokenManagerServer', () => {
+  let dir: string;
+  let client: TestClient;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'design-tokens-'));
+    await fs.cp(join(UI_COMPONENTS, 'tokens'), join(dir, 'tokens'), { recursive: true });
+    client = await TestClient.connect(new DesignTokenManagerServer());
+    await client.callTool('configure', {
+      projectPath: dir,
+      tokens: ['tokens/tokens.json'],
+      themes: { dark: { files: ['tokens/tokens.dark.json'], selector: '.dark' } }
+    });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should validate the UI component tokens and their dark theme', async () => {
+    const result = await client.callTool('validate_tokens');
+    expect(result.data).toMatchObject({
+      valid: true,
+      themes: ['dark'],
+      types: { color: 34, dimension: 2, shadow: 2 },
+      errors: [],
+      warnings: []
+    });
+  });
+
+  it('should report errors per file and theme', async () => {
+    await fs.writeFile(join(dir, 'broken.json'), '{ "color": ');
+    expect((await client.callTool('validate_tokens', { files: ['tokens/tokens.json', 'broken.json'] })).data).toMatchObject({
+      valid: false,
+      errors: [{ file: 'broken.json', message: 'Invalid JSON: Unexpected end of JSON input' }]
+    });
+
+    await fs.writeFile(
+      join(dir, 'tokens/tokens.dark.json'),
+      JSON.stringify({ color: { surface: { default: { $value: '{color.gray.950}' } } } })
+    );
+    expect((await client.callTool('validate_tokens')).data).toMatchObject({
+      valid: false,
+      errors: [
+        {
+          severity: 'error',
+          message: 'Unknown reference {color.gray.950}',
+          token: 'color.surface.default',
+          file: 'tokens/tokens.dark.json',
+          theme: 'dark'
+        }
+      ]
+    });
+    expect((await client.callTool('build_tokens')).data).toMatchObject({
+      error: { code: 'invalid_tokens', message: '1 token error(s); fix them before building' }
+    });
+    expect((await client.callTool('validate_tokens', { files: ['missing.json'] })).data).toMatchObject({
+      error: { code: 'not_found', message: 'Token file not found: missing.json' }
+    });
+  });
+
+  it('should build every format and theme the components through Tailwind', async () => {
+    const result = await client.callTool<BuildResult>('build_tokens');
+    expect(result.isError).toBe(false);
+    expect(result.data.files.map(file => file.path)).toEqual([
+      'build/tokens/tokens.css',
+      'build/tokens/tailwind.theme.cjs',
+      'build/tokens/tokens.ts',
+      'build/tokens/ios/DesignTokens.swift',
+      'build/tokens/android/values/design_tokens.xml'
+    ]);
+    expect(result.data.skipped).toEqual({ ios: ['shadow.sm', 'shadow.lg'], android: ['shadow.sm', 'shadow.lg'] });
+
+    const css = await fs.readFile(join(dir, 'build/tokens/tokens.css'), 'utf-8');
+    expect(css).toContain('--color-primary-default: var(--color-blue-600);');
+    expect(css).toContain('.dark {\n  --color-primary-default: var(--color-blue-500);');
+
+    // Every token-backed class Button and Card use must exist in the theme
+    const theme = new Function(
+      'module',
+      `${await fs.readFile(join(dir, 'build/tokens/tailwind.theme.cjs'), 'utf-8')}; return module.exports;`
+    )({});
+    const sources = await Promise.all(
+      ['Button.tsx', 'Card.tsx'].map(file => fs.readFile(join(UI_COMPONENTS, file), 'utf-8'))
+    );
+    const semantic = ['primary', 'secondary', 'destructive', 'accent', 'surface', 'muted', 'border', 'input', 'ring'];
+    const used = new Set(
+      sources.flatMap(source =>
+        [...source.matchAll(/(?:bg|text|border|ring)-([a-z]+)(?:-([a-z]+))?\b/g)]
+          .filter(match => semantic.includes(match[1]))
+          .map(match => `${match[1]}.${match[2] ?? 'DEFAULT'}`)
+      )
+    );
+    expect(used.size).toBeGreaterThan(10);
+    for (const color of used) {
+      const [group, shade] = color.split('.');
+      expect(theme.colors[group]?.[shade], color).toMatch(/^var\(--color-/);
+    }
+    expect(theme.boxShadow).toHaveProperty('sm');
+    expect(theme.borderRadius).toHaveProperty('lg');
+  });
+
+  it('should return generated files without writing on a dry run', async () => {
+    const result = await client.callTool<BuildResult>('build_tokens', { formats: ['android'], dryRun: true, outputDir: 'res' });
+    expect(result.data.files).toEqual([
+      expect.objectContaining({ format: 'android', path: 'res/android/values/design_tokens.xml' })
+    ]);
+    expect(result.data.files[0].content).toContain('<color name="color_primary_default">#FF2563EB</color>');
+    await expect(fs.access(join(dir, 'res'))).rejects.toThrow();
+  });
+
+  it('should diff a token set against a baseline', async () => {
+    const current = JSON.parse(await fs.readFile(join(dir, 'tokens/tokens.json'), 'utf-8'));
+    delete current.color.accent;
+    current.color.primary.default.$value = '{color.blue.700}';
+    await fs.writeFile(join(dir, 'next.json'), JSON.stringify(current));
+
+    const result = await client.callTool('diff_tokens', { baseline: ['tokens/tokens.json'], current: ['next.json'] });
+    expect(result.data).toMatchObject({
+      breaking: [{ kind: 'removed', token: 'color.accent.default' }],
+      changes: [{ kind: 'value-changed', token: 'color.primary.default', before: '#2563eb', after: '#1d4ed8' }],
+      summary: { removed: 1, changed: 1, breaking: 1 }
+    });
+  });
+});
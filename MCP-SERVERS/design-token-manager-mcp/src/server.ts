@@ -0,0 +1,268 @@
+/**
+ * Design Token Manager MCP server
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import { BaseMCPServer, ToolContext, ToolError, z } from '@ai-dev-standards/mcp-server-base';
+import { diffTokens } from './diff.js';
+import { FORMAT_NAMES, FORMATS, FormatName, FormatOptions, ThemeTokens } from './formats/index.js';
+import { parseTokens } from './tokens.js';
+import { TokenIssue, TokenSet, TokenSource } from './types.js';
+
+export const DEFAULT_TOKEN_FILES = ['tokens.json'];
+export const DEFAULT_OUTPUT_DIR = 'build/tokens';
+
+interface ThemeSetting {
+  files: string[];
+  selector?: string;
+}
+
+interface Settings {
+  tokens: string[];
+  themes: Record<string, ThemeSetting>;
+  outputDir: string;
+  formats: FormatName[];
+  options: FormatOptions;
+}
+
+const files = z
+  .array(z.string())
+  .min(1)
+  .optional()
+  .describe('Token files or directories of .json files, relative to the project; later files override earlier ones');
+
+export class DesignTokenManagerServer extends BaseMCPServer {
+  constructor() {
+    super('design-token-manager-mcp', '1.0.0');
+
+    this.addConfigureTool({
+      settings: {
+        tokens: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 1,
+          description: `Base token files or directories, relative to the project (default: ${DEFAULT_TOKEN_FILES.join(', ')})`
+        },
+        themes: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              files: { type: 'array', items: { type: 'string' }, minItems: 1 },
+              selector: { type: 'string' }
+            },
+            required: ['files'],
+            additionalProperties: false
+          },
+          description:
+            'Themes layered over the base tokens, e.g. { "dark": { "files": ["tokens.dark.json"], "selector": ".dark" } }; the selector defaults to [data-theme="<name>"]'
+        },
+        outputDir: {
+          type: 'string',
+          description: `Where build_tokens writes, relative to the project (default: ${DEFAULT_OUTPUT_DIR})`
+        },
+        formats: {
+          type: 'array',
+          items: { type: 'string', enum: FORMAT_NAMES },
+          description: 'Formats build_tokens emits by default (default: all)'
+        },
+        prefix: { type: 'string', description: 'Prefix for CSS variable names' },
+        remBase: {
+          type: 'number',
+          minimum: 1,
+          description: 'Pixels per rem when converting to iOS points and Android dp (default: 16)'
+        },
+        useVariables: {
+          type: 'boolean',
+          description:
+            'Point the Tailwind theme at the CSS variables so themes switch at runtime (default: true)'
+        }
+      }
+    });
+
+    this.addTool({
+      name: 'validate_tokens',
+      description:
+        'Load DTCG token files and check names, types, values and alias references, including each configured theme',
+      inputSchema: z.object({ projectPath: z.string().optional(), files }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const base = await this.load(root, args.files ?? settings.tokens);
+        const themes = await this.loadThemes(root, args.files ?? settings.tokens, settings);
+        const issues = themeIssues(base, themes);
+
+        const types: Record<string, number> = {};
+        for (const token of base.tokens.values()) types[token.type] = (types[token.type] ?? 0) + 1;
+        return {
+          valid: !issues.some(issue => issue.severity === 'error'),
+          tokens: base.tokens.size,
+          aliases: [...base.tokens.values()].filter(token => token.aliasOf).length,
+          types,
+          themes: themes.map(theme => theme.name),
+          errors: issues.filter(issue => issue.severity === 'error'),
+          warnings: issues.filter(issue => issue.severity === 'warning')
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'build_tokens',
+      description:
+        'Compile tokens to CSS variables, a Tailwind theme extension, TypeScript constants, Swift constants and Android resources',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        files,
+        formats: z.array(z.enum(FORMAT_NAMES as [FormatName, ...FormatName[]])).min(1).optional(),
+        outputDir: z.string().optional().describe('Relative to the project'),
+        dryRun: z.boolean().default(false).describe('Return the generated files instead of writing them')
+      }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const tokenFiles = args.files ?? settings.tokens;
+        const tokens = await this.load(root, tokenFiles);
+        const themes = await this.loadThemes(root, tokenFiles, settings);
+        const errors = themeIssues(tokens, themes).filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+          throw new ToolError('invalid_tokens', `${errors.length} token error(s); fix them before building`, errors);
+        }
+
+        const outputDir = resolve(root, args.outputDir ?? settings.outputDir);
+        const written: Array<{ format: FormatName; path: string; bytes: number; content?: string }> = [];
+        const skipped: Partial<Record<FormatName, string[]>> = {};
+        for (const format of args.formats ?? settings.formats) {
+          const output = FORMATS[format].build({ tokens, themes, options: settings.options });
+          if (output.skipped.length > 0) skipped[format] = output.skipped;
+          for (const file of output.files) {
+            const path = join(outputDir, file.path);
+            if (!args.dryRun) {
+              await fs.mkdir(dirname(path), { recursive: true });
+              await fs.writeFile(path, file.content);
+            }
+            written.push({
+              format,
+              path: relative(root, path),
+              bytes: Buffer.byteLength(file.content),
+              ...(args.dryRun && { content: file.content })
+            });
+          }
+        }
+        return { dryRun: args.dryRun, outputDir: relative(root, outputDir) || '.', files: written, skipped };
+      }
+    });
+
+    this.addTool({
+      name: 'diff_tokens',
+      description:
+        'Compare two token sets and report breaking changes (removed, renamed or retyped tokens) and other changes',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        baseline: z.array(z.string()).min(1).describe('Token files of the earlier set, relative to the project'),
+        current: files.describe('Token files of the new set (default: the configured tokens)')
+      }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const baseline = await this.load(root, args.baseline);
+        const current = await this.load(root, args.current ?? this.settings(context).tokens);
+        const diff = diffTokens(baseline, current);
+        const errors = [...baseline.issues, ...current.issues].filter(issue => issue.severity === 'error');
+        return { ...diff, ...(errors.length > 0 && { errors }) };
+      }
+    });
+  }
+
+  private root(context: ToolContext): string {
+    return resolve(this.requireProject(context));
+  }
+
+  private settings(context: ToolContext): Settings {
+    const settings = context.settings as Partial<{
+      tokens: string[];
+      themes: Record<string, ThemeSetting>;
+      outputDir: string;
+      formats: FormatName[];
+      prefix: string;
+      remBase: number;
+      useVariables: boolean;
+    }>;
+    return {
+      tokens: settings.tokens ?? DEFAULT_TOKEN_FILES,
+      themes: settings.themes ?? {},
+      outputDir: settings.outputDir ?? DEFAULT_OUTPUT_DIR,
+      formats: settings.formats ?? FORMAT_NAMES,
+      options: {
+        prefix: settings.prefix,
+        remBase: settings.remBase ?? 16,
+        useVariables: settings.useVariables ?? true
+      }
+    };
+  }
+
+  private async load(root: string, paths: string[]): Promise<TokenSet> {
+    const { sources, issues } = await readSources(root, paths);
+    const set = parseTokens(sources);
+    return { tokens: set.tokens, issues: [...issues, ...set.issues] };
+  }
+
+  private async loadThemes(root: string, base: string[], settings: Settings): Promise<ThemeTokens[]> {
+    const themes: ThemeTokens[] = [];
+    for (const [name, theme] of Object.entries(settings.themes)) {
+      themes.push({
+        name,
+        selector: theme.selector ?? `[data-theme="${name}"]`,
+        tokens: await this.load(root, [...base, ...theme.files])
+      });
+    }
+    return themes;
+  }
+}
+
+/**
+ * Issues of the base set plus those a theme introduces, tagged with the theme
+ */
+function themeIssues(base: TokenSet, themes: ThemeTokens[]): Array<TokenIssue & { theme?: string }> {
+  const key = (issue: TokenIssue) => `${issue.file}\0${issue.token}\0${issue.message}`;
+  const known = new Set(base.issues.map(key));
+  return [
+    ...base.issues,
+    ...themes.flatMap(theme =>
+      theme.tokens.issues.filter(issue => !known.has(key(issue))).map(issue => ({ ...issue, theme: theme.name }))
+    )
+  ];
+}
+
+/**
+ * Read token files; directories contribute their .json files in name order
+ */
+async function readSources(
+  root: string,
+  paths: string[]
+): Promise<{ sources: TokenSource[]; issues: TokenIssue[] }> {
+  const sources: TokenSource[] = [];
+  const issues: TokenIssue[] = [];
+
+  async function read(path: string): Promise<void> {
+    const stat = await fs.stat(path).catch(() => undefined);
+    if (!stat) throw new ToolError('not_found', `Token file not found: ${relative(root, path)}`);
+    if (stat.isDirectory()) {
+      const entries = (await fs.readdir(path, { withFileTypes: true })).sort((a, b) =>
+        a.name.localeCompare(b.name)
+      );
+      for (const entry of entries) {
+        if (entry.isDirectory() || entry.name.endsWith('.json')) await read(join(path, entry.name));
+      }
+      return;
+    }
+    const file = relative(root, path);
+    try {
+      sources.push({ file, data: JSON.parse(await fs.readFile(path, 'utf-8')) });
+    } catch (error) {
+      issues.push({ severity: 'error', message: `Invalid JSON: ${(error as Error).message}`, file });
+    }
+  }
+
+  for (const path of paths) await read(resolve(root, path));
+  return { sources, issues };
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { parseTokens } from './tokens.js';
+import { parseColor, parseDimension, toHex } from './values.js';
+
+function parse(data: unknown, ...overrides: unknown[]) {
+  return parseTokens([
+    { file: 'tokens.json', data },
+    ...overrides.map((override, i) => ({ file: `theme-${i}.json`, data: override }))
+  ]);
+}
+
+describe('parseTokens', () => {
+  it('should flatten groups and inherit $type', () => {
+    const set = parse({
+      color: {
+        $type: 'color',
+        blue: { 600: { $value: '#2563eb', $description: 'Brand blue' } }
+      },
+      spacing: { md: { $type: 'dimension', $value: '1rem' } }
+    });
+    expect(set.issues).toEqual([]);
+    expect(set.tokens.get('color.blue.600')).toEqual({
+      name: 'color.blue.600',
+      path: ['color', 'blue', '600'],
+      type: 'color',
+      value: '#2563eb',
+      resolved: '#2563eb',
+      description: 'Brand blue',
+      file: 'tokens.json'
+    });
+    expect(set.tokens.get('spacing.md')?.type).toBe('dimension');
+  });
+
+  it('should resolve aliases through chains and inside composite values', () => {
+    const set = parse({
+      color: {
+        $type: 'color',
+        black: { $value: '#000000' },
+        text: { $value: '{color.black}' },
+        body: { $value: '{color.text}' }
+      },
+      shadow: {
+        card: {
+          $type: 'shadow',
+          $value: { color: '{color.black}', offsetX: '0px', offsetY: '1px', blur: '2px' }
+        }
+      }
+    });
+    expect(set.issues).toEqual([]);
+    expect(set.tokens.get('color.body')).toMatchObject({
+      type: 'color',
+      aliasOf: 'color.text',
+      resolved: '#000000'
+    });
+    expect(set.tokens.get('shadow.card')?.resolved).toMatchObject({ color: '#000000' });
+  });
+
+  it('should report unknown, circular and group references', () => {
+    const set = parse({
+      color: {
+        $type: 'color',
+        a: { $value: '{color.b}' },
+        b: { $value: '{color.a}' },
+        c: { $value: '{color.missing}' },
+        d: { $value: '{color}' },
+        e: { $value: '{color.c}' }
+      }
+    });
+    expect(set.tokens.size).toBe(0);
+    expect(set.issues.map(issue => [issue.token, issue.message])).toEqual([
+      ['color.a', 'Circular reference: color.a → color.b → color.a'],
+      ['color.b', 'Circular reference: color.b → color.a → color.b'],
+      ['color.c', 'Unknown reference {color.missing}'],
+      ['color.d', 'Reference {color} points to a group, not a token'],
+      ['color.e', 'Reference {color.c} points to an invalid token']
+    ]);
+  });
+
+  it('should check values and alias types against $type', () => {
+    const set = parse({
+      size: { $type: 'dimension', sm: { $value: '8pt' }, md: { $value: { value: 16, unit: 'px' } } },
+      color: { red: { $type: 'color', $value: '{size.md}' }, blue: { $type: 'color', $value: 'blu' } },
+      weight: { $type: 'fontWeight', bold: { $value: 'bold' }, huge: { $value: 1200 } },
+      loose: { $value: 4 },
+      legacy: { value: '#fff' },
+      odd: { $type: 'colour', $value: '#fff' }
+    });
+    expect([...set.tokens.keys()]).toEqual(['size.md', 'weight.bold']);
+    expect(set.issues.map(issue => [issue.token, issue.message])).toEqual([
+      ['legacy.value', 'Expected a token with $value or a group object'],
+      ['size.sm', 'Invalid dimension: "8pt" (expected a number with px, rem, em or %)'],
+      ['color.red', 'Type mismatch: color token refers to dimension token {size.md}'],
+      ['color.blue', 'Invalid color: "blu"'],
+      ['weight.huge', 'Invalid font weight: 1200'],
+      ['loose', 'No $type on the token or its groups'],
+      ['odd', 'Unknown $type "colour"']
+    ]);
+  });
+
+  it('should layer later files over earlier ones, keeping the type', () => {
+    const set = parse(
+      { color: { $type: 'color', bg: { $value: '#ffffff', $deprecated: 'Use surface' } } },
+      { color: { bg: { $value: '#111827' } } }
+    );
+    expect(set.issues).toEqual([]);
+    expect(set.tokens.get('color.bg')).toMatchObject({
+      type: 'color',
+      resolved: '#111827',
+      deprecated: 'Use surface',
+      file: 'theme-0.json'
+    });
+  });
+
+  it('should warn about aliases of deprecated tokens and unknown properties', () => {
+    const set = parse({
+      color: {
+        $type: 'color',
+        old: { $value: '#fff', $deprecated: true },
+        bg: { $value: '{color.old}', value: 'ignored' }
+      }
+    });
+    expect(set.tokens.size).toBe(2);
+    expect(set.issues).toEqual([
+      { severity: 'warning', message: 'Unknown token property "value"', token: 'color.bg', file: 'tokens.json' },
+      { severity: 'warning', message: 'Refers to deprecated token {color.old}', token: 'color.bg', file: 'tokens.json' }
+    ]);
+  });
+});
+
+describe('values', () => {
+  it('should parse the color notations', () => {
+    expect(toHex(parseColor('#F00')!)).toBe('#ff0000');
+    expect(toHex(parseColor('rgb(37 99 235 / 50%)')!)).toBe('#2563eb80');
+    expect(toHex(parseColor('hsl(0, 100%, 50%)')!)).toBe('#ff0000');
+    expect(toHex(parseColor({ colorSpace: 'srgb', components: [0, 0, 1], alpha: 1 })!)).toBe('#0000ff');
+    expect(parseColor('blue')).toBeUndefined();
+  });
+
+  it('should parse dimensions as strings and objects', () => {
+    expect(parseDimension('1.5rem')).toEqual({ value: 1.5, unit: 'rem' });
+    expect(parseDimension({ value: 4, unit: 'px' })).toEqual({ value: 4, unit: 'px' });
+    expect(parseDimension('0')).toEqual({ value: 0, unit: 'px' });
+    expect(parseDimension('12')).toBeUndefined();
+  });
+});
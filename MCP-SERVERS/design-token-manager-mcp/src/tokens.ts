@@ -0,0 +1,214 @@
+/**
+ * Load DTCG token documents, resolve aliases and validate values
+ */
+
+import { checkValue } from './values.js';
+import { DesignToken, TOKEN_TYPES, TokenIssue, TokenSet, TokenSource, TokenType } from './types.js';
+
+const ALIAS = /^\{([^{}]+)\}$/;
+const TOKEN_PROPERTIES = ['$value', '$type', '$description', '$extensions', '$deprecated'];
+
+interface RawToken {
+  name: string;
+  path: string[];
+  type?: string;
+  value: unknown;
+  description?: string;
+  deprecated?: boolean | string;
+  file: string;
+}
+
+class ResolveError extends Error {}
+class CircularReferenceError extends ResolveError {}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Name of the token a value refers to, if it is an alias */
+export function aliasTarget(value: unknown): string | undefined {
+  return typeof value === 'string' ? value.match(ALIAS)?.[1].trim() : undefined;
+}
+
+/**
+ * Flatten one document into tokens, inheriting $type from enclosing groups
+ */
+function collect(
+  source: TokenSource,
+  node: Record<string, unknown>,
+  path: string[],
+  inheritedType: string | undefined,
+  raw: Map<string, RawToken>,
+  groups: Set<string>,
+  issues: TokenIssue[]
+): void {
+  const type = typeof node.$type === 'string' ? node.$type : inheritedType;
+  if (path.length > 0) groups.add(path.join('.'));
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key.startsWith('$')) continue;
+    const childPath = [...path, key];
+    const name = childPath.join('.');
+    if (/[.{}]/.test(key)) {
+      issues.push({
+        severity: 'error',
+        message: `Invalid name "${key}": names cannot contain ".", "{" or "}"`,
+        token: name,
+        file: source.file
+      });
+      continue;
+    }
+    if (!isObject(child)) {
+      issues.push({
+        severity: 'error',
+        message: 'Expected a token with $value or a group object',
+        token: name,
+        file: source.file
+      });
+      continue;
+    }
+    if (!('$value' in child)) {
+      collect(source, child, childPath, type, raw, groups, issues);
+      continue;
+    }
+
+    for (const property of Object.keys(child)) {
+      if (!TOKEN_PROPERTIES.includes(property)) {
+        issues.push({
+          severity: 'warning',
+          message: `Unknown token property "${property}"`,
+          token: name,
+          file: source.file
+        });
+      }
+    }
+    const previous = raw.get(name);
+    raw.set(name, {
+      name,
+      path: childPath,
+      type: typeof child.$type === 'string' ? child.$type : (type ?? previous?.type),
+      value: child.$value,
+      description:
+        typeof child.$description === 'string' ? child.$description : previous?.description,
+      deprecated:
+        typeof child.$deprecated === 'boolean' || typeof child.$deprecated === 'string'
+          ? child.$deprecated
+          : previous?.deprecated,
+      file: source.file
+    });
+  }
+}
+
+/**
+ * Parse token documents into one set. Later documents override tokens of
+ * the same name, which is how theme files are layered over a base set.
+ */
+export function parseTokens(sources: TokenSource[]): TokenSet {
+  const raw = new Map<string, RawToken>();
+  const groups = new Set<string>();
+  const issues: TokenIssue[] = [];
+
+  for (const source of sources) {
+    if (!isObject(source.data)) {
+      issues.push({ severity: 'error', message: 'Expected a JSON object', file: source.file });
+      continue;
+    }
+    collect(source, source.data, [], undefined, raw, groups, issues);
+  }
+
+  const resolved = new Map<string, DesignToken>();
+
+  function resolveValue(value: unknown, stack: string[]): unknown {
+    const target = aliasTarget(value);
+    if (target !== undefined) {
+      if (!raw.has(target)) {
+        throw new ResolveError(
+          groups.has(target)
+            ? `Reference {${target}} points to a group, not a token`
+            : `Unknown reference {${target}}`
+        );
+      }
+      try {
+        return resolveToken(target, stack).resolved;
+      } catch (error) {
+        if (error instanceof CircularReferenceError) throw error;
+        throw new ResolveError(`Reference {${target}} points to an invalid token`);
+      }
+    }
+    if (Array.isArray(value)) return value.map(item => resolveValue(item, stack));
+    if (isObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, resolveValue(item, stack)])
+      );
+    }
+    return value;
+  }
+
+  function resolveToken(name: string, stack: string[]): DesignToken {
+    const done = resolved.get(name);
+    if (done) return done;
+    if (stack.includes(name)) {
+      throw new CircularReferenceError(`Circular reference: ${[...stack, name].join(' → ')}`);
+    }
+    const token = raw.get(name)!;
+
+    const aliasOf = aliasTarget(token.value);
+    const value = resolveValue(token.value, [...stack, name]);
+    let type = token.type;
+    if (aliasOf !== undefined) {
+      const target = resolved.get(aliasOf)!;
+      if (type === undefined) {
+        type = target.type;
+      } else if (type !== target.type) {
+        throw new ResolveError(
+          `Type mismatch: ${type} token refers to ${target.type} token {${aliasOf}}`
+        );
+      }
+      if (target.deprecated) {
+        issues.push({
+          severity: 'warning',
+          message: `Refers to deprecated token {${aliasOf}}`,
+          token: name,
+          file: token.file
+        });
+      }
+    }
+    if (type === undefined) throw new ResolveError('No $type on the token or its groups');
+    if (!(TOKEN_TYPES as readonly string[]).includes(type)) {
+      throw new ResolveError(`Unknown $type "${type}"`);
+    }
+    const problem = checkValue(type, value);
+    if (problem) throw new ResolveError(problem);
+
+    const result: DesignToken = {
+      name,
+      path: token.path,
+      type: type as TokenType,
+      value: token.value,
+      resolved: value,
+      ...(aliasOf !== undefined && { aliasOf }),
+      ...(token.description !== undefined && { description: token.description }),
+      ...(token.deprecated !== undefined && { deprecated: token.deprecated }),
+      file: token.file
+    };
+    resolved.set(name, result);
+    return result;
+  }
+
+  for (const token of raw.values()) {
+    try {
+      resolveToken(token.name, []);
+    } catch (error) {
+      if (!(error instanceof ResolveError)) throw error;
+      issues.push({ severity: 'error', message: error.message, token: token.name, file: token.file });
+    }
+  }
+
+  // Keep document order rather than resolution order
+  const tokens = new Map<string, DesignToken>();
+  for (const name of raw.keys()) {
+    const token = resolved.get(name);
+    if (token) tokens.set(name, token);
+  }
+  return { tokens, issues };
+}
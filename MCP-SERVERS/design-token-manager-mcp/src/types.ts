@@ -0,0 +1,58 @@
+/**
+ * Design tokens in the W3C Design Tokens Community Group (DTCG) format
+ *
+ * https://design-tokens.github.io/community-group/format/
+ */
+
+export const TOKEN_TYPES = [
+  'color',
+  'dimension',
+  'fontFamily',
+  'fontWeight',
+  'duration',
+  'cubicBezier',
+  'number',
+  'strokeStyle',
+  'border',
+  'transition',
+  'shadow',
+  'gradient',
+  'typography'
+] as const;
+
+export type TokenType = (typeof TOKEN_TYPES)[number];
+
+export interface DesignToken {
+  /** Dot-separated path, e.g. "color.primary.default" */
+  name: string;
+  path: string[];
+  type: TokenType;
+  /** $value as written, aliases included */
+  value: unknown;
+  /** $value with every alias replaced by the referenced value */
+  resolved: unknown;
+  /** Token the value is an alias of, e.g. "color.blue.600" */
+  aliasOf?: string;
+  description?: string;
+  deprecated?: boolean | string;
+  /** Token file that defined the value */
+  file?: string;
+}
+
+export interface TokenIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  token?: string;
+  file?: string;
+}
+
+export interface TokenSet {
+  /** Tokens by name, in document order */
+  tokens: Map<string, DesignToken>;
+  issues: TokenIssue[];
+}
+
+export interface TokenSource {
+  file: string;
+  data: unknown;
+}
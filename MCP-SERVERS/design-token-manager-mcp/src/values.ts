@@ -0,0 +1,388 @@
+/**
+ * Parsing and conversion of DTCG token values
+ */
+
+import { DesignToken } from './types.js';
+
+export interface RGBA {
+  /** 0-1 */
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface Dimension {
+  value: number;
+  unit: string;
+}
+
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  'extra-light': 200,
+  'ultra-light': 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  'semi-bold': 600,
+  'demi-bold': 600,
+  bold: 700,
+  'extra-bold': 800,
+  'ultra-bold': 800,
+  black: 900,
+  heavy: 900,
+  'extra-black': 950,
+  'ultra-black': 950
+};
+
+const STROKE_STYLES = ['solid', 'dashed', 'dotted', 'double', 'groove', 'ridge', 'outset', 'inset'];
+const DIMENSION_UNITS = ['px', 'rem', 'em', '%'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Colors as hex (#rgb, #rgba, #rrggbb, #rrggbbaa), rgb()/rgba(), hsl()/hsla(),
+ * or the DTCG object form with an sRGB color space or hex fallback
+ */
+export function parseColor(value: unknown): RGBA | undefined {
+  if (isObject(value)) {
+    const alpha = typeof value.alpha === 'number' ? value.alpha : 1;
+    const components = value.components;
+    if (
+      value.colorSpace === 'srgb' &&
+      Array.isArray(components) &&
+      components.length === 3 &&
+      components.every(c => typeof c === 'number')
+    ) {
+      const [r, g, b] = components as number[];
+      return { r, g, b, a: alpha };
+    }
+    if (typeof value.hex === 'string') {
+      const parsed = parseColor(value.hex);
+      return parsed && { ...parsed, a: alpha };
+    }
+    return undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+  const color = value.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = [...digits].map(d => d + d).join('');
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255;
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) : 1 };
+  }
+
+  const fn = color.match(/^(rgba?|hsla?)\((.*)\)$/);
+  if (!fn) return undefined;
+  const parts = fn[2].split(/[\s,/]+/).filter(Boolean);
+  if (parts.length !== 3 && parts.length !== 4) return undefined;
+  const alpha = parts.length === 4 ? parsePercent(parts[3], 1) : 1;
+  if (alpha === undefined) return undefined;
+
+  if (fn[1].startsWith('rgb')) {
+    const channels = parts.slice(0, 3).map(p => parsePercent(p, 255));
+    if (channels.some(c => c === undefined)) return undefined;
+    const [r, g, b] = channels as number[];
+    return { r, g, b, a: alpha };
+  }
+
+  const hue = parseFloat(parts[0]);
+  const saturation = parsePercent(parts[1], 100);
+  const lightness = parsePercent(parts[2], 100);
+  if (Number.isNaN(hue) || saturation === undefined || lightness === undefined) return undefined;
+  return { ...hslToRgb(hue, saturation, lightness), a: alpha };
+}
+
+/** "50%" or a number out of `scale`, as 0-1 */
+function parsePercent(part: string, scale: number): number | undefined {
+  const number = parseFloat(part);
+  if (Number.isNaN(number)) return undefined;
+  const fraction = part.endsWith('%') ? number / 100 : number / scale;
+  return Math.min(1, Math.max(0, fraction));
+}
+
+function hslToRgb(hue: number, s: number, l: number): Omit<RGBA, 'a'> {
+  const k = (n: number) => (n + ((hue % 360) + 360) / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return { r: f(0), g: f(8), b: f(4) };
+}
+
+export function toHex(color: RGBA): string {
+  const channel = (c: number) =>
+    Math.round(c * 255)
+      .toString(16)
+      .padStart(2, '0');
+  const hex = `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+  return color.a < 1 ? hex + channel(color.a) : hex;
+}
+
+/** "16px", "1.5rem", "0" or { value: 16, unit: 'px' } */
+export function parseDimension(value: unknown): Dimension | undefined {
+  if (isObject(value)) {
+    if (typeof value.value === 'number' && typeof value.unit === 'string') {
+      return DIMENSION_UNITS.includes(value.unit) ? { value: value.value, unit: value.unit } : undefined;
+    }
+    return undefined;
+  }
+  if (value === 0 || value === '0') return { value: 0, unit: 'px' };
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^(-?\d*\.?\d+)(px|rem|em|%)$/);
+  return match ? { value: parseFloat(match[1]), unit: match[2] } : undefined;
+}
+
+/** Pixels (points/dp on native platforms); rem and em are relative to `remBase` */
+export function toPixels(dimension: Dimension, remBase: number): number | undefined {
+  if (dimension.unit === 'px') return dimension.value;
+  if (dimension.unit === 'rem' || dimension.unit === 'em') return round(dimension.value * remBase);
+  return undefined;
+}
+
+/** "200ms", "0.2s" or { value: 200, unit: 'ms' }, in milliseconds */
+export function parseDuration(value: unknown): number | undefined {
+  let amount: number;
+  let unit: string;
+  if (isObject(value)) {
+    if (typeof value.value !== 'number' || typeof value.unit !== 'string') return undefined;
+    amount = value.value;
+    unit = value.unit;
+  } else if (typeof value === 'string') {
+    const match = value.trim().match(/^(\d*\.?\d+)(ms|s)$/);
+    if (!match) return undefined;
+    amount = parseFloat(match[1]);
+    unit = match[2];
+  } else {
+    return undefined;
+  }
+  if (unit === 'ms') return amount;
+  if (unit === 's') return round(amount * 1000);
+  return undefined;
+}
+
+/** Numeric weight, 1-1000, from a number or a DTCG keyword */
+export function parseFontWeight(value: unknown): number | undefined {
+  if (typeof value === 'number') return value >= 1 && value <= 1000 ? value : undefined;
+  if (typeof value === 'string') return FONT_WEIGHTS[value];
+  return undefined;
+}
+
+function isCubicBezier(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === 4 &&
+    value.every(n => typeof n === 'number') &&
+    value[0] >= 0 &&
+    value[0] <= 1 &&
+    value[2] >= 0 &&
+    value[2] <= 1
+  );
+}
+
+function requireKeys(value: unknown, keys: string[]): string | undefined {
+  if (!isObject(value)) return 'Expected an object';
+  const missing = keys.filter(key => !(key in value));
+  return missing.length > 0 ? `Missing ${missing.join(', ')}` : undefined;
+}
+
+/**
+ * Check a resolved value against its type; returns the problem, if any
+ */
+export function checkValue(type: string, value: unknown): string | undefined {
+  switch (type) {
+    case 'color':
+      return parseColor(value) ? undefined : `Invalid color: ${JSON.stringify(value)}`;
+    case 'dimension':
+      return parseDimension(value)
+        ? undefined
+        : `Invalid dimension: ${JSON.stringify(value)} (expected a number with px, rem, em or %)`;
+    case 'fontFamily':
+      return typeof value === 'string' ||
+        (Array.isArray(value) && value.length > 0 && value.every(f => typeof f === 'string'))
+        ? undefined
+        : 'Expected a font name or a list of font names';
+    case 'fontWeight':
+      return parseFontWeight(value) !== undefined
+        ? undefined
+        : `Invalid font weight: ${JSON.stringify(value)}`;
+    case 'duration':
+      return parseDuration(value) !== undefined
+        ? undefined
+        : `Invalid duration: ${JSON.stringify(value)} (expected ms or s)`;
+    case 'cubicBezier':
+      return isCubicBezier(value)
+        ? undefined
+        : 'Expected [x1, y1, x2, y2] with x values between 0 and 1';
+    case 'number':
+      return typeof value === 'number' ? undefined : 'Expected a number';
+    case 'strokeStyle':
+      return (typeof value === 'string' && STROKE_STYLES.includes(value)) ||
+        requireKeys(value, ['dashArray', 'lineCap']) === undefined
+        ? undefined
+        : `Invalid stroke style: ${JSON.stringify(value)}`;
+    case 'border':
+      return checkParts(value, { color: 'color', width: 'dimension', style: 'strokeStyle' });
+    case 'transition':
+      return checkParts(value, {
+        duration: 'duration',
+        delay: 'duration',
+        timingFunction: 'cubicBezier'
+      });
+    case 'shadow': {
+      const shadows = Array.isArray(value) ? value : [value];
+      for (const shadow of shadows) {
+        const problem = checkParts(
+          shadow,
+          { color: 'color', offsetX: 'dimension', offsetY: 'dimension', blur: 'dimension' },
+          { spread: 'dimension' }
+        );
+        if (problem) return problem;
+      }
+      return undefined;
+    }
+    case 'gradient': {
+      if (!Array.isArray(value) || value.length === 0) return 'Expected a list of gradient stops';
+      for (const stop of value) {
+        const problem = checkParts(stop, { color: 'color', position: 'number' });
+        if (problem) return problem;
+      }
+      return undefined;
+    }
+    case 'typography':
+      return checkParts(
+        value,
+        { fontFamily: 'fontFamily', fontSize: 'dimension', fontWeight: 'fontWeight' },
+        { letterSpacing: 'dimension', lineHeight: 'number' }
+      );
+    default:
+      return undefined;
+  }
+}
+
+function checkParts(
+  value: unknown,
+  required: Record<string, string>,
+  optional: Record<string, string> = {}
+): string | undefined {
+  const missing = requireKeys(value, Object.keys(required));
+  if (missing) return missing;
+  const parts = value as Record<string, unknown>;
+  for (const [key, type] of Object.entries({ ...required, ...optional })) {
+    if (!(key in parts)) continue;
+    const problem = checkValue(type, parts[key]);
+    if (problem) return `${key}: ${problem}`;
+  }
+  return undefined;
+}
+
+export interface CssOptions {
+  /** Emit var(--alias) for aliases instead of the resolved value */
+  references?: boolean;
+  prefix?: string;
+}
+
+/** CSS custom property name for a token path */
+export function cssVariableName(path: string[], prefix?: string): string {
+  const name = path.map(kebabCase).join('-');
+  return `--${prefix ? `${kebabCase(prefix)}-` : ''}${name}`;
+}
+
+export function kebabCase(segment: string): string {
+  return segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^a-zA-Z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+function cssDimension(value: unknown): string {
+  const dimension = parseDimension(value);
+  if (!dimension) return String(value);
+  return dimension.value === 0 ? '0' : `${dimension.value}${dimension.unit}`;
+}
+
+function cssColor(value: unknown): string {
+  if (typeof value === 'string') return value;
+  const color = parseColor(value);
+  return color ? toHex(color) : String(value);
+}
+
+function cssFontFamily(value: unknown): string {
+  const families = Array.isArray(value) ? value : [value];
+  return families
+    .map(family => (/^[a-z-]+$/i.test(String(family)) ? String(family) : `"${family}"`))
+    .join(', ');
+}
+
+/** CSS for a resolved value of the given type */
+export function cssValue(type: string, value: unknown): string {
+  switch (type) {
+    case 'color':
+      return cssColor(value);
+    case 'dimension':
+      return cssDimension(value);
+    case 'fontFamily':
+      return cssFontFamily(value);
+    case 'fontWeight':
+      return String(parseFontWeight(value) ?? value);
+    case 'duration':
+      return `${parseDuration(value) ?? value}ms`;
+    case 'cubicBezier':
+      return `cubic-bezier(${(value as number[]).join(', ')})`;
+    case 'strokeStyle':
+      return typeof value === 'string' ? value : 'dashed';
+    case 'border': {
+      const border = value as Record<string, unknown>;
+      return `${cssDimension(border.width)} ${cssValue('strokeStyle', border.style)} ${cssColor(border.color)}`;
+    }
+    case 'transition': {
+      const transition = value as Record<string, unknown>;
+      return `${cssValue('duration', transition.duration)} ${cssValue('cubicBezier', transition.timingFunction)} ${cssValue('duration', transition.delay)}`;
+    }
+    case 'shadow':
+      return (Array.isArray(value) ? value : [value])
+        .map((shadow: Record<string, unknown>) =>
+          [
+            shadow.inset === true ? 'inset' : '',
+            cssDimension(shadow.offsetX),
+            cssDimension(shadow.offsetY),
+            cssDimension(shadow.blur),
+            cssDimension(shadow.spread ?? 0),
+            cssColor(shadow.color)
+          ]
+            .filter(Boolean)
+            .join(' ')
+        )
+        .join(', ');
+    case 'gradient':
+      return `linear-gradient(${(value as Array<Record<string, unknown>>)
+        .map(stop => `${cssColor(stop.color)} ${round(Number(stop.position) * 100)}%`)
+        .join(', ')})`;
+    case 'typography': {
+      const typography = value as Record<string, unknown>;
+      const lineHeight = typography.lineHeight !== undefined ? `/${typography.lineHeight}` : '';
+      return `${cssValue('fontWeight', typography.fontWeight)} ${cssDimension(typography.fontSize)}${lineHeight} ${cssFontFamily(typography.fontFamily)}`;
+    }
+    default:
+      return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
+
+/** CSS value of a token, keeping aliases as var() references when asked */
+export function tokenCssValue(token: DesignToken, options: CssOptions = {}): string {
+  if (options.references && token.aliasOf) {
+    return `var(${cssVariableName(token.aliasOf.split('.'), options.prefix)})`;
+  }
+  return cssValue(token.type, token.resolved);
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { formatCatalog, readCatalog, writeCatalog } from './catalogs.js';
+
+describe('catalogs', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'i18n-catalogs-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should flatten nested JSON and keep its layout when written back', async () => {
+    const path = join(dir, 'en.json');
+    await fs.writeFile(path, JSON.stringify({ auth: { login: 'Log in', errors: { required: 'Required' } }, count: 3 }));
+    const catalog = await readCatalog('en', path);
+    expect(Object.fromEntries(catalog.messages)).toEqual({ 'auth.login': 'Log in', 'auth.errors.required': 'Required' });
+    expect(catalog.problems).toEqual(['count: expected a string, found number']);
+
+    catalog.messages.set('auth.logout', 'Log out');
+    await writeCatalog(catalog);
+    expect(JSON.parse(await fs.readFile(path, 'utf-8'))).toEqual({
+      auth: { login: 'Log in', errors: { required: 'Required' }, logout: 'Log out' }
+    });
+  });
+
+  it('should detect flat JSON catalogs', async () => {
+    const path = join(dir, 'de.json');
+    await fs.writeFile(path, JSON.stringify({ 'auth.login': 'Anmelden' }));
+    const catalog = await readCatalog('de', path);
+    expect(catalog.style).toBe('flat');
+    expect(formatCatalog(catalog)).toBe('{\n  "auth.login": "Anmelden"\n}\n');
+  });
+
+  it('should read an absent catalog as empty', async () => {
+    const catalog = await readCatalog('fr', join(dir, 'missing/fr.po'));
+    expect(catalog).toMatchObject({ exists: false, format: 'po' });
+    expect(catalog.messages.size).toBe(0);
+  });
+
+  it('should round-trip PO entries with comments, fuzzy flags and multi-line strings', async () => {
+    const path = join(dir, 'fr.po');
+    await fs.writeFile(
+      path,
+      [
+        'msgid ""',
+        'msgstr ""',
+        '"Language: fr\\n"',
+        '',
+        '#. Log in',
+        '#: src/Login.tsx:4',
+        '#, fuzzy',
+        'msgid "auth.login"',
+        'msgstr "Se connecter"',
+        '',
+        'msgid "help"',
+        'msgstr ""',
+        '"Ligne un\\n"',
+        '"Ligne \\"deux\\""',
+        '',
+        '#~ msgid "old"',
+        '#~ msgstr "ancien"',
+        ''
+      ].join('\n')
+    );
+    const catalog = await readCatalog('fr', path);
+    expect(Object.fromEntries(catalog.messages)).toEqual({ 'auth.login': 'Se connecter', help: 'Ligne un\nLigne "deux"' });
+    expect(catalog.meta.get('auth.login')).toEqual({ source: 'Log in', references: ['src/Login.tsx:4'], fuzzy: true });
+
+    await writeCatalog(catalog);
+    const written = await fs.readFile(path, 'utf-8');
+    expect(written).toContain('#. Log in\n#: src/Login.tsx:4\n#, fuzzy\nmsgid "auth.login"\nmsgstr "Se connecter"');
+    expect(written).toContain('msgid "help"\nmsgstr ""\n"Ligne un\\n"\n"Ligne \\"deux\\""');
+    expect(Object.fromEntries((await readCatalog('fr', path)).messages)).toEqual(Object.fromEntries(catalog.messages));
+  });
+
+  it('should report gettext plurals as unsupported', async () => {
+    const path = join(dir, 'de.po');
+    await fs.writeFile(path, 'msgid "item"\nmsgid_plural "items"\nmsgstr[0] "Artikel"\nmsgstr[1] "Artikel"\n');
+    const catalog = await readCatalog('de', path);
+    expect(catalog.messages.size).toBe(0);
+    expect(catalog.problems).toEqual([
+      'item: gettext plural forms not supported; the msgid is the message key and plurals are ICU'
+    ]);
+  });
+});
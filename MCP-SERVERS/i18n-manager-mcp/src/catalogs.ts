@@ -0,0 +1,228 @@
+/**
+ * Per-locale message catalogs in JSON (nested or flat keys) or gettext PO
+ *
+ * Both are read into the same flat key → message map. PO entries use the
+ * message key as msgid; `#, fuzzy` marks a translation as stale.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, extname } from 'path';
+
+export type CatalogFormat = 'json' | 'po';
+export type JsonStyle = 'nested' | 'flat';
+
+export interface CatalogEntryMeta {
+  /** Source-locale message, shown to translators (PO #.) */
+  source?: string;
+  /** Where the key is used, as file:line (PO #:) */
+  references?: string[];
+  fuzzy?: boolean;
+}
+
+export interface Catalog {
+  locale: string;
+  path: string;
+  format: CatalogFormat;
+  exists: boolean;
+  messages: Map<string, string>;
+  meta: Map<string, CatalogEntryMeta>;
+  /** Layout of a JSON catalog, kept when it is written back */
+  style: JsonStyle;
+  /** Entries that could not be read, e.g. non-string JSON values */
+  problems: string[];
+}
+
+export function catalogFormat(path: string): CatalogFormat {
+  return extname(path) === '.po' ? 'po' : 'json';
+}
+
+export function emptyCatalog(locale: string, path: string, style: JsonStyle = 'nested'): Catalog {
+  return {
+    locale,
+    path,
+    format: catalogFormat(path),
+    exists: false,
+    messages: new Map(),
+    meta: new Map(),
+    style,
+    problems: []
+  };
+}
+
+export async function readCatalog(locale: string, path: string, style: JsonStyle = 'nested'): Promise<Catalog> {
+  const catalog = emptyCatalog(locale, path, style);
+  let text: string;
+  try {
+    text = await fs.readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return catalog;
+    throw error;
+  }
+  catalog.exists = true;
+  if (catalog.format === 'po') {
+    parsePo(text, catalog);
+  } else {
+    parseJson(text, catalog);
+  }
+  return catalog;
+}
+
+function parseJson(text: string, catalog: Catalog): void {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${catalog.path} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`${catalog.path} must contain a JSON object`);
+  }
+  const values = Object.values(data);
+  if (values.some(value => typeof value === 'object' && value !== null)) {
+    catalog.style = 'nested';
+  } else if (Object.keys(data).some(key => key.includes('.'))) {
+    catalog.style = 'flat';
+  }
+
+  const visit = (node: Record<string, unknown>, prefix: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (typeof value === 'string') {
+        catalog.messages.set(path, value);
+      } else if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        visit(value as Record<string, unknown>, path);
+      } else {
+        catalog.problems.push(`${path}: expected a string, found ${Array.isArray(value) ? 'an array' : typeof value}`);
+      }
+    }
+  };
+  visit(data as Record<string, unknown>, '');
+}
+
+function unquote(line: string): string {
+  const match = line.match(/"((?:[^"\\]|\\.)*)"\s*$/);
+  if (!match) return '';
+  return match[1].replace(/\\(.)/g, (_, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      default:
+        return char;
+    }
+  });
+}
+
+function parsePo(text: string, catalog: Catalog): void {
+  const blocks = text.replace(/\r\n/g, '\n').split(/\n\s*\n/);
+  for (const block of blocks) {
+    const meta: CatalogEntryMeta = {};
+    const fields: Record<string, string> = {};
+    let field: string | undefined;
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('#~')) {
+        field = undefined; // obsolete entry
+        continue;
+      }
+      if (line.startsWith('#.')) {
+        const comment = line.slice(2).trim();
+        meta.source = meta.source === undefined ? comment : `${meta.source}\n${comment}`;
+      } else if (line.startsWith('#:')) {
+        meta.references = [...(meta.references ?? []), ...line.slice(2).trim().split(/\s+/)];
+      } else if (line.startsWith('#,')) {
+        if (line.includes('fuzzy')) meta.fuzzy = true;
+      } else if (line.startsWith('#')) {
+        continue;
+      } else if (line.startsWith('"')) {
+        if (field) fields[field] += unquote(line);
+      } else {
+        const match = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s/);
+        if (match) {
+          field = match[1];
+          fields[field] = unquote(line);
+        }
+      }
+    }
+
+    if (!('msgid' in fields) || fields.msgid === '') continue; // header or comment-only block
+    const key = fields.msgid;
+    if ('msgid_plural' in fields || 'msgctxt' in fields) {
+      catalog.problems.push(
+        `${key}: ${'msgctxt' in fields ? 'msgctxt' : 'gettext plural forms'} not supported; the msgid is the message key and plurals are ICU`
+      );
+      continue;
+    }
+    catalog.messages.set(key, fields.msgstr ?? '');
+    if (Object.keys(meta).length > 0) catalog.meta.set(key, meta);
+  }
+}
+
+function poString(value: string): string {
+  const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t');
+  if (!value.includes('\n')) return `"${escaped}"`;
+  // Multi-line strings start empty and break after each \n, like msgmerge
+  const lines = escaped.split('\n').map((line, i, all) => (i < all.length - 1 ? `${line}\\n` : line));
+  return ['""', ...lines.filter(line => line !== '').map(line => `"${line}"`)].join('\n');
+}
+
+function formatPo(catalog: Catalog): string {
+  const header = [
+    'msgid ""',
+    'msgstr ""',
+    `"Language: ${catalog.locale}\\n"`,
+    '"MIME-Version: 1.0\\n"',
+    '"Content-Type: text/plain; charset=UTF-8\\n"',
+    '"Content-Transfer-Encoding: 8bit\\n"',
+    '"X-Generator: i18n-manager-mcp\\n"'
+  ].join('\n');
+
+  const entries = [...catalog.messages].map(([key, message]) => {
+    const meta = catalog.meta.get(key) ?? {};
+    const lines: string[] = [];
+    if (meta.source !== undefined) {
+      lines.push(...meta.source.split('\n').map(line => `#. ${line}`));
+    }
+    if (meta.references?.length) lines.push(`#: ${meta.references.join(' ')}`);
+    if (meta.fuzzy) lines.push('#, fuzzy');
+    lines.push(`msgid ${poString(key)}`, `msgstr ${poString(message)}`);
+    return lines.join('\n');
+  });
+  return `${[header, ...entries].join('\n\n')}\n`;
+}
+
+function formatJson(catalog: Catalog): string {
+  if (catalog.style === 'flat') {
+    return `${JSON.stringify(Object.fromEntries(catalog.messages), null, 2)}\n`;
+  }
+  const root: Record<string, unknown> = {};
+  for (const [key, message] of catalog.messages) {
+    const segments = key.split('.');
+    let node = root;
+    for (let i = 0; i < segments.length - 1; i++) {
+      const child = node[segments[i]];
+      if (typeof child === 'string') {
+        throw new Error(`Cannot nest "${key}" under the message "${segments.slice(0, i + 1).join('.')}"`);
+      }
+      node = (child as Record<string, unknown>) ?? (node[segments[i]] = {});
+    }
+    const last = segments[segments.length - 1];
+    if (typeof node[last] === 'object') {
+      throw new Error(`Cannot store "${key}": it is also a group of messages`);
+    }
+    node[last] = message;
+  }
+  return `${JSON.stringify(root, null, 2)}\n`;
+}
+
+export function formatCatalog(catalog: Catalog): string {
+  return catalog.format === 'po' ? formatPo(catalog) : formatJson(catalog);
+}
+
+export async function writeCatalog(catalog: Catalog): Promise<void> {
+  await fs.mkdir(dirname(catalog.path), { recursive: true });
+  await fs.writeFile(catalog.path, formatCatalog(catalog));
+}
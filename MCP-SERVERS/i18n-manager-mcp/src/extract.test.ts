@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { extractFromSource, isUsed } from './extract.js';
+
+function keys(code: string, file = 'src/App.tsx') {
+  const extraction = extractFromSource(code, file);
+  return { extraction, messages: Object.fromEntries([...extraction.messages].map(([key, m]) => [key, m.defaultMessage])) };
+}
+
+describe('extractFromSource', () => {
+  it('should find t() calls with default messages', () => {
+    const { extraction, messages } = keys(`
+      import i18n from './i18n';
+      export function Title() {
+        return <h1 title={i18n.t('title.tooltip')}>{t('title.text', 'Welcome')}</h1>;
+      }
+      const label = t('save', { defaultValue: 'Save', count: 1 });
+    `);
+    expect(messages).toEqual({ 'title.tooltip': undefined, 'title.text': 'Welcome', save: 'Save' });
+    expect(extraction.messages.get('title.text')!.locations).toEqual([{ file: 'src/App.tsx', line: 4, column: 53 }]);
+  });
+
+  it('should prefix keys with the namespace of the hook the function came from', () => {
+    const { messages } = keys(`
+      export function Login() {
+        const t = useTranslations('auth');
+        return <button>{t('login')} {t.rich('terms', { b: chunks => <b>{chunks}</b> })}</button>;
+      }
+      export async function Page() {
+        const t = await getTranslations({ locale, namespace: 'page' });
+        return t('title');
+      }
+      export function Settings() {
+        const { t } = useTranslation('settings', { keyPrefix: 'profile' });
+        return t('name');
+      }
+      export function Plain() {
+        return t('plain');
+      }
+    `);
+    expect(messages).toEqual({
+      'auth.login': undefined,
+      'auth.terms': undefined,
+      'page.title': undefined,
+      'settings.profile.name': undefined,
+      plain: undefined
+    });
+  });
+
+  it('should find <Trans> components', () => {
+    const { messages } = keys(`
+      const a = <Trans i18nKey="welcome">Hello <b>friend</b></Trans>;
+      const b = <Trans id="checkout.total" message="Total: {amount}" />;
+      const c = <Trans>Read   the docs</Trans>;
+    `);
+    expect(messages).toEqual({
+      welcome: undefined,
+      'checkout.total': 'Total: {amount}',
+      'Read the docs': 'Read the docs'
+    });
+  });
+
+  it('should report dynamic keys with their static prefix', () => {
+    const { extraction } = keys(`
+      const t = useTranslations('status');
+      t(\`labels.\${state}\`);
+      t(key);
+    `);
+    expect(extraction.messages.size).toBe(0);
+    expect(extraction.dynamic).toEqual([
+      { file: 'src/App.tsx', line: 3, column: 7, expression: '`labels.${state}`', prefix: 'status.labels.' },
+      { file: 'src/App.tsx', line: 4, column: 7, expression: 'key', prefix: 'status.' }
+    ]);
+    expect(isUsed('status.labels.active', extraction)).toBe(true);
+    expect(isUsed('other.key', extraction)).toBe(false);
+  });
+
+  it('should ignore calls of other functions named like translation methods', () => {
+    const { messages } = keys(`
+      const list = items.map(item => item.id);
+      const translate = (s: string) => s;
+      translate('not-a-key');
+    `, 'src/util.ts');
+    expect(messages).toEqual({});
+  });
+});
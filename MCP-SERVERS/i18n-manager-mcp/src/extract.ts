@@ -0,0 +1,288 @@
+/**
+ * Message key extraction from TS/TSX/JS/JSX source
+ *
+ * Finds calls to the translation functions (t('key'), i18n.t('key'),
+ * t.rich('key')) and translation components (<Trans i18nKey="key">).
+ * A function bound from a namespace hook, e.g.
+ * `const t = useTranslations('auth')` or
+ * `const { t } = useTranslation('auth')`, prefixes its keys with "auth.".
+ * Keys that are not string literals are reported as dynamic, with the
+ * literal prefix of template strings so their keys aren't called unused.
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative } from 'path';
+import ts from 'typescript';
+
+export interface ExtractOptions {
+  /** Function names, matched against the callee or its last property */
+  functions: string[];
+  components: string[];
+  namespaceFunctions: string[];
+}
+
+export const DEFAULT_EXTRACT_OPTIONS: ExtractOptions = {
+  functions: ['t'],
+  components: ['Trans'],
+  namespaceFunctions: ['useTranslations', 'getTranslations', 'useTranslation']
+};
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface ExtractedMessage {
+  key: string;
+  /** Default text given in code, used to fill the source locale */
+  defaultMessage?: string;
+  locations: SourceLocation[];
+}
+
+export interface DynamicKey extends SourceLocation {
+  expression: string;
+  /** Literal start of the key, if any; keys under it count as used */
+  prefix?: string;
+}
+
+export interface Extraction {
+  messages: Map<string, ExtractedMessage>;
+  dynamic: DynamicKey[];
+  files: number;
+}
+
+const SOURCE_EXTENSIONS = /\.(tsx?|jsx?|mts|cts|mjs|cjs)$/;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', '.next', 'coverage', '.git']);
+// next-intl's t.rich / t.markup / t.raw / t.has take the key like t itself
+const KEY_METHODS = new Set(['rich', 'markup', 'raw', 'has']);
+
+function stringValue(node: ts.Node | undefined): string | undefined {
+  if (!node) return undefined;
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isJsxExpression(node)) return stringValue(node.expression);
+  return undefined;
+}
+
+function join2(prefix: string | undefined, key: string): string {
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+/** Namespace hook call in an initializer: useTranslations('ns') or await getTranslations({ namespace }) */
+function namespaceOf(init: ts.Expression | undefined, hooks: string[]): string | null | undefined {
+  if (init && ts.isAwaitExpression(init)) init = init.expression;
+  if (!init || !ts.isCallExpression(init)) return undefined;
+  const callee = init.expression;
+  const name = ts.isIdentifier(callee) ? callee.text : ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+  if (!hooks.includes(name)) return undefined;
+
+  const [first, second] = init.arguments;
+  let namespace = stringValue(first);
+  if (first && ts.isObjectLiteralExpression(first)) namespace = property(first, 'namespace');
+  // react-i18next: useTranslation('ns', { keyPrefix: 'section' })
+  const keyPrefix = second && ts.isObjectLiteralExpression(second) ? property(second, 'keyPrefix') : undefined;
+  const parts = [namespace, keyPrefix].filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join('.') : null;
+}
+
+function property(object: ts.ObjectLiteralExpression, name: string): string | undefined {
+  for (const prop of object.properties) {
+    if (ts.isPropertyAssignment(prop) && prop.name.getText() === name) return stringValue(prop.initializer);
+  }
+  return undefined;
+}
+
+function scopeOf(node: ts.Node): ts.Node {
+  let current = node.parent;
+  while (current && !ts.isBlock(current) && !ts.isSourceFile(current) && !ts.isFunctionLike(current)) {
+    current = current.parent;
+  }
+  return current ?? node.getSourceFile();
+}
+
+function textOfChildren(children: ts.NodeArray<ts.JsxChild>): string | undefined {
+  let text = '';
+  for (const child of children) {
+    if (ts.isJsxText(child)) text += child.text;
+    else if (ts.isJsxExpression(child) && child.expression && ts.isStringLiteral(child.expression)) text += child.expression.text;
+    else return undefined;
+  }
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized || undefined;
+}
+
+/**
+ * Extract keys from one file's source text
+ */
+export function extractFromSource(
+  code: string,
+  file: string,
+  options: ExtractOptions = DEFAULT_EXTRACT_OPTIONS,
+  into: Extraction = { messages: new Map(), dynamic: [], files: 0 }
+): Extraction {
+  const kind = /\.[cm]?tsx?$/.test(file)
+    ? file.endsWith('x')
+      ? ts.ScriptKind.TSX
+      : ts.ScriptKind.TS
+    : ts.ScriptKind.JSX;
+  const source = ts.createSourceFile(file, code, ts.ScriptTarget.Latest, true, kind);
+  into.files++;
+
+  // Bindings of translation functions to namespaces, per enclosing scope
+  const bindings = new Map<ts.Node, Map<string, string | null>>();
+  const bind = (scope: ts.Node, name: string, namespace: string | null) => {
+    if (!bindings.has(scope)) bindings.set(scope, new Map());
+    bindings.get(scope)!.set(name, namespace);
+  };
+  const collectBindings = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node)) {
+      const namespace = namespaceOf(node.initializer, options.namespaceFunctions);
+      if (namespace !== undefined) {
+        if (ts.isIdentifier(node.name)) {
+          bind(scopeOf(node), node.name.text, namespace);
+        } else if (ts.isObjectBindingPattern(node.name)) {
+          for (const element of node.name.elements) {
+            const from = element.propertyName?.getText(source) ?? element.name.getText(source);
+            if (options.functions.includes(from) && ts.isIdentifier(element.name)) {
+              bind(scopeOf(node), element.name.text, namespace);
+            }
+          }
+        }
+      }
+    }
+    ts.forEachChild(node, collectBindings);
+  };
+  collectBindings(source);
+
+  /** Namespace of a translation function name at a node; undefined if it isn't one */
+  const lookup = (node: ts.Node, name: string): string | null | undefined => {
+    for (let scope: ts.Node | undefined = node; scope; scope = scope.parent) {
+      const bound = bindings.get(scope)?.get(name);
+      if (bound !== undefined) return bound;
+    }
+    return options.functions.includes(name) ? null : undefined;
+  };
+
+  const locate = (node: ts.Node): SourceLocation => {
+    const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source));
+    return { file, line: line + 1, column: character + 1 };
+  };
+
+  const record = (key: string, node: ts.Node, defaultMessage?: string) => {
+    const existing = into.messages.get(key);
+    if (existing) {
+      existing.locations.push(locate(node));
+      existing.defaultMessage ??= defaultMessage;
+    } else {
+      into.messages.set(key, { key, ...(defaultMessage !== undefined && { defaultMessage }), locations: [locate(node)] });
+    }
+  };
+
+  const recordKey = (keyNode: ts.Expression | undefined, namespace: string | null, node: ts.Node, defaultMessage?: string) => {
+    const key = stringValue(keyNode);
+    if (key !== undefined) {
+      record(join2(namespace ?? undefined, key), node, defaultMessage);
+      return;
+    }
+    if (!keyNode) return;
+    const prefix = ts.isTemplateExpression(keyNode) ? keyNode.head.text : undefined;
+    into.dynamic.push({
+      ...locate(node),
+      expression: keyNode.getText(source),
+      ...((prefix || namespace) && { prefix: join2(namespace ?? undefined, prefix ?? '') })
+    });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const callee = node.expression;
+      let namespace: string | null | undefined;
+      if (ts.isIdentifier(callee)) {
+        namespace = lookup(node, callee.text);
+      } else if (ts.isPropertyAccessExpression(callee)) {
+        const target = callee.expression;
+        if (ts.isIdentifier(target) && KEY_METHODS.has(callee.name.text)) {
+          namespace = lookup(node, target.text);
+        }
+        // i18n.t('key'), i18next.t('key')
+        if (namespace === undefined && options.functions.includes(callee.name.text)) namespace = null;
+      }
+
+      if (namespace !== undefined) {
+        const [keyArg, second, third] = node.arguments;
+        let defaultMessage = stringValue(second);
+        for (const arg of [second, third]) {
+          if (arg && ts.isObjectLiteralExpression(arg)) defaultMessage ??= property(arg, 'defaultValue');
+        }
+        recordKey(keyArg, namespace, node, defaultMessage);
+      }
+    }
+
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+      const opening = ts.isJsxElement(node) ? node.openingElement : node;
+      if (options.components.includes(opening.tagName.getText(source))) {
+        const attributes = new Map<string, ts.JsxAttributeValue | undefined>();
+        for (const attribute of opening.attributes.properties) {
+          if (ts.isJsxAttribute(attribute)) attributes.set(attribute.name.getText(source), attribute.initializer);
+        }
+        const children = ts.isJsxElement(node) ? textOfChildren(node.children) : undefined;
+        const defaultMessage =
+          stringValue(attributes.get('defaults')) ?? stringValue(attributes.get('message')) ?? children;
+        const keyAttribute = attributes.has('i18nKey') ? 'i18nKey' : attributes.has('id') ? 'id' : undefined;
+        if (keyAttribute) {
+          const value = attributes.get(keyAttribute);
+          const expression = value && ts.isJsxExpression(value) ? value.expression : (value as ts.Expression | undefined);
+          // <Trans t={t}> uses that function's namespace
+          const tAttribute = attributes.get('t');
+          const tName = tAttribute && ts.isJsxExpression(tAttribute) && tAttribute.expression && ts.isIdentifier(tAttribute.expression)
+            ? tAttribute.expression.text
+            : undefined;
+          recordKey(expression, tName ? (lookup(node, tName) ?? null) : null, node, defaultMessage);
+        } else if (children) {
+          // react-i18next uses the text itself as the key when there is no i18nKey
+          record(children, node, children);
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return into;
+}
+
+/**
+ * Extract keys from source files and directories, relative paths in results
+ */
+export async function extractMessages(
+  root: string,
+  paths: string[],
+  options: ExtractOptions = DEFAULT_EXTRACT_OPTIONS
+): Promise<Extraction> {
+  const extraction: Extraction = { messages: new Map(), dynamic: [], files: 0 };
+
+  const walk = async (path: string): Promise<void> => {
+    const stat = await fs.stat(path).catch(() => undefined);
+    if (!stat) return;
+    if (stat.isDirectory()) {
+      const entries = (await fs.readdir(path)).sort();
+      for (const entry of entries) {
+        if (!SKIPPED_DIRECTORIES.has(entry)) await walk(join(path, entry));
+      }
+    } else if (SOURCE_EXTENSIONS.test(path) && !path.endsWith('.d.ts')) {
+      extractFromSource(await fs.readFile(path, 'utf-8'), relative(root, path), options, extraction);
+    }
+  };
+
+  for (const path of paths) await walk(join(root, path));
+  return extraction;
+}
+
+/** Whether a catalog key is used: extracted, under an extracted key, or under a dynamic prefix */
+export function isUsed(key: string, extraction: Extraction): boolean {
+  if (extraction.messages.has(key)) return true;
+  for (let end = key.lastIndexOf('.'); end > 0; end = key.lastIndexOf('.', end - 1)) {
+    if (extraction.messages.has(key.slice(0, end))) return true;
+  }
+  return extraction.dynamic.some(dynamic => dynamic.prefix !== undefined && key.startsWith(dynamic.prefix));
+}
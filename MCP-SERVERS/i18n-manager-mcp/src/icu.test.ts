@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { IcuSyntaxError, messageArguments, parseMessage, validateMessage } from './icu.js';
+
+describe('parseMessage', () => {
+  it('should parse arguments, plurals with # and offsets, selects and tags', () => {
+    const nodes = parseMessage(
+      '{gender, select, female {She} other {They}} invited {count, plural, offset:1 =0 {nobody} one {# guest} other {# guests}} to <b>{party}</b>'
+    );
+    expect(nodes[0]).toMatchObject({ type: 'select', name: 'gender' });
+    expect(nodes[2]).toMatchObject({
+      type: 'plural',
+      name: 'count',
+      ordinal: false,
+      offset: 1,
+      options: { one: [{ type: 'pound' }, { type: 'text', value: ' guest' }] }
+    });
+    expect(nodes[4]).toEqual({ type: 'tag', name: 'b', children: [{ type: 'argument', name: 'party' }] });
+  });
+
+  it('should parse formatted arguments with styles', () => {
+    expect(parseMessage('{total, number, ::currency/EUR} on {day, date, short}')).toEqual([
+      { type: 'argument', name: 'total', format: 'number', style: '::currency/EUR' },
+      { type: 'text', value: ' on ' },
+      { type: 'argument', name: 'day', format: 'date', style: 'short' }
+    ]);
+  });
+
+  it('should treat quoted syntax characters as text', () => {
+    expect(parseMessage("It''s '{literal}' and # here")).toEqual([
+      { type: 'text', value: "It's {literal} and # here" }
+    ]);
+  });
+
+  it('should report the position of syntax errors', () => {
+    expect(() => parseMessage('Hello {name')).toThrow(IcuSyntaxError);
+    expect(() => parseMessage('Hello {name')).toThrow('Expected "}", reached the end at position 11');
+    expect(() => parseMessage('<b>bold')).toThrow('Unclosed tag <b> at position 0');
+  });
+});
+
+describe('messageArguments', () => {
+  it('should list arguments and tags with how they are used', () => {
+    const args = messageArguments(parseMessage('{count, plural, one {# by {name}} other {# by <link>{name}</link>}} {count}'));
+    expect(Object.fromEntries(args)).toEqual({ count: 'plural', name: 'string', '<link>': 'tag' });
+  });
+});
+
+describe('validateMessage', () => {
+  it('should require an other option', () => {
+    expect(validateMessage('{count, plural, one {# item}}', 'en')).toContainEqual({
+      severity: 'error',
+      message: '{count, plural} has no "other" option'
+    });
+  });
+
+  it("should check plural categories against the locale's rules", () => {
+    expect(validateMessage('{n, plural, one {# plik} few {# pliki} other {# pliku}}', 'pl')).toEqual([
+      { severity: 'warning', message: '{n, plural} is missing many, which pl needs' }
+    ]);
+    expect(validateMessage('{n, plural, one {# item} few {# items} other {# items}}', 'en')).toEqual([
+      { severity: 'warning', message: '{n, plural} uses few, which en never selects (categories: one, other)' }
+    ]);
+  });
+
+  it('should check placeholder parity with the source message', () => {
+    const source = 'Hello {name}, you have {count, plural, one {# message} other {# messages}} in <b>{folder}</b>';
+    expect(
+      validateMessage('Bonjour {nom}, vous avez {count, number} messages dans <b>{folder}</b>', 'fr', source)
+    ).toEqual([
+      { severity: 'error', message: 'Missing {name} from the source message' },
+      { severity: 'warning', message: '{count} is used as number but as plural in the source message' },
+      { severity: 'error', message: '{nom} is not in the source message' }
+    ]);
+    expect(validateMessage('Hallo {name}, {count, plural, one {# Nachricht} other {# Nachrichten}} in {folder}', 'de', source)).toEqual([
+      { severity: 'error', message: 'Missing tag <b> from the source message' }
+    ]);
+  });
+
+  it('should report syntax errors as a single issue', () => {
+    expect(validateMessage('{count, plural, one {#}', 'en')).toEqual([
+      { severity: 'error', message: 'Syntax error: Expected "}", reached the end at position 23' }
+    ]);
+  });
+});
@@ -0,0 +1,364 @@
+/**
+ * ICU MessageFormat parsing and validation
+ *
+ * Covers the syntax next-intl, FormatJS and i18next-icu accept: simple and
+ * formatted arguments, plural/selectordinal with offsets and #, select,
+ * apostrophe quoting, and rich-text tags such as <b>...</b>.
+ */
+
+export type IcuNode =
+  | { type: 'text'; value: string }
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | {
+      type: 'plural';
+      name: string;
+      ordinal: boolean;
+      offset: number;
+      options: Record<string, IcuNode[]>;
+    }
+  | { type: 'select'; name: string; options: Record<string, IcuNode[]> }
+  | { type: 'pound' }
+  | { type: 'tag'; name: string; children: IcuNode[] };
+
+/** How a message uses one of its arguments */
+export type ArgumentKind = 'string' | 'number' | 'date' | 'time' | 'plural' | 'selectordinal' | 'select' | 'tag';
+
+export interface MessageIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export class IcuSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number
+  ) {
+    super(`${message} at position ${offset}`);
+    this.name = 'IcuSyntaxError';
+  }
+}
+
+const NAME = /[^\s{},#<>'/]+/y;
+const TAG_NAME = /[A-Za-z0-9_-]+/y;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): IcuNode[] {
+    const nodes = this.nodes(0, undefined);
+    if (this.pos < this.text.length) this.fail(`Unexpected "${this.text[this.pos]}"`);
+    return nodes;
+  }
+
+  private fail(message: string): never {
+    throw new IcuSyntaxError(message, this.pos);
+  }
+
+  /**
+   * Text and placeholders until a closing brace, a closing tag or the end;
+   * `pluralDepth` > 0 makes # a placeholder
+   */
+  private nodes(pluralDepth: number, closingTag: string | undefined): IcuNode[] {
+    const nodes: IcuNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '}') break;
+      if (char === '{') {
+        flush();
+        nodes.push(this.placeholder(pluralDepth));
+      } else if (char === '#' && pluralDepth > 0) {
+        flush();
+        nodes.push({ type: 'pound' });
+        this.pos++;
+      } else if (char === "'") {
+        text += this.quoted(pluralDepth);
+      } else if (char === '<' && this.text[this.pos + 1] === '/') {
+        if (closingTag === undefined) this.fail('Unexpected closing tag');
+        break;
+      } else if (char === '<' && this.peekTag()) {
+        flush();
+        nodes.push(this.tag(pluralDepth));
+      } else {
+        text += char;
+        this.pos++;
+      }
+    }
+    flush();
+    return nodes;
+  }
+
+  /** Apostrophe handling: '' is a quote, and '{...}' quotes syntax characters */
+  private quoted(pluralDepth: number): string {
+    const next = this.text[this.pos + 1];
+    if (next === "'") {
+      this.pos += 2;
+      return "'";
+    }
+    const special = next === '{' || next === '}' || next === '<' || (next === '#' && pluralDepth > 0);
+    if (!special) {
+      this.pos++;
+      return "'";
+    }
+    let value = '';
+    this.pos++;
+    while (this.pos < this.text.length) {
+      if (this.text[this.pos] === "'") {
+        if (this.text[this.pos + 1] === "'") {
+          value += "'";
+          this.pos += 2;
+          continue;
+        }
+        this.pos++;
+        return value;
+      }
+      value += this.text[this.pos++];
+    }
+    return value;
+  }
+
+  private peekTag(): boolean {
+    TAG_NAME.lastIndex = this.pos + 1;
+    const match = TAG_NAME.exec(this.text);
+    return match !== null && this.text[this.pos + 1 + match[0].length] === '>';
+  }
+
+  private tag(pluralDepth: number): IcuNode {
+    const start = this.pos;
+    this.pos++;
+    const name = this.match(TAG_NAME, 'Expected a tag name');
+    this.pos++; // >
+    const children = this.nodes(pluralDepth, name);
+    const closing = `</${name}>`;
+    if (!this.text.startsWith(closing, this.pos)) {
+      this.pos = start;
+      this.fail(`Unclosed tag <${name}>`);
+    }
+    this.pos += closing.length;
+    return { type: 'tag', name, children };
+  }
+
+  private whitespace(): void {
+    while (/\s/.test(this.text[this.pos] ?? '')) this.pos++;
+  }
+
+  private match(pattern: RegExp, message: string): string {
+    pattern.lastIndex = this.pos;
+    const match = pattern.exec(this.text);
+    if (!match) this.fail(message);
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private expect(char: string): void {
+    this.whitespace();
+    if (this.text[this.pos] !== char) {
+      this.fail(this.pos >= this.text.length ? `Expected "${char}", reached the end` : `Expected "${char}"`);
+    }
+    this.pos++;
+  }
+
+  private placeholder(pluralDepth: number): IcuNode {
+    this.pos++; // {
+    this.whitespace();
+    const name = this.match(NAME, 'Expected an argument name');
+    this.whitespace();
+    if (this.text[this.pos] === '}' || this.pos >= this.text.length) {
+      this.expect('}');
+      return { type: 'argument', name };
+    }
+    this.expect(',');
+    this.whitespace();
+    const format = this.match(NAME, 'Expected an argument type');
+    this.whitespace();
+
+    if (format === 'plural' || format === 'selectordinal' || format === 'select') {
+      this.expect(',');
+      let offset = 0;
+      this.whitespace();
+      if (format !== 'select' && this.text.startsWith('offset:', this.pos)) {
+        this.pos += 'offset:'.length;
+        this.whitespace();
+        offset = Number(this.match(/\d+/y, 'Expected a number after offset:'));
+      }
+      const options = this.options(format === 'select' ? pluralDepth : pluralDepth + 1);
+      this.expect('}');
+      return format === 'select'
+        ? { type: 'select', name, options }
+        : { type: 'plural', name, ordinal: format === 'selectordinal', offset, options };
+    }
+
+    let style: string | undefined;
+    if (this.text[this.pos] === ',') {
+      this.pos++;
+      style = this.style().trim();
+    }
+    this.expect('}');
+    return { type: 'argument', name, format, ...(style !== undefined && { style }) };
+  }
+
+  /** Argument style up to the closing brace, e.g. "::currency/USD" or "short" */
+  private style(): string {
+    let depth = 0;
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (char === '{') depth++;
+      if (char === '}') {
+        if (depth === 0) return this.text.slice(start, this.pos);
+        depth--;
+      }
+      this.pos++;
+    }
+    return this.fail('Expected "}", reached the end');
+  }
+
+  private options(pluralDepth: number): Record<string, IcuNode[]> {
+    const options: Record<string, IcuNode[]> = {};
+    this.whitespace();
+    while (this.pos < this.text.length && this.text[this.pos] !== '}') {
+      const selector = this.match(/=?[^\s{}]+/y, 'Expected a selector');
+      if (selector in options) this.fail(`Duplicate selector "${selector}"`);
+      this.expect('{');
+      options[selector] = this.nodes(pluralDepth, undefined);
+      this.expect('}');
+      this.whitespace();
+    }
+    if (Object.keys(options).length === 0) this.fail('Expected at least one option');
+    return options;
+  }
+}
+
+export function parseMessage(text: string): IcuNode[] {
+  return new Parser(text).parse();
+}
+
+/**
+ * Arguments and tags a message uses, with how each is used
+ */
+export function messageArguments(nodes: IcuNode[]): Map<string, ArgumentKind> {
+  const found = new Map<string, ArgumentKind>();
+  const visit = (list: IcuNode[]) => {
+    for (const node of list) {
+      switch (node.type) {
+        case 'argument': {
+          const kind = (['number', 'date', 'time'].includes(node.format ?? '') ? node.format : 'string') as ArgumentKind;
+          // A plain {count} next to {count, plural, ...} doesn't change how count is used
+          if (!found.has(node.name) || kind !== 'string') found.set(node.name, kind);
+          break;
+        }
+        case 'plural':
+          found.set(node.name, node.ordinal ? 'selectordinal' : 'plural');
+          Object.values(node.options).forEach(visit);
+          break;
+        case 'select':
+          found.set(node.name, 'select');
+          Object.values(node.options).forEach(visit);
+          break;
+        case 'tag':
+          found.set(`<${node.name}>`, 'tag');
+          visit(node.children);
+          break;
+      }
+    }
+  };
+  visit(nodes);
+  return found;
+}
+
+function pluralCategories(locale: string, ordinal: boolean): string[] | undefined {
+  try {
+    return new Intl.PluralRules(locale, { type: ordinal ? 'ordinal' : 'cardinal' }).resolvedOptions()
+      .pluralCategories;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check a message's plural and select options for the locale and, for a
+ * translation, that it uses the same arguments and tags as the source
+ */
+export function validateMessage(text: string, locale: string, source?: string): MessageIssue[] {
+  const issues: MessageIssue[] = [];
+  let nodes: IcuNode[];
+  try {
+    nodes = parseMessage(text);
+  } catch (error) {
+    if (!(error instanceof IcuSyntaxError)) throw error;
+    return [{ severity: 'error', message: `Syntax error: ${error.message}` }];
+  }
+
+  const visit = (list: IcuNode[]) => {
+    for (const node of list) {
+      if (node.type === 'plural') {
+        const keyword = node.ordinal ? 'selectordinal' : 'plural';
+        const selectors = Object.keys(node.options);
+        if (!selectors.includes('other')) {
+          issues.push({ severity: 'error', message: `{${node.name}, ${keyword}} has no "other" option` });
+        }
+        const categories = pluralCategories(locale, node.ordinal);
+        if (categories) {
+          const unknown = selectors.filter(s => !s.startsWith('=') && !categories.includes(s));
+          if (unknown.length > 0) {
+            issues.push({
+              severity: 'warning',
+              message: `{${node.name}, ${keyword}} uses ${unknown.join(', ')}, which ${locale} never selects (categories: ${categories.join(', ')})`
+            });
+          }
+          const missing = categories.filter(c => c !== 'other' && !selectors.includes(c));
+          if (missing.length > 0) {
+            issues.push({
+              severity: 'warning',
+              message: `{${node.name}, ${keyword}} is missing ${missing.join(', ')}, which ${locale} needs`
+            });
+          }
+        }
+        Object.values(node.options).forEach(visit);
+      } else if (node.type === 'select') {
+        if (!('other' in node.options)) {
+          issues.push({ severity: 'error', message: `{${node.name}, select} has no "other" option` });
+        }
+        Object.values(node.options).forEach(visit);
+      } else if (node.type === 'tag') {
+        visit(node.children);
+      }
+    }
+  };
+  visit(nodes);
+
+  if (source !== undefined) {
+    let expected: Map<string, ArgumentKind>;
+    try {
+      expected = messageArguments(parseMessage(source));
+    } catch {
+      // The source message's own syntax error is reported for the source locale
+      return issues;
+    }
+    const actual = messageArguments(nodes);
+    const label = (name: string) => (name.startsWith('<') ? `tag ${name}` : `{${name}}`);
+    for (const [name, kind] of expected) {
+      if (!actual.has(name)) {
+        issues.push({ severity: 'error', message: `Missing ${label(name)} from the source message` });
+      } else if (actual.get(name) !== kind && kind !== 'tag') {
+        issues.push({
+          severity: 'warning',
+          message: `{${name}} is used as ${actual.get(name)} but as ${kind} in the source message`
+        });
+      }
+    }
+    for (const name of actual.keys()) {
+      if (!expected.has(name)) {
+        issues.push({ severity: 'error', message: `${label(name)} is not in the source message` });
+      }
+    }
+  }
+  return issues;
+}
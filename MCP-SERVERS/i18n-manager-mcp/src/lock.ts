@@ -0,0 +1,68 @@
+/**
+ * Translation lock file: which source message each translation was made from
+ *
+ * For every translated key the lock keeps a hash of the source message and
+ * of the translation. When the source hash changes but the translation's
+ * doesn't, the translation is stale. Editing the translation, or listing the
+ * key in `markUpToDate`, records the current source as its basis.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+export interface LockEntry {
+  source: string;
+  translation: string;
+}
+
+export interface TranslationLock {
+  version: 1;
+  locales: Record<string, Record<string, LockEntry>>;
+}
+
+export function hashMessage(message: string): string {
+  return createHash('sha256').update(message).digest('hex').slice(0, 12);
+}
+
+export async function readLock(path: string): Promise<TranslationLock> {
+  try {
+    const lock = JSON.parse(await fs.readFile(path, 'utf-8')) as TranslationLock;
+    if (lock.version !== 1 || typeof lock.locales !== 'object') {
+      throw new Error(`${path} is not a version 1 translation lock`);
+    }
+    return lock;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { version: 1, locales: {} };
+    throw error;
+  }
+}
+
+export async function writeLock(path: string, lock: TranslationLock): Promise<void> {
+  await fs.mkdir(dirname(path), { recursive: true });
+  await fs.writeFile(path, `${JSON.stringify(lock, null, 2)}\n`);
+}
+
+/**
+ * Whether a translation predates the current source message
+ */
+export function isStale(entry: LockEntry | undefined, source: string, translation: string): boolean {
+  if (!entry || !translation) return false;
+  return entry.source !== hashMessage(source) && entry.translation === hashMessage(translation);
+}
+
+/**
+ * The lock entry after a sync: kept while the translation is unchanged,
+ * re-based on the current source when it was edited or marked up to date
+ */
+export function updateEntry(
+  entry: LockEntry | undefined,
+  source: string,
+  translation: string,
+  upToDate: boolean
+): LockEntry | undefined {
+  if (!translation) return undefined;
+  const current = { source: hashMessage(source), translation: hashMessage(translation) };
+  if (!entry || upToDate || entry.translation !== current.translation) return current;
+  return entry;
+}
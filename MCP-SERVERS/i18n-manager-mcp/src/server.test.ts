@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestClient } from '@ai-dev-standards/mcp-server-base';
+import { I18nManagerServer } from './server.js';
+
+const LOGIN = `
+export function Login({ count }: { count: number }) {
+  const t = useTranslations('auth');
+  return (
+    <form>
+      <h1>{t('title', 'Sign in')}</h1>
+      <p>{t('attempts', '{count, plural, one {# attempt left} other {# attempts left}}')}</p>
+      <Trans i18nKey="footer">Need <b>help</b>?</Trans>
+    </form>
+  );
+}
+`;
+
+describe('I18nManagerServer', () => {
+  let dir: string;
+  let client: TestClient;
+
+  const write = async (path: string, content: string | object) => {
+    await fs.mkdir(join(dir, path, '..'), { recursive: true });
+    await fs.writeFile(join(dir, path), typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+  };
+  const read = async (path: string) => JSON.parse(await fs.readFile(join(dir, path), 'utf-8'));
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'i18n-manager-'));
+    await write('src/Login.tsx', LOGIN);
+    await write('messages/en.json', { auth: { title: 'Sign in', legacy: 'Old text' } });
+    await write('messages/de.json', { auth: { title: 'Anmelden' } });
+    client = await TestClient.connect(new I18nManagerServer());
+    await client.callTool('configure', { projectPath: dir });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should extract keys with their namespaces and locations', async () => {
+    const result = await client.callTool('extract_messages');
+    expect(result.data).toEqual({
+      files: 1,
+      keys: 3,
+      messages: [
+        {
+          key: 'auth.attempts',
+          defaultMessage: '{count, plural, one {# attempt left} other {# attempts left}}',
+          locations: ['src/Login.tsx:7:11']
+        },
+        { key: 'auth.title', defaultMessage: 'Sign in', locations: ['src/Login.tsx:6:12'] },
+        { key: 'footer', locations: ['src/Login.tsx:8:7'] }
+      ],
+      dynamic: []
+    });
+  });
+
+  it('should report missing, unused and stale keys per locale', async () => {
+    const result = await client.callTool('check_catalogs');
+    expect(result.data).toMatchObject({
+      sourceLocale: 'en',
+      keys: 3,
+      complete: false,
+      locales: {
+        en: { missing: ['auth.attempts', 'footer'], unused: ['auth.legacy'], stale: [], coverage: 33.3 },
+        de: { missing: ['auth.attempts', 'footer'], unused: [], stale: [], translated: 1 }
+      }
+    });
+  });
+
+  it('should sync catalogs and flag translations whose source changed', async () => {
+    const synced = await client.callTool('sync_catalogs', { removeUnused: true });
+    expect(synced.data).toMatchObject({
+      locales: {
+        en: { added: ['auth.attempts', 'footer'], removed: ['auth.legacy'], stale: [] },
+        de: { added: ['auth.attempts', 'footer'], removed: [], stale: [] }
+      },
+      lockFile: 'i18n.lock.json'
+    });
+    expect(await read('messages/en.json')).toEqual({
+      auth: { title: 'Sign in', attempts: '{count, plural, one {# attempt left} other {# attempts left}}' },
+      footer: ''
+    });
+    expect(await read('messages/de.json')).toEqual({ auth: { title: 'Anmelden', attempts: '' }, footer: '' });
+
+    await write('messages/en.json', { ...(await read('messages/en.json')), auth: { title: 'Log in', attempts: 'x' } });
+    expect((await client.callTool('check_catalogs', { locales: ['en', 'de'] })).data).toMatchObject({
+      locales: { de: { stale: ['auth.title'] } }
+    });
+
+    const reviewed = await client.callTool('sync_catalogs', { markUpToDate: ['auth.title'] });
+    expect(reviewed.data).toMatchObject({ locales: { de: { stale: [] } } });
+    expect((await client.callTool('check_catalogs')).data).toMatchObject({ locales: { de: { stale: [] } } });
+  });
+
+  it('should write PO catalogs with source comments and fuzzy stale entries', async () => {
+    await fs.rm(join(dir, 'messages'), { recursive: true });
+    await write('locales/en.po', 'msgid "auth.title"\nmsgstr "Sign in"\n');
+    await write('locales/fr.po', 'msgid "auth.title"\nmsgstr "Connexion"\n');
+    await client.callTool('configure', { projectPath: dir, catalogs: 'locales/{locale}.po' });
+    await client.callTool('sync_catalogs');
+
+    const fr = await fs.readFile(join(dir, 'locales/fr.po'), 'utf-8');
+    expect(fr).toContain('"Language: fr\\n"');
+    expect(fr).toContain('#. Sign in\n#: src/Login.tsx:6\nmsgid "auth.title"\nmsgstr "Connexion"');
+    expect(fr).toContain('msgid "footer"\nmsgstr ""');
+
+    await write('locales/en.po', (await fs.readFile(join(dir, 'locales/en.po'), 'utf-8')).replace('"Sign in"', '"Log in"'));
+    expect((await client.callTool('sync_catalogs')).data).toMatchObject({ locales: { fr: { stale: ['auth.title'] } } });
+    expect(await fs.readFile(join(dir, 'locales/fr.po'), 'utf-8')).toContain('#, fuzzy\nmsgid "auth.title"');
+  });
+
+  it('should validate ICU messages against the source locale', async () => {
+    await write('messages/en.json', { auth: { attempts: '{count, plural, one {# attempt} other {# attempts}}' } });
+    await write('messages/de.json', { auth: { attempts: '{anzahl} Versuche' } });
+    await write('messages/pl.json', { auth: { attempts: '{count, plural, one {# próba} other {# prób}' } });
+
+    const result = await client.callTool('validate_messages');
+    expect(result.data).toMatchObject({
+      valid: false,
+      checked: 3,
+      errors: [
+        { locale: 'de', key: 'auth.attempts', message: 'Missing {count} from the source message' },
+        { locale: 'de', key: 'auth.attempts', message: '{anzahl} is not in the source message' },
+        { locale: 'pl', key: 'auth.attempts', message: 'Syntax error: Expected "}", reached the end at position 44' }
+      ]
+    });
+  });
+
+  it('should expose catalogs as resources', async () => {
+    expect((await client.listResourceTemplates()).map(template => template.uriTemplate)).toEqual([
+      'i18n://catalogs/{locale}'
+    ]);
+    const uris = (await client.listResources()).map(resource => resource.uri);
+    expect(uris).toEqual(expect.arrayContaining(['i18n://catalogs', 'i18n://catalogs/en', 'i18n://catalogs/de']));
+
+    expect(JSON.parse(await client.readResource('i18n://catalogs'))).toMatchObject({
+      sourceLocale: 'en',
+      catalogs: [
+        { locale: 'en', path: 'messages/en.json', messages: 2 },
+        { locale: 'de', path: 'messages/de.json', messages: 1 }
+      ]
+    });
+    expect(JSON.parse(await client.readResource('i18n://catalogs/de'))).toEqual({
+      locale: 'de',
+      path: 'messages/de.json',
+      messages: { 'auth.title': 'Anmelden' }
+    });
+  });
+
+  it('should refuse locales that would leave the catalog directory', async () => {
+    const synced = await client.callTool<{ error: { code: string } }>('sync_catalogs', { locales: ['../../tmp/x'] });
+    expect(synced.isError).toBe(true);
+    expect(synced.data.error.code).toBe('invalid_arguments');
+    expect((await client.callTool('configure', { projectPath: dir, locales: ['en', '../de'] })).isError).toBe(true);
+
+    await write('package.json', { name: 'app' });
+    await expect(client.readResource('i18n://catalogs/..%2Fpackage')).rejects.toThrow('Not a locale: ../package');
+  });
+});
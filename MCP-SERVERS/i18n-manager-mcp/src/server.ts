@@ -0,0 +1,478 @@
+/**
+ * i18n Manager MCP server
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative, resolve } from 'path';
+import { BaseMCPServer, ToolContext, ToolError, z } from '@ai-dev-standards/mcp-server-base';
+import { Catalog, JsonStyle, readCatalog, writeCatalog } from './catalogs.js';
+import { DEFAULT_EXTRACT_OPTIONS, ExtractOptions, Extraction, extractMessages, isUsed } from './extract.js';
+import { validateMessage } from './icu.js';
+import { isStale, LockEntry, readLock, updateEntry, writeLock } from './lock.js';
+
+export const DEFAULT_SOURCE_LOCALE = 'en';
+export const DEFAULT_CATALOGS = 'messages/{locale}.json';
+export const DEFAULT_SOURCES = ['src'];
+export const DEFAULT_LOCK_FILE = 'i18n.lock.json';
+
+/** Locales are pasted into catalog paths, so they may not contain separators or dots */
+const LOCALE = /^[A-Za-z0-9_-]+$/;
+
+interface Settings {
+  sourceLocale: string;
+  locales?: string[];
+  catalogs: string;
+  sources: string[];
+  extract: ExtractOptions;
+  jsonStyle: JsonStyle;
+  lockFile: string;
+}
+
+interface LocaleReport {
+  path: string;
+  exists: boolean;
+  messages: number;
+  translated: number;
+  coverage: number;
+  missing: string[];
+  unused: string[];
+  stale: string[];
+  problems?: string[];
+}
+
+const locales = z
+  .array(z.string().regex(LOCALE, 'Locales may only contain letters, digits, "_" and "-"'))
+  .min(1)
+  .optional()
+  .describe('Locales to work on (default: the configured or discovered locales)');
+
+export class I18nManagerServer extends BaseMCPServer {
+  constructor() {
+    super('i18n-manager-mcp', '1.0.0');
+
+    this.addConfigureTool({
+      settings: {
+        sourceLocale: {
+          type: 'string',
+          pattern: LOCALE.source,
+          description: `Locale the messages are written in (default: ${DEFAULT_SOURCE_LOCALE})`
+        },
+        locales: {
+          type: 'array',
+          items: { type: 'string', pattern: LOCALE.source },
+          minItems: 1,
+          description: 'Locales to manage (default: those with a catalog, plus the source locale)'
+        },
+        catalogs: {
+          type: 'string',
+          description: `Catalog path with a {locale} placeholder, relative to the project; a .po extension selects gettext PO, anything else JSON (default: ${DEFAULT_CATALOGS})`
+        },
+        sources: {
+          type: 'array',
+          items: { type: 'string' },
+          minItems: 1,
+          description: `Source files or directories to extract keys from (default: ${DEFAULT_SOURCES.join(', ')})`
+        },
+        functions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: `Translation function names (default: ${DEFAULT_EXTRACT_OPTIONS.functions.join(', ')})`
+        },
+        components: {
+          type: 'array',
+          items: { type: 'string' },
+          description: `Translation components (default: ${DEFAULT_EXTRACT_OPTIONS.components.join(', ')})`
+        },
+        namespaceFunctions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: `Hooks whose first argument namespaces the returned function's keys (default: ${DEFAULT_EXTRACT_OPTIONS.namespaceFunctions.join(', ')})`
+        },
+        jsonStyle: {
+          type: 'string',
+          enum: ['nested', 'flat'],
+          description: 'Layout of new JSON catalogs; existing ones keep theirs (default: nested)'
+        },
+        lockFile: {
+          type: 'string',
+          description: `Where the source message each translation was made from is recorded (default: ${DEFAULT_LOCK_FILE})`
+        }
+      }
+    });
+
+    this.addTool({
+      name: 'extract_messages',
+      description:
+        "Find message keys in TS/TSX/JS source: t('key') calls, namespaced hooks such as useTranslations('ns'), and <Trans> components",
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        sources: z.array(z.string()).min(1).optional().describe('Override the configured source paths')
+      }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const extraction = await extractMessages(root, args.sources ?? settings.sources, settings.extract);
+        return {
+          files: extraction.files,
+          keys: extraction.messages.size,
+          messages: [...extraction.messages.values()]
+            .sort((a, b) => a.key.localeCompare(b.key))
+            .map(message => ({
+              key: message.key,
+              ...(message.defaultMessage !== undefined && { defaultMessage: message.defaultMessage }),
+              locations: message.locations.map(location => `${location.file}:${location.line}:${location.column}`)
+            })),
+          dynamic: extraction.dynamic.map(({ file, line, column, expression, prefix }) => ({
+            location: `${file}:${line}:${column}`,
+            expression,
+            ...(prefix !== undefined && { prefix })
+          }))
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'sync_catalogs',
+      description:
+        'Add extracted keys to every locale catalog (default messages in the source locale, empty elsewhere), optionally remove unused keys, and record translation sources in the lock file',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        locales,
+        removeUnused: z.boolean().default(false).describe('Delete keys the source no longer uses'),
+        markUpToDate: z
+          .array(z.string())
+          .optional()
+          .describe('Keys whose translations were reviewed against the current source message and are no longer stale'),
+        dryRun: z.boolean().default(false).describe('Report the changes without writing catalogs or the lock file')
+      }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const extraction = await extractMessages(root, settings.sources, settings.extract);
+        const catalogs = await this.catalogs(root, settings, args.locales);
+        const source = catalogs.get(settings.sourceLocale) ?? (await this.readCatalog(root, settings, settings.sourceLocale));
+        const lockPath = resolve(root, settings.lockFile);
+        const lock = await readLock(lockPath);
+        const upToDate = new Set(args.markUpToDate ?? []);
+
+        // The source catalog first, so translations see its new messages
+        const ordered = [source, ...[...catalogs.values()].filter(catalog => catalog !== source)];
+        const results: Record<string, { path: string; added: string[]; removed: string[]; stale: string[] }> = {};
+        for (const catalog of ordered) {
+          if (!catalogs.has(catalog.locale)) continue;
+          const isSource = catalog.locale === settings.sourceLocale;
+          const added: string[] = [];
+          const removed: string[] = [];
+
+          for (const message of [...extraction.messages.values()].sort((a, b) => a.key.localeCompare(b.key))) {
+            if (catalog.messages.has(message.key)) continue;
+            catalog.messages.set(message.key, isSource ? (message.defaultMessage ?? '') : '');
+            added.push(message.key);
+          }
+          if (!isSource) {
+            for (const key of source.messages.keys()) {
+              if (!catalog.messages.has(key) && isUsed(key, extraction)) {
+                catalog.messages.set(key, '');
+                added.push(key);
+              }
+            }
+          }
+          if (args.removeUnused) {
+            for (const key of [...catalog.messages.keys()]) {
+              if (!isUsed(key, extraction)) {
+                catalog.messages.delete(key);
+                catalog.meta.delete(key);
+                removed.push(key);
+              }
+            }
+          }
+
+          const stale: string[] = [];
+          if (!isSource) {
+            const entries = lock.locales[catalog.locale] ?? {};
+            const next: Record<string, LockEntry> = {};
+            for (const [key, translation] of catalog.messages) {
+              const sourceMessage = source.messages.get(key) ?? '';
+              const reviewed = upToDate.has(key);
+              if (!reviewed && (isStale(entries[key], sourceMessage, translation) || catalog.meta.get(key)?.fuzzy)) {
+                stale.push(key);
+              }
+              const entry = updateEntry(entries[key], sourceMessage, translation, reviewed);
+              if (entry) next[key] = entry;
+            }
+            lock.locales[catalog.locale] = next;
+          }
+
+          if (catalog.format === 'po') annotate(catalog, isSource ? undefined : source, extraction, new Set(stale));
+          if (!args.dryRun) await writeCatalog(catalog);
+          results[catalog.locale] = { path: relative(root, catalog.path), added, removed, stale };
+        }
+        if (!args.dryRun) await writeLock(lockPath, lock);
+
+        return {
+          dryRun: args.dryRun,
+          sourceLocale: settings.sourceLocale,
+          keys: extraction.messages.size,
+          locales: results,
+          lockFile: relative(root, lockPath)
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'check_catalogs',
+      description:
+        'Report missing, unused and stale keys and translation coverage for each locale, against the keys the source uses',
+      inputSchema: z.object({ projectPath: z.string().optional(), locales }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const extraction = await extractMessages(root, settings.sources, settings.extract);
+        const catalogs = await this.catalogs(root, settings, args.locales);
+        const source = catalogs.get(settings.sourceLocale) ?? (await this.readCatalog(root, settings, settings.sourceLocale));
+        const lock = await readLock(resolve(root, settings.lockFile));
+
+        // Keys every locale needs: those in code, plus used source-catalog keys (e.g. behind dynamic keys)
+        const expected = new Set(extraction.messages.keys());
+        for (const key of source.messages.keys()) {
+          if (isUsed(key, extraction)) expected.add(key);
+        }
+
+        const reports: Record<string, LocaleReport> = {};
+        for (const catalog of catalogs.values()) {
+          const isSource = catalog.locale === settings.sourceLocale;
+          const entries = lock.locales[catalog.locale] ?? {};
+          const missing = [...expected].filter(key => !catalog.messages.get(key)).sort();
+          const stale = isSource
+            ? []
+            : [...catalog.messages]
+                .filter(
+                  ([key, translation]) =>
+                    isStale(entries[key], source.messages.get(key) ?? '', translation) || catalog.meta.get(key)?.fuzzy
+                )
+                .map(([key]) => key)
+                .sort();
+          const translated = expected.size - missing.length;
+          reports[catalog.locale] = {
+            path: relative(root, catalog.path),
+            exists: catalog.exists,
+            messages: catalog.messages.size,
+            translated,
+            coverage: expected.size > 0 ? Math.round((translated / expected.size) * 1000) / 10 : 100,
+            missing,
+            unused: [...catalog.messages.keys()].filter(key => !isUsed(key, extraction)).sort(),
+            stale,
+            ...(catalog.problems.length > 0 && { problems: catalog.problems })
+          };
+        }
+
+        return {
+          sourceLocale: settings.sourceLocale,
+          keys: expected.size,
+          dynamicKeys: extraction.dynamic.length,
+          complete: Object.values(reports).every(report => report.missing.length === 0 && report.stale.length === 0),
+          locales: reports
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'validate_messages',
+      description:
+        'Check ICU MessageFormat syntax, plural/select options for each locale, and that translations use the same placeholders and tags as the source locale',
+      inputSchema: z.object({ projectPath: z.string().optional(), locales }),
+      handler: async (args, context) => {
+        const root = this.root(context);
+        const settings = this.settings(context);
+        const catalogs = await this.catalogs(root, settings, args.locales);
+        const source = catalogs.get(settings.sourceLocale) ?? (await this.readCatalog(root, settings, settings.sourceLocale));
+
+        const issues: Array<{ locale: string; key: string; severity: 'error' | 'warning'; message: string }> = [];
+        let checked = 0;
+        for (const catalog of catalogs.values()) {
+          const isSource = catalog.locale === settings.sourceLocale;
+          for (const [key, message] of catalog.messages) {
+            if (!message) continue;
+            checked++;
+            const sourceMessage = isSource ? undefined : source.messages.get(key) || undefined;
+            for (const issue of validateMessage(message, catalog.locale, sourceMessage)) {
+              issues.push({ locale: catalog.locale, key, ...issue });
+            }
+          }
+        }
+
+        return {
+          valid: !issues.some(issue => issue.severity === 'error'),
+          checked,
+          errors: issues.filter(issue => issue.severity === 'error'),
+          warnings: issues.filter(issue => issue.severity === 'warning')
+        };
+      }
+    });
+
+    this.addResource({
+      uri: 'i18n://catalogs',
+      name: 'Catalogs',
+      description: 'Locales of the configured project with their catalog paths and message counts',
+      mimeType: 'application/json',
+      handler: async () => {
+        const { root, settings } = await this.activeSettings();
+        const catalogs = await this.catalogs(root, settings);
+        return JSON.stringify(
+          {
+            sourceLocale: settings.sourceLocale,
+            catalogs: [...catalogs.values()].map(catalog => ({
+              locale: catalog.locale,
+              uri: `i18n://catalogs/${encodeURIComponent(catalog.locale)}`,
+              path: relative(root, catalog.path),
+              format: catalog.format,
+              exists: catalog.exists,
+              messages: catalog.messages.size
+            }))
+          },
+          null,
+          2
+        );
+      }
+    });
+
+    this.addResourceTemplate({
+      uriTemplate: 'i18n://catalogs/{locale}',
+      name: 'Locale catalog',
+      description: "A locale's messages as a flat key → message object",
+      mimeType: 'application/json',
+      list: async () => {
+        const { root, settings } = await this.activeSettings();
+        return (await this.locales(root, settings)).map(locale => ({
+          uri: `i18n://catalogs/${encodeURIComponent(locale)}`,
+          name: `${locale} catalog`
+        }));
+      },
+      handler: async ({ locale }) => {
+        if (!LOCALE.test(locale)) throw new ToolError('not_found', `Not a locale: ${locale}`);
+        const { root, settings } = await this.activeSettings();
+        const catalog = await this.readCatalog(root, settings, locale);
+        if (!catalog.exists) {
+          throw new ToolError('not_found', `No catalog for ${locale} at ${relative(root, catalog.path)}`);
+        }
+        return JSON.stringify(
+          { locale, path: relative(root, catalog.path), messages: Object.fromEntries(catalog.messages) },
+          null,
+          2
+        );
+      }
+    });
+  }
+
+  private root(context: ToolContext): string {
+    return resolve(this.requireProject(context));
+  }
+
+  private settings(context: ToolContext): Settings {
+    const settings = context.settings as Partial<{
+      sourceLocale: string;
+      locales: string[];
+      catalogs: string;
+      sources: string[];
+      functions: string[];
+      components: string[];
+      namespaceFunctions: string[];
+      jsonStyle: JsonStyle;
+      lockFile: string;
+    }>;
+    const catalogs = settings.catalogs ?? DEFAULT_CATALOGS;
+    if (!catalogs.includes('{locale}')) {
+      throw new ToolError('invalid_settings', `The catalogs path needs a {locale} placeholder: ${catalogs}`);
+    }
+    return {
+      sourceLocale: settings.sourceLocale ?? DEFAULT_SOURCE_LOCALE,
+      locales: settings.locales,
+      catalogs,
+      sources: settings.sources ?? DEFAULT_SOURCES,
+      extract: {
+        functions: settings.functions ?? DEFAULT_EXTRACT_OPTIONS.functions,
+        components: settings.components ?? DEFAULT_EXTRACT_OPTIONS.components,
+        namespaceFunctions: settings.namespaceFunctions ?? DEFAULT_EXTRACT_OPTIONS.namespaceFunctions
+      },
+      jsonStyle: settings.jsonStyle ?? 'nested',
+      lockFile: settings.lockFile ?? DEFAULT_LOCK_FILE
+    };
+  }
+
+  /** Resources have no arguments, so they read the configured project */
+  private async activeSettings(): Promise<{ root: string; settings: Settings }> {
+    const config = this.activeProject ? await this.config.load(this.activeProject) : undefined;
+    const root = resolve(this.requireProject({ projectPath: this.activeProject, settings: {} }));
+    return { root, settings: this.settings({ projectPath: root, settings: config?.settings ?? {} }) };
+  }
+
+  private async locales(root: string, settings: Settings): Promise<string[]> {
+    const found = settings.locales ?? (await discoverLocales(root, settings.catalogs));
+    return [settings.sourceLocale, ...found.filter(locale => locale !== settings.sourceLocale).sort()];
+  }
+
+  private readCatalog(root: string, settings: Settings, locale: string): Promise<Catalog> {
+    const path = resolve(root, settings.catalogs.split('{locale}').join(locale));
+    return readCatalog(locale, path, settings.jsonStyle).catch(error => {
+      throw new ToolError('invalid_catalog', (error as Error).message);
+    });
+  }
+
+  /** Catalogs by locale, the source locale first */
+  private async catalogs(root: string, settings: Settings, only?: string[]): Promise<Map<string, Catalog>> {
+    const catalogs = new Map<string, Catalog>();
+    for (const locale of only ?? (await this.locales(root, settings))) {
+      catalogs.set(locale, await this.readCatalog(root, settings, locale));
+    }
+    return catalogs;
+  }
+}
+
+/**
+ * PO comments for translators: the source message and where the key is used;
+ * stale translations are marked fuzzy
+ */
+function annotate(catalog: Catalog, source: Catalog | undefined, extraction: Extraction, stale: Set<string>): void {
+  for (const key of catalog.messages.keys()) {
+    const meta = { ...catalog.meta.get(key) };
+    const sourceMessage = source?.messages.get(key);
+    if (sourceMessage) meta.source = sourceMessage;
+    const locations = extraction.messages.get(key)?.locations;
+    if (locations) meta.references = locations.map(location => `${location.file}:${location.line}`);
+    if (stale.has(key)) meta.fuzzy = true;
+    else delete meta.fuzzy;
+    catalog.meta.set(key, meta);
+  }
+}
+
+/**
+ * Locales that have a catalog matching the pattern
+ */
+async function discoverLocales(root: string, pattern: string): Promise<string[]> {
+  const segments = pattern.split('/');
+  const first = segments.findIndex(segment => segment.includes('{locale}'));
+  const base = join(root, ...segments.slice(0, first));
+  const expression = segments
+    .slice(first)
+    .join('/')
+    .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+    .split('{locale}');
+  const matcher = new RegExp(`^${expression[0]}([A-Za-z0-9_-]+)${expression.slice(1).join('\\1')}$`);
+  const depth = segments.length - first;
+
+  const found = new Set<string>();
+  const walk = async (dir: string, level: number): Promise<void> => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory() && level < depth) {
+        await walk(path, level + 1);
+      } else if (entry.isFile() && level === depth) {
+        const match = relative(base, path).split('\\').join('/').match(matcher);
+        if (match) found.add(match[1]);
+      }
+    }
+  };
+  await walk(base, 1);
+  return [...found];
+}
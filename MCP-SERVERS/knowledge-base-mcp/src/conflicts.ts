@@ -0,0 +1,177 @@
+/**
+ * Conflict detection between knowledge entries
+ *
+ * Only entries that talk about the same thing are compared: they relate to
+ * the same entry, one relates to the other, or both name the same entity
+ * (a capitalised name or acronym such as "Supabase" or "JWT"). A pair then
+ * conflicts when:
+ * - both declare the same relationship to the same target with different
+ *   property values, or
+ * - their content is similar but gives a different number for the same
+ *   thing ("expires after 24 hours" vs "expires after 48 hours"), or
+ * - their content is similar but only one of them is negated.
+ */
+
+import { KnowledgeEntry } from "./types.js";
+
+export interface ConflictFinding {
+  id: string;
+  /** Why the entries were compared: shared entity names or entry ids */
+  shared: string[];
+  similarity: number;
+  reasons: string[];
+}
+
+// Content at least this similar is about the same statement
+export const TOPIC_THRESHOLD = 0.35;
+
+const NEGATIONS = new Set([
+  "not", "no", "never", "cannot", "can't", "don't", "doesn't", "isn't", "aren't", "won't",
+  "shouldn't", "mustn't", "avoid", "without", "disable", "disabled", "deprecated",
+]);
+
+// Capitalised words that start sentences rather than name things
+const NAME_STOPWORDS = new Set([
+  "a", "an", "the", "this", "that", "these", "those", "it", "we", "you", "they", "i",
+  "use", "always", "never", "do", "don't", "does", "should", "must", "can", "all", "every",
+  "each", "if", "when", "in", "on", "for", "to", "with", "by", "and", "or", "not", "no",
+  "set", "enable", "disable", "avoid", "prefer", "make", "keep", "run", "add",
+]);
+
+const FILLER = new Set(["a", "an", "the", "is", "are", "be", "of", "to", "at", "after", "for", "every", "by", "in", "on", "=", "max", "min"]);
+
+const UNITS = new Set([
+  "ms", "s", "sec", "second", "seconds", "min", "minute", "minutes", "h", "hour", "hours", "day", "days",
+  "week", "weeks", "kb", "mb", "gb", "tb", "px", "rem", "percent", "%", "request", "requests", "retries",
+  "times", "characters", "chars", "items", "rows", "connections",
+]);
+
+/**
+ * Entity names mentioned in free text, lowercased
+ */
+export function extractNames(content: string): string[] {
+  const names = new Set<string>();
+  const add = (words: string[]) => {
+    const name = words.filter((word) => !NAME_STOPWORDS.has(word.toLowerCase())).join(" ");
+    if (name) names.add(name.toLowerCase());
+  };
+
+  for (const match of content.matchAll(/\b[A-Z][A-Za-z0-9]*(?:[ -][A-Z][A-Za-z0-9]*)*\b/g)) {
+    const words = match[0].split(/[ -]/);
+    const before = content.slice(0, match.index).trimEnd();
+    if (before === "" || /[.!?:;*-]$/.test(before)) {
+      // A sentence-initial word is capitalised anyway: "Cache Supabase
+      // responses" names Supabase, not "Cache Supabase"
+      add(words.slice(0, 1));
+      add(words.slice(1));
+    } else {
+      add(words);
+    }
+  }
+
+  return [...names];
+}
+
+/**
+ * Keys two entries must share to be compared for conflicts
+ */
+export function subjectKeys(entry: KnowledgeEntry): string[] {
+  const keys = new Set<string>();
+  if (entry.type === "entity") keys.add(`entry:${entry.id}`);
+  entry.relationships?.forEach((relationship) => keys.add(`entry:${relationship.target_id}`));
+  extractNames(entry.content).forEach((name) => keys.add(`name:${name}`));
+  return [...keys];
+}
+
+/**
+ * Numeric facts in the content, keyed by the word they quantify
+ */
+export function extractQuantities(content: string): Map<string, string> {
+  const tokens = content.toLowerCase().match(/\d+(?:\.\d+)?%?|[a-z][a-z'-]*/g) || [];
+  const quantities = new Map<string, string>();
+
+  tokens.forEach((token, i) => {
+    if (!/^\d/.test(token)) return;
+
+    let subject: string | undefined;
+    for (let j = i - 1; j >= Math.max(0, i - 3); j--) {
+      if (/^\d/.test(tokens[j])) break;
+      if (!FILLER.has(tokens[j])) {
+        subject = tokens[j];
+        break;
+      }
+    }
+    if (!subject) return;
+
+    const unit = tokens[i + 1] && UNITS.has(tokens[i + 1]) ? ` ${tokens[i + 1]}` : "";
+    quantities.set(subject, `${token}${unit}`);
+  });
+
+  return quantities;
+}
+
+function negation(content: string): string | undefined {
+  return (content.toLowerCase().match(/[a-z']+/g) || []).find((word) => NEGATIONS.has(word));
+}
+
+function describeKey(key: string): string {
+  return key.replace(/^(entry|name):/, "");
+}
+
+/**
+ * Explain why two entries contradict each other, or null if they do not
+ */
+export function compareEntries(entry: KnowledgeEntry, other: KnowledgeEntry, similarity: number): ConflictFinding | null {
+  const otherKeys = new Set(subjectKeys(other));
+  const shared = subjectKeys(entry).filter((key) => otherKeys.has(key));
+  // Pointing at each other counts as sharing a subject
+  if (entry.relationships?.some((r) => r.target_id === other.id)) shared.push(`entry:${other.id}`);
+  if (other.relationships?.some((r) => r.target_id === entry.id)) shared.push(`entry:${entry.id}`);
+  if (shared.length === 0) return null;
+
+  const reasons: string[] = [];
+
+  for (const relationship of entry.relationships || []) {
+    for (const otherRelationship of other.relationships || []) {
+      if (relationship.type !== otherRelationship.type || relationship.target_id !== otherRelationship.target_id) continue;
+
+      for (const [key, value] of Object.entries(relationship.properties || {})) {
+        const otherValue = otherRelationship.properties?.[key];
+        if (otherValue !== undefined && JSON.stringify(otherValue) !== JSON.stringify(value)) {
+          reasons.push(
+            `Both declare ${relationship.type} -> ${relationship.target_id} but disagree on ${key}: ` +
+            `${JSON.stringify(value)} vs ${JSON.stringify(otherValue)}`
+          );
+        }
+      }
+    }
+  }
+
+  if (similarity >= TOPIC_THRESHOLD) {
+    const quantities = extractQuantities(entry.content);
+    for (const [subject, value] of extractQuantities(other.content)) {
+      const mine = quantities.get(subject);
+      if (mine !== undefined && mine !== value) {
+        reasons.push(`States ${subject} ${mine} where ${other.id} states ${subject} ${value}`);
+      }
+    }
+
+    const mine = negation(entry.content);
+    const theirs = negation(other.content);
+    if (Boolean(mine) !== Boolean(theirs)) {
+      const [negated, plain] = mine ? [entry.id, other.id] : [other.id, entry.id];
+      reasons.push(
+        `Similar statements (similarity ${similarity.toFixed(2)}) but ${negated} says "${mine || theirs}" and ${plain} does not`
+      );
+    }
+  }
+
+  if (reasons.length === 0) return null;
+
+  return {
+    id: other.id,
+    shared: [...new Set(shared)].map(describeKey),
+    similarity: Math.round(similarity * 1000) / 1000,
+    reasons,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Cypher export of knowledge graphs
+ *
+ * Produces parameterised statements that run one by one through the
+ * Neo4jClient in INTEGRATIONS/graph-databases/neo4j:
+ *
+ *   for (const { cypher, parameters } of statements) {
+ *     await client.query(cypher, parameters)
+ *   }
+ *
+ * or a single script with the values inlined, for cypher-shell or the
+ * Neo4j browser. Statements MERGE on the entry id, so seeding twice updates
+ * nodes instead of duplicating them.
+ */
+
+import { KnowledgeEntry, KnowledgeType, StoredRelationship } from "./types.js";
+
+export interface CypherStatement {
+  cypher: string;
+  parameters: Record<string, any>;
+}
+
+// Every entry gets this label; the id constraint is defined on it
+export const NODE_LABEL = "Knowledge";
+
+const TYPE_LABELS: Record<KnowledgeType, string> = {
+  document: "Document",
+  entity: "Entity",
+  relationship: "Relationship",
+};
+
+/**
+ * Backtick-quote an identifier so any relationship type is valid Cypher
+ */
+export function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, "``")}\``;
+}
+
+/**
+ * Neo4j properties hold primitives and arrays of primitives only; anything
+ * else is stored as JSON text
+ */
+function propertyValue(value: any): any {
+  if (value === null || ["string", "number", "boolean"].includes(typeof value)) return value;
+  if (Array.isArray(value) && value.every((item) => ["string", "number", "boolean"].includes(typeof item))) return value;
+  return JSON.stringify(value);
+}
+
+function properties(values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, propertyValue(value)])
+  );
+}
+
+function nodeProperties(entry: KnowledgeEntry): Record<string, any> {
+  return properties({
+    type: entry.type,
+    content: entry.content,
+    source: entry.metadata.source,
+    author: entry.metadata.author,
+    category: entry.metadata.category,
+    tags: entry.metadata.tags,
+    confidence: entry.metadata.confidence,
+    version: entry.version,
+    created_at: entry.metadata.created_at,
+    updated_at: entry.metadata.updated_at,
+  });
+}
+
+export function toCypherStatements(entries: KnowledgeEntry[], edges: StoredRelationship[]): CypherStatement[] {
+  const statements: CypherStatement[] = [
+    {
+      cypher: `CREATE CONSTRAINT knowledge_id IF NOT EXISTS FOR (n:${NODE_LABEL}) REQUIRE n.id IS UNIQUE`,
+      parameters: {},
+    },
+  ];
+
+  for (const entry of entries) {
+    statements.push({
+      cypher: `MERGE (n:${NODE_LABEL} {id: $id}) SET n += $props, n:${TYPE_LABELS[entry.type] || "Document"}`,
+      parameters: { id: entry.id, props: nodeProperties(entry) },
+    });
+  }
+
+  // Targets outside the export become bare nodes so no relationship is lost
+  for (const edge of edges) {
+    statements.push({
+      cypher:
+        `MATCH (a:${NODE_LABEL} {id: $source_id}) MERGE (b:${NODE_LABEL} {id: $target_id}) ` +
+        `MERGE (a)-[r:${quoteIdentifier(edge.type)}]->(b) SET r += $props`,
+      parameters: { source_id: edge.source_id, target_id: edge.target_id, props: properties(edge.properties || {}) },
+    });
+  }
+
+  return statements;
+}
+
+/**
+ * A Cypher literal for a parameter value
+ */
+export function cypherLiteral(value: any): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "string") {
+    return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n").replace(/\r/g, "\\r")}'`;
+  }
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return `[${value.map(cypherLiteral).join(", ")}]`;
+  return `{${Object.entries(value)
+    .map(([key, item]) => `${/^[A-Za-z_]\w*$/.test(key) ? key : quoteIdentifier(key)}: ${cypherLiteral(item)}`)
+    .join(", ")}}`;
+}
+
+/**
+ * Statements with their parameters inlined, one per line
+ */
+export function toCypherScript(statements: CypherStatement[]): string {
+  return statements
+    .map(({ cypher, parameters }) =>
+      `${cypher.replace(/\$(\w+)/g, (match, name) => (name in parameters ? cypherLiteral(parameters[name]) : match))};`
+    )
+    .join("\n");
+}
@@ -0,0 +1,68 @@
+/**
+ * Deterministic local embedder
+ *
+ * Feature hashing of word unigrams and bigrams into a fixed-size vector.
+ * Needs no network or model download, so it works offline and gives the
+ * same vector for the same text on every machine. It captures word
+ * overlap, not meaning: synonyms are not recognised.
+ */
+
+import { EmbeddingProvider } from "./interface.js";
+
+// Function words that carry no topic. Negations are deliberately kept.
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "of", "to", "in", "on", "for", "with", "by", "at", "from", "as",
+  "is", "are", "was", "were", "be", "been", "it", "its", "this", "that", "these", "those", "you",
+  "your", "we", "our", "they", "their", "should", "can", "will", "would", "must", "do", "does",
+]);
+
+const BIGRAM_WEIGHT = 0.5;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9][a-z0-9_+#']*/g) || [])
+    .filter((token) => !STOPWORDS.has(token))
+    // Light stemming so plurals match their singular
+    .map((token) => (token.length > 3 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
+
+// 32-bit FNV-1a
+function hash(feature: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    h ^= feature.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export class HashingEmbedder implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(private readonly dimensions: number = 256) {
+    this.model = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(text);
+    tokens.forEach((token) => counts.set(token, (counts.get(token) || 0) + 1));
+    for (let i = 0; i < tokens.length - 1; i++) {
+      const bigram = `${tokens[i]} ${tokens[i + 1]}`;
+      counts.set(bigram, (counts.get(bigram) || 0) + BIGRAM_WEIGHT);
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const h = hash(feature);
+      // The top bit picks the sign so colliding features tend to cancel out
+      vector[h % this.dimensions] += (h & 0x80000000 ? -1 : 1) * Math.log1p(count);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => Math.round((value / norm) * 1e6) / 1e6);
+  }
+}
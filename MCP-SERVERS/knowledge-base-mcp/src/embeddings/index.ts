@@ -0,0 +1,30 @@
+/**
+ * Embedding provider selection
+ */
+
+import { HashingEmbedder } from "./hashing.js";
+import { EmbeddingProvider } from "./interface.js";
+import { OpenAIEmbedder } from "./openai.js";
+
+export { cosineSimilarity, EmbeddingProvider } from "./interface.js";
+export { HashingEmbedder } from "./hashing.js";
+export { OpenAIEmbedder } from "./openai.js";
+
+/**
+ * Read KNOWLEDGE_BASE_EMBEDDINGS (hashing | openai) and related settings
+ */
+export function embeddingProviderFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const provider = env.KNOWLEDGE_BASE_EMBEDDINGS || "hashing";
+
+  switch (provider) {
+    case "hashing":
+      return new HashingEmbedder(env.KNOWLEDGE_BASE_EMBEDDING_DIMENSIONS ? Number(env.KNOWLEDGE_BASE_EMBEDDING_DIMENSIONS) : undefined);
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new Error("KNOWLEDGE_BASE_EMBEDDINGS=openai requires OPENAI_API_KEY");
+      }
+      return new OpenAIEmbedder(env.OPENAI_API_KEY, env.KNOWLEDGE_BASE_EMBEDDING_MODEL, env.OPENAI_BASE_URL);
+    default:
+      throw new Error(`Unknown KNOWLEDGE_BASE_EMBEDDINGS: ${provider} (expected hashing or openai)`);
+  }
+}
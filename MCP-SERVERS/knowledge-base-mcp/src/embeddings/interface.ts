@@ -0,0 +1,36 @@
+/**
+ * Common interface for embedding providers
+ */
+
+export interface EmbeddingProvider {
+  /**
+   * Model identifier stored with each embedding; vectors from different
+   * models are never compared
+   */
+  readonly model: string;
+
+  /**
+   * Embed each text into a vector
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error(`Embedding dimensions differ: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,33 @@
+/**
+ * OpenAI-compatible embeddings endpoint (OpenAI, Azure OpenAI, Ollama, LM Studio...)
+ */
+
+import { EmbeddingProvider } from "./interface.js";
+
+export class OpenAIEmbedder implements EmbeddingProvider {
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string = "text-embedding-3-small",
+    private readonly baseUrl: string = "https://api.openai.com/v1"
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+    return body.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
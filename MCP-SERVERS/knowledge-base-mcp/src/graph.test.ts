@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { cypherLiteral, toCypherScript, toCypherStatements } from "./cypher.js";
+import { KnowledgeBase } from "./knowledge-base.js";
+import { createStore, KnowledgeStore, StorageBackend } from "./storage.js";
+
+const backends: StorageBackend[] = ["sqlite", "memory"];
+
+describe.each(backends)("Graph queries on %s storage", (backend) => {
+  let store: KnowledgeStore;
+  let kb: KnowledgeBase;
+  const ids: Record<string, string> = {};
+
+  const create = async (name: string, relationships: any[] = [], type = "entity") => {
+    ids[name] = (await kb.createEntry({ type, content: name, source: "s", relationships })).id;
+  };
+
+  // auth -USES(14)-> postgres, auth -DEPENDS_ON-> billing -USES(15)-> postgres,
+  // billing -MENTIONS-> ext_missing, legacy (deleted) -USES-> postgres, docs alone
+  beforeEach(async () => {
+    store = await createStore({ backend, path: ":memory:" });
+    kb = new KnowledgeBase(store);
+    await create("postgres");
+    await create("billing", [{ type: "USES", target_id: ids.postgres, properties: { version: 15 } }, { type: "MENTIONS", target_id: "ext_missing" }]);
+    await create("auth", [
+      { type: "USES", target_id: ids.postgres, properties: { version: 14 } },
+      { type: "DEPENDS_ON", target_id: ids.billing },
+    ]);
+    await create("legacy", [{ type: "USES", target_id: ids.postgres }]);
+    await create("docs", [], "document");
+    await kb.deleteEntry({ id: ids.legacy });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  const names = (nodes: any[]) => nodes.map((n) => n.content ?? n.id).sort();
+
+  it("should list neighbours in both directions, skipping deleted entries", async () => {
+    const result = await kb.graphQuery({ operation: "neighbors", id: ids.postgres });
+
+    expect(names(result.nodes)).toEqual(["auth", "billing", "postgres"]);
+    expect(result.edges).toHaveLength(2);
+    expect(result.nodes.find((n: any) => n.content === "auth").depth).toBe(1);
+  });
+
+  it("should follow direction and relationship filters", async () => {
+    expect(names((await kb.graphQuery({ operation: "neighbors", id: ids.auth, direction: "out" })).nodes)).toEqual([
+      "auth",
+      "billing",
+      "postgres",
+    ]);
+    expect(names((await kb.graphQuery({ operation: "neighbors", id: ids.auth, direction: "in" })).nodes)).toEqual(["auth"]);
+    expect(
+      names((await kb.graphQuery({ operation: "neighbors", id: ids.postgres, relationship_properties: { version: 14 } })).nodes)
+    ).toEqual(["auth", "postgres"]);
+  });
+
+  it("should expand k hops and report missing targets", async () => {
+    const oneHop = await kb.graphQuery({ operation: "expand", id: ids.auth, depth: 1, relationship_types: ["DEPENDS_ON", "MENTIONS"] });
+    expect(names(oneHop.nodes)).toEqual(["auth", "billing"]);
+
+    const twoHops = await kb.graphQuery({ operation: "expand", id: ids.auth, depth: 2, relationship_types: ["DEPENDS_ON", "MENTIONS"] });
+    expect(names(twoHops.nodes)).toEqual(["auth", "billing", "ext_missing"]);
+    expect(twoHops.nodes.find((n: any) => n.id === "ext_missing")).toEqual({ id: "ext_missing", depth: 2, missing: true });
+  });
+
+  it("should stop at the node limit", async () => {
+    const result = await kb.graphQuery({ operation: "expand", id: ids.postgres, depth: 3, limit: 2 });
+
+    expect(result.node_count).toBe(2);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("should find the shortest path", async () => {
+    const direct = await kb.graphQuery({ operation: "shortest_path", id: ids.auth, target_id: ids.billing });
+    expect(direct).toMatchObject({ found: true, length: 1 });
+
+    // Only USES relationships: auth -> postgres <- billing
+    const viaPostgres = await kb.graphQuery({
+      operation: "shortest_path",
+      id: ids.auth,
+      target_id: ids.billing,
+      relationship_types: ["USES"],
+    });
+    expect(viaPostgres.nodes.map((n: any) => [n.content, n.depth])).toEqual([["auth", 0], ["postgres", 1], ["billing", 2]]);
+    expect(viaPostgres.edges.map((e: any) => e.properties)).toEqual([{ version: 14 }, { version: 15 }]);
+
+    const outgoingOnly = await kb.graphQuery({
+      operation: "shortest_path",
+      id: ids.auth,
+      target_id: ids.billing,
+      relationship_types: ["USES"],
+      direction: "out",
+    });
+    expect(outgoingOnly.found).toBe(false);
+
+    const none = await kb.graphQuery({ operation: "shortest_path", id: ids.docs, target_id: ids.auth });
+    expect(none).toEqual({
+      success: true,
+      operation: "shortest_path",
+      found: false,
+      message: `No path from ${ids.docs} to ${ids.auth} within 6 hops`,
+    });
+  });
+
+  it("should reject unknown entries and operations", async () => {
+    await expect(kb.graphQuery({ operation: "neighbors", id: "kb_nope" })).rejects.toThrow("Knowledge entry kb_nope not found");
+    expect(await kb.graphQuery({ operation: "pagerank", id: ids.auth })).toEqual({ success: false, error: "Unknown operation: pagerank" });
+  });
+
+  it("should export the whole graph as Cypher", async () => {
+    const result = await kb.exportCypher({ format: "statements" });
+
+    expect(result).toMatchObject({ node_count: 4, relationship_count: 4, missing_nodes: ["ext_missing"] });
+    expect(result.statements[0].cypher).toContain("CREATE CONSTRAINT knowledge_id");
+    expect(result.statements).toContainEqual({
+      cypher: "MATCH (a:Knowledge {id: $source_id}) MERGE (b:Knowledge {id: $target_id}) MERGE (a)-[r:`USES`]->(b) SET r += $props",
+      parameters: { source_id: ids.auth, target_id: ids.postgres, props: { version: 14 } },
+    });
+  });
+
+  it("should export the subgraph around an entry as a script", async () => {
+    const result = await kb.exportCypher({ id: ids.billing, depth: 1, direction: "out" });
+
+    expect(result.node_count).toBe(2);
+    expect(result.script.split("\n")).toHaveLength(5);
+    expect(result.script).toContain(`MERGE (n:Knowledge {id: '${ids.billing}'}) SET n += {type: 'entity', content: 'billing'`);
+  });
+});
+
+describe("Cypher Generation", () => {
+  const entry = {
+    id: "kb_1",
+    type: "document" as const,
+    content: "It's a \"quote\"\nand a \\ backslash",
+    metadata: { source: "s", created_at: "c", updated_at: "u", tags: ["a", "b"] },
+    version: 2,
+  };
+
+  it("should label nodes by type and flatten nested properties", () => {
+    const [, node, edge] = toCypherStatements([entry], [
+      { source_id: "kb_1", type: "weird`type", target_id: "kb_2", properties: { meta: { nested: true }, list: [1, 2] } },
+    ]);
+
+    expect(node.cypher).toBe("MERGE (n:Knowledge {id: $id}) SET n += $props, n:Document");
+    expect(node.parameters.props).toEqual({
+      type: "document",
+      content: entry.content,
+      source: "s",
+      tags: ["a", "b"],
+      version: 2,
+      created_at: "c",
+      updated_at: "u",
+    });
+    expect(edge.cypher).toContain("[r:`weird``type`]");
+    expect(edge.parameters.props).toEqual({ meta: '{"nested":true}', list: [1, 2] });
+  });
+
+  it("should inline escaped literals in scripts", () => {
+    expect(cypherLiteral(entry.content)).toBe("'It\\'s a \"quote\"\\nand a \\\\ backslash'");
+    expect(cypherLiteral({ "odd key": [1, true, null] })).toBe("{`odd key`: [1, true, null]}");
+    expect(toCypherScript([{ cypher: "MATCH (n {id: $id}) RETURN n", parameters: { id: "x" } }])).toBe(
+      "MATCH (n {id: 'x'}) RETURN n;"
+    );
+  });
+});
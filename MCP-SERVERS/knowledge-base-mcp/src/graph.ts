@@ -0,0 +1,231 @@
+/**
+ * Graph traversal over entry relationships
+ *
+ * Walks the relationships index of a KnowledgeStore breadth-first, so only
+ * the entries that are reached get loaded. Soft-deleted entries are not part
+ * of the graph; relationships pointing at ids with no entry are kept and
+ * their target is reported as a missing node.
+ */
+
+import { KnowledgeStore } from "./storage.js";
+import { isDeleted, KnowledgeEntry, KnowledgeType, StoredRelationship } from "./types.js";
+
+export type Direction = "out" | "in" | "both";
+
+export interface EdgeFilter {
+  direction?: Direction;
+  /** Follow only these relationship types */
+  relationship_types?: string[];
+  /** Follow only relationships whose properties equal all of these */
+  relationship_properties?: Record<string, any>;
+}
+
+export interface GraphNode {
+  id: string;
+  type?: KnowledgeType;
+  content?: string;
+  category?: string;
+  tags?: string[];
+  /** Hops from the start entry */
+  depth: number;
+  /** Referenced by a relationship but not in the knowledge base */
+  missing?: true;
+}
+
+export interface Subgraph {
+  nodes: GraphNode[];
+  edges: StoredRelationship[];
+  /** Full entries of the nodes that exist, for export */
+  entries: KnowledgeEntry[];
+  /** True if the node limit stopped the expansion */
+  truncated: boolean;
+}
+
+export interface GraphPath {
+  nodes: GraphNode[];
+  edges: StoredRelationship[];
+  length: number;
+}
+
+function edgeKey(edge: StoredRelationship): string {
+  return `${edge.source_id}|${edge.type}|${edge.target_id}|${JSON.stringify(edge.properties || {})}`;
+}
+
+function toNode(id: string, entry: KnowledgeEntry | null, depth: number): GraphNode {
+  if (!entry) return { id, depth, missing: true };
+  return {
+    id,
+    type: entry.type,
+    content: entry.content,
+    ...(entry.metadata.category ? { category: entry.metadata.category } : {}),
+    ...(entry.metadata.tags?.length ? { tags: entry.metadata.tags } : {}),
+    depth,
+  };
+}
+
+export function matchesFilter(edge: StoredRelationship, filter: EdgeFilter): boolean {
+  if (filter.relationship_types?.length && !filter.relationship_types.includes(edge.type)) return false;
+  for (const [key, value] of Object.entries(filter.relationship_properties || {})) {
+    if (JSON.stringify(edge.properties?.[key]) !== JSON.stringify(value)) return false;
+  }
+  return true;
+}
+
+export class GraphTraversal {
+  // Entries looked up during one traversal; null for missing or deleted
+  private entries = new Map<string, KnowledgeEntry | null>();
+  private deleted = new Set<string>();
+
+  constructor(private readonly store: KnowledgeStore) {}
+
+  /**
+   * Matching relationships of a node, each with the id on the other end
+   */
+  async edgesOf(id: string, filter: EdgeFilter): Promise<Array<{ edge: StoredRelationship; next: string }>> {
+    const direction = filter.direction || "both";
+    const result: Array<{ edge: StoredRelationship; next: string }> = [];
+
+    for (const edge of await this.store.getRelationships(id)) {
+      if (!matchesFilter(edge, filter)) continue;
+
+      const outgoing = edge.source_id === id;
+      const incoming = edge.target_id === id;
+      const next = outgoing ? edge.target_id : edge.source_id;
+      if (!(outgoing && direction !== "in") && !(incoming && direction !== "out")) continue;
+      // Relationships from or to soft-deleted entries are not part of the graph
+      await this.entry(next);
+      if (this.deleted.has(edge.source_id) || this.deleted.has(edge.target_id)) continue;
+
+      result.push({ edge, next });
+    }
+
+    return result;
+  }
+
+  /**
+   * Everything within `depth` hops of the start entry
+   */
+  async expand(startId: string, depth: number, filter: EdgeFilter, limit: number = 100): Promise<Subgraph> {
+    const start = await this.entry(startId);
+    if (!start) {
+      throw new Error(`Knowledge entry ${startId} not found`);
+    }
+
+    const depths = new Map<string, number>([[startId, 0]]);
+    const edges = new Map<string, StoredRelationship>();
+    let frontier = [startId];
+    let truncated = false;
+
+    for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        // Missing targets have no relationships of their own
+        if ((await this.entry(id)) === null) continue;
+
+        for (const { edge, next: neighbour } of await this.edgesOf(id, filter)) {
+          if (!depths.has(neighbour)) {
+            if (depths.size >= limit) {
+              truncated = true;
+              continue;
+            }
+            depths.set(neighbour, hop);
+            next.push(neighbour);
+          }
+          edges.set(edgeKey(edge), edge);
+        }
+      }
+      frontier = next;
+    }
+
+    return this.subgraph(depths, [...edges.values()], truncated);
+  }
+
+  /**
+   * Fewest-hop path between two entries, or null if they are not connected
+   */
+  async shortestPath(fromId: string, toId: string, filter: EdgeFilter, maxDepth: number = 6): Promise<GraphPath | null> {
+    for (const id of [fromId, toId]) {
+      if (!(await this.entry(id))) {
+        throw new Error(`Knowledge entry ${id} not found`);
+      }
+    }
+
+    const previous = new Map<string, { id: string; edge: StoredRelationship } | null>([[fromId, null]]);
+    let frontier = [fromId];
+
+    for (let hop = 1; hop <= maxDepth && frontier.length > 0 && !previous.has(toId); hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        if ((await this.entry(id)) === null) continue;
+
+        for (const { edge, next: neighbour } of await this.edgesOf(id, filter)) {
+          if (previous.has(neighbour)) continue;
+          previous.set(neighbour, { id, edge });
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+
+    if (!previous.has(toId)) return null;
+
+    const ids: string[] = [toId];
+    const edges: StoredRelationship[] = [];
+    for (let step = previous.get(toId); step; step = previous.get(step.id)) {
+      ids.unshift(step.id);
+      edges.unshift(step.edge);
+    }
+
+    const nodes = await Promise.all(ids.map(async (id, depth) => toNode(id, await this.entry(id), depth)));
+    return { nodes, edges, length: edges.length };
+  }
+
+  /**
+   * Every current entry and relationship
+   */
+  async all(): Promise<Subgraph> {
+    const depths = new Map<string, number>();
+    const edges: StoredRelationship[] = [];
+
+    for (const entry of await this.store.listCurrent()) {
+      if (isDeleted(entry)) {
+        this.deleted.add(entry.id);
+        this.entries.set(entry.id, null);
+        continue;
+      }
+      this.entries.set(entry.id, entry);
+      depths.set(entry.id, 0);
+      for (const relationship of entry.relationships || []) {
+        edges.push({ source_id: entry.id, ...relationship });
+      }
+    }
+    const live = edges.filter((edge) => !this.deleted.has(edge.target_id));
+    for (const edge of live) {
+      if (!depths.has(edge.target_id)) depths.set(edge.target_id, 0);
+    }
+
+    return this.subgraph(depths, live, false);
+  }
+
+  private async subgraph(depths: Map<string, number>, edges: StoredRelationship[], truncated: boolean): Promise<Subgraph> {
+    const nodes: GraphNode[] = [];
+    const entries: KnowledgeEntry[] = [];
+
+    for (const [id, depth] of depths) {
+      const entry = await this.entry(id);
+      nodes.push(toNode(id, entry, depth));
+      if (entry) entries.push(entry);
+    }
+
+    return { nodes, edges, entries, truncated };
+  }
+
+  private async entry(id: string): Promise<KnowledgeEntry | null> {
+    if (!this.entries.has(id)) {
+      const entry = await this.store.getCurrent(id);
+      if (entry && isDeleted(entry)) this.deleted.add(id);
+      this.entries.set(id, entry && !isDeleted(entry) ? entry : null);
+    }
+    return this.entries.get(id)!;
+  }
+}
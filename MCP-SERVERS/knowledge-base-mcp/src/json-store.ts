@@ -0,0 +1,134 @@
+/**
+ * In-memory and JSON-file storage
+ *
+ * MemoryStore keeps the version histories in a Map. JsonFileStore adds
+ * persistence by rewriting a single JSON file after every change.
+ */
+
+import { existsSync, promises as fs } from "fs";
+import * as path from "path";
+import { KnowledgeStore } from "./storage.js";
+import { indexKeys, KnowledgeEntry, StoredRelationship } from "./types.js";
+
+interface JsonFile {
+  version: 1;
+  /** Entry id -> version history, oldest first */
+  entries: Record<string, KnowledgeEntry[]>;
+}
+
+export class MemoryStore implements KnowledgeStore {
+  protected entries = new Map<string, KnowledgeEntry[]>();
+  private index = new Map<string, Set<string>>();
+
+  async getVersions(id: string): Promise<KnowledgeEntry[]> {
+    return [...(this.entries.get(id) || [])];
+  }
+
+  async getCurrent(id: string): Promise<KnowledgeEntry | null> {
+    const versions = this.entries.get(id);
+    return versions && versions.length > 0 ? versions[versions.length - 1] : null;
+  }
+
+  async listCurrent(): Promise<KnowledgeEntry[]> {
+    return [...this.entries.values()].map((versions) => versions[versions.length - 1]);
+  }
+
+  async listAllVersions(): Promise<KnowledgeEntry[]> {
+    return [...this.entries.values()].flat();
+  }
+
+  async appendVersion(entry: KnowledgeEntry): Promise<void> {
+    const versions = this.entries.get(entry.id) || [];
+    if (versions.some((existing) => existing.version === entry.version)) {
+      throw new Error(`Version ${entry.version} of ${entry.id} already exists`);
+    }
+    versions.push(entry);
+    this.entries.set(entry.id, versions);
+    this.reindex(entry.id);
+    await this.persist();
+  }
+
+  async deleteEntry(id: string): Promise<boolean> {
+    if (!this.entries.delete(id)) return false;
+    this.reindex(id);
+    await this.persist();
+    return true;
+  }
+
+  async findIdsByKey(key: string): Promise<string[]> {
+    return [...(this.index.get(key) || [])];
+  }
+
+  async getRelationships(id: string): Promise<StoredRelationship[]> {
+    const relationships: StoredRelationship[] = [];
+    for (const current of await this.listCurrent()) {
+      for (const relationship of current.relationships || []) {
+        if (current.id === id || relationship.target_id === id) {
+          relationships.push({ source_id: current.id, ...relationship });
+        }
+      }
+    }
+    return relationships;
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  protected async persist(): Promise<void> {
+    // Memory only
+  }
+
+  protected reindex(id: string): void {
+    this.index.forEach((ids) => ids.delete(id));
+    const versions = this.entries.get(id);
+    if (!versions) return;
+
+    for (const key of indexKeys(versions[versions.length - 1])) {
+      if (!this.index.has(key)) this.index.set(key, new Set());
+      this.index.get(key)!.add(id);
+    }
+  }
+}
+
+export class JsonFileStore extends MemoryStore {
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private constructor(private readonly file: string) {
+    super();
+  }
+
+  static async open(file: string): Promise<JsonFileStore> {
+    const store = new JsonFileStore(file);
+    if (existsSync(file)) {
+      const data = JSON.parse(await fs.readFile(file, "utf-8")) as JsonFile;
+      if (data.version !== 1 || typeof data.entries !== "object") {
+        throw new Error(`Unsupported knowledge base file: ${file}`);
+      }
+      for (const [id, versions] of Object.entries(data.entries)) {
+        store.entries.set(id, versions);
+        store.reindex(id);
+      }
+    }
+    return store;
+  }
+
+  protected persist(): Promise<void> {
+    // Serialize snapshots so concurrent changes never share the temp file
+    const write = async () => {
+      const data: JsonFile = { version: 1, entries: Object.fromEntries(this.entries) };
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      // Write then rename so a crash never leaves a truncated file
+      const temp = `${this.file}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(data, null, 2));
+      await fs.rename(temp, this.file);
+    };
+    const result = this.writes.then(write, write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+  }
+}
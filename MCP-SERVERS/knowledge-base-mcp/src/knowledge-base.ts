@@ -0,0 +1,553 @@
+/**
+ * Knowledge base operations
+ *
+ * Implements the MCP tools on top of a KnowledgeStore so the same logic
+ * runs against every storage backend. Entries are embedded on write;
+ * duplicates are found by cosine similarity of those embeddings.
+ */
+
+import { compareEntries, ConflictFinding } from "./conflicts.js";
+import { toCypherScript, toCypherStatements } from "./cypher.js";
+import { cosineSimilarity, EmbeddingProvider, HashingEmbedder } from "./embeddings/index.js";
+import { EdgeFilter, GraphTraversal, Subgraph } from "./graph.js";
+import { KnowledgeStore } from "./storage.js";
+import { DELETED_TAG, isDeleted, KnowledgeEntry } from "./types.js";
+
+export function generateId(): string {
+  return `kb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Embeddings are long and only useful to the server itself
+function withoutEmbedding(entry: KnowledgeEntry): KnowledgeEntry {
+  const { embedding: _embedding, embedding_model: _embeddingModel, ...rest } = entry;
+  return rest;
+}
+
+export class KnowledgeBase {
+  // Embeddings computed on the fly for entries stored without one (or by
+  // another model), keyed by id@version
+  private embeddingCache = new Map<string, number[]>();
+
+  constructor(
+    private readonly store: KnowledgeStore,
+    private readonly embedder: EmbeddingProvider = new HashingEmbedder()
+  ) {}
+
+  /**
+   * Current, non-deleted entries whose content is at least `threshold`
+   * cosine-similar to the given content, most similar first
+   */
+  async findDuplicates(
+    content: string,
+    threshold: number = 0.9,
+    excludeId?: string
+  ): Promise<Array<{ id: string; similarity: number }>> {
+    const [vector] = await this.embedder.embed([content]);
+    const duplicates: Array<{ id: string; similarity: number }> = [];
+
+    for (const current of await this.store.listCurrent()) {
+      if (current.id === excludeId || isDeleted(current)) continue;
+
+      const similarity = cosineSimilarity(vector, await this.embeddingOf(current));
+      if (similarity >= threshold) {
+        duplicates.push({ id: current.id, similarity: Math.round(similarity * 1000) / 1000 });
+      }
+    }
+
+    return duplicates.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Entries about the same subjects that contradict this one; see conflicts.ts
+   */
+  async detectConflicts(entry: KnowledgeEntry): Promise<ConflictFinding[]> {
+    const conflicts: ConflictFinding[] = [];
+    const vector = await this.embeddingOf(entry);
+
+    for (const other of await this.store.listCurrent()) {
+      if (other.id === entry.id || isDeleted(other)) continue;
+
+      const finding = compareEntries(entry, other, cosineSimilarity(vector, await this.embeddingOf(other)));
+      if (finding) conflicts.push(finding);
+    }
+
+    return conflicts;
+  }
+
+  private async embeddingOf(entry: KnowledgeEntry): Promise<number[]> {
+    if (entry.embedding && entry.embedding_model === this.embedder.model) return entry.embedding;
+
+    const key = `${entry.id}@${entry.version}`;
+    if (!this.embeddingCache.has(key)) {
+      const [vector] = await this.embedder.embed([entry.content]);
+      this.embeddingCache.set(key, vector);
+    }
+    return this.embeddingCache.get(key)!;
+  }
+
+  /**
+   * Fill in the embedding, reusing the previous version's when the content
+   * and model are unchanged
+   */
+  private async embed(entry: KnowledgeEntry, previous?: KnowledgeEntry): Promise<KnowledgeEntry> {
+    if (previous?.embedding && previous.embedding_model === this.embedder.model && previous.content === entry.content) {
+      return { ...entry, embedding: previous.embedding, embedding_model: previous.embedding_model };
+    }
+    const [embedding] = await this.embedder.embed([entry.content]);
+    return { ...entry, embedding, embedding_model: this.embedder.model };
+  }
+
+  async createEntry(args: any): Promise<any> {
+    const id = generateId();
+    const now = new Date().toISOString();
+
+    const entry: KnowledgeEntry = await this.embed({
+      id,
+      type: args.type,
+      content: args.content,
+      metadata: {
+        source: args.source,
+        created_at: now,
+        updated_at: now,
+        author: args.author,
+        category: args.category,
+        tags: args.tags,
+        confidence: args.confidence
+      },
+      version: 1,
+      relationships: args.relationships
+    });
+
+    await this.store.appendVersion(entry);
+
+    return {
+      success: true,
+      id,
+      message: "Knowledge entry created successfully",
+      entry: withoutEmbedding(entry)
+    };
+  }
+
+  async updateEntry(args: any): Promise<any> {
+    const current = await this.store.getCurrent(args.id);
+    if (!current) {
+      return {
+        success: false,
+        error: `Knowledge entry ${args.id} not found`
+      };
+    }
+
+    const now = new Date().toISOString();
+
+    const updated: KnowledgeEntry = await this.embed({
+      ...current,
+      content: args.content || current.content,
+      metadata: {
+        ...current.metadata,
+        ...args.metadata,
+        updated_at: now
+      },
+      version: current.version + 1
+    }, current);
+
+    await this.store.appendVersion(updated);
+
+    return {
+      success: true,
+      message: "Knowledge entry updated successfully",
+      changelog: args.changelog,
+      entry: withoutEmbedding(updated)
+    };
+  }
+
+  async deleteEntry(args: any): Promise<any> {
+    const current = await this.store.getCurrent(args.id);
+    if (!current) {
+      return {
+        success: false,
+        error: `Knowledge entry ${args.id} not found`
+      };
+    }
+
+    if (args.hard_delete) {
+      await this.store.deleteEntry(args.id);
+      return {
+        success: true,
+        message: "Knowledge entry permanently deleted",
+        hard_delete: true
+      };
+    } else {
+      const deleted: KnowledgeEntry = {
+        ...current,
+        metadata: {
+          ...current.metadata,
+          updated_at: new Date().toISOString(),
+          tags: [...(current.metadata.tags || []), DELETED_TAG]
+        },
+        version: current.version + 1
+      };
+      await this.store.appendVersion(deleted);
+
+      return {
+        success: true,
+        message: "Knowledge entry soft deleted (marked as deleted, history preserved)",
+        hard_delete: false
+      };
+    }
+  }
+
+  async query(args: any): Promise<any> {
+    const results: KnowledgeEntry[] = [];
+    const limit = args.limit || 10;
+
+    for (const current of await this.store.listCurrent()) {
+      // Skip deleted entries
+      if (isDeleted(current)) continue;
+
+      // Apply filters
+      if (args.type && current.type !== args.type) continue;
+      if (args.category && current.metadata.category !== args.category) continue;
+      if (args.tags && !args.tags.some((tag: string) => current.metadata.tags?.includes(tag))) continue;
+      if (args.query && !current.content.toLowerCase().includes(args.query.toLowerCase())) continue;
+
+      results.push(withoutEmbedding(current));
+      if (results.length >= limit) break;
+    }
+
+    return {
+      success: true,
+      count: results.length,
+      results
+    };
+  }
+
+  async validate(args: any): Promise<any> {
+    const checks = args.checks || ["duplicates", "conflicts", "staleness", "completeness"];
+    const report: any = {
+      timestamp: new Date().toISOString(),
+      checks_run: checks,
+      issues: []
+    };
+
+    const entriesToCheck = args.id
+      ? [await this.store.getCurrent(args.id)].filter(Boolean)
+      : await this.store.listCurrent();
+
+    for (const entry of entriesToCheck) {
+      if (!entry) continue;
+
+      if (checks.includes("duplicates")) {
+        const duplicates = await this.findDuplicates(entry.content, args.duplicate_threshold || 0.9, entry.id);
+        if (duplicates.length > 0) {
+          report.issues.push({
+            type: "duplicate",
+            entry_id: entry.id,
+            duplicates: duplicates.map(d => d.id),
+            similarities: duplicates,
+            explanation: duplicates
+              .map(d => `Content is ${Math.round(d.similarity * 100)}% similar to ${d.id} (cosine, ${this.embedder.model})`)
+              .join("; "),
+            severity: "warning"
+          });
+        }
+      }
+
+      if (checks.includes("conflicts")) {
+        const conflicts = await this.detectConflicts(entry);
+        if (conflicts.length > 0) {
+          report.issues.push({
+            type: "conflict",
+            entry_id: entry.id,
+            conflicts,
+            explanation: conflicts
+              .map(c => `With ${c.id} (both about ${c.shared.join(", ")}): ${c.reasons.join("; ")}`)
+              .join("\n"),
+            severity: "warning"
+          });
+        }
+      }
+
+      if (checks.includes("staleness")) {
+        const daysSinceUpdate = (Date.now() - new Date(entry.metadata.updated_at).getTime()) / (1000 * 60 * 60 * 24);
+        if (daysSinceUpdate > 90) {
+          report.issues.push({
+            type: "staleness",
+            entry_id: entry.id,
+            days_old: Math.floor(daysSinceUpdate),
+            severity: daysSinceUpdate > 180 ? "error" : "warning"
+          });
+        }
+      }
+
+      if (checks.includes("completeness")) {
+        const missing = [];
+        if (!entry.metadata.category) missing.push("category");
+        if (!entry.metadata.tags || entry.metadata.tags.length === 0) missing.push("tags");
+        if (!entry.metadata.author) missing.push("author");
+
+        if (missing.length > 0) {
+          report.issues.push({
+            type: "incomplete",
+            entry_id: entry.id,
+            missing_fields: missing,
+            severity: "info"
+          });
+        }
+      }
+    }
+
+    report.summary = {
+      total_checked: entriesToCheck.length,
+      issues_found: report.issues.length,
+      by_severity: {
+        error: report.issues.filter((i: any) => i.severity === "error").length,
+        warning: report.issues.filter((i: any) => i.severity === "warning").length,
+        info: report.issues.filter((i: any) => i.severity === "info").length
+      }
+    };
+
+    return report;
+  }
+
+  async version(args: any): Promise<any> {
+    const versions = await this.store.getVersions(args.id);
+    if (versions.length === 0) {
+      return {
+        success: false,
+        error: `Knowledge entry ${args.id} not found`
+      };
+    }
+
+    switch (args.action) {
+      case "list":
+        return {
+          success: true,
+          id: args.id,
+          versions: versions.map(v => ({
+            version: v.version,
+            updated_at: v.metadata.updated_at,
+            author: v.metadata.author
+          }))
+        };
+
+      case "get": {
+        const version = versions.find(v => v.version === args.version);
+        if (!version) {
+          return {
+            success: false,
+            error: `Version ${args.version} not found`
+          };
+        }
+        return {
+          success: true,
+          version: withoutEmbedding(version)
+        };
+      }
+
+      case "revert": {
+        const revertTo = versions.find(v => v.version === args.version);
+        if (!revertTo) {
+          return {
+            success: false,
+            error: `Version ${args.version} not found`
+          };
+        }
+
+        const current = versions[versions.length - 1];
+        const reverted: KnowledgeEntry = await this.embed({
+          ...revertTo,
+          version: current.version + 1,
+          metadata: {
+            ...revertTo.metadata,
+            updated_at: new Date().toISOString()
+          }
+        }, revertTo);
+
+        await this.store.appendVersion(reverted);
+
+        return {
+          success: true,
+          message: `Reverted to version ${args.version}`,
+          entry: withoutEmbedding(reverted)
+        };
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unknown action: ${args.action}`
+        };
+    }
+  }
+
+  async graphQuery(args: any): Promise<any> {
+    const graph = new GraphTraversal(this.store);
+    const filter: EdgeFilter = {
+      direction: args.direction,
+      relationship_types: args.relationship_types,
+      relationship_properties: args.relationship_properties
+    };
+
+    switch (args.operation) {
+      case "neighbors":
+      case "expand": {
+        if (!args.id) {
+          return { success: false, error: `${args.operation} requires id` };
+        }
+        const depth = args.operation === "neighbors" ? 1 : Math.min(args.depth || 2, 5);
+        const { nodes, edges, truncated } = await graph.expand(args.id, depth, filter, args.limit || 100);
+        const filtered = args.node_type ? nodes.filter(n => n.depth === 0 || n.type === args.node_type) : nodes;
+
+        return {
+          success: true,
+          operation: args.operation,
+          start: args.id,
+          depth,
+          node_count: filtered.length,
+          edge_count: edges.length,
+          truncated,
+          nodes: filtered,
+          edges
+        };
+      }
+
+      case "shortest_path": {
+        if (!args.id || !args.target_id) {
+          return { success: false, error: "shortest_path requires id and target_id" };
+        }
+        const path = await graph.shortestPath(args.id, args.target_id, filter, args.depth || 6);
+
+        return path
+          ? { success: true, operation: "shortest_path", found: true, ...path }
+          : {
+            success: true,
+            operation: "shortest_path",
+            found: false,
+            message: `No path from ${args.id} to ${args.target_id} within ${args.depth || 6} hops`
+          };
+      }
+
+      default:
+        return {
+          success: false,
+          error: `Unknown operation: ${args.operation}`
+        };
+    }
+  }
+
+  async exportCypher(args: any): Promise<any> {
+    const graph = new GraphTraversal(this.store);
+    const subgraph: Subgraph = args.id
+      ? await graph.expand(args.id, Math.min(args.depth ?? 2, 5), {
+        direction: args.direction,
+        relationship_types: args.relationship_types,
+        relationship_properties: args.relationship_properties
+      }, args.limit || 1000)
+      : await graph.all();
+
+    const statements = toCypherStatements(subgraph.entries, subgraph.edges);
+    const format = args.format || "script";
+
+    return {
+      success: true,
+      format,
+      node_count: subgraph.entries.length,
+      relationship_count: subgraph.edges.length,
+      missing_nodes: subgraph.nodes.filter(n => n.missing).map(n => n.id),
+      truncated: subgraph.truncated,
+      ...(format === "statements" ? { statements } : { script: toCypherScript(statements) })
+    };
+  }
+
+  async importEntries(args: any): Promise<any> {
+    const results = {
+      imported: 0,
+      skipped: 0,
+      errors: [] as string[]
+    };
+
+    const skipDuplicates = args.options?.skip_duplicates || false;
+    const validateBeforeImport = args.options?.validate_before_import || false;
+
+    for (const entryData of args.entries) {
+      try {
+        if (skipDuplicates) {
+          const duplicates = await this.findDuplicates(entryData.content);
+          if (duplicates.length > 0) {
+            results.skipped++;
+            continue;
+          }
+        }
+
+        if (validateBeforeImport) {
+          // Basic validation
+          if (!entryData.type || !entryData.content || !entryData.source) {
+            results.errors.push(`Invalid entry: missing required fields`);
+            continue;
+          }
+        }
+
+        await this.createEntry(entryData);
+        results.imported++;
+      } catch (error) {
+        results.errors.push(`Error importing entry: ${(error as Error).message}`);
+      }
+    }
+
+    return {
+      success: true,
+      ...results,
+      message: `Imported ${results.imported} entries, skipped ${results.skipped}`
+    };
+  }
+
+  async exportEntries(args: any): Promise<any> {
+    const entries: KnowledgeEntry[] = [];
+    const includeVersions = args.include_versions || false;
+    const includeEmbeddings = args.include_embeddings || false;
+
+    const candidates = includeVersions ? await this.store.listAllVersions() : await this.store.listCurrent();
+    for (const entry of candidates) {
+      // Apply filters
+      if (args.filters) {
+        if (args.filters.type && entry.type !== args.filters.type) continue;
+        if (args.filters.category && entry.metadata.category !== args.filters.category) continue;
+        if (args.filters.tags && !args.filters.tags.some((tag: string) => entry.metadata.tags?.includes(tag))) continue;
+        if (args.filters.since_date && entry.metadata.updated_at < args.filters.since_date) continue;
+      }
+
+      entries.push(includeEmbeddings ? entry : withoutEmbedding(entry));
+    }
+
+    const format = args.format || "json";
+
+    if (format === "json") {
+      return {
+        success: true,
+        format: "json",
+        count: entries.length,
+        data: entries
+      };
+    } else if (format === "csv") {
+      // Simple CSV conversion
+      const csv = [
+        "id,type,content,source,created_at,updated_at,version",
+        ...entries.map(e =>
+          `${e.id},${e.type},"${e.content.replace(/"/g, '""')}",${e.metadata.source},${e.metadata.created_at},${e.metadata.updated_at},${e.version}`
+        )
+      ].join("\n");
+
+      return {
+        success: true,
+        format: "csv",
+        count: entries.length,
+        data: csv
+      };
+    }
+
+    return {
+      success: false,
+      error: `Unknown format: ${format}`
+    };
+  }
+}
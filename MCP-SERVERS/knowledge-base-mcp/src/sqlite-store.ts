@@ -0,0 +1,184 @@
+/**
+ * SQLite storage
+ *
+ * Tables:
+ * - entries: one row per entry, pointing at its current version
+ * - versions: every version of every entry as JSON
+ * - entry_index: category/tag keys of current, non-deleted entries
+ * - relationships: relationships declared by current versions
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import sqlite3 from "sqlite3";
+import { open, Database } from "sqlite";
+import { KnowledgeStore } from "./storage.js";
+import { indexKeys, KnowledgeEntry, StoredRelationship } from "./types.js";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS entries (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  current_version INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS versions (
+  entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (entry_id, version)
+);
+CREATE TABLE IF NOT EXISTS entry_index (
+  key TEXT NOT NULL,
+  entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  PRIMARY KEY (key, entry_id)
+);
+CREATE TABLE IF NOT EXISTS relationships (
+  source_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  target_id TEXT NOT NULL,
+  properties TEXT
+);
+CREATE INDEX IF NOT EXISTS relationships_source ON relationships(source_id);
+CREATE INDEX IF NOT EXISTS relationships_target ON relationships(target_id);
+`;
+
+const CURRENT_VERSIONS = `
+SELECT v.data FROM entries e
+JOIN versions v ON v.entry_id = e.id AND v.version = e.current_version
+`;
+
+export class SqliteStore implements KnowledgeStore {
+  // Writes run one at a time so their transactions never interleave, and
+  // reads wait for queued writes so callers always see their own changes
+  private writes: Promise<unknown> = Promise.resolve();
+
+  private constructor(private readonly db: Database) {}
+
+  static async open(filename: string): Promise<SqliteStore> {
+    if (filename !== ":memory:") {
+      await fs.mkdir(path.dirname(filename), { recursive: true });
+    }
+    const db = await open({ filename, driver: sqlite3.Database });
+    await db.exec("PRAGMA foreign_keys = ON");
+    await db.exec(SCHEMA);
+    return new SqliteStore(db);
+  }
+
+  async getVersions(id: string): Promise<KnowledgeEntry[]> {
+    await this.writes;
+    const rows = await this.db.all<{ data: string }[]>(
+      "SELECT data FROM versions WHERE entry_id = ? ORDER BY version",
+      id
+    );
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async getCurrent(id: string): Promise<KnowledgeEntry | null> {
+    await this.writes;
+    const row = await this.db.get<{ data: string }>(`${CURRENT_VERSIONS} WHERE e.id = ?`, id);
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  async listCurrent(): Promise<KnowledgeEntry[]> {
+    await this.writes;
+    const rows = await this.db.all<{ data: string }[]>(`${CURRENT_VERSIONS} ORDER BY e.rowid`);
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async listAllVersions(): Promise<KnowledgeEntry[]> {
+    await this.writes;
+    const rows = await this.db.all<{ data: string }[]>(
+      "SELECT v.data FROM entries e JOIN versions v ON v.entry_id = e.id ORDER BY e.rowid, v.version"
+    );
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  async appendVersion(entry: KnowledgeEntry): Promise<void> {
+    await this.transaction(async () => {
+      await this.db.run(
+        `INSERT INTO entries (id, type, current_version, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET type = excluded.type, current_version = excluded.current_version, updated_at = excluded.updated_at`,
+        entry.id,
+        entry.type,
+        entry.version,
+        entry.metadata.created_at,
+        entry.metadata.updated_at
+      );
+      await this.db.run(
+        "INSERT INTO versions (entry_id, version, data) VALUES (?, ?, ?)",
+        entry.id,
+        entry.version,
+        JSON.stringify(entry)
+      );
+
+      await this.db.run("DELETE FROM entry_index WHERE entry_id = ?", entry.id);
+      for (const key of indexKeys(entry)) {
+        await this.db.run("INSERT INTO entry_index (key, entry_id) VALUES (?, ?)", key, entry.id);
+      }
+
+      await this.db.run("DELETE FROM relationships WHERE source_id = ?", entry.id);
+      for (const relationship of entry.relationships || []) {
+        await this.db.run(
+          "INSERT INTO relationships (source_id, type, target_id, properties) VALUES (?, ?, ?, ?)",
+          entry.id,
+          relationship.type,
+          relationship.target_id,
+          relationship.properties ? JSON.stringify(relationship.properties) : null
+        );
+      }
+    }).catch((error) => {
+      if (String(error.message).includes("UNIQUE constraint failed: versions")) {
+        throw new Error(`Version ${entry.version} of ${entry.id} already exists`);
+      }
+      throw error;
+    });
+  }
+
+  async deleteEntry(id: string): Promise<boolean> {
+    const result = await this.transaction(() => this.db.run("DELETE FROM entries WHERE id = ?", id));
+    return (result.changes ?? 0) > 0;
+  }
+
+  async findIdsByKey(key: string): Promise<string[]> {
+    await this.writes;
+    const rows = await this.db.all<{ entry_id: string }[]>("SELECT entry_id FROM entry_index WHERE key = ?", key);
+    return rows.map((row) => row.entry_id);
+  }
+
+  async getRelationships(id: string): Promise<StoredRelationship[]> {
+    await this.writes;
+    const rows = await this.db.all<
+      { source_id: string; type: string; target_id: string; properties: string | null }[]
+    >("SELECT source_id, type, target_id, properties FROM relationships WHERE source_id = ? OR target_id = ? ORDER BY rowid", id, id);
+    return rows.map((row) => ({
+      source_id: row.source_id,
+      type: row.type,
+      target_id: row.target_id,
+      ...(row.properties ? { properties: JSON.parse(row.properties) } : {}),
+    }));
+  }
+
+  async close(): Promise<void> {
+    await this.writes;
+    await this.db.close();
+  }
+
+  private transaction<T>(work: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      await this.db.exec("BEGIN");
+      try {
+        const result = await work();
+        await this.db.exec("COMMIT");
+        return result;
+      } catch (error) {
+        await this.db.exec("ROLLBACK");
+        throw error;
+      }
+    };
+    const result = this.writes.then(run, run);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { KnowledgeBase } from "./knowledge-base.js";
+import { createStore, KnowledgeStore, StorageBackend, storageConfigFromEnv } from "./storage.js";
+
+const backends: Array<[StorageBackend, string]> = [
+  ["sqlite", "knowledge.db"],
+  ["json", "knowledge.json"],
+];
+
+describe.each(backends)("Knowledge Base on %s storage", (backend, fileName) => {
+  let dir: string;
+  let file: string;
+  let store: KnowledgeStore;
+  let kb: KnowledgeBase;
+
+  const reopen = async () => {
+    await store.close();
+    store = await createStore({ backend, path: file });
+    kb = new KnowledgeBase(store);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), `kb-${backend}-`));
+    file = path.join(dir, "nested", fileName);
+    store = await createStore({ backend, path: file });
+    kb = new KnowledgeBase(store);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should persist entries and version history across restarts", async () => {
+    const { id } = await kb.createEntry({
+      type: "document",
+      content: "Use RLS on every Supabase table",
+      source: "security.md",
+      category: "security",
+      tags: ["supabase"],
+    });
+    await kb.updateEntry({ id, content: "Enable RLS on every Supabase table", changelog: "wording" });
+
+    await reopen();
+
+    const history = await kb.version({ id, action: "list" });
+    expect(history.versions.map((v: any) => v.version)).toEqual([1, 2]);
+    expect((await kb.version({ id, action: "get", version: 1 })).version.content).toBe("Use RLS on every Supabase table");
+    expect((await kb.query({ category: "security" })).results.map((e: any) => e.content)).toEqual([
+      "Enable RLS on every Supabase table",
+    ]);
+  });
+
+  it("should revert by appending a new version", async () => {
+    const { id } = await kb.createEntry({ type: "entity", content: "v1", source: "s", tags: ["a"] });
+    await kb.updateEntry({ id, content: "v2", metadata: { tags: ["b"] }, changelog: "c" });
+
+    const reverted = await kb.version({ id, action: "revert", version: 1 });
+
+    expect(reverted.entry).toMatchObject({ version: 3, content: "v1" });
+    expect(await store.findIdsByKey("a")).toEqual([id]);
+    expect(await store.findIdsByKey("b")).toEqual([]);
+  });
+
+  it("should keep the category/tag index on current versions only", async () => {
+    const first = await kb.createEntry({ type: "document", content: "a", source: "s", category: "auth", tags: ["jwt"] });
+    const second = await kb.createEntry({ type: "document", content: "b", source: "s", category: "auth" });
+    await kb.updateEntry({ id: first.id, metadata: { category: "sessions" }, changelog: "moved" });
+
+    await reopen();
+
+    expect(await store.findIdsByKey("auth")).toEqual([second.id]);
+    expect(await store.findIdsByKey("sessions")).toEqual([first.id]);
+    expect(await store.findIdsByKey("jwt")).toEqual([first.id]);
+  });
+
+  it("should soft delete with history and hard delete completely", async () => {
+    const soft = await kb.createEntry({ type: "document", content: "soft", source: "s", category: "c" });
+    const hard = await kb.createEntry({ type: "document", content: "hard", source: "s", category: "c" });
+
+    await kb.deleteEntry({ id: soft.id });
+    await kb.deleteEntry({ id: hard.id, hard_delete: true });
+    await reopen();
+
+    expect((await kb.query({})).count).toBe(0);
+    expect(await store.findIdsByKey("c")).toEqual([]);
+    expect((await kb.version({ id: soft.id, action: "list" })).versions).toHaveLength(2);
+    expect(await kb.version({ id: hard.id, action: "list" })).toEqual({
+      success: false,
+      error: `Knowledge entry ${hard.id} not found`,
+    });
+  });
+
+  it("should store relationships of the current version in both directions", async () => {
+    const target = await kb.createEntry({ type: "entity", content: "Postgres", source: "s" });
+    const source = await kb.createEntry({
+      type: "entity",
+      content: "Supabase",
+      source: "s",
+      relationships: [{ type: "BUILT_ON", target_id: target.id, properties: { since: 2020 } }],
+    });
+
+    await reopen();
+
+    const expected = [{ source_id: source.id, type: "BUILT_ON", target_id: target.id, properties: { since: 2020 } }];
+    expect(await store.getRelationships(source.id)).toEqual(expected);
+    expect(await store.getRelationships(target.id)).toEqual(expected);
+
+    await kb.updateEntry({ id: source.id, metadata: {}, changelog: "drop", content: "Supabase platform" });
+    expect(await store.getRelationships(target.id)).toHaveLength(1);
+  });
+
+  it("should import and export with versions", async () => {
+    const result = await kb.importEntries({
+      entries: [
+        { type: "document", content: "alpha beta", source: "a" },
+        { type: "document", content: "alpha beta", source: "b" },
+        { type: "document", content: "gamma", source: "c" },
+      ],
+      options: { skip_duplicates: true },
+    });
+    expect(result).toMatchObject({ imported: 2, skipped: 1 });
+
+    const [first] = (await kb.query({})).results;
+    await kb.updateEntry({ id: first.id, content: "alpha beta delta", changelog: "more" });
+    await reopen();
+
+    const exported = await kb.exportEntries({ include_versions: true });
+    expect(exported.data.map((e: any) => `${e.content}@${e.version}`)).toEqual(["alpha beta@1", "alpha beta delta@2", "gamma@1"]);
+    expect((await kb.exportEntries({})).count).toBe(2);
+  });
+
+  it("should handle concurrent writes", async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) => kb.createEntry({ type: "document", content: `entry ${i}`, source: "s", tags: ["bulk"] }))
+    );
+    await reopen();
+
+    expect(await store.findIdsByKey("bulk")).toHaveLength(20);
+  });
+
+  it("should reject duplicate versions", async () => {
+    const { entry } = await kb.createEntry({ type: "document", content: "x", source: "s" });
+
+    await expect(store.appendVersion(entry)).rejects.toThrow(`Version 1 of ${entry.id} already exists`);
+  });
+});
+
+describe("Storage Configuration", () => {
+  it("should default to SQLite under .knowledge-base in the project root, or the home directory", () => {
+    expect(storageConfigFromEnv({})).toEqual({
+      backend: "sqlite",
+      path: path.join(os.homedir(), ".knowledge-base", "knowledge.db"),
+    });
+    expect(storageConfigFromEnv({ KNOWLEDGE_BASE_ROOT: "/projects/app" })).toEqual({
+      backend: "sqlite",
+      path: path.resolve("/projects/app/.knowledge-base/knowledge.db"),
+    });
+    expect(storageConfigFromEnv({ KNOWLEDGE_BASE_ROOT: "/projects/app", KNOWLEDGE_BASE_PATH: "data/kb.db" }).path).toBe(
+      path.resolve("/projects/app/data/kb.db")
+    );
+  });
+
+  it("should read backend and path from the environment", () => {
+    expect(storageConfigFromEnv({ KNOWLEDGE_BASE_STORAGE: "json", KNOWLEDGE_BASE_PATH: "/data/kb.json" })).toEqual({
+      backend: "json",
+      path: "/data/kb.json",
+    });
+    expect(storageConfigFromEnv({ KNOWLEDGE_BASE_STORAGE: "memory" })).toEqual({ backend: "memory" });
+    expect(() => storageConfigFromEnv({ KNOWLEDGE_BASE_STORAGE: "redis" })).toThrow("Unknown KNOWLEDGE_BASE_STORAGE: redis");
+  });
+});
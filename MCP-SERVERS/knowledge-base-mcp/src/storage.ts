@@ -0,0 +1,79 @@
+/**
+ * Pluggable storage for knowledge entries
+ *
+ * Every backend keeps the full version history of each entry, an index of
+ * category/tag -> entry ids for the current versions, and the current
+ * relationships between entries.
+ */
+
+import * as os from "os";
+import * as path from "path";
+import { KnowledgeEntry, StoredRelationship } from "./types.js";
+
+export interface KnowledgeStore {
+  /** All versions of an entry, oldest first; empty if the entry does not exist */
+  getVersions(id: string): Promise<KnowledgeEntry[]>;
+  /** Latest version of an entry */
+  getCurrent(id: string): Promise<KnowledgeEntry | null>;
+  /** Latest version of every entry, in creation order */
+  listCurrent(): Promise<KnowledgeEntry[]>;
+  /** Every version of every entry, grouped by entry in creation order */
+  listAllVersions(): Promise<KnowledgeEntry[]>;
+  /** Store a new entry (version 1) or a new version of an existing one */
+  appendVersion(entry: KnowledgeEntry): Promise<void>;
+  /** Remove an entry and its history; false if it did not exist */
+  deleteEntry(id: string): Promise<boolean>;
+  /** Ids of current, non-deleted entries with this category or tag */
+  findIdsByKey(key: string): Promise<string[]>;
+  /** Current relationships from or to an entry */
+  getRelationships(id: string): Promise<StoredRelationship[]>;
+  close(): Promise<void>;
+}
+
+export type StorageBackend = "sqlite" | "json" | "memory";
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  /** Database or JSON file path (ignored for memory) */
+  path?: string;
+}
+
+const DEFAULT_PATHS: Record<Exclude<StorageBackend, "memory">, string> = {
+  sqlite: ".knowledge-base/knowledge.db",
+  json: ".knowledge-base/knowledge.json",
+};
+
+/**
+ * Read storage settings from KNOWLEDGE_BASE_STORAGE and KNOWLEDGE_BASE_PATH.
+ * Relative paths resolve against KNOWLEDGE_BASE_ROOT (the project root), not
+ * the working directory the client started us in. Without it they resolve
+ * against the home directory, so all projects share one database
+ */
+export function storageConfigFromEnv(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const backend = (env.KNOWLEDGE_BASE_STORAGE || "sqlite") as StorageBackend;
+  if (!["sqlite", "json", "memory"].includes(backend)) {
+    throw new Error(`Unknown KNOWLEDGE_BASE_STORAGE: ${backend} (expected sqlite, json or memory)`);
+  }
+  if (backend === "memory") return { backend };
+  const root = path.resolve(env.KNOWLEDGE_BASE_ROOT || os.homedir());
+  return { backend, path: path.resolve(root, env.KNOWLEDGE_BASE_PATH || DEFAULT_PATHS[backend]) };
+}
+
+export async function createStore(config: StorageConfig): Promise<KnowledgeStore> {
+  switch (config.backend) {
+    case "sqlite": {
+      const { SqliteStore } = await import("./sqlite-store.js");
+      return SqliteStore.open(config.path || DEFAULT_PATHS.sqlite);
+    }
+    case "json": {
+      const { JsonFileStore } = await import("./json-store.js");
+      return JsonFileStore.open(config.path || DEFAULT_PATHS.json);
+    }
+    case "memory": {
+      const { MemoryStore } = await import("./json-store.js");
+      return new MemoryStore();
+    }
+    default:
+      throw new Error(`Unknown storage backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Knowledge entry model shared by the server and storage backends
+ */
+
+export type KnowledgeType = "document" | "entity" | "relationship";
+
+export interface Relationship {
+  type: string;
+  target_id: string;
+  properties?: Record<string, any>;
+}
+
+export interface KnowledgeEntry {
+  id: string;
+  type: KnowledgeType;
+  content: string;
+  metadata: {
+    source: string;
+    created_at: string;
+    updated_at: string;
+    author?: string;
+    category?: string;
+    tags?: string[];
+    confidence?: number;
+  };
+  version: number;
+  /** Vector of the content, filled on create/update */
+  embedding?: number[];
+  /** Provider model that produced the embedding */
+  embedding_model?: string;
+  relationships?: Relationship[];
+}
+
+export interface StoredRelationship extends Relationship {
+  source_id: string;
+}
+
+// Tag added by soft delete; such entries drop out of the category/tag index
+export const DELETED_TAG = "_deleted";
+
+export function isDeleted(entry: KnowledgeEntry): boolean {
+  return entry.metadata.tags?.includes(DELETED_TAG) ?? false;
+}
+
+/**
+ * Category and tag keys an entry is indexed under
+ */
+export function indexKeys(entry: KnowledgeEntry): string[] {
+  if (isDeleted(entry)) return [];
+  const keys = new Set<string>();
+  if (entry.metadata.category) keys.add(entry.metadata.category);
+  entry.metadata.tags?.forEach((tag) => keys.add(tag));
+  return [...keys];
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { compareEntries, extractNames, extractQuantities } from "./conflicts.js";
+import { cosineSimilarity, embeddingProviderFromEnv, EmbeddingProvider, HashingEmbedder, OpenAIEmbedder } from "./embeddings/index.js";
+import { MemoryStore } from "./json-store.js";
+import { KnowledgeBase } from "./knowledge-base.js";
+import { KnowledgeEntry } from "./types.js";
+
+const entry = (id: string, content: string, extra: Partial<KnowledgeEntry> = {}): KnowledgeEntry => ({
+  id,
+  type: "document",
+  content,
+  metadata: { source: "s", created_at: "2025-01-01", updated_at: "2025-01-01" },
+  version: 1,
+  ...extra,
+});
+
+describe("Hashing Embedder", () => {
+  const embedder = new HashingEmbedder();
+
+  it("should be deterministic and normalized", async () => {
+    const [a, b] = await embedder.embed(["Use RLS on every Supabase table", "Use RLS on every Supabase table"]);
+
+    expect(a).toEqual(b);
+    expect(a).toHaveLength(256);
+    expect(cosineSimilarity(a, b)).toBeCloseTo(1, 5);
+    expect(embedder.model).toBe("hashing-256");
+  });
+
+  it("should rank overlapping text above unrelated text", async () => {
+    const [base, close, far] = await embedder.embed([
+      "Enable row level security on every Supabase table",
+      "Enable row level security on all Supabase tables",
+      "Prefer CSS grid for two dimensional layouts",
+    ]);
+
+    expect(cosineSimilarity(base, close)).toBeGreaterThan(0.7);
+    expect(cosineSimilarity(base, far)).toBeLessThan(0.1);
+  });
+
+  it("should reject vectors of different sizes", () => {
+    expect(() => cosineSimilarity([1, 0], [1, 0, 0])).toThrow("Embedding dimensions differ: 2 vs 3");
+  });
+});
+
+describe("Embedding Provider Configuration", () => {
+  it("should default to the hashing embedder", () => {
+    expect(embeddingProviderFromEnv({}).model).toBe("hashing-256");
+    expect(embeddingProviderFromEnv({ KNOWLEDGE_BASE_EMBEDDING_DIMENSIONS: "64" }).model).toBe("hashing-64");
+  });
+
+  it("should require an API key for OpenAI", () => {
+    expect(() => embeddingProviderFromEnv({ KNOWLEDGE_BASE_EMBEDDINGS: "openai" })).toThrow("requires OPENAI_API_KEY");
+    expect(embeddingProviderFromEnv({ KNOWLEDGE_BASE_EMBEDDINGS: "openai", OPENAI_API_KEY: "k" })).toBeInstanceOf(OpenAIEmbedder);
+    expect(() => embeddingProviderFromEnv({ KNOWLEDGE_BASE_EMBEDDINGS: "magic" })).toThrow("Unknown KNOWLEDGE_BASE_EMBEDDINGS: magic");
+  });
+});
+
+describe("Conflict Analysis", () => {
+  it("should extract entity names and quantities", () => {
+    expect(extractNames("Use Row Level Security with Supabase. Never store JWT secrets in Git.")).toEqual([
+      "row level security",
+      "supabase",
+      "jwt",
+      "git",
+    ]);
+    expect(extractQuantities("JWT tokens expire after 24 hours and refresh tokens after 30 days")).toEqual(
+      new Map([["expire", "24 hours"], ["tokens", "30 days"]])
+    );
+  });
+
+  it("should flag different numbers for the same thing", () => {
+    const finding = compareEntries(
+      entry("a", "Supabase JWT tokens expire after 24 hours"),
+      entry("b", "Supabase JWT tokens expire after 48 hours"),
+      0.8
+    );
+
+    expect(finding).toEqual({
+      id: "b",
+      shared: ["supabase", "jwt"],
+      similarity: 0.8,
+      reasons: ["States expire 24 hours where b states expire 48 hours"],
+    });
+  });
+
+  it("should flag similar statements where only one is negated", () => {
+    const finding = compareEntries(
+      entry("a", "Cache Supabase auth responses in Redis"),
+      entry("b", "Never cache Supabase auth responses in Redis"),
+      0.7
+    );
+
+    expect(finding?.shared).toEqual(["supabase", "redis"]);
+    expect(finding?.reasons).toEqual(['Similar statements (similarity 0.70) but b says "never" and a does not']);
+  });
+
+  it("should flag relationships that disagree on properties", () => {
+    const finding = compareEntries(
+      entry("a", "Auth service", { relationships: [{ type: "USES", target_id: "pg", properties: { version: 14 } }] }),
+      entry("b", "Billing service", { relationships: [{ type: "USES", target_id: "pg", properties: { version: 15 } }] }),
+      0
+    );
+
+    expect(finding).toMatchObject({ shared: ["pg"], reasons: ["Both declare USES -> pg but disagree on version: 14 vs 15"] });
+  });
+
+  it("should not compare entries without a shared subject", () => {
+    expect(compareEntries(entry("a", "Set the timeout to 30 seconds"), entry("b", "Set the timeout to 60 seconds"), 0.9)).toBeNull();
+    expect(compareEntries(entry("a", "Use Postgres for billing"), entry("b", "Use Postgres for auth"), 0.6)).toBeNull();
+  });
+});
+
+describe("Knowledge Base Validation", () => {
+  let kb: KnowledgeBase;
+  let store: MemoryStore;
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    kb = new KnowledgeBase(store);
+  });
+
+  it("should store an embedding on create and refresh it when content changes", async () => {
+    const { id, entry: created } = await kb.createEntry({ type: "document", content: "Use Vitest for unit tests", source: "s" });
+    expect(created.embedding).toBeUndefined();
+
+    const stored = (await store.getCurrent(id))!;
+    expect(stored.embedding_model).toBe("hashing-256");
+
+    await kb.updateEntry({ id, metadata: { tags: ["testing"] }, changelog: "tag" });
+    expect((await store.getCurrent(id))!.embedding).toBe(stored.embedding);
+
+    await kb.updateEntry({ id, content: "Use Playwright for end-to-end tests", changelog: "rewrite" });
+    expect((await store.getCurrent(id))!.embedding).not.toEqual(stored.embedding);
+  });
+
+  it("should report duplicates with similarity explanations", async () => {
+    const first = await kb.createEntry({ type: "document", content: "Enable RLS on every Supabase table", source: "a" });
+    const second = await kb.createEntry({ type: "document", content: "Enable RLS on every Supabase table.", source: "b" });
+    await kb.createEntry({ type: "document", content: "Prefer CSS grid for layouts", source: "c" });
+
+    const report = await kb.validate({ id: first.id, checks: ["duplicates"] });
+
+    expect(report.issues).toEqual([
+      {
+        type: "duplicate",
+        entry_id: first.id,
+        duplicates: [second.id],
+        similarities: [{ id: second.id, similarity: 1 }],
+        explanation: `Content is 100% similar to ${second.id} (cosine, hashing-256)`,
+        severity: "warning",
+      },
+    ]);
+  });
+
+  it("should only report conflicts between entries about the same subject", async () => {
+    const a = await kb.createEntry({ type: "document", content: "Supabase JWT tokens expire after 24 hours", source: "a", category: "auth" });
+    const b = await kb.createEntry({ type: "document", content: "Supabase JWT tokens expire after 48 hours", source: "b", category: "auth" });
+    // Used to be flagged because it contains the first word of the others
+    await kb.createEntry({ type: "document", content: "Supabase storage buckets are private by default", source: "c", category: "auth" });
+
+    const report = await kb.validate({ checks: ["conflicts"] });
+
+    expect(report.issues.map((issue: any) => [issue.entry_id, issue.conflicts.map((c: any) => c.id)])).toEqual([
+      [a.id, [b.id]],
+      [b.id, [a.id]],
+    ]);
+    expect(report.issues[0].explanation).toBe(
+      `With ${b.id} (both about supabase, jwt): States expire 24 hours where ${b.id} states expire 48 hours`
+    );
+  });
+
+  it("should use a pluggable provider and re-embed entries from another model", async () => {
+    const calls: string[][] = [];
+    const provider: EmbeddingProvider = {
+      model: "fake-2",
+      embed: async (texts) => {
+        calls.push(texts);
+        return texts.map((text) => [text.length, 1]);
+      },
+    };
+    await store.appendVersion(entry("old", "same", { embedding: [0, 1, 0], embedding_model: "other" }));
+    kb = new KnowledgeBase(store, provider);
+
+    expect(await kb.findDuplicates("same")).toEqual([{ id: "old", similarity: 1 }]);
+    expect(calls).toEqual([["same"], ["same"]]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Preloaded into the profiled script with --require
+ *
+ * Records a CPU profile or takes a heap snapshot through the V8 inspector
+ * and writes it to PROFILER_OUTPUT when the script exits, or after
+ * PROFILER_DURATION_MS for scripts that keep running (servers).
+ */
+'use strict';
+
+const fs = require('fs');
+const inspector = require('inspector');
+
+const mode = process.env.PROFILER_MODE;
+const output = process.env.PROFILER_OUTPUT;
+const duration = Number(process.env.PROFILER_DURATION_MS || 0);
+const samplingInterval = Number(process.env.PROFILER_SAMPLING_INTERVAL_US || 0);
+
+// Keep child processes of the script from profiling themselves into the same file
+for (const name of ['NODE_OPTIONS', 'PROFILER_MODE', 'PROFILER_OUTPUT', 'PROFILER_DURATION_MS', 'PROFILER_SAMPLING_INTERVAL_US']) {
+  delete process.env[name];
+}
+
+if ((mode === 'cpu' || mode === 'heap') && output) {
+  const session = new inspector.Session();
+  session.connect();
+
+  // Same-thread inspector sessions answer synchronously, which lets this run in an exit handler
+  const post = (method, params) => {
+    let result;
+    let failure;
+    session.post(method, params, (error, response) => {
+      failure = error;
+      result = response;
+    });
+    if (failure) throw failure;
+    return result;
+  };
+
+  if (mode === 'cpu') {
+    post('Profiler.enable');
+    if (samplingInterval > 0) post('Profiler.setSamplingInterval', { interval: samplingInterval });
+    post('Profiler.start');
+  }
+
+  let written = false;
+  const finish = () => {
+    if (written) return;
+    written = true;
+    if (mode === 'cpu') {
+      const { profile } = post('Profiler.stop');
+      fs.writeFileSync(output, JSON.stringify(profile));
+    } else {
+      const fd = fs.openSync(output, 'w');
+      session.on('HeapProfiler.addHeapSnapshotChunk', message => fs.writeSync(fd, message.params.chunk));
+      post('HeapProfiler.takeHeapSnapshot', { reportProgress: false });
+      fs.closeSync(fd);
+    }
+    session.disconnect();
+  };
+
+  process.on('exit', finish);
+  if (duration > 0) {
+    setTimeout(() => {
+      finish();
+      process.exit();
+    }, duration).unref();
+  }
+}
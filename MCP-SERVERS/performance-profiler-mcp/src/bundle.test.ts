@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { analyzeBundle, packageOf, parseBundleStats } from './bundle.js';
+import { compareProfiles, loadProfile } from './compare.js';
+
+const WEBPACK = {
+  assets: [
+    { name: 'main.js', size: 9000 },
+    { name: 'main.js.map', size: 30000 }
+  ],
+  chunks: [
+    { id: 179, names: ['main'] },
+    { id: 42, names: [] }
+  ],
+  modules: [
+    { name: './src/index.ts', size: 1000, chunks: [179] },
+    { name: './node_modules/babel-loader/lib/index.js!./src/app.tsx', size: 2000, chunks: [179] },
+    {
+      name: './src/utils/index.ts + 2 modules',
+      size: 1500,
+      chunks: [179],
+      modules: [
+        { name: './src/utils/index.ts', size: 500 },
+        { name: './src/utils/format.ts', size: 1000 }
+      ]
+    },
+    { name: './node_modules/lodash/lodash.js', size: 5000, chunks: [42] },
+    { name: './node_modules/some-lib/node_modules/lodash/lodash.js', size: 4000, chunks: [42] }
+  ]
+};
+
+const VISUALIZER = {
+  version: 2,
+  tree: { name: 'root', children: [] },
+  nodeParts: {
+    '1': { renderedLength: 300, gzipLength: 100, brotliLength: 90 },
+    '2': { renderedLength: 700, gzipLength: 200, brotliLength: 180 },
+    '3': { renderedLength: 100, gzipLength: 50, brotliLength: 40 }
+  },
+  nodeMetas: {
+    a: { id: '/repo/src/main.ts', moduleParts: { 'assets/index.js': '1' }, imported: [], importedBy: [] },
+    b: { id: '/repo/node_modules/react-dom/cjs/react-dom.production.min.js', moduleParts: { 'assets/vendor.js': '2' }, imported: [], importedBy: [] },
+    c: { id: '\0vite/preload-helper', moduleParts: { 'assets/index.js': '3' }, imported: [], importedBy: [] }
+  },
+  env: {},
+  options: {}
+};
+
+const ESBUILD = {
+  inputs: {
+    'src/index.ts': { bytes: 400, imports: [] },
+    'node_modules/@scope/ui/dist/index.js': { bytes: 5000, imports: [] }
+  },
+  outputs: {
+    'dist/index.js': {
+      bytes: 3200,
+      inputs: { 'src/index.ts': { bytesInOutput: 200 }, 'node_modules/@scope/ui/dist/index.js': { bytesInOutput: 3000 } }
+    },
+    'dist/index.js.map': { bytes: 9000, inputs: {} }
+  }
+};
+
+describe('Bundle stats', () => {
+  it('should find the package and install location of a module', () => {
+    expect(packageOf('./src/index.ts')).toBeUndefined();
+    expect(packageOf('./node_modules/@scope/ui/dist/index.js')).toEqual({ name: '@scope/ui', installPath: 'node_modules/@scope/ui' });
+    expect(packageOf('node_modules/a/node_modules/b/index.js')).toEqual({ name: 'b', installPath: 'node_modules/a/node_modules/b' });
+  });
+
+  it('should read webpack stats with loaders and concatenated modules', () => {
+    const stats = parseBundleStats(WEBPACK);
+    expect(stats.format).toBe('webpack');
+    expect(stats.assets).toEqual([{ name: 'main.js', size: 9000 }]);
+    expect(stats.modules.map(m => [m.name, m.size, m.chunks])).toEqual([
+      ['src/index.ts', 1000, ['main']],
+      ['src/app.tsx', 2000, ['main']],
+      ['src/utils/index.ts', 500, ['main']],
+      ['src/utils/format.ts', 1000, ['main']],
+      ['node_modules/lodash/lodash.js', 5000, ['42']],
+      ['node_modules/some-lib/node_modules/lodash/lodash.js', 4000, ['42']]
+    ]);
+  });
+
+  it('should break down sizes and report duplicated packages', () => {
+    const report = analyzeBundle(WEBPACK);
+    expect(report.totalSize).toBe(13500);
+    expect(report.moduleCount).toBe(6);
+    expect(report.chunks).toEqual([
+      { name: '42', size: 9000, modules: 2 },
+      { name: 'main', size: 4500, modules: 4 }
+    ]);
+    expect(report.packages.map(p => [p.name, p.size, p.percent])).toEqual([
+      ['lodash', 9000, 66.7],
+      ['(project)', 4500, 33.3]
+    ]);
+    expect(report.duplicates).toEqual([
+      { package: 'lodash', paths: ['node_modules/lodash', 'node_modules/some-lib/node_modules/lodash'], size: 9000 }
+    ]);
+  });
+
+  it('should read rollup-plugin-visualizer raw data relative to the project root', () => {
+    const report = analyzeBundle(VISUALIZER, { root: '/repo' });
+    expect(report.format).toBe('rollup-visualizer');
+    expect(report.modules.map(m => [m.name, m.size, m.package])).toEqual([
+      ['node_modules/react-dom/cjs/react-dom.production.min.js', 700, 'react-dom'],
+      ['src/main.ts', 300, undefined],
+      ['vite/preload-helper', 100, undefined]
+    ]);
+    expect(report.chunks.map(c => [c.name, c.size])).toEqual([
+      ['assets/vendor.js', 700],
+      ['assets/index.js', 400]
+    ]);
+  });
+
+  it('should read esbuild metafiles', () => {
+    const report = analyzeBundle(ESBUILD);
+    expect(report.format).toBe('esbuild');
+    expect(report.assets).toEqual([{ name: 'dist/index.js', size: 3200 }]);
+    expect(report.packages[0]).toMatchObject({ name: '@scope/ui', size: 3000 });
+  });
+
+  it('should reject files that are not bundle stats', () => {
+    expect(() => parseBundleStats({ hello: 'world' })).toThrow('Unrecognized stats file');
+  });
+});
+
+describe('Comparing bundles', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'bundle-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should flag modules that grew or were added', async () => {
+    const grown = {
+      ...ESBUILD,
+      outputs: {
+        'dist/index.js': {
+          bytes: 9000,
+          inputs: {
+            'src/index.ts': { bytesInOutput: 210 },
+            'node_modules/@scope/ui/dist/index.js': { bytesInOutput: 6000 },
+            'node_modules/date-fns/index.js': { bytesInOutput: 2500 }
+          }
+        }
+      }
+    };
+    await fs.writeFile(join(dir, 'before.json'), JSON.stringify(ESBUILD));
+    await fs.writeFile(join(dir, 'after.json'), JSON.stringify(grown));
+
+    const comparison = compareProfiles(await loadProfile(join(dir, 'before.json')), await loadProfile(join(dir, 'after.json')));
+    expect(comparison).toMatchObject({ kind: 'bundle', unit: 'bytes', regressed: true, minDelta: 32 });
+    expect(comparison.total).toMatchObject({ baseline: 3200, current: 8710, regression: true });
+    // src/index.ts grew by 5%, below the threshold
+    expect(comparison.regressions.map(r => [r.name, r.delta, r.percent])).toEqual([
+      ['node_modules/@scope/ui/dist/index.js', 3000, 100],
+      ['node_modules/date-fns/index.js', 2500, null]
+    ]);
+  });
+
+  it('should refuse to compare different kinds of profile', async () => {
+    await fs.writeFile(join(dir, 'stats.json'), JSON.stringify(ESBUILD));
+    await fs.writeFile(join(dir, 'app.cpuprofile'), JSON.stringify({ nodes: [], startTime: 0, endTime: 1 }));
+
+    await expect(loadProfile(join(dir, 'missing.json'))).rejects.toThrow('Profile not found');
+    expect(() => compareProfiles({ kind: 'bundle', file: 'a', data: ESBUILD }, { kind: 'cpu', file: 'b', data: {} })).toThrow(
+      'Cannot compare a bundle profile with a cpu profile'
+    );
+    expect((await loadProfile(join(dir, 'app.cpuprofile'))).kind).toBe('cpu');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Bundle stats files
+ *
+ * Reads webpack stats (`webpack --json`), rollup-plugin-visualizer raw data
+ * (`template: 'raw-data'`, the usual way to get stats out of Vite) and
+ * esbuild metafiles into one per-module breakdown.
+ *
+ * Module sizes are what each tool reports: webpack gives the module source
+ * size before minification, the visualizer the rendered size after
+ * tree-shaking, and esbuild the bytes in the output file.
+ */
+
+import { isAbsolute, relative } from 'path';
+
+export type BundleFormat = 'webpack' | 'rollup-visualizer' | 'esbuild';
+
+export interface BundleModule {
+  name: string;
+  size: number;
+  chunks: string[];
+  /** npm package, or undefined for project files */
+  package?: string;
+}
+
+export interface BundleStats {
+  format: BundleFormat;
+  modules: BundleModule[];
+  /** Emitted files and their sizes, when the stats include them */
+  assets: Array<{ name: string; size: number }>;
+}
+
+export interface BundleReport {
+  kind: 'bundle';
+  format: BundleFormat;
+  totalSize: number;
+  moduleCount: number;
+  assets: Array<{ name: string; size: number }>;
+  chunks: Array<{ name: string; size: number; modules: number }>;
+  packages: Array<{ name: string; size: number; percent: number; modules: number }>;
+  modules: Array<BundleModule & { percent: number }>;
+  /** Packages bundled from more than one install location */
+  duplicates: Array<{ package: string; paths: string[]; size: number }>;
+}
+
+interface WebpackModule {
+  name?: string;
+  identifier?: string;
+  size?: number;
+  chunks?: Array<string | number>;
+  modules?: WebpackModule[];
+}
+
+interface WebpackStats {
+  assets?: Array<{ name: string; size: number }>;
+  chunks?: Array<{ id: string | number; names?: string[] }>;
+  modules?: WebpackModule[];
+  children?: WebpackStats[];
+}
+
+interface VisualizerData {
+  nodeParts: Record<string, { renderedLength: number }>;
+  nodeMetas: Record<string, { id: string; moduleParts: Record<string, string> }>;
+}
+
+interface EsbuildMetafile {
+  inputs: Record<string, unknown>;
+  outputs: Record<string, { bytes: number; inputs: Record<string, { bytesInOutput: number }> }>;
+}
+
+export function isBundleStats(value: unknown): boolean {
+  return detectFormat(value) !== null;
+}
+
+function detectFormat(value: unknown): BundleFormat | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const stats = value as Record<string, unknown>;
+  if (stats.nodeParts && stats.nodeMetas) return 'rollup-visualizer';
+  if (stats.inputs && stats.outputs) return 'esbuild';
+  if (Array.isArray(stats.modules) || Array.isArray(stats.chunks) || Array.isArray(stats.children)) return 'webpack';
+  return null;
+}
+
+/**
+ * The npm package a module path belongs to, and where it is installed
+ */
+export function packageOf(path: string): { name: string; installPath: string } | undefined {
+  // The greedy prefix makes nested installs resolve to the innermost package
+  const match = /^(.*\/)?node_modules\/((?:@[^/]+\/)?[^/]+)/.exec(path);
+  if (!match) return undefined;
+  return { name: match[2], installPath: match[0].replace(/^\.\//, '') };
+}
+
+function cleanName(name: string, root?: string): string {
+  // Drop webpack loader prefixes and rollup's virtual-module marker
+  const path = name.slice(name.lastIndexOf('!') + 1).replace(/^\0/, '');
+  if (root && isAbsolute(path)) {
+    const rel = relative(root, path);
+    if (!rel.startsWith('..')) return rel;
+  }
+  return path.replace(/^\.\//, '');
+}
+
+function webpackModules(stats: WebpackStats, chunkNames: Map<string, string>): WebpackModule[] {
+  for (const chunk of stats.chunks ?? []) chunkNames.set(String(chunk.id), chunk.names?.[0] || String(chunk.id));
+  const modules: WebpackModule[] = [];
+  for (const module of stats.modules ?? []) {
+    // Concatenated modules list their parts; the parts carry the sizes
+    if (module.modules?.length) modules.push(...module.modules.map(inner => ({ ...inner, chunks: inner.chunks ?? module.chunks })));
+    else modules.push(module);
+  }
+  for (const child of stats.children ?? []) modules.push(...webpackModules(child, chunkNames));
+  return modules;
+}
+
+function webpackAssets(stats: WebpackStats): Array<{ name: string; size: number }> {
+  return [...(stats.assets ?? []), ...(stats.children ?? []).flatMap(webpackAssets)];
+}
+
+/**
+ * Parse a stats file into modules and assets
+ */
+export function parseBundleStats(value: unknown, options: { root?: string } = {}): BundleStats {
+  const format = detectFormat(value);
+  const withPackage = (module: Omit<BundleModule, 'package' | 'name'> & { name: string }): BundleModule => {
+    const name = cleanName(module.name, options.root);
+    const pkg = packageOf(name);
+    return pkg ? { ...module, name, package: pkg.name } : { ...module, name };
+  };
+
+  switch (format) {
+    case 'webpack': {
+      const chunkNames = new Map<string, string>();
+      const modules = webpackModules(value as WebpackStats, chunkNames)
+        .filter(module => (module.name || module.identifier) && typeof module.size === 'number')
+        .map(module =>
+          withPackage({
+            name: module.name || module.identifier!,
+            size: module.size!,
+            chunks: (module.chunks ?? []).map(id => chunkNames.get(String(id)) ?? String(id))
+          })
+        );
+      const assets = webpackAssets(value as WebpackStats)
+        .filter(asset => !asset.name.endsWith('.map'))
+        .map(({ name, size }) => ({ name, size }));
+      return { format, modules, assets };
+    }
+
+    case 'rollup-visualizer': {
+      const data = value as VisualizerData;
+      const modules = Object.values(data.nodeMetas).map(meta => {
+        const chunks = Object.keys(meta.moduleParts);
+        const size = chunks.reduce((sum, chunk) => sum + (data.nodeParts[meta.moduleParts[chunk]]?.renderedLength ?? 0), 0);
+        return withPackage({ name: meta.id, size, chunks });
+      });
+      return { format, modules, assets: [] };
+    }
+
+    case 'esbuild': {
+      const metafile = value as EsbuildMetafile;
+      const byInput = new Map<string, BundleModule>();
+      const assets: Array<{ name: string; size: number }> = [];
+      for (const [output, info] of Object.entries(metafile.outputs)) {
+        if (output.endsWith('.map')) continue;
+        assets.push({ name: output, size: info.bytes });
+        for (const [input, { bytesInOutput }] of Object.entries(info.inputs)) {
+          const module = byInput.get(input) ?? withPackage({ name: input, size: 0, chunks: [] });
+          module.size += bytesInOutput;
+          module.chunks.push(output);
+          byInput.set(input, module);
+        }
+      }
+      return { format, modules: [...byInput.values()], assets };
+    }
+
+    default:
+      throw new Error(
+        "Unrecognized stats file: expected webpack stats (webpack --json), rollup-plugin-visualizer raw data (template: 'raw-data') or an esbuild metafile"
+      );
+  }
+}
+
+/**
+ * Per-module, per-chunk and per-package size breakdown of a bundle
+ */
+export function analyzeBundle(value: unknown, options: { root?: string; top?: number } = {}): BundleReport {
+  const top = options.top ?? 20;
+  const stats = parseBundleStats(value, options);
+  const modules = stats.modules.filter(module => module.size > 0).sort((a, b) => b.size - a.size);
+  const totalSize = modules.reduce((sum, module) => sum + module.size, 0);
+  const percent = (size: number) => (totalSize > 0 ? Math.round((size / totalSize) * 1000) / 10 : 0);
+
+  const chunks = new Map<string, { name: string; size: number; modules: number }>();
+  const packages = new Map<string, { name: string; size: number; modules: number }>();
+  const installs = new Map<string, Map<string, number>>();
+  for (const module of modules) {
+    for (const name of module.chunks) {
+      const chunk = chunks.get(name) ?? { name, size: 0, modules: 0 };
+      // A module shared by several chunks is counted in each of them
+      chunk.size += module.size;
+      chunk.modules++;
+      chunks.set(name, chunk);
+    }
+    const pkg = packageOf(module.name);
+    const key = pkg?.name ?? '(project)';
+    const entry = packages.get(key) ?? { name: key, size: 0, modules: 0 };
+    entry.size += module.size;
+    entry.modules++;
+    packages.set(key, entry);
+    if (pkg) {
+      const paths = installs.get(pkg.name) ?? new Map<string, number>();
+      paths.set(pkg.installPath, (paths.get(pkg.installPath) ?? 0) + module.size);
+      installs.set(pkg.name, paths);
+    }
+  }
+
+  return {
+    kind: 'bundle',
+    format: stats.format,
+    totalSize,
+    moduleCount: modules.length,
+    assets: stats.assets.sort((a, b) => b.size - a.size),
+    chunks: [...chunks.values()].sort((a, b) => b.size - a.size),
+    packages: [...packages.values()]
+      .sort((a, b) => b.size - a.size)
+      .slice(0, top)
+      .map(entry => ({ ...entry, percent: percent(entry.size) })),
+    modules: modules.slice(0, top).map(module => ({ ...module, percent: percent(module.size) })),
+    duplicates: [...installs]
+      .filter(([, paths]) => paths.size > 1)
+      .map(([name, paths]) => ({ package: name, paths: [...paths.keys()].sort(), size: [...paths.values()].reduce((a, b) => a + b, 0) }))
+      .sort((a, b) => b.size - a.size)
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Loading profile files and comparing two of the same kind
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { isBundleStats, parseBundleStats } from './bundle.js';
+import { CpuProfile, functionTimes, isCpuProfile } from './cpu-profile.js';
+import { classSizes, HeapSnapshotFile, isHeapSnapshot } from './heap-snapshot.js';
+
+export type ProfileKind = 'cpu' | 'heap' | 'bundle';
+
+export interface LoadedProfile {
+  kind: ProfileKind;
+  file: string;
+  data: unknown;
+}
+
+export interface MetricChange {
+  name: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  /** Change relative to the baseline; null for new entries */
+  percent: number | null;
+}
+
+export interface CompareOptions {
+  /** Percent increase that counts as a regression (default: 10) */
+  threshold?: number;
+  /** Smallest absolute increase that counts, in the profile's unit (default: 1% of the baseline total) */
+  minDelta?: number;
+  top?: number;
+}
+
+export interface ProfileComparison {
+  kind: ProfileKind;
+  unit: 'ms' | 'bytes';
+  threshold: number;
+  minDelta: number;
+  total: MetricChange & { regression: boolean };
+  /** Entries that grew by more than threshold and minDelta, largest first */
+  regressions: MetricChange[];
+  improvements: MetricChange[];
+  /** Whether the total or any entry regressed */
+  regressed: boolean;
+}
+
+/**
+ * Read a .cpuprofile, .heapsnapshot or bundle stats file and detect its kind
+ */
+export async function loadProfile(file: string): Promise<LoadedProfile> {
+  const path = resolve(file);
+  const content = await fs.readFile(path, 'utf-8').catch(() => {
+    throw new Error(`Profile not found: ${file}`);
+  });
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(`${file} is not a JSON profile, heap snapshot or stats file`);
+  }
+
+  if (isCpuProfile(data)) return { kind: 'cpu', file: path, data };
+  if (isHeapSnapshot(data)) return { kind: 'heap', file: path, data };
+  if (isBundleStats(data)) return { kind: 'bundle', file: path, data };
+  throw new Error(`${file} is not a CPU profile, heap snapshot or webpack/rollup/esbuild stats file`);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function change(name: string, baseline: number, current: number): MetricChange {
+  return {
+    name,
+    baseline: round(baseline),
+    current: round(current),
+    delta: round(current - baseline),
+    percent: baseline > 0 ? round(((current - baseline) / baseline) * 100) : null
+  };
+}
+
+/**
+ * Compare named metrics; an entry regresses when it grows by at least
+ * minDelta and by more than threshold percent (new entries only need minDelta)
+ */
+export function compareMetrics(
+  baseline: Map<string, number>,
+  current: Map<string, number>,
+  totals: { baseline: number; current: number },
+  options: CompareOptions & { kind: ProfileKind; unit: 'ms' | 'bytes' }
+): ProfileComparison {
+  const threshold = options.threshold ?? 10;
+  const minDelta = options.minDelta ?? round(totals.baseline * 0.01);
+  const top = options.top ?? 15;
+
+  const isRegression = (entry: MetricChange) =>
+    entry.delta > 0 && entry.delta >= minDelta && (entry.percent === null || entry.percent > threshold);
+  const isImprovement = (entry: MetricChange) => entry.delta < 0 && -entry.delta >= minDelta && (entry.percent ?? 0) < -threshold;
+
+  const names = new Set([...baseline.keys(), ...current.keys()]);
+  const changes = [...names].map(name => change(name, baseline.get(name) ?? 0, current.get(name) ?? 0));
+  const total = change('total', totals.baseline, totals.current);
+  const regressions = changes.filter(isRegression).sort((a, b) => b.delta - a.delta).slice(0, top);
+
+  return {
+    kind: options.kind,
+    unit: options.unit,
+    threshold,
+    minDelta,
+    total: { ...total, regression: isRegression(total) },
+    regressions,
+    improvements: changes.filter(isImprovement).sort((a, b) => a.delta - b.delta).slice(0, top),
+    regressed: isRegression(total) || regressions.length > 0
+  };
+}
+
+function cpuMetrics(profile: CpuProfile, root: string): { values: Map<string, number>; total: number } {
+  const values = new Map<string, number>();
+  let total = 0;
+  for (const [key, fn] of functionTimes(profile, root)) {
+    if (key === '(idle)') continue;
+    // Match functions by name and file, so edits that move lines still compare
+    const name = fn.location ? `${fn.name} ${fn.location.replace(/:\d+:\d+$/, '')}` : fn.name;
+    values.set(name, (values.get(name) ?? 0) + fn.self / 1000);
+    total += fn.self / 1000;
+  }
+  return { values, total };
+}
+
+function bundleMetrics(stats: unknown, root: string): { values: Map<string, number>; total: number } {
+  const values = new Map<string, number>();
+  for (const module of parseBundleStats(stats, { root }).modules) values.set(module.name, (values.get(module.name) ?? 0) + module.size);
+  return { values, total: [...values.values()].reduce((a, b) => a + b, 0) };
+}
+
+/**
+ * Compare two profiles of the same kind: self time per function for CPU
+ * profiles, shallow size per class for heap snapshots, size per module for
+ * bundle stats
+ */
+export function compareProfiles(baseline: LoadedProfile, current: LoadedProfile, options: CompareOptions = {}): ProfileComparison {
+  if (baseline.kind !== current.kind) {
+    throw new Error(`Cannot compare a ${baseline.kind} profile with a ${current.kind} profile`);
+  }
+
+  switch (baseline.kind) {
+    case 'cpu': {
+      const before = cpuMetrics(baseline.data as CpuProfile, dirname(baseline.file));
+      const after = cpuMetrics(current.data as CpuProfile, dirname(current.file));
+      return compareMetrics(before.values, after.values, { baseline: before.total, current: after.total }, { ...options, kind: 'cpu', unit: 'ms' });
+    }
+    case 'heap': {
+      const before = classSizes(baseline.data as HeapSnapshotFile);
+      const after = classSizes(current.data as HeapSnapshotFile);
+      const comparison = compareMetrics(
+        before.sizes,
+        after.sizes,
+        { baseline: before.totalSize, current: after.totalSize },
+        { ...options, kind: 'heap', unit: 'bytes' }
+      );
+      // Instance counts make leaks (many new small objects) easy to spot
+      const withCounts = (entry: MetricChange) => ({
+        ...entry,
+        countBaseline: before.counts.get(entry.name) ?? 0,
+        countCurrent: after.counts.get(entry.name) ?? 0
+      });
+      return { ...comparison, regressions: comparison.regressions.map(withCounts), improvements: comparison.improvements.map(withCounts) };
+    }
+    case 'bundle': {
+      const before = bundleMetrics(baseline.data, dirname(baseline.file));
+      const after = bundleMetrics(current.data, dirname(current.file));
+      return compareMetrics(before.values, after.values, { baseline: before.total, current: after.total }, { ...options, kind: 'bundle', unit: 'bytes' });
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { compareProfiles, loadProfile } from './compare.js';
+import { CpuProfile, functionTimes, summarizeCpuProfile } from './cpu-profile.js';
+import { runProfiled } from './runner.js';
+
+// Busy work whose length is set by the first argument
+const SCRIPT = `
+function work(iterations) {
+  let x = 0;
+  for (let i = 0; i < iterations; i++) x += Math.sqrt(i) * Math.sin(i);
+  return x;
+}
+function main() {
+  const end = Date.now() + Number(process.argv[2]);
+  let total = 0;
+  while (Date.now() < end) total += work(20000);
+  console.log(total > 0 ? 'done' : 'done.');
+}
+main();
+`;
+
+function frame(id: number, functionName: string, children: number[] = [], url = 'file:///app/index.js'): CpuProfile['nodes'][number] {
+  return { id, callFrame: { functionName, url, lineNumber: id, columnNumber: 0 }, children };
+}
+
+describe('CPU profile summaries', () => {
+  it('should attribute each sample until the next one and count recursion once', () => {
+    // (root) -> main -> fib -> fib
+    const profile: CpuProfile = {
+      nodes: [frame(1, '(root)', [2], ''), frame(2, 'main', [3]), frame(3, 'fib', [4]), { ...frame(4, 'fib'), callFrame: frame(3, 'fib').callFrame }],
+      startTime: 0,
+      endTime: 100,
+      samples: [2, 3, 4, 4],
+      timeDeltas: [0, 10, 20, 30]
+    };
+
+    const times = [...functionTimes(profile).values()];
+    const fib = times.find(fn => fn.name === 'fib')!;
+    const main = times.find(fn => fn.name === 'main')!;
+    // fib: 20us at depth 1 + 30us and 40us at depth 2; main: 10us of its own
+    expect(fib.self).toBe(90);
+    expect(fib.total).toBe(90);
+    expect(main.self).toBe(10);
+    expect(main.total).toBe(100);
+  });
+
+  it('should group self time by npm package', () => {
+    const profile: CpuProfile = {
+      nodes: [
+        frame(1, '(root)', [2, 4], ''),
+        frame(2, 'handler', [3]),
+        frame(3, 'parse', [], 'file:///app/node_modules/@scope/parser/index.js'),
+        frame(4, '(garbage collector)', [], '')
+      ],
+      startTime: 0,
+      endTime: 1000,
+      samples: [2, 3, 3, 4],
+      timeDeltas: [0, 250, 250, 250]
+    };
+
+    const summary = summarizeCpuProfile(profile, { root: '/app' });
+    expect(summary.packages.map(p => [p.name, p.percent])).toEqual([
+      ['@scope/parser', 50],
+      ['app', 25],
+      ['(vm)', 25]
+    ]);
+    expect(summary.gcMs).toBe(0.25);
+    expect(summary.hotFunctions[0]).toMatchObject({ function: 'parse', location: 'node_modules/@scope/parser/index.js:4:1' });
+  });
+});
+
+describe('Profiling scripts', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'cpu-profile-'));
+    await fs.writeFile(join(dir, 'busy.js'), SCRIPT);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should profile a script and find its hot function', async () => {
+    const run = await runProfiled('cpu', { script: 'busy.js', args: ['150'], cwd: dir });
+    expect(run.exitCode).toBe(0);
+    expect(run.file).toMatch(/\.profiles\/busy-.*\.cpuprofile$/);
+
+    const { data } = await loadProfile(run.file);
+    const summary = summarizeCpuProfile(data as CpuProfile, { root: dir });
+    expect(summary.durationMs).toBeGreaterThanOrEqual(150);
+    expect(summary.hotFunctions[0].function).toBe('work');
+    expect(summary.hotFunctions[0].location).toMatch(/^busy\.js:2:\d+$/);
+    expect(summary.slowestPaths.map(fn => fn.function)).toContain('main');
+    expect(summary.packages[0].name).toBe('app');
+  });
+
+  it('should flag a function that got slower', async () => {
+    const baseline = await runProfiled('cpu', { script: 'busy.js', args: ['50'], cwd: dir, output: 'baseline.cpuprofile' });
+    const current = await runProfiled('cpu', { script: 'busy.js', args: ['250'], cwd: dir, output: 'current.cpuprofile' });
+
+    const comparison = compareProfiles(await loadProfile(baseline.file), await loadProfile(current.file));
+    expect(comparison.kind).toBe('cpu');
+    expect(comparison.regressed).toBe(true);
+    expect(comparison.total.regression).toBe(true);
+    expect(comparison.regressions[0].name).toBe('work busy.js');
+
+    const same = compareProfiles(await loadProfile(current.file), await loadProfile(current.file));
+    expect(same.regressed).toBe(false);
+  });
+
+  it('should stop long-running scripts after the duration', async () => {
+    await fs.writeFile(join(dir, 'server.js'), 'setInterval(() => {}, 1000);');
+    const run = await runProfiled('cpu', { script: 'server.js', cwd: dir, durationMs: 300, timeoutMs: 10000 });
+    expect(run.exitCode).toBe(0);
+    expect(run.wallMs).toBeLessThan(10000);
+  });
+
+  it('should explain when no profile was written', async () => {
+    await expect(runProfiled('cpu', { script: 'missing.js', cwd: dir })).rejects.toThrow('Script not found: missing.js');
+
+    await fs.writeFile(join(dir, 'hang.js'), 'setInterval(() => {}, 1000);');
+    await expect(runProfiled('cpu', { script: 'hang.js', cwd: dir, timeoutMs: 1000 })).rejects.toThrow('pass duration to profile servers');
+  });
+});
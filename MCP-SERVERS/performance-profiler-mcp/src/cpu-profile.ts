@@ -0,0 +1,214 @@
+/**
+ * V8 CPU profiles (.cpuprofile)
+ *
+ * Self time is attributed per sample the way Chrome DevTools does: each
+ * sample lasts until the next one. Total time counts a function once per
+ * stack, so recursion is not double counted.
+ */
+
+import { relative } from 'path';
+import { fileURLToPath } from 'url';
+
+export interface CpuProfileNode {
+  id: number;
+  callFrame: { functionName: string; url: string; lineNumber: number; columnNumber: number };
+  hitCount?: number;
+  children?: number[];
+}
+
+export interface CpuProfile {
+  nodes: CpuProfileNode[];
+  startTime: number;
+  endTime: number;
+  samples?: number[];
+  timeDeltas?: number[];
+}
+
+export interface FunctionTiming {
+  function: string;
+  location: string;
+  selfMs: number;
+  selfPercent: number;
+  totalMs: number;
+  totalPercent: number;
+}
+
+export interface PackageTiming {
+  /** npm package, "app", "node" for Node internals, or "(vm)" for GC and native code */
+  name: string;
+  selfMs: number;
+  percent: number;
+}
+
+export interface CpuSummary {
+  kind: 'cpu';
+  durationMs: number;
+  /** Sampled time minus idle time; percentages are of this */
+  activeMs: number;
+  idleMs: number;
+  gcMs: number;
+  samples: number;
+  /** Functions with the most self time */
+  hotFunctions: FunctionTiming[];
+  /** Script and package functions with the most time including callees */
+  slowestPaths: FunctionTiming[];
+  packages: PackageTiming[];
+}
+
+const IDLE = '(idle)';
+const ROOT = '(root)';
+
+/** Frames of the profiling preload itself, which stop the profiler at exit */
+const PRELOAD_FRAME = /\/preload\/profile\.cjs$/;
+
+export function isCpuProfile(value: unknown): value is CpuProfile {
+  const profile = value as CpuProfile;
+  return Array.isArray(profile?.nodes) && typeof profile.startTime === 'number' && typeof profile.endTime === 'number';
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function displayUrl(url: string, root?: string): string {
+  const path = url.startsWith('file://') ? fileURLToPath(url) : url;
+  if (!root || !path.startsWith('/')) return path;
+  const rel = relative(root, path);
+  return rel.startsWith('..') ? path : rel;
+}
+
+function frameKey(node: CpuProfileNode, root?: string): { name: string; location: string } {
+  const { functionName, url, lineNumber, columnNumber } = node.callFrame;
+  const name = functionName || (url ? '(anonymous)' : '(native)');
+  if (!url) return { name, location: '' };
+  return { name, location: `${displayUrl(url, root)}:${lineNumber + 1}:${columnNumber + 1}` };
+}
+
+/**
+ * Which package a script URL belongs to
+ */
+function packageOf(url: string): string {
+  if (!url) return '(vm)';
+  if (url.startsWith('node:')) return 'node';
+  const matches = [...url.matchAll(/node_modules\/((?:@[^/]+\/)?[^/]+)/g)];
+  return matches.length > 0 ? matches[matches.length - 1][1] : 'app';
+}
+
+/**
+ * Self time per profile node in microseconds
+ */
+function selfTimes(profile: CpuProfile): Map<number, number> {
+  const self = new Map<number, number>();
+  const { samples, timeDeltas } = profile;
+
+  if (samples && timeDeltas && samples.length === timeDeltas.length) {
+    let timestamp = profile.startTime;
+    const timestamps = timeDeltas.map(delta => (timestamp += delta));
+    samples.forEach((id, i) => {
+      const end = i + 1 < timestamps.length ? timestamps[i + 1] : profile.endTime;
+      self.set(id, (self.get(id) ?? 0) + Math.max(0, end - timestamps[i]));
+    });
+    return self;
+  }
+
+  // Profiles without samples only have hit counts
+  const hits = profile.nodes.reduce((sum, node) => sum + (node.hitCount ?? 0), 0);
+  const perHit = hits > 0 ? (profile.endTime - profile.startTime) / hits : 0;
+  for (const node of profile.nodes) self.set(node.id, (node.hitCount ?? 0) * perHit);
+  return self;
+}
+
+/**
+ * Self and total time per function, in microseconds, keyed by "name location"
+ */
+export function functionTimes(profile: CpuProfile, root?: string) {
+  const byId = new Map(profile.nodes.map(node => [node.id, node]));
+  const self = selfTimes(profile);
+  const functions = new Map<string, { name: string; location: string; url: string; self: number; total: number }>();
+  const onStack = new Map<string, number>();
+
+  const entry = (node: CpuProfileNode) => {
+    const { name, location } = frameKey(node, root);
+    const key = location ? `${name} ${location}` : name;
+    let fn = functions.get(key);
+    if (!fn) {
+      fn = { name, location, url: node.callFrame.url, self: 0, total: 0 };
+      functions.set(key, fn);
+    }
+    return { key, fn };
+  };
+
+  const visit = (node: CpuProfileNode): number => {
+    const { key, fn } = entry(node);
+    const own = self.get(node.id) ?? 0;
+    fn.self += own;
+
+    const depth = onStack.get(key) ?? 0;
+    onStack.set(key, depth + 1);
+    let inclusive = own;
+    for (const child of node.children ?? []) {
+      const childNode = byId.get(child);
+      if (childNode && !PRELOAD_FRAME.test(childNode.callFrame.url)) inclusive += visit(childNode);
+    }
+    onStack.set(key, depth);
+    if (depth === 0) fn.total += inclusive;
+    return inclusive;
+  };
+
+  const rootNode = profile.nodes.find(node => node.callFrame.functionName === ROOT) ?? profile.nodes[0];
+  if (rootNode) visit(rootNode);
+  functions.delete(ROOT);
+  return functions;
+}
+
+/**
+ * Summarize a CPU profile: hot functions by self time, slowest call paths by
+ * total time, and time per package
+ */
+export function summarizeCpuProfile(profile: CpuProfile, options: { top?: number; root?: string } = {}): CpuSummary {
+  const top = options.top ?? 15;
+  const functions = functionTimes(profile, options.root);
+  const durationUs = profile.endTime - profile.startTime;
+  const idleUs = functions.get(IDLE)?.self ?? 0;
+  functions.delete(IDLE);
+  // Time before the first sample is not attributed to any function
+  const activeUs = [...functions.values()].reduce((sum, fn) => sum + fn.self, 0);
+
+  const percent = (us: number) => (activeUs > 0 ? round((us / activeUs) * 100, 1) : 0);
+  const timing = (fn: { name: string; location: string; self: number; total: number }): FunctionTiming => ({
+    function: fn.name,
+    location: fn.location,
+    selfMs: round(fn.self / 1000),
+    selfPercent: percent(fn.self),
+    totalMs: round(fn.total / 1000),
+    totalPercent: percent(fn.total)
+  });
+
+  const list = [...functions.values()];
+  const packages = new Map<string, number>();
+  for (const fn of list) packages.set(packageOf(fn.url), (packages.get(packageOf(fn.url)) ?? 0) + fn.self);
+
+  return {
+    kind: 'cpu',
+    durationMs: round(durationUs / 1000),
+    activeMs: round(activeUs / 1000),
+    idleMs: round(idleUs / 1000),
+    gcMs: round((functions.get('(garbage collector)')?.self ?? 0) / 1000),
+    samples: profile.samples?.length ?? profile.nodes.reduce((sum, node) => sum + (node.hitCount ?? 0), 0),
+    hotFunctions: list
+      .filter(fn => fn.self > 0)
+      .sort((a, b) => b.self - a.self)
+      .slice(0, top)
+      .map(timing),
+    slowestPaths: list
+      .filter(fn => fn.location && packageOf(fn.url) !== 'node')
+      .sort((a, b) => b.total - a.total)
+      .slice(0, top)
+      .map(timing),
+    packages: [...packages]
+      .filter(([, us]) => us > 0)
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, us]) => ({ name, selfMs: round(us / 1000), percent: percent(us) }))
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { compareProfiles, loadProfile } from './compare.js';
+import { dominators, HeapGraph, HeapSnapshotFile, summarizeHeapSnapshot } from './heap-snapshot.js';
+import { runProfiled } from './runner.js';
+
+const NODE_TYPES = ['hidden', 'array', 'string', 'object', 'code', 'closure', 'regexp', 'number', 'native', 'synthetic'];
+const EDGE_TYPES = ['context', 'element', 'property', 'internal', 'hidden', 'shortcut', 'weak'];
+
+/**
+ * Build a snapshot in V8's flat format from [type, name, selfSize] nodes and
+ * [from, to, type, name] edges
+ */
+function snapshot(nodes: Array<[string, string, number]>, edges: Array<[number, number, string, string]>): HeapSnapshotFile {
+  const strings: string[] = [];
+  const str = (value: string) => (strings.includes(value) ? strings.indexOf(value) : strings.push(value) - 1);
+  const flatNodes: number[] = [];
+  const flatEdges: number[] = [];
+  nodes.forEach(([type, name, size], index) => {
+    const own = edges.filter(([from]) => from === index);
+    flatNodes.push(NODE_TYPES.indexOf(type), str(name), index * 2 + 1, size, own.length);
+    for (const [, to, edgeType, edgeName] of own) flatEdges.push(EDGE_TYPES.indexOf(edgeType), str(edgeName), to * 5);
+  });
+  return {
+    snapshot: {
+      meta: {
+        node_fields: ['type', 'name', 'id', 'self_size', 'edge_count'],
+        node_types: [NODE_TYPES],
+        edge_fields: ['type', 'name_or_index', 'to_node'],
+        edge_types: [EDGE_TYPES]
+      },
+      node_count: nodes.length,
+      edge_count: flatEdges.length / 3
+    },
+    nodes: flatNodes,
+    edges: flatEdges,
+    strings
+  };
+}
+
+// Tracks 1000 more Entry objects per unit of the first argument
+const LEAKY = `
+class Entry {
+  constructor(i) { this.payload = 'entry-' + i + '-'.repeat(64); this.index = i; }
+}
+class Cache {
+  constructor() { this.entries = []; }
+}
+globalThis.cache = new Cache();
+for (let i = 0; i < Number(process.argv[2]) * 1000; i++) globalThis.cache.entries.push(new Entry(i));
+`;
+
+describe('Heap snapshot dominators', () => {
+  // root -> A -> C, root -> B -> C, A -> D, D -weak-> B
+  const file = snapshot(
+    [
+      ['synthetic', '', 0],
+      ['object', 'A', 10],
+      ['object', 'B', 20],
+      ['object', 'C', 30],
+      ['object', 'D', 40],
+      ['object', 'Unreachable', 50]
+    ],
+    [
+      [0, 1, 'shortcut', 'a'],
+      [0, 2, 'shortcut', 'b'],
+      [1, 3, 'property', 'c'],
+      [2, 3, 'property', 'c'],
+      [1, 4, 'property', 'd'],
+      [4, 2, 'weak', 'b']
+    ]
+  );
+
+  it('should compute immediate dominators and retained sizes', () => {
+    const { idom, retained } = dominators(new HeapGraph(file));
+    // C is reachable through A and B, so only the root dominates it; the weak edge does not retain B
+    expect([...idom]).toEqual([0, 0, 0, 0, 1, -1]);
+    expect([...retained]).toEqual([100, 50, 20, 30, 40, 50]);
+  });
+
+  it('should list the classes and objects retaining the most memory', () => {
+    const summary = summarizeHeapSnapshot(file, { top: 3 });
+    expect(summary.totalSize).toBe(150);
+    expect(summary.nodeCount).toBe(6);
+    expect(summary.classes.map(c => [c.name, c.retainedSize])).toEqual([
+      ['A', 50],
+      ['Unreachable', 50],
+      ['D', 40]
+    ]);
+    // Unreachable objects are garbage, not retained
+    expect(summary.largestObjects.map(o => o.name)).toEqual(['A', 'D', 'C']);
+    expect(summary.largestObjects[1].retainers).toEqual(['A.d']);
+  });
+});
+
+describe('Heap snapshots of scripts', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'heap-snapshot-'));
+    await fs.writeFile(join(dir, 'leaky.js'), LEAKY);
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should find what retains a leak', async () => {
+    const run = await runProfiled('heap', { script: 'leaky.js', args: ['20'], cwd: dir });
+    expect(run.exitCode).toBe(0);
+    expect(run.file).toMatch(/\.heapsnapshot$/);
+
+    const { kind, data } = await loadProfile(run.file);
+    expect(kind).toBe('heap');
+    const summary = summarizeHeapSnapshot(data as HeapSnapshotFile);
+    // The global object dominates everything it references, then comes the leak
+    expect(summary.classes.slice(0, 5).map(c => c.name)).toContain('Cache');
+    const entries = summary.classes.find(c => c.name === 'Entry');
+    expect(entries?.count).toBe(20000);
+
+    const cache = summary.largestObjects.find(o => o.name === 'Cache')!;
+    expect(cache.retainedSize).toBeGreaterThan(20000 * 64);
+    expect(cache.retainers[0]).toMatch(/\.cache$/);
+  }, 60000);
+
+  it('should flag classes that grew between snapshots', async () => {
+    const baseline = await runProfiled('heap', { script: 'leaky.js', args: ['1'], cwd: dir, output: 'before.heapsnapshot' });
+    const current = await runProfiled('heap', { script: 'leaky.js', args: ['10'], cwd: dir, output: 'after.heapsnapshot' });
+
+    const comparison = compareProfiles(await loadProfile(baseline.file), await loadProfile(current.file));
+    expect(comparison.unit).toBe('bytes');
+    expect(comparison.regressed).toBe(true);
+    expect(comparison.regressions.find(r => r.name === 'Entry')).toMatchObject({ countBaseline: 1000, countCurrent: 10000 });
+  }, 60000);
+});
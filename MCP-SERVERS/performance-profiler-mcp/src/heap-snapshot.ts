@@ -0,0 +1,317 @@
+/**
+ * V8 heap snapshots (.heapsnapshot)
+ *
+ * Retained sizes come from the dominator tree of the object graph (weak
+ * edges do not retain), computed with the Cooper-Harvey-Kennedy iterative
+ * algorithm. Objects are grouped by class the way Chrome DevTools groups
+ * them: objects by constructor name, everything else as "(string)",
+ * "(closure)", "(compiled code)" and so on.
+ */
+
+export interface HeapSnapshotFile {
+  snapshot: {
+    meta: {
+      node_fields: string[];
+      node_types: [string[], ...unknown[]];
+      edge_fields: string[];
+      edge_types: [string[], ...unknown[]];
+    };
+    node_count: number;
+    edge_count: number;
+  };
+  nodes: number[];
+  edges: number[];
+  strings: string[];
+}
+
+export interface HeapClass {
+  name: string;
+  count: number;
+  selfSize: number;
+  /** Memory freed if every instance not retained by another instance were collected */
+  retainedSize: number;
+}
+
+export interface HeapObject {
+  id: number;
+  name: string;
+  type: string;
+  selfSize: number;
+  retainedSize: number;
+  /** Dominator chain from the object upwards, e.g. ["Leaky.items", "(global).cache"] */
+  retainers: string[];
+}
+
+export interface HeapSummary {
+  kind: 'heap';
+  totalSize: number;
+  nodeCount: number;
+  classes: HeapClass[];
+  largestObjects: HeapObject[];
+}
+
+/** Object types worth listing individually as large objects */
+const OBJECT_TYPES = new Set(['object', 'closure', 'array', 'native']);
+
+const CLASS_NAMES: Record<string, string> = {
+  hidden: '(system)',
+  code: '(compiled code)',
+  'object shape': '(system)',
+  'heap number': '(number)'
+};
+
+export function isHeapSnapshot(value: unknown): value is HeapSnapshotFile {
+  const file = value as HeapSnapshotFile;
+  return Array.isArray(file?.snapshot?.meta?.node_fields) && Array.isArray(file.nodes) && Array.isArray(file.edges);
+}
+
+/**
+ * Indexed view of a snapshot's flat node and edge arrays
+ */
+export class HeapGraph {
+  readonly nodeCount: number;
+  private readonly nodeFields: number;
+  private readonly edgeFields: number;
+  private readonly offsets: Record<'type' | 'name' | 'id' | 'selfSize' | 'edgeCount' | 'edgeType' | 'edgeName' | 'toNode', number>;
+  private readonly nodeTypes: string[];
+  private readonly edgeTypes: string[];
+  /** Index of each node's first edge in the edges array, in edge units */
+  readonly firstEdge: Uint32Array;
+
+  constructor(private readonly file: HeapSnapshotFile) {
+    const { meta } = file.snapshot;
+    this.nodeFields = meta.node_fields.length;
+    this.edgeFields = meta.edge_fields.length;
+    this.nodeTypes = meta.node_types[0];
+    this.edgeTypes = meta.edge_types[0];
+    this.offsets = {
+      type: meta.node_fields.indexOf('type'),
+      name: meta.node_fields.indexOf('name'),
+      id: meta.node_fields.indexOf('id'),
+      selfSize: meta.node_fields.indexOf('self_size'),
+      edgeCount: meta.node_fields.indexOf('edge_count'),
+      edgeType: meta.edge_fields.indexOf('type'),
+      edgeName: meta.edge_fields.indexOf('name_or_index'),
+      toNode: meta.edge_fields.indexOf('to_node')
+    };
+    this.nodeCount = file.nodes.length / this.nodeFields;
+
+    this.firstEdge = new Uint32Array(this.nodeCount + 1);
+    for (let i = 0; i < this.nodeCount; i++) {
+      this.firstEdge[i + 1] = this.firstEdge[i] + file.nodes[i * this.nodeFields + this.offsets.edgeCount];
+    }
+  }
+
+  type(node: number): string {
+    return this.nodeTypes[this.file.nodes[node * this.nodeFields + this.offsets.type]];
+  }
+
+  name(node: number): string {
+    return this.file.strings[this.file.nodes[node * this.nodeFields + this.offsets.name]];
+  }
+
+  id(node: number): number {
+    return this.file.nodes[node * this.nodeFields + this.offsets.id];
+  }
+
+  selfSize(node: number): number {
+    return this.file.nodes[node * this.nodeFields + this.offsets.selfSize];
+  }
+
+  className(node: number): string {
+    const type = this.type(node);
+    // V8 appends details such as " / url" to some object names
+    if (type === 'object' || type === 'native') return this.name(node).split(' / ')[0];
+    return CLASS_NAMES[type] ?? `(${type})`;
+  }
+
+  edgeType(edge: number): string {
+    return this.edgeTypes[this.file.edges[edge * this.edgeFields + this.offsets.edgeType]];
+  }
+
+  edgeName(edge: number): string {
+    const value = this.file.edges[edge * this.edgeFields + this.offsets.edgeName];
+    const type = this.edgeType(edge);
+    return type === 'element' || type === 'hidden' ? `[${value}]` : this.file.strings[value];
+  }
+
+  /** Target node index of an edge */
+  edgeTarget(edge: number): number {
+    return this.file.edges[edge * this.edgeFields + this.offsets.toNode] / this.nodeFields;
+  }
+}
+
+/**
+ * Immediate dominator and retained size of every node reachable from the
+ * root (node 0); unreachable nodes have idom -1 and retain only themselves
+ */
+export function dominators(graph: HeapGraph): { idom: Int32Array; retained: Float64Array } {
+  const n = graph.nodeCount;
+  const retains = (edge: number) => graph.edgeType(edge) !== 'weak';
+
+  // Depth-first postorder from the root
+  const order = new Int32Array(n).fill(-1);
+  const postorder: number[] = [];
+  const visited = new Uint8Array(n);
+  const stack: number[] = [0];
+  const nextEdge = new Uint32Array(n);
+  visited[0] = 1;
+  for (let i = 0; i < n; i++) nextEdge[i] = graph.firstEdge[i];
+  while (stack.length > 0) {
+    const node = stack[stack.length - 1];
+    let pushed = false;
+    while (nextEdge[node] < graph.firstEdge[node + 1]) {
+      const edge = nextEdge[node]++;
+      if (!retains(edge)) continue;
+      const target = graph.edgeTarget(edge);
+      if (!visited[target]) {
+        visited[target] = 1;
+        stack.push(target);
+        pushed = true;
+        break;
+      }
+    }
+    if (!pushed) {
+      stack.pop();
+      order[node] = postorder.length;
+      postorder.push(node);
+    }
+  }
+
+  // Predecessors of reachable nodes, in compressed rows
+  const predCount = new Uint32Array(n + 1);
+  for (let node = 0; node < n; node++) {
+    if (order[node] === -1) continue;
+    for (let edge = graph.firstEdge[node]; edge < graph.firstEdge[node + 1]; edge++) {
+      if (retains(edge)) predCount[graph.edgeTarget(edge) + 1]++;
+    }
+  }
+  for (let i = 0; i < n; i++) predCount[i + 1] += predCount[i];
+  const preds = new Uint32Array(predCount[n]);
+  const fill = predCount.slice(0, n);
+  for (let node = 0; node < n; node++) {
+    if (order[node] === -1) continue;
+    for (let edge = graph.firstEdge[node]; edge < graph.firstEdge[node + 1]; edge++) {
+      if (retains(edge)) preds[fill[graph.edgeTarget(edge)]++] = node;
+    }
+  }
+
+  const idom = new Int32Array(n).fill(-1);
+  idom[0] = 0;
+  const intersect = (a: number, b: number) => {
+    while (a !== b) {
+      while (order[a] < order[b]) a = idom[a];
+      while (order[b] < order[a]) b = idom[b];
+    }
+    return a;
+  };
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (let i = postorder.length - 2; i >= 0; i--) {
+      const node = postorder[i];
+      let dominator = -1;
+      for (let p = predCount[node]; p < predCount[node + 1]; p++) {
+        const pred = preds[p];
+        if (idom[pred] === -1) continue;
+        dominator = dominator === -1 ? pred : intersect(pred, dominator);
+      }
+      if (dominator !== -1 && idom[node] !== dominator) {
+        idom[node] = dominator;
+        changed = true;
+      }
+    }
+  }
+
+  // Dominated nodes come before their dominator in postorder
+  const retained = new Float64Array(n);
+  for (let node = 0; node < n; node++) retained[node] = graph.selfSize(node);
+  for (const node of postorder) {
+    if (node !== 0 && idom[node] !== -1) retained[idom[node]] += retained[node];
+  }
+  return { idom, retained };
+}
+
+function retainerPath(graph: HeapGraph, idom: Int32Array, node: number, depth = 5): string[] {
+  const path: string[] = [];
+  let child = node;
+  while (path.length < depth && child !== 0 && idom[child] > 0) {
+    const parent = idom[child];
+    let label = '';
+    for (let edge = graph.firstEdge[parent]; edge < graph.firstEdge[parent + 1]; edge++) {
+      if (graph.edgeTarget(edge) === child) {
+        label = graph.edgeName(edge);
+        break;
+      }
+    }
+    const owner = graph.type(parent) === 'synthetic' ? graph.name(parent) : graph.className(parent);
+    path.push(label ? `${owner}${label.startsWith('[') ? '' : '.'}${label}` : owner);
+    if (graph.type(parent) === 'synthetic') break;
+    child = parent;
+  }
+  return path;
+}
+
+/**
+ * Summarize a heap snapshot: classes and single objects retaining the most memory
+ */
+export function summarizeHeapSnapshot(file: HeapSnapshotFile, options: { top?: number } = {}): HeapSummary {
+  const top = options.top ?? 15;
+  const graph = new HeapGraph(file);
+  const { idom, retained } = dominators(graph);
+
+  const classes = new Map<string, HeapClass>();
+  let totalSize = 0;
+  for (let node = 0; node < graph.nodeCount; node++) {
+    const size = graph.selfSize(node);
+    totalSize += size;
+    if (graph.type(node) === 'synthetic') continue;
+
+    const name = graph.className(node);
+    const entry = classes.get(name) ?? { name, count: 0, selfSize: 0, retainedSize: 0 };
+    entry.count++;
+    entry.selfSize += size;
+    // Count retained memory once per class: skip instances held by another instance
+    if (idom[node] <= 0 || graph.className(idom[node]) !== name) entry.retainedSize += retained[node];
+    classes.set(name, entry);
+  }
+
+  const candidates: number[] = [];
+  for (let node = 1; node < graph.nodeCount; node++) {
+    if (OBJECT_TYPES.has(graph.type(node)) && idom[node] !== -1) candidates.push(node);
+  }
+  candidates.sort((a, b) => retained[b] - retained[a]);
+
+  return {
+    kind: 'heap',
+    totalSize,
+    nodeCount: graph.nodeCount,
+    classes: [...classes.values()].sort((a, b) => b.retainedSize - a.retainedSize).slice(0, top),
+    largestObjects: candidates.slice(0, top).map(node => ({
+      id: graph.id(node),
+      name: graph.className(node),
+      type: graph.type(node),
+      selfSize: graph.selfSize(node),
+      retainedSize: retained[node],
+      retainers: retainerPath(graph, idom, node)
+    }))
+  };
+}
+
+/**
+ * Instance count and shallow size per class, for comparing snapshots
+ */
+export function classSizes(file: HeapSnapshotFile): { totalSize: number; sizes: Map<string, number>; counts: Map<string, number> } {
+  const graph = new HeapGraph(file);
+  const sizes = new Map<string, number>();
+  const counts = new Map<string, number>();
+  let totalSize = 0;
+  for (let node = 0; node < graph.nodeCount; node++) {
+    totalSize += graph.selfSize(node);
+    if (graph.type(node) === 'synthetic') continue;
+    const name = graph.className(node);
+    sizes.set(name, (sizes.get(name) ?? 0) + graph.selfSize(node));
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return { totalSize, sizes, counts };
+}
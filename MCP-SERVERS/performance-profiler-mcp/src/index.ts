@@ -1,19 +1,180 @@
 #!/usr/bin/env node
 /**
- * performance-profiler-mcp - Placeholder implementation
- * TODO: Implement full functionality
+ * performance-profiler-mcp
+ *
+ * CPU profiles and heap snapshots of Node scripts through the V8 inspector,
+ * bundle size breakdowns from webpack/rollup/esbuild stats, and profile
+ * comparisons that flag regressions.
  */
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { ListToolsRequestSchema, CallToolRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { dirname } from 'path';
+import { analyzeBundle } from './bundle.js';
+import { compareProfiles, loadProfile, LoadedProfile } from './compare.js';
+import { CpuProfile, summarizeCpuProfile } from './cpu-profile.js';
+import { HeapSnapshotFile, summarizeHeapSnapshot } from './heap-snapshot.js';
+import { ProfileMode, RunOptions, runProfiled } from './runner.js';
 
 const server = new Server({ name: 'performance-profiler-mcp', version: '1.0.0' }, { capabilities: { tools: {} } });
 
-server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: [] }));
-server.setRequestHandler(CallToolRequestSchema, async (request) => ({
-  content: [{ type: 'text', text: 'Not yet implemented' }]
+const RUN = {
+  script: { type: 'string', description: 'Node script to run, relative to cwd' },
+  args: { type: 'array', items: { type: 'string' }, description: 'Script arguments' },
+  nodeArgs: { type: 'array', items: { type: 'string' }, description: 'Node flags, e.g. ["--import", "tsx"]' },
+  cwd: { type: 'string', description: 'Working directory (default: server cwd)' },
+  duration: { type: 'number', description: 'Stop after this many ms instead of waiting for the script to exit (for servers)' },
+  timeout: { type: 'number', description: 'Kill the script after this many ms', default: 120000 },
+  output: { type: 'string', description: 'Profile path (default: .profiles/<script>-<timestamp>.<ext>)' },
+  top: { type: 'number', description: 'Entries per list', default: 15 }
+};
+
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools: [
+    {
+      name: 'profile_cpu',
+      description: 'Run a Node script under the V8 CPU profiler; returns hot functions by self time, slowest call paths and time per package',
+      inputSchema: {
+        type: 'object',
+        properties: { ...RUN, samplingInterval: { type: 'number', description: 'Sampling interval in microseconds', default: 1000 } },
+        required: ['script']
+      }
+    },
+    {
+      name: 'heap_snapshot',
+      description: 'Run a Node script and take a V8 heap snapshot when it exits (or after duration); returns the classes and objects retaining the most memory',
+      inputSchema: { type: 'object', properties: RUN, required: ['script'] }
+    },
+    {
+      name: 'summarize_profile',
+      description: 'Summarize an existing .cpuprofile, .heapsnapshot or bundle stats file',
+      inputSchema: {
+        type: 'object',
+        properties: { file: { type: 'string' }, top: RUN.top },
+        required: ['file']
+      }
+    },
+    {
+      name: 'analyze_bundle',
+      description: 'Per-module, per-chunk and per-package sizes from webpack stats, rollup-plugin-visualizer raw data (Vite) or an esbuild metafile',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          statsFile: { type: 'string', description: 'webpack --json output, visualizer raw-data JSON or esbuild metafile' },
+          top: { type: 'number', default: 20 }
+        },
+        required: ['statsFile']
+      }
+    },
+    {
+      name: 'compare_profiles',
+      description: 'Compare two CPU profiles, heap snapshots or bundle stats files and flag entries that grew beyond a threshold',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          baseline: { type: 'string', description: 'Profile file from before the change' },
+          current: { type: 'string', description: 'Profile file from after the change' },
+          threshold: { type: 'number', description: 'Percent increase that counts as a regression', default: 10 },
+          minDelta: { type: 'number', description: 'Smallest increase that counts, in ms or bytes (default: 1% of the baseline total)' },
+          top: RUN.top
+        },
+        required: ['baseline', 'current']
+      }
+    }
+  ]
 }));
 
+function runOptions(args: Record<string, unknown>): RunOptions {
+  if (typeof args.script !== 'string') throw new Error('script is required');
+  return {
+    script: args.script,
+    args: args.args as string[] | undefined,
+    nodeArgs: args.nodeArgs as string[] | undefined,
+    cwd: args.cwd as string | undefined,
+    durationMs: args.duration as number | undefined,
+    timeoutMs: args.timeout as number | undefined,
+    samplingIntervalUs: args.samplingInterval as number | undefined,
+    output: args.output as string | undefined
+  };
+}
+
+function summarize(profile: LoadedProfile, top?: number) {
+  switch (profile.kind) {
+    case 'cpu':
+      return summarizeCpuProfile(profile.data as CpuProfile, { top, root: dirname(profile.file) });
+    case 'heap':
+      return summarizeHeapSnapshot(profile.data as HeapSnapshotFile, { top });
+    case 'bundle':
+      return analyzeBundle(profile.data, { top, root: dirname(profile.file) });
+  }
+}
+
+async function profile(mode: ProfileMode, args: Record<string, unknown>) {
+  const options = runOptions(args);
+  const run = await runProfiled(mode, options);
+  const loaded = await loadProfile(run.file);
+  const summary =
+    mode === 'cpu'
+      ? summarizeCpuProfile(loaded.data as CpuProfile, { top: args.top as number | undefined, root: options.cwd ?? process.cwd() })
+      : summarizeHeapSnapshot(loaded.data as HeapSnapshotFile, { top: args.top as number | undefined });
+  return {
+    file: run.file,
+    exitCode: run.exitCode,
+    wallMs: run.wallMs,
+    ...(run.exitCode ? { stderr: run.stderr } : {}),
+    summary
+  };
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  try {
+    const { name, arguments: args = {} } = request.params;
+    let result: unknown;
+
+    switch (name) {
+      case 'profile_cpu':
+        result = await profile('cpu', args);
+        break;
+
+      case 'heap_snapshot':
+        result = await profile('heap', args);
+        break;
+
+      case 'summarize_profile':
+        if (typeof args.file !== 'string') throw new Error('file is required');
+        result = summarize(await loadProfile(args.file), args.top as number | undefined);
+        break;
+
+      case 'analyze_bundle': {
+        if (typeof args.statsFile !== 'string') throw new Error('statsFile is required');
+        const stats = await loadProfile(args.statsFile);
+        if (stats.kind !== 'bundle') throw new Error(`${args.statsFile} is a ${stats.kind} profile, not a bundle stats file`);
+        result = analyzeBundle(stats.data, { top: args.top as number | undefined, root: dirname(stats.file) });
+        break;
+      }
+
+      case 'compare_profiles':
+        if (typeof args.baseline !== 'string' || typeof args.current !== 'string') throw new Error('baseline and current are required');
+        result = compareProfiles(await loadProfile(args.baseline), await loadProfile(args.current), {
+          threshold: args.threshold as number | undefined,
+          minDelta: args.minDelta as number | undefined,
+          top: args.top as number | undefined
+        });
+        break;
+
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true
+    };
+  }
+});
+
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
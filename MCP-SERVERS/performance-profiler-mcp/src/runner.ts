@@ -0,0 +1,81 @@
+/**
+ * Run a Node script with the profiling preload (preload/profile.cjs)
+ */
+
+import { execa } from 'execa';
+import { existsSync, promises as fs } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+
+export const PRELOAD = fileURLToPath(new URL('../preload/profile.cjs', import.meta.url));
+
+export type ProfileMode = 'cpu' | 'heap';
+
+export interface RunOptions {
+  script: string;
+  args?: string[];
+  /** Extra node flags, e.g. ["--import", "tsx"] for TypeScript */
+  nodeArgs?: string[];
+  cwd?: string;
+  /** Stop after this many ms and write the profile (for servers that keep running) */
+  durationMs?: number;
+  /** Kill the script after this many ms (default: 120000) */
+  timeoutMs?: number;
+  /** CPU sampling interval in microseconds (default: V8's 1000) */
+  samplingIntervalUs?: number;
+  /** Where to write the profile (default: .profiles/<script>-<timestamp>.cpuprofile|.heapsnapshot) */
+  output?: string;
+}
+
+export interface RunResult {
+  file: string;
+  exitCode: number | undefined;
+  wallMs: number;
+  /** Last lines of output, to explain failures */
+  stderr: string;
+}
+
+const EXTENSIONS: Record<ProfileMode, string> = { cpu: '.cpuprofile', heap: '.heapsnapshot' };
+
+function tail(text: string, lines = 20): string {
+  return text.split('\n').slice(-lines).join('\n').trim();
+}
+
+/**
+ * Run the script until it exits (or durationMs passes) and return the
+ * written profile's path
+ */
+export async function runProfiled(mode: ProfileMode, options: RunOptions): Promise<RunResult> {
+  const cwd = resolve(options.cwd ?? process.cwd());
+  const script = resolve(cwd, options.script);
+  if (!existsSync(script)) throw new Error(`Script not found: ${options.script}`);
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const file = resolve(cwd, options.output ?? join('.profiles', `${basename(script, extname(script))}-${stamp}${EXTENSIONS[mode]}`));
+  await fs.mkdir(dirname(file), { recursive: true });
+  await fs.rm(file, { force: true });
+
+  const started = Date.now();
+  const result = await execa(process.execPath, ['--require', PRELOAD, ...(options.nodeArgs ?? []), script, ...(options.args ?? [])], {
+    cwd,
+    env: {
+      PROFILER_MODE: mode,
+      PROFILER_OUTPUT: file,
+      PROFILER_DURATION_MS: String(options.durationMs ?? 0),
+      PROFILER_SAMPLING_INTERVAL_US: String(options.samplingIntervalUs ?? 0)
+    },
+    timeout: options.timeoutMs ?? 120_000,
+    reject: false,
+    all: true
+  });
+  const wallMs = Date.now() - started;
+
+  if (!existsSync(file)) {
+    const reason = result.timedOut
+      ? `it was still running after ${options.timeoutMs ?? 120_000}ms; pass duration to profile servers`
+      : `it exited with code ${result.exitCode ?? result.signal}`;
+    throw new Error(`No profile was written: ${reason}\n${tail(result.all ?? '')}`.trim());
+  }
+
+  return { file, exitCode: result.exitCode, wallMs, stderr: tail(result.stderr) };
+}
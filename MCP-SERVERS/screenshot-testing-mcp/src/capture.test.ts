@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { existsSync, promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { chromium } from 'playwright';
+import { PNG } from 'pngjs';
+import { browserTypeFromEnv, capturePage, resolveTarget, withBrowser } from './capture.js';
+
+describe('Capture Targets', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'screenshot-capture-'));
+    await fs.writeFile(
+      join(dir, 'page.html'),
+      `<html><style>
+        body { margin: 0; background: #fff; }
+        :root.dark body, [data-theme="dark"] body { background: #000; }
+        #box { width: 50px; height: 20px; background: rgb(255, 0, 0); }
+      </style><body><div id="box"></div></body></html>`
+    );
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should pass URLs through and turn paths into file URLs', () => {
+    expect(resolveTarget('https://example.com/a')).toBe('https://example.com/a');
+    expect(resolveTarget('localhost:3000/components/Button')).toBe('http://localhost:3000/components/Button');
+    expect(resolveTarget('page.html', dir)).toBe(pathToFileURL(join(dir, 'page.html')).href);
+    expect(resolveTarget(pathToFileURL(join(dir, 'page.html')).href)).toContain('file://');
+    expect(() => resolveTarget('missing.html', dir)).toThrow(`File not found: ${join(dir, 'missing.html')}`);
+  });
+
+  it('should pick the browser from SCREENSHOT_BROWSER', () => {
+    expect(browserTypeFromEnv({}).name()).toBe('chromium');
+    expect(browserTypeFromEnv({ SCREENSHOT_BROWSER: 'webkit' }).name()).toBe('webkit');
+    expect(() => browserTypeFromEnv({ SCREENSHOT_BROWSER: 'netscape' })).toThrow('Unknown SCREENSHOT_BROWSER: netscape');
+  });
+
+  // Needs a browser: npx playwright install chromium
+  it.skipIf(!existsSync(chromium.executablePath()))('should render local pages per viewport, element and theme', async () => {
+    const url = join(dir, 'page.html');
+    const [page, box, dark] = await withBrowser(async (browser) => [
+      PNG.sync.read(await capturePage(browser, { url, viewport: { width: 320, height: 200 } })),
+      PNG.sync.read(await capturePage(browser, { url, selector: '#box' })),
+      PNG.sync.read(await capturePage(browser, { url, viewport: { width: 320, height: 200 }, theme: 'dark' }))
+    ]);
+
+    expect([page.width, page.height]).toEqual([320, 200]);
+    expect([box.width, box.height]).toEqual([50, 20]);
+    expect([...box.data.subarray(0, 3)]).toEqual([255, 0, 0]);
+    expect([...dark.data.subarray((199 * 320) * 4, (199 * 320) * 4 + 3)]).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Headless-browser capture with Playwright
+ *
+ * One browser is launched per tool call and every viewport or theme gets
+ * its own context. Pages may be http(s) URLs (localhost included),
+ * file:// URLs or plain paths to local HTML files.
+ */
+
+import { existsSync } from 'fs';
+import { resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Browser, BrowserType, chromium, firefox, webkit } from 'playwright';
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export interface CaptureOptions {
+  url: string;
+  viewport?: Viewport;
+  fullPage?: boolean;
+  /** Capture only this element */
+  selector?: string;
+  /** Wait for this selector before capturing */
+  waitForSelector?: string;
+  /** Elements masked out of the capture, e.g. timestamps */
+  ignore?: string[];
+  /**
+   * light and dark set prefers-color-scheme; every theme is also applied as
+   * data-theme and a class on <html> for class-based theming
+   */
+  theme?: string;
+  /** Navigation timeout in ms */
+  timeout?: number;
+}
+
+export const DEFAULT_VIEWPORT: Viewport = { width: 1280, height: 720 };
+
+const BROWSERS: Record<string, BrowserType> = { chromium, firefox, webkit };
+
+/**
+ * Normalise a target: URLs pass through, "localhost:3000" gets http://,
+ * anything else is a local file
+ */
+export function resolveTarget(target: string, cwd: string = process.cwd()): string {
+  if (/^[a-z][a-z\d+.-]*:\/\//i.test(target)) {
+    if (target.startsWith('file:') && !existsSync(fileURLToPath(target))) {
+      throw new Error(`File not found: ${fileURLToPath(target)}`);
+    }
+    return target;
+  }
+  if (/^(localhost|127\.0\.0\.1|\[::1\])(:\d+)?(\/|$)/.test(target)) {
+    return `http://${target}`;
+  }
+
+  const path = resolve(cwd, target);
+  if (!existsSync(path)) {
+    throw new Error(`File not found: ${path}`);
+  }
+  return pathToFileURL(path).href;
+}
+
+/**
+ * Browser type from SCREENSHOT_BROWSER (chromium, firefox or webkit)
+ */
+export function browserTypeFromEnv(env: NodeJS.ProcessEnv = process.env): BrowserType {
+  const name = env.SCREENSHOT_BROWSER || 'chromium';
+  const browserType = BROWSERS[name];
+  if (!browserType) {
+    throw new Error(`Unknown SCREENSHOT_BROWSER: ${name} (expected chromium, firefox or webkit)`);
+  }
+  return browserType;
+}
+
+export async function withBrowser<T>(fn: (browser: Browser) => Promise<T>, browserType: BrowserType = browserTypeFromEnv()): Promise<T> {
+  let browser: Browser;
+  try {
+    browser = await browserType.launch();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/Executable doesn't exist|playwright install/i.test(message)) {
+      throw new Error(`${browserType.name()} is not installed. Run: npx playwright install ${browserType.name()}`);
+    }
+    throw error;
+  }
+
+  try {
+    return await fn(browser);
+  } finally {
+    await browser.close();
+  }
+}
+
+export async function capturePage(browser: Browser, options: CaptureOptions): Promise<Buffer> {
+  const theme = options.theme;
+  const context = await browser.newContext({
+    viewport: options.viewport || DEFAULT_VIEWPORT,
+    deviceScaleFactor: 1,
+    colorScheme: theme === 'light' || theme === 'dark' ? theme : undefined,
+    reducedMotion: 'reduce'
+  });
+
+  try {
+    const page = await context.newPage();
+    await page.goto(resolveTarget(options.url), { waitUntil: 'networkidle', timeout: options.timeout ?? 30000 });
+
+    if (theme) {
+      // Runs in the page; a string keeps DOM types out of this Node build
+      await page.evaluate(
+        `document.documentElement.setAttribute('data-theme', ${JSON.stringify(theme)});` +
+        `document.documentElement.classList.add(${JSON.stringify(theme)});`
+      );
+    }
+    if (options.waitForSelector) {
+      await page.waitForSelector(options.waitForSelector, { timeout: options.timeout ?? 30000 });
+    }
+
+    const mask = (options.ignore || []).map(selector => page.locator(selector));
+    if (options.selector) {
+      return await page.locator(options.selector).first().screenshot({ animations: 'disabled', mask, type: 'png' });
+    }
+    return await page.screenshot({ fullPage: options.fullPage ?? false, animations: 'disabled', mask, type: 'png' });
+  } finally {
+    await context.close();
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PNG } from 'pngjs';
+import { compareImages, compareScreenshots, readPng } from './diff.js';
+
+function solid(width: number, height: number, rgb: [number, number, number] = [255, 255, 255]): PNG {
+  const png = new PNG({ width, height });
+  for (let i = 0; i < width * height; i++) {
+    png.data.set([...rgb, 255], i * 4);
+  }
+  return png;
+}
+
+function paint(png: PNG, x: number, y: number, rgb: [number, number, number]): PNG {
+  png.data.set([...rgb, 255], (y * png.width + x) * 4);
+  return png;
+}
+
+describe('Pixel Diff', () => {
+  it('should pass identical images', () => {
+    const { result } = compareImages(solid(10, 10), solid(10, 10));
+
+    expect(result).toMatchObject({ pixelDifference: 0, percentageDifference: 0, passed: true, dimensionsMatch: true });
+  });
+
+  it('should count changed pixels against the percentage threshold', () => {
+    const changed = paint(paint(solid(100, 10), 5, 5, [0, 0, 0]), 50, 5, [0, 0, 0]);
+
+    expect(compareImages(solid(100, 10), changed).result).toMatchObject({
+      pixelDifference: 2,
+      percentageDifference: 0.2,
+      threshold: 0.1,
+      passed: false
+    });
+    expect(compareImages(solid(100, 10), changed, { threshold: 0.5 }).result.passed).toBe(true);
+  });
+
+  it('should ignore colour changes below the colour threshold', () => {
+    const faint = paint(solid(10, 10), 1, 1, [250, 250, 250]);
+
+    expect(compareImages(solid(10, 10), faint).result.pixelDifference).toBe(0);
+    expect(compareImages(solid(10, 10), faint, { colorThreshold: 0 }).result.pixelDifference).toBe(1);
+  });
+
+  it('should count pixels outside the overlap when sizes differ', () => {
+    const { result, diff } = compareImages(solid(10, 10), solid(10, 12));
+
+    expect(result).toMatchObject({
+      pixelDifference: 20,
+      width: 10,
+      height: 12,
+      dimensionsMatch: false,
+      baselineSize: { width: 10, height: 10 },
+      currentSize: { width: 10, height: 12 }
+    });
+    expect([...diff.data.subarray((11 * 10) * 4, (11 * 10) * 4 + 4)]).toEqual([255, 0, 0, 255]);
+  });
+
+  describe('on files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(join(tmpdir(), 'screenshot-diff-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write the diff image', async () => {
+      await fs.writeFile(join(dir, 'a.png'), PNG.sync.write(solid(4, 4)));
+      await fs.writeFile(join(dir, 'b.png'), PNG.sync.write(paint(solid(4, 4), 0, 0, [0, 0, 0])));
+
+      const result = await compareScreenshots(join(dir, 'a.png'), join(dir, 'b.png'), { diffPath: join(dir, 'diff', 'b-diff.png') });
+
+      expect(result).toMatchObject({ pixelDifference: 1, percentageDifference: 6.25, diffImagePath: join(dir, 'diff', 'b-diff.png') });
+      const diff = await readPng(join(dir, 'diff', 'b-diff.png'));
+      expect([diff.width, diff.height]).toEqual([4, 4]);
+      expect([...diff.data.subarray(0, 4)]).toEqual([255, 0, 0, 255]);
+    });
+
+    it('should explain missing and invalid images', async () => {
+      await fs.writeFile(join(dir, 'text.png'), 'not an image');
+
+      await expect(readPng(join(dir, 'nope.png'))).rejects.toThrow(`Image not found: ${join(dir, 'nope.png')}`);
+      await expect(readPng(join(dir, 'text.png'))).rejects.toThrow('Not a PNG image');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Pixel diffing of PNG screenshots with pixelmatch
+ *
+ * Images of different sizes are compared on their overlap; every pixel
+ * outside it counts as different, so a layout that grew or shrank never
+ * passes silently.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+
+export interface CompareOptions {
+  /** Share of differing pixels allowed, in percent */
+  threshold?: number;
+  /** pixelmatch colour sensitivity, 0 (strict) to 1 */
+  colorThreshold?: number;
+  /** Where to write the diff image; none is written if omitted */
+  diffPath?: string;
+}
+
+export interface ComparisonResult {
+  pixelDifference: number;
+  percentageDifference: number;
+  threshold: number;
+  passed: boolean;
+  width: number;
+  height: number;
+  dimensionsMatch: boolean;
+  baselineSize: { width: number; height: number };
+  currentSize: { width: number; height: number };
+  diffImagePath?: string;
+}
+
+export const DEFAULT_THRESHOLD = 0.1;
+export const DEFAULT_COLOR_THRESHOLD = 0.1;
+
+const DIFF_COLOR = [255, 0, 0];
+
+export async function readPng(path: string): Promise<PNG> {
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(path);
+  } catch {
+    throw new Error(`Image not found: ${path}`);
+  }
+  try {
+    return PNG.sync.read(buffer);
+  } catch {
+    throw new Error(`Not a PNG image: ${path}`);
+  }
+}
+
+function crop(image: PNG, width: number, height: number): Buffer {
+  if (image.width === width && image.height === height) return image.data;
+  const out = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    image.data.copy(out, y * width * 4, y * image.width * 4, (y * image.width + width) * 4);
+  }
+  return out;
+}
+
+export function compareImages(baseline: PNG, current: PNG, options: Omit<CompareOptions, 'diffPath'> = {}): { result: Omit<ComparisonResult, 'diffImagePath'>; diff: PNG } {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+  const overlapWidth = Math.min(baseline.width, current.width);
+  const overlapHeight = Math.min(baseline.height, current.height);
+
+  const overlapDiff = Buffer.alloc(overlapWidth * overlapHeight * 4);
+  const overlapPixels = pixelmatch(
+    crop(baseline, overlapWidth, overlapHeight),
+    crop(current, overlapWidth, overlapHeight),
+    overlapDiff,
+    overlapWidth,
+    overlapHeight,
+    { threshold: options.colorThreshold ?? DEFAULT_COLOR_THRESHOLD }
+  );
+
+  // Compose the full-size diff: the overlap from pixelmatch, the rest marked
+  const diff = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      if (x < overlapWidth && y < overlapHeight) {
+        overlapDiff.copy(diff.data, target, (y * overlapWidth + x) * 4, (y * overlapWidth + x + 1) * 4);
+      } else {
+        diff.data[target] = DIFF_COLOR[0];
+        diff.data[target + 1] = DIFF_COLOR[1];
+        diff.data[target + 2] = DIFF_COLOR[2];
+        diff.data[target + 3] = 255;
+      }
+    }
+  }
+
+  const pixelDifference = overlapPixels + (width * height - overlapWidth * overlapHeight);
+  const percentageDifference = Math.round((pixelDifference / (width * height)) * 100 * 10000) / 10000;
+
+  return {
+    result: {
+      pixelDifference,
+      percentageDifference,
+      threshold,
+      passed: percentageDifference <= threshold,
+      width,
+      height,
+      dimensionsMatch: baseline.width === current.width && baseline.height === current.height,
+      baselineSize: { width: baseline.width, height: baseline.height },
+      currentSize: { width: current.width, height: current.height }
+    },
+    diff
+  };
+}
+
+/**
+ * Compare two PNG files and write the diff image
+ */
+export async function compareScreenshots(baselinePath: string, currentPath: string, options: CompareOptions = {}): Promise<ComparisonResult> {
+  const [baseline, current] = await Promise.all([readPng(baselinePath), readPng(currentPath)]);
+  const { result, diff } = compareImages(baseline, current, options);
+
+  if (!options.diffPath) return result;
+  await fs.mkdir(dirname(options.diffPath), { recursive: true });
+  await fs.writeFile(options.diffPath, PNG.sync.write(diff));
+  return { ...result, diffImagePath: options.diffPath };
+}
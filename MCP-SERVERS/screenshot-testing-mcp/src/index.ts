@@ -1,8 +1,41 @@
 #!/usr/bin/env node
 
+/**
+ * Screenshot Testing MCP Server
+ *
+ * Captures pages with Playwright and diffs them against baselines with
+ * pixelmatch. Baseline, current and diff images live in local directories
+ * (BASELINE_DIR, CURRENT_DIR, DIFF_DIR), so regression runs need no hosted
+ * service.
+ */
+
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { basename, join } from 'path';
+import { CaptureOptions, capturePage, DEFAULT_VIEWPORT, Viewport, withBrowser } from './capture.js';
+import { compareScreenshots, DEFAULT_COLOR_THRESHOLD, DEFAULT_THRESHOLD } from './diff.js';
+import { promoteBaseline, saveCapture, screenshotDirs, StoredCapture } from './store.js';
+
+const DEFAULT_VIEWPORTS = [
+  { width: 375, height: 667, name: 'mobile' },
+  { width: 768, height: 1024, name: 'tablet' },
+  { width: 1920, height: 1080, name: 'desktop' }
+];
+
+const OUTPUT_DIR_SCHEMA = {
+  type: 'string',
+  description: 'Baseline directory; current and diff images go to sibling directories (default: BASELINE_DIR or ./.screenshots/baseline)'
+};
+
+const CAPTURE_SCHEMA = {
+  fullPage: { type: 'boolean', default: false },
+  selector: { type: 'string', description: 'Capture only the first element matching this selector' },
+  waitForSelector: { type: 'string', description: 'Wait for this selector before capturing' },
+  ignore: { type: 'array', items: { type: 'string' }, description: 'Selectors masked out of the capture (timestamps, random ids)' },
+  threshold: { type: 'number', description: 'Difference threshold percentage against the baseline', default: DEFAULT_THRESHOLD },
+  outputDir: OUTPUT_DIR_SCHEMA
+};
 
 const server = new Server(
   { name: 'screenshot-testing-mcp', version: '1.0.0' },
@@ -13,11 +46,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
   tools: [
     {
       name: 'capture_screenshot',
-      description: 'Capture a screenshot of a URL or component',
+      description: 'Capture a screenshot of a URL, localhost page or local HTML file; the first capture becomes the baseline, later ones are compared with it',
       inputSchema: {
         type: 'object',
         properties: {
-          url: { type: 'string', description: 'URL to capture' },
+          url: { type: 'string', description: 'URL to capture (http(s), localhost:3000, file:// or a path to an HTML file)' },
           name: { type: 'string', description: 'Screenshot name' },
           viewport: {
             type: 'object',
@@ -26,22 +59,23 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
               height: { type: 'number', default: 720 }
             }
           },
-          fullPage: { type: 'boolean', default: false },
-          outputDir: { type: 'string', default: './.screenshots/baseline' }
+          theme: { type: 'string', description: 'Theme to apply, e.g. light or dark' },
+          ...CAPTURE_SCHEMA
         },
         required: ['url', 'name']
       }
     },
     {
       name: 'compare_screenshots',
-      description: 'Compare two screenshots for visual regression',
+      description: 'Compare two screenshots for visual regression and write a diff image',
       inputSchema: {
         type: 'object',
         properties: {
           baseline: { type: 'string', description: 'Path to baseline image' },
           current: { type: 'string', description: 'Path to current image' },
-          threshold: { type: 'number', description: 'Difference threshold percentage', default: 0.1 },
-          outputDiff: { type: 'string', description: 'Path to save diff image' }
+          threshold: { type: 'number', description: 'Difference threshold percentage', default: DEFAULT_THRESHOLD },
+          colorThreshold: { type: 'number', description: 'Per-pixel colour sensitivity from 0 (strict) to 1', default: DEFAULT_COLOR_THRESHOLD },
+          outputDiff: { type: 'string', description: 'Path to save diff image (default: <DIFF_DIR>/<current>-diff.png)' }
         },
         required: ['baseline', 'current']
       }
@@ -64,12 +98,9 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
                 name: { type: 'string' }
               }
             },
-            default: [
-              { width: 375, height: 667, name: 'mobile' },
-              { width: 768, height: 1024, name: 'tablet' },
-              { width: 1920, height: 1080, name: 'desktop' }
-            ]
-          }
+            default: DEFAULT_VIEWPORTS
+          },
+          ...CAPTURE_SCHEMA
         },
         required: ['url', 'name']
       }
@@ -86,7 +117,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
             type: 'array',
             items: { type: 'string' },
             default: ['light', 'dark']
-          }
+          },
+          viewport: {
+            type: 'object',
+            properties: {
+              width: { type: 'number', default: 1280 },
+              height: { type: 'number', default: 720 }
+            }
+          },
+          ...CAPTURE_SCHEMA
         },
         required: ['url', 'name']
       }
@@ -97,7 +136,8 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       inputSchema: {
         type: 'object',
         properties: {
-          name: { type: 'string', description: 'Screenshot name to update' }
+          name: { type: 'string', description: 'Screenshot name to update' },
+          outputDir: OUTPUT_DIR_SCHEMA
         },
         required: ['name']
       }
@@ -105,50 +145,99 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
   ]
 }));
 
+function requireString(args: any, key: string): string {
+  if (typeof args?.[key] !== 'string' || !args[key]) {
+    throw new Error(`${key} is required`);
+  }
+  return args[key];
+}
+
+function captureOptions(args: any): Omit<CaptureOptions, 'viewport' | 'theme'> {
+  return {
+    url: requireString(args, 'url'),
+    fullPage: args.fullPage,
+    selector: args.selector,
+    waitForSelector: args.waitForSelector,
+    ignore: args.ignore
+  };
+}
+
+/**
+ * Capture every variant in one browser and store each against its baseline
+ */
+async function captureVariants(args: any, variants: Array<{ name: string; viewport?: Viewport; theme?: string }>) {
+  const dirs = screenshotDirs(args.outputDir);
+  const options = captureOptions(args);
+
+  const results: StoredCapture[] = await withBrowser(async (browser) => {
+    const stored: StoredCapture[] = [];
+    for (const variant of variants) {
+      const image = await capturePage(browser, { ...options, viewport: variant.viewport, theme: variant.theme });
+      stored.push(await saveCapture(dirs, variant.name, image, { threshold: args.threshold }));
+    }
+    return stored;
+  });
+
+  const summary = {
+    url: options.url,
+    captured: results.length,
+    baselines_created: results.filter(r => r.status === 'baseline_created').length,
+    passed: results.filter(r => r.status === 'passed').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    results
+  };
+  return {
+    content: [{ type: 'text', text: JSON.stringify(variants.length === 1 ? results[0] : summary, null, 2) }]
+  };
+}
+
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
-    const { name, arguments: args } = request.params;
+    const { name, arguments: args = {} } = request.params as { name: string; arguments?: any };
 
     switch (name) {
       case 'capture_screenshot':
-        return {
-          content: [{
-            type: 'text',
-            text: `Screenshot capture configured for: ${args?.url}\nName: ${args?.name}\nViewport: ${JSON.stringify(args?.viewport || { width: 1280, height: 720 })}`
-          }]
-        };
+        return await captureVariants(args, [
+          { name: requireString(args, 'name'), viewport: { ...DEFAULT_VIEWPORT, ...args.viewport }, theme: args.theme }
+        ]);
 
-      case 'compare_screenshots':
+      case 'compare_screenshots': {
+        const current = requireString(args, 'current');
+        const result = await compareScreenshots(requireString(args, 'baseline'), current, {
+          threshold: args.threshold,
+          colorThreshold: args.colorThreshold,
+          diffPath: args.outputDiff || join(screenshotDirs().diff, `${basename(current).replace(/\.png$/i, '')}-diff.png`)
+        });
         return {
-          content: [{
-            type: 'text',
-            text: `Screenshot comparison configured\nBaseline: ${args?.baseline}\nCurrent: ${args?.current}\nThreshold: ${args?.threshold || 0.1}%`
-          }]
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
         };
+      }
 
-      case 'capture_responsive':
-        return {
-          content: [{
-            type: 'text',
-            text: `Responsive capture configured for: ${args?.url}\nViewports: ${JSON.stringify(args?.viewports || ['mobile', 'tablet', 'desktop'])}`
-          }]
-        };
+      case 'capture_responsive': {
+        const base = requireString(args, 'name');
+        const viewports: Array<Viewport & { name?: string }> = args.viewports || DEFAULT_VIEWPORTS;
+        return await captureVariants(args, viewports.map(v => ({
+          name: `${base}-${v.name || `${v.width}x${v.height}`}`,
+          viewport: { width: v.width, height: v.height }
+        })));
+      }
 
-      case 'capture_themes':
-        return {
-          content: [{
-            type: 'text',
-            text: `Theme capture configured for: ${args?.url}\nThemes: ${JSON.stringify(args?.themes || ['light', 'dark'])}`
-          }]
-        };
+      case 'capture_themes': {
+        const base = requireString(args, 'name');
+        const themes: string[] = args.themes || ['light', 'dark'];
+        return await captureVariants(args, themes.map(theme => ({
+          name: `${base}-${theme}`,
+          viewport: { ...DEFAULT_VIEWPORT, ...args.viewport },
+          theme
+        })));
+      }
 
-      case 'update_baseline':
+      case 'update_baseline': {
+        const result = await promoteBaseline(screenshotDirs(args.outputDir), requireString(args, 'name'));
         return {
-          content: [{
-            type: 'text',
-            text: `Baseline update configured for: ${args?.name}`
-          }]
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
         };
+      }
 
       default:
         throw new Error(`Unknown tool: ${name}`);
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PNG } from 'pngjs';
+import { imageFileName, promoteBaseline, saveCapture, ScreenshotDirs, screenshotDirs } from './store.js';
+
+const png = (rgb: [number, number, number] = [255, 255, 255]) => {
+  const image = new PNG({ width: 8, height: 8 });
+  for (let i = 0; i < 64; i++) image.data.set([...rgb, 255], i * 4);
+  return PNG.sync.write(image);
+};
+
+describe('Screenshot Store', () => {
+  let root: string;
+  let dirs: ScreenshotDirs;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(join(tmpdir(), 'screenshot-store-'));
+    dirs = screenshotDirs(join(root, 'baseline'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('should derive directories from the baseline directory or the environment', () => {
+    expect(dirs).toEqual({ baseline: join(root, 'baseline'), current: join(root, 'current'), diff: join(root, 'diff') });
+    expect(screenshotDirs(undefined, { BASELINE_DIR: 'shots/base', DIFF_DIR: '/tmp/diffs' }, '/app')).toEqual({
+      baseline: '/app/shots/base',
+      current: '/app/shots/current',
+      diff: '/tmp/diffs'
+    });
+    expect(screenshotDirs(undefined, {}, '/app').baseline).toBe('/app/.screenshots/baseline');
+  });
+
+  it('should make file names safe', () => {
+    expect(imageFileName('Button / primary')).toBe('Button-primary.png');
+    expect(imageFileName('header-mobile.png')).toBe('header-mobile.png');
+    expect(() => imageFileName('///')).toThrow('Invalid screenshot name');
+  });
+
+  it('should create the baseline on first capture and compare afterwards', async () => {
+    const first = await saveCapture(dirs, 'card', png());
+    expect(first).toEqual({ name: 'card', status: 'baseline_created', path: join(root, 'baseline', 'card.png'), baseline: first.path });
+
+    const same = await saveCapture(dirs, 'card', png());
+    expect(same).toMatchObject({ status: 'passed', path: join(root, 'current', 'card.png') });
+
+    const changed = await saveCapture(dirs, 'card', png([0, 0, 0]));
+    expect(changed).toMatchObject({
+      status: 'failed',
+      comparison: { pixelDifference: 64, percentageDifference: 100, diffImagePath: join(root, 'diff', 'card-diff.png') }
+    });
+  });
+
+  it('should promote the current capture to baseline', async () => {
+    await saveCapture(dirs, 'card', png());
+    await saveCapture(dirs, 'card', png([0, 0, 0]));
+
+    expect(await promoteBaseline(dirs, 'card')).toEqual({ name: 'card', baseline: join(root, 'baseline', 'card.png'), replaced: true });
+    expect(await fs.readdir(join(root, 'current'))).toEqual([]);
+    expect(await fs.readdir(join(root, 'diff'))).toEqual([]);
+    expect((await saveCapture(dirs, 'card', png([0, 0, 0]))).status).toBe('passed');
+  });
+
+  it('should list available captures when promoting an unknown name', async () => {
+    await saveCapture(dirs, 'card', png());
+    await saveCapture(dirs, 'card', png());
+
+    await expect(promoteBaseline(dirs, 'button')).rejects.toThrow(`No current capture for button in ${dirs.current} (available: card)`);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Baseline, current and diff directories
+ *
+ * The first capture of a name becomes its baseline. Later captures go to
+ * the current directory and are compared with the baseline, writing a diff
+ * image; update_baseline promotes the current capture once a change is
+ * intended.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { compareScreenshots, ComparisonResult, CompareOptions } from './diff.js';
+
+export interface ScreenshotDirs {
+  baseline: string;
+  current: string;
+  diff: string;
+}
+
+export type CaptureStatus = 'baseline_created' | 'passed' | 'failed';
+
+export interface StoredCapture {
+  name: string;
+  status: CaptureStatus;
+  /** Where this capture was written */
+  path: string;
+  baseline: string;
+  comparison?: ComparisonResult;
+}
+
+export const DEFAULT_BASELINE_DIR = './.screenshots/baseline';
+
+/**
+ * Directories from BASELINE_DIR, CURRENT_DIR and DIFF_DIR; current and
+ * diff default to siblings of the baseline directory
+ */
+export function screenshotDirs(baselineDir?: string, env: NodeJS.ProcessEnv = process.env, cwd: string = process.cwd()): ScreenshotDirs {
+  const baseline = resolve(cwd, baselineDir || env.BASELINE_DIR || DEFAULT_BASELINE_DIR);
+  return {
+    baseline,
+    current: baselineDir || !env.CURRENT_DIR ? join(dirname(baseline), 'current') : resolve(cwd, env.CURRENT_DIR),
+    diff: baselineDir || !env.DIFF_DIR ? join(dirname(baseline), 'diff') : resolve(cwd, env.DIFF_DIR)
+  };
+}
+
+/**
+ * File name for a screenshot name: "Button / primary" -> "Button-primary.png"
+ */
+export function imageFileName(name: string): string {
+  const safe = name.trim().replace(/\.png$/i, '').replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '');
+  if (!safe) {
+    throw new Error(`Invalid screenshot name: ${JSON.stringify(name)}`);
+  }
+  return `${safe}.png`;
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+export async function saveCapture(
+  dirs: ScreenshotDirs,
+  name: string,
+  image: Buffer,
+  options: Omit<CompareOptions, 'diffPath'> = {}
+): Promise<StoredCapture> {
+  const file = imageFileName(name);
+  const baseline = join(dirs.baseline, file);
+
+  if (!(await exists(baseline))) {
+    await fs.mkdir(dirs.baseline, { recursive: true });
+    await fs.writeFile(baseline, image);
+    return { name, status: 'baseline_created', path: baseline, baseline };
+  }
+
+  const current = join(dirs.current, file);
+  await fs.mkdir(dirs.current, { recursive: true });
+  await fs.writeFile(current, image);
+
+  const diffPath = join(dirs.diff, file.replace(/\.png$/, '-diff.png'));
+  const comparison = await compareScreenshots(baseline, current, { ...options, diffPath });
+  return { name, status: comparison.passed ? 'passed' : 'failed', path: current, baseline, comparison };
+}
+
+/**
+ * Replace the baseline with the current capture and drop its diff image
+ */
+export async function promoteBaseline(dirs: ScreenshotDirs, name: string): Promise<{ name: string; baseline: string; replaced: boolean }> {
+  const file = imageFileName(name);
+  const current = join(dirs.current, file);
+
+  if (!(await exists(current))) {
+    const available = (await fs.readdir(dirs.current).catch(() => [] as string[])).filter(f => f.endsWith('.png'));
+    throw new Error(
+      `No current capture for ${name} in ${dirs.current}` +
+      (available.length > 0 ? ` (available: ${available.map(f => f.replace(/\.png$/, '')).join(', ')})` : '')
+    );
+  }
+
+  const baseline = join(dirs.baseline, file);
+  const replaced = await exists(baseline);
+  await fs.mkdir(dirs.baseline, { recursive: true });
+  // Copy rather than rename: the directories may be on different devices
+  await fs.copyFile(current, baseline);
+  await fs.rm(current);
+  await fs.rm(join(dirs.diff, file.replace(/\.png$/, '-diff.png')), { force: true });
+  return { name, baseline, replaced };
+}
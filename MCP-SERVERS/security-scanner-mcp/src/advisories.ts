@@ -0,0 +1,309 @@
+/**
+ * Local OSV advisory database
+ *
+ * Loads vendored OSV-format advisories (a JSON array, an `{ "vulns": [...] }`
+ * object, or a directory of per-advisory JSON files as found in the osv.dev
+ * ecosystem exports) and matches package versions against their ranges.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Severity } from './types.js';
+
+export const DEFAULT_ADVISORY_DATABASE = '.security-advisories.json';
+
+export type Ecosystem = 'npm' | 'PyPI';
+
+interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+}
+
+interface OsvAffected {
+  package: { ecosystem: string; name: string };
+  ranges?: Array<{ type: string; events: OsvEvent[] }>;
+  versions?: string[];
+}
+
+export interface OsvAdvisory {
+  id: string;
+  aliases?: string[];
+  summary?: string;
+  details?: string;
+  affected?: OsvAffected[];
+  severity?: Array<{ type: string; score: string }>;
+  database_specific?: { severity?: string };
+}
+
+export interface AdvisoryMatch {
+  advisory: OsvAdvisory;
+  fixedIn: string | null;
+}
+
+export interface AdvisorySeverity {
+  severity: Severity;
+  cvssScore: number | null;
+  cvssVector: string | null;
+}
+
+/**
+ * Normalize a package name the way its ecosystem compares them
+ */
+export function normalizePackageName(ecosystem: string, name: string): string {
+  if (ecosystem === 'PyPI') {
+    return name.toLowerCase().replace(/[-_.]+/g, '-');
+  }
+  return name;
+}
+
+const PRE_RELEASE_RANKS: Record<string, number> = {
+  dev: 0,
+  alpha: 1,
+  a: 1,
+  beta: 2,
+  b: 2,
+  pre: 3,
+  preview: 3,
+  rc: 3,
+  c: 3,
+};
+const RELEASE_RANK = 4;
+const POST_RANK = 5;
+
+function tokenize(version: string): Array<number | string> {
+  const core = version.trim().replace(/^v/i, '').split('+')[0].toLowerCase();
+  return (core.match(/\d+|[a-z]+/g) || []).map((token) => (/^\d+$/.test(token) ? Number(token) : token));
+}
+
+function wordRank(word: string): number {
+  return PRE_RELEASE_RANKS[word] ?? POST_RANK;
+}
+
+/**
+ * Compare two versions. Handles semver (including pre-releases) and the
+ * common PEP 440 forms (`1.0rc1`, `1.0.post2`, `2.0.dev1`).
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  const length = Math.max(left.length, right.length);
+
+  for (let i = 0; i < length; i++) {
+    const l = left[i];
+    const r = right[i];
+    if (l === r) continue;
+
+    // Missing tokens sit between pre-release and post-release markers and
+    // below any further numeric component
+    const lRank = l === undefined ? RELEASE_RANK : typeof l === 'string' ? wordRank(l) : null;
+    const rRank = r === undefined ? RELEASE_RANK : typeof r === 'string' ? wordRank(r) : null;
+
+    if (lRank === null && rRank === null) return (l as number) - (r as number);
+    if (lRank === null) return 1;
+    if (rRank === null) return -1;
+    if (lRank !== rRank) return lRank - rRank;
+    if (typeof l === 'string' && typeof r === 'string') return l < r ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Check a version against one OSV `affected` entry, returning whether it is
+ * affected and the lowest fixing version above it
+ */
+export function matchAffected(affected: OsvAffected, version: string): AdvisoryMatch['fixedIn'] | false {
+  let isAffected = (affected.versions || []).includes(version);
+  let fixedIn: string | null = null;
+
+  for (const range of affected.ranges || []) {
+    if (range.type !== 'SEMVER' && range.type !== 'ECOSYSTEM') continue;
+
+    const events = [...range.events].sort((x, y) => {
+      const xv = x.introduced ?? x.fixed ?? x.last_affected ?? '0';
+      const yv = y.introduced ?? y.fixed ?? y.last_affected ?? '0';
+      return compareVersions(xv, yv);
+    });
+
+    let inRange = false;
+    let rangeFix: string | null = null;
+    for (const event of events) {
+      if (event.introduced !== undefined && (event.introduced === '0' || compareVersions(version, event.introduced) >= 0)) {
+        inRange = true;
+      } else if (event.fixed !== undefined) {
+        if (compareVersions(version, event.fixed) >= 0) {
+          inRange = false;
+        } else if (inRange && rangeFix === null) {
+          rangeFix = event.fixed;
+        }
+      } else if (event.last_affected !== undefined && compareVersions(version, event.last_affected) > 0) {
+        inRange = false;
+      }
+    }
+
+    if (inRange) {
+      isAffected = true;
+      if (rangeFix && (fixedIn === null || compareVersions(rangeFix, fixedIn) < 0)) {
+        fixedIn = rangeFix;
+      }
+    }
+  }
+
+  return isAffected ? fixedIn : false;
+}
+
+const CVSS_WEIGHTS = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  CIA: { H: 0.56, L: 0.22, N: 0 },
+} as const;
+
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0 ? scaled / 100000 : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+/**
+ * Calculate a CVSS v3.x base score from its vector string
+ */
+export function cvssV3BaseScore(vector: string): number | null {
+  const metrics: Record<string, string> = {};
+  for (const part of vector.split('/')) {
+    const [key, value] = part.split(':');
+    if (key && value) metrics[key] = value;
+  }
+
+  const av = CVSS_WEIGHTS.AV[metrics.AV as keyof typeof CVSS_WEIGHTS.AV];
+  const ac = CVSS_WEIGHTS.AC[metrics.AC as keyof typeof CVSS_WEIGHTS.AC];
+  const ui = CVSS_WEIGHTS.UI[metrics.UI as keyof typeof CVSS_WEIGHTS.UI];
+  const c = CVSS_WEIGHTS.CIA[metrics.C as keyof typeof CVSS_WEIGHTS.CIA];
+  const i = CVSS_WEIGHTS.CIA[metrics.I as keyof typeof CVSS_WEIGHTS.CIA];
+  const a = CVSS_WEIGHTS.CIA[metrics.A as keyof typeof CVSS_WEIGHTS.CIA];
+  const scope = metrics.S;
+  if ([av, ac, ui, c, i, a].some((weight) => weight === undefined) || (scope !== 'U' && scope !== 'C')) {
+    return null;
+  }
+
+  const changed = scope === 'C';
+  const prWeights: Record<string, number> = changed ? { N: 0.85, L: 0.68, H: 0.5 } : { N: 0.85, L: 0.62, H: 0.27 };
+  const pr = prWeights[metrics.PR];
+  if (pr === undefined) return null;
+
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  const exploitability = 8.22 * av * ac * pr * ui;
+
+  if (impact <= 0) return 0;
+  return changed
+    ? roundUp(Math.min(1.08 * (impact + exploitability), 10))
+    : roundUp(Math.min(impact + exploitability, 10));
+}
+
+export function severityFromScore(score: number): Severity {
+  if (score >= 9) return 'critical';
+  if (score >= 7) return 'high';
+  if (score >= 4) return 'medium';
+  return 'low';
+}
+
+/**
+ * Resolve an advisory's severity, preferring a CVSS v3 vector and falling
+ * back to the database-specific label (GHSA uses LOW/MODERATE/HIGH/CRITICAL)
+ */
+export function advisorySeverity(advisory: OsvAdvisory): AdvisorySeverity {
+  for (const entry of advisory.severity || []) {
+    if (entry.type !== 'CVSS_V3') continue;
+    const score = cvssV3BaseScore(entry.score);
+    if (score !== null) {
+      return { severity: severityFromScore(score), cvssScore: score, cvssVector: entry.score };
+    }
+  }
+
+  const label = advisory.database_specific?.severity?.toLowerCase();
+  const mapped: Record<string, Severity> = { low: 'low', moderate: 'medium', medium: 'medium', high: 'high', critical: 'critical' };
+  return { severity: (label && mapped[label]) || 'medium', cvssScore: null, cvssVector: null };
+}
+
+/**
+ * In-memory index of advisories keyed by ecosystem and package name
+ */
+export class AdvisoryDatabase {
+  private index = new Map<string, Array<{ advisory: OsvAdvisory; affected: OsvAffected }>>();
+  readonly size: number;
+
+  constructor(advisories: OsvAdvisory[]) {
+    for (const advisory of advisories) {
+      for (const affected of advisory.affected || []) {
+        const key = `${affected.package.ecosystem}:${normalizePackageName(affected.package.ecosystem, affected.package.name)}`;
+        const entries = this.index.get(key) || [];
+        entries.push({ advisory, affected });
+        this.index.set(key, entries);
+      }
+    }
+    this.size = advisories.length;
+  }
+
+  /**
+   * Find advisories affecting a package version
+   */
+  lookup(ecosystem: Ecosystem, name: string, version: string): AdvisoryMatch[] {
+    const entries = this.index.get(`${ecosystem}:${normalizePackageName(ecosystem, name)}`) || [];
+    const matches = new Map<string, AdvisoryMatch>();
+
+    for (const { advisory, affected } of entries) {
+      const fixedIn = matchAffected(affected, version);
+      if (fixedIn === false) continue;
+      const existing = matches.get(advisory.id);
+      if (!existing || (fixedIn && (!existing.fixedIn || compareVersions(fixedIn, existing.fixedIn) < 0))) {
+        matches.set(advisory.id, { advisory, fixedIn });
+      }
+    }
+
+    return [...matches.values()];
+  }
+}
+
+function parseAdvisoryJson(content: string, source: string): OsvAdvisory[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid advisory file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (Array.isArray(data)) return data as OsvAdvisory[];
+  if (data && typeof data === 'object' && Array.isArray((data as { vulns?: unknown }).vulns)) {
+    return (data as { vulns: OsvAdvisory[] }).vulns;
+  }
+  if (data && typeof data === 'object' && typeof (data as OsvAdvisory).id === 'string') {
+    return [data as OsvAdvisory];
+  }
+  throw new Error(`Invalid advisory file ${source}: expected OSV records`);
+}
+
+/**
+ * Load the advisory database from a JSON file or a directory of JSON files
+ */
+export async function loadAdvisoryDatabase(databasePath: string): Promise<AdvisoryDatabase> {
+  let stat;
+  try {
+    stat = await fs.stat(databasePath);
+  } catch {
+    throw new Error(
+      `Advisory database not found at ${databasePath}. Vendor OSV advisories (e.g. the osv.dev npm/PyPI exports) and pass advisoryDatabase.`
+    );
+  }
+
+  if (!stat.isDirectory()) {
+    return new AdvisoryDatabase(parseAdvisoryJson(await fs.readFile(databasePath, 'utf-8'), databasePath));
+  }
+
+  const advisories: OsvAdvisory[] = [];
+  const entries = await fs.readdir(databasePath);
+  for (const entry of entries.filter((name) => name.endsWith('.json')).sort()) {
+    const filePath = path.join(databasePath, entry);
+    advisories.push(...parseAdvisoryJson(await fs.readFile(filePath, 'utf-8'), filePath));
+  }
+  return new AdvisoryDatabase(advisories);
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseOwaspCategory, scanCodePatterns, scanSource } from './code-patterns.js';
+import { toSarif } from './sarif.js';
+
+function ruleIds(file: string, source: string): string[] {
+  return scanSource(file, source).map((finding) => finding.ruleId);
+}
+
+describe('Code Pattern Scanning', () => {
+  describe('Injection (A03)', () => {
+    it('should flag SQL built by concatenation or interpolation', () => {
+      const findings = scanSource(
+        'users.ts',
+        [
+          'db.query("SELECT * FROM users WHERE id = " + req.params.id);',
+          'db.query(`DELETE FROM sessions WHERE user = ${userId}`);',
+        ].join('\n')
+      );
+
+      expect(findings.map((finding) => finding.ruleId)).toEqual(['sql-injection', 'sql-injection']);
+      expect(findings[0]).toMatchObject({ category: 'A03:2021 - Injection', cwe: 'CWE-89', line: 1, column: 10 });
+      expect(findings[1].line).toBe(2);
+    });
+
+    it('should not flag parameterized or tagged SQL', () => {
+      expect(
+        ruleIds(
+          'users.ts',
+          [
+            'db.query("SELECT * FROM users WHERE id = $1", [id]);',
+            'sql`SELECT * FROM users WHERE id = ${id}`;',
+            'const greeting = "Hello " + name;',
+          ].join('\n')
+        )
+      ).toEqual([]);
+    });
+
+    it('should report a long concatenation chain once', () => {
+      expect(ruleIds('q.ts', 'const q = "SELECT * FROM t WHERE a = " + a + " AND b = " + b + " ORDER BY c";')).toEqual([
+        'sql-injection',
+      ]);
+    });
+
+    it('should flag eval, new Function and string timers', () => {
+      expect(
+        ruleIds('dyn.js', 'eval(input);\nconst fn = new Function("a", body);\nsetTimeout("run()", 10);\nsetTimeout(run, 10);')
+      ).toEqual(['code-injection', 'code-injection', 'code-injection']);
+    });
+
+    it('should flag shell commands built from variables', () => {
+      expect(
+        ruleIds(
+          'cmd.ts',
+          'child_process.exec(`git log ${branch}`);\nexecSync("ls " + dir);\nexecSync("ls -la");\n/a/.exec(text);'
+        )
+      ).toEqual(['command-injection', 'command-injection']);
+    });
+
+    it('should flag dangerouslySetInnerHTML and innerHTML assignments', () => {
+      const findings = scanSource(
+        'Comment.tsx',
+        'export const Comment = ({ html }) => <div dangerouslySetInnerHTML={{ __html: html }} />;\nel.innerHTML = html;\nel.innerHTML = "";'
+      );
+
+      expect(findings.map((finding) => [finding.ruleId, finding.line])).toEqual([
+        ['xss', 1],
+        ['xss', 2],
+      ]);
+    });
+  });
+
+  describe('Broken Access Control (A01)', () => {
+    it('should flag redirects to request input, directly or through a variable', () => {
+      const findings = scanSource(
+        'auth.ts',
+        [
+          'app.get("/login", (req, res) => res.redirect(req.query.next));',
+          'const { returnTo } = req.body;',
+          'res.redirect(302, returnTo);',
+          'res.redirect("/home");',
+          'window.location.href = new URLSearchParams(location.search).get("to");',
+        ].join('\n')
+      );
+
+      expect(findings.map((finding) => [finding.ruleId, finding.line])).toEqual([
+        ['open-redirect', 1],
+        ['open-redirect', 3],
+        ['open-redirect', 5],
+      ]);
+      expect(findings[0].category).toBe('A01:2021 - Broken Access Control');
+    });
+  });
+
+  describe('Cryptographic Failures (A02)', () => {
+    it('should flag disabled TLS verification', () => {
+      expect(
+        ruleIds(
+          'client.ts',
+          'new https.Agent({ rejectUnauthorized: false });\nprocess.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";\nnew https.Agent({ rejectUnauthorized: true });'
+        )
+      ).toEqual(['tls-verification-disabled', 'tls-verification-disabled']);
+    });
+
+    it('should flag weak hashes and ciphers', () => {
+      expect(
+        ruleIds(
+          'crypto.ts',
+          [
+            'crypto.createHash("md5").update(password);',
+            'createHash("sha256");',
+            'crypto.createCipheriv("aes-128-ecb", key, null);',
+            'crypto.createCipheriv("aes-256-gcm", key, iv);',
+            'crypto.createCipher("aes192", secret);',
+          ].join('\n')
+        )
+      ).toEqual(['weak-crypto', 'weak-crypto', 'weak-crypto']);
+    });
+
+    it('should flag Math.random() only for security values', () => {
+      expect(
+        ruleIds('token.ts', 'const resetToken = Math.random().toString(36);\nconst jitter = Math.random() * 100;')
+      ).toEqual(['insecure-random']);
+    });
+  });
+
+  describe('Filtering', () => {
+    it('should restrict to selected patterns and categories', () => {
+      const source = 'eval(x);\nnew https.Agent({ rejectUnauthorized: false });';
+
+      expect(scanSource('a.ts', source, { patterns: ['code-injection'] }).map((f) => f.ruleId)).toEqual([
+        'code-injection',
+      ]);
+      expect(scanSource('a.ts', source, { categories: ['A02:2021'] }).map((f) => f.ruleId)).toEqual([
+        'tls-verification-disabled',
+      ]);
+      expect(scanSource('a.ts', 'el.innerHTML = x;', { minSeverity: 'high' })).toEqual([]);
+    });
+
+    it('should parse OWASP categories strictly', () => {
+      expect(['A03', 'a03', 'A03:2021', 'A03:2021 - Injection'].map(parseOwaspCategory)).toEqual(['A03', 'A03', 'A03', 'A03']);
+      expect(['A1:', 'Axx', 'A030', 'A11', 'Injection'].map(parseOwaspCategory)).toEqual([null, null, null, null, null]);
+    });
+  });
+
+  describe('SARIF Export', () => {
+    it('should produce a SARIF 2.1.0 log with rules and locations', () => {
+      const sarif = toSarif(scanSource('src/db.ts', 'db.query("SELECT * FROM t WHERE id=" + id);\neval(code);'));
+      const run = sarif.runs[0];
+
+      expect(sarif.version).toBe('2.1.0');
+      expect(run.tool.driver.rules.map((rule) => rule.id)).toEqual(['sql-injection', 'code-injection']);
+      expect(run.tool.driver.rules[0].properties.tags).toContain('A03:2021 - Injection');
+      expect(run.results[1]).toMatchObject({
+        ruleId: 'code-injection',
+        ruleIndex: 1,
+        level: 'error',
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'src/db.ts' }, region: { startLine: 2, startColumn: 1 } } }],
+      });
+    });
+  });
+
+  describe('Project Scan', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'code-scan-'));
+      await fs.mkdir(path.join(projectDir, 'src'));
+      await fs.writeFile(path.join(projectDir, 'src', 'api.ts'), 'export const run = (code: string) => eval(code);\n');
+      await fs.writeFile(path.join(projectDir, 'src', 'types.d.ts'), 'declare function eval(x: string): unknown;\n');
+      await fs.writeFile(path.join(projectDir, 'README.md'), 'eval(x)');
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should scan source files only', async () => {
+      const result = await scanCodePatterns(projectDir);
+
+      expect(result.filesScanned).toBe(1);
+      expect(result.issues.map((issue) => `${issue.file}:${issue.line}`)).toEqual(['src/api.ts:1']);
+    });
+
+    it('should reject unknown pattern types', async () => {
+      await expect(scanCodePatterns(projectDir, { patterns: ['csrf'] })).rejects.toThrow('Unknown pattern types: csrf');
+    });
+  });
+});
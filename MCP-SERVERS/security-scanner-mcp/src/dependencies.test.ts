@@ -0,0 +1,358 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  AdvisoryDatabase,
+  OsvAdvisory,
+  advisorySeverity,
+  compareVersions,
+  cvssV3BaseScore,
+  loadAdvisoryDatabase,
+  matchAffected,
+} from './advisories.js';
+import { parsePackageLock, parsePnpmLock, parseRequirements, parseYarnLock } from './lockfiles.js';
+import { scanDependencies, scanGraph } from './dependencies.js';
+import { assessRisk, dependencyKey, renderReport, updateFixed } from './report.js';
+
+const LODASH_ADVISORY: OsvAdvisory = {
+  id: 'GHSA-35jh-r3h4-6jhm',
+  aliases: ['CVE-2021-23337'],
+  summary: 'Command Injection in lodash',
+  affected: [
+    {
+      package: { ecosystem: 'npm', name: 'lodash' },
+      ranges: [{ type: 'SEMVER', events: [{ introduced: '0' }, { fixed: '4.17.21' }] }],
+    },
+  ],
+  severity: [{ type: 'CVSS_V3', score: 'CVSS:3.1/AV:N/AC:L/PR:H/UI:N/S:U/C:H/I:H/A:H' }],
+};
+
+const REQUESTS_ADVISORY: OsvAdvisory = {
+  id: 'PYSEC-2023-74',
+  summary: 'Proxy-Authorization header leak',
+  affected: [
+    {
+      package: { ecosystem: 'PyPI', name: 'requests' },
+      ranges: [{ type: 'ECOSYSTEM', events: [{ introduced: '2.3.0' }, { fixed: '2.31.0' }] }],
+    },
+  ],
+  database_specific: { severity: 'MODERATE' },
+};
+
+describe('Dependency Scanning', () => {
+  describe('Version Comparison', () => {
+    it('should order semver versions and pre-releases', () => {
+      expect(compareVersions('4.17.20', '4.17.21')).toBeLessThan(0);
+      expect(compareVersions('1.10.0', '1.9.0')).toBeGreaterThan(0);
+      expect(compareVersions('1.0.0-beta.2', '1.0.0')).toBeLessThan(0);
+      expect(compareVersions('1.0.0-alpha', '1.0.0-beta')).toBeLessThan(0);
+      expect(compareVersions('v2.0.0', '2.0.0')).toBe(0);
+    });
+
+    it('should order PEP 440 versions', () => {
+      expect(compareVersions('2.0rc1', '2.0')).toBeLessThan(0);
+      expect(compareVersions('2.0.dev1', '2.0a1')).toBeLessThan(0);
+      expect(compareVersions('2.0.post1', '2.0')).toBeGreaterThan(0);
+      expect(compareVersions('2.0.post1', '2.0.1')).toBeLessThan(0);
+    });
+  });
+
+  describe('OSV Range Matching', () => {
+    it('should report the fixing version for affected releases', () => {
+      const affected = LODASH_ADVISORY.affected![0];
+      expect(matchAffected(affected, '4.17.20')).toBe('4.17.21');
+      expect(matchAffected(affected, '4.17.21')).toBe(false);
+    });
+
+    it('should handle multiple ranges and last_affected', () => {
+      const affected = {
+        package: { ecosystem: 'npm', name: 'pkg' },
+        ranges: [
+          {
+            type: 'SEMVER',
+            events: [{ introduced: '2.0.0' }, { fixed: '2.3.0' }, { introduced: '1.0.0' }, { fixed: '1.5.0' }],
+          },
+          { type: 'SEMVER', events: [{ introduced: '3.0.0' }, { last_affected: '3.1.0' }] },
+        ],
+      };
+
+      expect(matchAffected(affected, '1.2.0')).toBe('1.5.0');
+      expect(matchAffected(affected, '1.7.0')).toBe(false);
+      expect(matchAffected(affected, '2.1.0')).toBe('2.3.0');
+      expect(matchAffected(affected, '3.1.0')).toBe(null);
+      expect(matchAffected(affected, '3.2.0')).toBe(false);
+    });
+
+    it('should match explicit version lists', () => {
+      const affected = { package: { ecosystem: 'npm', name: 'pkg' }, versions: ['0.0.1'] };
+      expect(matchAffected(affected, '0.0.1')).toBe(null);
+    });
+  });
+
+  describe('Severity', () => {
+    it('should compute CVSS v3 base scores', () => {
+      expect(cvssV3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toBe(9.8);
+      expect(cvssV3BaseScore('CVSS:3.1/AV:N/AC:L/PR:H/UI:N/S:U/C:H/I:H/A:H')).toBe(7.2);
+      expect(cvssV3BaseScore('CVSS:3.1/AV:N/AC:L/PR:N/UI:R/S:C/C:L/I:L/A:N')).toBe(6.1);
+      expect(cvssV3BaseScore('not a vector')).toBeNull();
+    });
+
+    it('should fall back to database-specific severity labels', () => {
+      expect(advisorySeverity(LODASH_ADVISORY)).toMatchObject({ severity: 'high', cvssScore: 7.2 });
+      expect(advisorySeverity(REQUESTS_ADVISORY)).toEqual({ severity: 'medium', cvssScore: null, cvssVector: null });
+    });
+  });
+
+  describe('Lockfile Parsing', () => {
+    it('should resolve nested package-lock v3 dependencies', () => {
+      const graph = parsePackageLock(
+        'package-lock.json',
+        JSON.stringify({
+          lockfileVersion: 3,
+          packages: {
+            '': { dependencies: { express: '^4.0.0' }, devDependencies: { jest: '^29.0.0' } },
+            'node_modules/express': { version: '4.18.0', dependencies: { lodash: '^4.0.0' } },
+            'node_modules/express/node_modules/lodash': { version: '4.17.20' },
+            'node_modules/lodash': { version: '4.17.21', dev: true },
+            'node_modules/jest': { version: '29.0.0', dev: true, dependencies: { lodash: '^4.0.0' } },
+          },
+        })
+      );
+
+      expect(graph.roots.production).toEqual(['node_modules/express']);
+      expect(graph.nodes.get('node_modules/express')!.dependencies).toEqual(['node_modules/express/node_modules/lodash']);
+      expect(graph.nodes.get('node_modules/jest')!.dependencies).toEqual(['node_modules/lodash']);
+    });
+
+    it('should read package-lock v1 trees', () => {
+      const graph = parsePackageLock(
+        'package-lock.json',
+        JSON.stringify({
+          lockfileVersion: 1,
+          dependencies: {
+            express: { version: '4.18.0', requires: { lodash: '^4.0.0' } },
+            lodash: { version: '4.17.20' },
+          },
+        })
+      );
+
+      expect(graph.roots.production).toEqual(['node_modules/express', 'node_modules/lodash']);
+      expect(graph.nodes.get('node_modules/express')!.dependencies).toEqual(['node_modules/lodash']);
+    });
+
+    it('should parse pnpm v6 and v9 lockfiles', () => {
+      const v6 = parsePnpmLock(
+        'pnpm-lock.yaml',
+        `lockfileVersion: '6.0'
+importers:
+  .:
+    dependencies:
+      express:
+        specifier: ^4.0.0
+        version: 4.18.0
+packages:
+  /express@4.18.0:
+    dependencies:
+      lodash: 4.17.20
+  /lodash@4.17.20:
+    dev: false
+`
+      );
+      expect(v6.roots.production).toEqual(['express@4.18.0']);
+      expect(v6.nodes.get('express@4.18.0')!.dependencies).toEqual(['lodash@4.17.20']);
+
+      const v9 = parsePnpmLock(
+        'pnpm-lock.yaml',
+        `lockfileVersion: '9.0'
+importers:
+  .:
+    devDependencies:
+      '@scope/tool':
+        specifier: ^1.0.0
+        version: 1.0.0(react@18.2.0)
+packages:
+  '@scope/tool@1.0.0':
+    resolution: {integrity: sha512-x}
+  lodash@4.17.20:
+    resolution: {integrity: sha512-y}
+snapshots:
+  '@scope/tool@1.0.0(react@18.2.0)':
+    dependencies:
+      lodash: 4.17.20
+  lodash@4.17.20: {}
+`
+      );
+      expect(v9.roots.development).toEqual(['@scope/tool@1.0.0']);
+      expect(v9.nodes.get('@scope/tool@1.0.0')!.dependencies).toEqual(['lodash@4.17.20']);
+    });
+
+    it('should parse classic and berry yarn lockfiles', () => {
+      const manifest = { dependencies: { express: '^4.0.0' } };
+      const classic = parseYarnLock(
+        'yarn.lock',
+        `# yarn lockfile v1
+
+express@^4.0.0:
+  version "4.18.0"
+  dependencies:
+    lodash "^4.17.0"
+
+lodash@^4.17.0, lodash@^4.17.15:
+  version "4.17.20"
+`,
+        manifest
+      );
+      expect(classic.roots.production).toEqual(['express@4.18.0']);
+      expect(classic.nodes.get('express@4.18.0')!.dependencies).toEqual(['lodash@4.17.20']);
+
+      const berry = parseYarnLock(
+        'yarn.lock',
+        `__metadata:
+  version: 6
+
+"express@npm:^4.0.0":
+  version: 4.18.0
+  dependencies:
+    lodash: ^4.17.0
+
+"lodash@npm:^4.17.0":
+  version: 4.17.20
+`,
+        manifest
+      );
+      expect(berry.roots.production).toEqual(['express@4.18.0']);
+      expect(berry.nodes.get('express@4.18.0')!.dependencies).toEqual(['lodash@4.17.20']);
+    });
+
+    it('should parse pinned requirements and report unpinned ones', () => {
+      const { graph, unpinned } = parseRequirements(
+        'requirements.txt',
+        '# deps\nrequests[security]==2.28.0 ; python_version > "3.7"\nflask>=2.0\n-r dev.txt\n'
+      );
+
+      expect([...graph.nodes.keys()]).toEqual(['requests@2.28.0']);
+      expect(unpinned).toEqual(['flask']);
+    });
+  });
+
+  describe('Advisory Matching', () => {
+    it('should trace findings back through the dependency path', () => {
+      const graph = parsePackageLock(
+        'package-lock.json',
+        JSON.stringify({
+          packages: {
+            '': { dependencies: { express: '^4.0.0' } },
+            'node_modules/express': { version: '4.18.0', dependencies: { lodash: '^4.0.0' } },
+            'node_modules/lodash': { version: '4.17.20' },
+          },
+        })
+      );
+      const { findings } = scanGraph(graph, new AdvisoryDatabase([LODASH_ADVISORY]));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0]).toMatchObject({
+        package: 'lodash',
+        advisory: 'GHSA-35jh-r3h4-6jhm',
+        aliases: ['CVE-2021-23337'],
+        fixedIn: '4.17.21',
+        severity: 'high',
+        dependencyPath: ['express@4.18.0', 'lodash@4.17.20'],
+        development: false,
+      });
+    });
+
+    it('should skip development-only packages in production mode', () => {
+      const graph = parsePackageLock(
+        'package-lock.json',
+        JSON.stringify({
+          packages: {
+            '': { devDependencies: { lodash: '^4.0.0' } },
+            'node_modules/lodash': { version: '4.17.20', dev: true },
+          },
+        })
+      );
+      const database = new AdvisoryDatabase([LODASH_ADVISORY]);
+
+      expect(scanGraph(graph, database).findings[0].development).toBe(true);
+      expect(scanGraph(graph, database, { production: true }).findings).toHaveLength(0);
+    });
+
+    it('should normalize PyPI package names', () => {
+      const { graph } = parseRequirements('requirements.txt', 'Requests==2.28.0\n');
+      const { findings } = scanGraph(graph, new AdvisoryDatabase([REQUESTS_ADVISORY]));
+
+      expect(findings.map((finding) => finding.fixedIn)).toEqual(['2.31.0']);
+    });
+  });
+
+  describe('Project Scan', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dependency-scan-'));
+      await fs.mkdir(path.join(projectDir, 'advisories'));
+      await fs.mkdir(path.join(projectDir, 'api'));
+      await fs.writeFile(path.join(projectDir, 'advisories', 'GHSA-35jh-r3h4-6jhm.json'), JSON.stringify(LODASH_ADVISORY));
+      await fs.writeFile(path.join(projectDir, 'advisories', 'PYSEC-2023-74.json'), JSON.stringify(REQUESTS_ADVISORY));
+      await fs.writeFile(
+        path.join(projectDir, 'package-lock.json'),
+        JSON.stringify({
+          packages: {
+            '': { dependencies: { lodash: '^4.0.0' } },
+            'node_modules/lodash': { version: '4.17.20' },
+          },
+        })
+      );
+      await fs.writeFile(path.join(projectDir, 'api', 'requirements.txt'), 'requests==2.28.0\n');
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should scan all lockfiles against a directory database', async () => {
+      const database = await loadAdvisoryDatabase(path.join(projectDir, 'advisories'));
+      const result = await scanDependencies(projectDir, database);
+
+      expect(database.size).toBe(2);
+      expect(result.lockfiles).toEqual(['api/requirements.txt', 'package-lock.json']);
+      expect(result.dependenciesScanned).toBe(2);
+      expect(result.vulnerabilities).toEqual({ critical: 0, high: 1, medium: 1, low: 0 });
+    });
+
+    it('should fail clearly when the database is missing', async () => {
+      await expect(loadAdvisoryDatabase(path.join(projectDir, 'missing.json'))).rejects.toThrow(
+        'Advisory database not found'
+      );
+    });
+
+    it('should aggregate findings into reports and risk scores', async () => {
+      const database = await loadAdvisoryDatabase(path.join(projectDir, 'advisories'));
+      const results = { secrets: null, dependencies: await scanDependencies(projectDir, database), codePatterns: null };
+
+      expect(assessRisk(results)).toMatchObject({ score: 13, level: 'low' });
+      const markdown = renderReport(results, 'markdown');
+      expect(markdown).toContain('## Vulnerable Dependencies');
+      expect(markdown).toContain('| high | lodash@4.17.20 | GHSA-35jh-r3h4-6jhm, CVE-2021-23337 | 7.2 | 4.17.21 | lodash@4.17.20 |');
+      expect(renderReport(results, 'html')).toContain('<td>lodash@4.17.20</td>');
+    });
+
+    it('should report findings that a rescan no longer finds as fixed', async () => {
+      const database = await loadAdvisoryDatabase(path.join(projectDir, 'advisories'));
+      const before = await scanDependencies(projectDir, database);
+      await fs.writeFile(path.join(projectDir, 'api', 'requirements.txt'), 'requests==2.31.0\n');
+      const after = await scanDependencies(projectDir, database);
+
+      const fixed = updateFixed([], before.details, after.details, dependencyKey);
+      expect(fixed.map((finding) => `${finding.package}@${finding.version}`)).toEqual(['requests@2.28.0']);
+      expect(updateFixed(fixed, after.details, before.details, dependencyKey)).toEqual([]);
+
+      const results = { secrets: null, dependencies: after, codePatterns: null };
+      const markdown = renderReport(results, 'markdown', { secrets: [], dependencies: fixed, codePatterns: [] });
+      expect(markdown).toContain('## Fixed Since Previous Scan');
+      expect(markdown).toContain('| medium | dependencies | requests@2.28.0 (PYSEC-2023-74) | api/requirements.txt |');
+      expect(renderReport(results, 'markdown')).not.toContain('Fixed Since Previous Scan');
+    });
+  });
+});
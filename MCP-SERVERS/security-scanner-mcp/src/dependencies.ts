@@ -0,0 +1,147 @@
+/**
+ * Offline dependency vulnerability scanning
+ *
+ * Finds lockfiles under the project, resolves every installed package
+ * version and matches it against the local advisory database.
+ */
+
+import { AdvisoryDatabase, advisorySeverity } from './advisories.js';
+import { DependencyGraph, LOCKFILE_NAMES, parseLockfile } from './lockfiles.js';
+import { walkProjectFiles } from './files.js';
+import { Severity, meetsSeverity } from './types.js';
+
+export interface DependencyFinding {
+  package: string;
+  version: string;
+  ecosystem: string;
+  lockfile: string;
+  advisory: string;
+  aliases: string[];
+  title: string;
+  severity: Severity;
+  cvssScore: number | null;
+  cvssVector: string | null;
+  fixedIn: string | null;
+  dependencyPath: string[];
+  development: boolean;
+}
+
+export interface DependencyScanOptions {
+  production?: boolean;
+  exclude?: string[];
+  minSeverity?: Severity;
+}
+
+export interface DependencyScanResult {
+  lockfiles: string[];
+  dependenciesScanned: number;
+  unpinned: string[];
+  vulnerabilities: Record<Severity, number>;
+  details: DependencyFinding[];
+}
+
+/**
+ * Breadth-first walk from the roots, recording the shortest path to each node
+ */
+function shortestPaths(graph: DependencyGraph, roots: string[]): Map<string, string[]> {
+  const paths = new Map<string, string[]>();
+  const queue: string[] = [];
+
+  for (const root of roots) {
+    if (!paths.has(root) && graph.nodes.has(root)) {
+      paths.set(root, [root]);
+      queue.push(root);
+    }
+  }
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const node = graph.nodes.get(id)!;
+    for (const dependency of node.dependencies) {
+      if (paths.has(dependency) || !graph.nodes.has(dependency)) continue;
+      paths.set(dependency, [...paths.get(id)!, dependency]);
+      queue.push(dependency);
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Match one dependency graph against the advisory database
+ */
+export function scanGraph(
+  graph: DependencyGraph,
+  database: AdvisoryDatabase,
+  options: DependencyScanOptions = {}
+): { findings: DependencyFinding[]; scanned: number } {
+  const productionPaths = shortestPaths(graph, graph.roots.production);
+  const developmentPaths = shortestPaths(graph, graph.roots.development);
+  const label = (id: string) => {
+    const node = graph.nodes.get(id)!;
+    return `${node.name}@${node.version}`;
+  };
+
+  const findings: DependencyFinding[] = [];
+  let scanned = 0;
+
+  for (const node of graph.nodes.values()) {
+    const productionPath = productionPaths.get(node.id);
+    // Packages unreachable from any root are kept; we cannot prove they are dev-only
+    const development = !productionPath && developmentPaths.has(node.id);
+    if (options.production && development) continue;
+    scanned++;
+
+    const dependencyPath = (productionPath || developmentPaths.get(node.id) || [node.id]).map(label);
+
+    for (const { advisory, fixedIn } of database.lookup(graph.ecosystem, node.name, node.version)) {
+      const { severity, cvssScore, cvssVector } = advisorySeverity(advisory);
+      if (options.minSeverity && !meetsSeverity(severity, options.minSeverity)) continue;
+
+      findings.push({
+        package: node.name,
+        version: node.version,
+        ecosystem: graph.ecosystem,
+        lockfile: graph.lockfile,
+        advisory: advisory.id,
+        aliases: advisory.aliases || [],
+        title: advisory.summary || advisory.details?.split('\n')[0] || advisory.id,
+        severity,
+        cvssScore,
+        cvssVector,
+        fixedIn,
+        dependencyPath,
+        development,
+      });
+    }
+  }
+
+  return { findings, scanned };
+}
+
+/**
+ * Scan every supported lockfile under the project root
+ */
+export async function scanDependencies(
+  root: string,
+  database: AdvisoryDatabase,
+  options: DependencyScanOptions = {}
+): Promise<DependencyScanResult> {
+  const lockfiles = await walkProjectFiles(root, { exclude: options.exclude, fileNames: LOCKFILE_NAMES });
+  const details: DependencyFinding[] = [];
+  const unpinned: string[] = [];
+  let dependenciesScanned = 0;
+
+  for (const lockfile of lockfiles) {
+    const parsed = await parseLockfile(root, lockfile);
+    const { findings, scanned } = scanGraph(parsed.graph, database, options);
+    details.push(...findings);
+    unpinned.push(...parsed.unpinned.map((name) => `${lockfile}: ${name}`));
+    dependenciesScanned += scanned;
+  }
+
+  const vulnerabilities: Record<Severity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+  details.forEach((finding) => vulnerabilities[finding.severity]++);
+
+  return { lockfiles, dependenciesScanned, unpinned, vulnerabilities, details };
+}
@@ -0,0 +1,115 @@
+/**
+ * Project file walking shared by the scanners
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_EXCLUDES = ['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '.venv'];
+
+const BINARY_EXTENSIONS = new Set([
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico', '.pdf', '.zip', '.gz', '.tgz',
+  '.woff', '.woff2', '.ttf', '.eot', '.mp3', '.mp4', '.mov', '.wasm', '.so', '.dll', '.exe',
+]);
+
+const MAX_FILE_SIZE = 1024 * 1024;
+
+export interface WalkOptions {
+  exclude?: string[];
+  extensions?: string[];
+  fileNames?: string[];
+}
+
+/**
+ * Convert a simple glob (`*`, `**`, `?`) into a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+      if (glob[i + 1] === '/') i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a project-relative path against exclude entries. An entry matches a
+ * path segment by name, a path prefix, or a glob.
+ */
+export function isExcluded(relativePath: string, exclude: string[]): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  const segments = normalized.split('/');
+
+  return exclude.some((entry) => {
+    const pattern = entry.replace(/\/+$/, '');
+    if (pattern.includes('*') || pattern.includes('?')) {
+      return globToRegExp(pattern).test(normalized);
+    }
+    return (
+      normalized === pattern ||
+      normalized.startsWith(`${pattern}/`) ||
+      segments.includes(pattern)
+    );
+  });
+}
+
+/**
+ * Recursively list project files (relative paths, `/`-separated)
+ */
+export async function walkProjectFiles(root: string, options: WalkOptions = {}): Promise<string[]> {
+  const exclude = [...DEFAULT_EXCLUDES, ...(options.exclude || [])];
+  const files: string[] = [];
+
+  async function walk(dir: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
+      if (isExcluded(relativePath, exclude)) continue;
+
+      if (entry.isDirectory()) {
+        await walk(fullPath);
+      } else if (entry.isFile()) {
+        const ext = path.extname(entry.name).toLowerCase();
+        if (BINARY_EXTENSIONS.has(ext)) continue;
+        if (options.fileNames && !options.fileNames.includes(entry.name)) continue;
+        if (options.extensions && !options.extensions.includes(ext)) continue;
+        files.push(relativePath);
+      }
+    }
+  }
+
+  await walk(root);
+  return files.sort();
+}
+
+/**
+ * Read a text file, returning null for large or binary content
+ */
+export async function readTextFile(filePath: string): Promise<string | null> {
+  try {
+    const stat = await fs.stat(filePath);
+    if (stat.size > MAX_FILE_SIZE) return null;
+    const content = await fs.readFile(filePath, 'utf-8');
+    if (content.includes('\u0000')) return null;
+    return content;
+  } catch {
+    return null;
+  }
+}
@@ -13,16 +13,64 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Severity } from './types.js';
+import {
+  DEFAULT_ALLOWLIST_FILE,
+  SecretScanResult,
+  loadAllowlist,
+  scanSecrets,
+  updateBaseline,
+} from './secrets.js';
+import { DEFAULT_ADVISORY_DATABASE, loadAdvisoryDatabase } from './advisories.js';
+import { DependencyScanResult, scanDependencies } from './dependencies.js';
+import {
+  CODE_PATTERN_RULES,
+  CodeScanResult,
+  groupByCategory,
+  parseOwaspCategory,
+  scanCodePatterns,
+} from './code-patterns.js';
+import {
+  FixedFindings,
+  ReportFormat,
+  ScanResults,
+  assessRisk,
+  codeKey,
+  dependencyKey,
+  emptyFixed,
+  renderReport,
+  secretKey,
+  updateFixed,
+} from './report.js';
+import { toSarif } from './sarif.js';
+
+const CODE_PATTERN_IDS = CODE_PATTERN_RULES.map((rule) => rule.id);
 
 // Server configuration
 interface ScannerConfig {
   projectPath: string;
   projectType: 'node' | 'python' | 'generic';
-  severity: 'low' | 'medium' | 'high' | 'critical';
+  severity: Severity;
+  advisoryDatabase: string;
 }
 
 let config: ScannerConfig | null = null;
 
+// Latest results per scanner, aggregated by generate_report and risk_assessment
+const results: ScanResults = {
+  secrets: null,
+  dependencies: null,
+  codePatterns: null,
+};
+
+// Findings that disappeared between two scans of the same scope, and the scope of each scanner's last run
+let fixed: FixedFindings = emptyFixed();
+const scopes: Partial<Record<keyof ScanResults, string>> = {};
+
+const riskHistory: Array<{ timestamp: string; score: number; level: Severity }> = [];
+
 // Create server instance
 const server = new Server(
   {
@@ -59,6 +107,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               enum: ['low', 'medium', 'high', 'critical'],
               description: 'Minimum severity level to report'
+            },
+            advisoryDatabase: {
+              type: 'string',
+              description: `OSV advisory JSON file or directory (default: ${DEFAULT_ADVISORY_DATABASE} in project root)`
             }
           },
           required: ['projectPath', 'projectType']
@@ -66,17 +118,22 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'scan_dependencies',
-        description: 'Audit dependencies for known vulnerabilities',
+        description: 'Audit lockfile dependencies against the local OSV advisory database',
         inputSchema: {
           type: 'object',
           properties: {
             fix: {
               type: 'boolean',
-              description: 'Attempt to auto-fix vulnerabilities'
+              description: 'Deprecated: the scan reads lockfiles offline and cannot upgrade packages; use fixedIn from the results'
             },
             production: {
               type: 'boolean',
               description: 'Only check production dependencies'
+            },
+            exclude: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Paths to exclude when looking for lockfiles'
             }
           }
         }
@@ -96,34 +153,65 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'array',
               items: { type: 'string' },
               description: 'Paths to exclude from scan'
+            },
+            allowlistPath: {
+              type: 'string',
+              description: `Allowlist/baseline file (default: ${DEFAULT_ALLOWLIST_FILE} in project root)`
+            },
+            updateBaseline: {
+              type: 'boolean',
+              description: 'Add all current findings to the baseline so they are suppressed in future scans'
             }
           }
         }
       },
       {
         name: 'scan_owasp',
-        description: 'Check for OWASP Top 10 vulnerabilities',
+        description: 'Check TypeScript/JavaScript sources for OWASP Top 10 vulnerabilities',
         inputSchema: {
           type: 'object',
           properties: {
             categories: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Specific OWASP categories to check'
+              description: 'Specific OWASP categories to check (e.g. A03 or A03:2021)'
+            },
+            exclude: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Paths to exclude from scan'
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'sarif'],
+              description: 'Output format'
             }
           }
         }
       },
       {
         name: 'scan_code_patterns',
-        description: 'Detect insecure code patterns (SQL injection, XSS, etc.)',
+        description: 'Detect insecure code patterns (SQL injection, XSS, etc.) with an AST pass',
         inputSchema: {
           type: 'object',
           properties: {
             patterns: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: CODE_PATTERN_IDS
+              },
+              description: 'Pattern types to scan for (default: all)'
+            },
+            exclude: {
               type: 'array',
               items: { type: 'string' },
-              description: 'Pattern types to scan for'
+              description: 'Paths to exclude from scan'
+            },
+            format: {
+              type: 'string',
+              enum: ['json', 'sarif'],
+              description: 'Output format'
             }
           }
         }
@@ -136,7 +224,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           properties: {
             format: {
               type: 'string',
-              enum: ['json', 'html', 'markdown'],
+              enum: ['json', 'html', 'markdown', 'sarif'],
               description: 'Report format'
             },
             outputPath: {
@@ -145,7 +233,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             },
             includeFixed: {
               type: 'boolean',
-              description: 'Include already fixed issues'
+              description: 'Include findings an earlier scan reported that the latest scan no longer finds'
             }
           }
         }
@@ -208,29 +296,101 @@ async function handleConfigure(args: any) {
   config = {
     projectPath: args.projectPath,
     projectType: args.projectType,
-    severity: args.severity || 'medium'
+    severity: args.severity || 'medium',
+    advisoryDatabase: path.resolve(args.projectPath, args.advisoryDatabase || DEFAULT_ADVISORY_DATABASE)
   };
+  results.secrets = null;
+  results.dependencies = null;
+  results.codePatterns = null;
+  fixed = emptyFixed();
+  for (const scanner of Object.keys(scopes) as Array<keyof ScanResults>) delete scopes[scanner];
 
   return {
     content: [
       {
         type: 'text',
-        text: `Configured security scanner:\n- Project: ${config.projectPath}\n- Type: ${config.projectType}\n- Min Severity: ${config.severity}`
+        text: `Configured security scanner:\n- Project: ${config.projectPath}\n- Type: ${config.projectType}\n- Min Severity: ${config.severity}\n- Advisory Database: ${config.advisoryDatabase}`
       }
     ]
   };
 }
 
+async function runDependencyScan(config: ScannerConfig, args: any): Promise<DependencyScanResult> {
+  const database = await loadAdvisoryDatabase(config.advisoryDatabase);
+  const previous = results.dependencies;
+  results.dependencies = await scanDependencies(config.projectPath, database, {
+    production: args?.production,
+    exclude: args?.exclude,
+    minSeverity: config.severity
+  });
+  const scope = JSON.stringify([args?.production ?? false, args?.exclude ?? []]);
+  if (previous && scopes.dependencies === scope) {
+    fixed.dependencies = updateFixed(fixed.dependencies, previous.details, results.dependencies.details, dependencyKey);
+  }
+  scopes.dependencies = scope;
+  return results.dependencies;
+}
+
+async function runSecretScan(config: ScannerConfig, args: any): Promise<SecretScanResult> {
+  const allowlistPath = path.resolve(config.projectPath, args?.allowlistPath || DEFAULT_ALLOWLIST_FILE);
+  const allowlist = await loadAllowlist(allowlistPath);
+
+  const result = await scanSecrets(config.projectPath, {
+    patterns: args?.patterns,
+    exclude: args?.exclude,
+    allowlist,
+    minSeverity: config.severity
+  });
+
+  // Compare before the baseline update: accepted findings are suppressed, not fixed
+  const scope = JSON.stringify([args?.patterns ?? [], args?.exclude ?? [], allowlistPath]);
+  if (results.secrets && scopes.secrets === scope) {
+    fixed.secrets = updateFixed(fixed.secrets, results.secrets.secrets, result.secrets, secretKey);
+  }
+  scopes.secrets = scope;
+
+  if (args?.updateBaseline && result.secrets.length > 0) {
+    await updateBaseline(allowlistPath, allowlist, result.secrets);
+    result.suppressed += result.secrets.length;
+    result.secrets = [];
+    result.secretsFound = 0;
+  }
+
+  results.secrets = result;
+  return result;
+}
+
+async function runCodeScan(config: ScannerConfig, args: any): Promise<CodeScanResult> {
+  const previous = results.codePatterns;
+  results.codePatterns = await scanCodePatterns(config.projectPath, {
+    exclude: args?.exclude,
+    minSeverity: config.severity
+  });
+  const scope = JSON.stringify(args?.exclude ?? []);
+  if (previous && scopes.codePatterns === scope) {
+    fixed.codePatterns = updateFixed(fixed.codePatterns, previous.issues, results.codePatterns.issues, codeKey);
+  }
+  scopes.codePatterns = scope;
+  return results.codePatterns;
+}
+
 async function handleScanDependencies(args: any) {
   if (!config) {
     throw new Error('Scanner not configured. Call configure first.');
   }
+  if (args?.fix) {
+    throw new Error(
+      'The fix option is no longer supported: scan_dependencies reads lockfiles offline and does not change them. Upgrade each package to the fixedIn version listed in details.'
+    );
+  }
+
+  const result = await runDependencyScan(config, args);
 
   return {
     content: [
       {
         type: 'text',
-        text: 'Dependency scanning not yet implemented'
+        text: JSON.stringify(result, null, 2)
       }
     ]
   };
@@ -241,11 +401,13 @@ async function handleScanSecrets(args: any) {
     throw new Error('Scanner not configured. Call configure first.');
   }
 
+  const result = await runSecretScan(config, args);
+
   return {
     content: [
       {
         type: 'text',
-        text: 'Secret scanning not yet implemented'
+        text: JSON.stringify(result, null, 2)
       }
     ]
   };
@@ -256,11 +418,29 @@ async function handleScanOwasp(args: any) {
     throw new Error('Scanner not configured. Call configure first.');
   }
 
+  const requested: string[] = args?.categories || [];
+  const unknown = requested.filter((category) => !parseOwaspCategory(String(category)));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown OWASP categories: ${unknown.join(', ')}. Use A01 to A10, e.g. A03 or A03:2021`);
+  }
+
+  const result = await runCodeScan(config, args);
+  const categories = requested.map(parseOwaspCategory);
+  const issues = categories.length
+    ? result.issues.filter((issue) => categories.includes(parseOwaspCategory(issue.category)))
+    : result.issues;
+
   return {
     content: [
       {
         type: 'text',
-        text: 'OWASP scanning not yet implemented'
+        text: JSON.stringify(
+          args?.format === 'sarif'
+            ? toSarif(issues)
+            : { filesScanned: result.filesScanned, byCategory: groupByCategory(issues), issues, parseErrors: result.parseErrors },
+          null,
+          2
+        )
       }
     ]
   };
@@ -271,26 +451,76 @@ async function handleScanCodePatterns(args: any) {
     throw new Error('Scanner not configured. Call configure first.');
   }
 
+  const patterns: string[] = args?.patterns || [];
+  const unknown = patterns.filter((pattern) => !CODE_PATTERN_IDS.includes(pattern));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown pattern types: ${unknown.join(', ')}. Available: ${CODE_PATTERN_IDS.join(', ')}`);
+  }
+
+  const result = await runCodeScan(config, args);
+  const issues = patterns.length ? result.issues.filter((issue) => patterns.includes(issue.ruleId)) : result.issues;
+
   return {
     content: [
       {
         type: 'text',
-        text: 'Code pattern scanning not yet implemented'
+        text: JSON.stringify(
+          args?.format === 'sarif'
+            ? toSarif(issues)
+            : { filesScanned: result.filesScanned, issues, parseErrors: result.parseErrors },
+          null,
+          2
+        )
       }
     ]
   };
 }
 
+/**
+ * Run any scanner that has no results yet so reports cover the whole project.
+ * Dependency scanning is skipped when no advisory database has been vendored.
+ */
+async function ensureScans(config: ScannerConfig): Promise<void> {
+  if (!results.secrets) {
+    await runSecretScan(config, {});
+  }
+  if (!results.codePatterns) {
+    await runCodeScan(config, {});
+  }
+  if (!results.dependencies) {
+    const hasDatabase = await fs.access(config.advisoryDatabase).then(() => true, () => false);
+    if (hasDatabase) {
+      await runDependencyScan(config, {});
+    }
+  }
+}
+
 async function handleGenerateReport(args: any) {
   if (!config) {
     throw new Error('Scanner not configured. Call configure first.');
   }
 
+  await ensureScans(config);
+  const report = renderReport(results, (args?.format || 'json') as ReportFormat, args?.includeFixed ? fixed : undefined);
+
+  if (args?.outputPath) {
+    const outputPath = path.resolve(config.projectPath, args.outputPath);
+    await fs.writeFile(outputPath, report, 'utf-8');
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Security report written to ${outputPath}`
+        }
+      ]
+    };
+  }
+
   return {
     content: [
       {
         type: 'text',
-        text: 'Report generation not yet implemented'
+        text: report
       }
     ]
   };
@@ -301,11 +531,19 @@ async function handleRiskAssessment(args: any) {
     throw new Error('Scanner not configured. Call configure first.');
   }
 
+  await ensureScans(config);
+  const risk = assessRisk(results);
+  riskHistory.push({ timestamp: new Date().toISOString(), score: risk.score, level: risk.level });
+
   return {
     content: [
       {
         type: 'text',
-        text: 'Risk assessment not yet implemented'
+        text: JSON.stringify(
+          args?.includeHistory ? { ...risk, history: riskHistory } : risk,
+          null,
+          2
+        )
       }
     ]
   };
@@ -0,0 +1,413 @@
+/**
+ * Lockfile parsers
+ *
+ * Each parser turns a lockfile into a dependency graph of resolved package
+ * versions plus the production/development roots declared by the project,
+ * so findings can be traced back to the dependency that pulled them in.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { Ecosystem } from './advisories.js';
+
+export const LOCKFILE_NAMES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'requirements.txt'];
+
+export interface DependencyNode {
+  id: string;
+  name: string;
+  version: string;
+  dependencies: string[];
+}
+
+export interface DependencyGraph {
+  lockfile: string;
+  ecosystem: Ecosystem;
+  nodes: Map<string, DependencyNode>;
+  roots: {
+    production: string[];
+    development: string[];
+  };
+}
+
+type DependencyMap = Record<string, string>;
+
+function createGraph(lockfile: string, ecosystem: Ecosystem): DependencyGraph {
+  return { lockfile, ecosystem, nodes: new Map(), roots: { production: [], development: [] } };
+}
+
+function addNode(graph: DependencyGraph, id: string, name: string, version: string): DependencyNode {
+  let node = graph.nodes.get(id);
+  if (!node) {
+    node = { id, name, version, dependencies: [] };
+    graph.nodes.set(id, node);
+  }
+  return node;
+}
+
+function pushUnique(list: string[], value: string | undefined): void {
+  if (value && !list.includes(value)) list.push(value);
+}
+
+/**
+ * Split `name@version`, keeping the leading `@` of scoped packages
+ */
+function splitNameVersion(spec: string): { name: string; version: string } {
+  const at = spec.lastIndexOf('@');
+  if (at <= 0) return { name: spec, version: '' };
+  return { name: spec.slice(0, at), version: spec.slice(at + 1) };
+}
+
+// ---------------------------------------------------------------------------
+// package-lock.json
+// ---------------------------------------------------------------------------
+
+interface NpmLockPackage {
+  version?: string;
+  dev?: boolean;
+  link?: boolean;
+  resolved?: string;
+  dependencies?: DependencyMap;
+  optionalDependencies?: DependencyMap;
+  devDependencies?: DependencyMap;
+  requires?: DependencyMap;
+}
+
+interface NpmLockV1Entry extends NpmLockPackage {
+  dependencies?: Record<string, NpmLockV1Entry> & DependencyMap;
+}
+
+function packageNameFromLocation(location: string): string {
+  const marker = 'node_modules/';
+  return location.slice(location.lastIndexOf(marker) + marker.length);
+}
+
+/**
+ * Resolve a dependency the way Node does: nearest `node_modules` first,
+ * walking up towards the project root
+ */
+function resolveNpmLocation(packages: Record<string, NpmLockPackage>, from: string, name: string): string | undefined {
+  let base = from;
+  for (;;) {
+    const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+    if (packages[candidate]) return candidate;
+    if (!base) return undefined;
+    const index = base.lastIndexOf('/node_modules/');
+    base = index === -1 ? '' : base.slice(0, index);
+  }
+}
+
+function flattenNpmLockV1(
+  entries: Record<string, NpmLockV1Entry>,
+  prefix: string,
+  packages: Record<string, NpmLockPackage>
+): void {
+  for (const [name, entry] of Object.entries(entries)) {
+    const location = prefix ? `${prefix}/node_modules/${name}` : `node_modules/${name}`;
+    packages[location] = { version: entry.version, dev: entry.dev, dependencies: entry.requires };
+    if (entry.dependencies && typeof entry.dependencies === 'object') {
+      flattenNpmLockV1(entry.dependencies as Record<string, NpmLockV1Entry>, location, packages);
+    }
+  }
+}
+
+export function parsePackageLock(lockfile: string, content: string): DependencyGraph {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, NpmLockPackage>;
+    dependencies?: Record<string, NpmLockV1Entry>;
+  };
+  const graph = createGraph(lockfile, 'npm');
+
+  let packages: Record<string, NpmLockPackage>;
+  if (lock.packages) {
+    packages = lock.packages;
+  } else {
+    packages = { '': {} };
+    flattenNpmLockV1(lock.dependencies || {}, '', packages);
+    // v1 lockfiles do not record the root manifest, so top-level entries are the roots
+    const root: NpmLockPackage = { dependencies: {}, devDependencies: {} };
+    for (const [name, entry] of Object.entries(lock.dependencies || {})) {
+      (entry.dev ? root.devDependencies! : root.dependencies!)[name] = entry.version || '';
+    }
+    packages[''] = root;
+  }
+
+  const target = (location: string): string => {
+    const entry = packages[location];
+    return entry?.link && entry.resolved ? entry.resolved : location;
+  };
+
+  for (const [location, entry] of Object.entries(packages)) {
+    if (location === '' || entry.link || !entry.version || !location.includes('node_modules/')) continue;
+    const node = addNode(graph, location, packageNameFromLocation(location), entry.version);
+    const deps = { ...entry.dependencies, ...entry.optionalDependencies };
+    for (const name of Object.keys(deps)) {
+      const resolved = resolveNpmLocation(packages, location, name);
+      if (resolved) pushUnique(node.dependencies, target(resolved));
+    }
+  }
+
+  const root = packages[''] || {};
+  for (const name of Object.keys({ ...root.dependencies, ...root.optionalDependencies })) {
+    const resolved = resolveNpmLocation(packages, '', name);
+    if (resolved) pushUnique(graph.roots.production, target(resolved));
+  }
+  for (const name of Object.keys(root.devDependencies || {})) {
+    const resolved = resolveNpmLocation(packages, '', name);
+    if (resolved) pushUnique(graph.roots.development, target(resolved));
+  }
+
+  return graph;
+}
+
+// ---------------------------------------------------------------------------
+// pnpm-lock.yaml
+// ---------------------------------------------------------------------------
+
+interface PnpmImporter {
+  dependencies?: Record<string, string | { version: string }>;
+  optionalDependencies?: Record<string, string | { version: string }>;
+  devDependencies?: Record<string, string | { version: string }>;
+}
+
+interface PnpmPackage {
+  dependencies?: DependencyMap;
+  optionalDependencies?: DependencyMap;
+}
+
+/**
+ * Parse a pnpm package key across lockfile versions:
+ * v5 `/name/1.0.0_peer`, v6 `/name@1.0.0(peer)`, v9 `name@1.0.0(peer)`
+ */
+function parsePnpmKey(key: string): { name: string; version: string } {
+  const bare = key.replace(/^\//, '').replace(/\(.*$/, '');
+  const slashForm = bare.match(/^((?:@[^/]+\/)?[^/@]+)\/([^/]+)$/);
+  if (slashForm) return { name: slashForm[1], version: slashForm[2].replace(/_.*$/, '') };
+  return splitNameVersion(bare);
+}
+
+function pnpmDependencyId(name: string, reference: string): string | undefined {
+  const version = reference.replace(/\(.*$/, '');
+  if (version.startsWith('link:') || version.startsWith('file:')) return undefined;
+  if (/^\d/.test(version)) return `${name}@${version.replace(/_.*$/, '')}`;
+  // Aliased dependencies reference a full package key instead of a version
+  const parsed = parsePnpmKey(version);
+  return `${parsed.name}@${parsed.version}`;
+}
+
+export function parsePnpmLock(lockfile: string, content: string): DependencyGraph {
+  const lock = (parseYaml(content) || {}) as PnpmImporter & {
+    importers?: Record<string, PnpmImporter>;
+    packages?: Record<string, PnpmPackage>;
+    snapshots?: Record<string, PnpmPackage>;
+  };
+  const graph = createGraph(lockfile, 'npm');
+
+  for (const key of Object.keys(lock.packages || {})) {
+    const { name, version } = parsePnpmKey(key);
+    addNode(graph, `${name}@${version}`, name, version);
+  }
+
+  // v9 moved the dependency edges into `snapshots`
+  const edges = lock.snapshots || lock.packages || {};
+  for (const [key, entry] of Object.entries(edges)) {
+    const { name, version } = parsePnpmKey(key);
+    const node = addNode(graph, `${name}@${version}`, name, version);
+    for (const [depName, reference] of Object.entries({ ...entry?.dependencies, ...entry?.optionalDependencies })) {
+      pushUnique(node.dependencies, pnpmDependencyId(depName, String(reference)));
+    }
+  }
+
+  const importers = lock.importers || { '.': lock };
+  for (const importer of Object.values(importers)) {
+    const collect = (deps: PnpmImporter['dependencies'], roots: string[]) => {
+      for (const [name, spec] of Object.entries(deps || {})) {
+        const reference = typeof spec === 'string' ? spec : spec.version;
+        const id = pnpmDependencyId(name, reference);
+        if (id && graph.nodes.has(id)) pushUnique(roots, id);
+      }
+    };
+    collect({ ...importer.dependencies, ...importer.optionalDependencies }, graph.roots.production);
+    collect(importer.devDependencies, graph.roots.development);
+  }
+
+  return graph;
+}
+
+// ---------------------------------------------------------------------------
+// yarn.lock
+// ---------------------------------------------------------------------------
+
+interface YarnEntry {
+  descriptors: string[];
+  version: string;
+  dependencies: DependencyMap;
+}
+
+function parseYarnClassic(content: string): YarnEntry[] {
+  const entries: YarnEntry[] = [];
+  let current: YarnEntry | null = null;
+  let section: string | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    if (!rawLine.trim() || rawLine.trimStart().startsWith('#')) continue;
+    const indent = rawLine.length - rawLine.trimStart().length;
+    const line = rawLine.trim();
+
+    if (indent === 0) {
+      current = {
+        descriptors: line
+          .replace(/:$/, '')
+          .split(/,\s*/)
+          .map((descriptor) => descriptor.replace(/^"|"$/g, '')),
+        version: '',
+        dependencies: {},
+      };
+      entries.push(current);
+      section = null;
+    } else if (current && indent === 2) {
+      section = null;
+      if (line.endsWith(':')) {
+        section = line.slice(0, -1);
+      } else if (line.startsWith('version ')) {
+        current.version = line.slice('version '.length).replace(/^"|"$/g, '');
+      }
+    } else if (current && indent >= 4 && (section === 'dependencies' || section === 'optionalDependencies')) {
+      const match = line.match(/^"?([^"\s]+)"?\s+"?([^"]+)"?$/);
+      if (match) current.dependencies[match[1]] = match[2];
+    }
+  }
+
+  return entries;
+}
+
+function parseYarnBerry(content: string): YarnEntry[] {
+  const lock = (parseYaml(content) || {}) as Record<
+    string,
+    { version?: string; dependencies?: DependencyMap; optionalDependencies?: DependencyMap }
+  >;
+  const entries: YarnEntry[] = [];
+
+  for (const [key, value] of Object.entries(lock)) {
+    if (key === '__metadata' || !value?.version) continue;
+    const descriptors = key.split(/,\s*/);
+    if (descriptors.some((descriptor) => descriptor.includes('@workspace:'))) continue;
+    entries.push({
+      descriptors,
+      version: String(value.version),
+      dependencies: { ...value.dependencies, ...value.optionalDependencies },
+    });
+  }
+
+  return entries;
+}
+
+export function parseYarnLock(
+  lockfile: string,
+  content: string,
+  manifest: { dependencies?: DependencyMap; devDependencies?: DependencyMap; optionalDependencies?: DependencyMap } | null
+): DependencyGraph {
+  const graph = createGraph(lockfile, 'npm');
+  const entries = content.includes('__metadata:') ? parseYarnBerry(content) : parseYarnClassic(content);
+  const byDescriptor = new Map<string, string>();
+
+  for (const entry of entries) {
+    const { name } = splitNameVersion(entry.descriptors[0]);
+    const id = `${name}@${entry.version}`;
+    addNode(graph, id, name, entry.version);
+    entry.descriptors.forEach((descriptor) => byDescriptor.set(descriptor, id));
+  }
+
+  const resolve = (name: string, range: string): string | undefined =>
+    byDescriptor.get(`${name}@${range}`) ?? byDescriptor.get(`${name}@npm:${range}`);
+
+  for (const entry of entries) {
+    const { name } = splitNameVersion(entry.descriptors[0]);
+    const node = graph.nodes.get(`${name}@${entry.version}`)!;
+    for (const [depName, range] of Object.entries(entry.dependencies)) {
+      pushUnique(node.dependencies, resolve(depName, String(range)));
+    }
+  }
+
+  if (manifest) {
+    for (const [name, range] of Object.entries({ ...manifest.dependencies, ...manifest.optionalDependencies })) {
+      pushUnique(graph.roots.production, resolve(name, range));
+    }
+    for (const [name, range] of Object.entries(manifest.devDependencies || {})) {
+      pushUnique(graph.roots.development, resolve(name, range));
+    }
+  } else {
+    // Without a manifest, anything nothing else depends on is treated as a root
+    const depended = new Set([...graph.nodes.values()].flatMap((node) => node.dependencies));
+    graph.roots.production = [...graph.nodes.keys()].filter((id) => !depended.has(id));
+  }
+
+  return graph;
+}
+
+// ---------------------------------------------------------------------------
+// requirements.txt
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse pinned (`==`) requirements. Unpinned requirements have no resolved
+ * version and are returned separately so callers can report them.
+ */
+export function parseRequirements(lockfile: string, content: string): { graph: DependencyGraph; unpinned: string[] } {
+  const graph = createGraph(lockfile, 'PyPI');
+  const unpinned: string[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+#.*$/, '').replace(/^#.*$/, '').split(';')[0].trim();
+    if (!line || line.startsWith('-')) continue;
+
+    const match = line.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*==\s*([^\s,]+)$/);
+    if (!match) {
+      const name = line.match(/^[A-Za-z0-9][A-Za-z0-9._-]*/)?.[0];
+      if (name) unpinned.push(name);
+      continue;
+    }
+
+    const id = `${match[1]}@${match[2]}`;
+    addNode(graph, id, match[1], match[2]);
+    pushUnique(graph.roots.production, id);
+  }
+
+  return { graph, unpinned };
+}
+
+/**
+ * Parse any supported lockfile by name
+ */
+export async function parseLockfile(
+  root: string,
+  lockfile: string
+): Promise<{ graph: DependencyGraph; unpinned: string[] }> {
+  const filePath = path.join(root, lockfile);
+  const content = await fs.readFile(filePath, 'utf-8');
+  const baseName = path.basename(lockfile);
+
+  try {
+    switch (baseName) {
+      case 'package-lock.json':
+        return { graph: parsePackageLock(lockfile, content), unpinned: [] };
+      case 'pnpm-lock.yaml':
+        return { graph: parsePnpmLock(lockfile, content), unpinned: [] };
+      case 'yarn.lock': {
+        let manifest = null;
+        try {
+          manifest = JSON.parse(await fs.readFile(path.join(path.dirname(filePath), 'package.json'), 'utf-8'));
+        } catch {
+          manifest = null;
+        }
+        return { graph: parseYarnLock(lockfile, content, manifest), unpinned: [] };
+      }
+      case 'requirements.txt':
+        return parseRequirements(lockfile, content);
+      default:
+        throw new Error(`Unsupported lockfile: ${lockfile}`);
+    }
+  } catch (error) {
+    throw new Error(`Failed to parse ${lockfile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Report aggregation and rendering
+ *
+ * Combines the latest results of each scanner into severity totals, a risk
+ * score, and JSON/markdown/HTML/SARIF reports.
+ */
+
+import { CodeFinding, CodeScanResult } from './code-patterns.js';
+import { DependencyFinding, DependencyScanResult } from './dependencies.js';
+import { toSarif } from './sarif.js';
+import { SecretFinding, SecretScanResult } from './secrets.js';
+import { SEVERITY_ORDER, Severity } from './types.js';
+
+export interface ScanResults {
+  secrets: SecretScanResult | null;
+  dependencies: DependencyScanResult | null;
+  codePatterns: CodeScanResult | null;
+}
+
+/**
+ * Findings an earlier scan reported that a later scan of the same scope no longer does
+ */
+export interface FixedFindings {
+  secrets: SecretFinding[];
+  dependencies: DependencyFinding[];
+  codePatterns: CodeFinding[];
+}
+
+export type ReportFormat = 'json' | 'html' | 'markdown' | 'sarif';
+
+export type SeverityCounts = Record<Severity, number>;
+
+export interface RiskAssessment {
+  score: number;
+  level: Severity;
+  totals: SeverityCounts;
+  bySource: Record<string, SeverityCounts>;
+}
+
+const RISK_WEIGHTS: Record<Severity, number> = {
+  critical: 25,
+  high: 10,
+  medium: 3,
+  low: 1,
+};
+
+function emptyCounts(): SeverityCounts {
+  return { critical: 0, high: 0, medium: 0, low: 0 };
+}
+
+function countSeverities(items: Array<{ severity: Severity }>): SeverityCounts {
+  const counts = emptyCounts();
+  items.forEach((item) => counts[item.severity]++);
+  return counts;
+}
+
+/**
+ * Severity totals per scanner and overall
+ */
+export function summarize(results: ScanResults): { totals: SeverityCounts; bySource: Record<string, SeverityCounts> } {
+  const bySource: Record<string, SeverityCounts> = {};
+  if (results.secrets) bySource.secrets = countSeverities(results.secrets.secrets);
+  if (results.dependencies) bySource.dependencies = countSeverities(results.dependencies.details);
+  if (results.codePatterns) bySource.codePatterns = countSeverities(results.codePatterns.issues);
+
+  const totals = emptyCounts();
+  for (const counts of Object.values(bySource)) {
+    SEVERITY_ORDER.forEach((severity) => (totals[severity] += counts[severity]));
+  }
+  return { totals, bySource };
+}
+
+/**
+ * Weighted risk score from 0 (no findings) to 100
+ */
+export function assessRisk(results: ScanResults): RiskAssessment {
+  const { totals, bySource } = summarize(results);
+  const raw = SEVERITY_ORDER.reduce((sum, severity) => sum + totals[severity] * RISK_WEIGHTS[severity], 0);
+  const score = Math.min(100, raw);
+
+  let level: Severity = 'low';
+  if (score >= 75) level = 'critical';
+  else if (score >= 50) level = 'high';
+  else if (score >= 20) level = 'medium';
+
+  return { score, level, totals, bySource };
+}
+
+export function emptyFixed(): FixedFindings {
+  return { secrets: [], dependencies: [], codePatterns: [] };
+}
+
+// Identity of a finding across scans; code findings use the snippet so edits elsewhere in the file don't move them
+export const secretKey = (finding: SecretFinding): string => finding.fingerprint;
+export const dependencyKey = (finding: DependencyFinding): string =>
+  `${finding.lockfile}:${finding.package}@${finding.version}:${finding.advisory}`;
+export const codeKey = (finding: CodeFinding): string => `${finding.ruleId}:${finding.file}:${finding.snippet}`;
+
+/**
+ * Carry the fixed list forward: add what the previous scan found and the
+ * current one doesn't, and drop fixed findings that have come back
+ */
+export function updateFixed<T>(fixed: T[], previous: T[], current: T[], key: (finding: T) => string): T[] {
+  const open = new Set(current.map(key));
+  const seen = new Set<string>();
+  return [...fixed, ...previous].filter((finding) => {
+    const id = key(finding);
+    if (open.has(id) || seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: string[][];
+}
+
+function buildTables(results: ScanResults, fixed?: FixedFindings): ReportTable[] {
+  const tables: ReportTable[] = [];
+
+  if (results.secrets) {
+    tables.push({
+      title: 'Exposed Secrets',
+      headers: ['Severity', 'Type', 'Location', 'Match'],
+      rows: results.secrets.secrets.map((secret) => [
+        secret.severity,
+        secret.type,
+        `${secret.file}:${secret.line}`,
+        secret.match,
+      ]),
+    });
+  }
+
+  if (results.dependencies) {
+    tables.push({
+      title: 'Vulnerable Dependencies',
+      headers: ['Severity', 'Package', 'Advisory', 'CVSS', 'Fixed In', 'Dependency Path'],
+      rows: results.dependencies.details.map((finding) => [
+        finding.severity,
+        `${finding.package}@${finding.version}`,
+        [finding.advisory, ...finding.aliases].join(', '),
+        finding.cvssScore === null ? '-' : finding.cvssScore.toFixed(1),
+        finding.fixedIn || 'no fix',
+        finding.dependencyPath.join(' > '),
+      ]),
+    });
+  }
+
+  if (results.codePatterns) {
+    tables.push({
+      title: 'Insecure Code Patterns',
+      headers: ['Severity', 'Category', 'Issue', 'Location', 'Recommendation'],
+      rows: results.codePatterns.issues.map((issue) => [
+        issue.severity,
+        issue.category,
+        `${issue.message} (${issue.cwe})`,
+        `${issue.file}:${issue.line}`,
+        issue.recommendation,
+      ]),
+    });
+  }
+
+  if (fixed) {
+    tables.push({
+      title: 'Fixed Since Previous Scan',
+      headers: ['Severity', 'Source', 'Finding', 'Location'],
+      rows: [
+        ...fixed.secrets.map((secret) => [secret.severity, 'secrets', secret.type, `${secret.file}:${secret.line}`]),
+        ...fixed.dependencies.map((finding) => [
+          finding.severity,
+          'dependencies',
+          `${finding.package}@${finding.version} (${finding.advisory})`,
+          finding.lockfile,
+        ]),
+        ...fixed.codePatterns.map((issue) => [issue.severity, 'codePatterns', issue.title, `${issue.file}:${issue.line}`]),
+      ],
+    });
+  }
+
+  return tables;
+}
+
+function renderMarkdown(results: ScanResults, risk: RiskAssessment, fixed?: FixedFindings): string {
+  const lines = [
+    '# Security Report',
+    '',
+    `Generated: ${new Date().toISOString()}`,
+    '',
+    `**Risk score:** ${risk.score}/100 (${risk.level})`,
+    '',
+    '| Severity | Count |',
+    '|----------|-------|',
+    ...[...SEVERITY_ORDER].reverse().map((severity) => `| ${severity} | ${risk.totals[severity]} |`),
+    '',
+  ];
+
+  for (const table of buildTables(results, fixed)) {
+    lines.push(`## ${table.title}`, '');
+    if (table.rows.length === 0) {
+      lines.push('No findings.', '');
+      continue;
+    }
+    lines.push(`| ${table.headers.join(' | ')} |`, `|${table.headers.map(() => '---').join('|')}|`);
+    table.rows.forEach((row) => lines.push(`| ${row.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function renderHtml(results: ScanResults, risk: RiskAssessment, fixed?: FixedFindings): string {
+  const sections = buildTables(results, fixed).map((table) => {
+    const body =
+      table.rows.length === 0
+        ? '<p>No findings.</p>'
+        : `<table>
+<thead><tr>${table.headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+<tbody>
+${table.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`;
+    return `<h2>${escapeHtml(table.title)}</h2>\n${body}`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Security Report</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; }
+table { border-collapse: collapse; margin-bottom: 2rem; }
+th, td { border: 1px solid #ccc; padding: 0.4rem 0.8rem; text-align: left; }
+</style>
+</head>
+<body>
+<h1>Security Report</h1>
+<p>Generated: ${new Date().toISOString()}</p>
+<p><strong>Risk score:</strong> ${risk.score}/100 (${risk.level})</p>
+<ul>
+${[...SEVERITY_ORDER].reverse().map((severity) => `<li>${severity}: ${risk.totals[severity]}</li>`).join('\n')}
+</ul>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render the aggregated results in the requested format; `fixed` adds a
+ * section for resolved findings (SARIF lists open findings only)
+ */
+export function renderReport(results: ScanResults, format: ReportFormat, fixed?: FixedFindings): string {
+  const risk = assessRisk(results);
+
+  switch (format) {
+    case 'sarif':
+      return JSON.stringify(toSarif(results.codePatterns?.issues || [], results.secrets?.secrets || []), null, 2);
+    case 'html':
+      return renderHtml(results, risk, fixed);
+    case 'markdown':
+      return renderMarkdown(results, risk, fixed);
+    default:
+      return JSON.stringify({ generatedAt: new Date().toISOString(), risk, ...results, ...(fixed && { fixed }) }, null, 2);
+  }
+}
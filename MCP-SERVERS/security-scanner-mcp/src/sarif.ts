@@ -0,0 +1,159 @@
+/**
+ * SARIF 2.1.0 export
+ *
+ * Converts code pattern and secret findings into a SARIF log that code
+ * review tooling (GitHub code scanning, VS Code SARIF viewer, ...) can ingest.
+ */
+
+import { CODE_PATTERN_RULES, CodeFinding, OWASP_TOP_10 } from './code-patterns.js';
+import { SecretFinding } from './secrets.js';
+import { Severity } from './types.js';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// GitHub code scanning derives its severity from this property
+const SECURITY_SEVERITY: Record<Severity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '2.0',
+};
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  help: { text: string };
+  defaultConfiguration: { level: string };
+  properties: { tags: string[]; 'security-severity': string };
+}
+
+interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: string;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string };
+      region: { startLine: number; startColumn: number; endLine?: number; endColumn?: number; snippet?: { text: string } };
+    };
+  }>;
+  partialFingerprints?: Record<string, string>;
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: { driver: { name: string; version: string; rules: SarifRule[] } };
+    results: SarifResult[];
+  }>;
+}
+
+function toPascalCase(id: string): string {
+  return id.replace(/(^|-)(\w)/g, (_match, _dash, char: string) => char.toUpperCase());
+}
+
+/**
+ * Build a SARIF log from code and secret findings
+ */
+export function toSarif(codeFindings: CodeFinding[], secretFindings: SecretFinding[] = []): SarifLog {
+  const rules: SarifRule[] = [];
+  const ruleIndex = new Map<string, number>();
+
+  const addRule = (rule: SarifRule): number => {
+    if (!ruleIndex.has(rule.id)) {
+      ruleIndex.set(rule.id, rules.length);
+      rules.push(rule);
+    }
+    return ruleIndex.get(rule.id)!;
+  };
+
+  const results: SarifResult[] = [];
+
+  for (const finding of codeFindings) {
+    const rule = CODE_PATTERN_RULES.find((candidate) => candidate.id === finding.ruleId);
+    const index = addRule({
+      id: finding.ruleId,
+      name: toPascalCase(finding.ruleId),
+      shortDescription: { text: finding.title },
+      help: { text: finding.recommendation },
+      defaultConfiguration: { level: SARIF_LEVELS[finding.severity] },
+      properties: {
+        tags: ['security', finding.cwe, rule ? OWASP_TOP_10[rule.owasp] : finding.category],
+        'security-severity': SECURITY_SEVERITY[finding.severity],
+      },
+    });
+
+    results.push({
+      ruleId: finding.ruleId,
+      ruleIndex: index,
+      level: SARIF_LEVELS[finding.severity],
+      message: { text: `${finding.message}. ${finding.recommendation}.` },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: finding.file },
+            region: {
+              startLine: finding.line,
+              startColumn: finding.column,
+              endLine: finding.endLine,
+              endColumn: finding.endColumn,
+              snippet: { text: finding.snippet },
+            },
+          },
+        },
+      ],
+    });
+  }
+
+  for (const finding of secretFindings) {
+    const id = `secret/${finding.ruleId}`;
+    const index = addRule({
+      id,
+      name: toPascalCase(finding.ruleId),
+      shortDescription: { text: `Exposed ${finding.type}` },
+      help: { text: 'Revoke the credential, move it to environment variables or a secret manager, and purge it from history' },
+      defaultConfiguration: { level: SARIF_LEVELS[finding.severity] },
+      properties: {
+        tags: ['security', 'CWE-798', OWASP_TOP_10.A07],
+        'security-severity': SECURITY_SEVERITY[finding.severity],
+      },
+    });
+
+    results.push({
+      ruleId: id,
+      ruleIndex: index,
+      level: SARIF_LEVELS[finding.severity],
+      message: { text: `${finding.type} found (${finding.match})` },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: finding.file },
+            region: { startLine: finding.line, startColumn: finding.column },
+          },
+        },
+      ],
+      partialFingerprints: { secretFingerprint: finding.fingerprint },
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: 'security-scanner-mcp', version: '1.0.0', rules } },
+        results,
+      },
+    ],
+  };
+}
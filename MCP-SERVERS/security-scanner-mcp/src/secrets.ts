@@ -0,0 +1,377 @@
+/**
+ * Secret detection engine
+ *
+ * Applies a built-in ruleset plus user-supplied regexes to every text file
+ * under the project root. Matches are masked before they leave the scanner,
+ * and an allowlist/baseline file keeps accepted findings suppressed.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Severity, meetsSeverity } from './types.js';
+import { globToRegExp, readTextFile, walkProjectFiles } from './files.js';
+
+export const DEFAULT_ALLOWLIST_FILE = '.security-allowlist.json';
+
+// Lockfiles are full of integrity hashes that look like secrets
+const SECRET_SCAN_EXCLUDES = ['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', DEFAULT_ALLOWLIST_FILE];
+
+const PLACEHOLDER_PATTERN = /(example|placeholder|your[_-]|xxxx|changeme|dummy|redacted|<|\$\{)/i;
+
+export interface SecretRule {
+  id: string;
+  name: string;
+  pattern: RegExp;
+  severity: Severity;
+  /** Capture group holding the secret value (defaults to the whole match) */
+  secretGroup?: number;
+  /** Minimum Shannon entropy (bits per character) the value must reach */
+  minEntropy?: number;
+  /** Generic rules skip values that look like placeholders */
+  generic?: boolean;
+  /** Extra check run against the captured value */
+  verify?: (value: string) => boolean;
+}
+
+export interface SecretAllowlist {
+  /** Files or globs that are never scanned for secrets */
+  paths?: string[];
+  /** Rule ids to disable */
+  rules?: string[];
+  /** Regexes; findings whose raw value matches are suppressed */
+  matches?: string[];
+  /** Fingerprints of accepted findings */
+  baseline?: string[];
+}
+
+export interface SecretFinding {
+  ruleId: string;
+  type: string;
+  file: string;
+  line: number;
+  column: number;
+  match: string;
+  severity: Severity;
+  fingerprint: string;
+}
+
+export interface SecretScanOptions {
+  patterns?: string[];
+  exclude?: string[];
+  allowlist?: SecretAllowlist;
+  minSeverity?: Severity;
+}
+
+export interface SecretScanResult {
+  filesScanned: number;
+  secretsFound: number;
+  secrets: SecretFinding[];
+  suppressed: number;
+}
+
+function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  try {
+    const payload = token.split('.')[1];
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Built-in rules, ordered from most to least specific. When two rules match
+ * the same span only the first one is reported.
+ */
+export const BUILT_IN_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    name: 'Private Key',
+    pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/g,
+    severity: 'critical',
+  },
+  {
+    id: 'aws-access-key-id',
+    name: 'AWS Access Key',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+    severity: 'critical',
+  },
+  {
+    id: 'aws-secret-access-key',
+    name: 'AWS Secret Key',
+    pattern: /aws.{0,20}(?:secret|sk).{0,20}?[:=]\s*['"`]?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+    severity: 'critical',
+    secretGroup: 1,
+  },
+  {
+    id: 'github-token',
+    name: 'GitHub Token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+    severity: 'critical',
+  },
+  {
+    id: 'stripe-live-key',
+    name: 'Stripe Live API Key',
+    pattern: /\b(?:sk|rk)_live_[0-9a-zA-Z]{24,}\b/g,
+    severity: 'critical',
+  },
+  {
+    id: 'stripe-test-key',
+    name: 'Stripe Test API Key',
+    pattern: /\b(?:sk|rk)_test_[0-9a-zA-Z]{24,}\b/g,
+    severity: 'medium',
+  },
+  {
+    id: 'stripe-webhook-secret',
+    name: 'Stripe Webhook Secret',
+    pattern: /\bwhsec_[A-Za-z0-9]{24,}\b/g,
+    severity: 'high',
+  },
+  {
+    id: 'resend-api-key',
+    name: 'Resend API Key',
+    pattern: /\bre_[A-Za-z0-9]{6,}_[A-Za-z0-9]{16,}\b/g,
+    severity: 'high',
+  },
+  {
+    id: 'supabase-secret-key',
+    name: 'Supabase Secret Key',
+    pattern: /\bsb_secret_[A-Za-z0-9_-]{20,}\b/g,
+    severity: 'critical',
+  },
+  {
+    id: 'supabase-service-role-key',
+    name: 'Supabase Service Role Key',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+    severity: 'critical',
+    verify: (value) => decodeJwtPayload(value)?.role === 'service_role',
+  },
+  {
+    id: 'jwt',
+    name: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+    severity: 'medium',
+  },
+  {
+    id: 'google-api-key',
+    name: 'Google API Key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+    severity: 'high',
+  },
+  {
+    id: 'database-url-password',
+    name: 'Database URL with Password',
+    pattern: /\b(?:postgres(?:ql)?|mysql|mongodb(?:\+srv)?|redis|amqp):\/\/[^\s:/'"`]+:([^\s@/'"`]+)@/g,
+    severity: 'high',
+    secretGroup: 1,
+    generic: true,
+  },
+  {
+    id: 'high-entropy-string',
+    name: 'High Entropy Secret',
+    pattern: /(?:key|secret|token|passw(?:or)?d|credential|auth)[\w-]*['"`]?\s*[:=]\s*['"`]([A-Za-z0-9+/=_\-.]{20,})['"`]/gi,
+    severity: 'high',
+    secretGroup: 1,
+    minEntropy: 3.5,
+    generic: true,
+  },
+];
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Mask a secret so reports never contain the full value
+ */
+export function maskSecret(value: string): string {
+  if (value.length <= 8) return '*'.repeat(value.length);
+  const visible = value.length > 16 ? 4 : 2;
+  return value.slice(0, visible) + '*'.repeat(value.length - visible * 2) + value.slice(-visible);
+}
+
+export function fingerprintSecret(ruleId: string, file: string, value: string): string {
+  return createHash('sha256').update(`${ruleId}:${file}:${value}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * Compile user-supplied regex strings into custom rules
+ */
+export function compileCustomRules(patterns: string[]): SecretRule[] {
+  return patterns.map((source, index) => {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source, 'g');
+    } catch (error) {
+      throw new Error(`Invalid custom pattern "${source}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return {
+      id: `custom-${index + 1}`,
+      name: `Custom Pattern ${index + 1}`,
+      pattern,
+      severity: 'high' as Severity,
+    };
+  });
+}
+
+interface SecretMatch {
+  finding: SecretFinding;
+  value: string;
+}
+
+function matchContent(file: string, content: string, rules: SecretRule[]): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((lineText, index) => {
+    const claimed: Array<[number, number]> = [];
+
+    for (const rule of rules) {
+      rule.pattern.lastIndex = 0;
+      for (const match of lineText.matchAll(rule.pattern)) {
+        if (match[0].length === 0) continue;
+        const group = rule.secretGroup ?? 0;
+        const value = match[group] ?? match[0];
+        const start = (match.index ?? 0) + (group > 0 ? match[0].indexOf(value) : 0);
+        const end = start + value.length;
+
+        if (claimed.some(([s, e]) => start < e && end > s)) continue;
+        if (rule.minEntropy !== undefined && shannonEntropy(value) < rule.minEntropy) continue;
+        if (rule.generic && PLACEHOLDER_PATTERN.test(value)) continue;
+        if (rule.verify && !rule.verify(value)) continue;
+
+        claimed.push([start, end]);
+        matches.push({
+          value,
+          finding: {
+            ruleId: rule.id,
+            type: rule.name,
+            file,
+            line: index + 1,
+            column: start + 1,
+            match: maskSecret(value),
+            severity: rule.severity,
+            fingerprint: fingerprintSecret(rule.id, file, value),
+          },
+        });
+      }
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Scan a single file's content. Exposed separately so callers can check
+ * in-memory content without touching the filesystem.
+ */
+export function scanContent(file: string, content: string, rules: SecretRule[] = BUILT_IN_RULES): SecretFinding[] {
+  return matchContent(file, content, rules).map((match) => match.finding);
+}
+
+function isAllowlisted(match: SecretMatch, allowlist: SecretAllowlist, matchPatterns: RegExp[]): boolean {
+  if (allowlist.rules?.includes(match.finding.ruleId)) return true;
+  if (allowlist.baseline?.includes(match.finding.fingerprint)) return true;
+  return matchPatterns.some((pattern) => pattern.test(match.value));
+}
+
+/**
+ * Walk the project and report secrets not covered by the allowlist
+ */
+export async function scanSecrets(root: string, options: SecretScanOptions = {}): Promise<SecretScanResult> {
+  const allowlist = options.allowlist || {};
+  const rules = [...BUILT_IN_RULES, ...compileCustomRules(options.patterns || [])];
+  const matchPatterns = (allowlist.matches || []).map((source) => new RegExp(source));
+  const allowedPaths = (allowlist.paths || []).map((glob) => globToRegExp(glob));
+
+  const files = await walkProjectFiles(root, {
+    exclude: [...SECRET_SCAN_EXCLUDES, ...(options.exclude || [])],
+  });
+
+  const secrets: SecretFinding[] = [];
+  let suppressed = 0;
+  let filesScanned = 0;
+
+  for (const file of files) {
+    if (allowedPaths.some((pattern) => pattern.test(file))) continue;
+    const content = await readTextFile(path.join(root, file));
+    if (content === null) continue;
+    filesScanned++;
+
+    for (const match of matchContent(file, content, rules)) {
+      if (options.minSeverity && !meetsSeverity(match.finding.severity, options.minSeverity)) continue;
+      if (isAllowlisted(match, allowlist, matchPatterns)) {
+        suppressed++;
+        continue;
+      }
+      secrets.push(match.finding);
+    }
+  }
+
+  return {
+    filesScanned,
+    secretsFound: secrets.length,
+    secrets,
+    suppressed,
+  };
+}
+
+/**
+ * Load an allowlist/baseline file. A missing file means an empty allowlist.
+ */
+export async function loadAllowlist(filePath: string): Promise<SecretAllowlist> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return {};
+  }
+
+  let allowlist: SecretAllowlist;
+  try {
+    allowlist = JSON.parse(content) as SecretAllowlist;
+  } catch (error) {
+    throw new Error(`Invalid allowlist file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Check the value patterns now, so one bad entry names itself instead of failing every scan
+  (allowlist.matches || []).forEach((source, index) => {
+    try {
+      new RegExp(source);
+    } catch (error) {
+      throw new Error(
+        `Invalid allowlist file ${filePath}: matches[${index}] "${source}" is not a valid regular expression: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+  return allowlist;
+}
+
+/**
+ * Add the fingerprints of the given findings to the allowlist baseline
+ */
+export async function updateBaseline(
+  filePath: string,
+  allowlist: SecretAllowlist,
+  findings: SecretFinding[]
+): Promise<SecretAllowlist> {
+  const baseline = new Set(allowlist.baseline || []);
+  findings.forEach((finding) => baseline.add(finding.fingerprint));
+
+  const updated: SecretAllowlist = { ...allowlist, baseline: [...baseline].sort() };
+  await fs.writeFile(filePath, JSON.stringify(updated, null, 2) + '\n', 'utf-8');
+  return updated;
+}
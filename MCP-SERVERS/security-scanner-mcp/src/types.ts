@@ -0,0 +1,14 @@
+/**
+ * Shared types for security scanner findings
+ */
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export const SEVERITY_ORDER: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Check whether a severity is at or above the configured minimum
+ */
+export function meetsSeverity(severity: Severity, minimum: Severity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(minimum);
+}
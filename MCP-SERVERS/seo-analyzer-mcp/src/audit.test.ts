@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { auditSite, checkPage } from './audit.js';
+import { parsePage } from './page.js';
+import { loadDirectory } from './site.js';
+
+/** A page that passes every page check */
+function page(path: string, options: { title?: string; head?: string; body?: string; canonical?: string } = {}): string {
+  const url = `https://example.com${path}`;
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <title>${options.title ?? `Example page ${path}`}</title>
+  <meta name="description" content="A description of ${path} long enough to be shown in full in the search results.">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <link rel="canonical" href="${options.canonical ?? url}">
+  <meta property="og:title" content="Example"><meta property="og:description" content="Example">
+  <meta property="og:image" content="https://example.com/og.png"><meta property="og:url" content="${url}">
+  <meta property="og:type" content="website"><meta name="twitter:card" content="summary_large_image">
+  ${options.head ?? ''}
+</head>
+<body><h1>Example</h1>${options.body ?? ''}</body>
+</html>`;
+}
+
+const ruleIds = (issues: Array<{ ruleId: string }>) => issues.map(entry => entry.ruleId);
+
+describe('checkPage', () => {
+  it('should pass a complete page', () => {
+    expect(checkPage(parsePage(page('/')))).toEqual([]);
+  });
+
+  it('should report head, heading, image and structured data problems with fixes', () => {
+    const issues = checkPage(
+      parsePage(`<html><head><title>Hi</title><link rel="canonical" href="/about"><meta name="twitter:card" content="large">
+        <script type="application/ld+json">{"@context":"https://schema.org","@type":"Organization"}</script></head>
+        <body><h2>Intro</h2><h4>Detail</h4><h1></h1><img src="/a.png"><img src="/b.png" alt="IMG_2041.jpg"><a href="#missing">x</a></body></html>`)
+    );
+    expect(ruleIds(issues)).toEqual([
+      'title-length',
+      'description-missing',
+      'canonical-relative',
+      'og-missing',
+      'twitter-card-invalid',
+      'heading-skip',
+      'heading-empty',
+      'img-alt-missing',
+      'img-alt-filename',
+      'jsonld-invalid',
+      'jsonld-recommended',
+      'html-lang-missing',
+      'viewport-missing',
+      'link-fragment-missing'
+    ]);
+    expect(issues[0]).toMatchObject({
+      level: 'warning',
+      message: 'Title is too short (2 characters, expected 10 to 60): "Hi"',
+      fix: 'Write a title of 10 to 60 characters so search results show it in full'
+    });
+    expect(issues[5].message).toBe('h2 "Intro" is followed by h4 "Detail"');
+  });
+});
+
+describe('auditSite', () => {
+  let dir: string;
+
+  const write = async (path: string, content: string) => {
+    await fs.mkdir(dirname(join(dir, path)), { recursive: true });
+    await fs.writeFile(join(dir, path), content);
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'seo-audit-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should check a Next.js build against its robots.txt, sitemap and links', async () => {
+    const app = '.next/server/app';
+    await write(`${app}/index.html`, page('/', { body: '<a href="/about#team">About</a> <a href="/blog/hello">Post</a> <a href="/pricing">Pricing</a> <a href="/logo.svg">Logo</a>' }));
+    await write(`${app}/about.html`, page('/about', { body: '<h2 id="team">Team</h2>', title: 'Shared title for pages' }));
+    await write(`${app}/(marketing)/private.html`, page('/private', { head: '<meta name="robots" content="noindex">', title: 'Shared title for pages' }));
+    await write(`${app}/blog/[slug]/page.js`, '');
+    await write(`${app}/_not-found.html`, '<html></html>');
+    await write(`${app}/robots.txt.body`, 'User-agent: *\nDisallow: /private\nSitemap: https://example.com/sitemap.xml');
+    await write(
+      `${app}/sitemap.xml.body`,
+      '<urlset><url><loc>https://example.com/</loc></url><url><loc>https://example.com/private</loc></url><url><loc>https://example.com/gone</loc></url></urlset>'
+    );
+    await write('public/logo.svg', '<svg/>');
+
+    const report = await auditSite(await loadDirectory(dir, app, { maxPages: 50 }), app);
+
+    expect(report.siteIssues.map(entry => [entry.ruleId, entry.message])).toEqual([
+      ['sitemap-url-missing', 'Sitemap https://example.com/sitemap.xml lists https://example.com/gone, which does not exist']
+    ]);
+    const byPath = Object.fromEntries(report.pages.map(entry => [new URL(entry.url).pathname, entry]));
+    expect(Object.keys(byPath).sort()).toEqual(['/', '/about', '/private']);
+    expect(byPath['/'].file).toBe(join(app, 'index.html'));
+    expect(ruleIds(byPath['/'].issues)).toEqual(['link-broken']);
+    expect(byPath['/'].issues[0].message).toBe('Link to /pricing leads to a missing page');
+    expect(ruleIds(byPath['/about'].issues)).toEqual(['title-duplicate', 'not-in-sitemap']);
+    expect(ruleIds(byPath['/private'].issues)).toEqual(['title-duplicate', 'noindex-in-sitemap', 'blocked-in-sitemap']);
+    expect(byPath['/private'].score).toBe(100 - 5 - 15 - 15);
+    expect(report.pages[0].url).toBe('http://localhost/private');
+    expect(report.summary).toEqual({ pages: 3, skipped: 0, score: Math.round((85 + 94 + 65) / 3), issues: { error: 4, warning: 2, note: 1 } });
+  });
+
+  it('should report a missing robots.txt and sitemap, and leave out ignored rules', async () => {
+    await write('out/index.html', page('/', { body: '<img src="/hero.png">' }));
+    const report = await auditSite(await loadDirectory(dir, 'out', { maxPages: 50 }), 'out', { ignore: ['img-alt-missing'] });
+    expect(ruleIds(report.siteIssues)).toEqual(['robots-missing', 'sitemap-missing']);
+    expect(report.pages[0]).toMatchObject({ score: 100, issues: [] });
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Page and site audits
+ *
+ * checkPage looks at one page on its own; auditSite adds what needs the
+ * whole site: duplicate titles and descriptions, robots.txt and sitemap
+ * consistency, and internal links.
+ */
+
+import { issue, Issue, Level, score } from './findings.js';
+import { PageData } from './page.js';
+import { isAllowed, parseRobots } from './robots.js';
+import { LinkState, pageKey, Site, SitePage } from './site.js';
+import { validateJsonLd } from './structured-data.js';
+
+export const TITLE_LENGTH = { min: 10, max: 60 };
+export const DESCRIPTION_LENGTH = { min: 50, max: 160 };
+
+const OPEN_GRAPH_TAGS = ['og:title', 'og:description', 'og:image', 'og:url', 'og:type'];
+const TWITTER_CARDS = ['summary', 'summary_large_image', 'app', 'player'];
+const IMAGE_FILE = /(\.(jpe?g|png|gif|webp|avif|svg|bmp)$)|^(img|image|dsc|photo|screenshot)[-_ ]?\d+/i;
+const NON_HTTP_LINK = /^(mailto|tel|sms|javascript|data|ftp):/i;
+
+export interface PageReport {
+  url: string;
+  file?: string;
+  title?: string;
+  score: number;
+  issues: Issue[];
+}
+
+export interface SeoReport {
+  /** Directory or URL that was audited */
+  source: string;
+  summary: {
+    pages: number;
+    /** Pages beyond maxPages that were not audited */
+    skipped: number;
+    /** Average page score */
+    score: number;
+    issues: Record<Level, number>;
+  };
+  /** robots.txt and sitemap problems */
+  siteIssues: Issue[];
+  /** Lowest score first */
+  pages: PageReport[];
+}
+
+const isAbsolute = (url: string) => /^https?:\/\//i.test(url);
+
+function fragment(hash: string): string {
+  try {
+    return decodeURIComponent(hash.slice(1));
+  } catch {
+    return hash.slice(1);
+  }
+}
+
+function lengthIssue(ruleId: string, label: string, value: string, limits: { min: number; max: number }): Issue[] {
+  if (value.length >= limits.min && value.length <= limits.max) return [];
+  const problem = value.length < limits.min ? 'short' : 'long';
+  return [issue(ruleId, `${label} is too ${problem} (${value.length} characters, expected ${limits.min} to ${limits.max}): "${value}"`)];
+}
+
+/**
+ * Rules that need only the page: head tags, headings, images, structured
+ * data, and links to anchors on the page itself
+ */
+export function checkPage(data: PageData): Issue[] {
+  const issues: Issue[] = [];
+
+  if (data.titles.length === 0 || data.titles.every(title => title === '')) issues.push(issue('title-missing', 'The page has no title'));
+  else {
+    if (data.titles.length > 1) issues.push(issue('title-multiple', `The page has ${data.titles.length} titles`));
+    issues.push(...lengthIssue('title-length', 'Title', data.titles[0], TITLE_LENGTH));
+  }
+
+  if (data.descriptions.length === 0 || data.descriptions.every(description => description === '')) {
+    issues.push(issue('description-missing', 'The page has no meta description'));
+  } else {
+    if (data.descriptions.length > 1) issues.push(issue('description-multiple', `The page has ${data.descriptions.length} meta descriptions`));
+    issues.push(...lengthIssue('description-length', 'Meta description', data.descriptions[0], DESCRIPTION_LENGTH));
+  }
+
+  if (data.canonicals.length === 0) issues.push(issue('canonical-missing', 'The page has no canonical URL'));
+  else if (new Set(data.canonicals).size > 1) {
+    issues.push(issue('canonical-multiple', `The page has ${data.canonicals.length} canonical URLs: ${data.canonicals.join(', ')}`));
+  } else if (!isAbsolute(data.canonicals[0])) {
+    issues.push(issue('canonical-relative', `Canonical URL "${data.canonicals[0]}" is relative`, data.canonicals[0]));
+  }
+
+  const missingOpenGraph = OPEN_GRAPH_TAGS.filter(tag => !data.openGraph[tag]);
+  if (missingOpenGraph.length > 0) issues.push(issue('og-missing', `Missing ${missingOpenGraph.join(', ')}`));
+  const ogImage = data.openGraph['og:image'];
+  if (ogImage && !isAbsolute(ogImage)) issues.push(issue('og-image-relative', `og:image "${ogImage}" is relative`, ogImage));
+
+  const card = data.twitter['twitter:card'];
+  if (!card) issues.push(issue('twitter-card-missing', 'The page has no twitter:card'));
+  else if (!TWITTER_CARDS.includes(card)) issues.push(issue('twitter-card-invalid', `twitter:card "${card}" is not a card type`));
+
+  const h1 = data.headings.filter(heading => heading.level === 1);
+  if (h1.length === 0) issues.push(issue('h1-missing', 'The page has no h1'));
+  if (h1.length > 1) issues.push(issue('h1-multiple', `The page has ${h1.length} h1 elements: ${h1.map(heading => `"${heading.text}"`).join(', ')}`));
+  data.headings.forEach((heading, index) => {
+    const previous = data.headings[index - 1];
+    if (previous && heading.level > previous.level + 1) {
+      issues.push(
+        issue('heading-skip', `h${previous.level} "${previous.text}" is followed by h${heading.level} "${heading.text}"`, `h${heading.level}`)
+      );
+    }
+    if (heading.text === '') issues.push(issue('heading-empty', `An h${heading.level} has no text`, `h${heading.level}`));
+  });
+
+  for (const image of data.images) {
+    if (image.alt === null) issues.push(issue('img-alt-missing', `Image ${image.src || '(no src)'} has no alt attribute`, image.html));
+    else if (IMAGE_FILE.test(image.alt.trim())) issues.push(issue('img-alt-filename', `Image alt text "${image.alt}" is a file name`, image.html));
+  }
+
+  for (const block of data.jsonLd) issues.push(...validateJsonLd(block.content, `JSON-LD block ${block.index}`));
+
+  if (!data.lang) issues.push(issue('html-lang-missing', 'The <html> element has no lang attribute'));
+  if (!data.viewport) issues.push(issue('viewport-missing', 'The page has no viewport meta tag'));
+
+  for (const link of new Set(data.links.map(entry => entry.href))) {
+    if (link.startsWith('#') && link.length > 1 && !data.ids.has(fragment(link))) {
+      issues.push(issue('link-fragment-missing', `Link to "${link}" has no matching id on the page`, link));
+    }
+  }
+  return issues;
+}
+
+/** The origin most absolute canonical and og:url tags use: the public site URL */
+function inferSiteOrigin(pages: SitePage[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const page of pages) {
+    for (const url of [...page.data.canonicals, page.data.openGraph['og:url']]) {
+      if (!url || !isAbsolute(url) || !URL.canParse(url)) continue;
+      const origin = new URL(url).origin;
+      counts.set(origin, (counts.get(origin) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function duplicates(pages: SitePage[], value: (page: SitePage) => string | undefined): Map<string, SitePage[]> {
+  const groups = new Map<string, SitePage[]>();
+  for (const page of pages) {
+    const key = value(page);
+    if (key) groups.set(key, [...(groups.get(key) ?? []), page]);
+  }
+  return new Map([...groups].filter(([, group]) => group.length > 1));
+}
+
+export async function auditSite(site: Site, source: string, options: { siteUrl?: string; ignore?: string[] } = {}): Promise<SeoReport> {
+  const origins = new Set([site.origin, inferSiteOrigin(site.pages)]);
+  if (options.siteUrl) origins.add(new URL(options.siteUrl).origin);
+  /** Path on this site, or undefined for external and non-HTTP URLs */
+  const internalPath = (href: string, base: string): { path: string; hash: string } | undefined => {
+    if (NON_HTTP_LINK.test(href)) return undefined;
+    try {
+      const url = new URL(href, base);
+      return origins.has(url.origin) ? { path: url.pathname, hash: url.hash } : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+  const states = new Map<string, Promise<LinkState>>();
+  const check = (path: string) => {
+    const key = pageKey(path);
+    if (!states.has(key)) states.set(key, site.check(path));
+    return states.get(key)!;
+  };
+  const byKey = new Map(site.pages.map(page => [page.key, page]));
+
+  const siteIssues: Issue[] = [];
+  const robots = site.robots === null ? null : parseRobots(site.robots);
+  if (!robots) siteIssues.push(issue('robots-missing', 'No robots.txt was found'));
+  else {
+    if (!isAllowed(robots, '/')) siteIssues.push(issue('robots-blocks-all', 'robots.txt disallows / for all search engines'));
+    if (robots.sitemaps.length === 0) siteIssues.push(issue('robots-no-sitemap', 'robots.txt has no Sitemap line'));
+  }
+
+  const sitemapKeys = new Set<string>();
+  if (site.sitemaps.length === 0) siteIssues.push(issue('sitemap-missing', 'No sitemap.xml was found'));
+  for (const sitemap of site.sitemaps) {
+    if (sitemap.error) siteIssues.push(issue('sitemap-invalid', `Sitemap ${sitemap.url}: ${sitemap.error}`, sitemap.url));
+    for (const url of sitemap.urls) {
+      const internal = internalPath(url, site.origin);
+      if (!internal) continue;
+      sitemapKeys.add(pageKey(internal.path));
+      if ((await check(internal.path)) === 'missing') {
+        siteIssues.push(issue('sitemap-url-missing', `Sitemap ${sitemap.url} lists ${url}, which does not exist`, url));
+      }
+    }
+  }
+  const hasSitemap = site.sitemaps.some(sitemap => !sitemap.error);
+
+  const titles = duplicates(site.pages, page => page.data.titles[0]);
+  const descriptions = duplicates(site.pages, page => page.data.descriptions[0]);
+  const others = (group: SitePage[], page: SitePage) =>
+    group
+      .filter(other => other !== page)
+      .map(other => new URL(other.url).pathname)
+      .join(', ');
+
+  const reports: PageReport[] = [];
+  for (const page of site.pages) {
+    const { data } = page;
+    const issues = checkPage(data);
+    const path = new URL(page.url).pathname;
+
+    const sameTitle = titles.get(data.titles[0]);
+    if (sameTitle) issues.push(issue('title-duplicate', `The title is also used by ${others(sameTitle, page)}`));
+    const sameDescription = descriptions.get(data.descriptions[0]);
+    if (sameDescription) issues.push(issue('description-duplicate', `The meta description is also used by ${others(sameDescription, page)}`));
+
+    const canonical = data.canonicals.length === 1 ? internalPath(data.canonicals[0], page.url) : undefined;
+    if (canonical && (await check(canonical.path)) === 'missing') {
+      issues.push(issue('canonical-broken', `Canonical URL ${data.canonicals[0]} does not exist`, data.canonicals[0]));
+    }
+
+    const noindex = data.robots.includes('noindex') || data.robots.includes('none');
+    const blocked = robots !== null && !isAllowed(robots, path);
+    const canonicalElsewhere = canonical !== undefined && pageKey(canonical.path) !== page.key;
+    if (sitemapKeys.has(page.key)) {
+      if (noindex) issues.push(issue('noindex-in-sitemap', 'The sitemap lists this page, but it is marked noindex'));
+      if (blocked) issues.push(issue('blocked-in-sitemap', 'The sitemap lists this page, but robots.txt disallows it'));
+      if (canonicalElsewhere) {
+        issues.push(issue('canonical-elsewhere-in-sitemap', `The sitemap lists this page, but its canonical URL is ${data.canonicals[0]}`));
+      }
+    } else if (hasSitemap && !noindex && !blocked && !canonicalElsewhere) {
+      issues.push(issue('not-in-sitemap', 'The page is indexable but not in the sitemap'));
+    }
+
+    for (const href of new Set(data.links.map(link => link.href))) {
+      if (href.startsWith('#')) continue;
+      const target = internalPath(href, page.url);
+      if (!target) continue;
+      const state = await check(target.path);
+      if (state === 'missing') {
+        issues.push(issue('link-broken', `Link to ${href} leads to a missing page`, href));
+      } else if (target.hash.length > 1) {
+        const linked = byKey.get(pageKey(target.path));
+        if (linked && !linked.data.ids.has(fragment(target.hash))) {
+          issues.push(issue('link-fragment-missing', `Link to ${href} has no matching id on the target page`, href));
+        }
+      }
+    }
+
+    const kept = issues.filter(entry => !options.ignore?.includes(entry.ruleId));
+    reports.push({
+      url: page.url,
+      ...(page.file && { file: page.file }),
+      ...(data.titles[0] && { title: data.titles[0] }),
+      score: score(kept),
+      issues: kept
+    });
+  }
+
+  const keptSiteIssues = siteIssues.filter(entry => !options.ignore?.includes(entry.ruleId));
+  const counts: Record<Level, number> = { error: 0, warning: 0, note: 0 };
+  for (const entry of [...keptSiteIssues, ...reports.flatMap(report => report.issues)]) counts[entry.level]++;
+  const average = reports.length > 0 ? reports.reduce((total, report) => total + report.score, 0) / reports.length : 0;
+
+  return {
+    source,
+    summary: { pages: reports.length, skipped: site.skipped, score: Math.round(average), issues: counts },
+    siteIssues: keptSiteIssues,
+    pages: reports.sort((a, b) => a.score - b.score || a.url.localeCompare(b.url))
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Audit rules and the issues they report
+ */
+
+export type Level = 'error' | 'warning' | 'note';
+
+export type Category =
+  | 'title'
+  | 'description'
+  | 'canonical'
+  | 'social'
+  | 'headings'
+  | 'images'
+  | 'structured-data'
+  | 'indexing'
+  | 'links'
+  | 'mobile';
+
+export interface Rule {
+  id: string;
+  category: Category;
+  level: Level;
+  description: string;
+  /** How to fix it */
+  help: string;
+}
+
+export interface Issue {
+  ruleId: string;
+  level: Level;
+  message: string;
+  fix: string;
+  /** The tag, URL or JSON-LD block concerned */
+  target?: string;
+}
+
+const rule = (id: string, category: Category, level: Level, description: string, help: string): Rule => ({
+  id,
+  category,
+  level,
+  description,
+  help
+});
+
+export const RULES: Record<string, Rule> = Object.fromEntries(
+  [
+    rule('title-missing', 'title', 'error', 'Page has no <title>', 'Add a <title> of 10 to 60 characters that describes the page'),
+    rule('title-multiple', 'title', 'warning', 'Page has several <title> elements', 'Keep one <title> in <head>'),
+    rule('title-length', 'title', 'warning', 'Title is too short or too long', 'Write a title of 10 to 60 characters so search results show it in full'),
+    rule('title-duplicate', 'title', 'warning', 'Title is shared with other pages', 'Give each page a title of its own'),
+    rule('description-missing', 'description', 'error', 'Page has no meta description', 'Add <meta name="description"> with a 50 to 160 character summary'),
+    rule('description-multiple', 'description', 'warning', 'Page has several meta descriptions', 'Keep one <meta name="description">'),
+    rule('description-length', 'description', 'warning', 'Meta description is too short or too long', 'Write a description of 50 to 160 characters'),
+    rule('description-duplicate', 'description', 'warning', 'Meta description is shared with other pages', 'Give each page a description of its own'),
+    rule('canonical-missing', 'canonical', 'warning', 'Page has no canonical URL', 'Add <link rel="canonical" href="..."> with the absolute URL of the page'),
+    rule('canonical-multiple', 'canonical', 'error', 'Page has several canonical URLs', 'Keep one <link rel="canonical">; search engines ignore conflicting ones'),
+    rule('canonical-relative', 'canonical', 'warning', 'Canonical URL is relative', 'Use an absolute URL, including the protocol and domain'),
+    rule('canonical-broken', 'canonical', 'error', 'Canonical URL points to a page that does not exist', 'Point the canonical URL at an existing, indexable page'),
+    rule('og-missing', 'social', 'warning', 'Open Graph tags are missing', 'Add og:title, og:description, og:image, og:url and og:type meta tags'),
+    rule('og-image-relative', 'social', 'warning', 'og:image is not an absolute URL', 'Use an absolute https URL for og:image; social networks do not resolve relative ones'),
+    rule('twitter-card-missing', 'social', 'warning', 'Page has no twitter:card', 'Add <meta name="twitter:card" content="summary_large_image">'),
+    rule('twitter-card-invalid', 'social', 'error', 'twitter:card has an unknown type', 'Use summary, summary_large_image, app or player'),
+    rule('h1-missing', 'headings', 'error', 'Page has no <h1>', 'Add one <h1> stating the topic of the page'),
+    rule('h1-multiple', 'headings', 'warning', 'Page has several <h1> elements', 'Keep one <h1> and use <h2> to <h6> for sections'),
+    rule('heading-skip', 'headings', 'warning', 'Heading levels are skipped', 'Nest headings one level at a time, e.g. <h2> after <h1>'),
+    rule('heading-empty', 'headings', 'warning', 'Heading has no text', 'Give the heading text, or remove it'),
+    rule('img-alt-missing', 'images', 'error', 'Image has no alt attribute', 'Describe the image in alt, or use alt="" if it is decorative'),
+    rule('img-alt-filename', 'images', 'warning', 'Image alt text is a file name', 'Describe what the image shows instead of naming the file'),
+    rule('jsonld-syntax', 'structured-data', 'error', 'JSON-LD block is not valid JSON', 'Fix the JSON; a syntax error hides the whole block from search engines'),
+    rule('jsonld-invalid', 'structured-data', 'error', 'Structured data is missing required properties', 'Add the properties search engines require for the type'),
+    rule('jsonld-recommended', 'structured-data', 'note', 'Structured data is missing recommended properties', 'Add the recommended properties to qualify for rich results'),
+    rule('html-lang-missing', 'mobile', 'warning', '<html> has no lang attribute', 'Set the language of the page, e.g. <html lang="en">'),
+    rule('viewport-missing', 'mobile', 'warning', 'Page has no viewport meta tag', 'Add <meta name="viewport" content="width=device-width, initial-scale=1">'),
+    rule('noindex-in-sitemap', 'indexing', 'error', 'Sitemap lists a page marked noindex', 'Remove the page from the sitemap, or drop noindex'),
+    rule('blocked-in-sitemap', 'indexing', 'error', 'Sitemap lists a page robots.txt disallows', 'Remove the page from the sitemap, or allow it in robots.txt'),
+    rule('canonical-elsewhere-in-sitemap', 'indexing', 'warning', 'Sitemap lists a page whose canonical URL is another page', 'List only canonical URLs in the sitemap'),
+    rule('not-in-sitemap', 'indexing', 'note', 'Indexable page is not in the sitemap', 'Add the page to the sitemap so it is found without links'),
+    rule('link-broken', 'links', 'error', 'Internal link points to a page that does not exist', 'Fix the link target or remove the link'),
+    rule('link-fragment-missing', 'links', 'warning', 'Link points to an anchor that does not exist', 'Link to an existing id on the target page'),
+    rule('robots-missing', 'indexing', 'warning', 'Site has no robots.txt', 'Add robots.txt with the crawl rules and a Sitemap line'),
+    rule('robots-blocks-all', 'indexing', 'error', 'robots.txt disallows the whole site', 'Remove "Disallow: /" unless the site must stay out of search engines'),
+    rule('robots-no-sitemap', 'indexing', 'note', 'robots.txt does not name the sitemap', 'Add "Sitemap: https://<domain>/sitemap.xml" to robots.txt'),
+    rule('sitemap-missing', 'indexing', 'warning', 'Site has no sitemap', 'Publish sitemap.xml listing the indexable pages'),
+    rule('sitemap-invalid', 'indexing', 'error', 'Sitemap cannot be read', 'Serve a valid <urlset> or <sitemapindex> XML document'),
+    rule('sitemap-url-missing', 'indexing', 'error', 'Sitemap lists a page that does not exist', 'Remove the URL from the sitemap or restore the page')
+  ].map(entry => [entry.id, entry])
+);
+
+export function issue(ruleId: string, message: string, target?: string): Issue {
+  const { level, help } = RULES[ruleId];
+  return { ruleId, level, message, fix: help, ...(target !== undefined && { target }) };
+}
+
+/** Points a broken rule costs a page; each rule counts once however often it fires */
+export const PENALTIES: Record<Level, number> = { error: 15, warning: 5, note: 1 };
+
+/** 100 minus the penalty of each distinct rule the issues break, at least 0 */
+export function score(issues: Issue[]): number {
+  const broken = new Map(issues.map(entry => [entry.ruleId, entry.level]));
+  return Math.max(0, 100 - [...broken.values()].reduce((total, level) => total + PENALTIES[level], 0));
+}
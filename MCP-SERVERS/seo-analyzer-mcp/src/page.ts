@@ -0,0 +1,103 @@
+/**
+ * What the audit reads from a page: head tags, headings, images, links and
+ * JSON-LD blocks
+ *
+ * Pages are parsed once with jsdom and reduced to plain data, so the rules
+ * don't touch the DOM.
+ */
+
+import { JSDOM, VirtualConsole } from 'jsdom';
+
+export interface Heading {
+  level: number;
+  text: string;
+}
+
+export interface Image {
+  src: string;
+  /** null when the attribute is missing; "" marks a decorative image */
+  alt: string | null;
+  html: string;
+}
+
+export interface Link {
+  href: string;
+  text: string;
+  rel: string[];
+}
+
+export interface JsonLdBlock {
+  content: string;
+  /** 1-based position among the page's JSON-LD scripts */
+  index: number;
+}
+
+export interface PageData {
+  lang?: string;
+  titles: string[];
+  descriptions: string[];
+  canonicals: string[];
+  /** Directives from meta robots and googlebot, lowercased */
+  robots: string[];
+  viewport?: string;
+  /** og:* properties; the first value of each */
+  openGraph: Record<string, string>;
+  /** twitter:* names; the first value of each */
+  twitter: Record<string, string>;
+  headings: Heading[];
+  images: Image[];
+  links: Link[];
+  jsonLd: JsonLdBlock[];
+  /** Element ids, for fragment links */
+  ids: Set<string>;
+}
+
+const text = (element: Element) => (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+export function parsePage(html: string): PageData {
+  // Scripts don't run; the virtual console swallows CSS parse noise
+  const { document } = new JSDOM(html, { virtualConsole: new VirtualConsole() }).window;
+  const all = (selector: string) => Array.from(document.querySelectorAll(selector));
+  const meta = (attribute: 'name' | 'property', prefix: string) => {
+    const values: Record<string, string> = {};
+    for (const element of all(`meta[${attribute}^="${prefix}:"]`)) {
+      const key = element.getAttribute(attribute)!.toLowerCase();
+      if (!(key in values)) values[key] = (element.getAttribute('content') ?? '').trim();
+    }
+    return values;
+  };
+
+  return {
+    lang: document.documentElement.getAttribute('lang') ?? undefined,
+    titles: all('head title').map(text),
+    descriptions: all('meta[name="description" i]').map(element => (element.getAttribute('content') ?? '').trim()),
+    canonicals: all('link[rel~="canonical" i]').map(element => (element.getAttribute('href') ?? '').trim()),
+    robots: all('meta[name="robots" i], meta[name="googlebot" i]').flatMap(element =>
+      (element.getAttribute('content') ?? '')
+        .toLowerCase()
+        .split(',')
+        .map(directive => directive.trim())
+        .filter(Boolean)
+    ),
+    viewport: document.querySelector('meta[name="viewport" i]')?.getAttribute('content') ?? undefined,
+    // Some sites use name="og:..."; both count
+    openGraph: { ...meta('name', 'og'), ...meta('property', 'og') },
+    twitter: { ...meta('property', 'twitter'), ...meta('name', 'twitter') },
+    headings: all('h1, h2, h3, h4, h5, h6').map(element => ({
+      level: Number(element.tagName[1]),
+      text: text(element) || (element.querySelector('img[alt]')?.getAttribute('alt') ?? '').trim()
+    })),
+    images: all('img').map(element => ({
+      src: element.getAttribute('src') ?? element.getAttribute('srcset')?.split(/\s/)[0] ?? '',
+      alt: element.getAttribute('alt'),
+      html: element.outerHTML.length > 120 ? `${element.outerHTML.slice(0, 117)}...` : element.outerHTML
+    })),
+    links: all('a[href]').map(element => ({
+      href: element.getAttribute('href')!.trim(),
+      text: text(element),
+      rel: (element.getAttribute('rel') ?? '').toLowerCase().split(/\s+/).filter(Boolean)
+    })),
+    jsonLd: all('script[type="application/ld+json" i]').map((element, index) => ({ content: element.textContent ?? '', index: index + 1 })),
+    ids: new Set(all('[id], a[name]').map(element => element.getAttribute('id') ?? element.getAttribute('name')!))
+  };
+}
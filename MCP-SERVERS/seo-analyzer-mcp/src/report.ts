@@ -0,0 +1,50 @@
+/**
+ * Markdown rendering of SEO reports
+ */
+
+import { SeoReport } from './audit.js';
+import { Issue } from './findings.js';
+
+export type ReportFormat = 'json' | 'markdown';
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function issueTable(issues: Issue[]): string[] {
+  return [
+    '| Level | Rule | Issue | Fix |',
+    '|---|---|---|---|',
+    ...issues.map(entry => `| ${entry.level} | ${entry.ruleId} | ${cell(entry.message)} | ${cell(entry.fix)} |`),
+    ''
+  ];
+}
+
+export function renderMarkdown(report: SeoReport): string {
+  const { summary } = report;
+  const lines = [
+    '# SEO Report',
+    '',
+    `**Source:** ${report.source}`,
+    '',
+    '| Metric | Value |',
+    '|--------|-------|',
+    `| Pages | ${summary.pages}${summary.skipped > 0 ? ` (${summary.skipped} more not audited)` : ''} |`,
+    `| Average score | ${summary.score}/100 |`,
+    `| Issues | ${summary.issues.error} errors, ${summary.issues.warning} warnings, ${summary.issues.note} notes |`,
+    '',
+    '## Site',
+    ''
+  ];
+  if (report.siteIssues.length === 0) lines.push('robots.txt and the sitemap are in order.', '');
+  else lines.push(...issueTable(report.siteIssues));
+
+  lines.push('## Pages', '');
+  for (const page of report.pages) {
+    lines.push(`### ${page.score}/100 ${new URL(page.url).pathname}`, '');
+    if (page.title || page.file) lines.push([page.title && `"${page.title}"`, page.file && `\`${page.file}\``].filter(Boolean).join(' — '), '');
+    if (page.issues.length === 0) lines.push('No issues.', '');
+    else lines.push(...issueTable(page.issues));
+  }
+  return lines.join('\n');
+}
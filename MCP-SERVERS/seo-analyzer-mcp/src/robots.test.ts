@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { isAllowed, parseRobots, parseSitemap } from './robots.js';
+
+describe('robots.txt', () => {
+  const robots = parseRobots(
+    [
+      'User-agent: *',
+      'Disallow: /admin',
+      'Allow: /admin/public',
+      'Disallow: /*.pdf$',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: Bingbot',
+      'Disallow: /drafts/ # not ready',
+      '',
+      'Sitemap: https://example.com/sitemap.xml'
+    ].join('\n')
+  );
+
+  it('should apply the longest matching rule of the most specific group', () => {
+    expect(isAllowed(robots, '/admin/users', 'other-bot')).toBe(false);
+    expect(isAllowed(robots, '/admin/public/page', 'other-bot')).toBe(true);
+    expect(isAllowed(robots, '/files/guide.pdf', 'other-bot')).toBe(false);
+    expect(isAllowed(robots, '/files/guide.pdf?download=1', 'other-bot')).toBe(true);
+    // Googlebot has its own group, so the * rules don't apply to it
+    expect(isAllowed(robots, '/admin/users')).toBe(true);
+    expect(isAllowed(robots, '/drafts/post', 'bingbot')).toBe(false);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('should treat an empty Disallow as allowing everything', () => {
+    expect(isAllowed(parseRobots('User-agent: *\nDisallow:'), '/')).toBe(true);
+    expect(isAllowed(parseRobots('User-agent: *\nDisallow: /'), '/')).toBe(false);
+  });
+});
+
+describe('parseSitemap', () => {
+  it('should read page URLs and child sitemaps', () => {
+    expect(
+      parseSitemap(
+        '<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"><url><loc> https://example.com/?a=1&amp;b=2 </loc></url><url><loc><![CDATA[https://example.com/about]]></loc><lastmod>2024-01-01</lastmod></url></urlset>'
+      )
+    ).toEqual({ urls: ['https://example.com/?a=1&b=2', 'https://example.com/about'], sitemaps: [] });
+    expect(parseSitemap('<sitemapindex><sitemap><loc>https://example.com/posts.xml</loc></sitemap></sitemapindex>').sitemaps).toEqual([
+      'https://example.com/posts.xml'
+    ]);
+    expect(() => parseSitemap('<html></html>')).toThrow('Not a sitemap');
+  });
+});
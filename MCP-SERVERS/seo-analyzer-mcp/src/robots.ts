@@ -0,0 +1,98 @@
+/**
+ * robots.txt and sitemap parsing
+ *
+ * robots.txt matching follows RFC 9309: the group for the most specific
+ * user agent applies, the longest matching rule wins, and Allow wins a tie.
+ */
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface Robots {
+  groups: Array<{ agents: string[]; rules: RobotsRule[] }>;
+  sitemaps: string[];
+}
+
+export function parseRobots(content: string): Robots {
+  const robots: Robots = { groups: [], sitemaps: [] };
+  let group: Robots['groups'][number] | undefined;
+  let collectingAgents = false;
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const match = /^([A-Za-z-]+)\s*:\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (key === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!collectingAgents || !group) {
+        group = { agents: [], rules: [] };
+        robots.groups.push(group);
+      }
+      group.agents.push(value.toLowerCase());
+      collectingAgents = true;
+    } else if (key === 'allow' || key === 'disallow') {
+      collectingAgents = false;
+      // An empty Disallow allows everything
+      if (group && value !== '') group.rules.push({ allow: key === 'allow', path: value });
+    } else if (key === 'sitemap') {
+      if (value) robots.sitemaps.push(value);
+    } else {
+      collectingAgents = false;
+    }
+  }
+  return robots;
+}
+
+function matches(rule: string, path: string): boolean {
+  const anchored = rule.endsWith('$');
+  const pattern = (anchored ? rule.slice(0, -1) : rule)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(path);
+}
+
+/** Whether a crawler may fetch a path (with query string) */
+export function isAllowed(robots: Robots, path: string, agent = 'googlebot'): boolean {
+  const name = agent.toLowerCase();
+  const specific = robots.groups.filter(group => group.agents.some(candidate => candidate !== '*' && name.includes(candidate)));
+  const groups = specific.length > 0 ? specific : robots.groups.filter(group => group.agents.includes('*'));
+  const rules = groups.flatMap(group => group.rules).filter(rule => matches(rule.path, path));
+  if (rules.length === 0) return true;
+  const best = rules.reduce((winner, rule) =>
+    rule.path.length > winner.path.length || (rule.path.length === winner.path.length && rule.allow) ? rule : winner
+  );
+  return best.allow;
+}
+
+export interface Sitemap {
+  /** Page URLs from <urlset> */
+  urls: string[];
+  /** Child sitemaps from <sitemapindex> */
+  sitemaps: string[];
+}
+
+const decode = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+
+export function parseSitemap(xml: string): Sitemap {
+  const locs = (container: string) =>
+    [...xml.matchAll(new RegExp(`<(?:\\w+:)?${container}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${container}>`, 'g'))]
+      .map(entry => /<(?:\w+:)?loc\b[^>]*>([\s\S]*?)<\/(?:\w+:)?loc>/.exec(entry[1])?.[1])
+      .filter((loc): loc is string => loc !== undefined)
+      .map(decode);
+  if (!/<(?:\w+:)?(urlset|sitemapindex)\b/.test(xml)) throw new Error('Not a sitemap: expected <urlset> or <sitemapindex>');
+  return { urls: locs('url'), sitemaps: locs('sitemap') };
+}
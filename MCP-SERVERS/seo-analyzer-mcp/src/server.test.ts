@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TestClient } from '@ai-dev-standards/mcp-server-base';
+import { SeoAnalyzerServer } from './server.js';
+
+function html(title: string, body = ''): string {
+  return `<!doctype html><html lang="en"><head><title>${title}</title>
+<meta name="description" content="${title}: a description long enough to be shown in full in search results.">
+<meta name="viewport" content="width=device-width"><meta property="og:title" content="${title}"><meta property="og:description" content="${title}">
+<meta property="og:image" content="https://example.com/og.png"><meta property="og:url" content="https://example.com/"><meta property="og:type" content="website">
+<meta name="twitter:card" content="summary"></head><body><h1>${title}</h1>${body}</body></html>`;
+}
+
+interface Report {
+  source: string;
+  summary: { pages: number; score: number };
+  siteIssues: Array<{ ruleId: string }>;
+  pages: Array<{ url: string; score: number; issues: Array<{ ruleId: string; message: string }> }>;
+}
+
+describe('SeoAnalyzerServer', () => {
+  let dir: string;
+  let server: SeoAnalyzerServer;
+  let client: TestClient;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'seo-analyzer-'));
+    server = new SeoAnalyzerServer();
+    client = await TestClient.connect(server);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should find the build directory and write a markdown report', async () => {
+    await fs.mkdir(join(dir, 'dist/docs'), { recursive: true });
+    await fs.writeFile(join(dir, 'dist/index.html'), html('Home page title', '<a href="/docs/">Docs</a> <a href="/missing">Missing</a>'));
+    await fs.writeFile(join(dir, 'dist/docs/index.html'), html('Documentation', '<img src="/diagram.png">'));
+
+    const json = await client.callTool<Report>('audit_site', { projectPath: dir });
+    expect(json.data.source).toBe('dist');
+    expect(json.data.summary.pages).toBe(2);
+    expect(json.data.pages.map(page => page.issues.map(entry => entry.ruleId))).toEqual([
+      ['canonical-missing', 'link-broken'],
+      ['canonical-missing', 'img-alt-missing']
+    ]);
+
+    const written = await client.callTool<{ outputFile: string }>('audit_site', { projectPath: dir, format: 'markdown', outputFile: 'reports/seo.md' });
+    expect(written.data.outputFile).toBe(join('reports', 'seo.md'));
+    const markdown = await fs.readFile(join(dir, 'reports/seo.md'), 'utf-8');
+    expect(markdown).toContain('# SEO Report');
+    expect(markdown).toContain('| error | link-broken | Link to /missing leads to a missing page |');
+  });
+
+  it('should crawl a running site', async () => {
+    const pages: Record<string, string> = {
+      '/': html('Local home page', '<a href="/about">About</a> <a href="https://example.com/gone">Gone</a>'),
+      '/about': html('About this site', '<a href="/">Home</a>'),
+      '/robots.txt': 'User-agent: *\nAllow: /\nSitemap: http://localhost/sitemap.xml',
+      '/sitemap.xml': '<urlset><url><loc>https://example.com/</loc></url><url><loc>https://example.com/about</loc></url></urlset>'
+    };
+    const http: Server = createServer((request, response) => {
+      const body = pages[request.url!.split('?')[0]];
+      response.writeHead(body ? 200 : 404, { 'content-type': request.url!.endsWith('.xml') ? 'application/xml' : 'text/html' });
+      response.end(body ?? 'Not found');
+    });
+    await new Promise<void>(resolve => http.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+    pages['/robots.txt'] = pages['/robots.txt'].replace('http://localhost', url);
+
+    try {
+      await client.callTool('configure', { projectPath: dir, siteUrl: 'https://example.com', ignore: ['canonical-missing'] });
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const result = await client.callTool<Report>('audit_site', { url });
+
+      expect(result.isError).toBe(false);
+      expect(result.data.siteIssues).toEqual([]);
+      const byPath = Object.fromEntries(result.data.pages.map(page => [new URL(page.url).pathname, page]));
+      expect(Object.keys(byPath).sort()).toEqual(['/', '/about']);
+      expect(byPath['/'].issues.map(entry => entry.message)).toEqual(['Link to https://example.com/gone leads to a missing page']);
+      expect(byPath['/about'].score).toBe(100);
+    } finally {
+      await new Promise(resolve => http.close(resolve));
+    }
+  });
+
+  it('should audit a single page and validate structured data', async () => {
+    const page = await client.callTool<{ url: string; title: string; score: number; issues: Array<{ ruleId: string }> }>('audit_page', {
+      html: '<html lang="en"><head><title>Short</title></head><body><h1>Hello</h1></body></html>'
+    });
+    expect(page.data).toMatchObject({ url: 'inline', title: 'Short' });
+    expect(page.data.issues.map(entry => entry.ruleId)).toEqual([
+      'title-length',
+      'description-missing',
+      'canonical-missing',
+      'og-missing',
+      'twitter-card-missing',
+      'viewport-missing'
+    ]);
+
+    const both = await client.callTool('audit_page', { html: '<p></p>', url: 'http://localhost' });
+    expect(both.isError).toBe(true);
+
+    const data = await client.callTool<{ valid: boolean; blocks: number; issues: Array<{ message: string }> }>('validate_structured_data', {
+      html: '<script type="application/ld+json">{"@context":"https://schema.org","@type":"Organization","name":"Acme","url":"https://acme.test","logo":"https://acme.test/logo.png"}</script><script type="application/ld+json">{"@context":"https://schema.org","@type":"Product"}</script>'
+    });
+    expect(data.data.valid).toBe(false);
+    expect(data.data.blocks).toBe(2);
+    expect(data.data.issues.map(entry => entry.message)).toEqual([
+      'JSON-LD block 1: Organization (Organization) could add sameAs',
+      'JSON-LD block 2: Product (Product) is missing name, offers or review or aggregateRating',
+      'JSON-LD block 2: Product (Product) could add image, description, brand, sku'
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * SEO Analyzer MCP server
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import { BaseMCPServer, ToolContext, ToolError, z } from '@ai-dev-standards/mcp-server-base';
+import { auditSite, checkPage, PageReport } from './audit.js';
+import { RULES, score } from './findings.js';
+import { parsePage } from './page.js';
+import { renderMarkdown, ReportFormat } from './report.js';
+import { BUILD_DIRECTORIES, crawl, loadDirectory, Site } from './site.js';
+import { validateJsonLd } from './structured-data.js';
+
+interface Settings {
+  directory?: string;
+  url?: string;
+  siteUrl?: string;
+  maxPages: number;
+  ignore: string[];
+}
+
+const FETCH_TIMEOUT_MS = 15000;
+
+export class SeoAnalyzerServer extends BaseMCPServer {
+  constructor() {
+    super('seo-analyzer-mcp', '1.0.0');
+
+    this.addConfigureTool({
+      settings: {
+        directory: {
+          type: 'string',
+          description: `Built HTML to audit, relative to the project (default: the first of ${BUILD_DIRECTORIES.join(', ')} that has HTML)`
+        },
+        url: { type: 'string', description: 'Crawl this URL instead of a directory, e.g. http://localhost:3000' },
+        siteUrl: {
+          type: 'string',
+          description: 'Public URL of the site, e.g. https://example.com (default: inferred from canonical and og:url tags)'
+        },
+        maxPages: { type: 'number', minimum: 1, description: 'Pages to audit at most (default: 200)' },
+        ignore: { type: 'array', items: { type: 'string', enum: Object.keys(RULES) }, description: 'Rule ids to leave out of reports' }
+      }
+    });
+
+    this.addTool({
+      name: 'audit_site',
+      description:
+        'Audit every page of a site, from a directory of built HTML (out/, dist/, .next/server/app) or by crawling a URL: titles, descriptions, canonical tags, Open Graph and Twitter cards, headings, image alt text, JSON-LD, robots.txt and sitemap consistency, and broken internal links. Returns a score per page with fixes',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        directory: z.string().optional().describe('Built HTML, relative to the project'),
+        url: z.string().optional().describe('Site to crawl, e.g. http://localhost:3000'),
+        format: z.enum(['json', 'markdown']).default('json'),
+        outputFile: z.string().optional().describe('Write the report to this file, relative to the project')
+      }),
+      handler: async (args, context) => {
+        const settings = this.settings(context);
+        const url = args.url ?? (args.directory ? undefined : settings.url);
+        const root = url && !args.outputFile ? undefined : this.root(context);
+
+        let site: Site;
+        let source: string;
+        try {
+          if (url) {
+            source = url;
+            site = await crawl(url, settings);
+          } else {
+            source = args.directory ?? settings.directory ?? (await this.buildDirectory(root!));
+            site = await loadDirectory(root!, source, settings);
+          }
+        } catch (error) {
+          if (error instanceof ToolError) throw error;
+          throw new ToolError('not_found', (error as Error).message);
+        }
+
+        const report = await auditSite(site, source, settings);
+        const format: ReportFormat = args.format ?? 'json';
+        const rendered = format === 'markdown' ? renderMarkdown(report) : JSON.stringify(report, null, 2);
+        if (args.outputFile) {
+          const path = resolve(root!, args.outputFile);
+          await fs.mkdir(dirname(path), { recursive: true });
+          await fs.writeFile(path, `${rendered}\n`);
+          return { summary: report.summary, outputFile: relative(root!, path) };
+        }
+        if (format === 'json') return report;
+        return { content: [{ type: 'text', text: rendered }] };
+      }
+    });
+
+    this.addTool({
+      name: 'audit_page',
+      description:
+        'Audit one page on its own (inline HTML, a file or a URL): head tags, headings, image alt text and JSON-LD. Site checks such as duplicates, links and the sitemap need audit_site',
+      inputSchema: z.object({
+        projectPath: z.string().optional(),
+        html: z.string().optional(),
+        file: z.string().optional().describe('HTML file, relative to the project'),
+        url: z.string().optional().describe('Page to fetch')
+      }),
+      handler: async (args, context): Promise<PageReport> => {
+        const given = [args.html, args.file, args.url].filter(value => value !== undefined).length;
+        if (given !== 1) throw new ToolError('invalid_arguments', 'Pass exactly one of html, file or url');
+
+        let html = args.html;
+        if (args.file) {
+          html = (await fs.readFile(resolve(this.root(context), args.file), 'utf-8').catch(() => null)) ?? undefined;
+          if (html === undefined) throw new ToolError('not_found', `File not found: ${args.file}`);
+        } else if (args.url) {
+          const response = await fetch(args.url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }).catch(error => {
+            throw new ToolError('fetch_failed', `Could not fetch ${args.url}: ${(error as Error).message}`);
+          });
+          if (!response.ok) throw new ToolError('fetch_failed', `Could not fetch ${args.url}: HTTP ${response.status}`);
+          html = await response.text();
+        }
+
+        const data = parsePage(html!);
+        const ignore = this.settings(context).ignore;
+        const issues = checkPage(data).filter(entry => !ignore.includes(entry.ruleId));
+        return {
+          url: args.url ?? args.file ?? 'inline',
+          ...(data.titles[0] && { title: data.titles[0] }),
+          score: score(issues),
+          issues
+        };
+      }
+    });
+
+    this.addTool({
+      name: 'validate_structured_data',
+      description:
+        'Check JSON-LD against the schema.org types search engines use for rich results (Article, Product, Organization, BreadcrumbList, FAQPage, Event, Recipe, ...): JSON syntax, @context, @type, required and recommended properties, and ISO 8601 dates',
+      inputSchema: z.object({
+        jsonLd: z.union([z.string(), z.record(z.unknown()), z.array(z.unknown())]).optional().describe('JSON-LD as text or as an object'),
+        html: z.string().optional().describe('HTML whose application/ld+json scripts are checked')
+      }),
+      handler: async args => {
+        if ((args.jsonLd === undefined) === (args.html === undefined)) {
+          throw new ToolError('invalid_arguments', 'Pass exactly one of jsonLd or html');
+        }
+        const blocks =
+          args.jsonLd !== undefined
+            ? [{ content: typeof args.jsonLd === 'string' ? args.jsonLd : JSON.stringify(args.jsonLd), target: 'JSON-LD' }]
+            : parsePage(args.html!).jsonLd.map(block => ({ content: block.content, target: `JSON-LD block ${block.index}` }));
+        if (blocks.length === 0) throw new ToolError('not_found', 'The HTML has no application/ld+json scripts');
+
+        const issues = blocks.flatMap(block => validateJsonLd(block.content, block.target));
+        return { valid: !issues.some(entry => entry.level === 'error'), blocks: blocks.length, issues };
+      }
+    });
+  }
+
+  private root(context: ToolContext): string {
+    return resolve(this.requireProject(context));
+  }
+
+  private settings(context: ToolContext): Settings {
+    const settings = context.settings as Partial<Settings>;
+    return {
+      directory: settings.directory,
+      url: settings.url,
+      siteUrl: settings.siteUrl,
+      maxPages: settings.maxPages ?? 200,
+      ignore: settings.ignore ?? []
+    };
+  }
+
+  /** The first framework output folder that holds HTML */
+  private async buildDirectory(root: string): Promise<string> {
+    for (const directory of BUILD_DIRECTORIES) {
+      const entries = await fs.readdir(join(root, directory), { recursive: true }).catch(() => [] as string[]);
+      if (entries.some(entry => /\.html?$/i.test(entry))) return directory;
+    }
+    throw new ToolError('not_found', `No built HTML found in ${BUILD_DIRECTORIES.join(', ')}; build the site or pass directory or url`);
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Sites to audit: a directory of built HTML, or pages crawled from a URL
+ *
+ * Both produce the same Site: parsed pages keyed by path, robots.txt, the
+ * sitemaps, and a way to tell whether an internal URL exists.
+ */
+
+import { promises as fs } from 'fs';
+import { join, relative, sep } from 'path';
+import { PageData, parsePage } from './page.js';
+import { parseRobots, parseSitemap } from './robots.js';
+
+export interface SitePage {
+  /** Absolute URL the page is served at */
+  url: string;
+  /** Normalized path, see pageKey */
+  key: string;
+  /** Source file, relative to the project (directories only) */
+  file?: string;
+  data: PageData;
+}
+
+export interface SitemapFile {
+  url: string;
+  /** Page URLs it lists */
+  urls: string[];
+  error?: string;
+}
+
+export type LinkState = 'ok' | 'missing' | 'unchecked';
+
+export interface Site {
+  origin: string;
+  pages: SitePage[];
+  /** robots.txt content; null when the site has none */
+  robots: string | null;
+  sitemaps: SitemapFile[];
+  /** Pages found but not audited because of maxPages */
+  skipped: number;
+  /** Whether an internal URL (same site, any origin) leads somewhere */
+  check(path: string): Promise<LinkState>;
+}
+
+export interface LoadOptions {
+  maxPages: number;
+  /** Public URL of the site; its sitemap and canonical URLs count as internal */
+  siteUrl?: string;
+}
+
+/** Output folders of common frameworks, in the order they are tried */
+export const BUILD_DIRECTORIES = ['out', '.next/server/app', '.next/server/pages', 'dist', 'build', '_site', 'public'];
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_SITEMAPS = 20;
+const LOCAL_ORIGIN = 'http://localhost';
+
+function decode(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    // Malformed escapes stay as they are
+    return path;
+  }
+}
+
+/**
+ * Path for comparing URLs: "/blog/index.html", "/blog.html" and "/blog/"
+ * are all "/blog"
+ */
+export function pageKey(pathname: string): string {
+  let path = decode(pathname);
+  path = path.replace(/\/index(\.html?)?$/i, '/').replace(/\.html?$/i, '');
+  if (path.length > 1) path = path.replace(/\/+$/, '');
+  return path.startsWith('/') ? path : `/${path}`;
+}
+
+// Error pages and framework internals, not pages of the site
+const isSpecialPage = (name: string) => /^(_|404\.html?$|500\.html?$)/i.test(name);
+
+/**
+ * URL path for a file in the build directory. Next.js route groups "(name)"
+ * and parallel route slots "@name" are not part of the URL.
+ */
+function fileKey(path: string): string {
+  const segments = path.split(sep).filter(segment => !/^\(.+\)$/.test(segment) && !segment.startsWith('@'));
+  return pageKey(`/${segments.join('/')}`);
+}
+
+/** Dynamic route segments like [slug] and [...path] match any value */
+function routePattern(path: string): RegExp {
+  const pattern = fileKey(path)
+    .split('/')
+    .map(segment => (/^\[\[?\.\.\./.test(segment) ? '.*' : /^\[.+\]$/.test(segment) ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('/');
+  return new RegExp(`^${pattern}$`);
+}
+
+async function walk(directory: string, root: string, found: { html: string[]; routes: RegExp[] }): Promise<void> {
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    const full = join(directory, entry.name);
+    const path = relative(root, full);
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules' || entry.name === '.git') continue;
+      if (/^\[.+\]$/.test(entry.name)) found.routes.push(routePattern(path));
+      await walk(full, root, found);
+    } else if (/\.html?$/i.test(entry.name) && !isSpecialPage(entry.name)) {
+      if (/\[.+\]/.test(path)) found.routes.push(routePattern(path));
+      else found.html.push(full);
+    }
+  }
+}
+
+async function readFirst(paths: string[]): Promise<string | null> {
+  for (const path of paths) {
+    const content = await fs.readFile(path, 'utf-8').catch(() => null);
+    if (content !== null) return content;
+  }
+  return null;
+}
+
+/**
+ * Sitemaps named in robots.txt, else /sitemap.xml, and the sitemaps a
+ * sitemap index lists. `read` gets a sitemap by path on this site.
+ */
+async function loadSitemaps(robots: string | null, read: (path: string) => Promise<string | null>): Promise<SitemapFile[]> {
+  const named = robots ? parseRobots(robots).sitemaps : [];
+  const queue = named.length > 0 ? named : ['/sitemap.xml'];
+  const seen = new Set<string>();
+  const sitemaps: SitemapFile[] = [];
+
+  while (queue.length > 0 && sitemaps.length < MAX_SITEMAPS) {
+    const url = queue.shift()!;
+    // Sitemap URLs carry the public domain; the file is on this site
+    const path = new URL(url, LOCAL_ORIGIN).pathname;
+    if (seen.has(path)) continue;
+    seen.add(path);
+    const content = await read(path);
+    if (content === null) {
+      // A missing default sitemap is reported as no sitemap at all
+      if (named.length > 0 || sitemaps.length > 0) sitemaps.push({ url, urls: [], error: 'Not found' });
+      continue;
+    }
+    try {
+      const sitemap = parseSitemap(content);
+      sitemaps.push({ url, urls: sitemap.urls });
+      queue.push(...sitemap.sitemaps);
+    } catch (error) {
+      sitemaps.push({ url, urls: [], error: (error as Error).message });
+    }
+  }
+  return sitemaps;
+}
+
+/**
+ * A directory of built HTML. Links may also lead to files in the project's
+ * public directory, or match a dynamic route that was not prerendered.
+ */
+export async function loadDirectory(projectRoot: string, directory: string, options: LoadOptions): Promise<Site> {
+  const root = join(projectRoot, directory);
+  const stats = await fs.stat(root).catch(() => null);
+  if (!stats?.isDirectory()) throw new Error(`Directory not found: ${directory}`);
+
+  const found = { html: [] as string[], routes: [] as RegExp[] };
+  await walk(root, root, found);
+  if (found.html.length === 0) throw new Error(`No HTML files found in ${directory}`);
+  found.html.sort();
+
+  const origin = options.siteUrl ? new URL(options.siteUrl).origin : LOCAL_ORIGIN;
+  const publicDir = join(projectRoot, 'public');
+  const candidates = (path: string) => {
+    const relativePath = path.replace(/^\/+/, '');
+    // Next.js keeps metadata routes like robots.txt as <name>.body
+    return [join(root, relativePath), join(root, `${relativePath}.body`), join(publicDir, relativePath)];
+  };
+
+  const pages: SitePage[] = [];
+  for (const file of found.html.slice(0, options.maxPages)) {
+    const key = fileKey(relative(root, file));
+    pages.push({
+      url: new URL(key, origin).href,
+      key,
+      file: relative(projectRoot, file),
+      data: parsePage(await fs.readFile(file, 'utf-8'))
+    });
+  }
+  const keys = new Set(found.html.map(file => fileKey(relative(root, file))));
+  const robots = await readFirst(candidates('/robots.txt'));
+
+  return {
+    origin,
+    pages,
+    robots,
+    sitemaps: await loadSitemaps(robots, path => readFirst(candidates(path))),
+    skipped: found.html.length - pages.length,
+    async check(path) {
+      const key = pageKey(path);
+      if (keys.has(key) || found.routes.some(route => route.test(key))) return 'ok';
+      for (const candidate of candidates(decode(path))) {
+        if ((await fs.stat(candidate).catch(() => null))?.isFile()) return 'ok';
+      }
+      return 'missing';
+    }
+  };
+}
+
+async function request(url: string, method: 'GET' | 'HEAD' = 'GET'): Promise<Response | null> {
+  return fetch(url, { method, redirect: 'follow', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) }).catch(() => null);
+}
+
+/**
+ * Crawl a running site from a URL, following links on the same origin
+ * breadth first. URLs the sitemap lists are crawled too, so they are
+ * checked even when nothing links to them.
+ */
+export async function crawl(start: string, options: LoadOptions): Promise<Site> {
+  const first = new URL(/^https?:\/\//.test(start) ? start : `http://${start}`);
+  const origin = first.origin;
+  const publicOrigin = options.siteUrl ? new URL(options.siteUrl).origin : undefined;
+
+  const initial = await request(first.href);
+  if (!initial) throw new Error(`Could not fetch ${first.href}; is the site running?`);
+
+  const robotsResponse = await request(`${origin}/robots.txt`);
+  const robots = robotsResponse?.ok ? await robotsResponse.text() : null;
+  const sitemaps = await loadSitemaps(robots, async path => {
+    const response = await request(new URL(path, origin).href);
+    return response?.ok ? response.text() : null;
+  });
+
+  const statuses = new Map<string, number>();
+  const pages: SitePage[] = [];
+  const queue: URL[] = [first];
+  const queued = new Set<string>([pageKey(first.pathname)]);
+  const enqueue = (href: string, base: string) => {
+    let url: URL;
+    try {
+      url = new URL(href, base);
+    } catch {
+      return;
+    }
+    if (url.origin === publicOrigin) url = new URL(`${url.pathname}${url.search}`, origin);
+    if (url.origin !== origin || !/^https?:$/.test(url.protocol)) return;
+    const key = pageKey(url.pathname);
+    if (queued.has(key)) return;
+    queued.add(key);
+    url.hash = '';
+    queue.push(url);
+  };
+  for (const sitemap of sitemaps) for (const url of sitemap.urls) enqueue(url, origin);
+
+  let skipped = 0;
+  while (queue.length > 0) {
+    const url = queue.shift()!;
+    const key = pageKey(url.pathname);
+    const asset = /\.[a-z0-9]+$/i.test(url.pathname) && !/\.html?$/i.test(url.pathname);
+    if (pages.length >= options.maxPages) {
+      if (!asset) skipped++;
+      continue;
+    }
+    const response = url.href === first.href ? initial : await request(url.href, asset ? 'HEAD' : 'GET');
+    statuses.set(key, response?.status ?? 0);
+    if (!response?.ok || asset || !(response.headers.get('content-type') ?? '').includes('html')) continue;
+
+    const html = await response.text();
+    const data = parsePage(html);
+    const finalUrl = response.url || url.href;
+    pages.push({ url: finalUrl, key: pageKey(new URL(finalUrl).pathname), data });
+    // Redirected pages are found under both paths
+    statuses.set(pageKey(new URL(finalUrl).pathname), response.status);
+    for (const link of data.links) enqueue(link.href, finalUrl);
+  }
+
+  return {
+    origin,
+    pages,
+    robots,
+    sitemaps,
+    skipped,
+    async check(path) {
+      const status = statuses.get(pageKey(path));
+      if (status === undefined) return 'unchecked';
+      return status > 0 && status < 400 ? 'ok' : 'missing';
+    }
+  };
+}
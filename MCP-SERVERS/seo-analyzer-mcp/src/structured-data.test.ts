@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { validateJsonLd } from './structured-data.js';
+
+const messages = (content: unknown) =>
+  validateJsonLd(typeof content === 'string' ? content : JSON.stringify(content)).map(entry => `${entry.level}: ${entry.message}`);
+
+describe('validateJsonLd', () => {
+  it('should accept complete structured data', () => {
+    expect(
+      messages({
+        '@context': 'https://schema.org',
+        '@type': 'BlogPosting',
+        headline: 'Release notes',
+        author: { '@type': 'Person', name: 'Sam' },
+        datePublished: '2024-05-01T09:00:00Z',
+        dateModified: '2024-05-02',
+        image: 'https://example.com/cover.png'
+      })
+    ).toEqual([]);
+  });
+
+  it('should report syntax errors, missing context and types, required properties and dates', () => {
+    expect(messages('{"@type": "Product",}')[0]).toMatch(/^error: JSON-LD: .*JSON/);
+    expect(
+      messages({
+        '@context': 'http://example.com',
+        '@graph': [
+          { '@type': 'Product', name: 'Lamp', offers: { '@type': 'Offer', priceCurrency: 'EUR' } },
+          { '@type': 'Event', name: 'Launch', startDate: '01/06/2024', location: 'Online' },
+          { name: 'untyped' }
+        ]
+      })
+    ).toEqual([
+      'error: JSON-LD: @context must be https://schema.org',
+      'note: JSON-LD: Product (Product) could add image, description, brand, sku',
+      'error: JSON-LD: Product.offers (Offer) is missing price or priceSpecification',
+      'note: JSON-LD: Product.offers (Offer) could add availability, url',
+      'note: JSON-LD: Event (Event) could add endDate, eventStatus, image, description, offers, organizer',
+      'error: JSON-LD: Event.startDate is not an ISO 8601 date: 01/06/2024',
+      'error: JSON-LD: an entity has no @type'
+    ]);
+  });
+
+  it('should check breadcrumb and FAQ entries', () => {
+    expect(
+      messages([
+        {
+          '@context': 'https://schema.org',
+          '@type': 'BreadcrumbList',
+          itemListElement: [{ '@type': 'ListItem', position: 1, name: 'Home', item: 'https://example.com' }, { '@type': 'ListItem', name: 'Docs' }]
+        },
+        {
+          '@context': 'https://schema.org',
+          '@type': 'FAQPage',
+          mainEntity: [{ '@type': 'Question', name: 'Is it free?' }]
+        }
+      ])
+    ).toEqual([
+      'error: JSON-LD: BreadcrumbList.itemListElement[1] (ListItem) is missing position',
+      'error: JSON-LD: FAQPage.mainEntity[0] (Question) is missing acceptedAnswer or suggestedAnswer'
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * JSON-LD validation against the schema.org types search engines use for
+ * rich results
+ *
+ * Each required entry lists alternatives: one of them must be present.
+ */
+
+import { issue, Issue } from './findings.js';
+
+interface TypeRules {
+  required: string[][];
+  recommended?: string[];
+}
+
+const ARTICLE: TypeRules = { required: [['headline']], recommended: ['author', 'datePublished', 'dateModified', 'image'] };
+
+export const SCHEMA_TYPES: Record<string, TypeRules> = {
+  Article: ARTICLE,
+  NewsArticle: ARTICLE,
+  BlogPosting: ARTICLE,
+  Product: { required: [['name'], ['offers', 'review', 'aggregateRating']], recommended: ['image', 'description', 'brand', 'sku'] },
+  Offer: { required: [['price', 'priceSpecification']], recommended: ['priceCurrency', 'availability', 'url'] },
+  AggregateRating: { required: [['ratingValue'], ['ratingCount', 'reviewCount']] },
+  Organization: { required: [['name']], recommended: ['url', 'logo', 'sameAs'] },
+  LocalBusiness: { required: [['name'], ['address']], recommended: ['telephone', 'url', 'openingHoursSpecification', 'geo'] },
+  Person: { required: [['name']] },
+  WebSite: { required: [['name'], ['url']] },
+  BreadcrumbList: { required: [['itemListElement']] },
+  ListItem: { required: [['position'], ['name', 'item']] },
+  FAQPage: { required: [['mainEntity']] },
+  Question: { required: [['name'], ['acceptedAnswer', 'suggestedAnswer']] },
+  Answer: { required: [['text']] },
+  Event: { required: [['name'], ['startDate'], ['location']], recommended: ['endDate', 'eventStatus', 'image', 'description', 'offers', 'organizer'] },
+  Recipe: { required: [['name'], ['image']], recommended: ['author', 'recipeIngredient', 'recipeInstructions', 'totalTime'] },
+  VideoObject: { required: [['name'], ['thumbnailUrl'], ['uploadDate']], recommended: ['description', 'duration', 'contentUrl'] },
+  JobPosting: {
+    required: [['title'], ['description'], ['datePosted'], ['hiringOrganization'], ['jobLocation', 'applicantLocationRequirements']],
+    recommended: ['validThrough', 'employmentType', 'baseSalary']
+  },
+  HowTo: { required: [['name'], ['step']] }
+};
+
+const DATE_PROPERTIES = new Set(['datePublished', 'dateModified', 'dateCreated', 'uploadDate', 'startDate', 'endDate', 'datePosted', 'validThrough']);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function present(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+}
+
+function hasSchemaContext(context: unknown): boolean {
+  if (typeof context === 'string') return /^https?:\/\/schema\.org\/?$/.test(context.trim());
+  if (Array.isArray(context)) return context.some(hasSchemaContext);
+  return isObject(context) && typeof context['@vocab'] === 'string' && hasSchemaContext(context['@vocab']);
+}
+
+function types(entity: JsonObject): string[] {
+  const type = entity['@type'];
+  return (Array.isArray(type) ? type : [type]).filter((value): value is string => typeof value === 'string').map(value => value.replace(/^schema:/, ''));
+}
+
+/**
+ * Problems in one JSON-LD script; `target` names the block in messages
+ */
+export function validateJsonLd(content: string, target = 'JSON-LD'): Issue[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    return [issue('jsonld-syntax', `${target}: ${(error as Error).message}`, target)];
+  }
+
+  const issues: Issue[] = [];
+  const invalid = (message: string) => issues.push(issue('jsonld-invalid', `${target}: ${message}`, target));
+
+  const walk = (entity: JsonObject, path: string) => {
+    for (const type of types(entity)) {
+      const rules = SCHEMA_TYPES[type];
+      if (!rules) continue;
+      const missing = rules.required.filter(options => !options.some(name => present(entity[name])));
+      if (missing.length > 0) invalid(`${path} (${type}) is missing ${missing.map(options => options.join(' or ')).join(', ')}`);
+      const recommended = (rules.recommended ?? []).filter(name => !present(entity[name]));
+      if (recommended.length > 0) {
+        issues.push(issue('jsonld-recommended', `${target}: ${path} (${type}) could add ${recommended.join(', ')}`, target));
+      }
+    }
+    for (const [key, value] of Object.entries(entity)) {
+      if (key.startsWith('@')) continue;
+      if (DATE_PROPERTIES.has(key) && typeof value === 'string' && !ISO_DATE.test(value.trim())) {
+        invalid(`${path}.${key} is not an ISO 8601 date: ${value}`);
+      }
+      const children = Array.isArray(value) ? value : [value];
+      children.forEach((child, index) => {
+        if (isObject(child)) walk(child, `${path}.${key}${Array.isArray(value) ? `[${index}]` : ''}`);
+      });
+    }
+  };
+
+  const roots = Array.isArray(data) ? data : [data];
+  for (const root of roots) {
+    if (!isObject(root)) {
+      invalid('expected an object or an array of objects');
+      continue;
+    }
+    if (!hasSchemaContext(root['@context'])) invalid('@context must be https://schema.org');
+    const entities = Array.isArray(root['@graph']) ? root['@graph'].filter(isObject) : [root];
+    for (const entity of entities) {
+      const name = types(entity)[0];
+      if (!name && !entity['@id']) invalid('an entity has no @type');
+      walk(entity, name ?? 'entity');
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execa } from 'execa';
+import { checkThresholds, loadCoverage, parseIstanbul, parseLcov, summarizeCoverage } from './coverage.js';
+import { computeDiffCoverage, formatLineRanges, getChangedLines, parseUnifiedDiff } from './diff-coverage.js';
+
+const istanbulReport = {
+  '/project/src/math.ts': {
+    path: '/project/src/math.ts',
+    statementMap: {
+      '0': { start: { line: 1 } },
+      '1': { start: { line: 2 } },
+      '2': { start: { line: 2 } },
+      '3': { start: { line: 4 } },
+      '4': { start: { line: 5 } },
+    },
+    s: { '0': 1, '1': 0, '2': 3, '3': 0, '4': 0 },
+    fnMap: { '0': {}, '1': {} },
+    f: { '0': 2, '1': 0 },
+    branchMap: { '0': {} },
+    b: { '0': [1, 0] },
+  },
+};
+
+const lcov = [
+  'TN:',
+  'SF:/project/src/util.ts',
+  'FN:1,format',
+  'FNDA:4,format',
+  'FNF:1',
+  'FNH:1',
+  'BRDA:2,0,0,3',
+  'BRDA:2,0,1,-',
+  'BRF:2',
+  'BRH:1',
+  'DA:1,4',
+  'DA:2,4',
+  'DA:3,0',
+  'LF:3',
+  'LH:2',
+  'end_of_record',
+  'SF:src/legacy.js',
+  'FNF:4',
+  'FNH:1',
+  'DA:1,0',
+  'end_of_record',
+].join('\n');
+
+describe('Coverage Ingestion', () => {
+  it('should read istanbul JSON using the busiest statement per line', () => {
+    const [file] = parseIstanbul(istanbulReport, '/project');
+
+    expect(file.file).toBe('src/math.ts');
+    expect([...file.lines]).toEqual([
+      [1, 1],
+      [2, 3],
+      [4, 0],
+      [5, 0],
+    ]);
+    expect(file.branches).toEqual({ total: 2, covered: 1 });
+    expect(file.functions).toEqual({ total: 2, covered: 1 });
+  });
+
+  it('should read lcov records, falling back to summary totals', () => {
+    const [util, legacy] = parseLcov(lcov, '/project');
+
+    expect(util).toMatchObject({ file: 'src/util.ts', branches: { total: 2, covered: 1 }, functions: { total: 1, covered: 1 } });
+    expect(util.lines.get(3)).toBe(0);
+    expect(legacy).toMatchObject({ file: 'src/legacy.js', functions: { total: 4, covered: 1 } });
+  });
+
+  it('should summarize per file and overall percentages', () => {
+    const summary = summarizeCoverage([...parseIstanbul(istanbulReport, '/project'), ...parseLcov(lcov, '/project')]);
+
+    expect(summary.files[0]).toEqual({
+      file: 'src/math.ts',
+      lines: { total: 4, covered: 2, pct: 50 },
+      branches: { total: 2, covered: 1, pct: 50 },
+      functions: { total: 2, covered: 1, pct: 50 },
+    });
+    expect(summary.total.lines).toEqual({ total: 8, covered: 4, pct: 50 });
+    expect(summary.total.functions).toEqual({ total: 7, covered: 3, pct: 42.86 });
+  });
+
+  it('should report every threshold that is not met', () => {
+    expect(checkThresholds({ lines: 80, branches: 50, diff: 90 }, { lines: 75.5, branches: 50, diff: 60 })).toEqual([
+      { metric: 'lines', actual: 75.5, expected: 80 },
+      { metric: 'diff', actual: 60, expected: 90 },
+    ]);
+    expect(checkThresholds({ lines: 5 }, { lines: 10 })).toEqual([]);
+  });
+
+  it('should refuse a diff threshold without diff coverage', () => {
+    expect(() => checkThresholds({ lines: 5, diff: 90 }, { lines: 10 })).toThrow(
+      'A diff coverage threshold of 90% is set, but no baseRef was given to measure diff coverage against'
+    );
+  });
+});
+
+describe('Diff Coverage', () => {
+  it('should collect added lines from a unified diff', () => {
+    const diff = [
+      'diff --git a/src/math.ts b/src/math.ts',
+      '--- a/src/math.ts',
+      '+++ b/src/math.ts',
+      '@@ -2 +2,2 @@ export function add',
+      '-  return a;',
+      '+  const sum = a + b;',
+      '+  return sum;',
+      '@@ -10,0 +12 @@',
+      '+export const ZERO = 0;',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-export {};',
+      'diff --git a/src/trim.ts b/src/trim.ts',
+      '--- a/src/trim.ts',
+      '+++ b/src/trim.ts',
+      '@@ -3 +2,0 @@',
+      '-// old',
+    ].join('\n');
+
+    expect([...parseUnifiedDiff(diff)].map(([file, lines]) => [file, [...lines]])).toEqual([['src/math.ts', [2, 3, 12]]]);
+  });
+
+  it('should compact line ranges', () => {
+    expect(formatLineRanges([3, 4, 5, 9, 11, 12])).toBe('3-5, 9, 11-12');
+    expect(formatLineRanges([])).toBe('');
+  });
+
+  it('should cover only instrumented changed lines and list uncovered ones', () => {
+    const coverage = parseIstanbul(istanbulReport, '/project');
+    const changed = new Map([
+      ['src/math.ts', new Set([2, 3, 4, 5])],
+      ['src/new.ts', new Set([1])],
+      ['src/new.test.ts', new Set([1])],
+      ['README.md', new Set([1])],
+    ]);
+
+    expect(computeDiffCoverage('main', coverage, changed)).toEqual({
+      baseRef: 'main',
+      lines: { total: 3, covered: 1, pct: 33.33 },
+      files: [{ file: 'src/math.ts', lines: { total: 3, covered: 1, pct: 33.33 }, uncoveredLines: [4, 5], uncovered: '4-5' }],
+      filesWithoutCoverage: ['src/new.ts'],
+    });
+  });
+
+  describe('Git Integration', () => {
+    let repoDir: string;
+
+    const git = (...args: string[]) => execa('git', args, { cwd: repoDir });
+
+    beforeEach(async () => {
+      repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'diff-coverage-'));
+      await git('init', '-q', '-b', 'main');
+      await git('config', 'user.email', 'test@example.com');
+      await git('config', 'user.name', 'Test');
+      await fs.mkdir(path.join(repoDir, 'src'));
+      await fs.writeFile(path.join(repoDir, 'src', 'a.ts'), 'line1\nline2\nline3\n');
+      await git('add', '.');
+      await git('commit', '-q', '-m', 'base');
+      await git('checkout', '-q', '-b', 'feature');
+      await fs.writeFile(path.join(repoDir, 'src', 'a.ts'), 'line1\nchanged\nline3\nadded\n');
+      await git('commit', '-q', '-am', 'change');
+    });
+
+    afterEach(async () => {
+      await fs.rm(repoDir, { recursive: true, force: true });
+    });
+
+    it('should diff against the merge base including uncommitted edits', async () => {
+      await fs.writeFile(path.join(repoDir, 'src', 'a.ts'), 'dirty\nchanged\nline3\nadded\n');
+      const changed = await getChangedLines(repoDir, 'main');
+
+      expect([...changed.get('src/a.ts')!].sort()).toEqual([1, 2, 4]);
+    });
+
+    it('should reject unknown base refs', async () => {
+      await expect(getChangedLines(repoDir, 'no-such-branch')).rejects.toThrow('Unknown git base ref: no-such-branch');
+    });
+
+    it('should load a report from a coverage directory', async () => {
+      await fs.mkdir(path.join(repoDir, 'coverage'));
+      await fs.writeFile(path.join(repoDir, 'coverage', 'lcov.info'), `SF:${path.join(repoDir, 'src', 'a.ts')}\nDA:2,0\nend_of_record\n`);
+
+      const { report, files } = await loadCoverage(repoDir, 'coverage');
+
+      expect(report).toBe('coverage/lcov.info');
+      expect(files.map((file) => file.file)).toEqual(['src/a.ts']);
+      await expect(loadCoverage(repoDir, 'missing')).rejects.toThrow('Coverage report not found: missing');
+    });
+  });
+});
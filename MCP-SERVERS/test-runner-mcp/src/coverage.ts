@@ -0,0 +1,255 @@
+/**
+ * Coverage ingestion
+ *
+ * Reads istanbul `coverage-final.json` or `lcov.info` reports into per-file
+ * line hit maps with branch and function totals, and checks thresholds.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+
+export interface CoverageCounter {
+  total: number;
+  covered: number;
+  /** Percentage with two decimals; 100 when there is nothing to cover */
+  pct: number;
+}
+
+export interface FileCoverage {
+  file: string;
+  /** Hit count per instrumented line */
+  lines: Map<number, number>;
+  branches: { total: number; covered: number };
+  functions: { total: number; covered: number };
+}
+
+export interface FileCoverageSummary {
+  file: string;
+  lines: CoverageCounter;
+  branches: CoverageCounter;
+  functions: CoverageCounter;
+}
+
+export interface CoverageSummary {
+  total: Omit<FileCoverageSummary, 'file'>;
+  files: FileCoverageSummary[];
+}
+
+export interface CoverageThresholds {
+  lines?: number;
+  branches?: number;
+  functions?: number;
+  /** Minimum coverage of changed lines (requires a base ref) */
+  diff?: number;
+}
+
+export interface ThresholdFailure {
+  metric: keyof CoverageThresholds;
+  actual: number;
+  expected: number;
+}
+
+interface IstanbulLocation {
+  start: { line: number };
+}
+
+interface IstanbulFileCoverage {
+  path: string;
+  statementMap: Record<string, IstanbulLocation>;
+  s: Record<string, number>;
+  fnMap: Record<string, unknown>;
+  f: Record<string, number>;
+  branchMap: Record<string, unknown>;
+  b: Record<string, number[]>;
+}
+
+// Report files looked for, in order, inside the coverage directory
+const REPORT_FILES = ['coverage-final.json', 'lcov.info'];
+
+export function counter(covered: number, total: number): CoverageCounter {
+  return { total, covered, pct: total === 0 ? 100 : Math.round((covered / total) * 10000) / 100 };
+}
+
+function normalizeFile(file: string, projectPath: string): string {
+  const absolute = path.resolve(projectPath, file);
+  return path.relative(projectPath, absolute).split(path.sep).join('/');
+}
+
+/**
+ * Parse an istanbul JSON report (coverage-final.json)
+ */
+export function parseIstanbul(report: Record<string, IstanbulFileCoverage>, projectPath: string): FileCoverage[] {
+  return Object.values(report).map((data) => {
+    // Same rule as istanbul-lib-coverage: a line's hits are its busiest statement's
+    const lines = new Map<number, number>();
+    for (const [id, location] of Object.entries(data.statementMap)) {
+      const line = location.start.line;
+      const hits = data.s[id] || 0;
+      lines.set(line, Math.max(lines.get(line) ?? 0, hits));
+    }
+
+    const branchHits = Object.values(data.b).flat();
+    const functionHits = Object.values(data.f);
+
+    return {
+      file: normalizeFile(data.path, projectPath),
+      lines,
+      branches: { total: branchHits.length, covered: branchHits.filter((hits) => hits > 0).length },
+      functions: { total: functionHits.length, covered: functionHits.filter((hits) => hits > 0).length },
+    };
+  });
+}
+
+/**
+ * Parse an lcov tracefile
+ */
+export function parseLcov(text: string, projectPath: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+  // Totals from BRF/FNF summary records, used when BRDA/FNDA detail is absent
+  let summary = { brf: 0, brh: 0, fnf: 0, fnh: 0 };
+  let detail = { branches: 0, functions: 0 };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const colon = line.indexOf(':');
+    const tag = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1);
+
+    if (tag === 'SF') {
+      current = {
+        file: normalizeFile(value, projectPath),
+        lines: new Map(),
+        branches: { total: 0, covered: 0 },
+        functions: { total: 0, covered: 0 },
+      };
+      summary = { brf: 0, brh: 0, fnf: 0, fnh: 0 };
+      detail = { branches: 0, functions: 0 };
+      continue;
+    }
+    if (!current) continue;
+
+    switch (tag) {
+      case 'DA': {
+        const [lineNumber, hits] = value.split(',').map(Number);
+        current.lines.set(lineNumber, Math.max(current.lines.get(lineNumber) ?? 0, hits));
+        break;
+      }
+      case 'BRDA': {
+        const taken = value.split(',')[3];
+        detail.branches++;
+        current.branches.total++;
+        if (taken !== '-' && Number(taken) > 0) current.branches.covered++;
+        break;
+      }
+      case 'FNDA': {
+        detail.functions++;
+        current.functions.total++;
+        if (Number(value.split(',')[0]) > 0) current.functions.covered++;
+        break;
+      }
+      case 'BRF':
+        summary.brf = Number(value);
+        break;
+      case 'BRH':
+        summary.brh = Number(value);
+        break;
+      case 'FNF':
+        summary.fnf = Number(value);
+        break;
+      case 'FNH':
+        summary.fnh = Number(value);
+        break;
+      case 'end_of_record':
+        if (detail.branches === 0) current.branches = { total: summary.brf, covered: summary.brh };
+        if (detail.functions === 0) current.functions = { total: summary.fnf, covered: summary.fnh };
+        files.push(current);
+        current = null;
+        break;
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Load coverage from a report file, or from the first known report in a directory
+ */
+export async function loadCoverage(projectPath: string, reportPath: string): Promise<{ report: string; files: FileCoverage[] }> {
+  let report = path.resolve(projectPath, reportPath);
+  if (existsSync(report) && (await fs.stat(report)).isDirectory()) {
+    const found = REPORT_FILES.map((name) => path.join(report, name)).find((candidate) => existsSync(candidate));
+    if (!found) {
+      throw new Error(`No coverage report found in ${reportPath} (expected ${REPORT_FILES.join(' or ')})`);
+    }
+    report = found;
+  }
+  if (!existsSync(report)) {
+    throw new Error(`Coverage report not found: ${reportPath}`);
+  }
+
+  const text = await fs.readFile(report, 'utf-8');
+  const files = report.endsWith('.json') ? parseIstanbul(JSON.parse(text), projectPath) : parseLcov(text, projectPath);
+  files.sort((a, b) => a.file.localeCompare(b.file));
+  return { report: normalizeFile(report, projectPath), files };
+}
+
+/**
+ * Per-file and overall line/branch/function percentages
+ */
+export function summarizeCoverage(files: FileCoverage[]): CoverageSummary {
+  const totals = { lines: [0, 0], branches: [0, 0], functions: [0, 0] };
+
+  const summaries = files.map((file) => {
+    const lineHits = [...file.lines.values()];
+    const coveredLines = lineHits.filter((hits) => hits > 0).length;
+    totals.lines[0] += coveredLines;
+    totals.lines[1] += lineHits.length;
+    totals.branches[0] += file.branches.covered;
+    totals.branches[1] += file.branches.total;
+    totals.functions[0] += file.functions.covered;
+    totals.functions[1] += file.functions.total;
+
+    return {
+      file: file.file,
+      lines: counter(coveredLines, lineHits.length),
+      branches: counter(file.branches.covered, file.branches.total),
+      functions: counter(file.functions.covered, file.functions.total),
+    };
+  });
+
+  return {
+    total: {
+      lines: counter(totals.lines[0], totals.lines[1]),
+      branches: counter(totals.branches[0], totals.branches[1]),
+      functions: counter(totals.functions[0], totals.functions[1]),
+    },
+    files: summaries,
+  };
+}
+
+/**
+ * Compare measured percentages against the configured minimums; a minimum
+ * for a metric that was not measured (diff coverage without a base ref) is an
+ * error rather than a pass
+ */
+export function checkThresholds(
+  thresholds: CoverageThresholds,
+  actual: Partial<Record<keyof CoverageThresholds, number>>
+): ThresholdFailure[] {
+  const failures: ThresholdFailure[] = [];
+  for (const metric of ['lines', 'branches', 'functions', 'diff'] as const) {
+    const expected = thresholds[metric];
+    const value = actual[metric];
+    if (expected === undefined) continue;
+    if (value === undefined) {
+      throw new Error(
+        metric === 'diff'
+          ? `A diff coverage threshold of ${expected}% is set, but no baseRef was given to measure diff coverage against`
+          : `A ${metric} coverage threshold of ${expected}% is set, but ${metric} coverage was not measured`
+      );
+    }
+    if (value < expected) failures.push({ metric, actual: value, expected });
+  }
+  return failures;
+}
@@ -0,0 +1,145 @@
+/**
+ * Diff coverage
+ *
+ * Coverage of only the lines changed against a git base ref, with the
+ * uncovered changed lines listed per file.
+ */
+
+import { execa } from 'execa';
+import { counter, CoverageCounter, FileCoverage } from './coverage.js';
+
+// Changed files worth flagging when missing from the coverage report
+const SOURCE_FILE = /\.(c|m)?(j|t)sx?$|\.(vue|svelte)$/;
+const TEST_FILE = /\.(test|spec)\.[^.]+$|(^|\/)__tests__\//;
+
+export interface FileDiffCoverage {
+  file: string;
+  lines: CoverageCounter;
+  uncoveredLines: number[];
+  /** Compact form of uncoveredLines, e.g. "12-15, 20" */
+  uncovered: string;
+}
+
+export interface DiffCoverageResult {
+  baseRef: string;
+  lines: CoverageCounter;
+  files: FileDiffCoverage[];
+  /** Changed source files (not tests) that are absent from the coverage report */
+  filesWithoutCoverage: string[];
+}
+
+/**
+ * Added or modified line numbers (new side) per file from a unified diff
+ */
+export function parseUnifiedDiff(diff: string): Map<string, Set<number>> {
+  const changed = new Map<string, Set<number>>();
+  let current: Set<number> | null = null;
+  let nextLine = 0;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+      if (target === '/dev/null') {
+        current = null;
+      } else {
+        const file = target.replace(/^b\//, '');
+        current = changed.get(file) || new Set();
+        changed.set(file, current);
+      }
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      nextLine = Number(hunk[1]);
+      continue;
+    }
+    if (!current || line.startsWith('--- ') || line.startsWith('\\')) continue;
+
+    if (line.startsWith('+')) {
+      current.add(nextLine++);
+    } else if (line.startsWith(' ')) {
+      nextLine++;
+    }
+  }
+
+  // Files with only deletions have nothing to cover
+  for (const [file, lines] of changed) {
+    if (lines.size === 0) changed.delete(file);
+  }
+  return changed;
+}
+
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+  let start = lines[0];
+  let previous = lines[0];
+
+  for (const line of [...lines.slice(1), NaN]) {
+    if (line === previous + 1) {
+      previous = line;
+      continue;
+    }
+    if (start !== undefined) ranges.push(start === previous ? `${start}` : `${start}-${previous}`);
+    start = line;
+    previous = line;
+  }
+  return ranges.join(', ');
+}
+
+/**
+ * Lines changed since the merge base of baseRef and HEAD, including uncommitted work
+ */
+export async function getChangedLines(projectPath: string, baseRef: string): Promise<Map<string, Set<number>>> {
+  const mergeBase = await execa('git', ['merge-base', baseRef, 'HEAD'], { cwd: projectPath, reject: false });
+  if (mergeBase.exitCode !== 0) {
+    throw new Error(`Unknown git base ref: ${baseRef}`);
+  }
+
+  // Paths are relative to the project, not the repository root
+  const diff = await execa(
+    'git',
+    ['diff', '--unified=0', '--no-color', '--no-ext-diff', '--relative', mergeBase.stdout.trim()],
+    { cwd: projectPath }
+  );
+  return parseUnifiedDiff(diff.stdout);
+}
+
+/**
+ * Coverage of the changed lines that the coverage report instruments
+ */
+export function computeDiffCoverage(
+  baseRef: string,
+  coverage: FileCoverage[],
+  changed: Map<string, Set<number>>
+): DiffCoverageResult {
+  const byFile = new Map(coverage.map((file) => [file.file, file]));
+  const files: FileDiffCoverage[] = [];
+  const filesWithoutCoverage: string[] = [];
+  let covered = 0;
+  let total = 0;
+
+  for (const file of [...changed.keys()].sort()) {
+    const fileCoverage = byFile.get(file);
+    if (!fileCoverage) {
+      if (SOURCE_FILE.test(file) && !TEST_FILE.test(file)) filesWithoutCoverage.push(file);
+      continue;
+    }
+
+    // Blank lines, comments and types are not instrumented and don't count
+    const instrumented = [...changed.get(file)!].filter((line) => fileCoverage.lines.has(line)).sort((a, b) => a - b);
+    if (instrumented.length === 0) continue;
+
+    const uncoveredLines = instrumented.filter((line) => fileCoverage.lines.get(line) === 0);
+    covered += instrumented.length - uncoveredLines.length;
+    total += instrumented.length;
+    files.push({
+      file,
+      lines: counter(instrumented.length - uncoveredLines.length, instrumented.length),
+      uncoveredLines,
+      uncovered: formatLineRanges(uncoveredLines),
+    });
+  }
+
+  return { baseRef, lines: counter(covered, total), files, filesWithoutCoverage };
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverInSource, discoverTests } from './discovery.js';
+import { buildTestCommand, escapeTestName } from './frameworks.js';
+
+describe('Test Discovery', () => {
+  it('should list nested suites and tests with lines', () => {
+    const result = discoverInSource(
+      'math.test.ts',
+      [
+        "describe('math', () => {",
+        "  describe('add', () => {",
+        "    it('adds numbers', () => {});",
+        '  });',
+        "  test('divides', async () => {});",
+        '});',
+        "it('top level', () => {});",
+      ].join('\n')
+    );
+
+    expect(result.suites).toEqual(['math', 'math > add']);
+    expect(result.tests).toEqual([
+      { name: 'adds numbers', suite: ['math', 'add'], fullName: 'math add adds numbers', line: 3, mode: 'run' },
+      { name: 'divides', suite: ['math'], fullName: 'math divides', line: 5, mode: 'run' },
+      { name: 'top level', suite: [], fullName: 'top level', line: 7, mode: 'run' },
+    ]);
+  });
+
+  it('should recognise modifiers and each tables', () => {
+    const result = discoverInSource(
+      'modes.test.js',
+      [
+        "it.only('focused', () => {});",
+        "it.skip('skipped', () => {});",
+        "xit('x skipped', function () {});",
+        "test.todo('later');",
+        "test.each([[1, 2]])('adds %i', (a, b) => {});",
+        'describe.each`a\n${1}`(\'table $a\', ({ a }) => {',
+        "  it('runs', () => {});",
+        '});',
+      ].join('\n')
+    );
+
+    expect(result.tests.map((test) => [test.fullName, test.mode])).toEqual([
+      ['focused', 'only'],
+      ['skipped', 'skip'],
+      ['x skipped', 'skip'],
+      ['later', 'todo'],
+      ['adds %i', 'run'],
+      ['table $a runs', 'run'],
+    ]);
+  });
+
+  it('should understand Playwright test.describe and ignore hooks and steps', () => {
+    const result = discoverInSource(
+      'login.spec.ts',
+      [
+        "import { test, expect } from '@playwright/test';",
+        "test.describe('login', () => {",
+        '  test.beforeEach(async ({ page }) => {});',
+        "  test.skip(browserName === 'webkit', 'not supported');",
+        "  test('shows form', async ({ page }) => {",
+        "    await test.step('open page', async () => {});",
+        '  });',
+        "  test.describe.serial('flow', () => {",
+        "    test.fixme('submits', async () => {});",
+        '  });',
+        '});',
+      ].join('\n')
+    );
+
+    expect(result.suites).toEqual(['login', 'login > flow']);
+    expect(result.tests.map((test) => [test.fullName, test.mode])).toEqual([
+      ['login shows form', 'run'],
+      ['login flow submits', 'skip'],
+    ]);
+  });
+
+  it('should name suites after non-literal titles', () => {
+    const result = discoverInSource('user.test.ts', "describe(UserService, () => { it(`creates ${kind}`, () => {}); });");
+
+    expect(result.tests[0].fullName).toBe('UserService creates ${kind}');
+  });
+
+  describe('Project Discovery', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-discovery-'));
+      await fs.mkdir(path.join(projectDir, 'src'));
+      await fs.mkdir(path.join(projectDir, 'node_modules', 'lib'), { recursive: true });
+      await fs.writeFile(path.join(projectDir, 'src', 'a.test.ts'), "it('a', () => {});\nit('b', () => {});\n");
+      await fs.writeFile(path.join(projectDir, 'src', 'b.spec.tsx'), "describe('B', () => { it('renders', () => {}); });\n");
+      await fs.writeFile(path.join(projectDir, 'src', 'b.tsx'), "it('not a test file', () => {});\n");
+      await fs.writeFile(path.join(projectDir, 'node_modules', 'lib', 'x.test.js'), "it('vendored', () => {});\n");
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should find test files matching the pattern outside node_modules', async () => {
+      const result = await discoverTests(projectDir, '**/*.{test,spec}.{js,ts,tsx}');
+
+      expect(result.files.map((file) => file.file)).toEqual(['src/a.test.ts', 'src/b.spec.tsx']);
+      expect(result).toMatchObject({ totalFiles: 2, totalSuites: 1, totalTests: 3 });
+    });
+  });
+});
+
+describe('Test Commands', () => {
+  it('should use each framework JSON reporter and name filter', () => {
+    const options = { pattern: 'src/a.test.ts', testName: 'adds', reportFile: '/tmp/r.json' };
+
+    expect(buildTestCommand('vitest', options)).toEqual({
+      cmd: 'vitest',
+      args: ['run', '--reporter=json', '--outputFile=/tmp/r.json', '-t', 'adds', 'src/a.test.ts'],
+      env: {},
+    });
+    expect(buildTestCommand('jest', options).args).toEqual(['--json', '--outputFile=/tmp/r.json', '-t', 'adds', 'src/a.test.ts']);
+    expect(buildTestCommand('mocha', options).args).toContain('--grep');
+    expect(buildTestCommand('playwright', options)).toMatchObject({
+      args: ['test', '--reporter=json', '-g', 'adds', 'src/a.test.ts'],
+      env: { PLAYWRIGHT_JSON_OUTPUT_NAME: '/tmp/r.json' },
+    });
+  });
+
+  it('should pass coverage reporters and directory through', () => {
+    const options = { coverage: true, coverageReporters: ['json', 'lcov'], coverageDirectory: 'cov', reportFile: 'r.json' };
+
+    expect(buildTestCommand('vitest', options).args).toEqual(
+      expect.arrayContaining(['--coverage.reporter=json', '--coverage.reporter=lcov', '--coverage.reportsDirectory=cov'])
+    );
+    expect(buildTestCommand('mocha', options)).toMatchObject({
+      cmd: 'c8',
+      args: ['--reporter=json', '--reporter=lcov', '--reports-dir=cov', 'mocha', '--reporter', 'json', '--reporter-option', 'output=r.json'],
+    });
+    expect(() => buildTestCommand('playwright', options)).toThrow('Playwright does not collect code coverage');
+  });
+
+  it('should escape literal test names', () => {
+    expect(escapeTestName('adds (1 + 2)')).toBe('adds \\(1 \\+ 2\\)');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Static test discovery
+ *
+ * Finds test files with the configured glob and reads suite and test names
+ * from the TypeScript AST, without executing anything. Understands the
+ * describe/it/test/suite/context/specify family shared by Vitest, Jest,
+ * Mocha and Playwright, including .only/.skip/.todo/.each modifiers and
+ * Playwright's test.describe().
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import ts from 'typescript';
+
+export type TestMode = 'run' | 'only' | 'skip' | 'todo';
+
+export interface DiscoveredTest {
+  name: string;
+  suite: string[];
+  fullName: string;
+  line: number;
+  mode: TestMode;
+}
+
+export interface DiscoveredFile {
+  file: string;
+  suites: string[];
+  tests: DiscoveredTest[];
+}
+
+export interface DiscoveryResult {
+  pattern: string;
+  totalFiles: number;
+  totalSuites: number;
+  totalTests: number;
+  files: DiscoveredFile[];
+}
+
+const SUITE_FUNCTIONS = new Set(['describe', 'suite', 'context', 'xdescribe', 'fdescribe', 'xcontext']);
+const TEST_FUNCTIONS = new Set(['it', 'test', 'specify', 'xit', 'fit', 'xtest', 'xspecify']);
+
+// Chain members that modify a test or suite rather than naming a hook or helper
+const MODIFIERS = new Set([
+  'describe',
+  'only',
+  'skip',
+  'todo',
+  'fixme',
+  'fails',
+  'each',
+  'serial',
+  'parallel',
+  'concurrent',
+  'sequential',
+  'shuffle',
+]);
+
+const DEFAULT_IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/coverage/**'];
+
+interface TestCall {
+  kind: 'suite' | 'test';
+  mode: TestMode;
+}
+
+function calleeChain(expression: ts.Expression): string[] | null {
+  if (ts.isIdentifier(expression)) return [expression.text];
+  if (ts.isPropertyAccessExpression(expression)) {
+    const left = calleeChain(expression.expression);
+    return left ? [...left, expression.name.text] : null;
+  }
+  return null;
+}
+
+function classifyCall(node: ts.CallExpression): TestCall | null {
+  let callee: ts.Expression = node.expression;
+
+  // describe.each(table)(name, fn) and describe.each`table`(name, fn)
+  if (ts.isCallExpression(callee)) callee = callee.expression;
+  else if (ts.isTaggedTemplateExpression(callee)) callee = callee.tag;
+
+  const chain = calleeChain(callee);
+  if (!chain) return null;
+
+  const [base, ...members] = chain;
+  if (!members.every((member) => MODIFIERS.has(member))) return null;
+
+  let kind: TestCall['kind'];
+  if (SUITE_FUNCTIONS.has(base)) kind = 'suite';
+  else if (TEST_FUNCTIONS.has(base)) kind = members.includes('describe') ? 'suite' : 'test';
+  else return null;
+
+  let mode: TestMode = 'run';
+  if (base.startsWith('x') || members.includes('skip') || members.includes('fixme')) mode = 'skip';
+  else if (members.includes('todo')) mode = 'todo';
+  else if (base.startsWith('f') || members.includes('only')) mode = 'only';
+
+  return { kind, mode };
+}
+
+function titleOf(node: ts.CallExpression, sourceFile: ts.SourceFile): string | null {
+  const [first, second] = node.arguments;
+  if (!first) return null;
+  if (ts.isStringLiteral(first) || ts.isNoSubstitutionTemplateLiteral(first)) return first.text;
+  if (ts.isTemplateExpression(first)) return first.getText(sourceFile).slice(1, -1);
+
+  // describe(SomeClass, fn) names the suite after the expression; anything
+  // else (e.g. Playwright's test.skip(condition, reason)) is not a test
+  if (second && (ts.isArrowFunction(second) || ts.isFunctionExpression(second))) {
+    return first.getText(sourceFile);
+  }
+  return null;
+}
+
+function scriptKind(file: string): ts.ScriptKind {
+  switch (path.extname(file)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.cjs':
+    case '.mjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * List the suites and tests declared in a source file
+ */
+export function discoverInSource(file: string, source: string): DiscoveredFile {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, scriptKind(file));
+  const suites: string[] = [];
+  const tests: DiscoveredTest[] = [];
+
+  const visit = (node: ts.Node, stack: string[]) => {
+    if (ts.isCallExpression(node)) {
+      const call = classifyCall(node);
+      const title = call ? titleOf(node, sourceFile) : null;
+
+      if (call && title !== null) {
+        if (call.kind === 'suite') {
+          const suite = [...stack, title];
+          suites.push(suite.join(' > '));
+          node.arguments.forEach((arg) => visit(arg, suite));
+          return;
+        }
+
+        tests.push({
+          name: title,
+          suite: stack,
+          fullName: [...stack, title].join(' '),
+          line: sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1,
+          mode: call.mode,
+        });
+        // Test bodies may not declare further tests
+        return;
+      }
+    }
+    ts.forEachChild(node, (child) => visit(child, stack));
+  };
+
+  visit(sourceFile, []);
+  return { file, suites, tests };
+}
+
+/**
+ * Find test files under the project and list their suites and tests
+ */
+export async function discoverTests(projectPath: string, pattern: string): Promise<DiscoveryResult> {
+  const files = (await glob(pattern, { cwd: projectPath, ignore: DEFAULT_IGNORE, nodir: true, posix: true })).sort();
+
+  const discovered: DiscoveredFile[] = [];
+  for (const file of files) {
+    const source = await fs.readFile(path.join(projectPath, file), 'utf-8');
+    discovered.push(discoverInSource(file, source));
+  }
+
+  return {
+    pattern,
+    totalFiles: discovered.length,
+    totalSuites: discovered.reduce((sum, file) => sum + file.suites.length, 0),
+    totalTests: discovered.reduce((sum, file) => sum + file.tests.length, 0),
+    files: discovered,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Flaky test detection
+ *
+ * Aggregates repeated runs of the same tests into per-test pass/fail ratios.
+ */
+
+import { TestHistory } from './history.js';
+import { TestRunResult } from './types.js';
+
+export interface RerunStats {
+  id: string;
+  fullName: string;
+  runs: number;
+  passed: number;
+  failed: number;
+  /** Fraction of runs that passed, 0 to 1 */
+  passRate: number;
+  /** Both passed and failed across the reruns */
+  flaky: boolean;
+  /** Distinct failure messages seen */
+  failureMessages: string[];
+}
+
+export interface FlakyReport {
+  runs: number;
+  tests: RerunStats[];
+  flaky: string[];
+  /** Tests that failed every run: consistently broken, not flaky */
+  alwaysFailing: string[];
+  /** Errors outside individual tests, with the run they happened in */
+  errors: string[];
+}
+
+export function aggregateReruns(results: TestRunResult[]): FlakyReport {
+  const stats = new Map<string, RerunStats>();
+  const errors: string[] = [];
+
+  results.forEach((result, index) => {
+    result.errors.forEach((error) => errors.push(`Run ${index + 1}: ${error}`));
+
+    for (const test of result.tests) {
+      if (test.status !== 'passed' && test.status !== 'failed') continue;
+
+      const entry = stats.get(test.id) || {
+        id: test.id,
+        fullName: test.fullName,
+        runs: 0,
+        passed: 0,
+        failed: 0,
+        passRate: 0,
+        flaky: false,
+        failureMessages: [],
+      };
+      entry.runs++;
+      if (test.status === 'passed' && !test.retried) {
+        entry.passed++;
+      } else {
+        // A pass that needed a retry counts as a failed attempt
+        entry.failed++;
+        const message = test.failureMessage || (test.retried ? 'Passed only on retry' : undefined);
+        if (message && !entry.failureMessages.includes(message)) entry.failureMessages.push(message);
+      }
+      stats.set(test.id, entry);
+    }
+  });
+
+  const tests = [...stats.values()].map((entry) => ({
+    ...entry,
+    passRate: Math.round((entry.passed / entry.runs) * 100) / 100,
+    flaky: entry.passed > 0 && entry.failed > 0,
+  }));
+
+  return {
+    runs: results.length,
+    tests,
+    flaky: tests.filter((test) => test.flaky).map((test) => test.id),
+    alwaysFailing: tests.filter((test) => test.passed === 0).map((test) => test.id),
+    errors,
+  };
+}
+
+/**
+ * Remember tests that detect_flaky found flaky so later runs flag them, until
+ * they pass FLAKY_CLEAR_PASSES times in a row
+ */
+export function recordFlaky(history: TestHistory, report: FlakyReport, now = new Date()): void {
+  for (const id of report.flaky) {
+    const entry = history.tests[id] || { outcomes: [], lastRun: now.toISOString() };
+    entry.flakyDetectedAt = now.toISOString();
+    entry.passesSinceFlaky = 0;
+    history.tests[id] = entry;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Framework command builders
+ *
+ * Every run uses the framework's JSON reporter, written to a file so
+ * console output from the tests cannot corrupt the report.
+ */
+
+import { Framework } from './types.js';
+
+export interface TestCommandOptions {
+  /** Test files or pattern to run */
+  pattern?: string;
+  /** Test name pattern (regex for jest/vitest/mocha/playwright) */
+  testName?: string;
+  coverage?: boolean;
+  /** Istanbul reporters to write when collecting coverage (e.g. json, lcov) */
+  coverageReporters?: string[];
+  /** Directory coverage reports are written to */
+  coverageDirectory?: string;
+  bail?: boolean;
+  /** Keep running and rerun on file changes; the report file is rewritten after each run */
+  watch?: boolean;
+  /** Where the JSON reporter writes its output */
+  reportFile: string;
+}
+
+export interface TestCommand {
+  cmd: string;
+  args: string[];
+  env: Record<string, string>;
+}
+
+/**
+ * Escape a literal test name for use as a reporter name pattern
+ */
+export function escapeTestName(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function buildTestCommand(framework: Framework, options: TestCommandOptions): TestCommand {
+  const args: string[] = [];
+  const env: Record<string, string> = {};
+
+  switch (framework) {
+    case 'vitest':
+      args.push(options.watch ? 'watch' : 'run', '--reporter=json', `--outputFile=${options.reportFile}`);
+      if (options.coverage) {
+        args.push('--coverage');
+        options.coverageReporters?.forEach((reporter) => args.push(`--coverage.reporter=${reporter}`));
+        if (options.coverageDirectory) args.push(`--coverage.reportsDirectory=${options.coverageDirectory}`);
+      }
+      if (options.bail) args.push('--bail=1');
+      if (options.testName) args.push('-t', options.testName);
+      if (options.pattern) args.push(options.pattern);
+      return { cmd: 'vitest', args, env };
+
+    case 'jest':
+      args.push('--json', `--outputFile=${options.reportFile}`);
+      // --watch needs git to find changed files; --watchAll works everywhere
+      if (options.watch) args.push('--watchAll');
+      if (options.coverage) {
+        args.push('--coverage');
+        options.coverageReporters?.forEach((reporter) => args.push(`--coverageReporters=${reporter}`));
+        if (options.coverageDirectory) args.push(`--coverageDirectory=${options.coverageDirectory}`);
+      }
+      if (options.bail) args.push('--bail');
+      if (options.testName) args.push('-t', options.testName);
+      if (options.pattern) args.push(options.pattern);
+      return { cmd: 'jest', args, env };
+
+    case 'mocha':
+      args.push('--reporter', 'json', '--reporter-option', `output=${options.reportFile}`);
+      if (options.watch) args.push('--watch');
+      if (options.bail) args.push('--bail');
+      if (options.testName) args.push('--grep', options.testName);
+      if (options.pattern) args.push(options.pattern);
+      if (options.coverage) {
+        // Mocha has no built-in coverage; run it under c8
+        const c8Args = (options.coverageReporters || ['text']).map((reporter) => `--reporter=${reporter}`);
+        if (options.coverageDirectory) c8Args.push(`--reports-dir=${options.coverageDirectory}`);
+        return { cmd: 'c8', args: [...c8Args, 'mocha', ...args], env };
+      }
+      return { cmd: 'mocha', args, env };
+
+    case 'playwright':
+      if (options.coverage) {
+        throw new Error('Playwright does not collect code coverage. Use vitest, jest or mocha.');
+      }
+      if (options.watch) {
+        throw new Error('Playwright has no watch mode. Use vitest, jest or mocha.');
+      }
+      args.push('test', '--reporter=json');
+      env.PLAYWRIGHT_JSON_OUTPUT_NAME = options.reportFile;
+      if (options.bail) args.push('--max-failures=1');
+      if (options.testName) args.push('-g', options.testName);
+      if (options.pattern) args.push(options.pattern);
+      return { cmd: 'playwright', args, env };
+
+    default:
+      throw new Error(`Unsupported framework: ${framework}`);
+  }
+}
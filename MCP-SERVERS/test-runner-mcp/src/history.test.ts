@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { aggregateReruns, recordFlaky } from './flaky.js';
+import {
+  FLAKY_CLEAR_PASSES,
+  emptyHistory,
+  isKnownFlaky,
+  loadHistory,
+  markKnownFlaky,
+  recordRun,
+  saveHistory,
+  updateHistory,
+} from './history.js';
+import { TestCaseResult, TestRunResult, TestStatus } from './types.js';
+
+function testCase(name: string, status: TestStatus, extra: Partial<TestCaseResult> = {}): TestCaseResult {
+  return { id: `a.test.ts::${name}`, file: 'a.test.ts', suite: [], name, fullName: name, status, duration: 1, ...extra };
+}
+
+function run(...tests: TestCaseResult[]): TestRunResult {
+  const failures = tests.filter((test) => test.status === 'failed');
+  return {
+    framework: 'vitest',
+    success: failures.length === 0,
+    total: tests.length,
+    passed: tests.filter((test) => test.status === 'passed').length,
+    failed: failures.length,
+    skipped: 0,
+    duration: 10,
+    tests,
+    failures,
+    errors: [],
+  };
+}
+
+describe('Test History', () => {
+  it('should record passed and failed outcomes per test id', () => {
+    const history = emptyHistory();
+    recordRun(history, run(testCase('a', 'passed'), testCase('b', 'failed'), testCase('c', 'skipped')), new Date('2024-05-01T00:00:00Z'));
+    recordRun(history, run(testCase('a', 'failed')));
+
+    expect(Object.keys(history.tests)).toEqual(['a.test.ts::a', 'a.test.ts::b']);
+    expect(history.tests['a.test.ts::a'].outcomes).toEqual(['passed', 'failed']);
+    expect(history.tests['a.test.ts::b'].lastRun).toBe('2024-05-01T00:00:00.000Z');
+  });
+
+  it('should keep a bounded window of outcomes', () => {
+    const history = emptyHistory();
+    for (let i = 0; i < 30; i++) recordRun(history, run(testCase('a', 'passed')));
+
+    expect(history.tests['a.test.ts::a'].outcomes).toHaveLength(20);
+  });
+
+  it('should treat repeated flips as flaky but not a single fix', () => {
+    expect(isKnownFlaky({ outcomes: ['failed', 'failed', 'passed', 'passed'], lastRun: '' })).toBe(false);
+    expect(isKnownFlaky({ outcomes: ['passed', 'failed', 'passed'], lastRun: '' })).toBe(true);
+    expect(isKnownFlaky({ outcomes: ['passed'], lastRun: '', flakyDetectedAt: '2024-05-01T00:00:00.000Z' })).toBe(true);
+    expect(isKnownFlaky(undefined)).toBe(false);
+  });
+
+  it('should count a pass after retry as a failed attempt', () => {
+    const history = emptyHistory();
+    recordRun(history, run(testCase('a', 'passed')));
+    recordRun(history, run(testCase('a', 'passed', { retried: true })));
+
+    expect(history.tests['a.test.ts::a'].outcomes).toEqual(['passed', 'failed', 'passed']);
+  });
+
+  it('should mark known-flaky tests and list their failures', () => {
+    const history = emptyHistory();
+    history.tests['a.test.ts::a'] = { outcomes: ['failed', 'passed', 'failed'], lastRun: '' };
+
+    const marked = markKnownFlaky(run(testCase('a', 'failed'), testCase('b', 'failed'), testCase('c', 'passed')), history);
+
+    expect(marked.tests.map((test) => test.knownFlaky)).toEqual([true, undefined, undefined]);
+    expect(marked.failures[0].knownFlaky).toBe(true);
+    expect(marked.knownFlakyFailures).toEqual(['a.test.ts::a']);
+  });
+
+  describe('History File', () => {
+    let projectDir: string;
+
+    beforeEach(async () => {
+      projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-history-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(projectDir, { recursive: true, force: true });
+    });
+
+    it('should round-trip through the history file', async () => {
+      expect(await loadHistory(projectDir, '.test-history.json')).toEqual(emptyHistory());
+
+      const history = emptyHistory();
+      recordRun(history, run(testCase('a', 'passed')));
+      await saveHistory(projectDir, '.test-history.json', history);
+
+      expect(await loadHistory(projectDir, '.test-history.json')).toEqual(history);
+    });
+
+    it('should apply overlapping updates one after another', async () => {
+      await Promise.all(
+        ['a', 'b', 'c'].map((name) =>
+          updateHistory(projectDir, '.test-history.json', (history) => recordRun(history, run(testCase(name, 'passed'))))
+        )
+      );
+
+      const history = await loadHistory(projectDir, '.test-history.json');
+      expect(Object.keys(history.tests)).toEqual(['a.test.ts::a', 'a.test.ts::b', 'a.test.ts::c']);
+    });
+
+    it('should reject unknown history formats', async () => {
+      await fs.writeFile(path.join(projectDir, 'history.json'), '{"runs": []}');
+
+      await expect(loadHistory(projectDir, 'history.json')).rejects.toThrow('Unsupported test history file: history.json');
+    });
+  });
+});
+
+describe('Flaky Detection', () => {
+  const reruns = [
+    run(testCase('stable', 'passed'), testCase('flaky', 'passed'), testCase('broken', 'failed', { failureMessage: 'boom' })),
+    run(testCase('stable', 'passed'), testCase('flaky', 'failed', { failureMessage: 'timeout' }), testCase('broken', 'failed', { failureMessage: 'boom' })),
+    run(testCase('stable', 'passed'), testCase('flaky', 'passed', { retried: true }), testCase('broken', 'failed', { failureMessage: 'boom' })),
+    run(testCase('stable', 'passed'), testCase('flaky', 'passed'), testCase('broken', 'failed', { failureMessage: 'boom' })),
+  ];
+
+  it('should report pass/fail ratios per test', () => {
+    const report = aggregateReruns(reruns);
+
+    expect(report.runs).toBe(4);
+    expect(report.tests.map((test) => [test.fullName, test.passed, test.failed, test.passRate])).toEqual([
+      ['stable', 4, 0, 1],
+      ['flaky', 2, 2, 0.5],
+      ['broken', 0, 4, 0],
+    ]);
+    expect(report.tests[1].failureMessages).toEqual(['timeout', 'Passed only on retry']);
+    expect(report.flaky).toEqual(['a.test.ts::flaky']);
+    expect(report.alwaysFailing).toEqual(['a.test.ts::broken']);
+  });
+
+  it('should prefix run errors with the run number', () => {
+    const failed = { ...run(), errors: ['Cannot find module'] };
+
+    expect(aggregateReruns([run(), failed]).errors).toEqual(['Run 2: Cannot find module']);
+  });
+
+  it('should remember detected flaky tests', () => {
+    const history = emptyHistory();
+    recordFlaky(history, aggregateReruns(reruns), new Date('2024-05-01T00:00:00Z'));
+
+    expect(history.tests['a.test.ts::flaky'].flakyDetectedAt).toBe('2024-05-01T00:00:00.000Z');
+    expect(isKnownFlaky(history.tests['a.test.ts::flaky'])).toBe(true);
+    expect(history.tests['a.test.ts::broken']).toBeUndefined();
+  });
+
+  it('should clear the flaky flag after enough passes in a row', () => {
+    const history = emptyHistory();
+    recordFlaky(history, aggregateReruns(reruns));
+    const passes = (count: number) => {
+      for (let i = 0; i < count; i++) recordRun(history, run(testCase('flaky', 'passed')));
+    };
+
+    passes(FLAKY_CLEAR_PASSES - 1);
+    recordRun(history, run(testCase('flaky', 'passed', { retried: true })));
+    expect(history.tests['a.test.ts::flaky'].passesSinceFlaky).toBe(0);
+
+    passes(FLAKY_CLEAR_PASSES - 1);
+    expect(history.tests['a.test.ts::flaky'].flakyDetectedAt).toBeDefined();
+    passes(1);
+    expect(history.tests['a.test.ts::flaky'].flakyDetectedAt).toBeUndefined();
+    expect(history.tests['a.test.ts::flaky'].passesSinceFlaky).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Test outcome history
+ *
+ * Keeps the recent pass/fail outcomes of every test id in a local JSON file
+ * so runs can flag tests that are known to be flaky.
+ */
+
+import { existsSync, promises as fs } from 'fs';
+import * as path from 'path';
+import { TestCaseResult, TestRunResult } from './types.js';
+
+export const DEFAULT_HISTORY_FILE = '.test-history.json';
+
+// Outcomes kept per test; older ones are dropped
+const HISTORY_WINDOW = 20;
+
+// Pass/fail changes within the window that mark a test flaky. One change is
+// a test that broke or got fixed; two or more means it goes back and forth.
+const FLAKY_FLIPS = 2;
+
+// Consecutive passes after which a test detect_flaky flagged is trusted again
+export const FLAKY_CLEAR_PASSES = 10;
+
+export type Outcome = 'passed' | 'failed';
+
+export interface TestHistoryEntry {
+  /** Recent outcomes, oldest first */
+  outcomes: Outcome[];
+  lastRun: string;
+  /** Set when detect_flaky saw both outcomes for the same code */
+  flakyDetectedAt?: string;
+  /** Passes in a row since flakyDetectedAt; the flag clears at FLAKY_CLEAR_PASSES */
+  passesSinceFlaky?: number;
+}
+
+export interface TestHistory {
+  version: 1;
+  tests: Record<string, TestHistoryEntry>;
+}
+
+export function emptyHistory(): TestHistory {
+  return { version: 1, tests: {} };
+}
+
+export async function loadHistory(projectPath: string, historyFile: string): Promise<TestHistory> {
+  const file = path.resolve(projectPath, historyFile);
+  if (!existsSync(file)) return emptyHistory();
+
+  const history = JSON.parse(await fs.readFile(file, 'utf-8'));
+  if (history.version !== 1 || typeof history.tests !== 'object') {
+    throw new Error(`Unsupported test history file: ${historyFile}`);
+  }
+  return history;
+}
+
+export async function saveHistory(projectPath: string, historyFile: string, history: TestHistory): Promise<void> {
+  await fs.writeFile(path.resolve(projectPath, historyFile), JSON.stringify(history, null, 2) + '\n');
+}
+
+// Load-modify-save cycles run one at a time so overlapping runs keep each other's outcomes
+let updates: Promise<unknown> = Promise.resolve();
+
+/**
+ * Load the history, apply `update` and save it, after any update already queued
+ */
+export function updateHistory<T>(
+  projectPath: string,
+  historyFile: string,
+  update: (history: TestHistory) => T
+): Promise<T> {
+  const next = updates.then(async () => {
+    const history = await loadHistory(projectPath, historyFile);
+    const value = update(history);
+    await saveHistory(projectPath, historyFile, history);
+    return value;
+  });
+  updates = next.catch(() => undefined);
+  return next;
+}
+
+function countFlips(outcomes: Outcome[]): number {
+  return outcomes.slice(1).filter((outcome, index) => outcome !== outcomes[index]).length;
+}
+
+export function isKnownFlaky(entry: TestHistoryEntry | undefined): boolean {
+  if (!entry) return false;
+  return Boolean(entry.flakyDetectedAt) || countFlips(entry.outcomes) >= FLAKY_FLIPS;
+}
+
+/**
+ * Append the passed/failed outcomes of a run; skipped tests are not recorded
+ */
+export function recordRun(history: TestHistory, result: TestRunResult, now = new Date()): void {
+  for (const test of result.tests) {
+    if (test.status !== 'passed' && test.status !== 'failed') continue;
+
+    const entry = history.tests[test.id] || { outcomes: [], lastRun: '' };
+    // A Playwright test that only passed on retry failed first
+    if (test.retried) entry.outcomes.push('failed');
+    entry.outcomes.push(test.status);
+    entry.outcomes = entry.outcomes.slice(-HISTORY_WINDOW);
+    entry.lastRun = now.toISOString();
+    if (entry.flakyDetectedAt) {
+      entry.passesSinceFlaky = test.status === 'passed' && !test.retried ? (entry.passesSinceFlaky ?? 0) + 1 : 0;
+      if (entry.passesSinceFlaky >= FLAKY_CLEAR_PASSES) {
+        delete entry.flakyDetectedAt;
+        delete entry.passesSinceFlaky;
+      }
+    }
+    history.tests[test.id] = entry;
+  }
+}
+
+/**
+ * Flag tests with a flaky history and list the failures among them
+ */
+export function markKnownFlaky(result: TestRunResult, history: TestHistory): TestRunResult {
+  const mark = (test: TestCaseResult): TestCaseResult =>
+    isKnownFlaky(history.tests[test.id]) ? { ...test, knownFlaky: true } : test;
+
+  const tests = result.tests.map(mark);
+  const failures = tests.filter((test) => test.status === 'failed');
+  return {
+    ...result,
+    tests,
+    failures,
+    knownFlakyFailures: failures.filter((test) => test.knownFlaky).map((test) => test.id),
+  };
+}
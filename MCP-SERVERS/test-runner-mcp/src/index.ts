@@ -13,18 +13,34 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { execa } from 'execa';
-import { readFileSync, existsSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
+import { checkThresholds, loadCoverage, summarizeCoverage } from './coverage.js';
+import { computeDiffCoverage, getChangedLines } from './diff-coverage.js';
+import { discoverTests } from './discovery.js';
+import { aggregateReruns, recordFlaky } from './flaky.js';
+import { escapeTestName } from './frameworks.js';
+import { DEFAULT_HISTORY_FILE, markKnownFlaky, recordRun, updateHistory } from './history.js';
+import { RunOptions, runTests, TestRunnerConfig } from './runner.js';
+import { TestRunResult } from './types.js';
+import { startWatch, WatchEvent, WatchSession } from './watch.js';
 
-// Server configuration
-interface TestRunnerConfig {
-  framework: 'vitest' | 'jest' | 'mocha' | 'playwright';
-  projectPath: string;
-  testPattern: string;
-}
+const THRESHOLDS_SCHEMA = {
+  type: 'object',
+  properties: {
+    lines: { type: 'number', description: 'Minimum line coverage %' },
+    branches: { type: 'number', description: 'Minimum branch coverage %' },
+    functions: { type: 'number', description: 'Minimum function coverage %' },
+    diff: { type: 'number', description: 'Minimum coverage % of lines changed against baseRef; generate_coverage fails without baseRef when set' }
+  }
+};
 
 let config: TestRunnerConfig | null = null;
+const watchSessions = new Map<string, WatchSession>();
+
+// Bounds for detect_flaky reruns
+const DEFAULT_FLAKY_RUNS = 5;
+const MAX_FLAKY_RUNS = 50;
 
 // Create server instance
 const server = new Server(
@@ -35,6 +51,7 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      logging: {},
     },
   }
 );
@@ -61,6 +78,14 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
             testPattern: {
               type: 'string',
               description: 'Test file pattern (default: **/*.{test,spec}.{js,ts,tsx})'
+            },
+            coverageThresholds: {
+              ...THRESHOLDS_SCHEMA,
+              description: 'Default coverage minimums enforced by generate_coverage'
+            },
+            historyFile: {
+              type: 'string',
+              description: `Test outcome history file, relative to projectPath (default: ${DEFAULT_HISTORY_FILE})`
             }
           },
           required: ['framework', 'projectPath']
@@ -68,7 +93,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'run_tests',
-        description: 'Run tests and return results with pass/fail status and coverage',
+        description: 'Run tests and return per-test status, duration, failure message and stack',
         inputSchema: {
           type: 'object',
           properties: {
@@ -76,10 +101,6 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'Specific test files or pattern to run'
             },
-            watch: {
-              type: 'boolean',
-              description: 'Run in watch mode'
-            },
             coverage: {
               type: 'boolean',
               description: 'Generate coverage report'
@@ -93,30 +114,34 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'discover_tests',
-        description: 'Find and list all test files',
+        description: 'List test files with their suites and test names (static analysis, nothing is executed)',
         inputSchema: {
           type: 'object',
           properties: {
             pattern: {
               type: 'string',
-              description: 'Test file pattern to match'
+              description: 'Test file glob to match (default: configured testPattern)'
             }
           }
         }
       },
       {
         name: 'run_single_test',
-        description: 'Run a specific test file or test case',
+        description: 'Run a specific test file, optionally filtered to tests matching a name',
         inputSchema: {
           type: 'object',
           properties: {
             filePath: {
               type: 'string',
-              description: 'Path to test file'
+              description: 'Path to test file, relative to the project root'
             },
             testName: {
               type: 'string',
-              description: 'Specific test name within file'
+              description: 'Test name (or full name including suites) within the file'
+            },
+            exact: {
+              type: 'boolean',
+              description: 'Treat testName as a literal string instead of a regular expression (default: true)'
             }
           },
           required: ['filePath']
@@ -124,21 +149,89 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       },
       {
         name: 'generate_coverage',
-        description: 'Generate coverage report in specified format',
+        description: 'Run tests with coverage (or read an existing report) and return per-file coverage, coverage of lines changed against a git base ref, and threshold results',
         inputSchema: {
           type: 'object',
           properties: {
             format: {
               type: 'string',
               enum: ['json', 'html', 'lcov', 'text'],
-              description: 'Coverage report format'
+              description: 'Additional coverage report format to write (json is always written)'
             },
             outputPath: {
               type: 'string',
-              description: 'Output path for report'
+              description: 'Coverage output directory (default: coverage)'
+            },
+            pattern: {
+              type: 'string',
+              description: 'Specific test files or pattern to run'
+            },
+            run: {
+              type: 'boolean',
+              description: 'Run the tests first (default: true). Set false to read an existing report.'
+            },
+            reportPath: {
+              type: 'string',
+              description: 'Existing coverage-final.json, lcov.info or directory to read (default: outputPath)'
+            },
+            baseRef: {
+              type: 'string',
+              description: 'Git ref to compute diff coverage against (e.g. origin/main)'
+            },
+            thresholds: {
+              ...THRESHOLDS_SCHEMA,
+              description: 'Coverage minimums, overriding the configured defaults'
             }
           }
         }
+      },
+      {
+        name: 'watch_tests',
+        description: 'Start, stop or inspect a framework watch process. Results of every rerun are sent as MCP logging notifications.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['start', 'stop', 'status'],
+              description: 'What to do (default: start)'
+            },
+            pattern: {
+              type: 'string',
+              description: 'Specific test files or pattern to watch (start)'
+            },
+            watchId: {
+              type: 'string',
+              description: 'Watch session to stop; all sessions are stopped when omitted (stop)'
+            }
+          }
+        }
+      },
+      {
+        name: 'detect_flaky',
+        description: 'Rerun a test file or test several times and report pass/fail ratios per test. Flaky tests are recorded in the history file so run_tests marks them.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            filePath: {
+              type: 'string',
+              description: 'Path to test file, relative to the project root'
+            },
+            testName: {
+              type: 'string',
+              description: 'Test name (or full name including suites) within the file'
+            },
+            exact: {
+              type: 'boolean',
+              description: 'Treat testName as a literal string instead of a regular expression (default: true)'
+            },
+            runs: {
+              type: 'number',
+              description: `Number of runs (default: ${DEFAULT_FLAKY_RUNS}, max: ${MAX_FLAKY_RUNS})`
+            }
+          },
+          required: ['filePath']
+        }
       }
     ]
   };
@@ -160,6 +253,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return await handleRunSingleTest(args);
       case 'generate_coverage':
         return await handleGenerateCoverage(args);
+      case 'watch_tests':
+        return await handleWatchTests(args);
+      case 'detect_flaky':
+        return await handleDetectFlaky(args);
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -178,11 +275,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
 // Handler implementations
 async function handleConfigure(args: any) {
+  // Watchers belong to the previous configuration
+  const previousSessions = [...watchSessions.values()];
+  watchSessions.clear();
+
   config = {
     framework: args.framework,
     projectPath: args.projectPath,
-    testPattern: args.testPattern || '**/*.{test,spec}.{js,ts,tsx}'
+    testPattern: args.testPattern || '**/*.{test,spec}.{js,ts,tsx}',
+    coverageThresholds: args.coverageThresholds,
+    historyFile: args.historyFile || DEFAULT_HISTORY_FILE
   };
+  await Promise.all(previousSessions.map((session) => session.stop()));
 
   return {
     content: [
@@ -199,23 +303,17 @@ async function handleRunTests(args: any) {
     throw new Error('Test runner not configured. Call configure first.');
   }
 
-  // Build command based on framework
-  const command = buildTestCommand(config, args);
-
-  // Execute tests
-  const result = await execa(command.cmd, command.args, {
-    cwd: config.projectPath,
-    reject: false
+  const result = await runWithHistory(config, {
+    pattern: args.pattern,
+    coverage: args.coverage,
+    bail: args.bail
   });
 
-  // Parse results
-  const parsed = parseTestOutput(config.framework, result);
-
   return {
     content: [
       {
         type: 'text',
-        text: JSON.stringify(parsed, null, 2)
+        text: JSON.stringify(result, null, 2)
       }
     ]
   };
@@ -226,12 +324,13 @@ async function handleDiscoverTests(args: any) {
     throw new Error('Test runner not configured. Call configure first.');
   }
 
-  // Implementation for test discovery
+  const result = await discoverTests(config.projectPath, args.pattern || config.testPattern);
+
   return {
     content: [
       {
         type: 'text',
-        text: 'Test discovery not yet implemented'
+        text: JSON.stringify({ framework: config.framework, ...result }, null, 2)
       }
     ]
   };
@@ -242,12 +341,20 @@ async function handleRunSingleTest(args: any) {
     throw new Error('Test runner not configured. Call configure first.');
   }
 
-  // Implementation for single test execution
+  const result = await runWithHistory(config, singleTestOptions(config, args));
+
+  // Filtered-out tests are reported as skipped (or omitted entirely by mocha)
+  const ran = result.tests.some((test) => test.status === 'passed' || test.status === 'failed');
+  if (args.testName && !ran && result.errors.length === 0) {
+    result.errors.push(`No test in ${args.filePath} matched "${args.testName}"`);
+    result.success = false;
+  }
+
   return {
     content: [
       {
         type: 'text',
-        text: 'Single test execution not yet implemented'
+        text: JSON.stringify(result, null, 2)
       }
     ]
   };
@@ -258,62 +365,241 @@ async function handleGenerateCoverage(args: any) {
     throw new Error('Test runner not configured. Call configure first.');
   }
 
-  // Implementation for coverage generation
+  const directory = args.outputPath || 'coverage';
+  let tests: TestRunResult | undefined;
+  if (args.run !== false) {
+    const reporters = args.format && args.format !== 'json' ? ['json', args.format] : ['json'];
+    tests = await runTests(config, {
+      pattern: args.pattern,
+      coverage: true,
+      coverageReporters: reporters,
+      coverageDirectory: directory
+    });
+  }
+
+  let coverage;
+  try {
+    coverage = await loadCoverage(config.projectPath, args.reportPath || directory);
+  } catch (error) {
+    const testErrors = tests?.errors.length ? ` Test run errors: ${tests.errors.join('; ')}` : '';
+    throw new Error(`${error instanceof Error ? error.message : String(error)}.${testErrors}`);
+  }
+
+  const summary = summarizeCoverage(coverage.files);
+  const diff = args.baseRef
+    ? computeDiffCoverage(args.baseRef, coverage.files, await getChangedLines(config.projectPath, args.baseRef))
+    : undefined;
+
+  const thresholds = { ...config.coverageThresholds, ...args.thresholds };
+  const failures = checkThresholds(thresholds, {
+    lines: summary.total.lines.pct,
+    branches: summary.total.branches.pct,
+    functions: summary.total.functions.pct,
+    diff: diff?.lines.pct
+  });
+
+  let message: string | undefined;
+  if (failures.length > 0) {
+    message = `Coverage thresholds not met: ${failures
+      .map((failure) => `${failure.metric} ${failure.actual}% < ${failure.expected}%`)
+      .join(', ')}`;
+    const uncovered = diff?.files.filter((file) => file.uncoveredLines.length > 0) || [];
+    if (uncovered.length > 0) {
+      message += `. Uncovered changed lines: ${uncovered.map((file) => `${file.file}: ${file.uncovered}`).join('; ')}`;
+    }
+  }
+
+  const result = {
+    report: coverage.report,
+    tests: tests && {
+      success: tests.success,
+      total: tests.total,
+      passed: tests.passed,
+      failed: tests.failed,
+      skipped: tests.skipped,
+      failures: tests.failures.map((failure) => ({ id: failure.id, failureMessage: failure.failureMessage })),
+      errors: tests.errors
+    },
+    total: summary.total,
+    files: summary.files,
+    diff,
+    thresholds: {
+      ...thresholds,
+      passed: failures.length === 0,
+      failures,
+      message
+    }
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(result, null, 2)
+      }
+    ],
+    isError: failures.length > 0
+  };
+}
+
+async function handleWatchTests(args: any) {
+  if (!config) {
+    throw new Error('Test runner not configured. Call configure first.');
+  }
+
+  const action = args.action || 'start';
+  let result: unknown;
+
+  switch (action) {
+    case 'start': {
+      const session = startWatch(config, { pattern: args.pattern }, (event) => void notifyWatchEvent(event));
+      watchSessions.set(session.id, session);
+      result = {
+        watchId: session.id,
+        status: session.status,
+        message: 'Watching. Results of each run are sent as notifications/message; use action "status" for the latest result.'
+      };
+      break;
+    }
+
+    case 'stop': {
+      const sessions = args.watchId ? [watchSessions.get(args.watchId)] : [...watchSessions.values()];
+      if (sessions.some((session) => !session)) {
+        throw new Error(`Unknown watch session: ${args.watchId}`);
+      }
+      for (const session of sessions as WatchSession[]) {
+        await session.stop();
+        watchSessions.delete(session.id);
+      }
+      result = { stopped: (sessions as WatchSession[]).map((session) => session.id) };
+      break;
+    }
+
+    case 'status':
+      result = {
+        sessions: [...watchSessions.values()].map((session) => ({
+          watchId: session.id,
+          pattern: session.pattern,
+          status: session.status,
+          startedAt: session.startedAt,
+          runs: session.runs,
+          lastResult: session.lastResult && summarizeRun(session.lastResult)
+        }))
+      };
+      break;
+
+    default:
+      throw new Error(`Unknown watch action: ${action}`);
+  }
+
   return {
     content: [
       {
         type: 'text',
-        text: 'Coverage generation not yet implemented'
+        text: JSON.stringify(result, null, 2)
+      }
+    ]
+  };
+}
+
+async function handleDetectFlaky(args: any) {
+  if (!config) {
+    throw new Error('Test runner not configured. Call configure first.');
+  }
+
+  const runs = args.runs ?? DEFAULT_FLAKY_RUNS;
+  if (!Number.isInteger(runs) || runs < 2 || runs > MAX_FLAKY_RUNS) {
+    throw new Error(`runs must be an integer between 2 and ${MAX_FLAKY_RUNS}`);
+  }
+
+  const options = singleTestOptions(config, args);
+  const results: TestRunResult[] = [];
+  for (let i = 0; i < runs; i++) {
+    results.push(await runTests(config, options));
+  }
+
+  const report = aggregateReruns(results);
+  await updateHistory(config.projectPath, config.historyFile, (history) => {
+    results.forEach((result) => recordRun(history, result));
+    recordFlaky(history, report);
+  });
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({ filePath: args.filePath, testName: args.testName, ...report }, null, 2)
       }
     ]
   };
 }
 
 // Helper functions
-function buildTestCommand(config: TestRunnerConfig, options: any) {
-  const args: string[] = [];
-
-  switch (config.framework) {
-    case 'vitest':
-      if (options.coverage) args.push('--coverage');
-      if (options.watch) args.push('--watch');
-      if (options.bail) args.push('--bail');
-      if (options.pattern) args.push(options.pattern);
-      return { cmd: 'vitest', args };
-
-    case 'jest':
-      if (options.coverage) args.push('--coverage');
-      if (options.watch) args.push('--watch');
-      if (options.bail) args.push('--bail');
-      if (options.pattern) args.push(options.pattern);
-      return { cmd: 'jest', args };
-
-    case 'mocha':
-      if (options.bail) args.push('--bail');
-      if (options.pattern) args.push(options.pattern);
-      return { cmd: 'mocha', args };
-
-    case 'playwright':
-      if (options.pattern) args.push(options.pattern);
-      return { cmd: 'playwright', args: ['test', ...args] };
+function singleTestOptions(config: TestRunnerConfig, args: any): RunOptions {
+  if (!existsSync(join(config.projectPath, args.filePath))) {
+    throw new Error(`Test file not found: ${args.filePath}`);
+  }
 
-    default:
-      throw new Error(`Unsupported framework: ${config.framework}`);
+  let testName: string | undefined;
+  if (args.testName) {
+    testName = args.exact === false ? args.testName : escapeTestName(args.testName);
   }
+  return { pattern: args.filePath, testName };
+}
+
+// Flag known-flaky tests from earlier runs, then add this run to the history
+function applyHistory(config: TestRunnerConfig, result: TestRunResult): Promise<TestRunResult> {
+  return updateHistory(config.projectPath, config.historyFile, (history) => {
+    const marked = markKnownFlaky(result, history);
+    recordRun(history, result);
+    return marked;
+  });
 }
 
-function parseTestOutput(framework: string, result: any) {
-  // Basic parsing - implement proper parsing based on framework output
+async function runWithHistory(config: TestRunnerConfig, options: RunOptions): Promise<TestRunResult> {
+  return applyHistory(config, await runTests(config, options));
+}
+
+function summarizeRun(result: TestRunResult) {
   return {
-    framework,
-    passed: 0,
-    failed: 0,
-    skipped: 0,
-    duration: 0,
-    output: result.stdout + result.stderr
+    success: result.success,
+    total: result.total,
+    passed: result.passed,
+    failed: result.failed,
+    skipped: result.skipped,
+    duration: result.duration,
+    failures: result.failures.map((failure) => ({
+      id: failure.id,
+      failureMessage: failure.failureMessage,
+      knownFlaky: failure.knownFlaky
+    })),
+    knownFlakyFailures: result.knownFlakyFailures,
+    errors: result.errors
   };
 }
 
+async function notifyWatchEvent(event: WatchEvent) {
+  try {
+    if (event.type === 'result') {
+      const result = config ? await applyHistory(config, event.result) : event.result;
+      event.session.lastResult = result;
+      await server.sendLoggingMessage({
+        level: result.success ? 'info' : 'error',
+        logger: 'test-runner',
+        data: { watchId: event.session.id, run: event.session.runs, ...summarizeRun(result) }
+      });
+    } else {
+      await server.sendLoggingMessage({
+        level: 'warning',
+        logger: 'test-runner',
+        data: { watchId: event.session.id, event: 'exited', exitCode: event.exitCode, output: event.output }
+      });
+    }
+  } catch (error) {
+    console.error('Failed to send watch notification:', error);
+  }
+}
+
 // Start server
 async function main() {
   const transport = new StdioServerTransport();
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { extractJson, parseReport, splitFailure } from './parsers.js';
+
+const jestReport = {
+  success: false,
+  testResults: [
+    {
+      name: '/project/src/math.test.ts',
+      status: 'failed',
+      startTime: 1000,
+      endTime: 1250,
+      message: '',
+      assertionResults: [
+        {
+          ancestorTitles: ['math', 'add'],
+          title: 'adds numbers',
+          fullName: 'math add adds numbers',
+          status: 'passed',
+          duration: 3,
+          failureMessages: [],
+        },
+        {
+          ancestorTitles: ['math'],
+          title: 'divides',
+          fullName: 'math divides',
+          status: 'failed',
+          duration: 5,
+          failureMessages: [
+            '\u001b[31mAssertionError: expected 2 to be 3\u001b[39m\n    at /project/src/math.test.ts:12:19\n    at processTicksAndRejections (node:internal)',
+          ],
+        },
+        { ancestorTitles: [], title: 'later', status: 'todo', duration: null, failureMessages: [] },
+        { ancestorTitles: [], title: 'off', status: 'pending', duration: null, failureMessages: [] },
+      ],
+    },
+    {
+      name: '/project/src/broken.test.ts',
+      status: 'failed',
+      message: "Cannot find module './missing'",
+      assertionResults: [],
+    },
+  ],
+};
+
+describe('Reporter Parsing', () => {
+  describe('Vitest / Jest', () => {
+    it('should map assertions to per-test results', () => {
+      const result = parseReport('vitest', jestReport, '/project');
+
+      expect(result).toMatchObject({ framework: 'vitest', total: 4, passed: 1, failed: 1, skipped: 2, duration: 250 });
+      expect(result.tests[0]).toEqual({
+        id: 'src/math.test.ts::math > add > adds numbers',
+        file: 'src/math.test.ts',
+        suite: ['math', 'add'],
+        name: 'adds numbers',
+        fullName: 'math add adds numbers',
+        status: 'passed',
+        duration: 3,
+      });
+      expect(result.tests.map((test) => test.status)).toEqual(['passed', 'failed', 'todo', 'skipped']);
+    });
+
+    it('should split failure message and stack', () => {
+      const [failure] = parseReport('jest', jestReport, '/project').failures;
+
+      expect(failure.failureMessage).toBe('AssertionError: expected 2 to be 3');
+      expect(failure.stack).toMatch(/^ {4}at \/project\/src\/math\.test\.ts:12:19/);
+    });
+
+    it('should report files that failed to load as errors', () => {
+      const result = parseReport('jest', jestReport, '/project');
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(["src/broken.test.ts: Cannot find module './missing'"]);
+    });
+  });
+
+  describe('Mocha', () => {
+    const mochaReport = {
+      stats: { duration: 42 },
+      passes: [{ title: 'works', fullTitle: 'Parser works', file: '/project/test/parser.spec.js', duration: 2 }],
+      failures: [
+        {
+          title: 'rejects bad input',
+          fullTitle: 'Parser rejects bad input',
+          file: '/project/test/parser.spec.js',
+          duration: 1,
+          err: { message: 'expected true to equal false', stack: 'AssertionError: expected true\n    at Context.<anonymous> (test/parser.spec.js:9:5)' },
+        },
+        {
+          title: '"before all" hook',
+          fullTitle: 'Database "before all" hook',
+          err: { message: 'connect ECONNREFUSED' },
+        },
+      ],
+      pending: [{ title: 'streams', fullTitle: 'Parser streams', file: '/project/test/parser.spec.js' }],
+    };
+
+    it('should parse passes, failures and pending tests', () => {
+      const result = parseReport('mocha', mochaReport, '/project');
+
+      expect(result).toMatchObject({ total: 3, passed: 1, failed: 1, skipped: 1, duration: 42, success: false });
+      expect(result.failures[0]).toMatchObject({
+        id: 'test/parser.spec.js::Parser > rejects bad input',
+        suite: ['Parser'],
+        failureMessage: 'expected true to equal false',
+        stack: '    at Context.<anonymous> (test/parser.spec.js:9:5)',
+      });
+    });
+
+    it('should report hook failures as errors rather than tests', () => {
+      expect(parseReport('mocha', mochaReport).errors).toEqual(['Database "before all" hook: connect ECONNREFUSED']);
+    });
+  });
+
+  describe('Playwright', () => {
+    const playwrightReport = {
+      stats: { duration: 1800 },
+      errors: [],
+      suites: [
+        {
+          title: 'login.spec.ts',
+          file: 'login.spec.ts',
+          specs: [
+            {
+              title: 'shows form',
+              file: 'login.spec.ts',
+              tests: [{ projectName: 'chromium', status: 'expected', results: [{ status: 'passed', duration: 300 }] }],
+            },
+          ],
+          suites: [
+            {
+              title: 'submit',
+              file: 'login.spec.ts',
+              specs: [
+                {
+                  title: 'rejects wrong password',
+                  file: 'login.spec.ts',
+                  tests: [
+                    {
+                      projectName: 'chromium',
+                      status: 'unexpected',
+                      results: [
+                        {
+                          status: 'failed',
+                          duration: 500,
+                          error: {
+                            message: 'Error: expect(locator).toBeVisible()',
+                            stack: 'Error: expect(locator).toBeVisible()\n    at login.spec.ts:20:7',
+                          },
+                        },
+                      ],
+                    },
+                  ],
+                },
+                {
+                  title: 'redirects',
+                  file: 'login.spec.ts',
+                  tests: [
+                    {
+                      projectName: 'firefox',
+                      status: 'flaky',
+                      results: [
+                        { status: 'failed', duration: 400 },
+                        { status: 'passed', duration: 350 },
+                      ],
+                    },
+                  ],
+                },
+                {
+                  title: 'uses sso',
+                  file: 'login.spec.ts',
+                  tests: [{ projectName: 'chromium', status: 'skipped', results: [] }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    it('should walk nested suites and map outcomes', () => {
+      const result = parseReport('playwright', playwrightReport);
+
+      expect(result).toMatchObject({ total: 4, passed: 2, failed: 1, skipped: 1, duration: 1800 });
+      expect(result.tests.map((test) => [test.fullName, test.status, test.project])).toEqual([
+        ['shows form', 'passed', 'chromium'],
+        ['submit rejects wrong password', 'failed', 'chromium'],
+        ['submit redirects', 'passed', 'firefox'],
+        ['submit uses sso', 'skipped', 'chromium'],
+      ]);
+    });
+
+    it('should flag retried tests and keep failure details', () => {
+      const result = parseReport('playwright', playwrightReport);
+
+      expect(result.tests[2]).toMatchObject({ retried: true, duration: 750 });
+      expect(result.failures[0]).toMatchObject({
+        id: 'login.spec.ts::[chromium] > submit > rejects wrong password',
+        failureMessage: 'Error: expect(locator).toBeVisible()',
+        stack: '    at login.spec.ts:20:7',
+      });
+    });
+  });
+
+  describe('Helpers', () => {
+    it('should keep messages without stack frames intact', () => {
+      expect(splitFailure('Snapshot mismatch\n- a\n+ b')).toEqual({ failureMessage: 'Snapshot mismatch\n- a\n+ b' });
+    });
+
+    it('should extract a JSON report surrounded by log output', () => {
+      expect(extractJson('Running tests...\n{"numTotalTests": 1}\n')).toEqual({ numTotalTests: 1 });
+      expect(extractJson('no report here')).toBeNull();
+    });
+  });
+});
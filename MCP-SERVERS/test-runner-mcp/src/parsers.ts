@@ -0,0 +1,309 @@
+/**
+ * JSON reporter parsers
+ *
+ * Converts each framework's JSON reporter output into the common
+ * TestRunResult model so agents can act on individual failures.
+ */
+
+import * as path from 'path';
+import { Framework, TestCaseResult, TestRunResult, TestStatus } from './types.js';
+
+// Jest and Vitest share the Jest JSON reporter format
+interface JestAssertionResult {
+  ancestorTitles: string[];
+  title: string;
+  status: string;
+  duration?: number | null;
+  failureMessages?: string[];
+}
+
+interface JestReport {
+  success?: boolean;
+  startTime?: number;
+  testResults: Array<{
+    name: string;
+    status?: string;
+    message?: string;
+    startTime?: number;
+    endTime?: number;
+    assertionResults: JestAssertionResult[];
+  }>;
+}
+
+interface MochaTest {
+  title: string;
+  fullTitle: string;
+  file?: string;
+  duration?: number;
+  err?: { message?: string; stack?: string };
+}
+
+interface MochaReport {
+  stats: { duration?: number };
+  tests?: MochaTest[];
+  passes: MochaTest[];
+  failures: MochaTest[];
+  pending: MochaTest[];
+}
+
+interface PlaywrightResult {
+  status: string;
+  duration: number;
+  retry?: number;
+  error?: { message?: string; stack?: string };
+  errors?: Array<{ message?: string; stack?: string }>;
+}
+
+interface PlaywrightSpec {
+  title: string;
+  file: string;
+  tests: Array<{
+    projectName?: string;
+    status: string;
+    results: PlaywrightResult[];
+  }>;
+}
+
+interface PlaywrightSuite {
+  title: string;
+  file: string;
+  specs?: PlaywrightSpec[];
+  suites?: PlaywrightSuite[];
+}
+
+interface PlaywrightReport {
+  suites: PlaywrightSuite[];
+  errors?: Array<{ message?: string }>;
+  stats?: { duration?: number };
+}
+
+// Strip ANSI colour codes some reporters leave in failure messages
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+export function testId(file: string, suite: string[], name: string): string {
+  return `${file}::${[...suite, name].join(' > ')}`;
+}
+
+/**
+ * Split a failure string into message and stack at the first stack frame
+ */
+export function splitFailure(raw: string): { failureMessage: string; stack?: string } {
+  const text = raw.replace(ANSI_PATTERN, '');
+  const index = text.search(/\n\s+at /);
+  if (index === -1) return { failureMessage: text.trim() };
+  return { failureMessage: text.slice(0, index).trim(), stack: text.slice(index + 1) };
+}
+
+function relativeFile(file: string, projectPath?: string): string {
+  if (!projectPath || !path.isAbsolute(file)) return file;
+  return path.relative(projectPath, file).split(path.sep).join('/');
+}
+
+function jestStatus(status: string): TestStatus {
+  switch (status) {
+    case 'passed':
+      return 'passed';
+    case 'failed':
+      return 'failed';
+    case 'todo':
+      return 'todo';
+    default:
+      // pending, skipped, disabled
+      return 'skipped';
+  }
+}
+
+function summarize(
+  framework: Framework,
+  tests: TestCaseResult[],
+  errors: string[],
+  duration: number
+): TestRunResult {
+  const failures = tests.filter((test) => test.status === 'failed');
+  const passed = tests.filter((test) => test.status === 'passed').length;
+  return {
+    framework,
+    success: failures.length === 0 && errors.length === 0,
+    total: tests.length,
+    passed,
+    failed: failures.length,
+    skipped: tests.length - passed - failures.length,
+    duration,
+    tests,
+    failures,
+    errors,
+  };
+}
+
+export function parseJestReport(framework: Framework, report: JestReport, projectPath?: string): TestRunResult {
+  const tests: TestCaseResult[] = [];
+  const errors: string[] = [];
+  let duration = 0;
+
+  for (const fileResult of report.testResults || []) {
+    const file = relativeFile(fileResult.name, projectPath);
+    if (fileResult.startTime && fileResult.endTime) {
+      duration += fileResult.endTime - fileResult.startTime;
+    }
+
+    if (fileResult.status === 'failed' && fileResult.assertionResults.length === 0 && fileResult.message) {
+      errors.push(`${file}: ${fileResult.message.replace(ANSI_PATTERN, '').trim()}`);
+    }
+
+    for (const assertion of fileResult.assertionResults) {
+      // Vitest reports the file-level suite as an empty ancestor title
+      const suite = (assertion.ancestorTitles || []).filter((title) => title !== '');
+      const status = jestStatus(assertion.status);
+      const test: TestCaseResult = {
+        id: testId(file, suite, assertion.title),
+        file,
+        suite,
+        name: assertion.title,
+        fullName: [...suite, assertion.title].join(' '),
+        status,
+        duration: assertion.duration ?? null,
+      };
+      if (status === 'failed' && assertion.failureMessages?.length) {
+        Object.assign(test, splitFailure(assertion.failureMessages.join('\n')));
+      }
+      tests.push(test);
+    }
+  }
+
+  return summarize(framework, tests, errors, duration);
+}
+
+export function parseMochaReport(report: MochaReport, projectPath?: string): TestRunResult {
+  const toCase = (test: MochaTest, status: TestStatus): TestCaseResult => {
+    const file = relativeFile(test.file || '', projectPath);
+    const suiteTitle = test.fullTitle.endsWith(test.title)
+      ? test.fullTitle.slice(0, test.fullTitle.length - test.title.length).trim()
+      : '';
+    const suite = suiteTitle ? [suiteTitle] : [];
+    const result: TestCaseResult = {
+      id: testId(file, suite, test.title),
+      file,
+      suite,
+      name: test.title,
+      fullName: test.fullTitle,
+      status,
+      duration: test.duration ?? null,
+    };
+    if (status === 'failed' && test.err) {
+      result.failureMessage = (test.err.message || '').replace(ANSI_PATTERN, '');
+      const stack = test.err.stack ? splitFailure(test.err.stack).stack : undefined;
+      if (stack) result.stack = stack;
+    }
+    return result;
+  };
+
+  const tests = [
+    ...report.passes.map((test) => toCase(test, 'passed')),
+    ...report.failures.map((test) => toCase(test, 'failed')),
+    ...report.pending.map((test) => toCase(test, 'skipped')),
+  ];
+
+  // Hook failures ("before all" hook ...) appear in failures without a matching test
+  const errors = report.failures
+    .filter((test) => /"(before|after) (all|each)" hook/.test(test.title))
+    .map((test) => `${test.fullTitle}: ${test.err?.message || 'hook failed'}`);
+
+  return summarize(
+    'mocha',
+    tests.filter((test) => !/"(before|after) (all|each)" hook/.test(test.name)),
+    errors,
+    report.stats?.duration || 0
+  );
+}
+
+export function parsePlaywrightReport(report: PlaywrightReport, projectPath?: string): TestRunResult {
+  const tests: TestCaseResult[] = [];
+
+  const visit = (suite: PlaywrightSuite, titles: string[]) => {
+    for (const spec of suite.specs || []) {
+      const file = relativeFile(spec.file || suite.file, projectPath);
+      for (const test of spec.tests) {
+        const results = test.results || [];
+        const last = results[results.length - 1];
+        let status: TestStatus;
+        if (test.status === 'skipped') status = 'skipped';
+        else if (test.status === 'unexpected') status = 'failed';
+        else status = 'passed';
+
+        const name = spec.title;
+        const result: TestCaseResult = {
+          id: testId(file, test.projectName ? [`[${test.projectName}]`, ...titles] : titles, name),
+          file,
+          suite: titles,
+          name,
+          fullName: [...titles, name].join(' '),
+          status,
+          duration: results.reduce((sum, run) => sum + (run.duration || 0), 0),
+        };
+        if (test.projectName) result.project = test.projectName;
+        if (test.status === 'flaky') result.retried = true;
+
+        const error = last?.error || last?.errors?.[0];
+        if (status === 'failed' && error) {
+          result.failureMessage = (error.message || '').replace(ANSI_PATTERN, '').trim();
+          if (error.stack) {
+            const stack = splitFailure(error.stack).stack;
+            if (stack) result.stack = stack;
+          }
+        }
+        tests.push(result);
+      }
+    }
+
+    for (const child of suite.suites || []) {
+      visit(child, [...titles, child.title]);
+    }
+  };
+
+  // Top-level suites are files; their title is the file path
+  for (const fileSuite of report.suites || []) {
+    visit(fileSuite, []);
+  }
+
+  const errors = (report.errors || []).map((error) => (error.message || '').replace(ANSI_PATTERN, '').trim());
+  return summarize('playwright', tests, errors, report.stats?.duration || 0);
+}
+
+/**
+ * Pull the JSON document out of reporter output that may contain other logs
+ */
+export function extractJson(output: string): unknown | null {
+  const trimmed = output.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through
+  }
+
+  const start = trimmed.search(/^\{/m);
+  const end = trimmed.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(trimmed.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a framework's JSON report into the common result model
+ */
+export function parseReport(framework: Framework, report: unknown, projectPath?: string): TestRunResult {
+  switch (framework) {
+    case 'vitest':
+    case 'jest':
+      return parseJestReport(framework, report as JestReport, projectPath);
+    case 'mocha':
+      return parseMochaReport(report as MochaReport, projectPath);
+    case 'playwright':
+      return parsePlaywrightReport(report as PlaywrightReport, projectPath);
+    default:
+      throw new Error(`Unsupported framework: ${framework}`);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Test execution
+ *
+ * Runs the configured framework with its JSON reporter and parses the
+ * report into the common result model.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execa } from 'execa';
+import { CoverageThresholds } from './coverage.js';
+import { buildTestCommand, TestCommandOptions } from './frameworks.js';
+import { extractJson, parseReport } from './parsers.js';
+import { Framework, TestRunResult } from './types.js';
+
+export interface TestRunnerConfig {
+  framework: Framework;
+  projectPath: string;
+  testPattern: string;
+  /** Default minimums for generate_coverage */
+  coverageThresholds?: CoverageThresholds;
+  /** Outcome history used to flag known-flaky tests, relative to projectPath */
+  historyFile: string;
+}
+
+export type RunOptions = Omit<TestCommandOptions, 'reportFile'>;
+
+// Raw output is truncated when returned to the caller
+const MAX_OUTPUT_LENGTH = 10000;
+
+export async function runTests(config: TestRunnerConfig, options: RunOptions): Promise<TestRunResult> {
+  const reportDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-runner-'));
+  const reportFile = path.join(reportDir, 'report.json');
+
+  try {
+    const command = buildTestCommand(config.framework, { ...options, reportFile });
+    const result = await execa(command.cmd, command.args, {
+      cwd: config.projectPath,
+      env: { ...command.env, CI: 'true' },
+      preferLocal: true,
+      reject: false,
+    });
+    const output = `${result.stdout}\n${result.stderr}`.trim();
+
+    let report: unknown = null;
+    try {
+      report = JSON.parse(await fs.readFile(reportFile, 'utf-8'));
+    } catch {
+      // Older reporters ignore the output file option and print to stdout
+      report = extractJson(result.stdout);
+    }
+
+    if (!report) {
+      return {
+        framework: config.framework,
+        success: false,
+        total: 0,
+        passed: 0,
+        failed: 0,
+        skipped: 0,
+        duration: 0,
+        tests: [],
+        failures: [],
+        errors: [
+          'code' in result && result.code === 'ENOENT'
+            ? `${command.cmd} not found. Install it in ${config.projectPath}.`
+            : `${command.cmd} exited with code ${result.exitCode} without producing a JSON report`,
+        ],
+        output: output.slice(-MAX_OUTPUT_LENGTH),
+      };
+    }
+
+    const parsed = parseReport(config.framework, report, config.projectPath);
+    if (parsed.total === 0 && parsed.errors.length === 0 && result.exitCode !== 0) {
+      parsed.success = false;
+      parsed.errors.push(`${command.cmd} exited with code ${result.exitCode}`);
+      parsed.output = output.slice(-MAX_OUTPUT_LENGTH);
+    }
+    return parsed;
+  } finally {
+    await fs.rm(reportDir, { recursive: true, force: true });
+  }
+}
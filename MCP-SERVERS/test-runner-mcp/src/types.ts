@@ -0,0 +1,45 @@
+/**
+ * Common result model shared by every framework
+ */
+
+export type Framework = 'vitest' | 'jest' | 'mocha' | 'playwright';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped' | 'todo';
+
+export interface TestCaseResult {
+  /** Stable id: `<file>::<suite> > <name>` */
+  id: string;
+  file: string;
+  suite: string[];
+  name: string;
+  fullName: string;
+  status: TestStatus;
+  /** Duration in milliseconds, when the reporter provides it */
+  duration: number | null;
+  failureMessage?: string;
+  stack?: string;
+  /** Playwright project (browser) the test ran in */
+  project?: string;
+  /** Passed only after a retry (Playwright) */
+  retried?: boolean;
+  /** The outcome history shows this test passing and failing intermittently */
+  knownFlaky?: boolean;
+}
+
+export interface TestRunResult {
+  framework: Framework;
+  success: boolean;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration: number;
+  tests: TestCaseResult[];
+  failures: TestCaseResult[];
+  /** Errors outside individual tests (suite failed to load, config errors) */
+  errors: string[];
+  /** Ids of failed tests that are known to be flaky */
+  knownFlakyFailures?: string[];
+  /** Raw output, included only when the reporter output could not be parsed */
+  output?: string;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { startWatch, WatchEvent } from './watch.js';
+
+// Stands in for `vitest watch`: writes a report, then a second one as if a file changed
+const FAKE_VITEST = `#!/usr/bin/env node
+const fs = require('fs');
+const outputFile = process.argv.find((arg) => arg.startsWith('--outputFile=')).slice('--outputFile='.length);
+const report = (status) => JSON.stringify({
+  testResults: [{ name: process.cwd() + '/a.test.ts', assertionResults: [{ ancestorTitles: [], title: 'works', status, duration: 1 }] }],
+});
+fs.writeFileSync(outputFile, report('failed'));
+setTimeout(() => fs.writeFileSync(outputFile, report('passed')), 600);
+if (process.argv[2] === 'watch') setInterval(() => {}, 1000);
+`;
+
+function waitFor(predicate: () => boolean, timeout = 10000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const check = () => {
+      if (predicate()) return resolve();
+      if (Date.now() - started > timeout) return reject(new Error('Timed out'));
+      setTimeout(check, 50);
+    };
+    check();
+  });
+}
+
+describe('Watch Mode', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'test-watch-project-'));
+    await fs.mkdir(path.join(projectDir, 'node_modules', '.bin'), { recursive: true });
+    await fs.writeFile(path.join(projectDir, 'package.json'), '{}');
+    await fs.writeFile(path.join(projectDir, 'node_modules', '.bin', 'vitest'), FAKE_VITEST, { mode: 0o755 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should emit a parsed result for every rewritten report until stopped', async () => {
+    const events: WatchEvent[] = [];
+    const session = startWatch(
+      { framework: 'vitest', projectPath: projectDir, testPattern: '**/*.test.ts', historyFile: '.test-history.json' },
+      {},
+      (event) => events.push(event)
+    );
+
+    await waitFor(() => events.length >= 2);
+    await session.stop();
+
+    expect(events.map((event) => (event.type === 'result' ? event.result.tests[0].status : event.type))).toEqual([
+      'failed',
+      'passed',
+    ]);
+    expect(session).toMatchObject({ status: 'stopped', runs: 2 });
+    expect(session.lastResult?.tests[0].id).toBe('a.test.ts::works');
+  });
+
+  it('should report when the watch process exits', async () => {
+    await fs.writeFile(path.join(projectDir, 'node_modules', '.bin', 'vitest'), '#!/bin/sh\necho "config error" >&2\nexit 1\n', {
+      mode: 0o755,
+    });
+    const events: WatchEvent[] = [];
+    const session = startWatch(
+      { framework: 'vitest', projectPath: projectDir, testPattern: '**/*.test.ts', historyFile: '.test-history.json' },
+      {},
+      (event) => events.push(event)
+    );
+
+    await waitFor(() => events.length > 0);
+
+    expect(events[0]).toMatchObject({ type: 'exit', exitCode: 1, output: 'config error' });
+    expect(session.status).toBe('exited');
+  });
+
+  it('should not leave a report directory behind for frameworks without watch mode', async () => {
+    const reportDirs = async () =>
+      (await fs.readdir(os.tmpdir())).filter((name) => name.startsWith('test-watch-') && !name.startsWith('test-watch-project-'));
+    const before = await reportDirs();
+
+    expect(() =>
+      startWatch(
+        { framework: 'playwright', projectPath: projectDir, testPattern: '**/*.spec.ts', historyFile: '.test-history.json' },
+        {},
+        () => undefined
+      )
+    ).toThrow('Playwright has no watch mode');
+    expect(await reportDirs()).toEqual(before);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Watch mode
+ *
+ * Keeps the framework's own watcher running with its JSON reporter writing
+ * to a temporary file, and parses the report every time it is rewritten.
+ */
+
+import { existsSync, promises as fs, watch as watchDirectory, FSWatcher, mkdtempSync, rmSync } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execa } from 'execa';
+import { TestCommand, buildTestCommand } from './frameworks.js';
+import { parseReport } from './parsers.js';
+import { RunOptions, TestRunnerConfig } from './runner.js';
+import { TestRunResult } from './types.js';
+
+export type WatchEvent =
+  | { type: 'result'; session: WatchSession; result: TestRunResult }
+  | { type: 'exit'; session: WatchSession; exitCode: number | null; output: string };
+
+export interface WatchSession {
+  id: string;
+  pattern?: string;
+  startedAt: string;
+  status: 'running' | 'exited' | 'stopped';
+  runs: number;
+  lastResult: TestRunResult | null;
+  stop: () => Promise<void>;
+}
+
+// Reporters may write the file in several chunks; wait for writes to settle
+const REPORT_DEBOUNCE_MS = 200;
+
+// Keep only the tail of the watcher's console output for exit diagnostics
+const MAX_OUTPUT_LENGTH = 10000;
+
+let nextWatchId = 1;
+
+export function startWatch(
+  config: TestRunnerConfig,
+  options: Omit<RunOptions, 'coverage' | 'bail'>,
+  onEvent: (event: WatchEvent) => void
+): WatchSession {
+  const reportDir = mkdtempSync(path.join(os.tmpdir(), 'test-watch-'));
+  const reportFile = path.join(reportDir, 'report.json');
+  let command: TestCommand;
+  try {
+    command = buildTestCommand(config.framework, { ...options, watch: true, reportFile });
+  } catch (error) {
+    // Frameworks without a watch mode throw here; don't leave the report directory behind
+    rmSync(reportDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  const child = execa(command.cmd, command.args, {
+    cwd: config.projectPath,
+    env: command.env,
+    preferLocal: true,
+    reject: false,
+    buffer: false,
+    stdin: 'ignore',
+  });
+
+  let output = '';
+  const capture = (chunk: Buffer) => {
+    output = (output + chunk.toString()).slice(-MAX_OUTPUT_LENGTH);
+  };
+  child.stdout?.on('data', capture);
+  child.stderr?.on('data', capture);
+
+  let timer: NodeJS.Timeout | null = null;
+  let lastReport = '';
+  let watcher: FSWatcher | null = null;
+
+  const cleanup = async () => {
+    if (timer) clearTimeout(timer);
+    watcher?.close();
+    watcher = null;
+    await fs.rm(reportDir, { recursive: true, force: true });
+  };
+
+  const session: WatchSession = {
+    id: `watch-${nextWatchId++}`,
+    pattern: options.pattern,
+    startedAt: new Date().toISOString(),
+    status: 'running',
+    runs: 0,
+    lastResult: null,
+    stop: async () => {
+      if (session.status !== 'running') return;
+      session.status = 'stopped';
+      child.kill();
+      await cleanup();
+    },
+  };
+
+  const readReport = async () => {
+    timer = null;
+    if (!existsSync(reportFile)) return;
+    const text = await fs.readFile(reportFile, 'utf-8').catch(() => '');
+    if (!text || text === lastReport) return;
+
+    let report: unknown;
+    try {
+      report = JSON.parse(text);
+    } catch {
+      // Partially written; the next change event will pick it up
+      return;
+    }
+    lastReport = text;
+    session.runs++;
+    session.lastResult = parseReport(config.framework, report, config.projectPath);
+    onEvent({ type: 'result', session, result: session.lastResult });
+  };
+
+  watcher = watchDirectory(reportDir, () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => void readReport(), REPORT_DEBOUNCE_MS);
+  });
+
+  child.then(async (result) => {
+    if (session.status !== 'running') return;
+    // Pick up a report written just before exit
+    await readReport();
+    session.status = 'exited';
+    await cleanup();
+    onEvent({
+      type: 'exit',
+      session,
+      exitCode: result.exitCode ?? null,
+      output: 'code' in result && result.code === 'ENOENT' ? `${command.cmd} not found` : output.trim(),
+    });
+  });
+
+  return session;
+}